@@ -18,14 +18,16 @@ CREATE TABLE users (
     last_login_at TIMESTAMP WITH TIME ZONE,
     last_password_change TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     password_expires_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() + INTERVAL '90 days'),
-    failed_login_attempts INTEGER DEFAULT 0,
-    locked_until TIMESTAMP WITH TIME ZONE,
+    -- Failed sign-ins and lockouts are kept per email and per IP address in login_lockouts
     email_verified BOOLEAN DEFAULT false,
     email_verification_token VARCHAR(255),
     password_reset_token VARCHAR(255),
     password_reset_expires TIMESTAMP WITH TIME ZONE,
     two_factor_secret VARCHAR(255),
     two_factor_enabled BOOLEAN DEFAULT false,
+    two_factor_enabled_at TIMESTAMP WITH TIME ZONE,
+    two_factor_recovery_codes JSONB DEFAULT '[]'::jsonb, -- SHA-256 hashes; each code is removed once used
+    two_factor_last_used_step BIGINT, -- Last accepted TOTP time step, so a code cannot be replayed
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -41,7 +43,7 @@ CREATE TABLE quote_requests (
     service VARCHAR(100) NOT NULL,
     details TEXT NOT NULL,
     photo_files JSONB DEFAULT '[]'::jsonb,
-    status VARCHAR(20) NOT NULL DEFAULT 'review' CHECK (status IN ('review', 'quoted', 'accepted', 'rejected', 'completed')),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'under_review', 'quote_sent', 'accepted', 'rejected', 'expired')),
     quoted_amount DECIMAL(10,2),
     estimated_value DECIMAL(10,2),
     admin_notes TEXT,
@@ -55,29 +57,412 @@ CREATE TABLE quote_requests (
     updated_by VARCHAR(255)
 );
 
+-- Projects table (IDs are domain-generated, not UUIDs)
+CREATE TABLE projects (
+    id VARCHAR(255) PRIMARY KEY,
+    title VARCHAR(200) NOT NULL,
+    property_code VARCHAR(50),
+    client VARCHAR(255) NOT NULL,
+    service_class VARCHAR(20) NOT NULL CHECK (service_class IN ('commercial', 'residential')),
+    service_type VARCHAR(100) NOT NULL,
+    current_status INTEGER NOT NULL DEFAULT 0 CHECK (current_status >= 0),
+    status_labels JSONB NOT NULL,
+    show_status_bar BOOLEAN NOT NULL DEFAULT true,
+    admin_notes TEXT,
+    address_street VARCHAR(255),
+    address_city VARCHAR(100),
+    address_state VARCHAR(50),
+    address_zip_code VARCHAR(20),
+    address_latitude DECIMAL(9,6), -- Site coordinates for geofenced time clock-ins
+    address_longitude DECIMAL(9,6),
+    contact_name VARCHAR(255),
+    contact_phone VARCHAR(50),
+    contact_email VARCHAR(255),
+    contract_id VARCHAR(50),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Databases created before site coordinates were stored
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS address_latitude DECIMAL(9,6);
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS address_longitude DECIMAL(9,6);
+
+-- Project status history (append-only)
+CREATE TABLE project_status_history (
+    id VARCHAR(255) PRIMARY KEY,
+    project_id VARCHAR(255) NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    from_status INTEGER,
+    to_status INTEGER NOT NULL,
+    label VARCHAR(100) NOT NULL,
+    notes TEXT,
+    changed_by VARCHAR(255),
+    changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Contracts table (created when a quote is accepted)
+CREATE TABLE contracts (
+    id VARCHAR(255) PRIMARY KEY,
+    contract_id VARCHAR(20) NOT NULL UNIQUE, -- Business ID, e.g. VSR-2025-001
+    customer_name VARCHAR(255) NOT NULL,
+    email VARCHAR(255) NOT NULL,
+    phone VARCHAR(50) NOT NULL,
+    service_type VARCHAR(100) NOT NULL,
+    address TEXT NOT NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('active', 'completed', 'cancelled', 'on_hold')),
+    start_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    end_date TIMESTAMP WITH TIME ZONE,
+    contract_value DECIMAL(12,2) NOT NULL,
+    description TEXT NOT NULL,
+    project_manager VARCHAR(255),
+    estimator VARCHAR(255),
+    region VARCHAR(255),
+    notes TEXT,
+    source_quote_id VARCHAR(255),
+    snow_trigger_inches DECIMAL(5,2),
+    billing_basis VARCHAR(20) CHECK (billing_basis IS NULL OR billing_basis IN ('per_push', 'per_season')),
+    season_installments INTEGER,
+    push_rate DECIMAL(12,2),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Last contract ID sequence handed out per year; every instance allocates through the same row
+CREATE TABLE contract_id_sequences (
+    year INTEGER PRIMARY KEY,
+    last_sequence INTEGER NOT NULL
+);
+
+-- Work orders (dispatch board and storm routes)
+CREATE TABLE work_orders (
+    id VARCHAR(255) PRIMARY KEY,
+    property_code VARCHAR(50) NOT NULL,
+    client_name VARCHAR(255) NOT NULL,
+    service_address VARCHAR(500) NOT NULL,
+    zip_code VARCHAR(10) NOT NULL,
+    service_type VARCHAR(50) NOT NULL,
+    priority VARCHAR(20) NOT NULL CHECK (priority IN ('standard', 'high', 'urgent', 'emergency')),
+    scheduled_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    estimated_hours DECIMAL(5,2) NOT NULL,
+    equipment_required JSONB NOT NULL DEFAULT '[]',
+    special_instructions TEXT,
+    weather_conditions TEXT,
+    access_notes TEXT,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('requested', 'dispatched', 'en_route', 'on_site', 'complete', 'verified')),
+    assigned_to VARCHAR(255),
+    requested_by VARCHAR(255) NOT NULL,
+    completion_notes TEXT,
+    verified_by VARCHAR(255),
+    storm_event_id VARCHAR(255),
+    storm_route VARCHAR(100),
+    storm_sequence INTEGER,
+    status_history JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Storm events (forecast, declared and closed snow events)
+CREATE TABLE storm_events (
+    id VARCHAR(255) PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ends_at TIMESTAMP WITH TIME ZONE,
+    expected_accumulation_inches DECIMAL(5,1) NOT NULL,
+    trigger_threshold_inches DECIMAL(5,1) NOT NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('forecast', 'declared', 'closed')),
+    work_order_ids JSONB NOT NULL DEFAULT '[]',
+    created_by VARCHAR(255) NOT NULL,
+    declared_by VARCHAR(255),
+    declared_at TIMESTAMP WITH TIME ZONE,
+    closed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Snow service log entries submitted by crews
+CREATE TABLE service_log_entries (
+    id VARCHAR(255) PRIMARY KEY,
+    service_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    property_code VARCHAR(50) NOT NULL,
+    description VARCHAR(255) NOT NULL,
+    location_description TEXT NOT NULL,
+    service_code CHAR(1) NOT NULL CHECK (service_code BETWEEN 'A' AND 'U'),
+    time_in VARCHAR(5) NOT NULL,
+    time_out VARCHAR(5) NOT NULL,
+    crew JSONB NOT NULL DEFAULT '[]',
+    contract_rate DECIMAL(10,2) NOT NULL,
+    ice_melt_bags DECIMAL(8,2) NOT NULL DEFAULT 0,
+    deicer_gallons DECIMAL(8,2) NOT NULL DEFAULT 0,
+    ice_slicer_tons DECIMAL(8,2) NOT NULL DEFAULT 0,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('submitted', 'approved', 'rejected')),
+    submitted_by VARCHAR(255) NOT NULL,
+    reviews JSONB NOT NULL DEFAULT '[]',
+    photos JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Yard inventory (stock movements are stored with the item)
+CREATE TABLE inventory_items (
+    id VARCHAR(255) PRIMARY KEY,
+    sku VARCHAR(30) NOT NULL,
+    yard VARCHAR(50) NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    unit VARCHAR(20) NOT NULL,
+    material VARCHAR(30) CHECK (material IS NULL OR material IN ('iceMeltBags', 'deicerGallons', 'iceSlicerTons')),
+    on_hand DECIMAL(12,2) NOT NULL DEFAULT 0,
+    reorder_threshold DECIMAL(12,2) NOT NULL DEFAULT 0,
+    reorder_quantity DECIMAL(12,2) NOT NULL DEFAULT 0,
+    movements JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    UNIQUE (sku, yard)
+);
+
+-- Equipment with checkout and maintenance history
+CREATE TABLE equipment (
+    id VARCHAR(255) PRIMARY KEY,
+    asset_tag VARCHAR(30) NOT NULL UNIQUE,
+    name VARCHAR(100) NOT NULL,
+    category VARCHAR(50) NOT NULL,
+    yard VARCHAR(50) NOT NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('available', 'checked_out', 'in_maintenance', 'retired')),
+    maintenance_interval_days INTEGER NOT NULL,
+    maintenance_due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    checkouts JSONB NOT NULL DEFAULT '[]',
+    maintenance JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Employee time clock entries
+CREATE TABLE time_entries (
+    id VARCHAR(255) PRIMARY KEY,
+    employee VARCHAR(255) NOT NULL,
+    property_code VARCHAR(50),
+    project_id VARCHAR(255),
+    site_name VARCHAR(200),
+    status VARCHAR(20) NOT NULL CHECK (status IN ('open', 'completed', 'approved', 'rejected')),
+    clock_in_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    clock_out_at TIMESTAMP WITH TIME ZONE,
+    breaks JSONB NOT NULL DEFAULT '[]',
+    break_minutes_override INTEGER,
+    clock_in_check JSONB NOT NULL, -- Geofence result at clock-in
+    clock_out_check JSONB,
+    notes TEXT,
+    reviews JSONB NOT NULL DEFAULT '[]',
+    corrections JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    CHECK (clock_out_at IS NULL OR clock_out_at > clock_in_at)
+);
+
+-- Invoices (line items and payments are stored with the invoice)
+CREATE TABLE invoices (
+    id VARCHAR(255) PRIMARY KEY,
+    invoice_number VARCHAR(30) NOT NULL UNIQUE,
+    contract_id VARCHAR(50) NOT NULL,
+    bill_to JSONB NOT NULL,
+    period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    line_items JSONB NOT NULL DEFAULT '[]',
+    service_log_entry_ids JSONB NOT NULL DEFAULT '[]',
+    tax_rate DECIMAL(5,2) NOT NULL DEFAULT 0,
+    payment_terms_days INTEGER NOT NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('draft', 'sent', 'partially_paid', 'paid', 'overdue', 'void')),
+    issued_at TIMESTAMP WITH TIME ZONE,
+    due_at TIMESTAMP WITH TIME ZONE,
+    sent_to VARCHAR(255),
+    last_sent_at TIMESTAMP WITH TIME ZONE,
+    payments JSONB NOT NULL DEFAULT '[]',
+    notes TEXT,
+    voided_at TIMESTAMP WITH TIME ZONE,
+    voided_by VARCHAR(255),
+    void_reason TEXT,
+    created_by VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Last invoice number sequence handed out per year; every instance allocates through the same row
+CREATE TABLE invoice_number_sequences (
+    year INTEGER PRIMARY KEY,
+    last_sequence INTEGER NOT NULL
+);
+
 -- User sessions table
 CREATE TABLE user_sessions (
-    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-    session_id VARCHAR(255) UNIQUE NOT NULL,
-    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-    ip_address INET,
-    user_agent TEXT,
-    is_active BOOLEAN DEFAULT true,
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    last_activity TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    expires_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() + INTERVAL '24 hours')
+    id VARCHAR(255) PRIMARY KEY,
+    user_id VARCHAR(255) NOT NULL,
+    family_id VARCHAR(255) NOT NULL, -- One sign-in; refreshing adds a session to the same family
+    refresh_token_hash VARCHAR(64) NOT NULL UNIQUE, -- SHA-256 of the single-use refresh token
+    remember_me BOOLEAN NOT NULL DEFAULT false,
+    ip VARCHAR(100) NOT NULL,
+    user_agent TEXT NOT NULL,
+    signed_in_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    last_active_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    refresh_expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    rotated_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    revoked_reason VARCHAR(50)
 );
 
+-- Databases from before refresh-token sessions: their sessions have no refresh token and cannot be
+-- resumed, so they are cleared and the table is converted in place; everyone signs in again once
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = 'user_sessions' AND column_name = 'session_id') THEN
+    DELETE FROM user_sessions;
+    DROP INDEX IF EXISTS idx_user_sessions_session_id;
+    DROP INDEX IF EXISTS idx_user_sessions_active;
+    ALTER TABLE user_sessions DROP CONSTRAINT IF EXISTS user_sessions_user_id_fkey;
+    ALTER TABLE user_sessions RENAME COLUMN ip_address TO ip;
+    ALTER TABLE user_sessions RENAME COLUMN last_activity TO last_active_at;
+    ALTER TABLE user_sessions ALTER COLUMN id DROP DEFAULT;
+    ALTER TABLE user_sessions
+      DROP COLUMN session_id,
+      DROP COLUMN is_active,
+      ALTER COLUMN id TYPE VARCHAR(255) USING id::text,
+      ALTER COLUMN user_id TYPE VARCHAR(255) USING user_id::text,
+      ALTER COLUMN ip TYPE VARCHAR(100) USING host(ip),
+      ALTER COLUMN ip SET NOT NULL,
+      ALTER COLUMN user_agent SET NOT NULL,
+      ALTER COLUMN created_at DROP DEFAULT,
+      ALTER COLUMN created_at SET NOT NULL,
+      ALTER COLUMN last_active_at DROP DEFAULT,
+      ALTER COLUMN last_active_at SET NOT NULL,
+      ALTER COLUMN expires_at DROP DEFAULT,
+      ALTER COLUMN expires_at SET NOT NULL,
+      ADD COLUMN family_id VARCHAR(255) NOT NULL,
+      ADD COLUMN refresh_token_hash VARCHAR(64) NOT NULL UNIQUE,
+      ADD COLUMN remember_me BOOLEAN NOT NULL DEFAULT FALSE,
+      ADD COLUMN signed_in_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      ADD COLUMN refresh_expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      ADD COLUMN rotated_at TIMESTAMP WITH TIME ZONE,
+      ADD COLUMN revoked_at TIMESTAMP WITH TIME ZONE,
+      ADD COLUMN revoked_reason VARCHAR(50);
+  END IF;
+END $$;
+
 -- Login attempts audit log
 CREATE TABLE login_attempts (
-    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    id VARCHAR(255) PRIMARY KEY,
+    user_id VARCHAR(255), -- Null for attempts on emails with no account
     email VARCHAR(255) NOT NULL,
-    ip_address INET,
-    user_agent TEXT,
+    ip_address VARCHAR(100) NOT NULL,
+    user_agent TEXT NOT NULL,
+    device VARCHAR(100) NOT NULL, -- Browser and platform, e.g. "Chrome on Windows"
+    country VARCHAR(2), -- From the IP range table, when known
     success BOOLEAN NOT NULL,
     failure_reason VARCHAR(255),
-    attempted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    flags JSONB NOT NULL DEFAULT '[]'::jsonb, -- new_device, new_country
+    attempted_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Sign-in failure counters and lockouts, per account (email) and per IP address
+CREATE TABLE login_lockouts (
+    scope VARCHAR(20) NOT NULL, -- account or ip
+    subject VARCHAR(255) NOT NULL,
+    failures INTEGER NOT NULL DEFAULT 0,
+    window_started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    strikes INTEGER NOT NULL DEFAULT 0, -- Each lock lasts twice as long as the last
+    last_failure_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    locked_at TIMESTAMP WITH TIME ZONE,
+    locked_until TIMESTAMP WITH TIME ZONE,
+    PRIMARY KEY (scope, subject)
+);
+
+-- Databases from before the login policy: attempts are converted in place, and account lockouts move
+-- from the users table to login_lockouts; the old users columns are dropped once carried over, so this runs once
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = 'login_attempts' AND column_name = 'device') THEN
+    ALTER TABLE login_attempts DROP CONSTRAINT IF EXISTS login_attempts_user_id_fkey;
+    ALTER TABLE login_attempts ALTER COLUMN id DROP DEFAULT;
+    UPDATE login_attempts SET user_agent = '' WHERE user_agent IS NULL;
+    UPDATE login_attempts SET attempted_at = NOW() WHERE attempted_at IS NULL;
+    ALTER TABLE login_attempts
+      ALTER COLUMN id TYPE VARCHAR(255) USING id::text,
+      ALTER COLUMN user_id TYPE VARCHAR(255) USING user_id::text,
+      ALTER COLUMN ip_address TYPE VARCHAR(100) USING COALESCE(host(ip_address), 'unknown'),
+      ALTER COLUMN ip_address SET NOT NULL,
+      ALTER COLUMN user_agent SET NOT NULL,
+      ALTER COLUMN attempted_at DROP DEFAULT,
+      ALTER COLUMN attempted_at SET NOT NULL,
+      ADD COLUMN device VARCHAR(100),
+      ADD COLUMN country VARCHAR(2),
+      ADD COLUMN flags JSONB NOT NULL DEFAULT '[]';
+    -- Same rules as describeDevice in src/lib/user-agent.ts, so old sign-ins still count as known devices
+    UPDATE login_attempts SET device =
+      (CASE WHEN user_agent ~ 'Edg/' THEN 'Edge'
+            WHEN user_agent ~ 'Chrome/' THEN 'Chrome'
+            WHEN user_agent ~ 'Firefox/' THEN 'Firefox'
+            WHEN user_agent ~ 'Safari/' THEN 'Safari'
+            ELSE 'Unknown browser' END)
+      || ' on ' ||
+      (CASE WHEN user_agent ~ 'iPhone|iPad' THEN 'iOS'
+            WHEN user_agent ~ 'Android' THEN 'Android'
+            WHEN user_agent ~ 'Windows' THEN 'Windows'
+            WHEN user_agent ~ 'Mac OS X' THEN 'macOS'
+            WHEN user_agent ~ 'Linux' THEN 'Linux'
+            ELSE 'unknown device' END);
+    ALTER TABLE login_attempts ALTER COLUMN device SET NOT NULL;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = 'users' AND column_name = 'locked_until') THEN
+    INSERT INTO login_lockouts (scope, subject, failures, window_started_at, strikes, last_failure_at, locked_at, locked_until)
+    SELECT 'account', LOWER(TRIM(email)), COALESCE(failed_login_attempts, 0), NOW(),
+           CASE WHEN locked_until > NOW() THEN 1 ELSE 0 END, NOW(),
+           CASE WHEN locked_until > NOW() THEN NOW() END,
+           CASE WHEN locked_until > NOW() THEN locked_until END
+    FROM users
+    WHERE locked_until > NOW() OR COALESCE(failed_login_attempts, 0) > 0
+    ON CONFLICT (scope, subject) DO NOTHING;
+    ALTER TABLE users DROP COLUMN IF EXISTS failed_login_attempts, DROP COLUMN locked_until;
+  END IF;
+END $$;
+
+-- Permissions (resource and action pairs)
+CREATE TABLE permissions (
+    id VARCHAR(255) PRIMARY KEY,
+    name VARCHAR(100) NOT NULL UNIQUE,
+    resource VARCHAR(100) NOT NULL,
+    action VARCHAR(100) NOT NULL,
+    description TEXT,
+    conditions JSONB NOT NULL DEFAULT '[]'
+);
+
+-- Roles; system roles are seeded and cannot be deleted
+CREATE TABLE roles (
+    id VARCHAR(255) PRIMARY KEY,
+    name VARCHAR(50) NOT NULL,
+    description TEXT,
+    is_system_role BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE TABLE role_permissions (
+    role_id VARCHAR(255) NOT NULL REFERENCES roles(id) ON DELETE CASCADE,
+    permission_id VARCHAR(255) NOT NULL REFERENCES permissions(id) ON DELETE CASCADE,
+    PRIMARY KEY (role_id, permission_id)
+);
+
+-- Role assignments
+CREATE TABLE user_roles (
+    user_id VARCHAR(255) NOT NULL,
+    role_id VARCHAR(255) NOT NULL REFERENCES roles(id) ON DELETE CASCADE,
+    assigned_by VARCHAR(255) NOT NULL,
+    assigned_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    PRIMARY KEY (user_id, role_id)
+);
+
+-- Permissions granted directly to a user, on top of their roles
+CREATE TABLE user_permissions (
+    user_id VARCHAR(255) NOT NULL,
+    permission_id VARCHAR(255) NOT NULL REFERENCES permissions(id) ON DELETE CASCADE,
+    PRIMARY KEY (user_id, permission_id)
 );
 
 -- Password history for preventing reuse
@@ -119,11 +504,46 @@ CREATE INDEX idx_users_role ON users(role);
 CREATE INDEX idx_quote_requests_status ON quote_requests(status);
 CREATE INDEX idx_quote_requests_email ON quote_requests(email);
 CREATE INDEX idx_quote_requests_submitted_at ON quote_requests(submitted_at);
-CREATE INDEX idx_user_sessions_session_id ON user_sessions(session_id);
+CREATE INDEX idx_projects_service_type ON projects(service_type);
+CREATE INDEX idx_projects_property_code ON projects(property_code);
+CREATE INDEX idx_projects_contract_id ON projects(contract_id);
+CREATE INDEX idx_project_status_history_project_id ON project_status_history(project_id);
+CREATE INDEX idx_contracts_email ON contracts(email);
+CREATE INDEX idx_contracts_status ON contracts(status);
+CREATE INDEX idx_contracts_source_quote_id ON contracts(source_quote_id);
+CREATE INDEX idx_contracts_created_at ON contracts(created_at);
+CREATE INDEX idx_work_orders_status ON work_orders(status);
+CREATE INDEX idx_work_orders_assigned_to ON work_orders(LOWER(assigned_to));
+CREATE INDEX idx_work_orders_property_code ON work_orders(property_code);
+CREATE INDEX idx_work_orders_scheduled_date ON work_orders(scheduled_date);
+CREATE INDEX idx_work_orders_storm_event_id ON work_orders(storm_event_id);
+CREATE INDEX idx_storm_events_status ON storm_events(status);
+CREATE INDEX idx_storm_events_starts_at ON storm_events(starts_at);
+CREATE INDEX idx_service_log_entries_status ON service_log_entries(status);
+CREATE INDEX idx_service_log_entries_submitted_by ON service_log_entries(LOWER(submitted_by));
+CREATE INDEX idx_service_log_entries_property_code ON service_log_entries(property_code);
+CREATE INDEX idx_service_log_entries_service_date ON service_log_entries(service_date);
+CREATE INDEX idx_inventory_items_yard ON inventory_items(yard);
+CREATE INDEX idx_inventory_items_material ON inventory_items(material);
+CREATE INDEX idx_equipment_status ON equipment(status);
+CREATE INDEX idx_equipment_yard ON equipment(yard);
+CREATE INDEX idx_equipment_maintenance_due_at ON equipment(maintenance_due_at);
+CREATE INDEX idx_time_entries_employee ON time_entries(LOWER(employee));
+CREATE INDEX idx_time_entries_status ON time_entries(status);
+CREATE INDEX idx_time_entries_clock_in_at ON time_entries(clock_in_at);
+CREATE UNIQUE INDEX idx_time_entries_open_employee ON time_entries(LOWER(employee)) WHERE status = 'open'; -- One running shift per employee
+CREATE INDEX idx_invoices_contract_id ON invoices(contract_id);
+CREATE INDEX idx_invoices_status ON invoices(status);
+CREATE INDEX idx_invoices_created_at ON invoices(created_at);
 CREATE INDEX idx_user_sessions_user_id ON user_sessions(user_id);
-CREATE INDEX idx_user_sessions_active ON user_sessions(is_active);
+CREATE INDEX idx_user_sessions_family_id ON user_sessions(family_id);
+CREATE INDEX idx_user_sessions_refresh_expires_at ON user_sessions(refresh_expires_at);
 CREATE INDEX idx_login_attempts_email ON login_attempts(email);
+CREATE INDEX idx_login_attempts_user_id ON login_attempts(user_id);
 CREATE INDEX idx_login_attempts_attempted_at ON login_attempts(attempted_at);
+CREATE INDEX idx_login_lockouts_locked_until ON login_lockouts(locked_until);
+CREATE UNIQUE INDEX idx_roles_name ON roles(LOWER(name)); -- Role names are unique regardless of case
+CREATE INDEX idx_user_roles_role_id ON user_roles(role_id);
 CREATE INDEX idx_password_history_user_id ON password_history(user_id);
 CREATE INDEX idx_analytics_events_type ON analytics_events(event_type);
 CREATE INDEX idx_analytics_events_created_at ON analytics_events(created_at);
@@ -140,6 +560,7 @@ $$ language 'plpgsql';
 -- Apply updated_at triggers
 CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_quote_requests_updated_at BEFORE UPDATE ON quote_requests FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_projects_updated_at BEFORE UPDATE ON projects FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_service_status_updated_at BEFORE UPDATE ON service_status FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 -- Insert default service status
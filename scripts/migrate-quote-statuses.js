@@ -0,0 +1,227 @@
+#!/usr/bin/env node
+
+/**
+ * Migration Script: Canonical Quote Statuses
+ * Rewrites legacy quote statuses in data/quote-requests.json and PostgreSQL
+ * to the values defined in src/domain/quote/QuoteStatus.ts
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { Pool } = require('pg');
+
+// Keep in sync with QuoteStatus and LEGACY_QUOTE_STATUS_MAP in src/domain/quote/QuoteStatus.ts
+const CANONICAL_STATUSES = ['pending', 'under_review', 'quote_sent', 'accepted', 'rejected', 'expired'];
+const LEGACY_STATUS_MAP = {
+  review: 'under_review',
+  reviewed: 'under_review',
+  quoted: 'quote_sent',
+  declined: 'rejected',
+  completed: 'accepted'
+};
+
+const QUOTE_REQUESTS_FILE = path.join(__dirname, '..', 'data', 'quote-requests.json');
+
+// Load environment variables
+function loadEnvFile() {
+  try {
+    const envPath = path.join(__dirname, '..', '.env.local');
+    const envContent = fs.readFileSync(envPath, 'utf8');
+    
+    envContent.split('\n').forEach(line => {
+      const trimmed = line.trim();
+      if (trimmed && !trimmed.startsWith('#')) {
+        const [key, ...valueParts] = trimmed.split('=');
+        if (key && valueParts.length > 0) {
+          process.env[key.trim()] = valueParts.join('=').trim();
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Could not load .env.local file:', error.message);
+  }
+}
+
+// Database configuration
+function getDbConfig() {
+  return {
+    host: process.env.DATABASE_HOST || 'localhost',
+    port: parseInt(process.env.DATABASE_PORT || '5432'),
+    database: process.env.DATABASE_NAME || 'vsr_construction',
+    user: process.env.DATABASE_USER || 'vsr_app',
+    password: process.env.DATABASE_PASSWORD || '',
+    ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+  };
+}
+
+// Returns the canonical status, or null when the value is not recognised
+function toCanonicalStatus(status) {
+  const normalized = String(status || '').trim().toLowerCase();
+  if (CANONICAL_STATUSES.includes(normalized)) {
+    return normalized;
+  }
+  return LEGACY_STATUS_MAP[normalized] || null;
+}
+
+// Migrate the admin JSON store
+function migrateJsonFile(dryRun) {
+  console.log(`\n📋 Migrating ${QUOTE_REQUESTS_FILE}...`);
+
+  if (!fs.existsSync(QUOTE_REQUESTS_FILE)) {
+    console.log('  ⏭️  File not found, skipping');
+    return;
+  }
+
+  const requests = JSON.parse(fs.readFileSync(QUOTE_REQUESTS_FILE, 'utf8'));
+  let changed = 0;
+
+  for (const request of requests) {
+    const canonical = toCanonicalStatus(request.status);
+    if (!canonical) {
+      console.warn(`  ⚠️  ${request.id}: unknown status "${request.status}", setting to pending`);
+    }
+    const next = canonical || 'pending';
+    if (next !== request.status) {
+      console.log(`  ${request.id}: ${request.status} -> ${next}`);
+      request.status = next;
+      changed++;
+    }
+  }
+
+  if (changed === 0) {
+    console.log('  ✅ Already up to date');
+    return;
+  }
+
+  if (dryRun) {
+    console.log(`  Would update ${changed} quote requests`);
+    return;
+  }
+
+  // Write atomically so a crash cannot leave a truncated file behind
+  const tmpFile = `${QUOTE_REQUESTS_FILE}.tmp`;
+  fs.copyFileSync(QUOTE_REQUESTS_FILE, `${QUOTE_REQUESTS_FILE}.bak`);
+  fs.writeFileSync(tmpFile, JSON.stringify(requests, null, 2));
+  fs.renameSync(tmpFile, QUOTE_REQUESTS_FILE);
+  console.log(`  ✅ Updated ${changed} quote requests (backup: quote-requests.json.bak)`);
+}
+
+// Mirrors toCanonicalStatus: unknown values become pending, as in the JSON store
+function buildStatusCase(column) {
+  const cases = [
+    ...CANONICAL_STATUSES.map(status => [status, status]),
+    ...Object.entries(LEGACY_STATUS_MAP)
+  ]
+    .map(([from, to]) => `WHEN '${from}' THEN '${to}'`)
+    .join(' ');
+  return `CASE LOWER(TRIM(${column})) ${cases} ELSE 'pending' END`;
+}
+
+// Migrate the quote_requests and quotes tables
+async function migrateDatabase(pool, dryRun) {
+  console.log('\n🗄️  Migrating PostgreSQL quote statuses...');
+
+  const client = await pool.connect();
+  try {
+    for (const table of ['quote_requests', 'quotes']) {
+      const exists = await client.query('SELECT to_regclass($1) AS name', [table]);
+      if (!exists.rows[0].name) {
+        console.log(`  ⏭️  Table ${table} not found, skipping`);
+        continue;
+      }
+
+      const counts = await client.query(
+        `SELECT status, COUNT(*) AS count FROM ${table} WHERE status <> ALL($1) GROUP BY status`,
+        [CANONICAL_STATUSES]
+      );
+      counts.rows.forEach(row => {
+        const canonical = toCanonicalStatus(row.status);
+        if (!canonical) {
+          console.warn(`  ⚠️  ${table}: ${row.count} × unknown status "${row.status}", setting to pending`);
+          return;
+        }
+        console.log(`  ${table}: ${row.count} × ${row.status} -> ${canonical}`);
+      });
+
+      if (dryRun) {
+        continue;
+      }
+
+      await client.query('BEGIN');
+      if (table === 'quote_requests') {
+        await client.query('ALTER TABLE quote_requests DROP CONSTRAINT IF EXISTS quote_requests_status_check');
+      }
+      const updated = await client.query(
+        `UPDATE ${table} SET status = ${buildStatusCase('status')} WHERE status <> ALL($1)`,
+        [CANONICAL_STATUSES]
+      );
+      if (table === 'quote_requests') {
+        await client.query(`
+          ALTER TABLE quote_requests
+            ALTER COLUMN status SET DEFAULT 'pending',
+            ADD CONSTRAINT quote_requests_status_check CHECK (status IN (${CANONICAL_STATUSES.map(s => `'${s}'`).join(', ')}))
+        `);
+      }
+      await client.query('COMMIT');
+
+      console.log(`  ✅ ${table}: updated ${updated.rowCount} rows`);
+    }
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function runMigration({ dryRun = false, skipDatabase = false } = {}) {
+  console.log(`🚀 Migrating quote statuses${dryRun ? ' (dry run)' : ''}...`);
+
+  migrateJsonFile(dryRun);
+
+  if (skipDatabase) {
+    console.log('\n⏭️  Skipping PostgreSQL (--json-only)');
+    return;
+  }
+
+  const pool = new Pool(getDbConfig());
+  try {
+    await migrateDatabase(pool, dryRun);
+  } finally {
+    await pool.end();
+  }
+
+  console.log('\n✅ Quote status migration completed');
+}
+
+// CLI interface
+if (require.main === module) {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Quote Status Migration Script
+
+Usage:
+  node scripts/migrate-quote-statuses.js [options]
+
+Options:
+  --help, -h     Show this help message
+  --dry-run      Show what would change without making changes
+  --json-only    Only migrate data/quote-requests.json
+
+Legacy mapping:
+${Object.entries(LEGACY_STATUS_MAP).map(([legacy, canonical]) => `  ${legacy.padEnd(10)} -> ${canonical}`).join('\n')}
+`);
+    process.exit(0);
+  }
+
+  loadEnvFile();
+
+  runMigration({ dryRun: args.includes('--dry-run'), skipDatabase: args.includes('--json-only') }).catch(error => {
+    console.error('\n❌ Migration failed:', error.message);
+    process.exit(1);
+  });
+}
+
+module.exports = { runMigration, toCanonicalStatus, LEGACY_STATUS_MAP, CANONICAL_STATUSES };
\ No newline at end of file
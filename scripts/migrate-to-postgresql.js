@@ -9,6 +9,7 @@ const fs = require('fs');
 const path = require('path');
 const { Pool } = require('pg');
 const bcrypt = require('bcrypt');
+const { toCanonicalStatus } = require('./migrate-quote-statuses');
 
 // Load environment variables
 function loadEnvFile() {
@@ -135,7 +136,7 @@ async function migrateQuotes(pool, quotes) {
         quote.service,
         quote.details,
         JSON.stringify(quote.photoFiles || []),
-        quote.status || 'review',
+        toCanonicalStatus(quote.status) || 'pending',
         quote.quotedAmount || null,
         quote.estimatedValue || null,
         quote.adminNotes || null,
@@ -5,6 +5,14 @@
 
 import { BaseCommand, CommandResult } from '../../cqrs/Command';
 import { QuotePriority } from '../../../domain/quote/Quote';
+import { EstimateInput } from '../../../domain/quote/Estimate';
+
+// Request details captured alongside a customer's typed-name signature
+export interface CustomerSignatureEvidence {
+  ipAddress: string;
+  userAgent: string;
+  revision: number;
+}
 
 export class MoveQuoteToReviewCommand extends BaseCommand {
   constructor(
@@ -22,6 +30,8 @@ export class SendQuoteCommand extends BaseCommand {
     public readonly estimatedValue: number,
     public readonly notes?: string,
     public readonly validUntil?: Date,
+    public readonly estimate?: EstimateInput, // Itemized estimate; estimatedValue is ignored when present
+    public readonly serviceAddress?: string,
     correlationId?: string,
     userId?: string
   ) {
@@ -46,6 +56,8 @@ export class RejectQuoteCommand extends BaseCommand {
     public readonly quoteId: string,
     public readonly reason: string,
     public readonly notifyCustomer: boolean = true,
+    public readonly customerSignature?: string,
+    public readonly signatureEvidence?: CustomerSignatureEvidence,
     correlationId?: string,
     userId?: string
   ) {
@@ -58,6 +70,71 @@ export class AcceptQuoteCommand extends BaseCommand {
     public readonly quoteId: string,
     public readonly customerSignature?: string,
     public readonly acceptanceDate?: Date,
+    public readonly signatureEvidence?: CustomerSignatureEvidence,
+    correlationId?: string,
+    userId?: string
+  ) {
+    super(correlationId, userId);
+  }
+}
+
+export class AssignQuoteCommand extends BaseCommand {
+  constructor(
+    public readonly quoteId: string,
+    public readonly assignee?: string, // Omitted to hand the quote to the next estimator in rotation
+    correlationId?: string,
+    userId?: string
+  ) {
+    super(correlationId, userId);
+  }
+}
+
+export class AnnotateQuoteCommand extends BaseCommand {
+  constructor(
+    public readonly quoteId: string,
+    public readonly notes: string, // Replaces the existing notes; blank clears them
+    correlationId?: string,
+    userId?: string
+  ) {
+    super(correlationId, userId);
+  }
+}
+
+export class ReopenQuoteCommand extends BaseCommand {
+  constructor(
+    public readonly quoteId: string,
+    correlationId?: string,
+    userId?: string
+  ) {
+    super(correlationId, userId);
+  }
+}
+
+export class DeleteQuoteCommand extends BaseCommand {
+  constructor(
+    public readonly quoteId: string,
+    correlationId?: string,
+    userId?: string
+  ) {
+    super(correlationId, userId);
+  }
+}
+
+// Folds quoteId into targetQuoteId and removes it
+export class MergeQuoteCommand extends BaseCommand {
+  constructor(
+    public readonly quoteId: string,
+    public readonly targetQuoteId: string,
+    correlationId?: string,
+    userId?: string
+  ) {
+    super(correlationId, userId);
+  }
+}
+
+export class DismissDuplicateQuoteCommand extends BaseCommand {
+  constructor(
+    public readonly quoteId: string,
     correlationId?: string,
     userId?: string
   ) {
@@ -21,10 +21,13 @@ export class SubmitQuoteRequestCommand extends BaseCommand {
       ipAddress?: string;
       userAgent?: string;
       source?: string;
+      serviceClass?: string;
       utmSource?: string;
       utmMedium?: string;
       utmCampaign?: string;
     },
+    public readonly serviceAddress?: string,
+    public readonly attachmentIds?: string[], // Files already stored, referenced as-is
     correlationId?: string,
     userId?: string
   ) {
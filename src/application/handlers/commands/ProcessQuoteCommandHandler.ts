@@ -9,6 +9,14 @@ import {
   SendQuoteCommand,
   UpdateQuotePriorityCommand,
   RejectQuoteCommand,
+  AcceptQuoteCommand,
+  AssignQuoteCommand,
+  AnnotateQuoteCommand,
+  ReopenQuoteCommand,
+  DeleteQuoteCommand,
+  MergeQuoteCommand,
+  DismissDuplicateQuoteCommand,
+  CustomerSignatureEvidence,
   QuoteProcessingResult,
   QuoteProcessingCommandResult 
 } from '../../commands/quote/ProcessQuoteCommand';
@@ -17,7 +25,30 @@ import {
 import { QuoteRepository } from '../../../domain/quote/QuoteRepository';
 import { DomainEventPublisher } from '../../../domain/shared/DomainEventPublisher';
 import { UniqueEntityId } from '../../../domain/shared/UniqueEntityId';
-import { BusinessRuleViolationError } from '../../../domain/shared/DomainError';
+import { BusinessRuleViolationError, DomainValidationError } from '../../../domain/shared/DomainError';
+import { Estimate } from '../../../domain/quote/Estimate';
+import { QuoteSignature } from '../../../domain/quote/Quote';
+import { QuoteAssignmentService } from '../../../domain/services/QuoteAssignmentService';
+import { QuoteConversionService } from '../../../domain/services/QuoteConversionService';
+
+// A signature only counts when the request details it was captured with came along too
+function toQuoteSignature(
+  signedName: string | undefined,
+  evidence: CustomerSignatureEvidence | undefined,
+  extras: { signedAt?: Date; reason?: string } = {}
+): QuoteSignature | undefined {
+  if (signedName === undefined || !evidence) {
+    return undefined;
+  }
+
+  return {
+    signedName,
+    ipAddress: evidence.ipAddress,
+    userAgent: evidence.userAgent,
+    revision: evidence.revision,
+    ...extras
+  };
+}
 
 export class MoveQuoteToReviewCommandHandler 
   implements CommandHandler<MoveQuoteToReviewCommand, QuoteProcessingCommandResult> {
@@ -90,7 +121,7 @@ export class SendQuoteCommandHandler
   async handle(command: SendQuoteCommand): Promise<QuoteProcessingCommandResult> {
     try {
       // Validation
-      if (command.estimatedValue <= 0) {
+      if (!command.estimate && command.estimatedValue <= 0) {
         return BaseCommandResult.failure(
           command.commandId,
           [{ field: 'estimatedValue', message: 'Estimated value must be greater than 0', code: 'INVALID_VALUE' }],
@@ -109,7 +140,14 @@ export class SendQuoteCommandHandler
         );
       }
 
-      quote.sendQuote(command.estimatedValue);
+      const estimate = command.estimate
+        ? Estimate.create(command.estimate)
+        : command.estimatedValue;
+      quote.sendQuote(estimate, {
+        sentBy: command.userId,
+        notes: command.notes,
+        serviceAddress: command.serviceAddress
+      });
       await this.quoteRepository.save(quote);
 
       // Publish domain events
@@ -120,7 +158,7 @@ export class SendQuoteCommandHandler
       const result: QuoteProcessingResult = {
         quoteId: quote.id.toString(),
         newStatus: quote.status,
-        message: `Quote sent successfully with estimate of $${command.estimatedValue}`,
+        message: `Quote sent successfully with estimate of $${quote.estimatedValue} (revision ${quote.sentEstimate?.version})`,
         nextActions: ['Await customer response', 'Follow up', 'Modify quote']
       };
 
@@ -132,6 +170,14 @@ export class SendQuoteCommandHandler
   }
 
   private handleError(commandId: string, error: unknown): QuoteProcessingCommandResult {
+    if (error instanceof DomainValidationError) {
+      return BaseCommandResult.failure(
+        commandId,
+        [{ field: error.field, message: error.message, code: 'DOMAIN_VALIDATION' }],
+        'Domain validation failed'
+      );
+    }
+
     if (error instanceof BusinessRuleViolationError) {
       return BaseCommandResult.failure(
         commandId,
@@ -216,7 +262,7 @@ export class RejectQuoteCommandHandler
         );
       }
 
-      quote.reject();
+      quote.reject(toQuoteSignature(command.customerSignature, command.signatureEvidence, { reason: command.reason }));
       await this.quoteRepository.save(quote);
 
       // Publish domain events
@@ -239,6 +285,492 @@ export class RejectQuoteCommandHandler
   }
 
   private handleError(commandId: string, error: unknown): QuoteProcessingCommandResult {
+    if (error instanceof DomainValidationError) {
+      return BaseCommandResult.failure(
+        commandId,
+        [{ field: error.field, message: error.message, code: 'DOMAIN_VALIDATION' }],
+        'Domain validation failed'
+      );
+    }
+
+    if (error instanceof BusinessRuleViolationError) {
+      return BaseCommandResult.failure(
+        commandId,
+        [{ field: 'business_rule', message: error.message, code: 'BUSINESS_RULE_VIOLATION' }],
+        'Business rule violation'
+      );
+    }
+
+    return BaseCommandResult.failure(
+      commandId,
+      [{ field: 'system', message: 'An unexpected error occurred', code: 'INTERNAL_ERROR' }],
+      'Internal system error'
+    );
+  }
+}
+
+export class AcceptQuoteCommandHandler 
+  implements CommandHandler<AcceptQuoteCommand, QuoteProcessingCommandResult> {
+
+  // Resolved per command so contracts and projects land in whichever store is configured
+  constructor(
+    private readonly quoteRepository: QuoteRepository,
+    private readonly eventPublisher: DomainEventPublisher,
+    private readonly getConversionService: () => Promise<QuoteConversionService>
+  ) {}
+
+  async handle(command: AcceptQuoteCommand): Promise<QuoteProcessingCommandResult> {
+    try {
+      const quoteId = UniqueEntityId.create(command.quoteId);
+      const quote = await this.quoteRepository.findById(quoteId);
+      
+      if (!quote) {
+        return BaseCommandResult.failure(
+          command.commandId,
+          [{ field: 'quoteId', message: 'Quote not found', code: 'NOT_FOUND' }],
+          'Quote not found'
+        );
+      }
+
+      // The quote is accepted and saved only after its contract and project are, so if conversion
+      // fails it is still awaiting a response and the caller sees why
+      const conversionService = await this.getConversionService();
+      const { contract } = await conversionService.acceptAndConvert(
+        quote,
+        toQuoteSignature(command.customerSignature, command.signatureEvidence, { signedAt: command.acceptanceDate }),
+        { convertedBy: command.userId }
+      );
+
+      // Publish domain events
+      const events = quote.getUncommittedEvents();
+      await this.eventPublisher.publishAll(events);
+      quote.markEventsAsCommitted();
+
+      const result: QuoteProcessingResult = {
+        quoteId: quote.id.toString(),
+        newStatus: quote.status,
+        message: `Quote accepted and converted to contract ${contract.contractId}`,
+        nextActions: ['Review generated contract', 'Schedule project kickoff']
+      };
+
+      return BaseCommandResult.success(command.commandId, result);
+
+    } catch (error) {
+      return this.handleError(command.commandId, error);
+    }
+  }
+
+  private handleError(commandId: string, error: unknown): QuoteProcessingCommandResult {
+    if (error instanceof DomainValidationError) {
+      return BaseCommandResult.failure(
+        commandId,
+        [{ field: error.field, message: error.message, code: 'DOMAIN_VALIDATION' }],
+        'Domain validation failed'
+      );
+    }
+
+    if (error instanceof BusinessRuleViolationError) {
+      return BaseCommandResult.failure(
+        commandId,
+        [{ field: 'business_rule', message: error.message, code: 'BUSINESS_RULE_VIOLATION' }],
+        'Business rule violation'
+      );
+    }
+
+    // Usually a storage failure while converting; the conversion has already rolled itself back
+    console.error('Failed to accept quote:', error);
+    return BaseCommandResult.failure(
+      commandId,
+      [{ field: 'system', message: 'An unexpected error occurred', code: 'INTERNAL_ERROR' }],
+      'Internal system error'
+    );
+  }
+}
+
+export class AssignQuoteCommandHandler 
+  implements CommandHandler<AssignQuoteCommand, QuoteProcessingCommandResult> {
+
+  constructor(
+    private readonly quoteRepository: QuoteRepository,
+    private readonly eventPublisher: DomainEventPublisher,
+    private readonly assignmentService: QuoteAssignmentService
+  ) {}
+
+  async handle(command: AssignQuoteCommand): Promise<QuoteProcessingCommandResult> {
+    try {
+      const quoteId = UniqueEntityId.create(command.quoteId);
+      const quote = await this.quoteRepository.findById(quoteId);
+      
+      if (!quote) {
+        return BaseCommandResult.failure(
+          command.commandId,
+          [{ field: 'quoteId', message: 'Quote not found', code: 'NOT_FOUND' }],
+          'Quote not found'
+        );
+      }
+
+      const assignee = command.assignee || this.assignmentService.nextEstimatorFor(quote.serviceType);
+      if (!assignee) {
+        throw new BusinessRuleViolationError('No estimator covers this service category', quote.serviceType.category);
+      }
+
+      quote.assignTo(assignee, command.userId);
+      await this.quoteRepository.save(quote);
+
+      // Publish domain events
+      const events = quote.getUncommittedEvents();
+      await this.eventPublisher.publishAll(events);
+      quote.markEventsAsCommitted();
+
+      const result: QuoteProcessingResult = {
+        quoteId: quote.id.toString(),
+        newStatus: quote.status,
+        message: `Quote assigned to ${quote.assignedTo}`,
+        nextActions: ['Review quote details', 'Prepare estimate']
+      };
+
+      return BaseCommandResult.success(command.commandId, result);
+
+    } catch (error) {
+      return this.handleError(command.commandId, error);
+    }
+  }
+
+  private handleError(commandId: string, error: unknown): QuoteProcessingCommandResult {
+    if (error instanceof DomainValidationError) {
+      return BaseCommandResult.failure(
+        commandId,
+        [{ field: error.field, message: error.message, code: 'DOMAIN_VALIDATION' }],
+        'Domain validation failed'
+      );
+    }
+
+    if (error instanceof BusinessRuleViolationError) {
+      return BaseCommandResult.failure(
+        commandId,
+        [{ field: 'business_rule', message: error.message, code: 'BUSINESS_RULE_VIOLATION' }],
+        'Business rule violation'
+      );
+    }
+
+    return BaseCommandResult.failure(
+      commandId,
+      [{ field: 'system', message: 'An unexpected error occurred', code: 'INTERNAL_ERROR' }],
+      'Internal system error'
+    );
+  }
+}
+
+export class AnnotateQuoteCommandHandler 
+  implements CommandHandler<AnnotateQuoteCommand, QuoteProcessingCommandResult> {
+
+  constructor(
+    private readonly quoteRepository: QuoteRepository
+  ) {}
+
+  async handle(command: AnnotateQuoteCommand): Promise<QuoteProcessingCommandResult> {
+    try {
+      const quoteId = UniqueEntityId.create(command.quoteId);
+      const quote = await this.quoteRepository.findById(quoteId);
+      
+      if (!quote) {
+        return BaseCommandResult.failure(
+          command.commandId,
+          [{ field: 'quoteId', message: 'Quote not found', code: 'NOT_FOUND' }],
+          'Quote not found'
+        );
+      }
+
+      quote.annotate(command.notes, command.userId);
+      await this.quoteRepository.save(quote);
+
+      const result: QuoteProcessingResult = {
+        quoteId: quote.id.toString(),
+        newStatus: quote.status,
+        message: quote.adminNotes ? 'Quote notes updated' : 'Quote notes cleared',
+        nextActions: ['Continue processing']
+      };
+
+      return BaseCommandResult.success(command.commandId, result);
+
+    } catch (error) {
+      return this.handleError(command.commandId, error);
+    }
+  }
+
+  private handleError(commandId: string, error: unknown): QuoteProcessingCommandResult {
+    if (error instanceof DomainValidationError) {
+      return BaseCommandResult.failure(
+        commandId,
+        [{ field: error.field, message: error.message, code: 'DOMAIN_VALIDATION' }],
+        'Domain validation failed'
+      );
+    }
+
+    if (error instanceof BusinessRuleViolationError) {
+      return BaseCommandResult.failure(
+        commandId,
+        [{ field: 'business_rule', message: error.message, code: 'BUSINESS_RULE_VIOLATION' }],
+        'Business rule violation'
+      );
+    }
+
+    return BaseCommandResult.failure(
+      commandId,
+      [{ field: 'system', message: 'An unexpected error occurred', code: 'INTERNAL_ERROR' }],
+      'Internal system error'
+    );
+  }
+}
+
+export class ReopenQuoteCommandHandler 
+  implements CommandHandler<ReopenQuoteCommand, QuoteProcessingCommandResult> {
+
+  constructor(
+    private readonly quoteRepository: QuoteRepository,
+    private readonly eventPublisher: DomainEventPublisher
+  ) {}
+
+  async handle(command: ReopenQuoteCommand): Promise<QuoteProcessingCommandResult> {
+    try {
+      const quoteId = UniqueEntityId.create(command.quoteId);
+      const quote = await this.quoteRepository.findById(quoteId);
+      
+      if (!quote) {
+        return BaseCommandResult.failure(
+          command.commandId,
+          [{ field: 'quoteId', message: 'Quote not found', code: 'NOT_FOUND' }],
+          'Quote not found'
+        );
+      }
+
+      quote.reopen();
+      await this.quoteRepository.save(quote);
+
+      // Publish domain events
+      const events = quote.getUncommittedEvents();
+      await this.eventPublisher.publishAll(events);
+      quote.markEventsAsCommitted();
+
+      const result: QuoteProcessingResult = {
+        quoteId: quote.id.toString(),
+        newStatus: quote.status,
+        message: 'Quote reopened for review',
+        nextActions: ['Revise estimate', 'Send quote estimate']
+      };
+
+      return BaseCommandResult.success(command.commandId, result);
+
+    } catch (error) {
+      return this.handleError(command.commandId, error);
+    }
+  }
+
+  private handleError(commandId: string, error: unknown): QuoteProcessingCommandResult {
+    if (error instanceof DomainValidationError) {
+      return BaseCommandResult.failure(
+        commandId,
+        [{ field: error.field, message: error.message, code: 'DOMAIN_VALIDATION' }],
+        'Domain validation failed'
+      );
+    }
+
+    if (error instanceof BusinessRuleViolationError) {
+      return BaseCommandResult.failure(
+        commandId,
+        [{ field: 'business_rule', message: error.message, code: 'BUSINESS_RULE_VIOLATION' }],
+        'Business rule violation'
+      );
+    }
+
+    return BaseCommandResult.failure(
+      commandId,
+      [{ field: 'system', message: 'An unexpected error occurred', code: 'INTERNAL_ERROR' }],
+      'Internal system error'
+    );
+  }
+}
+
+export class DeleteQuoteCommandHandler 
+  implements CommandHandler<DeleteQuoteCommand, QuoteProcessingCommandResult> {
+
+  constructor(
+    private readonly quoteRepository: QuoteRepository
+  ) {}
+
+  async handle(command: DeleteQuoteCommand): Promise<QuoteProcessingCommandResult> {
+    try {
+      const quoteId = UniqueEntityId.create(command.quoteId);
+      const quote = await this.quoteRepository.findById(quoteId);
+      
+      if (!quote) {
+        return BaseCommandResult.failure(
+          command.commandId,
+          [{ field: 'quoteId', message: 'Quote not found', code: 'NOT_FOUND' }],
+          'Quote not found'
+        );
+      }
+
+      await this.quoteRepository.delete(quoteId);
+
+      const result: QuoteProcessingResult = {
+        quoteId: quote.id.toString(),
+        newStatus: quote.status,
+        message: 'Quote deleted',
+        nextActions: []
+      };
+
+      return BaseCommandResult.success(command.commandId, result);
+
+    } catch (error) {
+      return this.handleError(command.commandId, error);
+    }
+  }
+
+  private handleError(commandId: string, error: unknown): QuoteProcessingCommandResult {
+    if (error instanceof DomainValidationError) {
+      return BaseCommandResult.failure(
+        commandId,
+        [{ field: error.field, message: error.message, code: 'DOMAIN_VALIDATION' }],
+        'Domain validation failed'
+      );
+    }
+
+    if (error instanceof BusinessRuleViolationError) {
+      return BaseCommandResult.failure(
+        commandId,
+        [{ field: 'business_rule', message: error.message, code: 'BUSINESS_RULE_VIOLATION' }],
+        'Business rule violation'
+      );
+    }
+
+    return BaseCommandResult.failure(
+      commandId,
+      [{ field: 'system', message: 'An unexpected error occurred', code: 'INTERNAL_ERROR' }],
+      'Internal system error'
+    );
+  }
+}
+
+export class MergeQuoteCommandHandler 
+  implements CommandHandler<MergeQuoteCommand, QuoteProcessingCommandResult> {
+
+  constructor(
+    private readonly quoteRepository: QuoteRepository,
+    private readonly eventPublisher: DomainEventPublisher
+  ) {}
+
+  async handle(command: MergeQuoteCommand): Promise<QuoteProcessingCommandResult> {
+    try {
+      const duplicateId = UniqueEntityId.create(command.quoteId);
+      const [duplicate, target] = await Promise.all([
+        this.quoteRepository.findById(duplicateId),
+        this.quoteRepository.findById(UniqueEntityId.create(command.targetQuoteId))
+      ]);
+      
+      if (!duplicate || !target) {
+        const field = duplicate ? 'targetQuoteId' : 'quoteId';
+        return BaseCommandResult.failure(
+          command.commandId,
+          [{ field, message: 'Quote not found', code: 'NOT_FOUND' }],
+          'Quote not found'
+        );
+      }
+
+      target.absorbDuplicate(duplicate, command.userId);
+      await this.quoteRepository.save(target);
+      await this.quoteRepository.delete(duplicateId);
+
+      // Publish domain events
+      const events = target.getUncommittedEvents();
+      await this.eventPublisher.publishAll(events);
+      target.markEventsAsCommitted();
+
+      const result: QuoteProcessingResult = {
+        quoteId: target.id.toString(),
+        newStatus: target.status,
+        message: `Quote ${duplicate.id.toString()} merged into ${target.id.toString()}`,
+        nextActions: ['Review merged details']
+      };
+
+      return BaseCommandResult.success(command.commandId, result);
+
+    } catch (error) {
+      return this.handleError(command.commandId, error);
+    }
+  }
+
+  private handleError(commandId: string, error: unknown): QuoteProcessingCommandResult {
+    if (error instanceof DomainValidationError) {
+      return BaseCommandResult.failure(
+        commandId,
+        [{ field: error.field, message: error.message, code: 'DOMAIN_VALIDATION' }],
+        'Domain validation failed'
+      );
+    }
+
+    if (error instanceof BusinessRuleViolationError) {
+      return BaseCommandResult.failure(
+        commandId,
+        [{ field: 'business_rule', message: error.message, code: 'BUSINESS_RULE_VIOLATION' }],
+        'Business rule violation'
+      );
+    }
+
+    return BaseCommandResult.failure(
+      commandId,
+      [{ field: 'system', message: 'An unexpected error occurred', code: 'INTERNAL_ERROR' }],
+      'Internal system error'
+    );
+  }
+}
+
+export class DismissDuplicateQuoteCommandHandler 
+  implements CommandHandler<DismissDuplicateQuoteCommand, QuoteProcessingCommandResult> {
+
+  constructor(
+    private readonly quoteRepository: QuoteRepository
+  ) {}
+
+  async handle(command: DismissDuplicateQuoteCommand): Promise<QuoteProcessingCommandResult> {
+    try {
+      const quoteId = UniqueEntityId.create(command.quoteId);
+      const quote = await this.quoteRepository.findById(quoteId);
+      
+      if (!quote) {
+        return BaseCommandResult.failure(
+          command.commandId,
+          [{ field: 'quoteId', message: 'Quote not found', code: 'NOT_FOUND' }],
+          'Quote not found'
+        );
+      }
+
+      quote.dismissDuplicateFlag(command.userId);
+      await this.quoteRepository.save(quote);
+
+      const result: QuoteProcessingResult = {
+        quoteId: quote.id.toString(),
+        newStatus: quote.status,
+        message: 'Duplicate flag dismissed',
+        nextActions: []
+      };
+
+      return BaseCommandResult.success(command.commandId, result);
+
+    } catch (error) {
+      return this.handleError(command.commandId, error);
+    }
+  }
+
+  private handleError(commandId: string, error: unknown): QuoteProcessingCommandResult {
+    if (error instanceof DomainValidationError) {
+      return BaseCommandResult.failure(
+        commandId,
+        [{ field: error.field, message: error.message, code: 'DOMAIN_VALIDATION' }],
+        'Domain validation failed'
+      );
+    }
+
     if (error instanceof BusinessRuleViolationError) {
       return BaseCommandResult.failure(
         commandId,
@@ -16,6 +16,8 @@ import { QuoteRepository } from '../../../domain/quote/QuoteRepository';
 import { NotificationService } from '../../../domain/services/NotificationService';
 import { FileStorageService } from '../../../domain/services/FileStorageService';
 import { DomainEventPublisher } from '../../../domain/shared/DomainEventPublisher';
+import { QuoteAssignmentService } from '../../../domain/services/QuoteAssignmentService';
+import { QuoteDuplicateDetectionService } from '../../../domain/services/QuoteDuplicateDetectionService';
 import { DomainValidationError, BusinessRuleViolationError } from '../../../domain/shared/DomainError';
 
 export class SubmitQuoteRequestCommandHandler 
@@ -25,7 +27,9 @@ export class SubmitQuoteRequestCommandHandler
     private readonly quoteRepository: QuoteRepository,
     private readonly notificationService: NotificationService,
     private readonly fileStorageService: FileStorageService,
-    private readonly eventPublisher: DomainEventPublisher
+    private readonly eventPublisher: DomainEventPublisher,
+    private readonly assignmentService?: QuoteAssignmentService,
+    private readonly duplicateDetectionService?: QuoteDuplicateDetectionService
   ) {}
 
   async handle(command: SubmitQuoteRequestCommand): Promise<SubmitQuoteRequestCommandResult> {
@@ -41,7 +45,7 @@ export class SubmitQuoteRequestCommandHandler
       }
 
       // 2. Upload photo attachments if provided
-      const photoAttachments: string[] = [];
+      const photoAttachments: string[] = [...(command.attachmentIds || [])];
       if (command.photoFiles && command.photoFiles.length > 0) {
         for (const photoFile of command.photoFiles) {
           const uploadedFile = await this.fileStorageService.uploadFile(
@@ -65,17 +69,39 @@ export class SubmitQuoteRequestCommandHandler
         phone: command.phone,
         serviceType: command.serviceType,
         description: command.description,
+        serviceAddress: command.serviceAddress,
         photoAttachments,
         metadata: {
           ipAddress: command.requestMetadata?.ipAddress,
           userAgent: command.requestMetadata?.userAgent,
           source: command.requestMetadata?.source || 'web',
+          serviceClass: command.requestMetadata?.serviceClass,
           utmSource: command.requestMetadata?.utmSource,
           utmMedium: command.requestMetadata?.utmMedium,
           utmCampaign: command.requestMetadata?.utmCampaign
         }
       });
 
+      // Flag resubmissions and link returning customers before staff see the request
+      const findings = await this.duplicateDetectionService?.inspect(quote);
+      if (findings?.possibleDuplicate) {
+        quote.flagPossibleDuplicate(findings.possibleDuplicate.id.toString());
+      }
+      if (findings && (findings.previousQuotes.length > 0 || findings.contracts.length > 0)) {
+        quote.linkCustomerHistory({
+          previousQuoteIds: findings.previousQuotes.map(previous => previous.id.toString()),
+          contractIds: findings.contracts.map(contract => contract.contractId)
+        });
+      }
+
+      // Hand the request straight to an estimator so the first-response clock has an owner;
+      // a likely duplicate goes to whoever already has the original
+      const estimator = findings?.possibleDuplicate?.assignedTo
+        || this.assignmentService?.nextEstimatorFor(quote.serviceType);
+      if (estimator) {
+        quote.assignTo(estimator, 'system');
+      }
+
       // 4. Save quote
       await this.quoteRepository.save(quote);
 
@@ -170,7 +196,7 @@ export class SubmitQuoteRequestCommandHandler
     }
 
     // Photo validation
-    if (command.photoFiles && command.photoFiles.length > 10) {
+    if ((command.photoFiles?.length || 0) + (command.attachmentIds?.length || 0) > 10) {
       errors.push({
         field: 'photoFiles',
         message: 'Maximum 10 photo attachments allowed',
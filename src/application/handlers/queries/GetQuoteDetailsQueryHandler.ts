@@ -97,14 +97,43 @@ export class GetQuoteDetailsQueryHandler
           description: quote.serviceType.description
         },
         description: quote.description,
+        serviceAddress: quote.serviceAddress,
         status: quote.status,
         priority: quote.priority,
         estimatedValue: quote.estimatedValue,
         submittedAt: quote.submittedAt,
         updatedAt: quote.updatedAt,
+        updatedBy: quote.updatedBy,
         quoteSentAt: quote.quoteSentAt,
         expiresAt: quote.expiresAt,
         isExpired: quote.isExpired(),
+        assignedTo: quote.assignedTo,
+        firstResponseDueAt: quote.firstResponseDueAt,
+        firstRespondedAt: quote.firstRespondedAt,
+        isOverdue: quote.isFirstResponseOverdue(),
+        adminNotes: quote.adminNotes,
+        possibleDuplicateOf: quote.possibleDuplicateOf,
+        previousQuoteIds: quote.customerHistory?.previousQuoteIds || [],
+        existingContractIds: quote.customerHistory?.contractIds || [],
+        estimateRevisions: quote.estimateRevisions.map(revision => ({
+          version: revision.version,
+          estimate: revision.estimate.toJSON(),
+          totals: revision.estimate.calculateTotals(),
+          createdAt: revision.createdAt,
+          createdBy: revision.createdBy,
+          notes: revision.notes
+        })),
+        sentRevision: quote.sentRevision,
+        customerResponse: quote.customerResponse
+          ? {
+              decision: quote.customerResponse.decision,
+              signedName: quote.customerResponse.signedName,
+              respondedAt: quote.customerResponse.respondedAt,
+              revision: quote.customerResponse.revision,
+              reason: quote.customerResponse.reason
+            }
+          : undefined,
+        photoAttachmentIds: [...quote.photoAttachments],
         photoAttachments: validPhotoAttachments,
         metadata: quote.metadata,
         confirmationNumber: this.generateConfirmationNumber(quote.id.toString()),
@@ -6,7 +6,8 @@
 import { QueryHandler, BaseQueryResult } from '../../cqrs/Query';
 import { GetQuoteListQuery, GetQuoteListResult, QuoteListItem } from '../../queries/quote/GetQuoteListQuery';
 import { QuoteRepository, QuoteQueryFilters } from '../../../domain/quote/QuoteRepository';
-import { QuoteStatus, QuotePriority } from '../../../domain/quote/Quote';
+import { QuotePriority } from '../../../domain/quote/Quote';
+import { normalizeQuoteStatus } from '../../../domain/quote/QuoteStatus';
 
 export class GetQuoteListQueryHandler 
   implements QueryHandler<GetQuoteListQuery, BaseQueryResult<GetQuoteListResult>> {
@@ -29,7 +30,7 @@ export class GetQuoteListQueryHandler
 
       // Apply filters
       if (query.filters?.status) {
-        filters.status = query.filters.status as QuoteStatus;
+        filters.status = normalizeQuoteStatus(String(query.filters.status));
       }
 
       if (query.filters?.priority) {
@@ -60,6 +61,14 @@ export class GetQuoteListQueryHandler
         filters.isExpired = query.filters.isExpired;
       }
 
+      if (query.filters?.assignedTo && typeof query.filters.assignedTo === 'string') {
+        filters.assignedTo = query.filters.assignedTo;
+      }
+
+      if (query.filters?.isOverdue !== undefined && typeof query.filters.isOverdue === 'boolean') {
+        filters.isOverdue = query.filters.isOverdue;
+      }
+
       // Execute query using repository
       let quotes;
       let total;
@@ -90,14 +99,27 @@ export class GetQuoteListQueryHandler
           category: quote.serviceType.category
         },
         description: quote.description,
+        serviceAddress: quote.serviceAddress,
+        serviceClass: quote.metadata.serviceClass,
         status: quote.status,
         priority: quote.priority,
         estimatedValue: quote.estimatedValue,
         submittedAt: quote.submittedAt,
         updatedAt: quote.updatedAt,
+        updatedBy: quote.updatedBy,
+        quoteSentAt: quote.quoteSentAt,
         expiresAt: quote.expiresAt,
         isExpired: quote.isExpired(),
+        assignedTo: quote.assignedTo,
+        firstResponseDueAt: quote.firstResponseDueAt,
+        firstRespondedAt: quote.firstRespondedAt,
+        isOverdue: quote.isFirstResponseOverdue(),
+        adminNotes: quote.adminNotes,
+        possibleDuplicateOf: quote.possibleDuplicateOf,
+        previousQuoteIds: quote.customerHistory?.previousQuoteIds || [],
+        existingContractIds: quote.customerHistory?.contractIds || [],
         photoCount: quote.photoAttachments.length,
+        photoAttachmentIds: [...quote.photoAttachments],
         confirmationNumber: this.generateConfirmationNumber(quote.id.toString())
       }));
 
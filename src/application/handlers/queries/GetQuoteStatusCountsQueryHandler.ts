@@ -0,0 +1,45 @@
+/**
+ * Get Quote Status Counts Query Handler - CQRS Implementation
+ * Handles quote status summary queries
+ */
+
+import { QueryHandler, BaseQueryResult } from '../../cqrs/Query';
+import { GetQuoteStatusCountsQuery, GetQuoteStatusCountsResult } from '../../queries/quote/GetQuoteStatusCountsQuery';
+import { QuoteRepository } from '../../../domain/quote/QuoteRepository';
+import { QuoteStatus } from '../../../domain/quote/QuoteStatus';
+
+export class GetQuoteStatusCountsQueryHandler 
+  implements QueryHandler<GetQuoteStatusCountsQuery, BaseQueryResult<GetQuoteStatusCountsResult>> {
+
+  constructor(
+    private readonly quoteRepository: QuoteRepository
+  ) {}
+
+  async handle(query: GetQuoteStatusCountsQuery): Promise<BaseQueryResult<GetQuoteStatusCountsResult>> {
+    const startTime = Date.now();
+
+    try {
+      const statuses = Object.values(QuoteStatus);
+      const counts = await Promise.all(statuses.map(status => this.quoteRepository.countByStatus(status)));
+
+      const result = {
+        total: counts.reduce((sum, count) => sum + count, 0),
+        ...Object.fromEntries(statuses.map((status, index) => [status, counts[index]]))
+      } as GetQuoteStatusCountsResult;
+
+      const executionTime = Date.now() - startTime;
+
+      return BaseQueryResult.success(query.queryId, result, executionTime);
+
+    } catch (error) {
+      const executionTime = Date.now() - startTime;
+      console.error('GetQuoteStatusCountsQueryHandler error:', error);
+
+      return BaseQueryResult.failure(
+        query.queryId,
+        'Failed to retrieve quote status counts',
+        executionTime
+      );
+    }
+  }
+}
\ No newline at end of file
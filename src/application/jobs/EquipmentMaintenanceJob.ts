@@ -0,0 +1,50 @@
+/**
+ * Equipment Maintenance Job - Application Layer
+ * Raises admin alerts for equipment coming due or overdue for scheduled maintenance
+ */
+
+import { ScheduledJob, JobRunSummary } from './ScheduledJob';
+import { EquipmentRepository } from '../../domain/inventory/EquipmentRepository';
+import { EquipmentStatus } from '../../domain/inventory/Equipment';
+import { InventoryAlertNotifier } from '../../domain/services/InventoryAlertNotifier';
+
+export interface EquipmentMaintenanceJobOptions {
+  warningDays: number;
+  intervalMs: number;
+}
+
+export class EquipmentMaintenanceJob implements ScheduledJob {
+  readonly name = 'equipment-maintenance';
+  readonly intervalMs: number;
+
+  constructor(
+    private readonly equipmentRepository: EquipmentRepository,
+    private readonly alertNotifier: InventoryAlertNotifier,
+    private readonly options: EquipmentMaintenanceJobOptions
+  ) {
+    this.intervalMs = options.intervalMs;
+  }
+
+  async run(): Promise<JobRunSummary> {
+    const summary = { checked: 0, dueSoon: 0, overdue: 0, failed: 0 };
+    const now = new Date();
+    const equipment = (await this.equipmentRepository.findAll())
+      .filter(item => item.status !== EquipmentStatus.RETIRED);
+
+    for (const item of equipment) {
+      summary.checked++;
+      if (!item.isMaintenanceDueWithin(this.options.warningDays, now)) continue;
+
+      try {
+        await this.alertNotifier.maintenanceDue(item);
+        summary[item.isMaintenanceOverdue(now) ? 'overdue' : 'dueSoon']++;
+      } catch (error) {
+        // One failed alert must not stop the rest of the batch
+        summary.failed++;
+        console.error('Equipment maintenance job failed for', item.assetTag, error);
+      }
+    }
+
+    return summary;
+  }
+}
\ No newline at end of file
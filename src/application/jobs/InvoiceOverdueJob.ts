@@ -0,0 +1,51 @@
+/**
+ * Invoice Overdue Job - Application Layer
+ * Marks sent and partially paid invoices overdue once their payment terms run out
+ */
+
+import { ScheduledJob, JobRunSummary } from './ScheduledJob';
+import { InvoiceRepository } from '../../domain/invoice/InvoiceRepository';
+import { InvoiceStatus } from '../../domain/invoice/Invoice';
+
+export interface InvoiceOverdueJobOptions {
+  intervalMs: number;
+}
+
+export class InvoiceOverdueJob implements ScheduledJob {
+  readonly name = 'invoice-overdue';
+  readonly intervalMs: number;
+
+  constructor(
+    private readonly invoiceRepository: InvoiceRepository,
+    private readonly options: InvoiceOverdueJobOptions
+  ) {
+    this.intervalMs = options.intervalMs;
+  }
+
+  async run(): Promise<JobRunSummary> {
+    const summary = { checked: 0, overdue: 0, failed: 0 };
+    const now = new Date();
+    const collecting = [
+      ...await this.invoiceRepository.findByStatus(InvoiceStatus.SENT),
+      ...await this.invoiceRepository.findByStatus(InvoiceStatus.PARTIALLY_PAID)
+    ];
+
+    for (const invoice of collecting) {
+      summary.checked++;
+
+      try {
+        if (!invoice.markOverdue(now)) continue;
+
+        await this.invoiceRepository.save(invoice);
+        invoice.markEventsAsCommitted();
+        summary.overdue++;
+      } catch (error) {
+        // One bad invoice must not stop the rest of the batch
+        summary.failed++;
+        console.error('Invoice overdue job failed for', invoice.invoiceNumber, error);
+      }
+    }
+
+    return summary;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,38 @@
+/**
+ * Login Security Cleanup Job - Application Layer
+ * Deletes sign-in attempts older than the device and country history, and lockouts whose strikes have lapsed
+ */
+
+import { ScheduledJob, JobRunSummary } from './ScheduledJob';
+import { LoginSecurityStore } from '../../auth/types';
+import { LoginPolicy } from '../../auth/login-policy';
+
+export interface LoginSecurityCleanupJobOptions {
+  intervalMs: number;
+}
+
+export class LoginSecurityCleanupJob implements ScheduledJob {
+  readonly name = 'login-security-cleanup';
+  readonly intervalMs: number;
+
+  constructor(
+    private readonly loginSecurityStore: LoginSecurityStore,
+    private readonly policy: LoginPolicy,
+    private readonly options: LoginSecurityCleanupJobOptions
+  ) {
+    this.intervalMs = options.intervalMs;
+  }
+
+  async run(): Promise<JobRunSummary> {
+    const now = new Date();
+    const attempts = await this.loginSecurityStore.deleteAttemptsBefore(
+      new Date(now.getTime() - this.policy.historyDays * 24 * 60 * 60 * 1000)
+    );
+    // A lockout with no failure since the strikes reset would start from nothing anyway
+    const lockouts = await this.loginSecurityStore.deleteStaleLockouts(
+      new Date(now.getTime() - this.policy.strikeResetMs),
+      now
+    );
+    return { attempts, lockouts };
+  }
+}
\ No newline at end of file
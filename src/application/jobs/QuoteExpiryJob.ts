@@ -0,0 +1,68 @@
+/**
+ * Quote Expiry Job - Application Layer
+ * Sends expiry reminders for open quotes and expires the ones past their date
+ */
+
+import { ScheduledJob, JobRunSummary } from './ScheduledJob';
+import { QuoteRepository } from '../../domain/quote/QuoteRepository';
+import { Quote, QuoteStatus } from '../../domain/quote/Quote';
+import { DomainEventPublisher } from '../../domain/shared/DomainEventPublisher';
+
+export interface QuoteExpiryJobOptions {
+  reminderOffsetsInDays: number[];
+  intervalMs: number;
+}
+
+export class QuoteExpiryJob implements ScheduledJob {
+  readonly name = 'quote-expiry';
+  readonly intervalMs: number;
+
+  constructor(
+    private readonly quoteRepository: QuoteRepository,
+    private readonly eventPublisher: DomainEventPublisher,
+    private readonly options: QuoteExpiryJobOptions
+  ) {
+    this.intervalMs = options.intervalMs;
+  }
+
+  async run(): Promise<JobRunSummary> {
+    const summary = { checked: 0, reminded: 0, expired: 0, failed: 0 };
+    const openQuotes = await this.quoteRepository.findByStatus(QuoteStatus.QUOTE_SENT);
+
+    for (const quote of openQuotes) {
+      summary.checked++;
+
+      try {
+        const outcome = this.process(quote);
+        if (!outcome) continue;
+
+        await this.quoteRepository.save(quote);
+        await this.eventPublisher.publishAll(quote.getUncommittedEvents());
+        quote.markEventsAsCommitted();
+
+        summary[outcome]++;
+      } catch (error) {
+        // One bad quote must not stop the rest of the batch
+        summary.failed++;
+        console.error('Quote expiry job failed for quote', quote.id.toString(), error);
+      }
+    }
+
+    return summary;
+  }
+
+  private process(quote: Quote): 'expired' | 'reminded' | null {
+    if (quote.isExpired()) {
+      quote.expire();
+      return 'expired';
+    }
+
+    const offset = quote.dueExpiryReminder(this.options.reminderOffsetsInDays);
+    if (offset !== undefined) {
+      quote.recordExpiryReminder(offset);
+      return 'reminded';
+    }
+
+    return null;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,39 @@
+/**
+ * Scheduled Job Contracts - Application Layer
+ * Background work run on an interval by the job scheduler
+ */
+
+// Counts reported by a run, e.g. { expired: 2, reminded: 5 }
+export type JobRunSummary = Record<string, number>;
+
+export interface ScheduledJob {
+  readonly name: string;
+  readonly intervalMs: number;
+  run(): Promise<JobRunSummary>;
+}
+
+export interface JobState {
+  name: string;
+  nextRunAt: Date;
+  lastRunAt?: Date;
+  lastSuccessAt?: Date;
+  lastError?: string;
+  lastSummary?: JobRunSummary;
+  runCount: number;
+  failureCount: number;
+}
+
+// Job state outlives the process so a restart neither skips nor repeats a due run
+export interface JobStateStore {
+  load(name: string): Promise<JobState | null>;
+  save(state: JobState): Promise<void>;
+  list(): Promise<JobState[]>;
+}
+
+export interface JobScheduler {
+  register(job: ScheduledJob): void;
+  start(): Promise<void>;
+  stop(): void;
+  runNow(name: string): Promise<JobState>;
+  getStates(): Promise<JobState[]>;
+}
\ No newline at end of file
@@ -0,0 +1,29 @@
+/**
+ * Session Cleanup Job - Application Layer
+ * Deletes stored sessions whose refresh window has closed, revoked or not
+ */
+
+import { ScheduledJob, JobRunSummary } from './ScheduledJob';
+import { SessionStore } from '../../auth/types';
+
+export interface SessionCleanupJobOptions {
+  intervalMs: number;
+}
+
+export class SessionCleanupJob implements ScheduledJob {
+  readonly name = 'session-cleanup';
+  readonly intervalMs: number;
+
+  constructor(
+    private readonly sessionStore: SessionStore,
+    private readonly options: SessionCleanupJobOptions
+  ) {
+    this.intervalMs = options.intervalMs;
+  }
+
+  async run(): Promise<JobRunSummary> {
+    // Revoked rows are kept until then so a replayed refresh token is still recognised as reuse
+    const deleted = await this.sessionStore.deleteExpired(new Date());
+    return { deleted };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,27 @@
+/**
+ * Query Cache Invalidation Middleware - CQRS Infrastructure
+ * Drops cached quote queries once a quote command has run
+ */
+
+import { Command, CommandMiddleware } from '../cqrs/Command';
+import { QueryCache } from '../cqrs/Query';
+
+const QUOTE_COMMAND = /Quote(Request)?Command$/;
+
+export class QueryCacheInvalidationMiddleware implements CommandMiddleware {
+  constructor(private readonly cache: QueryCache) {}
+
+  async execute<TCommand extends Command, TResult = void>(
+    command: TCommand,
+    next: (command: TCommand) => Promise<TResult>
+  ): Promise<TResult> {
+    const result = await next(command);
+
+    // Failed results invalidate too: a handler may have saved before a later step failed
+    if (QUOTE_COMMAND.test(command.constructor.name)) {
+      await this.cache.invalidate('query:GetQuote*');
+    }
+
+    return result;
+  }
+}
\ No newline at end of file
@@ -4,6 +4,7 @@
  */
 
 import { BaseQuery } from '../../cqrs/Query';
+import { EstimateProps, EstimateTotals } from '../../../domain/quote/Estimate';
 
 export class GetQuoteDetailsQuery extends BaseQuery {
   constructor(
@@ -27,14 +28,41 @@ export interface GetQuoteDetailsResult {
     description: string;
   };
   description: string;
+  serviceAddress?: string;
   status: string;
   priority: string;
   estimatedValue?: number;
   submittedAt: Date;
   updatedAt: Date;
+  updatedBy?: string;
   quoteSentAt?: Date;
   expiresAt?: Date;
   isExpired: boolean;
+  assignedTo?: string;
+  firstResponseDueAt: Date;
+  firstRespondedAt?: Date;
+  isOverdue: boolean;
+  adminNotes?: string;
+  possibleDuplicateOf?: string;
+  previousQuoteIds: string[];
+  existingContractIds: string[];
+  estimateRevisions: Array<{
+    version: number;
+    estimate: EstimateProps;
+    totals: EstimateTotals;
+    createdAt: Date;
+    createdBy?: string;
+    notes?: string;
+  }>;
+  sentRevision?: number;
+  customerResponse?: {
+    decision: 'accepted' | 'rejected';
+    signedName: string;
+    respondedAt: Date;
+    revision: number;
+    reason?: string;
+  };
+  photoAttachmentIds: string[];
   photoAttachments: Array<{
     id: string;
     filename: string;
@@ -46,6 +74,7 @@ export interface GetQuoteDetailsResult {
     ipAddress?: string;
     userAgent?: string;
     source: string;
+    serviceClass?: string;
     utmSource?: string;
     utmMedium?: string;
     utmCampaign?: string;
@@ -15,6 +15,8 @@ export class GetQuoteListQuery extends BaseQuery {
     public readonly submittedAfter?: Date,
     public readonly submittedBefore?: Date,
     public readonly isExpired?: boolean,
+    public readonly assignedTo?: string,
+    public readonly isOverdue?: boolean,
     correlationId?: string,
     userId?: string,
     pagination?: PaginationOptions,
@@ -32,7 +34,9 @@ export class GetQuoteListQuery extends BaseQuery {
         customerEmail,
         submittedAfter,
         submittedBefore,
-        isExpired
+        isExpired,
+        assignedTo,
+        isOverdue
       },
       sorting || { field: 'submittedAt', direction: 'desc' }
     );
@@ -50,14 +54,27 @@ export interface QuoteListItem {
     category: string;
   };
   description: string;
+  serviceAddress?: string;
+  serviceClass?: string;
   status: string;
   priority: string;
   estimatedValue?: number;
   submittedAt: Date;
   updatedAt: Date;
+  updatedBy?: string;
+  quoteSentAt?: Date;
   expiresAt?: Date;
   isExpired: boolean;
+  assignedTo?: string;
+  firstResponseDueAt: Date;
+  firstRespondedAt?: Date;
+  isOverdue: boolean;
+  adminNotes?: string;
+  possibleDuplicateOf?: string;
+  previousQuoteIds: string[];
+  existingContractIds: string[];
   photoCount: number;
+  photoAttachmentIds: string[];
   confirmationNumber?: string;
 }
 
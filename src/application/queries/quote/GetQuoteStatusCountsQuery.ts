@@ -0,0 +1,18 @@
+/**
+ * Get Quote Status Counts Query - CQRS Implementation
+ * Query for the number of quotes in each status
+ */
+
+import { BaseQuery } from '../../cqrs/Query';
+import { QuoteStatus } from '../../../domain/quote/QuoteStatus';
+
+export class GetQuoteStatusCountsQuery extends BaseQuery {
+  constructor(
+    correlationId?: string,
+    userId?: string
+  ) {
+    super(correlationId, userId);
+  }
+}
+
+export type GetQuoteStatusCountsResult = { total: number } & Record<QuoteStatus, number>;
\ No newline at end of file
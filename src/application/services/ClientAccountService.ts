@@ -0,0 +1,293 @@
+/**
+ * Client Account Service - Application Layer
+ * Client self-service accounts: invitations sent when a contract is created, password setup,
+ * linking further contracts, and co-worker invitations with restricted access
+ */
+
+import crypto from 'crypto';
+import { Contract } from '../../domain/contract/Contract';
+import { ContractRepository } from '../../domain/contract/ContractRepository';
+import {
+  CLIENT_INVITATION_TTL_DAYS,
+  ClientAccessLevel,
+  ClientInvitation,
+  ClientInvitationPurpose
+} from '../../domain/clientaccount/ClientInvitation';
+import { ClientInvitationRepository } from '../../domain/clientaccount/ClientInvitationRepository';
+import { ClientUser, ClientUserStore } from '../../domain/clientaccount/ClientUserStore';
+import { ClientInvitationMailer } from '../../domain/services/ClientInvitationMailer';
+import { BusinessRuleViolationError, DomainValidationError } from '../../domain/shared/DomainError';
+import { Email } from '../../domain/shared/Email';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+import { validatePassword } from '../../utils/passwordValidation';
+
+export interface ClientAccountSetup {
+  firstName: string;
+  lastName: string;
+  password: string;
+  phone?: string;
+}
+
+export interface CoworkerInvitationRequest {
+  email: string;
+  name?: string;
+  contractIds?: string[]; // Defaults to every contract the inviting owner can see
+}
+
+export interface ContractLinkResult {
+  contractId: string;
+  verificationSentTo: string; // The contract's email, which confirms the link
+}
+
+// Unknown tokens and tokens meant for the other flow get the same answer
+const INVALID_LINK = 'Invitation link is invalid or has expired';
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+export class ClientAccountService {
+  constructor(
+    private readonly invitationRepository: ClientInvitationRepository,
+    private readonly contractRepository: ContractRepository,
+    private readonly userStore: ClientUserStore,
+    private readonly mailer: ClientInvitationMailer,
+    private readonly baseUrl: string
+  ) {}
+
+  // New contracts invite their customer; customers who already have an account just get the contract linked
+  async inviteFromContract(contract: Contract, invitedBy: string = 'system'): Promise<ClientInvitation | null> {
+    const email = contract.email.value;
+    const existing = await this.userStore.findByEmail(email);
+    if (existing) {
+      if (existing.role === 'client') {
+        await this.userStore.linkContracts(existing.id, [contract.contractId]);
+      }
+      return null;
+    }
+
+    const token = this.newToken();
+    const pending = (await this.invitationRepository.findByEmail(email)).find(invitation =>
+      invitation.purpose === ClientInvitationPurpose.ACCOUNT_SETUP &&
+      invitation.accessLevel === ClientAccessLevel.OWNER &&
+      invitation.isUsable()
+    );
+
+    let invitation: ClientInvitation;
+    if (pending) {
+      pending.addContract(contract.contractId);
+      pending.reissue(hashToken(token), this.expiry());
+      invitation = pending;
+    } else {
+      invitation = ClientInvitation.create({
+        email,
+        purpose: ClientInvitationPurpose.ACCOUNT_SETUP,
+        accessLevel: ClientAccessLevel.OWNER,
+        contractIds: [contract.contractId],
+        companyName: contract.customerName,
+        recipientName: contract.customerName,
+        tokenHash: hashToken(token),
+        invitedBy,
+        expiresAt: this.expiry()
+      });
+    }
+
+    await this.deliver(invitation, `/portal/client/setup?token=${encodeURIComponent(token)}`);
+    return invitation;
+  }
+
+  // What the setup page shows before the client picks a password
+  async describeInvitation(token: string): Promise<ClientInvitation> {
+    return this.requireInvitation(token, ClientInvitationPurpose.ACCOUNT_SETUP);
+  }
+
+  async acceptInvitation(token: string, setup: ClientAccountSetup): Promise<ClientUser> {
+    const invitation = await this.requireInvitation(token, ClientInvitationPurpose.ACCOUNT_SETUP);
+
+    const firstName = setup.firstName?.trim();
+    const lastName = setup.lastName?.trim();
+    if (!firstName) throw new DomainValidationError('firstName', 'Is required');
+    if (!lastName) throw new DomainValidationError('lastName', 'Is required');
+
+    const passwordCheck = validatePassword(setup.password || '', { email: invitation.email.value, firstName, lastName });
+    if (!passwordCheck.isValid) {
+      const unmet = passwordCheck.requirements.failed
+        .filter(requirement => requirement.severity === 'required')
+        .map(requirement => requirement.description);
+      throw new DomainValidationError('password', unmet.join('; '));
+    }
+
+    if (await this.userStore.findByEmail(invitation.email.value)) {
+      throw new BusinessRuleViolationError('An account already exists for this email', 'Sign in instead');
+    }
+
+    const user = await this.userStore.createClient({
+      email: invitation.email.value,
+      password: setup.password,
+      firstName,
+      lastName,
+      phone: setup.phone?.trim() || undefined,
+      accessLevel: invitation.accessLevel,
+      contractIds: Array.from(invitation.contractIds),
+      companyName: invitation.companyName,
+      createdBy: invitation.invitedBy
+    });
+
+    invitation.accept(user.id);
+    await this.invitationRepository.save(invitation);
+    invitation.markEventsAsCommitted();
+    return user;
+  }
+
+  // The contract ID and the email on file must both match, so contract IDs alone cannot be guessed into
+  async requestContractLink(account: ClientUser, contractId: string, email: string): Promise<ContractLinkResult> {
+    this.assertOwner(account);
+
+    const contract = contractId?.trim() ? await this.contractRepository.findByContractId(contractId.trim().toUpperCase()) : null;
+    if (!contract || !email || !contract.matchesCustomer({ email })) {
+      throw new BusinessRuleViolationError('No contract matches that contract ID and email');
+    }
+    if ((await this.ownerContractIds(account)).has(contract.contractId.toUpperCase())) {
+      throw new BusinessRuleViolationError('Contract is already linked to your account', contract.contractId);
+    }
+
+    // Anything not already visible is under another email, and that inbox has to confirm the link
+    const token = this.newToken();
+    const invitation = ClientInvitation.create({
+      email: contract.email.value,
+      purpose: ClientInvitationPurpose.CONTRACT_LINK,
+      accessLevel: ClientAccessLevel.OWNER,
+      contractIds: [contract.contractId],
+      companyName: account.companyName,
+      recipientName: contract.customerName,
+      userId: account.id,
+      tokenHash: hashToken(token),
+      invitedBy: account.email,
+      expiresAt: this.expiry()
+    });
+    await this.deliver(invitation, `/portal/client/link-contract?token=${encodeURIComponent(token)}`);
+
+    return { contractId: contract.contractId, verificationSentTo: contract.email.value };
+  }
+
+  async confirmContractLink(account: ClientUser, token: string): Promise<ClientUser> {
+    const invitation = await this.requireInvitation(token, ClientInvitationPurpose.CONTRACT_LINK);
+    // Checked before linking; the confirmation email may have been forwarded to someone else
+    if (invitation.userId !== account.id) {
+      throw new BusinessRuleViolationError('Invitation belongs to a different account');
+    }
+
+    const user = await this.userStore.linkContracts(account.id, Array.from(invitation.contractIds));
+    invitation.accept(account.id);
+    await this.invitationRepository.save(invitation);
+    invitation.markEventsAsCommitted();
+    return user;
+  }
+
+  async inviteCoworker(owner: ClientUser, request: CoworkerInvitationRequest): Promise<ClientInvitation> {
+    this.assertOwner(owner);
+
+    const email = Email.create(request.email || '');
+    if (email.getDomain() !== Email.create(owner.email).getDomain()) {
+      throw new BusinessRuleViolationError('Co-workers must use an email at the same company domain', `@${Email.create(owner.email).getDomain()}`);
+    }
+    if (await this.userStore.findByEmail(email.value)) {
+      throw new BusinessRuleViolationError('An account already exists for this email');
+    }
+
+    const ownerContracts = await this.ownerContractIds(owner);
+    const contractIds = request.contractIds?.length
+      ? request.contractIds.map(contractId => contractId.trim().toUpperCase())
+      : Array.from(ownerContracts);
+    const outside = contractIds.filter(contractId => !ownerContracts.has(contractId));
+    if (outside.length > 0) {
+      throw new BusinessRuleViolationError('Co-workers can only be given contracts on your account', outside.join(', '));
+    }
+
+    // Inviting the same person again replaces the earlier link
+    const earlier = (await this.invitationRepository.findByEmail(email.value)).filter(invitation =>
+      invitation.invitedBy.toLowerCase() === owner.email.toLowerCase() && invitation.isUsable()
+    );
+    for (const invitation of earlier) {
+      invitation.revoke();
+      await this.invitationRepository.save(invitation);
+    }
+
+    const token = this.newToken();
+    const invitation = ClientInvitation.create({
+      email: email.value,
+      purpose: ClientInvitationPurpose.ACCOUNT_SETUP,
+      accessLevel: ClientAccessLevel.MEMBER,
+      contractIds,
+      companyName: owner.companyName,
+      recipientName: request.name,
+      tokenHash: hashToken(token),
+      invitedBy: owner.email,
+      expiresAt: this.expiry()
+    });
+    await this.deliver(invitation, `/portal/client/setup?token=${encodeURIComponent(token)}`);
+    return invitation;
+  }
+
+  async listCoworkerInvitations(owner: ClientUser): Promise<ClientInvitation[]> {
+    this.assertOwner(owner);
+    return (await this.invitationRepository.findByInviter(owner.email))
+      .filter(invitation => invitation.purpose === ClientInvitationPurpose.ACCOUNT_SETUP);
+  }
+
+  async revokeCoworkerInvitation(owner: ClientUser, invitationId: string): Promise<ClientInvitation> {
+    this.assertOwner(owner);
+    const invitation = UniqueEntityId.isValid(invitationId)
+      ? await this.invitationRepository.findById(UniqueEntityId.create(invitationId))
+      : null;
+    // Other owners' invitations look the same as ones that do not exist
+    if (!invitation || invitation.invitedBy.toLowerCase() !== owner.email.toLowerCase()) {
+      throw new BusinessRuleViolationError('Invitation not found');
+    }
+
+    invitation.revoke();
+    await this.invitationRepository.save(invitation);
+    return invitation;
+  }
+
+  async listInvitationsForEmail(email: string): Promise<ClientInvitation[]> {
+    return this.invitationRepository.findByEmail(email);
+  }
+
+  // Co-workers see what they were given; only owners can link contracts or invite others
+  private assertOwner(account: ClientUser): void {
+    if (account.role !== 'client' || account.clientAccessLevel === ClientAccessLevel.MEMBER) {
+      throw new BusinessRuleViolationError('Only the account owner can manage contracts and co-workers');
+    }
+  }
+
+  private async ownerContractIds(owner: ClientUser): Promise<Set<string>> {
+    const contracts = await this.contractRepository.findByCustomerEmail(owner.email);
+    return new Set([
+      ...contracts.map(contract => contract.contractId.toUpperCase()),
+      ...(owner.contractIds || []).map(contractId => contractId.toUpperCase())
+    ]);
+  }
+
+  private async requireInvitation(token: string, purpose: ClientInvitationPurpose): Promise<ClientInvitation> {
+    const invitation = token ? await this.invitationRepository.findByTokenHash(hashToken(token)) : null;
+    if (!invitation || invitation.purpose !== purpose) {
+      throw new BusinessRuleViolationError(INVALID_LINK);
+    }
+    invitation.assertUsable();
+    return invitation;
+  }
+
+  // Saved before sending so the link in the email always resolves
+  private async deliver(invitation: ClientInvitation, path: string): Promise<void> {
+    await this.invitationRepository.save(invitation);
+    await this.mailer.sendInvitation(invitation, `${this.baseUrl}${path}`);
+    invitation.markEventsAsCommitted();
+  }
+
+  private newToken(): string {
+    return crypto.randomBytes(32).toString('base64url');
+  }
+
+  private expiry(): Date {
+    return new Date(Date.now() + CLIENT_INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,275 @@
+/**
+ * Payment Service - Application Layer
+ * Takes card/ACH payments against invoices and quote deposits through the configured PaymentProvider,
+ * and applies the provider's webhooks to invoice and deposit state exactly once
+ */
+
+import { Invoice, InvoiceStatus, PaymentMethod } from '../../domain/invoice/Invoice';
+import { InvoiceRepository } from '../../domain/invoice/InvoiceRepository';
+import { Quote, QuoteDepositStatus } from '../../domain/quote/Quote';
+import { QuoteRepository } from '../../domain/quote/QuoteRepository';
+import { BusinessRuleViolationError, DomainError, DomainValidationError } from '../../domain/shared/DomainError';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+import {
+  PaymentEventType,
+  PaymentIntent,
+  PaymentMethodType,
+  PaymentProvider,
+  PaymentPurpose,
+  PaymentRefund,
+  PaymentWebhookEvent,
+  PaymentWebhookVerificationError
+} from '../../infrastructure/payments/PaymentProvider';
+import { PaymentAuditLog, PaymentAuditOutcome } from '../../infrastructure/payments/PaymentAuditLog';
+
+export interface CreatePaymentIntentRequest {
+  purpose: PaymentPurpose;
+  targetId: string; // Invoice id or quote id
+  amount?: number; // Defaults to the balance due, or the deposit policy's share of the quote
+  methodTypes?: PaymentMethodType[];
+  requestedBy: string;
+}
+
+export interface WebhookResult {
+  outcome: PaymentAuditOutcome;
+  message?: string;
+}
+
+export const DEFAULT_DEPOSIT_PERCENT = 50;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+export class PaymentService {
+  // Webhooks are applied one at a time so a redelivery racing the original cannot apply twice
+  private webhookQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly provider: PaymentProvider,
+    private readonly invoiceRepository: InvoiceRepository,
+    private readonly quoteRepository: QuoteRepository,
+    private readonly auditLog: PaymentAuditLog,
+    private readonly depositPercent: number = DEFAULT_DEPOSIT_PERCENT
+  ) {}
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  get signatureHeader(): string {
+    return this.provider.signatureHeader;
+  }
+
+  async createIntent(request: CreatePaymentIntentRequest): Promise<PaymentIntent> {
+    const methodTypes = request.methodTypes?.length ? request.methodTypes : ['card', 'ach'] as PaymentMethodType[];
+
+    if (request.purpose === 'invoice') {
+      const invoice = await this.requireInvoice(request.targetId);
+      if ([InvoiceStatus.DRAFT, InvoiceStatus.PAID, InvoiceStatus.VOID].includes(invoice.status)) {
+        throw new BusinessRuleViolationError('Only issued, unpaid invoices take online payments', invoice.status);
+      }
+      const amount = round(request.amount ?? invoice.balanceDue);
+      if (!Number.isFinite(amount) || amount <= 0 || amount > invoice.balanceDue) {
+        throw new DomainValidationError('amount', `Must be between 0 and the balance due of ${invoice.balanceDue.toFixed(2)}`);
+      }
+
+      return this.provider.createIntent({
+        amount,
+        currency: 'usd',
+        methodTypes,
+        purpose: 'invoice',
+        targetId: invoice.id.toString(),
+        description: `Invoice ${invoice.invoiceNumber}`,
+        customerEmail: invoice.billTo.email,
+        // Same invoice, amount and balance reuses the intent instead of opening a second one
+        idempotencyKey: `invoice:${invoice.id.toString()}:${amount.toFixed(2)}:${invoice.amountPaid.toFixed(2)}`
+      });
+    }
+
+    if (request.purpose === 'quote_deposit') {
+      const quote = await this.requireQuote(request.targetId);
+      const amount = round(request.amount ?? ((quote.estimatedValue || 0) * this.depositPercent) / 100);
+      quote.requestDeposit(amount, request.requestedBy);
+      await this.quoteRepository.save(quote);
+
+      return this.provider.createIntent({
+        amount,
+        currency: 'usd',
+        methodTypes,
+        purpose: 'quote_deposit',
+        targetId: quote.id.toString(),
+        description: `Deposit for quote ${quote.id.toString()} - ${quote.customerName}`,
+        customerEmail: quote.email.value,
+        idempotencyKey: `quote_deposit:${quote.id.toString()}:${amount.toFixed(2)}`
+      });
+    }
+
+    throw new DomainValidationError('purpose', 'Must be invoice or quote_deposit');
+  }
+
+  async confirmIntent(intentId: string, paymentMethod?: string): Promise<PaymentIntent> {
+    return this.provider.confirmIntent(intentId, paymentMethod);
+  }
+
+  // The invoice or deposit changes when the provider's refund webhook arrives, not here
+  async refund(intentId: string, amount?: number): Promise<PaymentRefund> {
+    if (amount !== undefined && (!Number.isFinite(amount) || amount <= 0)) {
+      throw new DomainValidationError('amount', 'Must be greater than 0');
+    }
+    return this.provider.refund(intentId, amount);
+  }
+
+  async handleWebhook(rawBody: string, signature: string | undefined): Promise<WebhookResult> {
+    const result = this.webhookQueue.then(() => this.processWebhook(rawBody, signature));
+    this.webhookQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  async auditTrail(targetId?: string, limit: number = 100) {
+    return targetId ? this.auditLog.findByTargetId(targetId) : this.auditLog.list(limit);
+  }
+
+  private async processWebhook(rawBody: string, signature: string | undefined): Promise<WebhookResult> {
+    let event: PaymentWebhookEvent;
+    try {
+      event = this.provider.verifyWebhook(rawBody, signature);
+    } catch (error) {
+      if (error instanceof PaymentWebhookVerificationError) {
+        await this.audit(PaymentAuditOutcome.REJECTED, undefined, undefined, error.message);
+      }
+      throw error;
+    }
+
+    if (await this.auditLog.hasProcessedEvent(this.provider.name, event.id)) {
+      return this.audit(PaymentAuditOutcome.DUPLICATE, event, event.intent, 'Event already processed');
+    }
+
+    let intent = event.intent;
+    try {
+      if (event.type === PaymentEventType.OTHER || event.type === PaymentEventType.PAYMENT_PROCESSING) {
+        return this.audit(PaymentAuditOutcome.IGNORED, event, intent);
+      }
+      if (event.type === PaymentEventType.PAYMENT_FAILED) {
+        return this.audit(PaymentAuditOutcome.IGNORED, event, intent, intent?.failureMessage || 'Payment failed');
+      }
+
+      if (!intent?.targetId && event.intentId) {
+        intent = (await this.provider.getIntent(event.intentId)) || undefined;
+      }
+      if (!intent?.targetId) {
+        return this.audit(PaymentAuditOutcome.IGNORED, event, intent, 'Payment is not linked to an invoice or quote');
+      }
+
+      const message = intent.purpose === 'invoice'
+        ? await this.applyToInvoice(event, intent)
+        : await this.applyToDeposit(event, intent);
+      return this.audit(message ? PaymentAuditOutcome.IGNORED : PaymentAuditOutcome.APPLIED, event, intent, message);
+    } catch (error) {
+      // The provider has already moved the money, and redelivering the event cannot change a business rule,
+      // so the amount is kept as an unapplied credit for staff to apply or refund by hand
+      if (error instanceof DomainError) {
+        const what = event.type === PaymentEventType.REFUND_SUCCEEDED ? 'Refund' : 'Payment';
+        return this.audit(PaymentAuditOutcome.UNAPPLIED, event, intent, `${what} held as unapplied credit: ${errorMessage(error)}`);
+      }
+      // Recorded as failed so a redelivery of the same event is tried again
+      return this.audit(PaymentAuditOutcome.FAILED, event, intent, errorMessage(error));
+    }
+  }
+
+  // Returns why nothing changed, or undefined once the invoice is updated
+  private async applyToInvoice(event: PaymentWebhookEvent, intent: PaymentIntent): Promise<string | undefined> {
+    const invoice = await this.requireInvoice(intent.targetId);
+    const recorded = invoice.findPaymentByReference(intent.id);
+
+    if (event.type === PaymentEventType.PAYMENT_SUCCEEDED) {
+      if (recorded) {
+        return 'Payment is already recorded on the invoice';
+      }
+      invoice.recordPayment({
+        amount: intent.amountReceived || intent.amount,
+        method: intent.methodType === 'ach' ? PaymentMethod.ACH : PaymentMethod.CARD,
+        receivedAt: event.createdAt,
+        reference: intent.id,
+        notes: `Paid online through ${this.provider.name}`
+      }, `payments:${this.provider.name}`);
+    } else {
+      if (!recorded) {
+        throw new BusinessRuleViolationError('Refunded payment is not recorded on the invoice', intent.id);
+      }
+      // Refund events carry the running total, so only the part not yet applied is recorded
+      const refundedTotal = event.amountRefunded ?? intent.amountRefunded;
+      const outstanding = round(refundedTotal - (recorded.refundedAmount || 0));
+      if (outstanding <= 0) {
+        return 'Refund is already recorded on the invoice';
+      }
+      invoice.recordRefund(intent.id, outstanding, event.createdAt);
+    }
+
+    await this.invoiceRepository.save(invoice);
+    invoice.markEventsAsCommitted();
+    return undefined;
+  }
+
+  private async applyToDeposit(event: PaymentWebhookEvent, intent: PaymentIntent): Promise<string | undefined> {
+    const quote = await this.requireQuote(intent.targetId);
+    const deposit = quote.deposit;
+
+    if (event.type === PaymentEventType.PAYMENT_SUCCEEDED) {
+      if (deposit?.status !== QuoteDepositStatus.REQUESTED && deposit?.paymentReference === intent.id) {
+        return 'Deposit is already marked paid';
+      }
+      quote.markDepositPaid(intent.id, intent.amountReceived || intent.amount, event.createdAt);
+    } else {
+      if (deposit?.status === QuoteDepositStatus.REFUNDED) {
+        return 'Deposit is already refunded';
+      }
+      const refundedTotal = event.amountRefunded ?? intent.amountRefunded;
+      if (deposit && round(refundedTotal) < deposit.amount) {
+        return `Partial refund of ${refundedTotal.toFixed(2)}; the deposit stays paid`;
+      }
+      quote.markDepositRefunded(event.createdAt);
+    }
+
+    await this.quoteRepository.save(quote);
+    quote.markEventsAsCommitted();
+    return undefined;
+  }
+
+  private async audit(
+    outcome: PaymentAuditOutcome,
+    event: PaymentWebhookEvent | undefined,
+    intent: PaymentIntent | undefined,
+    message?: string
+  ): Promise<WebhookResult> {
+    await this.auditLog.record({
+      id: UniqueEntityId.create().toString(),
+      provider: this.provider.name,
+      eventId: event?.id,
+      eventType: event?.providerType,
+      intentId: intent?.id || event?.intentId,
+      purpose: intent?.purpose,
+      targetId: intent?.targetId,
+      amount: event?.type === PaymentEventType.REFUND_SUCCEEDED ? event.amountRefunded ?? intent?.amountRefunded : intent?.amount,
+      outcome,
+      message,
+      recordedAt: new Date()
+    });
+    return { outcome, message };
+  }
+
+  private async requireInvoice(invoiceId: string): Promise<Invoice> {
+    const invoice = await this.invoiceRepository.findById(UniqueEntityId.create(invoiceId));
+    if (!invoice) {
+      throw new BusinessRuleViolationError('Invoice not found', invoiceId);
+    }
+    return invoice;
+  }
+
+  private async requireQuote(quoteId: string): Promise<Quote> {
+    const quote = await this.quoteRepository.findById(UniqueEntityId.create(quoteId));
+    if (!quote) {
+      throw new BusinessRuleViolationError('Quote not found', quoteId);
+    }
+    return quote;
+  }
+}
\ No newline at end of file
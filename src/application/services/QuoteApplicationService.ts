@@ -17,14 +17,23 @@ import {
   UpdateQuotePriorityCommand,
   RejectQuoteCommand,
   AcceptQuoteCommand,
+  AssignQuoteCommand,
+  AnnotateQuoteCommand,
+  ReopenQuoteCommand,
+  DeleteQuoteCommand,
+  MergeQuoteCommand,
+  DismissDuplicateQuoteCommand,
+  CustomerSignatureEvidence,
   QuoteProcessingCommandResult 
 } from '../commands/quote/ProcessQuoteCommand';
 
 // Queries
 import { GetQuoteListQuery, GetQuoteListResult } from '../queries/quote/GetQuoteListQuery';
 import { GetQuoteDetailsQuery, GetQuoteDetailsResult } from '../queries/quote/GetQuoteDetailsQuery';
+import { GetQuoteStatusCountsQuery, GetQuoteStatusCountsResult } from '../queries/quote/GetQuoteStatusCountsQuery';
 import { BaseQueryResult, PaginationOptions, SortingOptions } from '../cqrs/Query';
 import { QuotePriority } from '../../domain/quote/Quote';
+import { EstimateInput } from '../../domain/quote/Estimate';
 
 export interface SubmitQuoteRequestRequest {
   customerName: string;
@@ -32,6 +41,8 @@ export interface SubmitQuoteRequestRequest {
   phone: string;
   serviceType: string;
   description: string;
+  serviceAddress?: string;
+  attachmentIds?: string[];
   photoFiles?: Array<{
     buffer: Buffer;
     filename: string;
@@ -41,6 +52,7 @@ export interface SubmitQuoteRequestRequest {
     ipAddress?: string;
     userAgent?: string;
     source?: string;
+    serviceClass?: string;
     utmSource?: string;
     utmMedium?: string;
     utmCampaign?: string;
@@ -58,6 +70,8 @@ export interface QuoteListRequest {
   submittedAfter?: Date;
   submittedBefore?: Date;
   isExpired?: boolean;
+  assignedTo?: string;
+  isOverdue?: boolean;
   page?: number;
   limit?: number;
   sortField?: string;
@@ -76,6 +90,8 @@ export interface SendQuoteRequest extends ProcessQuoteRequest {
   estimatedValue: number;
   notes?: string;
   validUntil?: Date;
+  estimate?: EstimateInput;
+  serviceAddress?: string; // Fills in or corrects the address the customer gave
 }
 
 export interface UpdateQuotePriorityRequest extends ProcessQuoteRequest {
@@ -86,11 +102,26 @@ export interface UpdateQuotePriorityRequest extends ProcessQuoteRequest {
 export interface RejectQuoteRequest extends ProcessQuoteRequest {
   reason: string;
   notifyCustomer?: boolean;
+  customerSignature?: string;
+  signatureEvidence?: CustomerSignatureEvidence;
 }
 
 export interface AcceptQuoteRequest extends ProcessQuoteRequest {
   customerSignature?: string;
   acceptanceDate?: Date;
+  signatureEvidence?: CustomerSignatureEvidence;
+}
+
+export interface AssignQuoteRequest extends ProcessQuoteRequest {
+  assignee?: string; // Omitted to use the estimator rotation
+}
+
+export interface AnnotateQuoteRequest extends ProcessQuoteRequest {
+  notes: string;
+}
+
+export interface MergeQuoteRequest extends ProcessQuoteRequest {
+  targetQuoteId: string; // The quote that is kept
 }
 
 export class QuoteApplicationService {
@@ -109,6 +140,8 @@ export class QuoteApplicationService {
       request.description,
       request.photoFiles,
       request.metadata,
+      request.serviceAddress,
+      request.attachmentIds,
       request.correlationId,
       request.userId
     );
@@ -132,6 +165,8 @@ export class QuoteApplicationService {
       request.estimatedValue,
       request.notes,
       request.validUntil,
+      request.estimate,
+      request.serviceAddress,
       request.correlationId,
       request.userId
     );
@@ -156,6 +191,8 @@ export class QuoteApplicationService {
       request.quoteId,
       request.reason,
       request.notifyCustomer ?? true,
+      request.customerSignature,
+      request.signatureEvidence,
       request.correlationId,
       request.userId
     );
@@ -168,6 +205,70 @@ export class QuoteApplicationService {
       request.quoteId,
       request.customerSignature,
       request.acceptanceDate,
+      request.signatureEvidence,
+      request.correlationId,
+      request.userId
+    );
+
+    return await this.commandDispatcher.dispatch(command);
+  }
+
+  async assignQuote(request: AssignQuoteRequest): Promise<QuoteProcessingCommandResult> {
+    const command = new AssignQuoteCommand(
+      request.quoteId,
+      request.assignee,
+      request.correlationId,
+      request.userId
+    );
+
+    return await this.commandDispatcher.dispatch(command);
+  }
+
+  async annotateQuote(request: AnnotateQuoteRequest): Promise<QuoteProcessingCommandResult> {
+    const command = new AnnotateQuoteCommand(
+      request.quoteId,
+      request.notes,
+      request.correlationId,
+      request.userId
+    );
+
+    return await this.commandDispatcher.dispatch(command);
+  }
+
+  async reopenQuote(request: ProcessQuoteRequest): Promise<QuoteProcessingCommandResult> {
+    const command = new ReopenQuoteCommand(
+      request.quoteId,
+      request.correlationId,
+      request.userId
+    );
+
+    return await this.commandDispatcher.dispatch(command);
+  }
+
+  async deleteQuote(request: ProcessQuoteRequest): Promise<QuoteProcessingCommandResult> {
+    const command = new DeleteQuoteCommand(
+      request.quoteId,
+      request.correlationId,
+      request.userId
+    );
+
+    return await this.commandDispatcher.dispatch(command);
+  }
+
+  async mergeQuote(request: MergeQuoteRequest): Promise<QuoteProcessingCommandResult> {
+    const command = new MergeQuoteCommand(
+      request.quoteId,
+      request.targetQuoteId,
+      request.correlationId,
+      request.userId
+    );
+
+    return await this.commandDispatcher.dispatch(command);
+  }
+
+  async dismissDuplicate(request: ProcessQuoteRequest): Promise<QuoteProcessingCommandResult> {
+    const command = new DismissDuplicateQuoteCommand(
+      request.quoteId,
       request.correlationId,
       request.userId
     );
@@ -196,6 +297,8 @@ export class QuoteApplicationService {
       request.submittedAfter,
       request.submittedBefore,
       request.isExpired,
+      request.assignedTo,
+      request.isOverdue,
       request.correlationId,
       request.userId,
       pagination,
@@ -214,6 +317,14 @@ export class QuoteApplicationService {
     return await this.queryDispatcher.dispatch(query);
   }
 
+  async getQuoteStatusCounts(
+    correlationId?: string,
+    userId?: string
+  ): Promise<BaseQueryResult<GetQuoteStatusCountsResult>> {
+    const query = new GetQuoteStatusCountsQuery(correlationId, userId);
+    return await this.queryDispatcher.dispatch(query);
+  }
+
   // Convenience Methods
   async getQuotesByStatus(
     status: string,
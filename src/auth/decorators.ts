@@ -10,7 +10,6 @@ import {
   AuthenticationError,
   AuthErrorCode
 } from './types';
-import { withAuth, AuthenticatedHandler } from './middleware';
 
 // React Context for Authentication
 const AuthenticationContext = createContext<AuthContext | null>(null);
@@ -122,93 +121,7 @@ export function requireAuth<P extends object>(
   return RequireAuthComponent;
 }
 
-// Decorator for API routes that require authentication
-export function authenticated(
-  permissions?: string[],
-  roles?: string[]
-) {
-  return function (handler: AuthenticatedHandler) {
-    return withAuth(handler, { permissions, roles });
-  };
-}
-
-// Decorator for API routes with optional authentication
-export function optionalAuth() {
-  return function (handler: AuthenticatedHandler) {
-    return withAuth(handler, { optional: true });
-  };
-}
-
-// Decorator for admin-only routes
-export function adminOnly() {
-  return function (handler: AuthenticatedHandler) {
-    return withAuth(handler, { roles: ['admin', 'super_admin'] });
-  };
-}
-
-// Decorator for manager-level routes
-export function managerLevel() {
-  return function (handler: AuthenticatedHandler) {
-    return withAuth(handler, { roles: ['manager', 'admin', 'super_admin'] });
-  };
-}
-
-// Decorator for user-level routes (authenticated users)
-export function userLevel() {
-  return function (handler: AuthenticatedHandler) {
-    return withAuth(handler, { roles: ['user', 'manager', 'admin', 'super_admin'] });
-  };
-}
-
-// Decorator for rate-limited routes
-export function rateLimited(maxRequests: number = 100, windowMs: number = 60000) {
-  return function (handler: AuthenticatedHandler) {
-    return withAuth(handler, {
-      rateLimit: {
-        enabled: true,
-        maxRequests,
-        windowMs,
-        skipSuccessfulRequests: false,
-        skipFailedRequests: false
-      }
-    });
-  };
-}
-
-// Decorator for specific permission requirements
-export function requirePermissions(...permissions: string[]) {
-  return function (handler: AuthenticatedHandler) {
-    return withAuth(handler, { permissions });
-  };
-}
-
-// Decorator for specific role requirements
-export function requireRoles(...roles: string[]) {
-  return function (handler: AuthenticatedHandler) {
-    return withAuth(handler, { roles });
-  };
-}
-
-// Decorator combining authentication and rate limiting
-export function secureRoute(options: {
-  permissions?: string[];
-  roles?: string[];
-  rateLimit?: { maxRequests: number; windowMs: number };
-}) {
-  return function (handler: AuthenticatedHandler) {
-    return withAuth(handler, {
-      permissions: options.permissions,
-      roles: options.roles,
-      rateLimit: options.rateLimit ? {
-        enabled: true,
-        maxRequests: options.rateLimit.maxRequests,
-        windowMs: options.rateLimit.windowMs,
-        skipSuccessfulRequests: false,
-        skipFailedRequests: false
-      } : undefined
-    });
-  };
-}
+// API routes are guarded with withAuth from src/middleware/withAuth
 
 // Helper function to check if user has permission
 export function hasPermission(authContext: AuthContext, permission: string): boolean {
@@ -391,44 +304,6 @@ export function useIsAuthenticated(): boolean {
   return authContext?.isAuthenticated ?? false;
 }
 
-// Utility for creating protected API route handlers
-export const createProtectedHandler = {
-  // For user-level operations
-  user: (handler: AuthenticatedHandler) => userLevel()(handler),
-  
-  // For manager-level operations
-  manager: (handler: AuthenticatedHandler) => managerLevel()(handler),
-  
-  // For admin-level operations
-  admin: (handler: AuthenticatedHandler) => adminOnly()(handler),
-  
-  // For specific permissions
-  withPermissions: (permissions: string[]) => (handler: AuthenticatedHandler) => 
-    requirePermissions(...permissions)(handler),
-  
-  // For specific roles
-  withRoles: (roles: string[]) => (handler: AuthenticatedHandler) => 
-    requireRoles(...roles)(handler),
-  
-  // For rate-limited endpoints
-  rateLimited: (maxRequests: number, windowMs: number) => (handler: AuthenticatedHandler) =>
-    rateLimited(maxRequests, windowMs)(handler),
-  
-  // For quote management
-  quoteRead: (handler: AuthenticatedHandler) => 
-    requirePermissions('quote:read')(handler),
-  
-  quoteWrite: (handler: AuthenticatedHandler) => 
-    requirePermissions('quote:write')(handler),
-  
-  quoteApprove: (handler: AuthenticatedHandler) => 
-    requirePermissions('quote:approve')(handler),
-  
-  // For user management
-  userManagement: (handler: AuthenticatedHandler) => 
-    requirePermissions('admin:users')(handler)
-};
-
 // Default fallback components
 export function UnauthorizedFallback() {
   return React.createElement(
@@ -19,18 +19,6 @@ export {
   AuthenticatedOnly,
   UnauthenticatedOnly,
   
-  // Decorators for routes
-  authenticated,
-  optionalAuth,
-  adminOnly,
-  managerLevel,
-  userLevel,
-  rateLimited,
-  requirePermissions,
-  requireRoles,
-  secureRoute,
-  createProtectedHandler,
-  
   // Utility functions
   hasPermission,
   hasAnyPermission,
@@ -48,8 +36,7 @@ export {
 // Re-export AuthGuard from decorators (avoiding conflict with types)
 export { AuthGuard as AuthGuardComponent } from './decorators';
 
-// Middleware functions
-export * from './middleware';
+// API routes use the session guard in src/middleware/withAuth
 
 // Usage examples (optional - remove in production)
 // Examples have been moved to examples.ts.bak due to incomplete implementations
@@ -0,0 +1,221 @@
+/**
+ * Login Policy Engine
+ * The one place sign-in attempts are judged: per-account and per-IP failure counts with progressive
+ * lockouts, and new-device / new-country flags on successful sign-ins
+ * SECURITY: Attempts on unknown emails count against that email too, so lockouts do not reveal which accounts exist
+ */
+
+import * as crypto from 'crypto';
+import {
+  IpCountryResolver,
+  LoginAlertNotifier,
+  LoginAnomalyFlag,
+  LoginAttemptRecord,
+  LoginLockout,
+  LoginLockoutScope,
+  LoginSecurityStore
+} from './types';
+import { describeDevice } from '../lib/user-agent';
+
+export interface LoginPolicy {
+  accountMaxFailures: number; // Failures on one account within the window before it locks
+  ipMaxFailures: number; // Failures from one IP address, across accounts, before it locks
+  failureWindowMs: number;
+  baseLockoutMs: number; // The first lock; each further strike doubles it
+  maxLockoutMs: number;
+  strikeResetMs: number; // Strikes are forgotten this long after the last lock
+  historyDays: number; // How far back sign-ins count towards known devices and countries
+}
+
+export const DEFAULT_LOGIN_POLICY: LoginPolicy = {
+  accountMaxFailures: 5,
+  ipMaxFailures: 20,
+  failureWindowMs: 15 * 60 * 1000,
+  baseLockoutMs: 15 * 60 * 1000,
+  maxLockoutMs: 24 * 60 * 60 * 1000,
+  strikeResetMs: 24 * 60 * 60 * 1000,
+  historyDays: 90
+};
+
+export interface LoginContext {
+  email: string;
+  ip: string;
+  userAgent: string;
+  userId?: string;
+}
+
+export interface LoginDecision {
+  allowed: boolean;
+  scope?: LoginLockoutScope; // What is locked, when not allowed
+  lockedUntil?: Date;
+}
+
+export interface SignInAssessment {
+  flags: LoginAnomalyFlag[];
+  suspicious: boolean;
+}
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+export class LoginPolicyEngine {
+  constructor(
+    private readonly store: LoginSecurityStore,
+    private readonly countryResolver: IpCountryResolver,
+    private readonly notifier: LoginAlertNotifier,
+    private readonly policy: LoginPolicy = DEFAULT_LOGIN_POLICY
+  ) {}
+
+  /**
+   * Whether a sign-in for this email from this IP address may be tried at all
+   */
+  async evaluate(email: string, ip: string, now: Date = new Date()): Promise<LoginDecision> {
+    for (const [scope, subject] of this.subjects(email, ip)) {
+      const lockout = await this.store.findLockout(scope, subject);
+      if (lockout?.lockedUntil && lockout.lockedUntil > now) {
+        return { allowed: false, scope, lockedUntil: lockout.lockedUntil };
+      }
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Record an attempt turned away by a lockout; it does not count as another failure
+   */
+  async recordBlocked(context: LoginContext, decision: LoginDecision): Promise<void> {
+    await this.store.recordAttempt(this.toAttempt(context, false, `${decision.scope === 'ip' ? 'IP address' : 'Account'} locked`));
+  }
+
+  /**
+   * Record a wrong password or second factor, locking the account or IP address once it has too many
+   * @returns The decision for the next attempt
+   */
+  async recordFailure(context: LoginContext, reason: string): Promise<LoginDecision> {
+    const now = new Date();
+    await this.store.recordAttempt(this.toAttempt(context, false, reason, now));
+
+    for (const [scope, subject] of this.subjects(context.email, context.ip)) {
+      await this.countFailure(scope, subject, now);
+    }
+
+    return this.evaluate(context.email, context.ip, now);
+  }
+
+  /**
+   * Record a completed sign-in, flag it against the account's recent sign-ins and alert the user if it stands out
+   * The first sign-in an account has is never flagged: there is nothing to compare it with
+   */
+  async recordSuccess(context: LoginContext & { userId: string; recipientName: string }): Promise<SignInAssessment> {
+    const now = new Date();
+    const since = new Date(now.getTime() - this.policy.historyDays * 24 * 60 * 60 * 1000);
+    const history = await this.store.findSuccessfulAttempts(context.userId, since);
+    const attempt = this.toAttempt(context, true, undefined, now);
+
+    if (history.length > 0) {
+      if (!history.some(previous => previous.device === attempt.device)) {
+        attempt.flags.push('new_device');
+      }
+      if (attempt.country && !history.some(previous => previous.country === attempt.country)) {
+        attempt.flags.push('new_country');
+      }
+    }
+
+    await this.store.recordAttempt(attempt);
+    // The account proved itself; the IP address counter stays, so one good login cannot reset a spray
+    await this.store.deleteLockout('account', normalizeEmail(context.email));
+
+    const suspicious = attempt.flags.length > 0;
+    if (suspicious) {
+      console.warn('⚠️ Suspicious sign-in:', { userId: context.userId, ip: attempt.ip, device: attempt.device, country: attempt.country, flags: attempt.flags });
+      try {
+        await this.notifier.notifySuspiciousSignIn({
+          email: attempt.email,
+          recipientName: context.recipientName,
+          ip: attempt.ip,
+          device: attempt.device,
+          country: attempt.country,
+          flags: attempt.flags,
+          attemptedAt: now
+        });
+      } catch (error) {
+        // The user still signs in; the attempt is flagged for admins either way
+        console.error('Failed to send suspicious sign-in alert:', error);
+      }
+    }
+
+    return { flags: attempt.flags, suspicious };
+  }
+
+  /**
+   * Lift a lockout by hand, clearing its failures and strikes
+   */
+  async unlock(scope: LoginLockoutScope, subject: string): Promise<boolean> {
+    return this.store.deleteLockout(scope, scope === 'account' ? normalizeEmail(subject) : subject);
+  }
+
+  async listLockouts(): Promise<LoginLockout[]> {
+    return this.store.findLockedOut(new Date());
+  }
+
+  async listAttempts(limit: number, flaggedOnly: boolean = false): Promise<LoginAttemptRecord[]> {
+    return this.store.findRecentAttempts(limit, flaggedOnly);
+  }
+
+  private async countFailure(scope: LoginLockoutScope, subject: string, now: Date): Promise<void> {
+    const lockout: LoginLockout = await this.store.findLockout(scope, subject)
+      || { scope, subject, failures: 0, windowStartedAt: now, strikes: 0, lastFailureAt: now };
+
+    if (lockout.lockedAt && now.getTime() - lockout.lockedAt.getTime() > this.policy.strikeResetMs) {
+      lockout.strikes = 0;
+    }
+    if (now.getTime() - lockout.windowStartedAt.getTime() > this.policy.failureWindowMs) {
+      lockout.failures = 0;
+      lockout.windowStartedAt = now;
+    }
+
+    lockout.failures++;
+    lockout.lastFailureAt = now;
+
+    const maxFailures = scope === 'account' ? this.policy.accountMaxFailures : this.policy.ipMaxFailures;
+    if (lockout.failures >= maxFailures) {
+      lockout.strikes++;
+      const duration = Math.min(this.policy.baseLockoutMs * 2 ** (lockout.strikes - 1), this.policy.maxLockoutMs);
+      lockout.lockedAt = now;
+      lockout.lockedUntil = new Date(now.getTime() + duration);
+      lockout.failures = 0;
+      lockout.windowStartedAt = now;
+      console.warn(`🔒 Sign-in locked for ${scope} ${subject} until ${lockout.lockedUntil.toISOString()} (strike ${lockout.strikes})`);
+    }
+
+    await this.store.saveLockout(lockout);
+  }
+
+  // Callers that could not tell the IP address pass 'unknown', which must not lock everyone out together
+  private subjects(email: string, ip: string): Array<[LoginLockoutScope, string]> {
+    const subjects: Array<[LoginLockoutScope, string]> = [['account', normalizeEmail(email)]];
+    if (ip && ip !== 'unknown') {
+      subjects.push(['ip', ip]);
+    }
+    return subjects;
+  }
+
+  private toAttempt(
+    context: LoginContext,
+    success: boolean,
+    failureReason?: string,
+    attemptedAt: Date = new Date()
+  ): LoginAttemptRecord {
+    return {
+      id: crypto.randomUUID(),
+      userId: context.userId,
+      email: normalizeEmail(context.email),
+      ip: context.ip,
+      userAgent: context.userAgent.slice(0, 500),
+      device: describeDevice(context.userAgent),
+      country: this.countryResolver.resolve(context.ip) || undefined,
+      success,
+      failureReason,
+      flags: [],
+      attemptedAt
+    };
+  }
+}
\ No newline at end of file
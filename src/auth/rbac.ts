@@ -11,10 +11,23 @@ import {
   AuthorizationResult,
   AuthContext,
   RBACConfig,
+  RBACError,
+  RBACErrorCode,
+  RBACStore,
   ResourceAction,
+  RoleAssignment,
   DEFAULT_ROLES
 } from './types';
 
+// What an admin supplies to create or change a custom role; permissions are catalog names
+export interface RoleDefinition {
+  name: string;
+  description?: string;
+  permissions: string[];
+}
+
+const ROLE_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9 _-]{1,49}$/;
+
 // RBAC Manager
 export class RBACManager {
   private config: RBACConfig;
@@ -22,7 +35,7 @@ export class RBACManager {
   private permissionCache = new Map<string, Permission[]>();
   private roleCache = new Map<string, Role[]>();
 
-  constructor(config: Partial<RBACConfig> = {}) {
+  constructor(private store: RBACStore, config: Partial<RBACConfig> = {}) {
     this.config = {
       enableHierarchy: true,
       enableInheritance: true,
@@ -126,7 +139,7 @@ export class RBACManager {
     }
 
     // Check role-based permissions
-    const userRoles = await this.getUserRoles(user.id);
+    const userRoles = await this.getUserRoles(user.id, user.roles.map(role => role.name));
     for (const role of userRoles) {
       const rolePermissions = await this.getRolePermissions(role.id);
       const rolePermission = rolePermissions.find(p => p.name === permission);
@@ -183,7 +196,7 @@ export class RBACManager {
    * Check if user has role
    */
   async hasRole(user: User, roleName: string): Promise<boolean> {
-    const userRoles = await this.getUserRoles(user.id);
+    const userRoles = await this.getUserRoles(user.id, user.roles.map(role => role.name));
     
     // Check direct roles
     if (userRoles.some(role => role.name === roleName)) {
@@ -243,10 +256,12 @@ export class RBACManager {
 
   /**
    * Get effective permissions for user
+   * @param baseRoleNames Roles the account holds by its type (e.g. admin), on top of stored assignments
    */
-  async getEffectivePermissions(userId: string): Promise<Permission[]> {
+  async getEffectivePermissions(userId: string, baseRoleNames: string[] = []): Promise<Permission[]> {
+    const cacheKey = this.cacheKey(userId, baseRoleNames);
     if (this.config.cachePermissions) {
-      const cached = this.permissionCache.get(userId);
+      const cached = this.permissionCache.get(cacheKey);
       if (cached) {
         return cached;
       }
@@ -261,7 +276,7 @@ export class RBACManager {
     });
 
     // Get role-based permissions
-    const userRoles = await this.getUserRoles(userId);
+    const userRoles = await this.getUserRoles(userId, baseRoleNames);
     for (const role of userRoles) {
       const rolePermissions = await this.getRolePermissions(role.id);
       rolePermissions.forEach(permission => {
@@ -290,11 +305,11 @@ export class RBACManager {
 
     // Cache the result
     if (this.config.cachePermissions) {
-      this.permissionCache.set(userId, effectivePermissions);
+      this.permissionCache.set(cacheKey, effectivePermissions);
       
       // Set cache expiration
       setTimeout(() => {
-        this.permissionCache.delete(userId);
+        this.permissionCache.delete(cacheKey);
       }, this.config.cacheTTL);
     }
 
@@ -304,9 +319,10 @@ export class RBACManager {
   /**
    * Get effective roles for user
    */
-  async getEffectiveRoles(userId: string): Promise<Role[]> {
+  async getEffectiveRoles(userId: string, baseRoleNames: string[] = []): Promise<Role[]> {
+    const cacheKey = this.cacheKey(userId, baseRoleNames);
     if (this.config.cachePermissions) {
-      const cached = this.roleCache.get(userId);
+      const cached = this.roleCache.get(cacheKey);
       if (cached) {
         return cached;
       }
@@ -315,7 +331,7 @@ export class RBACManager {
     const roles = new Map<string, Role>();
 
     // Get direct user roles
-    const userRoles = await this.getUserRoles(userId);
+    const userRoles = await this.getUserRoles(userId, baseRoleNames);
     userRoles.forEach(role => {
       roles.set(role.name, role);
     });
@@ -340,11 +356,11 @@ export class RBACManager {
 
     // Cache the result
     if (this.config.cachePermissions) {
-      this.roleCache.set(userId, effectiveRoles);
+      this.roleCache.set(cacheKey, effectiveRoles);
       
       // Set cache expiration
       setTimeout(() => {
-        this.roleCache.delete(userId);
+        this.roleCache.delete(cacheKey);
       }, this.config.cacheTTL);
     }
 
@@ -369,7 +385,7 @@ export class RBACManager {
     for (const condition of conditions) {
       const contextValue = this.getNestedValue(context, condition.field);
       
-      if (!this.evaluateCondition(contextValue, condition.operator, condition.value)) {
+      if (!this.evaluateCondition(contextValue, condition.operator, this.resolveConditionValue(condition.value, context))) {
         return false;
       }
     }
@@ -405,6 +421,19 @@ export class RBACManager {
     }
   }
 
+  /**
+   * Resolve a '${context.path}' placeholder against the request context, so a condition such as
+   * quote.userId eq ${context.user.id} compares against the signed-in user
+   */
+  private resolveConditionValue(value: unknown, context: Record<string, unknown>): unknown {
+    if (typeof value !== 'string') {
+      return value;
+    }
+
+    const placeholder = /^\$\{context\.([\w.]+)\}$/.exec(value);
+    return placeholder ? this.getNestedValue(context, placeholder[1]) : value;
+  }
+
   /**
    * Get nested value from object
    */
@@ -421,43 +450,232 @@ export class RBACManager {
   }
 
   /**
-   * Get user permissions (to be implemented with actual data source)
+   * Seed the permission catalog and the default roles into the store
+   * Safe to run on every start: missing entries are added and system roles follow the code definitions,
+   * while custom roles and assignments are left alone
+   */
+  async seedDefaults(): Promise<void> {
+    const catalog = new Map((await this.store.listPermissions()).map(permission => [permission.name, permission]));
+    for (const permission of DefaultPermissions.createSuperAdminPermissions()) {
+      if (!catalog.has(permission.name)) {
+        await this.store.savePermission(permission);
+        catalog.set(permission.name, permission);
+      }
+    }
+
+    for (const definition of DefaultRoles.createAllDefaultRoles()) {
+      const permissions = definition.permissions.map(permission => catalog.get(permission.name)!);
+      const existing = await this.store.findRoleByName(definition.name);
+
+      if (!existing) {
+        await this.store.saveRole({ ...definition, permissions });
+      } else if (existing.isSystemRole && !this.samePermissions(existing.permissions, permissions)) {
+        await this.store.saveRole({ ...existing, permissions, updatedAt: new Date() });
+      }
+    }
+
+    this.clearCache();
+  }
+
+  /**
+   * All roles, system roles first
+   */
+  async listRoles(): Promise<Role[]> {
+    const roles = await this.store.listRoles();
+    return roles.sort((a, b) => Number(b.isSystemRole) - Number(a.isSystemRole) || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * The permission catalog roles are built from
+   */
+  async listPermissions(): Promise<Permission[]> {
+    const permissions = await this.store.listPermissions();
+    return permissions.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async listAssignments(): Promise<RoleAssignment[]> {
+    return this.store.listAssignments();
+  }
+
+  async findRole(roleId: string): Promise<Role | null> {
+    return this.store.findRoleById(roleId);
+  }
+
+  /**
+   * Create a custom role from catalog permissions
+   * @throws {RBACError} If the name is invalid or taken, or a permission is not in the catalog
+   */
+  async createRole(definition: RoleDefinition): Promise<Role> {
+    const name = this.validateRoleName(definition.name);
+    if (await this.store.findRoleByName(name)) {
+      throw new RBACError(`A role named "${name}" already exists`, RBACErrorCode.ROLE_EXISTS);
+    }
+
+    const builder = new RoleBuilder(name).permissions(await this.resolvePermissions(definition.permissions));
+    if (definition.description?.trim()) {
+      builder.description(definition.description.trim());
+    }
+
+    const role = builder.build();
+    await this.store.saveRole(role);
+    this.clearCache();
+    return role;
+  }
+
+  /**
+   * Rename a custom role or change its description and permissions
+   * @throws {RBACError} If the role is missing or a system role, or the new definition is invalid
+   */
+  async updateRole(roleId: string, definition: RoleDefinition): Promise<Role> {
+    const role = await this.requireCustomRole(roleId);
+    const name = this.validateRoleName(definition.name);
+
+    const sameName = await this.store.findRoleByName(name);
+    if (sameName && sameName.id !== role.id) {
+      throw new RBACError(`A role named "${name}" already exists`, RBACErrorCode.ROLE_EXISTS);
+    }
+
+    const updated: Role = {
+      ...role,
+      name,
+      description: definition.description?.trim() || undefined,
+      permissions: await this.resolvePermissions(definition.permissions),
+      updatedAt: new Date()
+    };
+    await this.store.saveRole(updated);
+    this.clearCache();
+    return updated;
+  }
+
+  /**
+   * Delete a custom role along with its assignments
+   * @throws {RBACError} If the role is missing or a system role
+   */
+  async deleteRole(roleId: string): Promise<void> {
+    const role = await this.requireCustomRole(roleId);
+    await this.store.deleteRole(role.id);
+    this.clearCache();
+  }
+
+  /**
+   * Give a user a role; assigning a role they already hold keeps the original assignment
+   * @throws {RBACError} If the role does not exist
+   */
+  async assignRole(userId: string, roleId: string, assignedBy: string): Promise<RoleAssignment> {
+    const role = await this.store.findRoleById(roleId);
+    if (!role) {
+      throw new RBACError('Role not found', RBACErrorCode.ROLE_NOT_FOUND);
+    }
+
+    const existing = (await this.store.findAssignmentsByUser(userId)).find(assignment => assignment.roleId === role.id);
+    if (existing) {
+      return existing;
+    }
+
+    const assignment: RoleAssignment = { userId, roleId: role.id, assignedBy, assignedAt: new Date() };
+    await this.store.saveAssignment(assignment);
+    this.clearCache();
+    return assignment;
+  }
+
+  async revokeRole(userId: string, roleId: string): Promise<void> {
+    await this.store.deleteAssignment(userId, roleId);
+    this.clearCache();
+  }
+
+  /**
+   * Replace the permissions a user holds directly, outside any role
+   * @throws {RBACError} If a permission is not in the catalog
+   */
+  async setUserPermissions(userId: string, permissionNames: string[]): Promise<void> {
+    await this.store.saveUserPermissions(userId, await this.resolvePermissions(permissionNames));
+    this.clearCache();
+  }
+
+  private cacheKey(userId: string, baseRoleNames: string[]): string {
+    return [userId, ...[...baseRoleNames].sort()].join('|');
+  }
+
+  private validateRoleName(name: string): string {
+    const trimmed = (name || '').trim().replace(/\s+/g, ' ');
+    if (!ROLE_NAME_PATTERN.test(trimmed)) {
+      throw new RBACError(
+        'Role names are 2-50 characters: letters, numbers, spaces, hyphens and underscores, starting with a letter',
+        RBACErrorCode.INVALID_ROLE
+      );
+    }
+    return trimmed;
+  }
+
+  private async requireCustomRole(roleId: string): Promise<Role> {
+    const role = await this.store.findRoleById(roleId);
+    if (!role) {
+      throw new RBACError('Role not found', RBACErrorCode.ROLE_NOT_FOUND);
+    }
+    if (role.isSystemRole) {
+      throw new RBACError(`"${role.name}" is a system role and cannot be changed`, RBACErrorCode.SYSTEM_ROLE);
+    }
+    return role;
+  }
+
+  private async resolvePermissions(names: string[]): Promise<Permission[]> {
+    const catalog = new Map((await this.store.listPermissions()).map(permission => [permission.name, permission]));
+    const unique = Array.from(new Set(names || []));
+    const unknown = unique.filter(name => !catalog.has(name));
+    if (unknown.length > 0) {
+      throw new RBACError(`Unknown permissions: ${unknown.join(', ')}`, RBACErrorCode.UNKNOWN_PERMISSION);
+    }
+    return unique.map(name => catalog.get(name)!);
+  }
+
+  private samePermissions(a: Permission[], b: Permission[]): boolean {
+    const names = new Set(a.map(permission => permission.name));
+    return a.length === b.length && b.every(permission => names.has(permission.name));
+  }
+
+  /**
+   * Get permissions granted to the user directly, outside any role
    */
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  private async getUserPermissions(_userId: string): Promise<Permission[]> {
-    // This would be implemented with actual database/service calls
-    // For now, return empty array
-    return [];
+  private async getUserPermissions(userId: string): Promise<Permission[]> {
+    return this.store.findUserPermissions(userId);
   }
 
   /**
-   * Get user roles (to be implemented with actual data source)
+   * Get user roles: the stored assignments plus the roles the account holds by its type
    */
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  private async getUserRoles(_userId: string): Promise<Role[]> {
-    // This would be implemented with actual database/service calls
-    // For now, return empty array
-    return [];
+  private async getUserRoles(userId: string, baseRoleNames: string[] = []): Promise<Role[]> {
+    const roles = new Map<string, Role>();
+
+    for (const roleName of baseRoleNames) {
+      const role = await this.store.findRoleByName(roleName);
+      if (role) {
+        roles.set(role.id, role);
+      }
+    }
+
+    for (const assignment of await this.store.findAssignmentsByUser(userId)) {
+      const role = await this.store.findRoleById(assignment.roleId);
+      if (role) {
+        roles.set(role.id, role);
+      }
+    }
+
+    return Array.from(roles.values());
   }
 
   /**
-   * Get role permissions (to be implemented with actual data source)
+   * Get role permissions
    */
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  private async getRolePermissions(_roleId: string): Promise<Permission[]> {
-    // This would be implemented with actual database/service calls
-    // For now, return empty array
-    return [];
+  private async getRolePermissions(roleId: string): Promise<Permission[]> {
+    const role = await this.store.findRoleById(roleId);
+    return role ? role.permissions : [];
   }
 
   /**
-   * Find role by name (to be implemented with actual data source)
+   * Find role by name
    */
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  private async findRoleByName(_roleName: string): Promise<Role | null> {
-    // This would be implemented with actual database/service calls
-    // For now, return null
-    return null;
+  private async findRoleByName(roleName: string): Promise<Role | null> {
+    return this.store.findRoleByName(roleName);
   }
 }
 
@@ -191,6 +191,13 @@ export interface RBACConfig {
   cacheTTL: number;
 }
 
+export interface RoleAssignment {
+  userId: string;
+  roleId: string;
+  assignedBy: string;
+  assignedAt: Date;
+}
+
 // Authentication Request/Response Types
 export interface LoginRequest {
   email: string;
@@ -270,6 +277,26 @@ export interface Session {
   metadata?: Record<string, unknown>;
 }
 
+// One signed-in device. Refreshing replaces the session with a new one in the same family,
+// so a family is a single sign-in and every session rotated from it
+export interface StoredSession {
+  id: string;
+  userId: string;
+  familyId: string;
+  refreshTokenHash: string;
+  rememberMe: boolean;
+  ip: string;
+  userAgent: string;
+  signedInAt: Date; // When the family started
+  createdAt: Date;
+  lastActiveAt: Date;
+  expiresAt: Date; // After this the session must be refreshed
+  refreshExpiresAt: Date; // After this the user signs in again
+  rotatedAt?: Date;
+  revokedAt?: Date;
+  revokedReason?: string;
+}
+
 export interface AuthenticationResult {
   success: boolean;
   user?: User;
@@ -355,6 +382,16 @@ export class SecurityError extends Error {
   }
 }
 
+export class RBACError extends Error {
+  constructor(
+    message: string,
+    public code: RBACErrorCode
+  ) {
+    super(message);
+    this.name = 'RBACError';
+  }
+}
+
 export enum AuthErrorCode {
   INVALID_CREDENTIALS = 'INVALID_CREDENTIALS',
   ACCOUNT_LOCKED = 'ACCOUNT_LOCKED',
@@ -376,6 +413,14 @@ export enum AuthErrorCode {
   DEVICE_NOT_TRUSTED = 'DEVICE_NOT_TRUSTED'
 }
 
+export enum RBACErrorCode {
+  ROLE_NOT_FOUND = 'ROLE_NOT_FOUND',
+  ROLE_EXISTS = 'ROLE_EXISTS',
+  SYSTEM_ROLE = 'SYSTEM_ROLE',
+  INVALID_ROLE = 'INVALID_ROLE',
+  UNKNOWN_PERMISSION = 'UNKNOWN_PERMISSION'
+}
+
 // Service Interfaces
 export interface AuthenticationService {
   login(request: LoginRequest): Promise<AuthenticationResult>;
@@ -431,6 +476,100 @@ export interface PermissionService {
   findByResource(resource: string): Promise<Permission[]>;
 }
 
+// Where RBACManager keeps roles, the permission catalog and who holds what
+export interface RBACStore {
+  listRoles(): Promise<Role[]>;
+  findRoleById(id: string): Promise<Role | null>;
+  findRoleByName(name: string): Promise<Role | null>;
+  saveRole(role: Role): Promise<void>;
+  deleteRole(id: string): Promise<void>; // Also removes the role's assignments
+  listPermissions(): Promise<Permission[]>;
+  savePermission(permission: Permission): Promise<void>;
+  listAssignments(): Promise<RoleAssignment[]>;
+  findAssignmentsByUser(userId: string): Promise<RoleAssignment[]>;
+  saveAssignment(assignment: RoleAssignment): Promise<void>;
+  deleteAssignment(userId: string, roleId: string): Promise<void>;
+  findUserPermissions(userId: string): Promise<Permission[]>;
+  saveUserPermissions(userId: string, permissions: Permission[]): Promise<void>;
+}
+
+// Where sign-in sessions live, so sign-outs and revocations survive restarts and reach every instance
+export interface SessionStore {
+  save(session: StoredSession): Promise<void>;
+  findById(id: string): Promise<StoredSession | null>;
+  findByRefreshTokenHash(refreshTokenHash: string): Promise<StoredSession | null>;
+  findActive(userId?: string): Promise<StoredSession[]>; // Neither rotated, revoked nor past refreshExpiresAt
+  markRotated(id: string, rotatedAt: Date): Promise<boolean>; // False when it was already rotated or revoked
+  revokeFamily(familyId: string, reason: string): Promise<string[]>; // Returns the revoked session ids
+  revokeByUser(userId: string, reason: string, exceptFamilyId?: string): Promise<string[]>;
+  deleteExpired(now: Date): Promise<number>;
+}
+
+// Why the login policy flagged a successful sign-in
+export type LoginAnomalyFlag = 'new_device' | 'new_country';
+
+// One sign-in attempt, kept for anomaly detection and the admin sign-in activity view
+export interface LoginAttemptRecord {
+  id: string;
+  userId?: string;
+  email: string; // Lowercased, as typed, so attempts on unknown accounts are kept too
+  ip: string;
+  userAgent: string;
+  device: string; // Browser and platform, e.g. "Chrome on Windows"
+  country?: string; // ISO 3166 code from the IP range table, when known
+  success: boolean;
+  failureReason?: string;
+  flags: LoginAnomalyFlag[];
+  attemptedAt: Date;
+}
+
+export type LoginLockoutScope = 'account' | 'ip';
+
+// Failure counter for an account (by email) or an IP address. Each lock is a strike,
+// and every strike locks for twice as long as the one before.
+export interface LoginLockout {
+  scope: LoginLockoutScope;
+  subject: string; // Lowercased email or IP address
+  failures: number; // In the current window
+  windowStartedAt: Date;
+  strikes: number;
+  lastFailureAt: Date;
+  lockedAt?: Date;
+  lockedUntil?: Date;
+}
+
+export interface LoginSecurityStore {
+  recordAttempt(attempt: LoginAttemptRecord): Promise<void>;
+  findSuccessfulAttempts(userId: string, since: Date): Promise<LoginAttemptRecord[]>;
+  findRecentAttempts(limit: number, flaggedOnly?: boolean): Promise<LoginAttemptRecord[]>; // Newest first
+  deleteAttemptsBefore(before: Date): Promise<number>;
+  findLockout(scope: LoginLockoutScope, subject: string): Promise<LoginLockout | null>;
+  saveLockout(lockout: LoginLockout): Promise<void>;
+  deleteLockout(scope: LoginLockoutScope, subject: string): Promise<boolean>;
+  findLockedOut(now: Date): Promise<LoginLockout[]>;
+  deleteStaleLockouts(before: Date, now: Date): Promise<number>; // No failure since before and not locked now
+}
+
+// Maps an IP address to the country its range is registered to
+export interface IpCountryResolver {
+  resolve(ip: string): string | null;
+}
+
+export interface SuspiciousSignIn {
+  email: string;
+  recipientName: string;
+  ip: string;
+  device: string;
+  country?: string;
+  flags: LoginAnomalyFlag[];
+  attemptedAt: Date;
+}
+
+// Tells the account holder about a sign-in they may not recognise
+export interface LoginAlertNotifier {
+  notifySuspiciousSignIn(alert: SuspiciousSignIn): Promise<void>;
+}
+
 export interface SessionService {
   create(session: Partial<Session>): Promise<Session>;
   findById(id: string): Promise<Session | null>;
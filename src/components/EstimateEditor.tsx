@@ -0,0 +1,324 @@
+import React, { useMemo } from 'react';
+import { FaPlus, FaTrash } from 'react-icons/fa';
+import {
+  Estimate,
+  EstimateInput,
+  EstimateProps,
+  LineItemCategory,
+  DiscountType
+} from '@/domain/quote/Estimate';
+
+interface LineItemDraft {
+  description: string;
+  quantity: string;
+  unit: string;
+  unitPrice: string;
+  category: LineItemCategory;
+  optional: boolean;
+}
+
+interface DiscountDraft {
+  description: string;
+  type: DiscountType;
+  value: string;
+}
+
+export interface EstimateDraft {
+  lineItems: LineItemDraft[];
+  discounts: DiscountDraft[];
+  taxRate: string;
+  notes: string;
+}
+
+interface EstimateEditorProps {
+  value: EstimateDraft;
+  onChange: (draft: EstimateDraft) => void;
+}
+
+const emptyLineItem = (): LineItemDraft => ({
+  description: '',
+  quantity: '1',
+  unit: 'each',
+  unitPrice: '',
+  category: LineItemCategory.LABOR,
+  optional: false
+});
+
+export const emptyEstimateDraft = (): EstimateDraft => ({
+  lineItems: [emptyLineItem()],
+  discounts: [],
+  taxRate: '0',
+  notes: ''
+});
+
+// Starts a new revision from a previously saved estimate
+export const draftFromEstimate = (estimate: EstimateProps): EstimateDraft => ({
+  lineItems: estimate.lineItems.map(item => ({
+    description: item.description,
+    quantity: item.quantity.toString(),
+    unit: item.unit,
+    unitPrice: item.unitPrice.toString(),
+    category: item.category,
+    optional: item.optional
+  })),
+  discounts: estimate.discounts.map(discount => ({
+    description: discount.description,
+    type: discount.type,
+    value: discount.value.toString()
+  })),
+  taxRate: estimate.taxRate.toString(),
+  notes: estimate.notes || ''
+});
+
+export const draftToEstimateInput = (draft: EstimateDraft): EstimateInput => ({
+  lineItems: draft.lineItems.map(item => ({
+    description: item.description,
+    quantity: parseFloat(item.quantity),
+    unit: item.unit,
+    unitPrice: parseFloat(item.unitPrice),
+    category: item.category,
+    optional: item.optional
+  })),
+  discounts: draft.discounts.map(discount => ({
+    description: discount.description,
+    type: discount.type,
+    value: parseFloat(discount.value)
+  })),
+  taxRate: parseFloat(draft.taxRate) || 0,
+  notes: draft.notes
+});
+
+const formatCurrency = (amount: number) =>
+  `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const EstimateEditor: React.FC<EstimateEditorProps> = ({ value, onChange }) => {
+  // Totals come from the domain Estimate so the preview matches what the server stores
+  const preview = useMemo(() => {
+    try {
+      const estimate = Estimate.create(draftToEstimateInput(value));
+      return {
+        totals: estimate.calculateTotals(),
+        totalWithAddOns: estimate.calculateTotals({ includeAddOns: true }).total,
+        error: null as string | null
+      };
+    } catch (error) {
+      return { totals: null, totalWithAddOns: null, error: error instanceof Error ? error.message : 'Invalid estimate' };
+    }
+  }, [value]);
+
+  const updateLineItem = (index: number, changes: Partial<LineItemDraft>) => {
+    onChange({
+      ...value,
+      lineItems: value.lineItems.map((item, i) => (i === index ? { ...item, ...changes } : item))
+    });
+  };
+
+  const updateDiscount = (index: number, changes: Partial<DiscountDraft>) => {
+    onChange({
+      ...value,
+      discounts: value.discounts.map((discount, i) => (i === index ? { ...discount, ...changes } : discount))
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium text-gray-700">Line Items</h4>
+          <button
+            type="button"
+            onClick={() => onChange({ ...value, lineItems: [...value.lineItems, emptyLineItem()] })}
+            className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+          >
+            <FaPlus className="mr-1 h-3 w-3" /> Add Item
+          </button>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="pb-1 pr-2">Description</th>
+                <th className="pb-1 pr-2 w-20">Qty</th>
+                <th className="pb-1 pr-2 w-20">Unit</th>
+                <th className="pb-1 pr-2 w-24">Unit Price</th>
+                <th className="pb-1 pr-2 w-28">Type</th>
+                <th className="pb-1 pr-2 w-16">Add-on</th>
+                <th className="pb-1 w-8"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {value.lineItems.map((item, index) => (
+                <tr key={index}>
+                  <td className="pr-2 py-1">
+                    <input
+                      type="text"
+                      value={item.description}
+                      onChange={(e) => updateLineItem(index, { description: e.target.value })}
+                      className={inputClass}
+                      placeholder="e.g. Concrete 4000 PSI"
+                    />
+                  </td>
+                  <td className="pr-2 py-1">
+                    <input
+                      type="number"
+                      value={item.quantity}
+                      onChange={(e) => updateLineItem(index, { quantity: e.target.value })}
+                      className={inputClass}
+                      min="0"
+                      step="0.01"
+                    />
+                  </td>
+                  <td className="pr-2 py-1">
+                    <input
+                      type="text"
+                      value={item.unit}
+                      onChange={(e) => updateLineItem(index, { unit: e.target.value })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="pr-2 py-1">
+                    <input
+                      type="number"
+                      value={item.unitPrice}
+                      onChange={(e) => updateLineItem(index, { unitPrice: e.target.value })}
+                      className={inputClass}
+                      min="0"
+                      step="0.01"
+                    />
+                  </td>
+                  <td className="pr-2 py-1">
+                    <select
+                      value={item.category}
+                      onChange={(e) => updateLineItem(index, { category: e.target.value as LineItemCategory })}
+                      className={inputClass}
+                    >
+                      <option value={LineItemCategory.LABOR}>Labor</option>
+                      <option value={LineItemCategory.MATERIAL}>Material</option>
+                    </select>
+                  </td>
+                  <td className="pr-2 py-1 text-center">
+                    <input
+                      type="checkbox"
+                      checked={item.optional}
+                      onChange={(e) => updateLineItem(index, { optional: e.target.checked })}
+                    />
+                  </td>
+                  <td className="py-1">
+                    <button
+                      type="button"
+                      onClick={() => onChange({ ...value, lineItems: value.lineItems.filter((_, i) => i !== index) })}
+                      className="text-red-500 hover:text-red-700 disabled:opacity-30"
+                      disabled={value.lineItems.length === 1}
+                      title="Remove item"
+                    >
+                      <FaTrash className="h-3 w-3" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium text-gray-700">Discounts</h4>
+          <button
+            type="button"
+            onClick={() => onChange({
+              ...value,
+              discounts: [...value.discounts, { description: '', type: DiscountType.PERCENTAGE, value: '' }]
+            })}
+            className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+          >
+            <FaPlus className="mr-1 h-3 w-3" /> Add Discount
+          </button>
+        </div>
+        {value.discounts.map((discount, index) => (
+          <div key={index} className="flex items-center gap-2 mb-2">
+            <input
+              type="text"
+              value={discount.description}
+              onChange={(e) => updateDiscount(index, { description: e.target.value })}
+              className={inputClass}
+              placeholder="e.g. Repeat customer"
+            />
+            <select
+              value={discount.type}
+              onChange={(e) => updateDiscount(index, { type: e.target.value as DiscountType })}
+              className={`${inputClass} w-32`}
+            >
+              <option value={DiscountType.PERCENTAGE}>%</option>
+              <option value={DiscountType.FIXED}>$</option>
+            </select>
+            <input
+              type="number"
+              value={discount.value}
+              onChange={(e) => updateDiscount(index, { value: e.target.value })}
+              className={`${inputClass} w-28`}
+              min="0"
+              step="0.01"
+            />
+            <button
+              type="button"
+              onClick={() => onChange({ ...value, discounts: value.discounts.filter((_, i) => i !== index) })}
+              className="text-red-500 hover:text-red-700"
+              title="Remove discount"
+            >
+              <FaTrash className="h-3 w-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Tax Rate (%)</label>
+          <input
+            type="number"
+            value={value.taxRate}
+            onChange={(e) => onChange({ ...value, taxRate: e.target.value })}
+            className={inputClass}
+            min="0"
+            max="100"
+            step="0.001"
+          />
+          <label className="block text-sm font-medium text-gray-700 mb-1 mt-3">Customer Notes</label>
+          <textarea
+            value={value.notes}
+            onChange={(e) => onChange({ ...value, notes: e.target.value })}
+            className={inputClass}
+            rows={3}
+            placeholder="Printed on the quote PDF"
+          />
+        </div>
+
+        <div className="bg-gray-50 p-3 rounded-md text-sm">
+          {preview.totals ? (
+            <dl className="space-y-1">
+              <div className="flex justify-between"><dt>Materials</dt><dd>{formatCurrency(preview.totals.materialSubtotal)}</dd></div>
+              <div className="flex justify-between"><dt>Labor</dt><dd>{formatCurrency(preview.totals.laborSubtotal)}</dd></div>
+              <div className="flex justify-between"><dt>Subtotal</dt><dd>{formatCurrency(preview.totals.subtotal)}</dd></div>
+              {preview.totals.discountTotal > 0 && (
+                <div className="flex justify-between text-green-700"><dt>Discounts</dt><dd>-{formatCurrency(preview.totals.discountTotal)}</dd></div>
+              )}
+              <div className="flex justify-between"><dt>Tax</dt><dd>{formatCurrency(preview.totals.taxAmount)}</dd></div>
+              <div className="flex justify-between font-semibold border-t pt-1"><dt>Total</dt><dd>{formatCurrency(preview.totals.total)}</dd></div>
+              {preview.totalWithAddOns !== null && preview.totalWithAddOns !== preview.totals.total && (
+                <div className="flex justify-between text-gray-500"><dt>With add-ons</dt><dd>{formatCurrency(preview.totalWithAddOns)}</dd></div>
+              )}
+            </dl>
+          ) : (
+            <p className="text-red-600">{preview.error}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EstimateEditor;
\ No newline at end of file
@@ -12,6 +12,7 @@ import { useTranslation } from '@/hooks/useTranslation';
 import LanguageSwitcher from '@/components/LanguageSwitcher';
 import SimplePasswordField from './SimplePasswordField';
 import { validatePassword } from '../utils/passwordValidation';
+import { portalFetch } from '@/lib/portal-fetch';
 
 export default function Header() {
   const router = useRouter();
@@ -87,18 +88,8 @@ export default function Header() {
 
   const checkAdminAccess = async () => {
     try {
-      const token = localStorage.getItem('accessToken');
-      if (!token) return;
-
-      const response = await fetch('/api/admin/dashboard', {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
-
-      if (response.ok) {
-        setIsAdminUser(true);
-      }
+      const response = await portalFetch('/api/admin/dashboard');
+      setIsAdminUser(response.ok);
     } catch {
       // User is not admin
       setIsAdminUser(false);
@@ -107,74 +98,25 @@ export default function Header() {
 
   const checkCurrentUser = async () => {
     try {
-      // Helper function to decode JWT token client-side
-      const decodeToken = (token: string) => {
-        try {
-          const payload = token.split('.')[1];
-          const decoded = JSON.parse(atob(payload));
-          return decoded;
-        } catch {
-          return null;
-        }
-      };
-
-      // Check for admin token
-      const adminToken = localStorage.getItem('accessToken');
-      if (adminToken) {
-        const decoded = decodeToken(adminToken);
-        if (decoded && decoded.role === 'admin') {
-          setCurrentUser({
-            id: decoded.userId,
-            email: decoded.email,
-            firstName: decoded.firstName,
-            lastName: decoded.lastName,
-            role: decoded.role
-          });
-          setUserType('admin');
-          setIsLoadingUser(false);
-          return;
-        }
-      }
-
-      // Check for employee token
-      const employeeToken = localStorage.getItem('employeeToken');
-      if (employeeToken) {
-        const decoded = decodeToken(employeeToken);
-        if (decoded && decoded.role === 'employee') {
-          setCurrentUser({
-            id: decoded.userId,
-            email: decoded.email,
-            firstName: decoded.firstName,
-            lastName: decoded.lastName,
-            role: decoded.role
-          });
-          setUserType('employee');
-          setIsLoadingUser(false);
-          return;
-        }
-      }
-
-      // Check for client token
-      const clientToken = localStorage.getItem('clientToken');
-      if (clientToken) {
-        const decoded = decodeToken(clientToken);
-        if (decoded && decoded.role === 'client') {
-          setCurrentUser({
-            id: decoded.userId,
-            email: decoded.email,
-            firstName: decoded.firstName,
-            lastName: decoded.lastName,
-            role: decoded.role
-          });
-          setUserType('client');
-          setIsLoadingUser(false);
-          return;
-        }
+      // The session cookie is httpOnly, so the signed-in user comes from the server
+      const response = await portalFetch('/api/auth/me');
+      const result = response.ok ? await response.json() : null;
+      const user = result?.success ? result.data : null;
+
+      if (user && ['admin', 'employee', 'client'].includes(user.role)) {
+        setCurrentUser({
+          id: user.id,
+          email: user.email,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          role: user.role
+        });
+        setUserType(user.role);
+      } else {
+        // No valid user found
+        setCurrentUser(null);
+        setUserType(null);
       }
-
-      // No valid user found
-      setCurrentUser(null);
-      setUserType(null);
       setIsLoadingUser(false);
     } catch (error) {
       console.error('Error checking current user:', error);
@@ -204,12 +146,9 @@ export default function Header() {
     router.push(url);
   };
 
-  const handleLogout = () => {
-    // Clear the appropriate token
-    const tokenKey = userType === 'admin' ? 'accessToken' : 
-                    userType === 'employee' ? 'employeeToken' : 'clientToken';
-    localStorage.removeItem(tokenKey);
-    
+  const handleLogout = async () => {
+    await portalFetch('/api/auth/logout', { method: 'POST' }).catch(() => undefined);
+
     // Reset state
     setCurrentUser(null);
     setUserType(null);
@@ -486,7 +425,7 @@ export default function Header() {
       setError('');
 
       try {
-        const response = await fetch('/api/admin/auth/change-password', {
+        const response = await portalFetch('/api/admin/auth/change-password', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -1,6 +1,7 @@
 import React from 'react';
 import { useRouter } from 'next/router';
 import { FaShieldAlt, FaUser, FaUsers, FaHome } from 'react-icons/fa';
+import { portalFetch } from '../lib/portal-fetch';
 
 interface PortalHeaderProps {
   userType: 'admin' | 'employee' | 'client';
@@ -11,12 +12,9 @@ interface PortalHeaderProps {
 const PortalHeader: React.FC<PortalHeaderProps> = ({ userType, userName, userEmail }) => {
   const router = useRouter();
 
-  const handleLogout = () => {
-    // Clear the appropriate token
-    const tokenKey = userType === 'admin' ? 'accessToken' : 
-                    userType === 'employee' ? 'employeeToken' : 'clientToken';
-    localStorage.removeItem(tokenKey);
-    
+  const handleLogout = async () => {
+    await portalFetch('/api/auth/logout', { method: 'POST' }).catch(() => undefined);
+
     // Navigate to homepage
     router.push('/');
   };
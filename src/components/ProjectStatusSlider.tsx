@@ -5,9 +5,10 @@ interface ProjectStatusSliderProps {
   projectId: string;
   currentStatus: number;
   statusLabels: string[];
-  onStatusChange: (newStatus: number, photos?: File[], notes?: string, adminNotes?: string) => void;
+  onStatusChange?: (newStatus: number, photos?: File[], notes?: string, adminNotes?: string) => void;
   showStatusBar?: boolean;
   adminNotes?: string;
+  readOnly?: boolean; // Client view: progress only, no slider or internal notes
 }
 
 const ProjectStatusSlider: React.FC<ProjectStatusSliderProps> = ({
@@ -16,7 +17,8 @@ const ProjectStatusSlider: React.FC<ProjectStatusSliderProps> = ({
   statusLabels,
   onStatusChange,
   showStatusBar = true,
-  adminNotes = ''
+  adminNotes = '',
+  readOnly = false
 }) => {
   const [selectedStatus, setSelectedStatus] = useState(currentStatus);
   const [isEditing, setIsEditing] = useState(false);
@@ -31,7 +33,7 @@ const ProjectStatusSlider: React.FC<ProjectStatusSliderProps> = ({
   };
 
   const handleSave = () => {
-    onStatusChange(selectedStatus, photos, notes, adminNotesText);
+    onStatusChange?.(selectedStatus, photos, notes, adminNotesText);
     setIsEditing(false);
     setShowUploadModal(false);
     setNotes('');
@@ -122,40 +124,48 @@ const ProjectStatusSlider: React.FC<ProjectStatusSliderProps> = ({
         </div>
       )}
 
+      {readOnly && !showStatusBar && (
+        <div className="text-sm text-gray-600">
+          Current: {statusLabels[currentStatus]}
+        </div>
+      )}
+
       {/* Admin Slider */}
-      <div className="mb-6">
-        <label className="block text-sm font-medium text-gray-700 mb-2">
-          Update Status (Admin Only)
-        </label>
-        <div className="space-y-4">
-          {/* Slider */}
-          <div className="relative">
-            <input
-              type="range"
-              min="0"
-              max={statusLabels.length - 1}
-              value={selectedStatus}
-              onChange={(e) => handleSliderChange(parseInt(e.target.value))}
-              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
-            />
-            <div className="flex justify-between text-xs text-gray-500 mt-1">
-              {statusLabels.map((_, index) => (
-                <span key={index}>•</span>
-              ))}
+      {!readOnly && (
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Update Status (Admin Only)
+          </label>
+          <div className="space-y-4">
+            {/* Slider */}
+            <div className="relative">
+              <input
+                type="range"
+                min="0"
+                max={statusLabels.length - 1}
+                value={selectedStatus}
+                onChange={(e) => handleSliderChange(parseInt(e.target.value))}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+              />
+              <div className="flex justify-between text-xs text-gray-500 mt-1">
+                {statusLabels.map((_, index) => (
+                  <span key={index}>•</span>
+                ))}
+              </div>
             </div>
-          </div>
 
-          {/* Selected Status Display */}
-          <div className="text-center">
-            <span className="inline-block px-4 py-2 bg-blue-100 text-blue-800 rounded-lg text-sm font-medium">
-              {statusLabels[selectedStatus]}
-            </span>
+            {/* Selected Status Display */}
+            <div className="text-center">
+              <span className="inline-block px-4 py-2 bg-blue-100 text-blue-800 rounded-lg text-sm font-medium">
+                {statusLabels[selectedStatus]}
+              </span>
+            </div>
           </div>
         </div>
-      </div>
+      )}
 
       {/* Action Buttons */}
-      {isEditing && (
+      {isEditing && !readOnly && (
         <div className="border-t pt-4">
           <div className="flex justify-between items-center mb-4">
             <h4 className="text-md font-medium text-gray-900">Update Details</h4>
@@ -244,7 +254,7 @@ const ProjectStatusSlider: React.FC<ProjectStatusSliderProps> = ({
       )}
 
       {/* Display Current Admin Notes */}
-      {adminNotes && !isEditing && (
+      {adminNotes && !isEditing && !readOnly && (
         <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md">
           <h4 className="text-sm font-medium text-red-800 mb-2">Admin Notes (Internal)</h4>
           <p className="text-sm text-red-700">{adminNotes}</p>
@@ -0,0 +1,50 @@
+import React from 'react';
+import { FaSnowflake } from 'react-icons/fa';
+import type { StormEventResponse } from '@/presentation/api/StormEventPresenter';
+
+interface StormProgressCardProps {
+  storm: StormEventResponse;
+  dark?: boolean;
+  action?: React.ReactNode;
+}
+
+const StormProgressCard: React.FC<StormProgressCardProps> = ({ storm, dark = false, action }) => {
+  const { progress } = storm;
+
+  return (
+    <div className={`rounded-lg p-4 ${dark ? 'bg-gray-800 text-white' : 'bg-white shadow'}`}>
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center">
+          <FaSnowflake className="mr-2 text-blue-400" />
+          <span className="font-semibold">{storm.name}</span>
+          <span className={`ml-2 text-sm ${dark ? 'text-gray-400' : 'text-gray-500'}`}>
+            {storm.expectedAccumulationInches}&quot; expected
+          </span>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-sm font-medium">
+            {progress.completed}/{progress.total} properties · {progress.percentComplete}%
+          </span>
+          {action}
+        </div>
+      </div>
+      <div className={`w-full h-3 rounded-full ${dark ? 'bg-gray-700' : 'bg-gray-200'}`}>
+        <div
+          className="h-3 rounded-full bg-blue-500 transition-all"
+          style={{ width: `${progress.percentComplete}%` }}
+        />
+      </div>
+      {progress.routes.length > 1 && (
+        <div className={`mt-2 flex flex-wrap gap-3 text-xs ${dark ? 'text-gray-400' : 'text-gray-600'}`}>
+          {progress.routes.map(route => (
+            <span key={route.route}>
+              {route.route}: {route.completed}/{route.total}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StormProgressCard;
\ No newline at end of file
@@ -0,0 +1,238 @@
+/**
+ * Two-Factor Challenge Component
+ * Second sign-in step for admin and employee logins: authenticator or recovery code entry,
+ * with authenticator setup when the account's role requires two-factor and none is enrolled yet
+ */
+
+import React, { useEffect, useState } from 'react';
+import { FaCopy, FaKey, FaMobileAlt } from 'react-icons/fa';
+
+// What the role-specific verify endpoints send back once the second step succeeds
+export interface TwoFactorVerification {
+  success: boolean;
+  message?: string;
+  user?: { id: string; email: string; role: string; firstName?: string; lastName?: string };
+  requiresPasswordChange?: boolean;
+  recoveryCodes?: string[];
+}
+
+interface TwoFactorChallengeProps {
+  challengeToken: string;
+  enrollmentRequired?: boolean;
+  verifyUrl: string; // Role-specific endpoint that issues the session once the code checks out
+  rememberMe?: boolean;
+  onVerified: (data: TwoFactorVerification) => void;
+  onCancel: () => void;
+}
+
+interface RecoveryCodesProps {
+  codes: string[];
+}
+
+/**
+ * Recovery codes are only ever shown once, straight after they are generated
+ */
+export function RecoveryCodes({ codes }: RecoveryCodesProps) {
+  const [copied, setCopied] = useState(false);
+
+  const copyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <div className="rounded-md border border-yellow-300 bg-yellow-50 p-4">
+      <p className="text-sm font-medium text-yellow-800">Save your recovery codes</p>
+      <p className="mt-1 text-xs text-yellow-700">
+        Each code signs you in once if you lose your phone. They will not be shown again.
+      </p>
+      <ul className="mt-3 grid grid-cols-2 gap-2 font-mono text-sm text-gray-900">
+        {codes.map(code => (
+          <li key={code} className="rounded bg-white px-2 py-1 text-center">{code}</li>
+        ))}
+      </ul>
+      <button
+        type="button"
+        onClick={copyCodes}
+        className="mt-3 inline-flex items-center text-xs font-medium text-yellow-800 hover:text-yellow-900"
+      >
+        <FaCopy className="mr-1 h-3 w-3" />
+        {copied ? 'Copied' : 'Copy codes'}
+      </button>
+    </div>
+  );
+}
+
+export default function TwoFactorChallenge({
+  challengeToken,
+  enrollmentRequired = false,
+  verifyUrl,
+  rememberMe = false,
+  onVerified,
+  onCancel
+}: TwoFactorChallengeProps) {
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [setup, setSetup] = useState<{ qrCode: string; secret: string } | null>(null);
+  const [verified, setVerified] = useState<TwoFactorVerification | null>(null);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!enrollmentRequired) return;
+
+    const loadSetup = async () => {
+      try {
+        const response = await fetch('/api/auth/two-factor/setup', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ challengeToken })
+        });
+        const data = await response.json();
+        if (data.success) {
+          setSetup({ qrCode: data.qrCode, secret: data.secret });
+        } else {
+          setError(data.message || 'Could not start authenticator setup');
+        }
+      } catch {
+        setError('Network error. Please try again.');
+      }
+    };
+
+    loadSetup();
+  }, [challengeToken, enrollmentRequired]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch(verifyUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ challengeToken, code, rememberMe })
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        // New recovery codes come back after enrolling; hold the redirect until they are saved
+        if (data.recoveryCodes?.length) {
+          setVerified(data);
+        } else {
+          onVerified(data);
+        }
+      } else {
+        setError(data.message || 'Invalid verification code');
+        setCode('');
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (verified) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900">Two-factor authentication is on</h3>
+        <RecoveryCodes codes={verified.recoveryCodes || []} />
+        <button
+          type="button"
+          onClick={() => onVerified(verified)}
+          className="w-full py-2 px-4 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+        >
+          I have saved my recovery codes
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div className="flex items-center space-x-2">
+        {useRecoveryCode ? <FaKey className="h-5 w-5 text-gray-500" /> : <FaMobileAlt className="h-5 w-5 text-gray-500" />}
+        <h3 className="text-lg font-semibold text-gray-900">
+          {enrollmentRequired ? 'Set up two-factor authentication' : 'Two-factor authentication'}
+        </h3>
+      </div>
+
+      {enrollmentRequired ? (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Your account requires two-factor authentication. Scan this code with an authenticator app,
+            then enter the 6-digit code it shows.
+          </p>
+          {setup ? (
+            <div className="flex flex-col items-center space-y-2">
+              <img src={setup.qrCode} alt="Authenticator QR code" className="h-44 w-44" />
+              <p className="text-xs text-gray-500">
+                Can&apos;t scan it? Enter this key: <span className="font-mono text-gray-800 break-all">{setup.secret}</span>
+              </p>
+            </div>
+          ) : (
+            !error && <p className="text-sm text-gray-500">Preparing your authenticator setup...</p>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-600">
+          {useRecoveryCode
+            ? 'Enter one of your recovery codes. Each code works once.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </p>
+      )}
+
+      <input
+        type="text"
+        inputMode={useRecoveryCode ? 'text' : 'numeric'}
+        autoComplete="one-time-code"
+        autoFocus
+        required
+        value={code}
+        onChange={e => setCode(e.target.value)}
+        placeholder={useRecoveryCode ? 'XXXX-XXXX' : '123456'}
+        maxLength={useRecoveryCode ? 9 : 6}
+        className="block w-full px-3 py-2 border border-gray-300 rounded-md text-center font-mono text-lg tracking-widest text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-3">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={isLoading || !code.trim()}
+        className="w-full py-2 px-4 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isLoading ? 'Verifying...' : 'Verify'}
+      </button>
+
+      <div className="flex justify-between text-sm">
+        {!enrollmentRequired && (
+          <button
+            type="button"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode);
+              setCode('');
+              setError('');
+            }}
+            className="text-blue-600 hover:text-blue-500"
+          >
+            {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+          </button>
+        )}
+        <button type="button" onClick={onCancel} className="ml-auto text-gray-500 hover:text-gray-700">
+          Back to sign in
+        </button>
+      </div>
+    </form>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,216 @@
+/**
+ * Two-Factor Settings Component
+ * Lets a signed-in admin or employee turn on an authenticator app, replace recovery codes and turn two-factor off
+ */
+
+import React, { useEffect, useState } from 'react';
+import { FaShieldAlt } from 'react-icons/fa';
+import { RecoveryCodes } from './TwoFactorChallenge';
+import { portalFetch } from '../lib/portal-fetch';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  enabledAt?: string;
+  recoveryCodesRemaining: number;
+}
+
+type PendingAction = 'confirm' | 'recovery-codes' | 'disable';
+
+export default function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<{ qrCode: string; secret: string } | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const request = async (method: string, body?: Record<string, unknown>) => {
+    const response = await portalFetch('/api/auth/two-factor', {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    return response.json();
+  };
+
+  const loadStatus = async () => {
+    try {
+      const data = await request('GET');
+      if (data.success) {
+        setStatus(data.twoFactor);
+      }
+    } catch (error) {
+      console.error('Failed to load two-factor status:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const resetForm = () => {
+    setPendingAction(null);
+    setSetup(null);
+    setCode('');
+    setError('');
+  };
+
+  const startSetup = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      const data = await request('POST', { action: 'setup' });
+      if (data.success) {
+        setSetup({ qrCode: data.qrCode, secret: data.secret });
+        setPendingAction('confirm');
+        setRecoveryCodes([]);
+      } else {
+        setError(data.message || 'Could not start setup');
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submitCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingAction) return;
+
+    setBusy(true);
+    setError('');
+    try {
+      const data = pendingAction === 'disable'
+        ? await request('DELETE', { code })
+        : await request('POST', { action: pendingAction, code });
+
+      if (data.success) {
+        setRecoveryCodes(data.recoveryCodes || []);
+        resetForm();
+        await loadStatus();
+      } else {
+        setError(data.message || 'Invalid verification code');
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <FaShieldAlt className="h-5 w-5 text-gray-500" />
+          <h2 className="text-lg font-medium text-gray-900">Two-Factor Authentication</h2>
+        </div>
+        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+          status.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+        }`}>
+          {status.enabled ? 'On' : 'Off'}
+        </span>
+      </div>
+
+      <div className="px-6 py-4 space-y-4">
+        {status.enabled ? (
+          <p className="text-sm text-gray-600">
+            Sign-ins ask for a code from your authenticator app.
+            {' '}{status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left.
+            {status.required && ' Your role requires two-factor, so it cannot be turned off.'}
+          </p>
+        ) : (
+          <p className="text-sm text-gray-600">
+            Add a code from an authenticator app to every sign-in.
+            {status.required && ' Your role requires it; you will be asked to set it up at your next sign-in.'}
+          </p>
+        )}
+
+        {recoveryCodes.length > 0 && <RecoveryCodes codes={recoveryCodes} />}
+
+        {pendingAction ? (
+          <form onSubmit={submitCode} className="space-y-3">
+            {setup && (
+              <div className="flex flex-col items-center space-y-2">
+                <img src={setup.qrCode} alt="Authenticator QR code" className="h-44 w-44" />
+                <p className="text-xs text-gray-500">
+                  Can&apos;t scan it? Enter this key: <span className="font-mono text-gray-800 break-all">{setup.secret}</span>
+                </p>
+              </div>
+            )}
+            <label className="block text-sm font-medium text-gray-700">
+              {pendingAction === 'confirm' ? 'Code from your authenticator app' : 'Authenticator or recovery code'}
+            </label>
+            <input
+              type="text"
+              autoComplete="one-time-code"
+              required
+              value={code}
+              onChange={e => setCode(e.target.value)}
+              maxLength={9}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md font-mono tracking-widest text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={resetForm}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={busy || !code.trim()}
+                className={`px-4 py-2 rounded-md text-sm font-medium text-white disabled:opacity-50 ${
+                  pendingAction === 'disable' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+                }`}
+              >
+                {pendingAction === 'confirm' ? 'Turn On' : pendingAction === 'disable' ? 'Turn Off' : 'Generate New Codes'}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="flex flex-wrap gap-3">
+            {!status.enabled && (
+              <button
+                type="button"
+                onClick={startSetup}
+                disabled={busy}
+                className="px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                Set Up Authenticator
+              </button>
+            )}
+            {status.enabled && (
+              <button
+                type="button"
+                onClick={() => setPendingAction('recovery-codes')}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                New Recovery Codes
+              </button>
+            )}
+            {status.enabled && !status.required && (
+              <button
+                type="button"
+                onClick={() => setPendingAction('disable')}
+                className="px-4 py-2 border border-red-300 rounded-md text-sm font-medium text-red-700 bg-white hover:bg-red-50"
+              >
+                Turn Off
+              </button>
+            )}
+            {error && <p className="w-full text-sm text-red-600">{error}</p>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -38,6 +38,7 @@ import { AdminUserService } from '../../services/AdminUserService';
 import { EmployeeAccountService } from '../../services/EmployeeAccountService';
 import { DatabaseCleanup } from '../../scripts/database-cleanup';
 import UserManagementTable from './UserManagementTable';
+import { portalFetch } from '../../lib/portal-fetch';
 
 interface DashboardStats {
   totalUsers: number;
@@ -113,11 +114,12 @@ const AdminDashboard: React.FC = () => {
   const loadDashboardData = useCallback(async () => {
     try {
       setLoading(true);
-      const token = localStorage.getItem('accessToken');
-      if (!token) {
+      const session = await portalFetch('/api/auth/me');
+      if (!session.ok) {
         router.push('/admin/login');
         return;
       }
+      const { data: sessionUser } = await session.json();
 
       // Fetch project statistics from API
       let projectStats = {
@@ -128,11 +130,7 @@ const AdminDashboard: React.FC = () => {
       };
 
       try {
-        const projectResponse = await fetch('/api/admin/projects/stats', {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        });
+        const projectResponse = await portalFetch('/api/admin/projects/stats');
         if (projectResponse.ok) {
           const projectData = await projectResponse.json();
           projectStats = projectData.stats;
@@ -201,13 +199,7 @@ const AdminDashboard: React.FC = () => {
       const report = await cleanup.generateReport();
       setCleanupReport(report);
 
-      // Get current user from token (simplified)
-      try {
-        const payload = JSON.parse(atob(token.split('.')[1]));
-        setCurrentUser(payload.email || 'Admin User');
-      } catch {
-        setCurrentUser('Admin User');
-      }
+      setCurrentUser(sessionUser?.email || 'Admin User');
     } catch (error) {
       console.error('Failed to load dashboard data:', error);
     } finally {
@@ -268,8 +260,8 @@ const AdminDashboard: React.FC = () => {
     loadDashboardData();
   }, [loadDashboardData]);
 
-  const handleLogout = () => {
-    localStorage.removeItem('accessToken');
+  const handleLogout = async () => {
+    await portalFetch('/api/auth/logout', { method: 'POST' }).catch(() => undefined);
     router.push('/admin/login');
   };
 
@@ -6,6 +6,7 @@
 import React, { useState } from 'react';
 import { useRouter } from 'next/router';
 import Link from 'next/link';
+import TwoFactorChallenge, { TwoFactorVerification } from '../TwoFactorChallenge';
 
 const AdminLogin: React.FC = () => {
   const [email, setEmail] = useState('');
@@ -13,6 +14,7 @@ const AdminLogin: React.FC = () => {
   const [rememberMe, setRememberMe] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<{ challengeToken: string; enrollmentRequired: boolean } | null>(null);
   const router = useRouter();
 
   // Load remembered email on component mount
@@ -40,24 +42,11 @@ const AdminLogin: React.FC = () => {
 
       const data = await response.json();
 
-      if (data.success) {
-        // Handle Remember Me functionality for secure cookies
-        if (rememberMe) {
-          localStorage.setItem('rememberedAdminEmail', email);
-          localStorage.setItem('rememberMeToken', 'true');
-        } else {
-          localStorage.removeItem('rememberedAdminEmail');
-          localStorage.removeItem('rememberMeToken');
-        }
-        
-        // Clear any old token-based storage since we now use secure cookies
-        localStorage.removeItem('accessToken');
-        
-        if (data.requiresPasswordChange || data.requiresPasswordReset) {
-          router.push(`/portal/admin/change-password?email=${encodeURIComponent(email)}&forced=true`);
-        } else {
-          router.push('/portal/admin/dashboard');
-        }
+      if (data.requiresTwoFactor) {
+        // Password accepted; the session cookies are only set after the second step
+        setTwoFactorChallenge({ challengeToken: data.challengeToken, enrollmentRequired: !!data.enrollmentRequired });
+      } else if (data.success) {
+        completeSignIn(data);
       } else {
         if (data.requiresEmailVerification) {
           setError('Please verify your email address before logging in. Check your email for the verification link.');
@@ -72,6 +61,26 @@ const AdminLogin: React.FC = () => {
     }
   };
 
+  const completeSignIn = (data: TwoFactorVerification & { requiresPasswordReset?: boolean }) => {
+    // Handle Remember Me functionality for secure cookies
+    if (rememberMe) {
+      localStorage.setItem('rememberedAdminEmail', email);
+      localStorage.setItem('rememberMeToken', 'true');
+    } else {
+      localStorage.removeItem('rememberedAdminEmail');
+      localStorage.removeItem('rememberMeToken');
+    }
+
+    // Clear any old token-based storage since we now use secure cookies
+    localStorage.removeItem('accessToken');
+
+    if (data.requiresPasswordChange || data.requiresPasswordReset) {
+      router.push(`/portal/admin/change-password?email=${encodeURIComponent(email)}&forced=true`);
+    } else {
+      router.push('/portal/admin/dashboard');
+    }
+  };
+
 
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
@@ -86,6 +95,19 @@ const AdminLogin: React.FC = () => {
 
       <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
         <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10">
+          {twoFactorChallenge ? (
+            <TwoFactorChallenge
+              challengeToken={twoFactorChallenge.challengeToken}
+              enrollmentRequired={twoFactorChallenge.enrollmentRequired}
+              verifyUrl="/api/admin/auth/two-factor"
+              rememberMe={rememberMe}
+              onVerified={completeSignIn}
+              onCancel={() => {
+                setTwoFactorChallenge(null);
+                setPassword('');
+              }}
+            />
+          ) : (
           <form className="space-y-6" onSubmit={handleLogin}>
             <div>
               <label htmlFor="email" className="block text-sm font-medium text-gray-700">
@@ -172,6 +194,7 @@ const AdminLogin: React.FC = () => {
               </button>
             </div>
           </form>
+          )}
 
 
 
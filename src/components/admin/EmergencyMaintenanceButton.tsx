@@ -5,6 +5,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { FaExclamationTriangle, FaShieldAlt, FaSpinner, FaBolt } from 'react-icons/fa';
+import { portalFetch } from '../../lib/portal-fetch';
 
 interface EmergencyMaintenanceButtonProps {
   userEmail: string;
@@ -26,12 +27,7 @@ export default function EmergencyMaintenanceButton({ userEmail }: EmergencyMaint
 
   const checkEmergencyStatus = async () => {
     try {
-      const token = localStorage.getItem('accessToken');
-      const response = await fetch('/api/admin/emergency-maintenance', {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const response = await portalFetch('/api/admin/emergency-maintenance');
 
       if (response.ok) {
         const result = await response.json();
@@ -98,12 +94,10 @@ export default function EmergencyMaintenanceButton({ userEmail }: EmergencyMaint
       setLoading(true);
 
       try {
-        const token = localStorage.getItem('accessToken');
-        const response = await fetch('/api/admin/emergency-maintenance', {
+        const response = await portalFetch('/api/admin/emergency-maintenance', {
           method: 'POST',
           headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`
+            'Content-Type': 'application/json'
           },
           body: JSON.stringify({
             action: 'enable',
@@ -141,12 +135,10 @@ export default function EmergencyMaintenanceButton({ userEmail }: EmergencyMaint
       setLoading(true);
 
       try {
-        const token = localStorage.getItem('accessToken');
-        const response = await fetch('/api/admin/emergency-maintenance', {
+        const response = await portalFetch('/api/admin/emergency-maintenance', {
           method: 'POST',
           headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`
+            'Content-Type': 'application/json'
           },
           body: JSON.stringify({
             action: 'disable'
@@ -20,6 +20,7 @@ import {
   FaClock,
   FaMapMarkerAlt
 } from 'react-icons/fa';
+import { portalFetch } from '../../lib/portal-fetch';
 
 interface EmployeeInfo {
   id: string;
@@ -40,8 +41,8 @@ const EmployeeDashboard: React.FC = () => {
 
   const loadEmployeeInfo = useCallback(async () => {
     try {
-      const token = localStorage.getItem('accessToken');
-      if (!token) {
+      const session = await portalFetch('/api/auth/me');
+      if (!session.ok) {
         router.push('/employee/register');
         return;
       }
@@ -69,8 +70,8 @@ const EmployeeDashboard: React.FC = () => {
     loadEmployeeInfo();
   }, [loadEmployeeInfo]);
 
-  const handleLogout = () => {
-    localStorage.removeItem('accessToken');
+  const handleLogout = async () => {
+    await portalFetch('/api/auth/logout', { method: 'POST' }).catch(() => undefined);
     router.push('/');
   };
 
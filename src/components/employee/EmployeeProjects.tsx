@@ -13,33 +13,16 @@ import {
   FaArrowLeft,
   FaSave,
   FaTimes,
-  FaClipboardList
+  FaClipboardList,
+  FaLock
 } from 'react-icons/fa';
-
-// Service Type Legend (A-U)
-const SERVICE_TYPE_LEGEND = {
-  'A': 'Snow Plowing - Parking Lots',
-  'B': 'Snow Plowing - Driveways',
-  'C': 'Snow Plowing - Sidewalks',
-  'D': 'Ice Control - Rock Salt',
-  'E': 'Ice Control - Liquid Deicer',
-  'F': 'Ice Control - Ice Melt',
-  'G': 'Ice Control - Sand/Salt Mix',
-  'H': 'Snow Removal - Loading',
-  'I': 'Snow Removal - Hauling',
-  'J': 'Snow Removal - Disposal',
-  'K': 'Sidewalk Clearing - Shovel',
-  'L': 'Sidewalk Clearing - Blower',
-  'M': 'Roof Snow Removal',
-  'N': 'Ice Dam Prevention',
-  'O': 'Emergency Services',
-  'P': 'Equipment Maintenance',
-  'Q': 'Site Inspection',
-  'R': 'Weather Monitoring',
-  'S': 'Site Preparation',
-  'T': 'Cleanup Services',
-  'U': 'Other Services'
-};
+import {
+  SERVICE_LOG_CODES,
+  calculateServiceLogHours,
+  calculateServiceLogPayable
+} from '@/domain/servicelog/ServiceLogCodes';
+import type { ServiceLogEntryResponse } from '@/presentation/api/ServiceLogPresenter';
+import { portalFetch } from '@/lib/portal-fetch';
 
 const WORKER_TYPES = [
   'Plow Operator',
@@ -52,24 +35,11 @@ const WORKER_TYPES = [
   'Snow Blower Operator'
 ];
 
-interface ServiceEntry {
-  id: string;
-  serviceData: string;
-  propertyCode: string;
-  locationDescription: string;
-  serviceType: string;
-  timeIn: string;
-  timeOut: string;
-  workers: WorkerEntry[];
-  contractRate: number;
-  totalPayable: number;
-  iceMeltBags: number;
-  deicerGallons: number;
-  iceSlicerTons: number;
-  totalHours: number;
-  createdAt: Date;
-  updatedAt: Date;
-}
+const STATUS_STYLES: Record<string, { label: string; className: string }> = {
+  submitted: { label: 'Awaiting Review', className: 'bg-yellow-100 text-yellow-800' },
+  approved: { label: 'Approved', className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-800' }
+};
 
 interface WorkerEntry {
   id: string;
@@ -80,13 +50,17 @@ interface WorkerEntry {
 
 const EmployeeProjects: React.FC = () => {
   const router = useRouter();
-  const [serviceEntries, setServiceEntries] = useState<ServiceEntry[]>([]);
+  const [serviceEntries, setServiceEntries] = useState<ServiceLogEntryResponse[]>([]);
   const [showForm, setShowForm] = useState(false);
-  const [editingEntry, setEditingEntry] = useState<ServiceEntry | null>(null);
+  const [editingEntry, setEditingEntry] = useState<ServiceLogEntryResponse | null>(null);
   const [showLegend, setShowLegend] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [statusMessage, setStatusMessage] = useState('');
   
   // Form state
   const [formData, setFormData] = useState({
+    serviceDate: new Date().toISOString().split('T')[0],
     serviceData: '',
     propertyCode: '',
     locationDescription: '',
@@ -113,58 +87,41 @@ const EmployeeProjects: React.FC = () => {
     loadServiceEntries();
   }, [router.query]);
 
-  const loadServiceEntries = () => {
-    // Mock data - would normally fetch from API
-    const mockEntries: ServiceEntry[] = [
-      {
-        id: '1',
-        serviceData: 'Morning snow clearing',
-        propertyCode: 'PROP001',
-        locationDescription: 'Main parking lot and entrance',
-        serviceType: 'A',
-        timeIn: '06:00',
-        timeOut: '08:30',
-        workers: [
-          { id: '1', type: 'Plow Operator', count: 2, hourlyRate: 25 },
-          { id: '2', type: 'Hand Crew', count: 1, hourlyRate: 18 }
-        ],
-        contractRate: 150,
-        totalPayable: 375,
-        iceMeltBags: 5,
-        deicerGallons: 20,
-        iceSlicerTons: 0.5,
-        totalHours: 2.5,
-        createdAt: new Date('2024-01-15T06:00:00'),
-        updatedAt: new Date('2024-01-15T08:30:00')
+  const loadServiceEntries = async () => {
+    try {
+      const response = await portalFetch('/api/employee/service-logs');
+
+      if (response.ok) {
+        const data = await response.json();
+        setServiceEntries(data.entries);
+      } else {
+        router.push('/portal/employee/login');
       }
-    ];
-    setServiceEntries(mockEntries);
+    } catch (error) {
+      console.error('Failed to load service entries:', error);
+    } finally {
+      setIsLoading(false);
+    }
   };
 
-  const calculateTotalHours = (timeIn: string, timeOut: string): number => {
-    if (!timeIn || !timeOut) return 0;
-    
-    const [inHour, inMin] = timeIn.split(':').map(Number);
-    const [outHour, outMin] = timeOut.split(':').map(Number);
-    
-    const inMinutes = inHour * 60 + inMin;
-    const outMinutes = outHour * 60 + outMin;
-    
-    return Math.max(0, (outMinutes - inMinutes) / 60);
-  };
+  const calculateTotalHours = (timeIn: string, timeOut: string): number => calculateServiceLogHours(timeIn, timeOut);
 
+  // Same arithmetic the server uses, so the preview matches the stored total
   const calculateTotalPayable = (): number => {
     const hours = calculateTotalHours(formData.timeIn, formData.timeOut);
-    const workerCosts = workers.reduce((total, worker) => {
-      return total + (worker.count * (worker.hourlyRate || 0) * hours);
-    }, 0);
-    
-    return formData.contractRate + workerCosts;
+    return calculateServiceLogPayable(
+      formData.contractRate || 0,
+      workers.map(worker => ({ type: worker.type, count: worker.count, hourlyRate: worker.hourlyRate || 0 })),
+      hours
+    );
   };
 
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
 
+    if (!formData.serviceDate) {
+      newErrors.serviceDate = 'Service date is required';
+    }
     if (!formData.serviceData.trim()) {
       newErrors.serviceData = 'Service data is required';
     }
@@ -201,39 +158,64 @@ const EmployeeProjects: React.FC = () => {
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!validateForm()) {
       return;
     }
 
-    const totalHours = calculateTotalHours(formData.timeIn, formData.timeOut);
-    const totalPayable = calculateTotalPayable();
-
-    const newEntry: ServiceEntry = {
-      id: editingEntry?.id || Date.now().toString(),
-      ...formData,
-      workers: [...workers],
-      totalHours,
-      totalPayable,
-      createdAt: editingEntry?.createdAt || new Date(),
-      updatedAt: new Date()
-    };
-
-    if (editingEntry) {
-      setServiceEntries(prev => 
-        prev.map(entry => entry.id === editingEntry.id ? newEntry : entry)
+    setIsSaving(true);
+    try {
+      const response = await portalFetch(
+        editingEntry ? `/api/employee/service-logs/${editingEntry.id}` : '/api/employee/service-logs',
+        {
+          method: editingEntry ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            serviceDate: formData.serviceDate,
+            propertyCode: formData.propertyCode,
+            description: formData.serviceData,
+            locationDescription: formData.locationDescription,
+            serviceCode: formData.serviceType,
+            timeIn: formData.timeIn,
+            timeOut: formData.timeOut,
+            crew: workers.map(({ type, count, hourlyRate }) => ({ type, count, hourlyRate: hourlyRate || 0 })),
+            contractRate: formData.contractRate,
+            materials: {
+              iceMeltBags: formData.iceMeltBags,
+              deicerGallons: formData.deicerGallons,
+              iceSlicerTons: formData.iceSlicerTons
+            }
+          })
+        }
       );
-    } else {
-      setServiceEntries(prev => [newEntry, ...prev]);
-    }
+      const data = await response.json();
+
+      if (!response.ok) {
+        setErrors({ form: data.message || 'Failed to save service entry' });
+        return;
+      }
 
-    resetForm();
+      setServiceEntries(prev => editingEntry
+        ? prev.map(entry => entry.id === editingEntry.id ? data.entry : entry)
+        : [data.entry, ...prev]
+      );
+      setStatusMessage(editingEntry ? 'Entry resubmitted for review.' : 'Entry submitted for review.');
+      resetForm();
+    } catch (error) {
+      console.error('Failed to save service entry:', error);
+      setErrors({ form: 'Failed to save service entry' });
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   const resetForm = () => {
     setFormData({
+      serviceDate: new Date().toISOString().split('T')[0],
       serviceData: '',
       propertyCode: '',
       locationDescription: '',
@@ -277,27 +259,44 @@ const EmployeeProjects: React.FC = () => {
     }
   };
 
-  const editEntry = (entry: ServiceEntry) => {
+  const editEntry = (entry: ServiceLogEntryResponse) => {
     setFormData({
-      serviceData: entry.serviceData,
+      serviceDate: entry.serviceDate,
+      serviceData: entry.description,
       propertyCode: entry.propertyCode,
       locationDescription: entry.locationDescription,
-      serviceType: entry.serviceType,
+      serviceType: entry.serviceCode,
       timeIn: entry.timeIn,
       timeOut: entry.timeOut,
       contractRate: entry.contractRate,
-      iceMeltBags: entry.iceMeltBags,
-      deicerGallons: entry.deicerGallons,
-      iceSlicerTons: entry.iceSlicerTons
+      iceMeltBags: entry.materials.iceMeltBags,
+      deicerGallons: entry.materials.deicerGallons,
+      iceSlicerTons: entry.materials.iceSlicerTons
     });
-    setWorkers([...entry.workers]);
+    setWorkers(entry.crew.map((line, index) => ({ id: String(index + 1), ...line })));
     setEditingEntry(entry);
     setShowForm(true);
   };
 
-  const deleteEntry = (id: string) => {
-    if (confirm('Are you sure you want to delete this service entry?')) {
-      setServiceEntries(prev => prev.filter(entry => entry.id !== id));
+  const deleteEntry = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this service entry?')) {
+      return;
+    }
+
+    try {
+      const response = await portalFetch(`/api/employee/service-logs/${id}`, {
+        method: 'DELETE'
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setServiceEntries(prev => prev.filter(entry => entry.id !== id));
+        setStatusMessage('Entry deleted.');
+      } else {
+        setStatusMessage(data.message || 'Failed to delete entry.');
+      }
+    } catch (error) {
+      console.error('Failed to delete service entry:', error);
     }
   };
 
@@ -329,6 +328,10 @@ const EmployeeProjects: React.FC = () => {
       </div>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {statusMessage && (
+          <div className="mb-4 rounded-md bg-blue-50 px-4 py-3 text-sm text-blue-800">{statusMessage}</div>
+        )}
+
         {!showForm ? (
           <>
             {/* Service Entries List */}
@@ -337,7 +340,9 @@ const EmployeeProjects: React.FC = () => {
                 <h2 className="text-lg font-medium text-gray-900">Recent Service Entries</h2>
               </div>
               
-              {serviceEntries.length === 0 ? (
+              {isLoading ? (
+                <div className="text-center py-12 text-sm text-gray-500">Loading service entries...</div>
+              ) : serviceEntries.length === 0 ? (
                 <div className="text-center py-12">
                   <FaClipboardList className="mx-auto h-12 w-12 text-gray-400" />
                   <h3 className="mt-2 text-sm font-medium text-gray-900">No service entries</h3>
@@ -372,6 +377,9 @@ const EmployeeProjects: React.FC = () => {
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Total
                         </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Status
+                        </th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Actions
                         </th>
@@ -383,10 +391,10 @@ const EmployeeProjects: React.FC = () => {
                           <td className="px-6 py-4 whitespace-nowrap">
                             <div>
                               <div className="text-sm font-medium text-gray-900">
-                                {entry.serviceData}
+                                {entry.description}
                               </div>
                               <div className="text-sm text-gray-500">
-                                Type: {entry.serviceType} - {SERVICE_TYPE_LEGEND[entry.serviceType as keyof typeof SERVICE_TYPE_LEGEND]}
+                                Type: {entry.serviceCode} - {entry.serviceName}
                               </div>
                             </div>
                           </td>
@@ -396,7 +404,7 @@ const EmployeeProjects: React.FC = () => {
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <div className="text-sm text-gray-900">
-                              {entry.timeIn} - {entry.timeOut}
+                              {new Date(`${entry.serviceDate}T00:00:00`).toLocaleDateString()} {entry.timeIn} - {entry.timeOut}
                             </div>
                             <div className="text-sm text-gray-500">
                               {entry.totalHours}h total
@@ -404,10 +412,10 @@ const EmployeeProjects: React.FC = () => {
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <div className="text-sm text-gray-900">
-                              {entry.workers.reduce((sum, w) => sum + w.count, 0)} workers
+                              {entry.crew.reduce((sum, w) => sum + w.count, 0)} workers
                             </div>
                             <div className="text-sm text-gray-500">
-                              {entry.workers.map(w => `${w.count} ${w.type}`).join(', ')}
+                              {entry.crew.map(w => `${w.count} ${w.type}`).join(', ')}
                             </div>
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
@@ -418,21 +426,37 @@ const EmployeeProjects: React.FC = () => {
                               Contract: ${entry.contractRate}
                             </div>
                           </td>
+                          <td className="px-6 py-4">
+                            <span className={`px-2 py-1 text-xs font-medium rounded-full ${STATUS_STYLES[entry.status]?.className || 'bg-gray-100 text-gray-800'}`}>
+                              {STATUS_STYLES[entry.status]?.label || entry.status}
+                            </span>
+                            {entry.reviews.length > 0 && entry.reviews[entry.reviews.length - 1].comment && (
+                              <div className="mt-1 max-w-xs text-xs text-gray-500">
+                                {entry.reviews[entry.reviews.length - 1].comment}
+                              </div>
+                            )}
+                          </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                            <div className="flex space-x-2">
-                              <button
-                                onClick={() => editEntry(entry)}
-                                className="text-blue-600 hover:text-blue-900"
-                              >
-                                <FaEdit />
-                              </button>
-                              <button
-                                onClick={() => deleteEntry(entry.id)}
-                                className="text-red-600 hover:text-red-900"
-                              >
-                                <FaTrash />
-                              </button>
-                            </div>
+                            {entry.locked ? (
+                              <span className="flex items-center text-gray-400" title="Approved entries are locked">
+                                <FaLock />
+                              </span>
+                            ) : (
+                              <div className="flex space-x-2">
+                                <button
+                                  onClick={() => editEntry(entry)}
+                                  className="text-blue-600 hover:text-blue-900"
+                                >
+                                  <FaEdit />
+                                </button>
+                                <button
+                                  onClick={() => deleteEntry(entry.id)}
+                                  className="text-red-600 hover:text-red-900"
+                                >
+                                  <FaTrash />
+                                </button>
+                              </div>
+                            )}
                           </td>
                         </tr>
                       ))}
@@ -461,6 +485,33 @@ const EmployeeProjects: React.FC = () => {
               </div>
 
               <form onSubmit={handleSubmit} className="p-6 space-y-6">
+                {editingEntry?.status === 'rejected' && editingEntry.reviews.length > 0 && (
+                  <div className="rounded-md bg-red-50 px-4 py-3 text-sm text-red-800">
+                    Rejected by {editingEntry.reviews[editingEntry.reviews.length - 1].reviewedBy}:{' '}
+                    {editingEntry.reviews[editingEntry.reviews.length - 1].comment}
+                  </div>
+                )}
+                {errors.form && (
+                  <div className="rounded-md bg-red-50 px-4 py-3 text-sm text-red-800">{errors.form}</div>
+                )}
+
+                <div className="md:w-1/3">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Service Date *
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.serviceDate}
+                    onChange={(e) => setFormData(prev => ({ ...prev, serviceDate: e.target.value }))}
+                    className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                      errors.serviceDate ? 'border-red-500' : 'border-gray-300'
+                    }`}
+                  />
+                  {errors.serviceDate && (
+                    <p className="mt-1 text-sm text-red-600">{errors.serviceDate}</p>
+                  )}
+                </div>
+
                 {/* Basic Information */}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <div>
@@ -540,7 +591,7 @@ const EmployeeProjects: React.FC = () => {
                     }`}
                   >
                     <option value="">Select Service Type</option>
-                    {Object.entries(SERVICE_TYPE_LEGEND).map(([code, description]) => (
+                    {Object.entries(SERVICE_LOG_CODES).map(([code, description]) => (
                       <option key={code} value={code}>
                         {code} - {description}
                       </option>
@@ -554,7 +605,7 @@ const EmployeeProjects: React.FC = () => {
                     <div className="mt-4 p-4 bg-gray-50 rounded-lg">
                       <h4 className="font-medium text-gray-900 mb-3">Service Type Legend</h4>
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                        {Object.entries(SERVICE_TYPE_LEGEND).map(([code, description]) => (
+                        {Object.entries(SERVICE_LOG_CODES).map(([code, description]) => (
                           <div key={code} className="text-sm">
                             <span className="font-medium">{code}:</span> {description}
                           </div>
@@ -789,10 +840,11 @@ const EmployeeProjects: React.FC = () => {
                   </button>
                   <button
                     type="submit"
-                    className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                    disabled={isSaving}
+                    className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
                   >
                     <FaSave />
-                    <span>{editingEntry ? 'Update Entry' : 'Save Entry'}</span>
+                    <span>{editingEntry ? 'Resubmit Entry' : 'Submit for Review'}</span>
                   </button>
                 </div>
               </form>
@@ -10,6 +10,7 @@ import {
   LoginRequest,
   RegisterRequest
 } from '../auth/types';
+import { portalFetch, refreshSession } from '../lib/portal-fetch';
 
 // Authentication state
 interface AuthState {
@@ -50,6 +51,14 @@ interface AuthContextType {
   hasAllPermissions: (permissions: string[]) => boolean;
 }
 
+// Sessions live in httpOnly cookies, so the client never holds the tokens themselves
+const COOKIE_SESSION_TOKENS: TokenPair = {
+  accessToken: '',
+  refreshToken: '',
+  expiresIn: 900,
+  tokenType: 'Bearer'
+};
+
 // Initial state
 const initialState: AuthState = {
   user: null,
@@ -176,10 +185,9 @@ export function AuthProvider({ children }: AuthProviderProps): React.ReactElemen
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
 
-      // Try to get user profile using stored token
-      const response = await fetch('/api/auth/me', {
+      // Try to get user profile from the session cookie, refreshing an expired session
+      const response = await portalFetch('/api/auth/me', {
         method: 'GET',
-        credentials: 'include',
         headers: {
           'Content-Type': 'application/json'
         }
@@ -192,12 +200,7 @@ export function AuthProvider({ children }: AuthProviderProps): React.ReactElemen
             type: 'LOGIN_SUCCESS',
             payload: {
               user: result.data,
-              tokens: {
-                accessToken: '', // Will be in HTTP-only cookie
-                refreshToken: '',
-                expiresIn: 900,
-                tokenType: 'Bearer'
-              },
+              tokens: COOKIE_SESSION_TOKENS,
               permissions: result.data.permissions || [],
               roles: result.data.roles || []
             }
@@ -257,7 +260,7 @@ export function AuthProvider({ children }: AuthProviderProps): React.ReactElemen
           type: 'LOGIN_SUCCESS',
           payload: {
             user: result.data.user,
-            tokens: result.data.tokens,
+            tokens: COOKIE_SESSION_TOKENS,
             permissions,
             roles
           }
@@ -277,12 +280,11 @@ export function AuthProvider({ children }: AuthProviderProps): React.ReactElemen
    */
   const logout = async (logoutAll: boolean = false): Promise<void> => {
     try {
-      await fetch('/api/auth/logout', {
+      await portalFetch('/api/auth/logout', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
-        credentials: 'include',
         body: JSON.stringify({ logoutAll })
       });
     } catch (error) {
@@ -328,30 +330,19 @@ export function AuthProvider({ children }: AuthProviderProps): React.ReactElemen
   };
 
   /**
-   * Refresh access token
+   * Refresh the session cookie
    */
   const refreshToken = async (): Promise<void> => {
     try {
-      const response = await fetch('/api/auth/refresh', {
-        method: 'POST',
-        credentials: 'include',
-        headers: {
-          'Content-Type': 'application/json'
-        }
-      });
-
-      if (response.ok) {
-        const result = await response.json();
-        if (result.success) {
-          dispatch({
-            type: 'REFRESH_TOKEN_SUCCESS',
-            payload: {
-              tokens: result.data
-            }
-          });
-        }
-      } else if (response.status === 401) {
-        // Refresh token expired, logout user
+      if (await refreshSession()) {
+        dispatch({
+          type: 'REFRESH_TOKEN_SUCCESS',
+          payload: {
+            tokens: COOKIE_SESSION_TOKENS
+          }
+        });
+      } else {
+        // The sign-in ended or was revoked
         dispatch({ type: 'LOGOUT' });
       }
     } catch (error) {
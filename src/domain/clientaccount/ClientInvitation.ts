@@ -0,0 +1,209 @@
+/**
+ * Client Invitation Aggregate Root - Client self-service accounts
+ * A one-time emailed link that either sets up a client portal account or proves a client
+ * controls the email on a contract they want linked to their account
+ */
+
+import { AggregateRoot } from '../shared/AggregateRoot';
+import { UniqueEntityId } from '../shared/UniqueEntityId';
+import { DomainEventBase } from '../shared/Entity';
+import { BusinessRuleViolationError, DomainValidationError } from '../shared/DomainError';
+import { Email } from '../shared/Email';
+
+export enum ClientInvitationPurpose {
+  ACCOUNT_SETUP = 'account_setup',
+  CONTRACT_LINK = 'contract_link'
+}
+
+export enum ClientInvitationStatus {
+  PENDING = 'pending',
+  ACCEPTED = 'accepted',
+  REVOKED = 'revoked'
+}
+
+// Owners are the contract holders; members are co-workers they invite
+export enum ClientAccessLevel {
+  OWNER = 'owner',
+  MEMBER = 'member'
+}
+
+export const CLIENT_INVITATION_TTL_DAYS = 7;
+
+export interface ClientInvitationProps {
+  email: Email;
+  purpose: ClientInvitationPurpose;
+  accessLevel: ClientAccessLevel;
+  contractIds: string[];
+  companyName?: string;
+  recipientName?: string;
+  userId?: string; // Contract links: the account the contract is linked to once confirmed
+  tokenHash: string; // Only the hash is stored; the token itself is only ever in the email
+  status: ClientInvitationStatus;
+  invitedBy: string;
+  expiresAt: Date;
+  acceptedAt?: Date;
+  acceptedBy?: string; // Id of the account that used the invitation
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class ClientInvitation extends AggregateRoot<UniqueEntityId> {
+  private constructor(id: UniqueEntityId, private props: ClientInvitationProps) {
+    super(id);
+  }
+
+  static create(props: {
+    email: string;
+    purpose: ClientInvitationPurpose;
+    accessLevel: ClientAccessLevel;
+    contractIds: string[];
+    companyName?: string;
+    recipientName?: string;
+    userId?: string;
+    tokenHash: string;
+    invitedBy: string;
+    expiresAt: Date;
+  }): ClientInvitation {
+    // Domain validation
+    const contractIds = ClientInvitation.normalizeContractIds(props.contractIds);
+    if (contractIds.length === 0) {
+      throw new DomainValidationError('contractIds', 'At least one contract is required');
+    }
+    if (props.purpose === ClientInvitationPurpose.CONTRACT_LINK && !props.userId) {
+      throw new DomainValidationError('userId', 'Contract links must name the account to link to');
+    }
+    if (!props.tokenHash) {
+      throw new DomainValidationError('tokenHash', 'Is required');
+    }
+    ClientInvitation.validateExpiry(props.expiresAt);
+
+    const id = UniqueEntityId.create();
+    const now = new Date();
+
+    const invitation = new ClientInvitation(id, {
+      email: Email.create(props.email),
+      purpose: props.purpose,
+      accessLevel: props.accessLevel,
+      contractIds,
+      companyName: props.companyName?.trim() || undefined,
+      recipientName: props.recipientName?.trim() || undefined,
+      userId: props.userId,
+      tokenHash: props.tokenHash,
+      status: ClientInvitationStatus.PENDING,
+      invitedBy: props.invitedBy,
+      expiresAt: props.expiresAt,
+      createdAt: now,
+      updatedAt: now
+    });
+
+    invitation.addDomainEvent(new ClientInvitationIssuedEvent(invitation));
+    return invitation;
+  }
+
+  static reconstitute(id: UniqueEntityId, props: ClientInvitationProps): ClientInvitation {
+    return new ClientInvitation(id, props);
+  }
+
+  private static normalizeContractIds(contractIds: string[]): string[] {
+    return Array.from(new Set(contractIds.map(contractId => contractId.trim().toUpperCase()).filter(Boolean)));
+  }
+
+  private static validateExpiry(expiresAt: Date): void {
+    if (!(expiresAt instanceof Date) || isNaN(expiresAt.getTime())) {
+      throw new DomainValidationError('expiresAt', 'Must be a valid date');
+    }
+  }
+
+  // Business Methods
+  isExpired(now: Date = new Date()): boolean {
+    return now.getTime() > this.props.expiresAt.getTime();
+  }
+
+  isUsable(now: Date = new Date()): boolean {
+    return this.props.status === ClientInvitationStatus.PENDING && !this.isExpired(now);
+  }
+
+  assertUsable(now: Date = new Date()): void {
+    if (this.props.status === ClientInvitationStatus.ACCEPTED) {
+      throw new BusinessRuleViolationError('Invitation has already been used');
+    }
+    if (this.props.status === ClientInvitationStatus.REVOKED) {
+      throw new BusinessRuleViolationError('Invitation has been revoked');
+    }
+    if (this.isExpired(now)) {
+      throw new BusinessRuleViolationError('Invitation has expired', 'Ask VSR to send a new link');
+    }
+  }
+
+  // Another contract for the same person rides along on the pending invitation
+  addContract(contractId: string): void {
+    if (this.props.status !== ClientInvitationStatus.PENDING) {
+      throw new BusinessRuleViolationError('Only pending invitations can change', this.props.status);
+    }
+    this.props.contractIds = ClientInvitation.normalizeContractIds([...this.props.contractIds, contractId]);
+    this.props.updatedAt = new Date();
+  }
+
+  // A resend replaces the token, so the link in any earlier email stops working
+  reissue(tokenHash: string, expiresAt: Date): void {
+    if (this.props.status !== ClientInvitationStatus.PENDING) {
+      throw new BusinessRuleViolationError('Only pending invitations can be resent', this.props.status);
+    }
+    ClientInvitation.validateExpiry(expiresAt);
+    this.props.tokenHash = tokenHash;
+    this.props.expiresAt = expiresAt;
+    this.props.updatedAt = new Date();
+    this.addDomainEvent(new ClientInvitationIssuedEvent(this));
+  }
+
+  accept(acceptedBy: string, now: Date = new Date()): void {
+    this.assertUsable(now);
+    if (this.props.userId && this.props.userId !== acceptedBy) {
+      throw new BusinessRuleViolationError('Invitation belongs to a different account');
+    }
+
+    this.props.status = ClientInvitationStatus.ACCEPTED;
+    this.props.acceptedAt = now;
+    this.props.acceptedBy = acceptedBy;
+    this.props.updatedAt = now;
+    this.addDomainEvent(new ClientInvitationAcceptedEvent(this));
+  }
+
+  revoke(): void {
+    if (this.props.status !== ClientInvitationStatus.PENDING) {
+      throw new BusinessRuleViolationError('Only pending invitations can be revoked', this.props.status);
+    }
+    this.props.status = ClientInvitationStatus.REVOKED;
+    this.props.updatedAt = new Date();
+  }
+
+  // Getters
+  get email(): Email { return this.props.email; }
+  get purpose(): ClientInvitationPurpose { return this.props.purpose; }
+  get accessLevel(): ClientAccessLevel { return this.props.accessLevel; }
+  get contractIds(): ReadonlyArray<string> { return this.props.contractIds; }
+  get companyName(): string | undefined { return this.props.companyName; }
+  get recipientName(): string | undefined { return this.props.recipientName; }
+  get userId(): string | undefined { return this.props.userId; }
+  get tokenHash(): string { return this.props.tokenHash; }
+  get status(): ClientInvitationStatus { return this.props.status; }
+  get invitedBy(): string { return this.props.invitedBy; }
+  get expiresAt(): Date { return this.props.expiresAt; }
+  get acceptedAt(): Date | undefined { return this.props.acceptedAt; }
+  get acceptedBy(): string | undefined { return this.props.acceptedBy; }
+  get createdAt(): Date { return this.props.createdAt; }
+  get updatedAt(): Date { return this.props.updatedAt; }
+}
+
+// Domain Events
+export class ClientInvitationIssuedEvent extends DomainEventBase {
+  constructor(public readonly invitation: ClientInvitation) {
+    super();
+  }
+}
+
+export class ClientInvitationAcceptedEvent extends DomainEventBase {
+  constructor(public readonly invitation: ClientInvitation) {
+    super();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,19 @@
+/**
+ * Client Invitation Repository Interface - Domain Layer
+ * Defines client invitation data access operations
+ */
+
+import { ClientInvitation } from './ClientInvitation';
+import { UniqueEntityId } from '../shared/UniqueEntityId';
+
+export interface ClientInvitationRepository {
+  // Basic CRUD operations
+  save(invitation: ClientInvitation): Promise<void>;
+  findById(id: UniqueEntityId): Promise<ClientInvitation | null>;
+  delete(id: UniqueEntityId): Promise<void>;
+
+  // Query operations
+  findByTokenHash(tokenHash: string): Promise<ClientInvitation | null>;
+  findByEmail(email: string): Promise<ClientInvitation[]>; // Newest first
+  findByInviter(invitedBy: string): Promise<ClientInvitation[]>; // Newest first
+}
\ No newline at end of file
@@ -0,0 +1,37 @@
+/**
+ * Client User Store Interface - Domain Layer
+ * The login accounts client invitations turn into; implemented over the secure user store
+ */
+
+import { ClientAccessLevel } from './ClientInvitation';
+
+export interface ClientUser {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: 'admin' | 'employee' | 'client';
+  status: string;
+  contractIds?: string[]; // Contracts linked to the account beyond those under its own email
+  clientAccessLevel?: ClientAccessLevel;
+  companyName?: string;
+}
+
+export interface NewClientUser {
+  email: string;
+  password: string;
+  firstName: string;
+  lastName: string;
+  phone?: string;
+  accessLevel: ClientAccessLevel;
+  contractIds: string[];
+  companyName?: string;
+  createdBy: string;
+}
+
+export interface ClientUserStore {
+  findByEmail(email: string): Promise<ClientUser | null>;
+  // Invitation links prove the email, so accounts are created already verified
+  createClient(user: NewClientUser): Promise<ClientUser>;
+  linkContracts(userId: string, contractIds: string[]): Promise<ClientUser>;
+}
\ No newline at end of file
@@ -18,6 +18,12 @@ export enum ContractStatus {
   ON_HOLD = 'on_hold'
 }
 
+// How the contract value is invoiced
+export enum ContractBillingBasis {
+  PER_PUSH = 'per_push', // The contract value is the price of each approved service visit
+  PER_SEASON = 'per_season' // The contract value covers the season and is invoiced in installments
+}
+
 interface ContractProps {
   contractId: string; // Business Contract ID (e.g., "VSR-2025-001")
   customerName: string;
@@ -40,8 +46,15 @@ interface ContractMetadata {
   estimator?: string;
   region?: string;
   notes?: string;
+  sourceQuoteId?: string;
+  snowTriggerInches?: number; // Snow contracts: accumulation that triggers a service run
+  billingBasis?: ContractBillingBasis;
+  seasonInstallments?: number; // Per-season contracts: how many invoices the contract value is split across
+  pushRate?: number; // Per-push contracts: price billed for each service visit
 }
 
+const MAX_SEASON_INSTALLMENTS = 12;
+
 export class Contract extends AggregateRoot<UniqueEntityId> {
   private constructor(id: UniqueEntityId, private props: ContractProps) {
     super(id);
@@ -150,6 +163,29 @@ export class Contract extends AggregateRoot<UniqueEntityId> {
     this.props.updatedAt = new Date();
   }
 
+  // The contract value covers the whole season, so per-push contracts keep their own rate per visit
+  updateBilling(basis: ContractBillingBasis, terms: { seasonInstallments?: number; pushRate?: number } = {}): void {
+    if (!Object.values(ContractBillingBasis).includes(basis)) {
+      throw new DomainValidationError('billingBasis', `Must be one of: ${Object.values(ContractBillingBasis).join(', ')}`);
+    }
+    const seasonInstallments = terms.seasonInstallments ?? 1;
+    if (!Number.isInteger(seasonInstallments) || seasonInstallments < 1 || seasonInstallments > MAX_SEASON_INSTALLMENTS) {
+      throw new DomainValidationError('seasonInstallments', `Must be a whole number from 1 to ${MAX_SEASON_INSTALLMENTS}`);
+    }
+    const pushRate = terms.pushRate ?? this.props.metadata.pushRate;
+    if (basis === ContractBillingBasis.PER_PUSH && (pushRate === undefined || !Number.isFinite(pushRate) || pushRate <= 0)) {
+      throw new DomainValidationError('pushRate', 'Per-push contracts need a rate per push greater than 0');
+    }
+
+    this.props.metadata = {
+      ...this.props.metadata,
+      billingBasis: basis,
+      seasonInstallments: basis === ContractBillingBasis.PER_SEASON ? seasonInstallments : undefined,
+      pushRate: basis === ContractBillingBasis.PER_PUSH ? Math.round(pushRate! * 100) / 100 : this.props.metadata.pushRate
+    };
+    this.props.updatedAt = new Date();
+  }
+
   complete(endDate?: Date): void {
     this.props.status = ContractStatus.COMPLETED;
     this.props.endDate = endDate || new Date();
@@ -175,6 +211,19 @@ export class Contract extends AggregateRoot<UniqueEntityId> {
     return this.props.status === ContractStatus.COMPLETED;
   }
 
+  // Proof of ownership for public lookups: the customer's email or the last 4 digits of their phone
+  matchesCustomer(verification: { email?: string; phoneLastFour?: string }): boolean {
+    if (verification.email) {
+      return this.email.value.toLowerCase() === verification.email.trim().toLowerCase();
+    }
+
+    if (verification.phoneLastFour) {
+      return this.phone.value.slice(-4) === verification.phoneLastFour.replace(/\D/g, '');
+    }
+
+    return false;
+  }
+
   // Getters for autofill functionality
   get contractId(): string { return this.props.contractId; }
   get customerName(): string { return this.props.customerName; }
@@ -190,6 +239,10 @@ export class Contract extends AggregateRoot<UniqueEntityId> {
   get createdAt(): Date { return this.props.createdAt; }
   get updatedAt(): Date { return this.props.updatedAt; }
   get metadata(): ContractMetadata { return this.props.metadata; }
+  // Contracts converted from quotes are a fixed price for the season unless set otherwise
+  get billingBasis(): ContractBillingBasis { return this.props.metadata.billingBasis || ContractBillingBasis.PER_SEASON; }
+  get seasonInstallments(): number { return this.props.metadata.seasonInstallments || 1; }
+  get pushRate(): number | undefined { return this.props.metadata.pushRate; }
 
   // Export contract data for autofill
   getAutofillData() {
@@ -0,0 +1,12 @@
+/**
+ * Contract Conversion Store Interface - Domain Layer
+ * Saves the contract and project an accepted quote turns into as one unit of work
+ */
+
+import { Contract } from './Contract';
+import { Project } from '../project/Project';
+
+export interface ContractConversionStore {
+  // Stores both or neither; `link` runs after both are written, and a failure there undoes them
+  saveConversion(contract: Contract, project: Project, link: () => Promise<void>): Promise<void>;
+}
\ No newline at end of file
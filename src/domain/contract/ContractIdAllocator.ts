@@ -0,0 +1,23 @@
+/**
+ * Contract ID Allocator Interface - Domain Layer
+ * Hands out sequential business contract IDs (VSR-YYYY-NNN) per calendar year
+ */
+
+export const CONTRACT_ID_PREFIX = 'VSR';
+
+export interface ContractIdAllocator {
+  // Reserves and returns the next contract ID for the given year
+  allocate(year: number): Promise<string>;
+}
+
+export function formatContractId(year: number, sequence: number): string {
+  return `${CONTRACT_ID_PREFIX}-${year}-${sequence.toString().padStart(3, '0')}`;
+}
+
+export function parseContractSequence(contractId: string, year: number): number | null {
+  const match = contractId.toUpperCase().match(/^([A-Z]{2,4})-(\d{4})-(\d{3,4})$/);
+  if (!match || match[1] !== CONTRACT_ID_PREFIX || parseInt(match[2], 10) !== year) {
+    return null;
+  }
+  return parseInt(match[3], 10);
+}
\ No newline at end of file
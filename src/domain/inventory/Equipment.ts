@@ -0,0 +1,276 @@
+/**
+ * Equipment Aggregate Root - Equipment registry
+ * A plow, spreader or other asset kept at a yard, checked out to crews and serviced on a fixed interval
+ */
+
+import { AggregateRoot } from '../shared/AggregateRoot';
+import { UniqueEntityId } from '../shared/UniqueEntityId';
+import { DomainEventBase } from '../shared/Entity';
+import { BusinessRuleViolationError, DomainValidationError } from '../shared/DomainError';
+
+// Matches the equipment checklist on the snow removal form
+export const EQUIPMENT_CATEGORIES = [
+  'Snow Plow',
+  'Salt Spreader',
+  'Snow Blower',
+  'Shovel',
+  'Tractor',
+  'Loader',
+  'Other'
+] as const;
+
+export type EquipmentCategory = typeof EQUIPMENT_CATEGORIES[number];
+
+export enum EquipmentStatus {
+  AVAILABLE = 'available',
+  CHECKED_OUT = 'checked_out',
+  IN_MAINTENANCE = 'in_maintenance',
+  RETIRED = 'retired'
+}
+
+export interface EquipmentCheckout {
+  id: string;
+  crew: string; // Employee the equipment went out with
+  checkedOutBy: string;
+  checkedOutAt: Date;
+  dueBackAt?: Date;
+  returnedBy?: string;
+  returnedAt?: Date;
+  returnNotes?: string;
+}
+
+export interface EquipmentMaintenanceRecord {
+  id: string;
+  performedBy: string;
+  notes?: string;
+  completedAt: Date;
+}
+
+export interface EquipmentProps {
+  assetTag: string;
+  name: string;
+  category: EquipmentCategory;
+  yard: string;
+  status: EquipmentStatus;
+  maintenanceIntervalDays: number;
+  maintenanceDueAt: Date;
+  checkouts: EquipmentCheckout[]; // Oldest first; the last one is open while checked out
+  maintenance: EquipmentMaintenanceRecord[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export class Equipment extends AggregateRoot<UniqueEntityId> {
+  private constructor(id: UniqueEntityId, private props: EquipmentProps) {
+    super(id);
+  }
+
+  static create(props: {
+    assetTag: string;
+    name: string;
+    category: string;
+    yard: string;
+    maintenanceIntervalDays: number;
+    maintenanceDueAt?: Date;
+  }): Equipment {
+    const assetTag = props.assetTag?.trim().toUpperCase();
+    if (!assetTag || !/^[A-Z0-9][A-Z0-9-]{1,29}$/.test(assetTag)) {
+      throw new DomainValidationError('assetTag', 'Must be 2-30 letters, digits or dashes');
+    }
+    if (!props.name || props.name.trim().length < 2 || props.name.trim().length > 100) {
+      throw new DomainValidationError('name', 'Must be between 2 and 100 characters');
+    }
+    if (!EQUIPMENT_CATEGORIES.includes(props.category as EquipmentCategory)) {
+      throw new DomainValidationError('category', `Must be one of: ${EQUIPMENT_CATEGORIES.join(', ')}`);
+    }
+    const yard = props.yard?.trim().toUpperCase();
+    if (!yard || yard.length < 2 || yard.length > 50) {
+      throw new DomainValidationError('yard', 'Must be between 2 and 50 characters');
+    }
+    this.validateInterval(props.maintenanceIntervalDays);
+    if (props.maintenanceDueAt && isNaN(props.maintenanceDueAt.getTime())) {
+      throw new DomainValidationError('maintenanceDueAt', 'Must be a valid date');
+    }
+
+    const id = UniqueEntityId.create();
+    const now = new Date();
+    return new Equipment(id, {
+      assetTag,
+      name: props.name.trim(),
+      category: props.category as EquipmentCategory,
+      yard,
+      status: EquipmentStatus.AVAILABLE,
+      maintenanceIntervalDays: props.maintenanceIntervalDays,
+      maintenanceDueAt: props.maintenanceDueAt || new Date(now.getTime() + props.maintenanceIntervalDays * MS_PER_DAY),
+      checkouts: [],
+      maintenance: [],
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  static reconstitute(id: UniqueEntityId, props: EquipmentProps): Equipment {
+    return new Equipment(id, props);
+  }
+
+  private static validateInterval(days: number): void {
+    if (!Number.isInteger(days) || days < 1 || days > 730) {
+      throw new DomainValidationError('maintenanceIntervalDays', 'Must be a whole number of days between 1 and 730');
+    }
+  }
+
+  // Business Methods
+  // Overdue equipment stays in the yard until it has been serviced
+  checkOut(crew: string, checkedOutBy: string, dueBackAt?: Date): void {
+    if (!crew || !crew.trim()) {
+      throw new DomainValidationError('crew', 'Crew member is required');
+    }
+    if (dueBackAt && isNaN(dueBackAt.getTime())) {
+      throw new DomainValidationError('dueBackAt', 'Must be a valid date');
+    }
+    if (this.props.status !== EquipmentStatus.AVAILABLE) {
+      throw new BusinessRuleViolationError('Only available equipment can be checked out', this.props.status);
+    }
+    if (this.isMaintenanceOverdue()) {
+      throw new BusinessRuleViolationError('Equipment is overdue for maintenance', this.props.maintenanceDueAt.toISOString());
+    }
+
+    const now = new Date();
+    const checkout: EquipmentCheckout = {
+      id: UniqueEntityId.create().toString(),
+      crew: crew.trim(),
+      checkedOutBy,
+      checkedOutAt: now,
+      dueBackAt
+    };
+    this.props.checkouts.push(checkout);
+    this.props.status = EquipmentStatus.CHECKED_OUT;
+    this.props.updatedAt = now;
+
+    this.addDomainEvent(new EquipmentCheckedOutEvent(this, checkout));
+  }
+
+  checkIn(returnedBy: string, notes?: string): void {
+    const checkout = this.currentCheckout;
+    if (!checkout) {
+      throw new BusinessRuleViolationError('Equipment is not checked out');
+    }
+
+    const now = new Date();
+    checkout.returnedBy = returnedBy;
+    checkout.returnedAt = now;
+    checkout.returnNotes = notes?.trim() || undefined;
+    this.props.status = EquipmentStatus.AVAILABLE;
+    this.props.updatedAt = now;
+
+    this.addDomainEvent(new EquipmentReturnedEvent(this, checkout));
+  }
+
+  startMaintenance(): void {
+    if (this.props.status !== EquipmentStatus.AVAILABLE) {
+      throw new BusinessRuleViolationError('Only equipment in the yard can go in for maintenance', this.props.status);
+    }
+
+    this.props.status = EquipmentStatus.IN_MAINTENANCE;
+    this.props.updatedAt = new Date();
+  }
+
+  // Servicing restarts the interval from the day the work was done
+  completeMaintenance(performedBy: string, notes?: string): void {
+    if (this.props.status !== EquipmentStatus.IN_MAINTENANCE && this.props.status !== EquipmentStatus.AVAILABLE) {
+      throw new BusinessRuleViolationError('Equipment must be in the yard to record maintenance', this.props.status);
+    }
+
+    const now = new Date();
+    const record: EquipmentMaintenanceRecord = {
+      id: UniqueEntityId.create().toString(),
+      performedBy,
+      notes: notes?.trim() || undefined,
+      completedAt: now
+    };
+    this.props.maintenance.push(record);
+    this.props.maintenanceDueAt = new Date(now.getTime() + this.props.maintenanceIntervalDays * MS_PER_DAY);
+    this.props.status = EquipmentStatus.AVAILABLE;
+    this.props.updatedAt = now;
+
+    this.addDomainEvent(new EquipmentMaintenanceCompletedEvent(this, record));
+  }
+
+  changeMaintenanceInterval(days: number): void {
+    Equipment.validateInterval(days);
+
+    const lastServiced = this.lastMaintenance?.completedAt || this.props.createdAt;
+    this.props.maintenanceIntervalDays = days;
+    this.props.maintenanceDueAt = new Date(lastServiced.getTime() + days * MS_PER_DAY);
+    this.props.updatedAt = new Date();
+  }
+
+  retire(): void {
+    if (this.props.status === EquipmentStatus.CHECKED_OUT) {
+      throw new BusinessRuleViolationError('Equipment must be returned before it is retired');
+    }
+
+    this.props.status = EquipmentStatus.RETIRED;
+    this.props.updatedAt = new Date();
+  }
+
+  isMaintenanceOverdue(asOf: Date = new Date()): boolean {
+    return this.props.status !== EquipmentStatus.RETIRED && this.props.maintenanceDueAt <= asOf;
+  }
+
+  isMaintenanceDueWithin(days: number, asOf: Date = new Date()): boolean {
+    return this.isMaintenanceOverdue(new Date(asOf.getTime() + days * MS_PER_DAY));
+  }
+
+  // Getters
+  get assetTag(): string { return this.props.assetTag; }
+  get name(): string { return this.props.name; }
+  get category(): EquipmentCategory { return this.props.category; }
+  get yard(): string { return this.props.yard; }
+  get status(): EquipmentStatus { return this.props.status; }
+  get maintenanceIntervalDays(): number { return this.props.maintenanceIntervalDays; }
+  get maintenanceDueAt(): Date { return this.props.maintenanceDueAt; }
+  get checkouts(): ReadonlyArray<EquipmentCheckout> { return this.props.checkouts; }
+  get maintenance(): ReadonlyArray<EquipmentMaintenanceRecord> { return this.props.maintenance; }
+  get createdAt(): Date { return this.props.createdAt; }
+  get updatedAt(): Date { return this.props.updatedAt; }
+
+  get currentCheckout(): EquipmentCheckout | undefined {
+    if (this.props.status !== EquipmentStatus.CHECKED_OUT) return undefined;
+    return this.props.checkouts[this.props.checkouts.length - 1];
+  }
+
+  get lastMaintenance(): EquipmentMaintenanceRecord | undefined {
+    return this.props.maintenance[this.props.maintenance.length - 1];
+  }
+}
+
+// Domain Events
+export class EquipmentCheckedOutEvent extends DomainEventBase {
+  constructor(
+    public readonly equipment: Equipment,
+    public readonly checkout: EquipmentCheckout
+  ) {
+    super();
+  }
+}
+
+export class EquipmentReturnedEvent extends DomainEventBase {
+  constructor(
+    public readonly equipment: Equipment,
+    public readonly checkout: EquipmentCheckout
+  ) {
+    super();
+  }
+}
+
+export class EquipmentMaintenanceCompletedEvent extends DomainEventBase {
+  constructor(
+    public readonly equipment: Equipment,
+    public readonly record: EquipmentMaintenanceRecord
+  ) {
+    super();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,20 @@
+/**
+ * Equipment Repository Interface - Domain Layer
+ * Defines equipment registry data access operations
+ */
+
+import { Equipment, EquipmentStatus } from './Equipment';
+import { UniqueEntityId } from '../shared/UniqueEntityId';
+
+export interface EquipmentRepository {
+  // Basic CRUD operations
+  save(equipment: Equipment): Promise<void>;
+  findById(id: UniqueEntityId): Promise<Equipment | null>;
+  findAll(): Promise<Equipment[]>; // By asset tag
+  delete(id: UniqueEntityId): Promise<void>;
+
+  // Query operations
+  findByAssetTag(assetTag: string): Promise<Equipment | null>;
+  findByStatus(status: EquipmentStatus): Promise<Equipment[]>;
+  findCheckedOutTo(crew: string): Promise<Equipment[]>;
+}
\ No newline at end of file
@@ -0,0 +1,232 @@
+/**
+ * Inventory Item Aggregate Root - Material stock
+ * On-hand quantity of one material SKU at one yard, with every restock, count and service log draw-down
+ */
+
+import { AggregateRoot } from '../shared/AggregateRoot';
+import { UniqueEntityId } from '../shared/UniqueEntityId';
+import { DomainEventBase } from '../shared/Entity';
+import { BusinessRuleViolationError, DomainValidationError } from '../shared/DomainError';
+import { ServiceLogMaterials } from '../servicelog/ServiceLogEntry';
+
+// The service log material column a SKU is drawn down by, if any
+export type ServiceLogMaterial = keyof ServiceLogMaterials;
+
+export const SERVICE_LOG_MATERIALS: Record<ServiceLogMaterial, string> = {
+  iceMeltBags: 'Ice melt (bags)',
+  deicerGallons: 'Liquid deicer (gallons)',
+  iceSlicerTons: 'Ice slicer (tons)'
+};
+
+export enum InventoryMovementReason {
+  RESTOCK = 'restock',
+  SERVICE_LOG = 'service_log',
+  STOCK_COUNT = 'stock_count'
+}
+
+export interface InventoryMovement {
+  id: string;
+  reason: InventoryMovementReason;
+  quantity: number; // Signed change to the on-hand quantity
+  balanceAfter: number;
+  reference?: string; // Service log entry id for draw-downs
+  note?: string;
+  recordedBy: string;
+  recordedAt: Date;
+}
+
+export interface InventoryItemDetails {
+  name: string;
+  unit: string;
+  reorderThreshold: number;
+  reorderQuantity: number;
+  material?: ServiceLogMaterial;
+}
+
+export interface InventoryItemProps extends InventoryItemDetails {
+  sku: string;
+  yard: string;
+  onHand: number;
+  movements: InventoryMovement[]; // Oldest first
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+export class InventoryItem extends AggregateRoot<UniqueEntityId> {
+  private constructor(id: UniqueEntityId, private props: InventoryItemProps) {
+    super(id);
+  }
+
+  static create(props: InventoryItemDetails & {
+    sku: string;
+    yard: string;
+    openingQuantity: number;
+    createdBy: string;
+  }): InventoryItem {
+    const sku = props.sku?.trim().toUpperCase();
+    if (!sku || !/^[A-Z0-9][A-Z0-9-]{1,29}$/.test(sku)) {
+      throw new DomainValidationError('sku', 'Must be 2-30 letters, digits or dashes');
+    }
+    const yard = props.yard?.trim().toUpperCase();
+    if (!yard || yard.length < 2 || yard.length > 50) {
+      throw new DomainValidationError('yard', 'Must be between 2 and 50 characters');
+    }
+    this.validateQuantity('openingQuantity', props.openingQuantity);
+
+    const id = UniqueEntityId.create();
+    const now = new Date();
+    const item = new InventoryItem(id, {
+      ...this.validateDetails(props),
+      sku,
+      yard,
+      onHand: 0,
+      movements: [],
+      createdAt: now,
+      updatedAt: now
+    });
+
+    if (props.openingQuantity > 0) {
+      item.recordMovement(InventoryMovementReason.STOCK_COUNT, props.openingQuantity, props.createdBy, { note: 'Opening stock' });
+    }
+    return item;
+  }
+
+  static reconstitute(id: UniqueEntityId, props: InventoryItemProps): InventoryItem {
+    return new InventoryItem(id, props);
+  }
+
+  private static validateDetails(details: InventoryItemDetails): InventoryItemDetails {
+    if (!details.name || details.name.trim().length < 2 || details.name.trim().length > 100) {
+      throw new DomainValidationError('name', 'Must be between 2 and 100 characters');
+    }
+    if (!details.unit || !details.unit.trim() || details.unit.trim().length > 20) {
+      throw new DomainValidationError('unit', 'Must be between 1 and 20 characters');
+    }
+    this.validateQuantity('reorderThreshold', details.reorderThreshold);
+    this.validateQuantity('reorderQuantity', details.reorderQuantity);
+    if (details.material !== undefined && !Object.prototype.hasOwnProperty.call(SERVICE_LOG_MATERIALS, details.material)) {
+      throw new DomainValidationError('material', `Must be one of: ${Object.keys(SERVICE_LOG_MATERIALS).join(', ')}`);
+    }
+
+    return {
+      name: details.name.trim(),
+      unit: details.unit.trim(),
+      reorderThreshold: details.reorderThreshold,
+      reorderQuantity: details.reorderQuantity,
+      material: details.material
+    };
+  }
+
+  private static validateQuantity(field: string, value: number): void {
+    if (!Number.isFinite(value) || value < 0) {
+      throw new DomainValidationError(field, 'Must be zero or a positive number');
+    }
+  }
+
+  // Business Methods
+  // SKU and yard identify the stock, so only the description and reorder policy can change
+  updateDetails(details: InventoryItemDetails): void {
+    const wasBelowThreshold = this.needsReorder();
+    this.props = { ...this.props, ...InventoryItem.validateDetails(details), updatedAt: new Date() };
+
+    if (!wasBelowThreshold && this.needsReorder()) {
+      this.addDomainEvent(new InventoryReorderThresholdReachedEvent(this));
+    }
+  }
+
+  restock(quantity: number, recordedBy: string, note?: string): void {
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      throw new DomainValidationError('quantity', 'Must be a positive number');
+    }
+
+    this.recordMovement(InventoryMovementReason.RESTOCK, quantity, recordedBy, { note });
+    this.addDomainEvent(new InventoryRestockedEvent(this, quantity));
+  }
+
+  // A physical count replaces the book quantity; the difference is kept as the movement
+  recordStockCount(counted: number, recordedBy: string, note?: string): void {
+    InventoryItem.validateQuantity('counted', counted);
+
+    this.recordMovement(InventoryMovementReason.STOCK_COUNT, round(counted - this.props.onHand), recordedBy, { note });
+  }
+
+  // Approval must not fail because the books are behind the yard, so stock may go negative until the next count
+  drawDownForServiceLog(quantity: number, serviceLogId: string, recordedBy: string): boolean {
+    if (quantity <= 0 || this.hasDrawnDownFor(serviceLogId)) {
+      return false;
+    }
+
+    this.recordMovement(InventoryMovementReason.SERVICE_LOG, -quantity, recordedBy, { reference: serviceLogId });
+    return true;
+  }
+
+  hasDrawnDownFor(serviceLogId: string): boolean {
+    return this.props.movements.some(movement =>
+      movement.reason === InventoryMovementReason.SERVICE_LOG && movement.reference === serviceLogId);
+  }
+
+  needsReorder(): boolean {
+    return this.props.onHand <= this.props.reorderThreshold;
+  }
+
+  private recordMovement(
+    reason: InventoryMovementReason,
+    quantity: number,
+    recordedBy: string,
+    details: { reference?: string; note?: string } = {}
+  ): void {
+    if (!recordedBy || !recordedBy.trim()) {
+      throw new BusinessRuleViolationError('Stock movements must record who made them');
+    }
+
+    const wasBelowThreshold = this.needsReorder();
+    const now = new Date();
+    this.props.onHand = round(this.props.onHand + quantity);
+    this.props.movements.push({
+      id: UniqueEntityId.create().toString(),
+      reason,
+      quantity,
+      balanceAfter: this.props.onHand,
+      reference: details.reference,
+      note: details.note?.trim() || undefined,
+      recordedBy: recordedBy.trim(),
+      recordedAt: now
+    });
+    this.props.updatedAt = now;
+
+    if (!wasBelowThreshold && this.needsReorder()) {
+      this.addDomainEvent(new InventoryReorderThresholdReachedEvent(this));
+    }
+  }
+
+  // Getters
+  get sku(): string { return this.props.sku; }
+  get yard(): string { return this.props.yard; }
+  get name(): string { return this.props.name; }
+  get unit(): string { return this.props.unit; }
+  get material(): ServiceLogMaterial | undefined { return this.props.material; }
+  get onHand(): number { return this.props.onHand; }
+  get reorderThreshold(): number { return this.props.reorderThreshold; }
+  get reorderQuantity(): number { return this.props.reorderQuantity; }
+  get movements(): ReadonlyArray<InventoryMovement> { return this.props.movements; }
+  get createdAt(): Date { return this.props.createdAt; }
+  get updatedAt(): Date { return this.props.updatedAt; }
+}
+
+// Domain Events
+export class InventoryRestockedEvent extends DomainEventBase {
+  constructor(
+    public readonly item: InventoryItem,
+    public readonly quantity: number
+  ) {
+    super();
+  }
+}
+
+export class InventoryReorderThresholdReachedEvent extends DomainEventBase {
+  constructor(public readonly item: InventoryItem) {
+    super();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,20 @@
+/**
+ * Inventory Item Repository Interface - Domain Layer
+ * Defines material stock data access operations
+ */
+
+import { InventoryItem, ServiceLogMaterial } from './InventoryItem';
+import { UniqueEntityId } from '../shared/UniqueEntityId';
+
+export interface InventoryItemRepository {
+  // Basic CRUD operations
+  save(item: InventoryItem): Promise<void>;
+  findById(id: UniqueEntityId): Promise<InventoryItem | null>;
+  findAll(): Promise<InventoryItem[]>; // By yard, then SKU
+  delete(id: UniqueEntityId): Promise<void>;
+
+  // Query operations
+  findByYard(yard: string): Promise<InventoryItem[]>;
+  findBySku(sku: string, yard: string): Promise<InventoryItem | null>;
+  findByMaterial(material: ServiceLogMaterial): Promise<InventoryItem[]>;
+}
\ No newline at end of file
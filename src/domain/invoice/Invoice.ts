@@ -0,0 +1,497 @@
+/**
+ * Invoice Aggregate Root - Customer billing
+ * Bills a contract for a service period from approved service logs, materials and tax, and tracks payment until paid
+ */
+
+import { AggregateRoot } from '../shared/AggregateRoot';
+import { UniqueEntityId } from '../shared/UniqueEntityId';
+import { DomainEventBase } from '../shared/Entity';
+import { BusinessRuleViolationError, DomainValidationError } from '../shared/DomainError';
+import { Email } from '../shared/Email';
+
+export enum InvoiceStatus {
+  DRAFT = 'draft',
+  SENT = 'sent',
+  PARTIALLY_PAID = 'partially_paid',
+  PAID = 'paid',
+  OVERDUE = 'overdue',
+  VOID = 'void' // Withdrawn after issue; kept for the record, nothing is owed
+}
+
+export enum InvoiceLineCategory {
+  SERVICE = 'service', // One approved service visit on a per-push contract
+  SEASONAL = 'seasonal', // An installment of a per-season contract
+  MATERIAL = 'material',
+  ADJUSTMENT = 'adjustment' // Added by hand; negative amounts are credits
+}
+
+export enum PaymentMethod {
+  CHECK = 'check',
+  ACH = 'ach',
+  CARD = 'card',
+  CASH = 'cash',
+  OTHER = 'other'
+}
+
+export interface InvoiceLineItem {
+  id: string;
+  category: InvoiceLineCategory;
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  serviceDate?: Date;
+  serviceLogEntryId?: string;
+}
+
+export interface InvoicePayment {
+  id: string;
+  amount: number;
+  method: PaymentMethod;
+  reference?: string; // Check number or processor transaction ID
+  receivedAt: Date;
+  notes?: string;
+  recordedBy: string;
+  recordedAt: Date;
+  refundedAmount?: number; // Returned to the customer through the payment processor
+  refundedAt?: Date;
+}
+
+export interface InvoiceBillTo {
+  name: string;
+  email: string;
+  address: string;
+}
+
+export interface InvoiceProps {
+  invoiceNumber: string; // Business invoice number (e.g., "INV-2026-0001")
+  contractId: string;
+  billTo: InvoiceBillTo;
+  periodStart: Date; // Service dates covered, both inclusive
+  periodEnd: Date;
+  lineItems: InvoiceLineItem[];
+  serviceLogEntryIds: string[]; // Approved entries billed here, including ones only counted toward material lines
+  taxRate: number; // Percent, applied to the subtotal
+  paymentTermsDays: number;
+  status: InvoiceStatus;
+  issuedAt?: Date;
+  dueAt?: Date;
+  sentTo?: string;
+  lastSentAt?: Date;
+  payments: InvoicePayment[];
+  notes?: string;
+  voidedAt?: Date;
+  voidedBy?: string;
+  voidReason?: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const MAX_TAX_RATE = 25;
+const MAX_PAYMENT_TERMS_DAYS = 120;
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+export function lineItemAmount(item: Pick<InvoiceLineItem, 'quantity' | 'unitPrice'>): number {
+  return roundCurrency(item.quantity * item.unitPrice);
+}
+
+export class Invoice extends AggregateRoot<UniqueEntityId> {
+  private constructor(id: UniqueEntityId, private props: InvoiceProps) {
+    super(id);
+  }
+
+  static draft(props: {
+    invoiceNumber: string;
+    contractId: string;
+    billTo: InvoiceBillTo;
+    periodStart: Date;
+    periodEnd: Date;
+    lineItems: Array<Omit<InvoiceLineItem, 'id'>>;
+    serviceLogEntryIds: string[];
+    taxRate: number;
+    paymentTermsDays: number;
+    notes?: string;
+    createdBy: string;
+  }): Invoice {
+    if (!props.invoiceNumber || !props.invoiceNumber.trim()) {
+      throw new DomainValidationError('invoiceNumber', 'Invoice number is required');
+    }
+    if (!props.billTo.name || !props.billTo.name.trim()) {
+      throw new DomainValidationError('billTo', 'Customer name is required');
+    }
+    const email = Email.create(props.billTo.email);
+    if (isNaN(props.periodStart.getTime()) || isNaN(props.periodEnd.getTime())) {
+      throw new DomainValidationError('periodStart', 'Service period dates must be valid');
+    }
+    if (props.periodEnd < props.periodStart) {
+      throw new DomainValidationError('periodEnd', 'Must not be before the start of the period');
+    }
+    if (props.lineItems.length === 0) {
+      throw new BusinessRuleViolationError('An invoice needs at least one line item');
+    }
+    this.validateTaxRate(props.taxRate);
+    this.validatePaymentTerms(props.paymentTermsDays);
+    this.validateNotes(props.notes);
+
+    const id = UniqueEntityId.create();
+    const now = new Date();
+    const invoice = new Invoice(id, {
+      invoiceNumber: props.invoiceNumber.trim().toUpperCase(),
+      contractId: props.contractId.trim().toUpperCase(),
+      billTo: {
+        name: props.billTo.name.trim(),
+        email: email.value,
+        address: props.billTo.address.trim()
+      },
+      periodStart: props.periodStart,
+      periodEnd: props.periodEnd,
+      lineItems: props.lineItems.map(item => Invoice.createLineItem(item)),
+      serviceLogEntryIds: Array.from(new Set(props.serviceLogEntryIds)),
+      taxRate: props.taxRate,
+      paymentTermsDays: props.paymentTermsDays,
+      status: InvoiceStatus.DRAFT,
+      payments: [],
+      notes: props.notes?.trim() || undefined,
+      createdBy: props.createdBy,
+      createdAt: now,
+      updatedAt: now
+    });
+
+    invoice.addDomainEvent(new InvoiceDraftedEvent(invoice));
+    return invoice;
+  }
+
+  static reconstitute(id: UniqueEntityId, props: InvoiceProps): Invoice {
+    return new Invoice(id, props);
+  }
+
+  private static createLineItem(item: Omit<InvoiceLineItem, 'id'>): InvoiceLineItem {
+    const description = item.description?.trim();
+    if (!description || description.length > 300) {
+      throw new DomainValidationError('description', 'Line descriptions must be between 1 and 300 characters');
+    }
+    if (!Number.isFinite(item.quantity) || item.quantity <= 0) {
+      throw new DomainValidationError('quantity', 'Must be greater than 0');
+    }
+    if (!Number.isFinite(item.unitPrice)) {
+      throw new DomainValidationError('unitPrice', 'Must be a number');
+    }
+    if (item.unitPrice < 0 && item.category !== InvoiceLineCategory.ADJUSTMENT) {
+      throw new DomainValidationError('unitPrice', 'Only adjustments can be negative');
+    }
+
+    return {
+      ...item,
+      id: UniqueEntityId.create().toString(),
+      description,
+      unitPrice: roundCurrency(item.unitPrice)
+    };
+  }
+
+  private static validateTaxRate(taxRate: number): void {
+    if (!Number.isFinite(taxRate) || taxRate < 0 || taxRate > MAX_TAX_RATE) {
+      throw new DomainValidationError('taxRate', `Must be between 0 and ${MAX_TAX_RATE} percent`);
+    }
+  }
+
+  private static validatePaymentTerms(days: number): void {
+    if (!Number.isInteger(days) || days < 0 || days > MAX_PAYMENT_TERMS_DAYS) {
+      throw new DomainValidationError('paymentTermsDays', `Must be a whole number of days from 0 to ${MAX_PAYMENT_TERMS_DAYS}`);
+    }
+  }
+
+  private static validateNotes(notes?: string): void {
+    if (notes && notes.trim().length > 2000) {
+      throw new DomainValidationError('notes', 'Must not exceed 2000 characters');
+    }
+  }
+
+  // Business Methods
+  addAdjustment(description: string, amount: number): InvoiceLineItem {
+    this.ensureDraft();
+    if (!Number.isFinite(amount) || amount === 0) {
+      throw new DomainValidationError('amount', 'Adjustments must be a non-zero amount');
+    }
+
+    const item = Invoice.createLineItem({
+      category: InvoiceLineCategory.ADJUSTMENT,
+      description,
+      quantity: 1,
+      unit: 'each',
+      unitPrice: amount
+    });
+    this.props.lineItems.push(item);
+    this.props.updatedAt = new Date();
+    return item;
+  }
+
+  // A removed service visit is released so a later invoice can bill it
+  removeLineItem(lineItemId: string): void {
+    this.ensureDraft();
+    const item = this.props.lineItems.find(line => line.id === lineItemId);
+    if (!item) {
+      throw new BusinessRuleViolationError('Line item not found', lineItemId);
+    }
+    if (this.props.lineItems.length === 1) {
+      throw new BusinessRuleViolationError('An invoice needs at least one line item; delete the draft instead');
+    }
+
+    this.props.lineItems = this.props.lineItems.filter(line => line.id !== lineItemId);
+    if (item.serviceLogEntryId) {
+      this.props.serviceLogEntryIds = this.props.serviceLogEntryIds.filter(id => id !== item.serviceLogEntryId);
+    }
+    this.props.updatedAt = new Date();
+  }
+
+  updateTerms(terms: { taxRate?: number; paymentTermsDays?: number; notes?: string }): void {
+    this.ensureDraft();
+    if (terms.taxRate !== undefined) {
+      Invoice.validateTaxRate(terms.taxRate);
+      this.props.taxRate = terms.taxRate;
+    }
+    if (terms.paymentTermsDays !== undefined) {
+      Invoice.validatePaymentTerms(terms.paymentTermsDays);
+      this.props.paymentTermsDays = terms.paymentTermsDays;
+    }
+    if (terms.notes !== undefined) {
+      Invoice.validateNotes(terms.notes);
+      this.props.notes = terms.notes.trim() || undefined;
+    }
+    this.props.updatedAt = new Date();
+  }
+
+  // The first send issues the invoice and starts the payment terms; later sends are reminders
+  send(sentTo: string, at: Date = new Date()): void {
+    if (this.props.status === InvoiceStatus.VOID) {
+      throw new BusinessRuleViolationError('Voided invoices cannot be sent');
+    }
+    const recipient = Email.create(sentTo).value;
+
+    if (this.props.status === InvoiceStatus.DRAFT) {
+      if (this.total <= 0) {
+        throw new BusinessRuleViolationError('Invoice total must be greater than zero to send');
+      }
+      this.props.status = InvoiceStatus.SENT;
+      this.props.issuedAt = at;
+      this.props.dueAt = new Date(at.getTime() + this.props.paymentTermsDays * MS_PER_DAY);
+      this.addDomainEvent(new InvoiceIssuedEvent(this));
+    }
+
+    this.props.sentTo = recipient;
+    this.props.lastSentAt = at;
+    this.props.updatedAt = at;
+  }
+
+  // Issued invoices keep their number, so a wrong one is voided rather than deleted; its service logs can be billed again
+  voidInvoice(reason: string, voidedBy: string): void {
+    if (this.props.status === InvoiceStatus.DRAFT) {
+      throw new BusinessRuleViolationError('Draft invoices are deleted, not voided');
+    }
+    if (this.props.status === InvoiceStatus.VOID) {
+      throw new BusinessRuleViolationError('Invoice is already void');
+    }
+    if (this.amountPaid > 0) {
+      throw new BusinessRuleViolationError('Refund the payments on this invoice before voiding it', `Amount paid is ${this.amountPaid.toFixed(2)}`);
+    }
+    const trimmed = reason?.trim();
+    if (!trimmed || trimmed.length > 500) {
+      throw new DomainValidationError('reason', 'A reason between 1 and 500 characters is required to void an invoice');
+    }
+
+    const now = new Date();
+    this.props.status = InvoiceStatus.VOID;
+    this.props.voidedAt = now;
+    this.props.voidedBy = voidedBy;
+    this.props.voidReason = trimmed;
+    this.props.updatedAt = now;
+    this.addDomainEvent(new InvoiceVoidedEvent(this));
+  }
+
+  recordPayment(
+    payment: { amount: number; method: PaymentMethod; receivedAt: Date; reference?: string; notes?: string },
+    recordedBy: string
+  ): InvoicePayment {
+    if (this.props.status === InvoiceStatus.VOID) {
+      throw new BusinessRuleViolationError('Invoice is void');
+    }
+    if (this.props.status === InvoiceStatus.DRAFT) {
+      throw new BusinessRuleViolationError('Send the invoice before recording payments');
+    }
+    if (this.props.status === InvoiceStatus.PAID) {
+      throw new BusinessRuleViolationError('Invoice is already paid in full');
+    }
+    if (!Object.values(PaymentMethod).includes(payment.method)) {
+      throw new DomainValidationError('method', `Must be one of: ${Object.values(PaymentMethod).join(', ')}`);
+    }
+    const amount = roundCurrency(payment.amount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new DomainValidationError('amount', 'Must be greater than 0');
+    }
+    if (amount > this.balanceDue) {
+      throw new BusinessRuleViolationError('Payment is more than the balance due', `Balance due is ${this.balanceDue.toFixed(2)}`);
+    }
+    if (isNaN(payment.receivedAt.getTime()) || payment.receivedAt.getTime() > Date.now() + MS_PER_DAY) {
+      throw new DomainValidationError('receivedAt', 'Must be a valid date, not in the future');
+    }
+    const reference = payment.reference?.trim() || undefined;
+    if (reference && this.findPaymentByReference(reference)) {
+      throw new BusinessRuleViolationError('A payment with this reference is already recorded', reference);
+    }
+
+    const now = new Date();
+    const recorded: InvoicePayment = {
+      id: UniqueEntityId.create().toString(),
+      amount,
+      method: payment.method,
+      reference,
+      receivedAt: payment.receivedAt,
+      notes: payment.notes?.trim() || undefined,
+      recordedBy,
+      recordedAt: now
+    };
+    this.props.payments.push(recorded);
+
+    if (this.balanceDue === 0) {
+      this.props.status = InvoiceStatus.PAID;
+      this.addDomainEvent(new InvoicePaidEvent(this));
+    } else if (this.props.status !== InvoiceStatus.OVERDUE) {
+      this.props.status = InvoiceStatus.PARTIALLY_PAID;
+    }
+    this.props.updatedAt = now;
+    return recorded;
+  }
+
+  // Returns true when the invoice has just become overdue
+  markOverdue(asOf: Date = new Date()): boolean {
+    const collecting = this.props.status === InvoiceStatus.SENT || this.props.status === InvoiceStatus.PARTIALLY_PAID;
+    if (!collecting || !this.props.dueAt || asOf <= this.props.dueAt) {
+      return false;
+    }
+
+    this.props.status = InvoiceStatus.OVERDUE;
+    this.props.updatedAt = asOf;
+    this.addDomainEvent(new InvoiceOverdueEvent(this));
+    return true;
+  }
+
+  // Refunds reopen the balance; a refunded invoice past its due date goes back to overdue
+  recordRefund(reference: string, amount: number, refundedAt: Date = new Date()): void {
+    const payment = this.findPaymentByReference(reference);
+    if (!payment) {
+      throw new BusinessRuleViolationError('No payment with this reference is recorded', reference);
+    }
+    const refund = roundCurrency(amount);
+    const refundable = roundCurrency(payment.amount - (payment.refundedAmount || 0));
+    if (!Number.isFinite(refund) || refund <= 0) {
+      throw new DomainValidationError('amount', 'Must be greater than 0');
+    }
+    if (refund > refundable) {
+      throw new BusinessRuleViolationError('Refund is more than the payment', `Refundable amount is ${refundable.toFixed(2)}`);
+    }
+
+    payment.refundedAmount = roundCurrency((payment.refundedAmount || 0) + refund);
+    payment.refundedAt = refundedAt;
+
+    if (this.props.status !== InvoiceStatus.OVERDUE && this.balanceDue > 0) {
+      if (this.props.dueAt && refundedAt > this.props.dueAt) {
+        this.props.status = InvoiceStatus.OVERDUE;
+      } else {
+        this.props.status = this.amountPaid > 0 ? InvoiceStatus.PARTIALLY_PAID : InvoiceStatus.SENT;
+      }
+    }
+    this.props.updatedAt = refundedAt;
+  }
+
+  findPaymentByReference(reference: string): InvoicePayment | undefined {
+    const normalized = reference.trim().toLowerCase();
+    return this.props.payments.find(payment => payment.reference?.toLowerCase() === normalized);
+  }
+
+  private ensureDraft(): void {
+    if (this.props.status !== InvoiceStatus.DRAFT) {
+      throw new BusinessRuleViolationError('Only draft invoices can be changed');
+    }
+  }
+
+  // Getters
+  get invoiceNumber(): string { return this.props.invoiceNumber; }
+  get contractId(): string { return this.props.contractId; }
+  get billTo(): InvoiceBillTo { return { ...this.props.billTo }; }
+  get periodStart(): Date { return this.props.periodStart; }
+  get periodEnd(): Date { return this.props.periodEnd; }
+  get lineItems(): ReadonlyArray<InvoiceLineItem> { return this.props.lineItems; }
+  get serviceLogEntryIds(): ReadonlyArray<string> { return this.props.serviceLogEntryIds; }
+  get taxRate(): number { return this.props.taxRate; }
+  get paymentTermsDays(): number { return this.props.paymentTermsDays; }
+  get status(): InvoiceStatus { return this.props.status; }
+  get issuedAt(): Date | undefined { return this.props.issuedAt; }
+  get dueAt(): Date | undefined { return this.props.dueAt; }
+  get sentTo(): string | undefined { return this.props.sentTo; }
+  get lastSentAt(): Date | undefined { return this.props.lastSentAt; }
+  get payments(): ReadonlyArray<InvoicePayment> { return this.props.payments; }
+  get notes(): string | undefined { return this.props.notes; }
+  get voidedAt(): Date | undefined { return this.props.voidedAt; }
+  get voidedBy(): string | undefined { return this.props.voidedBy; }
+  get voidReason(): string | undefined { return this.props.voidReason; }
+  get createdBy(): string { return this.props.createdBy; }
+  get createdAt(): Date { return this.props.createdAt; }
+  get updatedAt(): Date { return this.props.updatedAt; }
+
+  get subtotal(): number {
+    return roundCurrency(this.props.lineItems.reduce((total, item) => total + lineItemAmount(item), 0));
+  }
+
+  get taxAmount(): number {
+    return roundCurrency(Math.max(this.subtotal, 0) * this.props.taxRate / 100);
+  }
+
+  get total(): number {
+    return roundCurrency(this.subtotal + this.taxAmount);
+  }
+
+  get amountPaid(): number {
+    return roundCurrency(this.props.payments.reduce(
+      (total, payment) => total + payment.amount - (payment.refundedAmount || 0),
+      0
+    ));
+  }
+
+  get balanceDue(): number {
+    if (this.props.status === InvoiceStatus.VOID) return 0;
+    return roundCurrency(Math.max(this.total - this.amountPaid, 0));
+  }
+}
+
+// Domain Events
+export class InvoiceDraftedEvent extends DomainEventBase {
+  constructor(public readonly invoice: Invoice) {
+    super();
+  }
+}
+
+export class InvoiceIssuedEvent extends DomainEventBase {
+  constructor(public readonly invoice: Invoice) {
+    super();
+  }
+}
+
+export class InvoicePaidEvent extends DomainEventBase {
+  constructor(public readonly invoice: Invoice) {
+    super();
+  }
+}
+
+export class InvoiceOverdueEvent extends DomainEventBase {
+  constructor(public readonly invoice: Invoice) {
+    super();
+  }
+}
+
+export class InvoiceVoidedEvent extends DomainEventBase {
+  constructor(public readonly invoice: Invoice) {
+    super();
+  }
+}
\ No newline at end of file
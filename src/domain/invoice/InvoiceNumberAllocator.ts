@@ -0,0 +1,23 @@
+/**
+ * Invoice Number Allocator Interface - Domain Layer
+ * Hands out sequential invoice numbers (INV-YYYY-NNNN) per calendar year
+ */
+
+export const INVOICE_NUMBER_PREFIX = 'INV';
+
+export interface InvoiceNumberAllocator {
+  // Reserves and returns the next invoice number for the given year
+  allocate(year: number): Promise<string>;
+}
+
+export function formatInvoiceNumber(year: number, sequence: number): string {
+  return `${INVOICE_NUMBER_PREFIX}-${year}-${sequence.toString().padStart(4, '0')}`;
+}
+
+export function parseInvoiceSequence(invoiceNumber: string, year: number): number | null {
+  const match = invoiceNumber.toUpperCase().match(/^([A-Z]{2,4})-(\d{4})-(\d{4,6})$/);
+  if (!match || match[1] !== INVOICE_NUMBER_PREFIX || parseInt(match[2], 10) !== year) {
+    return null;
+  }
+  return parseInt(match[3], 10);
+}
\ No newline at end of file
@@ -0,0 +1,20 @@
+/**
+ * Invoice Repository Interface - Domain Layer
+ * Defines invoice data access operations
+ */
+
+import { Invoice, InvoiceStatus } from './Invoice';
+import { UniqueEntityId } from '../shared/UniqueEntityId';
+
+export interface InvoiceRepository {
+  // Basic CRUD operations
+  save(invoice: Invoice): Promise<void>;
+  findById(id: UniqueEntityId): Promise<Invoice | null>;
+  findAll(): Promise<Invoice[]>; // Most recently created first
+  delete(id: UniqueEntityId): Promise<void>;
+
+  // Query operations
+  findByInvoiceNumber(invoiceNumber: string): Promise<Invoice | null>;
+  findByStatus(status: InvoiceStatus): Promise<Invoice[]>;
+  findByContractId(contractId: string): Promise<Invoice[]>;
+}
\ No newline at end of file
@@ -0,0 +1,329 @@
+/**
+ * Project Aggregate Root - Business Logic for Project Tracking
+ * Represents an active job with a customer-visible status timeline
+ */
+
+import { AggregateRoot } from '../shared/AggregateRoot';
+import { UniqueEntityId } from '../shared/UniqueEntityId';
+import { DomainEventBase } from '../shared/Entity';
+import { BusinessRuleViolationError, DomainValidationError } from '../shared/DomainError';
+import { ServiceType } from '../shared/ServiceType';
+import { GeoCoordinates, validateGeoCoordinates } from '../shared/GeoCoordinates';
+
+export enum ServiceClass {
+  COMMERCIAL = 'commercial',
+  RESIDENTIAL = 'residential'
+}
+
+export interface ProjectAddress {
+  street: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  latitude?: number; // Site coordinates for the time clock geofence
+  longitude?: number;
+}
+
+export interface ProjectContact {
+  name: string;
+  phone: string;
+  email: string;
+}
+
+export interface ProjectStatusChange {
+  id: string;
+  fromStatus: number | null;
+  toStatus: number;
+  label: string;
+  notes?: string;
+  changedBy?: string;
+  changedAt: Date;
+}
+
+export interface ProjectProps {
+  title: string;
+  propertyCode?: string;
+  client: string;
+  serviceClass: ServiceClass;
+  serviceType: ServiceType;
+  currentStatus: number;
+  statusLabels: string[];
+  showStatusBar: boolean;
+  adminNotes?: string;
+  address?: ProjectAddress;
+  contact?: ProjectContact;
+  contractId?: string;
+  statusHistory: ProjectStatusChange[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class Project extends AggregateRoot<UniqueEntityId> {
+  private constructor(id: UniqueEntityId, private props: ProjectProps) {
+    super(id);
+  }
+
+  static create(props: {
+    title: string;
+    propertyCode?: string;
+    client: string;
+    serviceClass: string;
+    serviceType: string;
+    statusLabels: string[];
+    showStatusBar?: boolean;
+    adminNotes?: string;
+    address?: ProjectAddress;
+    contact?: ProjectContact;
+    contractId?: string;
+    createdBy?: string;
+  }): Project {
+    // Domain validation
+    this.validateTitle(props.title);
+    this.validateClient(props.client);
+    this.validateStatusLabels(props.statusLabels);
+    this.validateAddress(props.address);
+
+    const serviceClass = this.parseServiceClass(props.serviceClass);
+    const serviceType = ServiceType.create(props.serviceType);
+
+    const id = UniqueEntityId.create();
+    const now = new Date();
+    const statusLabels = props.statusLabels.map(label => label.trim());
+
+    const project = new Project(id, {
+      title: props.title.trim(),
+      propertyCode: props.propertyCode?.trim().toUpperCase() || undefined,
+      client: props.client.trim(),
+      serviceClass,
+      serviceType,
+      currentStatus: 0,
+      statusLabels,
+      showStatusBar: props.showStatusBar ?? true,
+      adminNotes: props.adminNotes?.trim() || undefined,
+      address: props.address,
+      contact: props.contact,
+      contractId: props.contractId?.toUpperCase(),
+      statusHistory: [{
+        id: UniqueEntityId.create().toString(),
+        fromStatus: null,
+        toStatus: 0,
+        label: statusLabels[0],
+        changedBy: props.createdBy,
+        changedAt: now
+      }],
+      createdAt: now,
+      updatedAt: now
+    });
+
+    project.addDomainEvent(new ProjectCreatedEvent(project));
+    return project;
+  }
+
+  static reconstitute(id: UniqueEntityId, props: ProjectProps): Project {
+    return new Project(id, props);
+  }
+
+  private static validateTitle(title: string): void {
+    if (!title || title.trim().length < 3) {
+      throw new DomainValidationError('title', 'Must be at least 3 characters');
+    }
+    if (title.trim().length > 200) {
+      throw new DomainValidationError('title', 'Must not exceed 200 characters');
+    }
+  }
+
+  private static validateClient(client: string): void {
+    if (!client || client.trim().length < 2) {
+      throw new DomainValidationError('client', 'Must be at least 2 characters');
+    }
+    if (client.trim().length > 255) {
+      throw new DomainValidationError('client', 'Must not exceed 255 characters');
+    }
+  }
+
+  private static validateStatusLabels(labels: string[]): void {
+    if (!Array.isArray(labels) || labels.length < 2) {
+      throw new DomainValidationError('statusLabels', 'At least 2 status labels are required');
+    }
+    if (labels.length > 12) {
+      throw new DomainValidationError('statusLabels', 'Must not exceed 12 status labels');
+    }
+    if (labels.some(label => typeof label !== 'string' || label.trim().length === 0)) {
+      throw new DomainValidationError('statusLabels', 'Status labels must not be empty');
+    }
+  }
+
+  private static validateAddress(address?: ProjectAddress): void {
+    if (!address || (address.latitude === undefined && address.longitude === undefined)) {
+      return;
+    }
+    validateGeoCoordinates('address', { latitude: address.latitude as number, longitude: address.longitude as number });
+  }
+
+  private static parseServiceClass(serviceClass: string): ServiceClass {
+    const validClasses = Object.values(ServiceClass) as string[];
+    if (!validClasses.includes(serviceClass)) {
+      throw new DomainValidationError(
+        'serviceClass',
+        `Invalid service class: ${serviceClass}. Valid classes: ${validClasses.join(', ')}`
+      );
+    }
+    return serviceClass as ServiceClass;
+  }
+
+  // Business Methods
+  updateStatus(newStatus: number, options: { notes?: string; changedBy?: string } = {}): void {
+    if (!Number.isInteger(newStatus) || newStatus < 0 || newStatus >= this.props.statusLabels.length) {
+      throw new DomainValidationError(
+        'currentStatus',
+        `Must be between 0 and ${this.props.statusLabels.length - 1}`
+      );
+    }
+
+    if (newStatus === this.props.currentStatus) {
+      return;
+    }
+
+    const now = new Date();
+    const fromStatus = this.props.currentStatus;
+
+    this.props.statusHistory.push({
+      id: UniqueEntityId.create().toString(),
+      fromStatus,
+      toStatus: newStatus,
+      label: this.props.statusLabels[newStatus],
+      notes: options.notes?.trim() || undefined,
+      changedBy: options.changedBy,
+      changedAt: now
+    });
+    this.props.currentStatus = newStatus;
+    this.props.updatedAt = now;
+
+    this.addDomainEvent(new ProjectStatusChangedEvent(this, fromStatus, newStatus));
+
+    if (this.isComplete()) {
+      this.addDomainEvent(new ProjectCompletedEvent(this));
+    }
+  }
+
+  updateDetails(details: {
+    title?: string;
+    propertyCode?: string;
+    client?: string;
+    serviceClass?: string;
+    serviceType?: string;
+    showStatusBar?: boolean;
+    adminNotes?: string;
+    address?: ProjectAddress;
+    contact?: ProjectContact;
+    contractId?: string;
+  }): void {
+    if (details.title !== undefined) {
+      Project.validateTitle(details.title);
+      this.props.title = details.title.trim();
+    }
+
+    if (details.client !== undefined) {
+      Project.validateClient(details.client);
+      this.props.client = details.client.trim();
+    }
+
+    if (details.serviceClass !== undefined) {
+      this.props.serviceClass = Project.parseServiceClass(details.serviceClass);
+    }
+
+    if (details.serviceType !== undefined) {
+      this.props.serviceType = ServiceType.create(details.serviceType);
+    }
+
+    if (details.propertyCode !== undefined) {
+      this.props.propertyCode = details.propertyCode.trim().toUpperCase() || undefined;
+    }
+
+    if (details.showStatusBar !== undefined) {
+      this.props.showStatusBar = details.showStatusBar;
+    }
+
+    if (details.adminNotes !== undefined) {
+      this.props.adminNotes = details.adminNotes.trim() || undefined;
+    }
+
+    if (details.address !== undefined) {
+      Project.validateAddress(details.address);
+      this.props.address = details.address;
+    }
+
+    if (details.contact !== undefined) {
+      this.props.contact = details.contact;
+    }
+
+    if (details.contractId !== undefined) {
+      this.props.contractId = details.contractId.trim().toUpperCase() || undefined;
+    }
+
+    this.props.updatedAt = new Date();
+  }
+
+  replaceStatusLabels(labels: string[]): void {
+    Project.validateStatusLabels(labels);
+
+    if (this.props.currentStatus >= labels.length) {
+      throw new BusinessRuleViolationError(
+        'Status labels must cover the current status',
+        `current status is ${this.props.currentStatus}`
+      );
+    }
+
+    this.props.statusLabels = labels.map(label => label.trim());
+    this.props.updatedAt = new Date();
+  }
+
+  isComplete(): boolean {
+    return this.props.currentStatus >= this.props.statusLabels.length - 1;
+  }
+
+  // Getters
+  get title(): string { return this.props.title; }
+  get propertyCode(): string | undefined { return this.props.propertyCode; }
+  get client(): string { return this.props.client; }
+  get serviceClass(): ServiceClass { return this.props.serviceClass; }
+  get serviceType(): ServiceType { return this.props.serviceType; }
+  get currentStatus(): number { return this.props.currentStatus; }
+  get currentStatusLabel(): string { return this.props.statusLabels[this.props.currentStatus]; }
+  get statusLabels(): ReadonlyArray<string> { return this.props.statusLabels; }
+  get showStatusBar(): boolean { return this.props.showStatusBar; }
+  get adminNotes(): string | undefined { return this.props.adminNotes; }
+  get address(): ProjectAddress | undefined { return this.props.address; }
+  get siteCoordinates(): GeoCoordinates | undefined {
+    const { latitude, longitude } = this.props.address || {};
+    return latitude !== undefined && longitude !== undefined ? { latitude, longitude } : undefined;
+  }
+  get contact(): ProjectContact | undefined { return this.props.contact; }
+  get contractId(): string | undefined { return this.props.contractId; }
+  get statusHistory(): ReadonlyArray<ProjectStatusChange> { return this.props.statusHistory; }
+  get createdAt(): Date { return this.props.createdAt; }
+  get updatedAt(): Date { return this.props.updatedAt; }
+}
+
+// Domain Events
+export class ProjectCreatedEvent extends DomainEventBase {
+  constructor(public readonly project: Project) {
+    super();
+  }
+}
+
+export class ProjectStatusChangedEvent extends DomainEventBase {
+  constructor(
+    public readonly project: Project,
+    public readonly fromStatus: number,
+    public readonly toStatus: number
+  ) {
+    super();
+  }
+}
+
+export class ProjectCompletedEvent extends DomainEventBase {
+  constructor(public readonly project: Project) {
+    super();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,41 @@
+/**
+ * Project Repository Interface - Domain Layer
+ * Defines project data access operations
+ */
+
+import { Project, ServiceClass } from './Project';
+import { UniqueEntityId } from '../shared/UniqueEntityId';
+
+export interface ProjectRepository {
+  // Basic CRUD operations
+  save(project: Project): Promise<void>;
+  findById(id: UniqueEntityId): Promise<Project | null>;
+  findAll(): Promise<Project[]>;
+  delete(id: UniqueEntityId): Promise<void>;
+
+  // Query operations
+  findByPropertyCode(propertyCode: string): Promise<Project[]>;
+  findByContractId(contractId: string): Promise<Project[]>;
+  findByServiceType(serviceType: string): Promise<Project[]>;
+  findWithFilters(filters: ProjectQueryFilters): Promise<ProjectQueryResult>;
+}
+
+export interface ProjectQueryFilters {
+  serviceType?: string;
+  serviceClass?: ServiceClass;
+  client?: string;
+  propertyCode?: string;
+  contractId?: string;
+
+  // Pagination and sorting
+  limit?: number;
+  offset?: number;
+  orderBy?: 'createdAt' | 'updatedAt' | 'title';
+  orderDirection?: 'asc' | 'desc';
+}
+
+export interface ProjectQueryResult {
+  projects: Project[];
+  total: number;
+  hasMore: boolean;
+}
\ No newline at end of file
@@ -0,0 +1,234 @@
+/**
+ * Estimate Value Object - Structured pricing for a quote
+ * Line items, discounts and tax with all totals computed in the domain
+ */
+
+import { ValueObject } from '../shared/ValueObject';
+import { DomainValidationError } from '../shared/DomainError';
+
+export enum LineItemCategory {
+  MATERIAL = 'material',
+  LABOR = 'labor'
+}
+
+export enum DiscountType {
+  PERCENTAGE = 'percentage',
+  FIXED = 'fixed'
+}
+
+export interface EstimateLineItem {
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  category: LineItemCategory;
+  optional: boolean; // Add-ons the customer may choose; excluded from the base total
+}
+
+export interface EstimateDiscount {
+  description: string;
+  type: DiscountType;
+  value: number;
+}
+
+export interface EstimateTotals {
+  materialSubtotal: number;
+  laborSubtotal: number;
+  subtotal: number;
+  discountTotal: number;
+  taxableAmount: number;
+  taxAmount: number;
+  total: number;
+}
+
+export interface EstimateProps {
+  lineItems: EstimateLineItem[];
+  discounts: EstimateDiscount[];
+  taxRate: number; // Percentage, e.g. 8.25
+  notes?: string;
+}
+
+// Raw estimate data as entered by staff; optional defaults to false
+export interface EstimateInput {
+  lineItems: Array<Omit<EstimateLineItem, 'optional'> & { optional?: boolean }>;
+  discounts?: EstimateDiscount[];
+  taxRate?: number;
+  notes?: string;
+}
+
+export interface EstimateRevision {
+  version: number;
+  estimate: Estimate;
+  createdAt: Date;
+  createdBy?: string;
+  notes?: string;
+}
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class Estimate extends ValueObject<EstimateProps> {
+  private constructor(props: EstimateProps) {
+    super(props);
+  }
+
+  static create(props: EstimateInput): Estimate {
+    if (!props.lineItems || props.lineItems.length === 0) {
+      throw new DomainValidationError('lineItems', 'At least one line item is required');
+    }
+
+    const lineItems = props.lineItems.map((item, index) => this.validateLineItem(item, index));
+    const discounts = (props.discounts || []).map((discount, index) => this.validateDiscount(discount, index));
+    const taxRate = props.taxRate ?? 0;
+
+    if (!Number.isFinite(taxRate) || taxRate < 0 || taxRate > 100) {
+      throw new DomainValidationError('taxRate', 'Must be between 0 and 100');
+    }
+
+    if (!lineItems.some(item => !item.optional)) {
+      throw new DomainValidationError('lineItems', 'At least one line item must be required (not an add-on)');
+    }
+
+    const estimate = new Estimate({
+      lineItems,
+      discounts,
+      taxRate,
+      notes: props.notes?.trim() || undefined
+    });
+
+    if (estimate.calculateTotals().total <= 0) {
+      throw new DomainValidationError('total', 'Must be greater than 0');
+    }
+
+    return estimate;
+  }
+
+  // Wraps a single quoted amount for callers that do not itemize
+  static fromLumpSum(amount: number, description = 'Quoted services'): Estimate {
+    return Estimate.create({
+      lineItems: [{
+        description,
+        quantity: 1,
+        unit: 'lot',
+        unitPrice: amount,
+        category: LineItemCategory.LABOR
+      }]
+    });
+  }
+
+  static reconstitute(props: EstimateProps): Estimate {
+    return new Estimate(props);
+  }
+
+  private static validateLineItem(item: EstimateInput['lineItems'][number], index: number): EstimateLineItem {
+    const field = `lineItems[${index}]`;
+
+    if (!item.description || !item.description.trim()) {
+      throw new DomainValidationError(`${field}.description`, 'Description is required');
+    }
+    if (!Number.isFinite(item.quantity) || item.quantity <= 0) {
+      throw new DomainValidationError(`${field}.quantity`, 'Must be greater than 0');
+    }
+    if (!Number.isFinite(item.unitPrice) || item.unitPrice < 0) {
+      throw new DomainValidationError(`${field}.unitPrice`, 'Must not be negative');
+    }
+    if (!Object.values(LineItemCategory).includes(item.category)) {
+      throw new DomainValidationError(`${field}.category`, 'Must be material or labor');
+    }
+
+    return {
+      description: item.description.trim(),
+      quantity: item.quantity,
+      unit: item.unit?.trim() || 'each',
+      unitPrice: item.unitPrice,
+      category: item.category,
+      optional: !!item.optional
+    };
+  }
+
+  private static validateDiscount(discount: EstimateDiscount, index: number): EstimateDiscount {
+    const field = `discounts[${index}]`;
+
+    if (!Object.values(DiscountType).includes(discount.type)) {
+      throw new DomainValidationError(`${field}.type`, 'Must be percentage or fixed');
+    }
+    if (!Number.isFinite(discount.value) || discount.value <= 0) {
+      throw new DomainValidationError(`${field}.value`, 'Must be greater than 0');
+    }
+    if (discount.type === DiscountType.PERCENTAGE && discount.value > 100) {
+      throw new DomainValidationError(`${field}.value`, 'Percentage discount cannot exceed 100');
+    }
+
+    return {
+      description: discount.description?.trim() || 'Discount',
+      type: discount.type,
+      value: discount.value
+    };
+  }
+
+  static lineTotal(item: EstimateLineItem): number {
+    return roundCurrency(item.quantity * item.unitPrice);
+  }
+
+  // Discounts apply to the pre-tax subtotal; tax applies to what remains
+  calculateTotals(options: { includeAddOns?: boolean } = {}): EstimateTotals {
+    const items = this.props.lineItems.filter(item => options.includeAddOns || !item.optional);
+
+    const sumCategory = (category: LineItemCategory) => roundCurrency(
+      items
+        .filter(item => item.category === category)
+        .reduce((sum, item) => sum + Estimate.lineTotal(item), 0)
+    );
+
+    const materialSubtotal = sumCategory(LineItemCategory.MATERIAL);
+    const laborSubtotal = sumCategory(LineItemCategory.LABOR);
+    const subtotal = roundCurrency(materialSubtotal + laborSubtotal);
+
+    const discountTotal = roundCurrency(
+      this.discountBreakdown(subtotal).reduce((sum, applied) => sum + applied.amount, 0)
+    );
+
+    const taxableAmount = roundCurrency(subtotal - discountTotal);
+    const taxAmount = roundCurrency(taxableAmount * this.props.taxRate / 100);
+
+    return {
+      materialSubtotal,
+      laborSubtotal,
+      subtotal,
+      discountTotal,
+      taxableAmount,
+      taxAmount,
+      total: roundCurrency(taxableAmount + taxAmount)
+    };
+  }
+
+  // Discounts are applied in order and can never take the subtotal below zero
+  discountBreakdown(subtotal: number): Array<{ discount: EstimateDiscount; amount: number }> {
+    let remaining = subtotal;
+
+    return this.props.discounts.map(discount => {
+      const requested = discount.type === DiscountType.PERCENTAGE
+        ? subtotal * discount.value / 100
+        : discount.value;
+      const amount = roundCurrency(Math.min(requested, remaining));
+      remaining = roundCurrency(remaining - amount);
+      return { discount, amount };
+    });
+  }
+
+  get lineItems(): ReadonlyArray<EstimateLineItem> { return this.props.lineItems; }
+  get requiredItems(): EstimateLineItem[] { return this.props.lineItems.filter(item => !item.optional); }
+  get addOns(): EstimateLineItem[] { return this.props.lineItems.filter(item => item.optional); }
+  get discounts(): ReadonlyArray<EstimateDiscount> { return this.props.discounts; }
+  get taxRate(): number { return this.props.taxRate; }
+  get notes(): string | undefined { return this.props.notes; }
+  get total(): number { return this.calculateTotals().total; }
+
+  toJSON(): EstimateProps {
+    return {
+      lineItems: this.props.lineItems.map(item => ({ ...item })),
+      discounts: this.props.discounts.map(discount => ({ ...discount })),
+      taxRate: this.props.taxRate,
+      notes: this.props.notes
+    };
+  }
+}
\ No newline at end of file
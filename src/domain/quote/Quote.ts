@@ -9,16 +9,11 @@ import { DomainEventBase } from '../shared/Entity';
 import { BusinessRuleViolationError, DomainValidationError } from '../shared/DomainError';
 import { Email } from '../shared/Email';
 import { PhoneNumber } from '../shared/PhoneNumber';
-import { ServiceType } from '../shared/ServiceType';
+import { ServiceType, ServiceCategory } from '../shared/ServiceType';
+import { Estimate, EstimateRevision } from './Estimate';
+import { QuoteStatus, assertQuoteStatusTransition, canTransitionQuoteStatus } from './QuoteStatus';
 
-export enum QuoteStatus {
-  PENDING = 'pending',
-  UNDER_REVIEW = 'under_review',
-  QUOTE_SENT = 'quote_sent',
-  ACCEPTED = 'accepted',
-  REJECTED = 'rejected',
-  EXPIRED = 'expired'
-}
+export { QuoteStatus };
 
 export enum QuotePriority {
   LOW = 'low',
@@ -27,20 +22,41 @@ export enum QuotePriority {
   URGENT = 'urgent'
 }
 
+// Hours from submission to the first staff response before a quote counts as overdue
+export const FIRST_RESPONSE_SLA_HOURS: Record<QuotePriority, number> = {
+  [QuotePriority.URGENT]: 2,
+  [QuotePriority.HIGH]: 4,
+  [QuotePriority.MEDIUM]: 24,
+  [QuotePriority.LOW]: 72
+};
+
 interface QuoteProps {
   customerName: string;
   email: Email;
   phone: PhoneNumber;
   serviceType: ServiceType;
   description: string;
+  serviceAddress?: string;
   status: QuoteStatus;
   priority: QuotePriority;
   photoAttachments: string[];
   submittedAt: Date;
   updatedAt: Date;
+  firstRespondedAt?: Date; // When staff first moved the quote out of pending
   estimatedValue?: number;
+  estimateRevisions: EstimateRevision[];
+  sentRevision?: number;
   quoteSentAt?: Date;
   expiresAt?: Date;
+  contractId?: string;
+  customerResponse?: QuoteCustomerResponse;
+  assignedTo?: string;
+  adminNotes?: string;
+  possibleDuplicateOf?: string; // Earlier open quote this one likely repeats, until staff merge or dismiss it
+  customerHistory?: QuoteCustomerHistory;
+  deposit?: QuoteDeposit;
+  updatedBy?: string; // Staff member behind the latest manual change
+  expiryRemindersSent: number[]; // Days-before-expiry offsets already reminded for the sent revision
   metadata: QuoteMetadata;
 }
 
@@ -48,11 +64,61 @@ interface QuoteMetadata {
   ipAddress?: string;
   userAgent?: string;
   source: string;
+  serviceClass?: string; // commercial or residential, as picked on the quote form
   utmSource?: string;
   utmMedium?: string;
   utmCampaign?: string;
 }
 
+// Typed-name e-signature supplied by the customer through their quote link
+export interface QuoteSignature {
+  signedName: string;
+  ipAddress: string;
+  userAgent: string;
+  revision: number; // The estimate revision the customer was shown
+  signedAt?: Date;
+  reason?: string;
+}
+
+// Evidence kept with the quote when the customer accepts or declines it themselves
+export interface QuoteCustomerResponse {
+  decision: 'accepted' | 'rejected';
+  signedName: string;
+  ipAddress: string;
+  userAgent: string;
+  respondedAt: Date;
+  revision: number;
+  reason?: string;
+}
+
+// Earlier business with the same customer, found when the quote was submitted
+export interface QuoteCustomerHistory {
+  previousQuoteIds: string[];
+  contractIds: string[];
+}
+
+export enum QuoteDepositStatus {
+  REQUESTED = 'requested',
+  PAID = 'paid',
+  REFUNDED = 'refunded'
+}
+
+// Up-front payment collected once the customer accepts, before work is scheduled
+export interface QuoteDeposit {
+  amount: number;
+  status: QuoteDepositStatus;
+  requestedBy: string;
+  requestedAt: Date;
+  paymentReference?: string; // Payment provider id once paid
+  paidAt?: Date;
+  refundedAt?: Date;
+}
+
+// Statuses a duplicate can no longer be folded into
+const CLOSED_STATUSES: QuoteStatus[] = [QuoteStatus.ACCEPTED, QuoteStatus.REJECTED, QuoteStatus.EXPIRED];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export class Quote extends AggregateRoot<UniqueEntityId> {
   private constructor(id: UniqueEntityId, private props: QuoteProps) {
     super(id);
@@ -64,16 +130,20 @@ export class Quote extends AggregateRoot<UniqueEntityId> {
     phone: string;
     serviceType: string;
     description: string;
+    serviceAddress?: string;
     photoAttachments?: string[];
     metadata?: Partial<QuoteMetadata>;
   }): Quote {
     // Domain validation
     this.validateCustomerName(props.customerName);
     this.validateDescription(props.description);
+    if (props.serviceAddress?.trim()) {
+      this.validateServiceAddress(props.serviceAddress);
+    }
 
     const email = Email.create(props.email);
     const phone = PhoneNumber.create(props.phone);
-    const serviceType = ServiceType.create(props.serviceType);
+    const serviceType = ServiceType.resolve(props.serviceType);
     
     const id = UniqueEntityId.create();
     const now = new Date();
@@ -84,9 +154,13 @@ export class Quote extends AggregateRoot<UniqueEntityId> {
       phone,
       serviceType,
       description: props.description.trim(),
+      serviceAddress: props.serviceAddress?.trim() || undefined,
       status: QuoteStatus.PENDING,
-      priority: QuotePriority.MEDIUM,
+      // Seasonal work is time-critical, so it starts on the tighter response target
+      priority: serviceType.category === ServiceCategory.SEASONAL ? QuotePriority.HIGH : QuotePriority.MEDIUM,
       photoAttachments: props.photoAttachments || [],
+      estimateRevisions: [],
+      expiryRemindersSent: [],
       submittedAt: now,
       updatedAt: now,
       metadata: {
@@ -112,6 +186,16 @@ export class Quote extends AggregateRoot<UniqueEntityId> {
     }
   }
 
+  // Same bounds as a contract address, so a quote that can be sent can also be converted
+  private static validateServiceAddress(address: string): void {
+    if (address.trim().length < 10) {
+      throw new DomainValidationError('serviceAddress', 'Must be at least 10 characters');
+    }
+    if (address.trim().length > 500) {
+      throw new DomainValidationError('serviceAddress', 'Must not exceed 500 characters');
+    }
+  }
+
   private static validateDescription(description: string): void {
     if (!description || description.trim().length < 10) {
       throw new DomainValidationError('description', 'Must be at least 10 characters');
@@ -127,33 +211,85 @@ export class Quote extends AggregateRoot<UniqueEntityId> {
       throw new BusinessRuleViolationError('Quote must be pending to move to review');
     }
     
-    this.props.status = QuoteStatus.UNDER_REVIEW;
+    this.transitionTo(QuoteStatus.UNDER_REVIEW);
     this.props.updatedAt = new Date();
     this.addDomainEvent(new QuoteMovedToReviewEvent(this));
   }
 
-  sendQuote(estimatedValue: number): void {
-    if (this.props.status !== QuoteStatus.UNDER_REVIEW) {
+  reviseEstimate(estimate: Estimate, options: { revisedBy?: string; notes?: string } = {}): EstimateRevision {
+    if (![QuoteStatus.UNDER_REVIEW, QuoteStatus.QUOTE_SENT].includes(this.props.status)) {
+      throw new BusinessRuleViolationError('Quote must be under review or sent to revise its estimate');
+    }
+
+    const revision: EstimateRevision = {
+      version: this.props.estimateRevisions.length + 1,
+      estimate,
+      createdAt: new Date(),
+      createdBy: options.revisedBy,
+      notes: options.notes
+    };
+
+    this.props.estimateRevisions.push(revision);
+    this.props.updatedAt = revision.createdAt;
+    this.addDomainEvent(new QuoteEstimateRevisedEvent(this, revision));
+    return revision;
+  }
+
+  // Sends the latest estimate revision; a number or Estimate passed in is recorded as a new revision first
+  sendQuote(
+    estimate?: Estimate | number,
+    options: { sentBy?: string; notes?: string; serviceAddress?: string } = {}
+  ): void {
+    if (![QuoteStatus.UNDER_REVIEW, QuoteStatus.QUOTE_SENT].includes(this.props.status)) {
       throw new BusinessRuleViolationError('Quote must be under review to send quote');
     }
+
+    // Acceptance turns the quote into a contract for this address, so it has to be known up front
+    const serviceAddress = options.serviceAddress?.trim() || this.props.serviceAddress;
+    if (!serviceAddress) {
+      throw new BusinessRuleViolationError('Quote needs a service address before it can be sent');
+    }
+    Quote.validateServiceAddress(serviceAddress);
     
-    if (estimatedValue <= 0) {
-      throw new DomainValidationError('estimatedValue', 'Must be greater than 0');
+    if (typeof estimate === 'number') {
+      if (estimate <= 0) {
+        throw new DomainValidationError('estimatedValue', 'Must be greater than 0');
+      }
+      estimate = Estimate.fromLumpSum(estimate);
+    }
+
+    if (estimate) {
+      this.reviseEstimate(estimate, { revisedBy: options.sentBy, notes: options.notes });
+    }
+
+    const revision = this.currentEstimate;
+    if (!revision) {
+      throw new BusinessRuleViolationError('Quote needs an estimate before it can be sent');
+    }
+
+    if (this.props.status === QuoteStatus.QUOTE_SENT && revision.version === this.props.sentRevision) {
+      throw new BusinessRuleViolationError('Latest estimate revision has already been sent');
     }
 
     const now = new Date();
-    const expiresAt = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000); // 30 days
+    const expiresAt = new Date(now.getTime() + 30 * DAY_MS); // 30 days
+    const estimatedValue = revision.estimate.total;
 
-    this.props.status = QuoteStatus.QUOTE_SENT;
+    this.transitionTo(QuoteStatus.QUOTE_SENT);
+    this.props.serviceAddress = serviceAddress;
     this.props.estimatedValue = estimatedValue;
+    this.props.sentRevision = revision.version;
     this.props.quoteSentAt = now;
     this.props.expiresAt = expiresAt;
+    this.props.expiryRemindersSent = []; // A new expiry date starts a new reminder cycle
     this.props.updatedAt = now;
+    this.props.updatedBy = options.sentBy || this.props.updatedBy;
     
-    this.addDomainEvent(new QuoteSentEvent(this, estimatedValue));
+    this.addDomainEvent(new QuoteSentEvent(this, estimatedValue, revision));
   }
 
-  accept(): void {
+  // Checks acceptance without changing the quote, so work that depends on it can be done first
+  assertCanBeAccepted(): void {
     if (this.props.status !== QuoteStatus.QUOTE_SENT) {
       throw new BusinessRuleViolationError('Quote must be sent to be accepted');
     }
@@ -162,21 +298,287 @@ export class Quote extends AggregateRoot<UniqueEntityId> {
       throw new BusinessRuleViolationError('Cannot accept expired quote');
     }
 
-    this.props.status = QuoteStatus.ACCEPTED;
+    // Quotes sent before an address was required have to be re-sent with one
+    if (!this.props.serviceAddress) {
+      throw new BusinessRuleViolationError('Quote needs a service address before it can be accepted');
+    }
+  }
+
+  accept(signature?: QuoteSignature): void {
+    this.assertCanBeAccepted();
+
+    if (signature) {
+      this.recordCustomerResponse('accepted', signature);
+    }
+
+    this.transitionTo(QuoteStatus.ACCEPTED);
     this.props.updatedAt = new Date();
     this.addDomainEvent(new QuoteAcceptedEvent(this));
   }
 
-  reject(): void {
-    if (![QuoteStatus.PENDING, QuoteStatus.UNDER_REVIEW, QuoteStatus.QUOTE_SENT].includes(this.props.status)) {
+  reject(signature?: QuoteSignature): void {
+    if (!canTransitionQuoteStatus(this.props.status, QuoteStatus.REJECTED)) {
       throw new BusinessRuleViolationError('Cannot reject quote in current status');
     }
 
-    this.props.status = QuoteStatus.REJECTED;
+    // Customers can only decline a quote they were actually sent, while it is still open
+    if (signature) {
+      if (this.props.status !== QuoteStatus.QUOTE_SENT) {
+        throw new BusinessRuleViolationError('Quote must be sent to be declined by the customer');
+      }
+      if (this.isExpired()) {
+        throw new BusinessRuleViolationError('Cannot decline expired quote');
+      }
+      this.recordCustomerResponse('rejected', signature);
+    }
+
+    this.transitionTo(QuoteStatus.REJECTED);
     this.props.updatedAt = new Date();
     this.addDomainEvent(new QuoteRejectedEvent(this));
   }
 
+  private recordCustomerResponse(decision: QuoteCustomerResponse['decision'], signature: QuoteSignature): void {
+    if (signature.revision !== this.props.sentRevision) {
+      throw new BusinessRuleViolationError('Quote has been revised since this version was sent', `revision ${signature.revision}`);
+    }
+
+    const signedName = signature.signedName?.trim() || '';
+    if (signedName.length < 2) {
+      throw new DomainValidationError('signedName', 'Type your full name to sign');
+    }
+    if (signedName.length > 100) {
+      throw new DomainValidationError('signedName', 'Must not exceed 100 characters');
+    }
+
+    this.props.customerResponse = {
+      decision,
+      signedName,
+      ipAddress: signature.ipAddress,
+      userAgent: signature.userAgent,
+      respondedAt: signature.signedAt || new Date(),
+      revision: signature.revision,
+      reason: signature.reason?.trim() || undefined
+    };
+  }
+
+  expire(): void {
+    if (this.props.status !== QuoteStatus.QUOTE_SENT) {
+      throw new BusinessRuleViolationError('Only sent quotes can expire');
+    }
+
+    if (!this.isExpired()) {
+      throw new BusinessRuleViolationError('Quote has not reached its expiry date');
+    }
+
+    this.transitionTo(QuoteStatus.EXPIRED);
+    this.props.updatedAt = new Date();
+    this.addDomainEvent(new QuoteExpiredEvent(this));
+  }
+
+  // Declined and expired quotes can go back to review for a fresh estimate
+  reopen(): void {
+    if (![QuoteStatus.REJECTED, QuoteStatus.EXPIRED].includes(this.props.status)) {
+      throw new BusinessRuleViolationError('Only declined or expired quotes can be reopened');
+    }
+
+    this.transitionTo(QuoteStatus.UNDER_REVIEW);
+    this.props.updatedAt = new Date();
+    this.addDomainEvent(new QuoteMovedToReviewEvent(this));
+  }
+
+  // Most urgent reminder offset that has come due; offsets already covered by a closer reminder are skipped
+  dueExpiryReminder(offsetsInDays: number[]): number | undefined {
+    if (this.props.status !== QuoteStatus.QUOTE_SENT || !this.props.expiresAt || this.isExpired()) {
+      return undefined;
+    }
+
+    const daysRemaining = (this.props.expiresAt.getTime() - Date.now()) / DAY_MS;
+    const due = offsetsInDays
+      .filter(offset => daysRemaining <= offset)
+      .filter(offset => !this.props.expiryRemindersSent.some(sent => sent <= offset));
+
+    return due.length > 0 ? Math.min(...due) : undefined;
+  }
+
+  recordExpiryReminder(daysBefore: number): void {
+    if (this.props.status !== QuoteStatus.QUOTE_SENT) {
+      throw new BusinessRuleViolationError('Reminders are only sent for open quotes');
+    }
+
+    if (this.isExpired()) {
+      throw new BusinessRuleViolationError('Cannot send a reminder for an expired quote');
+    }
+
+    if (this.props.expiryRemindersSent.includes(daysBefore)) {
+      throw new BusinessRuleViolationError('Expiry reminder already sent', `${daysBefore} days before expiry`);
+    }
+
+    this.props.expiryRemindersSent.push(daysBefore);
+    this.props.updatedAt = new Date();
+    this.addDomainEvent(new QuoteExpiryReminderEvent(this, daysBefore));
+  }
+
+  assignTo(assignee: string, assignedBy?: string): void {
+    if (!assignee || !assignee.trim()) {
+      throw new DomainValidationError('assignedTo', 'Assignee is required');
+    }
+
+    const previousAssignee = this.props.assignedTo;
+    if (previousAssignee === assignee.trim()) {
+      return;
+    }
+
+    this.props.assignedTo = assignee.trim();
+    this.props.updatedAt = new Date();
+    this.props.updatedBy = assignedBy || this.props.updatedBy;
+    this.addDomainEvent(new QuoteAssignedEvent(this, this.props.assignedTo, previousAssignee));
+  }
+
+  // Internal staff notes; never shown to the customer
+  annotate(notes: string, annotatedBy?: string): void {
+    if (notes && notes.length > 5000) {
+      throw new DomainValidationError('adminNotes', 'Must not exceed 5000 characters');
+    }
+
+    this.props.adminNotes = notes?.trim() || undefined;
+    this.props.updatedAt = new Date();
+    this.props.updatedBy = annotatedBy || this.props.updatedBy;
+  }
+
+  linkContract(contractId: string): void {
+    if (this.props.status !== QuoteStatus.ACCEPTED) {
+      throw new BusinessRuleViolationError('Quote must be accepted to be linked to a contract');
+    }
+
+    if (this.props.contractId) {
+      throw new BusinessRuleViolationError(
+        'Quote is already linked to a contract',
+        this.props.contractId
+      );
+    }
+
+    this.props.contractId = contractId.toUpperCase();
+    this.props.updatedAt = new Date();
+  }
+
+  // Asking again before it is paid replaces the amount
+  requestDeposit(amount: number, requestedBy: string): void {
+    if (this.props.status !== QuoteStatus.ACCEPTED) {
+      throw new BusinessRuleViolationError('Quote must be accepted before a deposit is requested');
+    }
+    if (this.props.deposit && this.props.deposit.status !== QuoteDepositStatus.REQUESTED) {
+      throw new BusinessRuleViolationError('Deposit has already been paid', this.props.deposit.status);
+    }
+    const rounded = Math.round(amount * 100) / 100;
+    if (!Number.isFinite(rounded) || rounded <= 0) {
+      throw new DomainValidationError('amount', 'Deposit must be greater than 0');
+    }
+    if (this.props.estimatedValue !== undefined && rounded > this.props.estimatedValue) {
+      throw new DomainValidationError('amount', 'Deposit cannot exceed the quoted total');
+    }
+
+    const now = new Date();
+    this.props.deposit = {
+      amount: rounded,
+      status: QuoteDepositStatus.REQUESTED,
+      requestedBy,
+      requestedAt: now
+    };
+    this.props.updatedAt = now;
+    this.props.updatedBy = requestedBy;
+  }
+
+  markDepositPaid(paymentReference: string, amount: number, paidAt: Date = new Date()): void {
+    if (!this.props.deposit || this.props.deposit.status !== QuoteDepositStatus.REQUESTED) {
+      throw new BusinessRuleViolationError('No deposit is waiting for payment on this quote');
+    }
+    if (Math.round(amount * 100) !== Math.round(this.props.deposit.amount * 100)) {
+      throw new BusinessRuleViolationError(
+        'Payment does not match the requested deposit',
+        `Expected ${this.props.deposit.amount.toFixed(2)}, received ${amount.toFixed(2)}`
+      );
+    }
+
+    this.props.deposit = {
+      ...this.props.deposit,
+      status: QuoteDepositStatus.PAID,
+      paymentReference,
+      paidAt
+    };
+    this.props.updatedAt = paidAt;
+    this.addDomainEvent(new QuoteDepositPaidEvent(this));
+  }
+
+  markDepositRefunded(refundedAt: Date = new Date()): void {
+    if (!this.props.deposit || this.props.deposit.status !== QuoteDepositStatus.PAID) {
+      throw new BusinessRuleViolationError('Only a paid deposit can be refunded');
+    }
+
+    this.props.deposit = {
+      ...this.props.deposit,
+      status: QuoteDepositStatus.REFUNDED,
+      refundedAt
+    };
+    this.props.updatedAt = refundedAt;
+  }
+
+  flagPossibleDuplicate(originalQuoteId: string): void {
+    if (originalQuoteId === this.id.toString()) {
+      throw new DomainValidationError('possibleDuplicateOf', 'A quote cannot duplicate itself');
+    }
+
+    this.props.possibleDuplicateOf = originalQuoteId;
+  }
+
+  linkCustomerHistory(history: QuoteCustomerHistory): void {
+    this.props.customerHistory = {
+      previousQuoteIds: history.previousQuoteIds.filter(id => id !== this.id.toString()),
+      contractIds: [...history.contractIds]
+    };
+  }
+
+  // Staff confirmed the quote is a separate request after all
+  dismissDuplicateFlag(dismissedBy?: string): void {
+    if (!this.props.possibleDuplicateOf) {
+      throw new BusinessRuleViolationError('Quote is not flagged as a possible duplicate');
+    }
+
+    this.props.possibleDuplicateOf = undefined;
+    this.props.updatedAt = new Date();
+    this.props.updatedBy = dismissedBy || this.props.updatedBy;
+  }
+
+  // Folds a duplicate submission into this quote; the caller removes the duplicate afterwards
+  absorbDuplicate(duplicate: Quote, mergedBy?: string): void {
+    if (duplicate.id.toString() === this.id.toString()) {
+      throw new BusinessRuleViolationError('A quote cannot be merged into itself');
+    }
+    if (CLOSED_STATUSES.includes(this.props.status)) {
+      throw new BusinessRuleViolationError('Duplicates can only be merged into an open quote', this.props.status);
+    }
+    if (![QuoteStatus.PENDING, QuoteStatus.UNDER_REVIEW].includes(duplicate.status)) {
+      throw new BusinessRuleViolationError('Quotes that were already sent cannot be merged away', duplicate.status);
+    }
+
+    const photoAttachments = Array.from(new Set([...this.props.photoAttachments, ...duplicate.photoAttachments]));
+    if (photoAttachments.length > 10) {
+      throw new BusinessRuleViolationError('Maximum 10 photo attachments allowed');
+    }
+
+    const mergedNote = [
+      `Merged duplicate request ${duplicate.id.toString()} submitted ${duplicate.submittedAt.toISOString()}:`,
+      duplicate.description,
+      duplicate.adminNotes
+    ].filter(Boolean).join('\n');
+
+    this.props.photoAttachments = photoAttachments;
+    this.props.serviceAddress = this.props.serviceAddress || duplicate.serviceAddress;
+    this.props.adminNotes = [this.props.adminNotes, mergedNote].filter(Boolean).join('\n\n').slice(0, 5000);
+    this.props.updatedAt = new Date();
+    this.props.updatedBy = mergedBy || this.props.updatedBy;
+    this.addDomainEvent(new QuoteMergedEvent(this, duplicate.id.toString()));
+  }
+
   setPriority(priority: QuotePriority): void {
     this.props.priority = priority;
     this.props.updatedAt = new Date();
@@ -191,24 +593,63 @@ export class Quote extends AggregateRoot<UniqueEntityId> {
     this.props.updatedAt = new Date();
   }
 
+  private transitionTo(status: QuoteStatus): void {
+    assertQuoteStatusTransition(this.props.status, status);
+    if (this.props.status === QuoteStatus.PENDING && !this.props.firstRespondedAt) {
+      this.props.firstRespondedAt = new Date();
+    }
+    this.props.status = status;
+  }
+
   isExpired(): boolean {
     return this.props.expiresAt ? new Date() > this.props.expiresAt : false;
   }
 
+  // Only pending quotes can miss the first-response target; any staff action answers it
+  isFirstResponseOverdue(now: Date = new Date()): boolean {
+    return this.props.status === QuoteStatus.PENDING && now > this.firstResponseDueAt;
+  }
+
   // Getters
   get customerName(): string { return this.props.customerName; }
   get email(): Email { return this.props.email; }
   get phone(): PhoneNumber { return this.props.phone; }
   get serviceType(): ServiceType { return this.props.serviceType; }
   get description(): string { return this.props.description; }
+  get serviceAddress(): string | undefined { return this.props.serviceAddress; }
   get status(): QuoteStatus { return this.props.status; }
   get priority(): QuotePriority { return this.props.priority; }
   get photoAttachments(): ReadonlyArray<string> { return this.props.photoAttachments; }
   get submittedAt(): Date { return this.props.submittedAt; }
   get updatedAt(): Date { return this.props.updatedAt; }
+  get firstRespondedAt(): Date | undefined { return this.props.firstRespondedAt; }
+  get firstResponseDueAt(): Date {
+    return new Date(this.props.submittedAt.getTime() + FIRST_RESPONSE_SLA_HOURS[this.props.priority] * 60 * 60 * 1000);
+  }
   get estimatedValue(): number | undefined { return this.props.estimatedValue; }
+  get estimateRevisions(): ReadonlyArray<EstimateRevision> { return this.props.estimateRevisions; }
+  get currentEstimate(): EstimateRevision | undefined {
+    return this.props.estimateRevisions[this.props.estimateRevisions.length - 1];
+  }
+  get sentEstimate(): EstimateRevision | undefined {
+    return this.props.estimateRevisions.find(revision => revision.version === this.props.sentRevision);
+  }
   get quoteSentAt(): Date | undefined { return this.props.quoteSentAt; }
   get expiresAt(): Date | undefined { return this.props.expiresAt; }
+  get contractId(): string | undefined { return this.props.contractId; }
+  get customerResponse(): QuoteCustomerResponse | undefined { return this.props.customerResponse; }
+  get sentRevision(): number | undefined { return this.props.sentRevision; }
+  get assignedTo(): string | undefined { return this.props.assignedTo; }
+  get adminNotes(): string | undefined { return this.props.adminNotes; }
+  get possibleDuplicateOf(): string | undefined { return this.props.possibleDuplicateOf; }
+  get customerHistory(): QuoteCustomerHistory | undefined { return this.props.customerHistory; }
+  get deposit(): QuoteDeposit | undefined { return this.props.deposit ? { ...this.props.deposit } : undefined; }
+  get isRepeatCustomer(): boolean {
+    return !!this.props.customerHistory &&
+      (this.props.customerHistory.previousQuoteIds.length > 0 || this.props.customerHistory.contractIds.length > 0);
+  }
+  get updatedBy(): string | undefined { return this.props.updatedBy; }
+  get expiryRemindersSent(): ReadonlyArray<number> { return this.props.expiryRemindersSent; }
   get metadata(): QuoteMetadata { return this.props.metadata; }
 }
 
@@ -225,21 +666,71 @@ export class QuoteMovedToReviewEvent extends DomainEventBase {
   }
 }
 
+export class QuoteEstimateRevisedEvent extends DomainEventBase {
+  constructor(
+    public readonly quote: Quote,
+    public readonly revision: EstimateRevision
+  ) {
+    super();
+  }
+}
+
 export class QuoteSentEvent extends DomainEventBase {
   constructor(
     public readonly quote: Quote,
-    public readonly estimatedValue: number
+    public readonly estimatedValue: number,
+    public readonly revision: EstimateRevision
+  ) {
+    super();
+  }
+}
+
+export class QuoteAssignedEvent extends DomainEventBase {
+  constructor(
+    public readonly quote: Quote,
+    public readonly assignee: string,
+    public readonly previousAssignee?: string
+  ) {
+    super();
+  }
+}
+
+export class QuoteMergedEvent extends DomainEventBase {
+  constructor(
+    public readonly quote: Quote,
+    public readonly mergedQuoteId: string
   ) {
     super();
   }
 }
 
+export class QuoteExpiryReminderEvent extends DomainEventBase {
+  constructor(
+    public readonly quote: Quote,
+    public readonly daysBefore: number
+  ) {
+    super();
+  }
+}
+
+export class QuoteExpiredEvent extends DomainEventBase {
+  constructor(public readonly quote: Quote) {
+    super();
+  }
+}
+
 export class QuoteAcceptedEvent extends DomainEventBase {
   constructor(public readonly quote: Quote) {
     super();
   }
 }
 
+export class QuoteDepositPaidEvent extends DomainEventBase {
+  constructor(public readonly quote: Quote) {
+    super();
+  }
+}
+
 export class QuoteRejectedEvent extends DomainEventBase {
   constructor(public readonly quote: Quote) {
     super();
@@ -28,6 +28,8 @@ export interface QuoteQueryFilters {
   submittedAfter?: Date;
   submittedBefore?: Date;
   isExpired?: boolean;
+  assignedTo?: string;
+  isOverdue?: boolean; // Pending past its first-response target
   limit?: number;
   offset?: number;
   orderBy?: 'submittedAt' | 'updatedAt' | 'customerName';
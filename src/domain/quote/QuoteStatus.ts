@@ -0,0 +1,64 @@
+/**
+ * Quote Status - Canonical quote lifecycle
+ * Single state machine shared by the Quote aggregate, admin routes and persistence
+ */
+
+import { BusinessRuleViolationError, DomainValidationError } from '../shared/DomainError';
+
+export enum QuoteStatus {
+  PENDING = 'pending',
+  UNDER_REVIEW = 'under_review',
+  QUOTE_SENT = 'quote_sent',
+  ACCEPTED = 'accepted',
+  REJECTED = 'rejected',
+  EXPIRED = 'expired'
+}
+
+// Every allowed move; anything not listed here is rejected
+export const QUOTE_STATUS_TRANSITIONS: Readonly<Record<QuoteStatus, ReadonlyArray<QuoteStatus>>> = {
+  [QuoteStatus.PENDING]: [QuoteStatus.UNDER_REVIEW, QuoteStatus.REJECTED],
+  [QuoteStatus.UNDER_REVIEW]: [QuoteStatus.QUOTE_SENT, QuoteStatus.REJECTED],
+  [QuoteStatus.QUOTE_SENT]: [QuoteStatus.QUOTE_SENT, QuoteStatus.ACCEPTED, QuoteStatus.REJECTED, QuoteStatus.EXPIRED], // Re-sending a revision stays in QUOTE_SENT
+  [QuoteStatus.ACCEPTED]: [],
+  [QuoteStatus.REJECTED]: [QuoteStatus.UNDER_REVIEW],
+  [QuoteStatus.EXPIRED]: [QuoteStatus.UNDER_REVIEW]
+};
+
+// Values written by the old admin JSON store and the quote_requests table
+export const LEGACY_QUOTE_STATUS_MAP: Readonly<Record<string, QuoteStatus>> = {
+  review: QuoteStatus.UNDER_REVIEW,
+  reviewed: QuoteStatus.UNDER_REVIEW,
+  quoted: QuoteStatus.QUOTE_SENT,
+  declined: QuoteStatus.REJECTED,
+  completed: QuoteStatus.ACCEPTED // Completion is tracked on the project; the quote itself was accepted
+};
+
+export function isQuoteStatus(value: unknown): value is QuoteStatus {
+  return Object.values(QuoteStatus).includes(value as QuoteStatus);
+}
+
+// Accepts canonical and legacy values; throws for anything else
+export function normalizeQuoteStatus(value: string): QuoteStatus {
+  const normalized = value?.trim().toLowerCase();
+
+  if (isQuoteStatus(normalized)) {
+    return normalized;
+  }
+
+  const mapped = LEGACY_QUOTE_STATUS_MAP[normalized];
+  if (!mapped) {
+    throw new DomainValidationError('status', `Unknown quote status "${value}"`);
+  }
+
+  return mapped;
+}
+
+export function canTransitionQuoteStatus(from: QuoteStatus, to: QuoteStatus): boolean {
+  return QUOTE_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function assertQuoteStatusTransition(from: QuoteStatus, to: QuoteStatus): void {
+  if (!canTransitionQuoteStatus(from, to)) {
+    throw new BusinessRuleViolationError('Invalid quote status transition', `${from} -> ${to}`);
+  }
+}
\ No newline at end of file
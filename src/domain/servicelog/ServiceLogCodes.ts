@@ -0,0 +1,64 @@
+/**
+ * Service Log Codes - Field service legend and billing arithmetic
+ * Shared by the ServiceLogEntry aggregate and the crew entry form so previews match stored totals
+ */
+
+// Service Type Legend (A-U) printed on the paper crew logs
+export const SERVICE_LOG_CODES = {
+  'A': 'Snow Plowing - Parking Lots',
+  'B': 'Snow Plowing - Driveways',
+  'C': 'Snow Plowing - Sidewalks',
+  'D': 'Ice Control - Rock Salt',
+  'E': 'Ice Control - Liquid Deicer',
+  'F': 'Ice Control - Ice Melt',
+  'G': 'Ice Control - Sand/Salt Mix',
+  'H': 'Snow Removal - Loading',
+  'I': 'Snow Removal - Hauling',
+  'J': 'Snow Removal - Disposal',
+  'K': 'Sidewalk Clearing - Shovel',
+  'L': 'Sidewalk Clearing - Blower',
+  'M': 'Roof Snow Removal',
+  'N': 'Ice Dam Prevention',
+  'O': 'Emergency Services',
+  'P': 'Equipment Maintenance',
+  'Q': 'Site Inspection',
+  'R': 'Weather Monitoring',
+  'S': 'Site Preparation',
+  'T': 'Cleanup Services',
+  'U': 'Other Services'
+} as const;
+
+export type ServiceLogCode = keyof typeof SERVICE_LOG_CODES;
+
+export interface ServiceLogCrewLine {
+  type: string;
+  count: number;
+  hourlyRate: number;
+}
+
+export function isServiceLogCode(value: unknown): value is ServiceLogCode {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SERVICE_LOG_CODES, value);
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Overnight shifts are common during storms, so a time out before the time in runs past midnight
+export function calculateServiceLogHours(timeIn: string, timeOut: string): number {
+  if (!timeIn || !timeOut) return 0;
+
+  const minutes = (toMinutes(timeOut) - toMinutes(timeIn) + 24 * 60) % (24 * 60);
+  return Math.round((minutes / 60) * 100) / 100;
+}
+
+// Contract rate plus crew labour for the hours on site
+export function calculateServiceLogPayable(
+  contractRate: number,
+  crew: ReadonlyArray<ServiceLogCrewLine>,
+  hours: number
+): number {
+  const labour = crew.reduce((total, line) => total + line.count * (line.hourlyRate || 0) * hours, 0);
+  return Math.round((contractRate + labour) * 100) / 100;
+}
\ No newline at end of file
@@ -0,0 +1,359 @@
+/**
+ * Service Log Entry Aggregate Root - Crew service records
+ * What a crew did at a property, submitted from the field and approved by a supervisor before billing
+ */
+
+import { AggregateRoot } from '../shared/AggregateRoot';
+import { UniqueEntityId } from '../shared/UniqueEntityId';
+import { DomainEventBase } from '../shared/Entity';
+import { BusinessRuleViolationError, DomainValidationError } from '../shared/DomainError';
+import {
+  ServiceLogCode,
+  ServiceLogCrewLine,
+  isServiceLogCode,
+  calculateServiceLogHours,
+  calculateServiceLogPayable
+} from './ServiceLogCodes';
+
+export enum ServiceLogStatus {
+  SUBMITTED = 'submitted',
+  APPROVED = 'approved',
+  REJECTED = 'rejected'
+}
+
+export interface ServiceLogMaterials {
+  iceMeltBags: number;
+  deicerGallons: number;
+  iceSlicerTons: number;
+}
+
+export interface ServiceLogDetails {
+  serviceDate: Date;
+  propertyCode: string;
+  description: string;
+  locationDescription: string;
+  serviceCode: string;
+  timeIn: string; // HH:MM, local to the property
+  timeOut: string;
+  crew: ServiceLogCrewLine[];
+  contractRate: number;
+  materials: ServiceLogMaterials;
+}
+
+export interface ServiceLogReview {
+  id: string;
+  decision: ServiceLogStatus.APPROVED | ServiceLogStatus.REJECTED;
+  reviewedBy: string;
+  comment?: string;
+  reviewedAt: Date;
+}
+
+// Site photos are kept in file storage; the entry holds the reference
+export interface ServiceLogPhoto {
+  fileId: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  uploadedBy: string;
+  uploadedAt: Date;
+}
+
+export interface ServiceLogEntryProps extends ServiceLogDetails {
+  serviceCode: ServiceLogCode;
+  status: ServiceLogStatus;
+  submittedBy: string;
+  reviews: ServiceLogReview[]; // Every approval or rejection, oldest first
+  photos: ServiceLogPhoto[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ServiceLogSummary {
+  entries: number;
+  approved: number;
+  pending: number;
+  approvedHours: number;
+  approvedPayable: number;
+  materials: ServiceLogMaterials; // Approved entries only
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+export const MAX_SERVICE_LOG_PHOTOS = 10;
+
+export class ServiceLogEntry extends AggregateRoot<UniqueEntityId> {
+  private constructor(id: UniqueEntityId, private props: ServiceLogEntryProps) {
+    super(id);
+  }
+
+  static create(props: ServiceLogDetails & { submittedBy: string }): ServiceLogEntry {
+    if (!props.submittedBy || !props.submittedBy.trim()) {
+      throw new DomainValidationError('submittedBy', 'Submitting employee is required');
+    }
+
+    const id = UniqueEntityId.create();
+    const now = new Date();
+
+    const entry = new ServiceLogEntry(id, {
+      ...this.validateDetails(props),
+      status: ServiceLogStatus.SUBMITTED,
+      submittedBy: props.submittedBy.trim(),
+      reviews: [],
+      photos: [],
+      createdAt: now,
+      updatedAt: now
+    });
+
+    entry.addDomainEvent(new ServiceLogSubmittedEvent(entry));
+    return entry;
+  }
+
+  static reconstitute(id: UniqueEntityId, props: ServiceLogEntryProps): ServiceLogEntry {
+    return new ServiceLogEntry(id, props);
+  }
+
+  private static validateDetails(details: ServiceLogDetails): ServiceLogDetails & { serviceCode: ServiceLogCode } {
+    if (!(details.serviceDate instanceof Date) || isNaN(details.serviceDate.getTime())) {
+      throw new DomainValidationError('serviceDate', 'Must be a valid date');
+    }
+
+    this.validateRequired('propertyCode', details.propertyCode, 2, 50);
+    this.validateRequired('description', details.description, 2, 255);
+    this.validateRequired('locationDescription', details.locationDescription, 2, 1000);
+
+    const serviceCode = details.serviceCode?.trim().toUpperCase();
+    if (!isServiceLogCode(serviceCode)) {
+      throw new DomainValidationError('serviceCode', 'Must be a service letter from A to U');
+    }
+
+    if (!TIME_PATTERN.test(details.timeIn || '')) {
+      throw new DomainValidationError('timeIn', 'Must be a time in HH:MM format');
+    }
+    if (!TIME_PATTERN.test(details.timeOut || '')) {
+      throw new DomainValidationError('timeOut', 'Must be a time in HH:MM format');
+    }
+    if (details.timeIn === details.timeOut) {
+      throw new DomainValidationError('timeOut', 'Must differ from time in');
+    }
+
+    if (!Array.isArray(details.crew) || details.crew.length === 0) {
+      throw new DomainValidationError('crew', 'At least one crew line is required');
+    }
+    const crew = details.crew.map((line, index) => {
+      if (!line.type || !line.type.trim()) {
+        throw new DomainValidationError(`crew[${index}].type`, 'Worker type is required');
+      }
+      if (!Number.isInteger(line.count) || line.count < 1 || line.count > 100) {
+        throw new DomainValidationError(`crew[${index}].count`, 'Must be a whole number between 1 and 100');
+      }
+      this.validateAmount(`crew[${index}].hourlyRate`, line.hourlyRate ?? 0);
+      return { type: line.type.trim(), count: line.count, hourlyRate: line.hourlyRate ?? 0 };
+    });
+
+    this.validateAmount('contractRate', details.contractRate);
+    this.validateAmount('materials.iceMeltBags', details.materials?.iceMeltBags ?? 0);
+    this.validateAmount('materials.deicerGallons', details.materials?.deicerGallons ?? 0);
+    this.validateAmount('materials.iceSlicerTons', details.materials?.iceSlicerTons ?? 0);
+
+    return {
+      serviceDate: details.serviceDate,
+      propertyCode: details.propertyCode.trim().toUpperCase(),
+      description: details.description.trim(),
+      locationDescription: details.locationDescription.trim(),
+      serviceCode,
+      timeIn: details.timeIn,
+      timeOut: details.timeOut,
+      crew,
+      contractRate: details.contractRate,
+      materials: {
+        iceMeltBags: details.materials?.iceMeltBags ?? 0,
+        deicerGallons: details.materials?.deicerGallons ?? 0,
+        iceSlicerTons: details.materials?.iceSlicerTons ?? 0
+      }
+    };
+  }
+
+  private static validateRequired(field: string, value: string, min: number, max: number): void {
+    if (!value || value.trim().length < min) {
+      throw new DomainValidationError(field, `Must be at least ${min} characters`);
+    }
+    if (value.trim().length > max) {
+      throw new DomainValidationError(field, `Must not exceed ${max} characters`);
+    }
+  }
+
+  private static validateAmount(field: string, value: number): void {
+    if (!Number.isFinite(value) || value < 0) {
+      throw new DomainValidationError(field, 'Must be zero or a positive number');
+    }
+  }
+
+  // Business Methods
+  // Corrections resubmit a rejected entry for review
+  revise(details: ServiceLogDetails, revisedBy: string): void {
+    this.ensureEditableBy(revisedBy);
+
+    const now = new Date();
+    this.props = {
+      ...this.props,
+      ...ServiceLogEntry.validateDetails(details),
+      status: ServiceLogStatus.SUBMITTED,
+      updatedAt: now
+    };
+
+    this.addDomainEvent(new ServiceLogSubmittedEvent(this));
+  }
+
+  // Photos are evidence for the customer, so they follow the same lock as the rest of the entry
+  attachPhoto(photo: Omit<ServiceLogPhoto, 'uploadedBy' | 'uploadedAt'>, uploadedBy: string): ServiceLogPhoto {
+    this.ensureEditableBy(uploadedBy);
+    if (this.props.photos.length >= MAX_SERVICE_LOG_PHOTOS) {
+      throw new BusinessRuleViolationError('Too many photos', `At most ${MAX_SERVICE_LOG_PHOTOS} photos per entry`);
+    }
+    if (!photo.contentType.startsWith('image/')) {
+      throw new DomainValidationError('photo', 'Must be an image');
+    }
+
+    const now = new Date();
+    const attached: ServiceLogPhoto = { ...photo, uploadedBy, uploadedAt: now };
+    this.props.photos.push(attached);
+    this.props.updatedAt = now;
+    return attached;
+  }
+
+  removePhoto(fileId: string, removedBy: string): void {
+    this.ensureEditableBy(removedBy);
+    if (!this.findPhoto(fileId)) {
+      throw new BusinessRuleViolationError('Photo not found on this entry', fileId);
+    }
+    this.props.photos = this.props.photos.filter(photo => photo.fileId !== fileId);
+    this.props.updatedAt = new Date();
+  }
+
+  findPhoto(fileId: string): ServiceLogPhoto | undefined {
+    return this.props.photos.find(photo => photo.fileId === fileId);
+  }
+
+  approve(reviewedBy: string, comment?: string): void {
+    this.review(ServiceLogStatus.APPROVED, reviewedBy, comment);
+    this.addDomainEvent(new ServiceLogApprovedEvent(this, reviewedBy));
+  }
+
+  reject(reviewedBy: string, comment: string): void {
+    if (!comment || !comment.trim()) {
+      throw new DomainValidationError('comment', 'A comment is required to reject an entry');
+    }
+
+    this.review(ServiceLogStatus.REJECTED, reviewedBy, comment);
+    this.addDomainEvent(new ServiceLogRejectedEvent(this, reviewedBy, comment.trim()));
+  }
+
+  // Approved entries are billed, so only the submitter may change or remove one before approval
+  ensureEditableBy(employee: string): void {
+    if (this.props.submittedBy !== employee) {
+      throw new BusinessRuleViolationError('Only the submitting employee can change this service log entry');
+    }
+    if (this.props.status === ServiceLogStatus.APPROVED) {
+      throw new BusinessRuleViolationError('Approved service log entries are locked');
+    }
+  }
+
+  isLocked(): boolean {
+    return this.props.status === ServiceLogStatus.APPROVED;
+  }
+
+  ensureReviewableBy(reviewedBy: string): void {
+    if (this.props.status !== ServiceLogStatus.SUBMITTED) {
+      throw new BusinessRuleViolationError('Only submitted service log entries can be reviewed', this.props.status);
+    }
+    if (reviewedBy === this.props.submittedBy) {
+      throw new BusinessRuleViolationError('Service log entries cannot be reviewed by the employee who submitted them');
+    }
+  }
+
+  private review(decision: ServiceLogReview['decision'], reviewedBy: string, comment?: string): void {
+    this.ensureReviewableBy(reviewedBy);
+
+    const now = new Date();
+    this.props.reviews.push({
+      id: UniqueEntityId.create().toString(),
+      decision,
+      reviewedBy,
+      comment: comment?.trim() || undefined,
+      reviewedAt: now
+    });
+    this.props.status = decision;
+    this.props.updatedAt = now;
+  }
+
+  // Getters
+  get serviceDate(): Date { return this.props.serviceDate; }
+  get propertyCode(): string { return this.props.propertyCode; }
+  get description(): string { return this.props.description; }
+  get locationDescription(): string { return this.props.locationDescription; }
+  get serviceCode(): ServiceLogCode { return this.props.serviceCode; }
+  get timeIn(): string { return this.props.timeIn; }
+  get timeOut(): string { return this.props.timeOut; }
+  get crew(): ReadonlyArray<ServiceLogCrewLine> { return this.props.crew; }
+  get contractRate(): number { return this.props.contractRate; }
+  get materials(): ServiceLogMaterials { return { ...this.props.materials }; }
+  get status(): ServiceLogStatus { return this.props.status; }
+  get submittedBy(): string { return this.props.submittedBy; }
+  get reviews(): ReadonlyArray<ServiceLogReview> { return this.props.reviews; }
+  get photos(): ReadonlyArray<ServiceLogPhoto> { return this.props.photos; }
+  get latestReview(): ServiceLogReview | undefined { return this.props.reviews[this.props.reviews.length - 1]; }
+  get createdAt(): Date { return this.props.createdAt; }
+  get updatedAt(): Date { return this.props.updatedAt; }
+
+  get totalHours(): number {
+    return calculateServiceLogHours(this.props.timeIn, this.props.timeOut);
+  }
+
+  get totalPayable(): number {
+    return calculateServiceLogPayable(this.props.contractRate, this.props.crew, this.totalHours);
+  }
+}
+
+// Billing totals for a set of entries, typically one property's history
+export function summarizeServiceLogs(entries: ReadonlyArray<ServiceLogEntry>): ServiceLogSummary {
+  const approved = entries.filter(entry => entry.status === ServiceLogStatus.APPROVED);
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    entries: entries.length,
+    approved: approved.length,
+    pending: entries.filter(entry => entry.status === ServiceLogStatus.SUBMITTED).length,
+    approvedHours: round(approved.reduce((total, entry) => total + entry.totalHours, 0)),
+    approvedPayable: round(approved.reduce((total, entry) => total + entry.totalPayable, 0)),
+    materials: {
+      iceMeltBags: approved.reduce((total, entry) => total + entry.materials.iceMeltBags, 0),
+      deicerGallons: round(approved.reduce((total, entry) => total + entry.materials.deicerGallons, 0)),
+      iceSlicerTons: round(approved.reduce((total, entry) => total + entry.materials.iceSlicerTons, 0))
+    }
+  };
+}
+
+// Domain Events
+export class ServiceLogSubmittedEvent extends DomainEventBase {
+  constructor(public readonly entry: ServiceLogEntry) {
+    super();
+  }
+}
+
+export class ServiceLogApprovedEvent extends DomainEventBase {
+  constructor(
+    public readonly entry: ServiceLogEntry,
+    public readonly approvedBy: string
+  ) {
+    super();
+  }
+}
+
+export class ServiceLogRejectedEvent extends DomainEventBase {
+  constructor(
+    public readonly entry: ServiceLogEntry,
+    public readonly rejectedBy: string,
+    public readonly comment: string
+  ) {
+    super();
+  }
+}
\ No newline at end of file
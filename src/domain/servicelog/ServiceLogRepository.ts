@@ -0,0 +1,20 @@
+/**
+ * Service Log Repository Interface - Domain Layer
+ * Defines service log entry data access operations
+ */
+
+import { ServiceLogEntry, ServiceLogStatus } from './ServiceLogEntry';
+import { UniqueEntityId } from '../shared/UniqueEntityId';
+
+export interface ServiceLogRepository {
+  // Basic CRUD operations
+  save(entry: ServiceLogEntry): Promise<void>;
+  findById(id: UniqueEntityId): Promise<ServiceLogEntry | null>;
+  findAll(): Promise<ServiceLogEntry[]>; // Most recent service date first
+  delete(id: UniqueEntityId): Promise<void>;
+
+  // Query operations
+  findByStatus(status: ServiceLogStatus): Promise<ServiceLogEntry[]>;
+  findBySubmitter(employee: string): Promise<ServiceLogEntry[]>;
+  findByPropertyCode(propertyCode: string): Promise<ServiceLogEntry[]>;
+}
\ No newline at end of file
@@ -0,0 +1,11 @@
+/**
+ * Client Invitation Mailer Interface - Domain Service
+ * Delivers account setup and contract link emails to clients
+ */
+
+import { ClientInvitation } from '../clientaccount/ClientInvitation';
+
+export interface ClientInvitationMailer {
+  // The link carries the one-time token, which is never stored in the clear
+  sendInvitation(invitation: ClientInvitation, link: string): Promise<void>;
+}
\ No newline at end of file
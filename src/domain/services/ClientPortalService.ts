@@ -0,0 +1,173 @@
+/**
+ * Client Portal Service - Domain Service
+ * Works out which records a logged-in client may see and loads only those
+ *
+ * A client is linked to contracts by the email on the contract or a confirmed link on their account,
+ * and to projects through those contracts or an explicit assignment. Everything else hangs off those links.
+ * Co-worker members see the same contracts, projects and visits as the owner, but not invoices.
+ */
+
+import { Contract } from '../contract/Contract';
+import { ContractRepository } from '../contract/ContractRepository';
+import { Project } from '../project/Project';
+import { ProjectRepository } from '../project/ProjectRepository';
+import { Quote } from '../quote/Quote';
+import { QuoteRepository } from '../quote/QuoteRepository';
+import { ServiceLogEntry, ServiceLogStatus } from '../servicelog/ServiceLogEntry';
+import { ServiceLogRepository } from '../servicelog/ServiceLogRepository';
+import { Invoice, InvoiceStatus } from '../invoice/Invoice';
+import { InvoiceRepository } from '../invoice/InvoiceRepository';
+import { UniqueEntityId } from '../shared/UniqueEntityId';
+import { ClientAccessLevel } from '../clientaccount/ClientInvitation';
+
+export interface ClientIdentity {
+  email: string;
+  projectIds?: string[]; // Projects an admin assigned to the client account directly
+  contractIds?: string[]; // Contracts linked to the account beyond those under its own email
+  accessLevel?: ClientAccessLevel; // Co-worker members do not see billing
+}
+
+// Signed-in client accounts carry everything the portal scopes by
+export function toClientIdentity(user: {
+  email: string;
+  projectIds?: string[];
+  contractIds?: string[];
+  clientAccessLevel?: ClientAccessLevel;
+}): ClientIdentity {
+  return {
+    email: user.email,
+    projectIds: user.projectIds,
+    contractIds: user.contractIds,
+    accessLevel: user.clientAccessLevel
+  };
+}
+
+export interface ClientScope {
+  email: string;
+  contractIds: ReadonlySet<string>;
+  projectIds: ReadonlySet<string>;
+  propertyCodes: ReadonlySet<string>; // Contract ids plus project property codes, as used on service logs
+}
+
+export interface ClientPortalRecords {
+  scope: ClientScope;
+  contracts: Contract[];
+  projects: Project[];
+  quotes: Quote[];
+  serviceLogs: ServiceLogEntry[];
+  invoices: Invoice[];
+}
+
+const MAX_SERVICE_LOGS = 100;
+
+export class ClientPortalService {
+  constructor(
+    private readonly contractRepository: ContractRepository,
+    private readonly projectRepository: ProjectRepository,
+    private readonly quoteRepository: QuoteRepository,
+    private readonly serviceLogRepository: ServiceLogRepository,
+    private readonly invoiceRepository: InvoiceRepository
+  ) {}
+
+  async load(client: ClientIdentity): Promise<ClientPortalRecords> {
+    const { scope, contracts, projects } = await this.resolve(client);
+
+    const quotes = (await this.quoteRepository.findByEmail(scope.email))
+      .sort((a, b) => b.submittedAt.getTime() - a.submittedAt.getTime());
+
+    const serviceLogs: ServiceLogEntry[] = [];
+    for (const propertyCode of Array.from(scope.propertyCodes)) {
+      serviceLogs.push(...(await this.serviceLogRepository.findByPropertyCode(propertyCode)).filter(isVisibleServiceLog));
+    }
+    serviceLogs.sort((a, b) => b.serviceDate.getTime() - a.serviceDate.getTime());
+
+    const invoices: Invoice[] = [];
+    if (canViewBilling(client)) {
+      for (const contractId of Array.from(scope.contractIds)) {
+        invoices.push(...(await this.invoiceRepository.findByContractId(contractId)).filter(isVisibleInvoice));
+      }
+    }
+    invoices.sort((a, b) => (b.issuedAt?.getTime() || 0) - (a.issuedAt?.getTime() || 0));
+
+    return {
+      scope,
+      contracts,
+      projects,
+      quotes,
+      serviceLogs: dedupe(serviceLogs).slice(0, MAX_SERVICE_LOGS),
+      invoices
+    };
+  }
+
+  // Records outside the client's scope come back as null, the same as records that do not exist
+  async findServiceLog(client: ClientIdentity, entryId: string): Promise<ServiceLogEntry | null> {
+    if (!UniqueEntityId.isValid(entryId)) return null;
+    const entry = await this.serviceLogRepository.findById(UniqueEntityId.create(entryId));
+    if (!entry || !isVisibleServiceLog(entry)) return null;
+
+    const { scope } = await this.resolve(client);
+    return scope.propertyCodes.has(entry.propertyCode.toUpperCase()) ? entry : null;
+  }
+
+  async findInvoice(client: ClientIdentity, invoiceId: string): Promise<Invoice | null> {
+    if (!canViewBilling(client) || !UniqueEntityId.isValid(invoiceId)) return null;
+    const invoice = await this.invoiceRepository.findById(UniqueEntityId.create(invoiceId));
+    if (!invoice || !isVisibleInvoice(invoice)) return null;
+
+    const { scope } = await this.resolve(client);
+    return scope.contractIds.has(invoice.contractId.toUpperCase()) ? invoice : null;
+  }
+
+  private async resolve(client: ClientIdentity): Promise<{ scope: ClientScope; contracts: Contract[]; projects: Project[] }> {
+    const email = client.email.trim().toLowerCase();
+    const contracts = email ? await this.contractRepository.findByCustomerEmail(email) : [];
+    for (const contractId of client.contractIds || []) {
+      const contract = await this.contractRepository.findByContractId(contractId.toUpperCase());
+      if (contract) contracts.push(contract);
+    }
+    const uniqueContracts = dedupe(contracts);
+    const contractIds = new Set(uniqueContracts.map(contract => contract.contractId.toUpperCase()));
+
+    const projects: Project[] = [];
+    for (const contractId of Array.from(contractIds)) {
+      projects.push(...(await this.projectRepository.findByContractId(contractId)));
+    }
+    for (const projectId of client.projectIds || []) {
+      if (!UniqueEntityId.isValid(projectId)) continue;
+      const project = await this.projectRepository.findById(UniqueEntityId.create(projectId));
+      if (project) projects.push(project);
+    }
+    const uniqueProjects = dedupe(projects);
+
+    const propertyCodes = new Set(contractIds);
+    for (const project of uniqueProjects) {
+      if (project.propertyCode) propertyCodes.add(project.propertyCode.toUpperCase());
+    }
+
+    return {
+      scope: {
+        email,
+        contractIds,
+        projectIds: new Set(uniqueProjects.map(project => project.id.toString())),
+        propertyCodes
+      },
+      contracts: uniqueContracts,
+      projects: uniqueProjects
+    };
+  }
+}
+
+// Unapproved crew entries and unissued invoices are internal
+const isVisibleServiceLog = (entry: ServiceLogEntry): boolean => entry.status === ServiceLogStatus.APPROVED;
+const isVisibleInvoice = (invoice: Invoice): boolean => invoice.status !== InvoiceStatus.DRAFT;
+const canViewBilling = (client: ClientIdentity): boolean => client.accessLevel !== ClientAccessLevel.MEMBER;
+
+function dedupe<T extends { id: UniqueEntityId }>(items: T[]): T[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const id = item.id.toString();
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
\ No newline at end of file
@@ -0,0 +1,43 @@
+/**
+ * Contract Lookup Service - Domain Service
+ * Resolves a contract for a customer who can prove they own it
+ */
+
+import { Contract } from '../contract/Contract';
+import { ContractRepository } from '../contract/ContractRepository';
+import { DomainValidationError } from '../shared/DomainError';
+
+export interface ContractVerification {
+  email?: string;
+  phoneLastFour?: string;
+}
+
+export class ContractLookupService {
+  constructor(private readonly contractRepository: ContractRepository) {}
+
+  // Returns null for unknown IDs and failed verification alike so callers cannot tell them apart
+  async findVerifiedContract(contractId: string, verification: ContractVerification): Promise<Contract | null> {
+    this.validateVerification(verification);
+
+    if (!contractId || !contractId.trim()) {
+      throw new DomainValidationError('contractId', 'Contract ID is required');
+    }
+
+    const contract = await this.contractRepository.findByContractId(contractId);
+    if (!contract || !contract.matchesCustomer(verification)) {
+      return null;
+    }
+
+    return contract;
+  }
+
+  private validateVerification(verification: ContractVerification): void {
+    if (!verification.email?.trim() && !verification.phoneLastFour?.trim()) {
+      throw new DomainValidationError('verification', 'Provide the email or the last 4 digits of the phone on the contract');
+    }
+
+    if (!verification.email?.trim() && !/^\d{4}$/.test(verification.phoneLastFour!.trim())) {
+      throw new DomainValidationError('phoneLastFour', 'Must be exactly 4 digits');
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,14 @@
+/**
+ * Inventory Alert Notifier Interface - Domain Service
+ * Raises admin alerts for stock that needs reordering and equipment that needs servicing
+ */
+
+import { InventoryItem } from '../inventory/InventoryItem';
+import { Equipment } from '../inventory/Equipment';
+
+export interface InventoryAlertNotifier {
+  reorderNeeded(item: InventoryItem): Promise<void>;
+  // Clears the reorder alert once a restock or count lifts the item above its threshold
+  stockReplenished(item: InventoryItem): Promise<void>;
+  maintenanceDue(equipment: Equipment): Promise<void>;
+}
\ No newline at end of file
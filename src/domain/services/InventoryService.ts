@@ -0,0 +1,167 @@
+/**
+ * Inventory Service - Domain Service
+ * Keeps material stock in step with approved service logs and raises reorder alerts as stock runs low
+ */
+
+import {
+  InventoryItem,
+  InventoryItemDetails,
+  InventoryReorderThresholdReachedEvent,
+  SERVICE_LOG_MATERIALS,
+  ServiceLogMaterial
+} from '../inventory/InventoryItem';
+import { InventoryItemRepository } from '../inventory/InventoryItemRepository';
+import { ServiceLogEntry } from '../servicelog/ServiceLogEntry';
+import { UniqueEntityId } from '../shared/UniqueEntityId';
+import { BusinessRuleViolationError } from '../shared/DomainError';
+import { InventoryAlertNotifier } from './InventoryAlertNotifier';
+
+export interface ServiceLogDrawDown {
+  serviceLogId: string;
+  lines: Array<{ item: InventoryItem; quantity: number }>;
+}
+
+export class InventoryService {
+  constructor(
+    private readonly inventoryItemRepository: InventoryItemRepository,
+    private readonly alertNotifier: InventoryAlertNotifier
+  ) {}
+
+  async addItem(props: InventoryItemDetails & {
+    sku: string;
+    yard: string;
+    openingQuantity: number;
+    createdBy: string;
+  }): Promise<InventoryItem> {
+    const item = InventoryItem.create(props);
+
+    if (await this.inventoryItemRepository.findBySku(item.sku, item.yard)) {
+      throw new BusinessRuleViolationError('SKU is already stocked at this yard', `${item.sku} @ ${item.yard}`);
+    }
+    await this.ensureSingleMaterialSku(item.yard, item.material);
+
+    await this.saveAndNotify(item, false);
+    return item;
+  }
+
+  async updateItem(id: UniqueEntityId, details: InventoryItemDetails): Promise<InventoryItem> {
+    const item = await this.getItem(id);
+    const wasBelowThreshold = item.needsReorder();
+
+    // Checked first: repositories may hand back the stored instance, so a failed update must not touch it
+    await this.ensureSingleMaterialSku(item.yard, details.material, item);
+    item.updateDetails(details);
+
+    await this.saveAndNotify(item, wasBelowThreshold);
+    return item;
+  }
+
+  async restock(id: UniqueEntityId, quantity: number, recordedBy: string, note?: string): Promise<InventoryItem> {
+    const item = await this.getItem(id);
+    const wasBelowThreshold = item.needsReorder();
+
+    item.restock(quantity, recordedBy, note);
+
+    await this.saveAndNotify(item, wasBelowThreshold);
+    return item;
+  }
+
+  async recordStockCount(id: UniqueEntityId, counted: number, recordedBy: string, note?: string): Promise<InventoryItem> {
+    const item = await this.getItem(id);
+    const wasBelowThreshold = item.needsReorder();
+
+    item.recordStockCount(counted, recordedBy, note);
+
+    await this.saveAndNotify(item, wasBelowThreshold);
+    return item;
+  }
+
+  async listYards(): Promise<string[]> {
+    const items = await this.inventoryItemRepository.findAll();
+    return Array.from(new Set(items.map(item => item.yard))).sort();
+  }
+
+  // Worked out before the entry is approved so an ambiguous yard blocks the approval instead of skipping stock.
+  // Materials with no SKU linked to them are not tracked and are left out.
+  async planServiceLogDrawDown(entry: ServiceLogEntry, yard?: string): Promise<ServiceLogDrawDown> {
+    const normalizedYard = yard?.trim().toUpperCase() || undefined;
+    const materials = entry.materials;
+    const lines: ServiceLogDrawDown['lines'] = [];
+
+    for (const material of Object.keys(SERVICE_LOG_MATERIALS) as ServiceLogMaterial[]) {
+      const quantity = materials[material];
+      if (!quantity) continue;
+
+      const candidates = (await this.inventoryItemRepository.findByMaterial(material))
+        .filter(item => !normalizedYard || item.yard === normalizedYard);
+      if (candidates.length === 0) continue;
+
+      if (candidates.length > 1) {
+        throw new BusinessRuleViolationError(
+          'Choose the yard that supplied the materials',
+          `${SERVICE_LOG_MATERIALS[material]} is stocked at ${candidates.map(item => item.yard).join(', ')}`
+        );
+      }
+      if (!candidates[0].hasDrawnDownFor(entry.id.toString())) {
+        lines.push({ item: candidates[0], quantity });
+      }
+    }
+
+    return { serviceLogId: entry.id.toString(), lines };
+  }
+
+  async applyDrawDown(drawDown: ServiceLogDrawDown, recordedBy: string): Promise<InventoryItem[]> {
+    const updated: InventoryItem[] = [];
+
+    for (const { item, quantity } of drawDown.lines) {
+      const wasBelowThreshold = item.needsReorder();
+      if (item.drawDownForServiceLog(quantity, drawDown.serviceLogId, recordedBy)) {
+        await this.saveAndNotify(item, wasBelowThreshold);
+        updated.push(item);
+      }
+    }
+
+    return updated;
+  }
+
+  private async getItem(id: UniqueEntityId): Promise<InventoryItem> {
+    const item = await this.inventoryItemRepository.findById(id);
+    if (!item) {
+      throw new BusinessRuleViolationError('Inventory item not found', id.toString());
+    }
+    return item;
+  }
+
+  // Service logs say how much was used, not which SKU, so each material maps to one SKU per yard
+  private async ensureSingleMaterialSku(yard: string, material?: ServiceLogMaterial, item?: InventoryItem): Promise<void> {
+    if (!material) return;
+
+    const clash = (await this.inventoryItemRepository.findByMaterial(material))
+      .find(other => other.yard === yard && (!item || !other.equals(item)));
+    if (clash) {
+      throw new BusinessRuleViolationError(
+        `${SERVICE_LOG_MATERIALS[material]} is already tracked by another SKU at this yard`,
+        clash.sku
+      );
+    }
+  }
+
+  private async saveAndNotify(item: InventoryItem, wasBelowThreshold: boolean): Promise<void> {
+    await this.inventoryItemRepository.save(item);
+
+    const reachedThreshold = item.getUncommittedEvents()
+      .some(event => event instanceof InventoryReorderThresholdReachedEvent);
+    item.markEventsAsCommitted();
+
+    // Stock is already saved; a failed alert is logged rather than reported as a failed update
+    try {
+      if (reachedThreshold || (!wasBelowThreshold && item.needsReorder())) {
+        await this.alertNotifier.reorderNeeded(item);
+      } else if (wasBelowThreshold && !item.needsReorder()) {
+        await this.alertNotifier.stockReplenished(item);
+      }
+    } catch (error) {
+      console.error('Failed to raise inventory alert for', item.sku, error);
+    }
+  }
+}
\ No newline at end of file
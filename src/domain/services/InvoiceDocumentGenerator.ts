@@ -0,0 +1,11 @@
+/**
+ * Invoice Document Generator Interface - Domain Service
+ * Renders an invoice as the customer-facing document attached to the invoice email
+ */
+
+import { Invoice } from '../invoice/Invoice';
+import { EmailAttachment } from './NotificationService';
+
+export interface InvoiceDocumentGenerator {
+  generateInvoicePdf(invoice: Invoice): Promise<EmailAttachment>;
+}
\ No newline at end of file
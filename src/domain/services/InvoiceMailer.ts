@@ -0,0 +1,11 @@
+/**
+ * Invoice Mailer Interface - Domain Service
+ * Delivers an issued invoice and its document to the customer
+ */
+
+import { Invoice } from '../invoice/Invoice';
+import { EmailAttachment } from './NotificationService';
+
+export interface InvoiceMailer {
+  sendInvoice(invoice: Invoice, document: EmailAttachment, to: string): Promise<void>;
+}
\ No newline at end of file
@@ -0,0 +1,235 @@
+/**
+ * Invoice Service - Domain Service
+ * Builds invoices for a contract from its approved service logs and sends them to the customer
+ */
+
+import { Invoice, InvoiceLineCategory, InvoiceLineItem, InvoiceStatus } from '../invoice/Invoice';
+import { InvoiceRepository } from '../invoice/InvoiceRepository';
+import { InvoiceNumberAllocator } from '../invoice/InvoiceNumberAllocator';
+import { Contract, ContractBillingBasis } from '../contract/Contract';
+import { ContractRepository } from '../contract/ContractRepository';
+import { ProjectRepository } from '../project/ProjectRepository';
+import { ServiceLogEntry, ServiceLogMaterials, ServiceLogStatus } from '../servicelog/ServiceLogEntry';
+import { ServiceLogRepository } from '../servicelog/ServiceLogRepository';
+import { SERVICE_LOG_CODES } from '../servicelog/ServiceLogCodes';
+import { BusinessRuleViolationError, DomainValidationError } from '../shared/DomainError';
+import { InvoiceDocumentGenerator } from './InvoiceDocumentGenerator';
+import { InvoiceMailer } from './InvoiceMailer';
+
+export interface InvoicingPolicy {
+  materialRates: ServiceLogMaterials; // Price per bag, gallon and ton billed to the customer
+  taxRatePercent: number;
+  paymentTermsDays: number;
+}
+
+export interface GenerateInvoiceRequest {
+  contractId: string;
+  periodStart: Date;
+  periodEnd: Date; // Inclusive; the whole day is covered
+  createdBy: string;
+  // Saved on the contract before billing when given
+  billingBasis?: ContractBillingBasis;
+  seasonInstallments?: number;
+  pushRate?: number;
+}
+
+const MAX_PERIOD_DAYS = 366;
+
+const MATERIAL_LINES: Array<{ key: keyof ServiceLogMaterials; description: string; unit: string }> = [
+  { key: 'iceMeltBags', description: 'Ice melt', unit: 'bag' },
+  { key: 'deicerGallons', description: 'Liquid deicer', unit: 'gal' },
+  { key: 'iceSlicerTons', description: 'Ice slicer', unit: 'ton' }
+];
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+export class InvoiceService {
+  constructor(
+    private readonly invoiceRepository: InvoiceRepository,
+    private readonly contractRepository: ContractRepository,
+    private readonly projectRepository: ProjectRepository,
+    private readonly serviceLogRepository: ServiceLogRepository,
+    private readonly numberAllocator: InvoiceNumberAllocator,
+    private readonly documentGenerator: InvoiceDocumentGenerator,
+    private readonly mailer: InvoiceMailer,
+    private readonly policy: InvoicingPolicy
+  ) {}
+
+  async generate(request: GenerateInvoiceRequest): Promise<Invoice> {
+    const { from, to } = this.validatePeriod(request.periodStart, request.periodEnd);
+
+    const contract = await this.contractRepository.findByContractId(request.contractId.trim().toUpperCase());
+    if (!contract) {
+      throw new BusinessRuleViolationError('Contract not found', request.contractId);
+    }
+    // The new terms price this invoice but are only saved once it can be generated
+    if (request.billingBasis !== undefined) {
+      contract.updateBilling(request.billingBasis, {
+        seasonInstallments: request.seasonInstallments,
+        pushRate: request.pushRate
+      });
+    }
+
+    const perPush = contract.billingBasis === ContractBillingBasis.PER_PUSH;
+    const pushRate = contract.pushRate;
+    if (perPush && !pushRate) {
+      throw new BusinessRuleViolationError('Set a rate per push before billing this contract per push', contract.contractId);
+    }
+
+    // Voided invoices release their service logs and season installments to be billed again
+    const existingInvoices = (await this.invoiceRepository.findByContractId(contract.contractId))
+      .filter(invoice => invoice.status !== InvoiceStatus.VOID);
+    const entries = await this.unbilledEntries(contract, existingInvoices, from, to);
+
+    const lineItems: Array<Omit<InvoiceLineItem, 'id'>> = perPush && pushRate
+      ? entries.map(entry => ({
+        category: InvoiceLineCategory.SERVICE,
+        description: `${SERVICE_LOG_CODES[entry.serviceCode]} - ${entry.propertyCode}`,
+        quantity: 1,
+        unit: 'visit',
+        unitPrice: pushRate,
+        serviceDate: entry.serviceDate,
+        serviceLogEntryId: entry.id.toString()
+      }))
+      : this.seasonalLines(contract, existingInvoices);
+
+    for (const material of MATERIAL_LINES) {
+      const quantity = round(entries.reduce((sum, entry) => sum + (entry.materials[material.key] || 0), 0));
+      if (quantity > 0) {
+        lineItems.push({
+          category: InvoiceLineCategory.MATERIAL,
+          description: material.description,
+          quantity,
+          unit: material.unit,
+          unitPrice: this.policy.materialRates[material.key]
+        });
+      }
+    }
+
+    if (lineItems.length === 0) {
+      throw new BusinessRuleViolationError('Nothing to invoice', 'No unbilled approved service logs or season installments for this period');
+    }
+
+    const invoice = Invoice.draft({
+      invoiceNumber: await this.numberAllocator.allocate(to.getUTCFullYear()),
+      contractId: contract.contractId,
+      billTo: {
+        name: contract.customerName,
+        email: contract.email.value,
+        address: contract.address
+      },
+      periodStart: from,
+      periodEnd: to,
+      lineItems,
+      serviceLogEntryIds: entries.map(entry => entry.id.toString()),
+      taxRate: this.policy.taxRatePercent,
+      paymentTermsDays: this.policy.paymentTermsDays,
+      createdBy: request.createdBy
+    });
+
+    if (request.billingBasis !== undefined) {
+      await this.contractRepository.save(contract);
+    }
+    await this.invoiceRepository.save(invoice);
+    invoice.markEventsAsCommitted();
+    return invoice;
+  }
+
+  // Issues a draft (or re-sends an issued invoice) and emails the PDF to the customer
+  async send(invoice: Invoice, recipient?: string): Promise<Invoice> {
+    invoice.send(recipient?.trim() || invoice.billTo.email);
+    await this.invoiceRepository.save(invoice);
+    invoice.markEventsAsCommitted();
+
+    const document = await this.documentGenerator.generateInvoicePdf(invoice);
+    try {
+      await this.mailer.sendInvoice(invoice, document, invoice.sentTo!);
+    } catch (error) {
+      throw new BusinessRuleViolationError(
+        'Invoice was issued but the email could not be sent',
+        error instanceof Error ? error.message : undefined
+      );
+    }
+    return invoice;
+  }
+
+  // Service logs only carry a property code, so the contract's properties are its own id plus its projects' codes
+  private async unbilledEntries(
+    contract: Contract,
+    existingInvoices: Invoice[],
+    from: Date,
+    to: Date
+  ): Promise<ServiceLogEntry[]> {
+    const projects = await this.projectRepository.findByContractId(contract.contractId);
+    const propertyCodes = new Set([
+      contract.contractId.toUpperCase(),
+      ...projects.map(project => project.propertyCode).filter((code): code is string => !!code)
+    ]);
+    const billed = new Set(existingInvoices.flatMap(invoice => invoice.serviceLogEntryIds));
+
+    const entries: ServiceLogEntry[] = [];
+    for (const propertyCode of Array.from(propertyCodes)) {
+      const found = await this.serviceLogRepository.findByPropertyCode(propertyCode);
+      entries.push(...found.filter(entry =>
+        entry.status === ServiceLogStatus.APPROVED &&
+        entry.serviceDate >= from &&
+        entry.serviceDate <= to &&
+        !billed.has(entry.id.toString())
+      ));
+    }
+
+    // Oldest first reads naturally on an invoice
+    return entries.sort((a, b) => a.serviceDate.getTime() - b.serviceDate.getTime());
+  }
+
+  // A season contract is billed in equal installments; the last one absorbs the rounding
+  private seasonalLines(contract: Contract, existingInvoices: Invoice[]): Array<Omit<InvoiceLineItem, 'id'>> {
+    const installments = contract.seasonInstallments;
+    const billedInstallments = existingInvoices.filter(invoice =>
+      invoice.lineItems.some(item => item.category === InvoiceLineCategory.SEASONAL)
+    ).length;
+    if (billedInstallments >= installments || contract.contractValue <= 0) {
+      return [];
+    }
+
+    const installment = billedInstallments + 1;
+    const regularAmount = round(contract.contractValue / installments);
+    const amount = installment === installments
+      ? round(contract.contractValue - regularAmount * (installments - 1))
+      : regularAmount;
+
+    return [{
+      category: InvoiceLineCategory.SEASONAL,
+      description: installments === 1
+        ? `Seasonal service - ${contract.serviceType.name}`
+        : `Seasonal service - ${contract.serviceType.name} (installment ${installment} of ${installments})`,
+      quantity: 1,
+      unit: 'season',
+      unitPrice: amount
+    }];
+  }
+
+  private validatePeriod(periodStart: Date, periodEnd: Date): { from: Date; to: Date } {
+    if (!(periodStart instanceof Date) || isNaN(periodStart.getTime())) {
+      throw new DomainValidationError('periodStart', 'Must be a valid date');
+    }
+    if (!(periodEnd instanceof Date) || isNaN(periodEnd.getTime())) {
+      throw new DomainValidationError('periodEnd', 'Must be a valid date');
+    }
+
+    // Service log dates are stored at UTC midnight
+    const from = new Date(periodStart);
+    from.setUTCHours(0, 0, 0, 0);
+    const to = new Date(periodEnd);
+    to.setUTCHours(23, 59, 59, 999);
+
+    if (to < from) {
+      throw new DomainValidationError('periodEnd', 'Must not be before the start date');
+    }
+    if (to.getTime() - from.getTime() > MAX_PERIOD_DAYS * 24 * 60 * 60 * 1000) {
+      throw new DomainValidationError('periodEnd', `Invoices cover at most ${MAX_PERIOD_DAYS} days`);
+    }
+
+    return { from, to };
+  }
+}
\ No newline at end of file
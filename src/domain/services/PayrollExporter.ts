@@ -0,0 +1,16 @@
+/**
+ * Payroll Exporter Interface - Domain Service
+ * Renders a pay period's approved hours as the file payroll is keyed from
+ */
+
+import { PayrollReport } from './TimesheetService';
+
+export interface PayrollFile {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+export interface PayrollExporter {
+  exportPayroll(report: PayrollReport): Promise<PayrollFile>;
+}
\ No newline at end of file
@@ -0,0 +1,35 @@
+/**
+ * Quote Assignment Service - Domain Service
+ * Picks the next estimator for a quote by rotating through the roster for its service category
+ */
+
+import { ServiceCategory, ServiceType } from '../shared/ServiceType';
+
+export type EstimatorRoster = Partial<Record<ServiceCategory, string[]>>;
+
+export class QuoteAssignmentService {
+  // Rotation position per category; restarts from the top of each roster when the process restarts
+  private readonly nextIndex = new Map<ServiceCategory, number>();
+
+  constructor(private readonly roster: EstimatorRoster) {}
+
+  // Returns undefined when nobody covers the category, leaving the quote unassigned
+  nextEstimatorFor(serviceType: ServiceType): string | undefined {
+    const estimators = this.estimatorsFor(serviceType.category);
+    if (estimators.length === 0) {
+      return undefined;
+    }
+
+    const index = (this.nextIndex.get(serviceType.category) || 0) % estimators.length;
+    this.nextIndex.set(serviceType.category, index + 1);
+    return estimators[index];
+  }
+
+  estimatorsFor(category: ServiceCategory): string[] {
+    return this.roster[category] || [];
+  }
+
+  get allEstimators(): string[] {
+    return Array.from(new Set(Object.values(this.roster).flat()));
+  }
+}
\ No newline at end of file
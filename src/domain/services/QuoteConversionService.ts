@@ -0,0 +1,135 @@
+/**
+ * Quote Conversion Service - Domain Service
+ * Turns an accepted quote into a contract and a linked project as one unit of work
+ */
+
+import { Quote, QuoteSignature, QuoteStatus } from '../quote/Quote';
+import { QuoteRepository } from '../quote/QuoteRepository';
+import { Contract } from '../contract/Contract';
+import { ContractConversionStore } from '../contract/ContractConversionStore';
+import { ContractIdAllocator } from '../contract/ContractIdAllocator';
+import { Project, ServiceClass } from '../project/Project';
+import { BusinessRuleViolationError } from '../shared/DomainError';
+import { DomainEventPublisher } from '../shared/DomainEventPublisher';
+
+// Accepted quotes start their project past the quote request/response stages
+const ACCEPTED_PROJECT_STATUS = 2;
+
+export interface QuoteConversionOptions {
+  serviceAddress?: string;
+  serviceClass?: ServiceClass;
+  startDate?: Date;
+  convertedBy?: string;
+}
+
+export interface QuoteConversionResult {
+  contract: Contract;
+  project: Project;
+}
+
+export class QuoteConversionService {
+  constructor(
+    private readonly quoteRepository: QuoteRepository,
+    private readonly conversionStore: ContractConversionStore,
+    private readonly contractIdAllocator: ContractIdAllocator,
+    private readonly eventPublisher?: DomainEventPublisher
+  ) {}
+
+  // Accepts a sent quote and converts it; the quote only changes once the contract and project are saved
+  async acceptAndConvert(
+    quote: Quote,
+    signature?: QuoteSignature,
+    options: QuoteConversionOptions = {}
+  ): Promise<QuoteConversionResult> {
+    quote.assertCanBeAccepted();
+    this.assertConvertible(quote);
+
+    return this.convert(quote, options, () => quote.accept(signature));
+  }
+
+  async convertAcceptedQuote(quote: Quote, options: QuoteConversionOptions = {}): Promise<QuoteConversionResult> {
+    if (quote.status !== QuoteStatus.ACCEPTED) {
+      throw new BusinessRuleViolationError('Only accepted quotes can be converted to a contract');
+    }
+    this.assertConvertible(quote);
+
+    return this.convert(quote, options);
+  }
+
+  private async convert(
+    quote: Quote,
+    options: QuoteConversionOptions,
+    accept?: () => void
+  ): Promise<QuoteConversionResult> {
+    const serviceAddress = options.serviceAddress?.trim() || quote.serviceAddress;
+    if (!serviceAddress) {
+      throw new BusinessRuleViolationError(
+        'Accepted quote needs a service address to create a contract',
+        quote.id.toString()
+      );
+    }
+
+    const startDate = options.startDate || new Date();
+    const contractId = await this.contractIdAllocator.allocate(startDate.getFullYear());
+
+    // Build both aggregates before persisting anything so validation failures leave no trace
+    const contract = Contract.create({
+      contractId,
+      customerName: quote.customerName,
+      email: quote.email.value,
+      phone: quote.phone.value,
+      serviceType: quote.serviceType.key,
+      address: serviceAddress,
+      contractValue: quote.estimatedValue!,
+      description: quote.description,
+      startDate,
+      metadata: {
+        sourceQuoteId: quote.id.toString()
+      }
+    });
+
+    const project = Project.create({
+      title: `${quote.serviceType.name} - ${quote.customerName}`,
+      client: quote.customerName,
+      serviceClass: options.serviceClass || ServiceClass.RESIDENTIAL,
+      serviceType: quote.serviceType.key,
+      statusLabels: quote.serviceType.defaultStatusLabels,
+      contact: {
+        name: quote.customerName,
+        phone: quote.phone.value,
+        email: quote.email.value
+      },
+      contractId,
+      createdBy: options.convertedBy
+    });
+    project.updateStatus(ACCEPTED_PROJECT_STATUS, {
+      notes: `Quote accepted - contract ${contractId}`,
+      changedBy: options.convertedBy
+    });
+
+    // The quote is accepted and linked only once the contract and project are written
+    await this.conversionStore.saveConversion(contract, project, async () => {
+      accept?.();
+      quote.linkContract(contract.contractId);
+      await this.quoteRepository.save(quote);
+    });
+
+    // Published only once everything is saved, so handlers never see a contract that was rolled back
+    if (this.eventPublisher) {
+      await this.eventPublisher.publishAll(contract.getUncommittedEvents());
+    }
+    contract.markEventsAsCommitted();
+
+    return { contract, project };
+  }
+
+  private assertConvertible(quote: Quote): void {
+    if (quote.contractId) {
+      throw new BusinessRuleViolationError('Quote has already been converted', quote.contractId);
+    }
+
+    if (!quote.estimatedValue || quote.estimatedValue <= 0) {
+      throw new BusinessRuleViolationError('Accepted quote has no quoted amount');
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,24 @@
+/**
+ * Quote Document Generator Interface - Domain Service
+ * Renders a sent estimate revision as a customer-facing document
+ */
+
+import { Estimate } from '../quote/Estimate';
+import { EmailAttachment } from './NotificationService';
+
+export interface QuoteDocumentData {
+  quoteId: string;
+  revision: number;
+  customerName: string;
+  email: string;
+  phone: string;
+  serviceName: string;
+  serviceAddress?: string;
+  issuedAt: Date;
+  expiresAt?: Date;
+  estimate: Estimate;
+}
+
+export interface QuoteDocumentGenerator {
+  generateQuotePdf(data: QuoteDocumentData): Promise<EmailAttachment>;
+}
\ No newline at end of file
@@ -0,0 +1,74 @@
+/**
+ * Quote Duplicate Detection Service - Domain Service
+ * Finds earlier quotes and contracts for the customer behind a new quote request
+ */
+
+import { Quote, QuoteStatus } from '../quote/Quote';
+import { QuoteRepository } from '../quote/QuoteRepository';
+import { Contract } from '../contract/Contract';
+import { ContractRepository } from '../contract/ContractRepository';
+
+// Resubmissions inside this window are treated as the same request rather than new work
+export const DUPLICATE_WINDOW_DAYS = 30;
+
+// Share of distinct description words two requests must have in common to count as the same job
+const DESCRIPTION_SIMILARITY_THRESHOLD = 0.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const OPEN_STATUSES: QuoteStatus[] = [QuoteStatus.PENDING, QuoteStatus.UNDER_REVIEW, QuoteStatus.QUOTE_SENT];
+
+export interface QuoteDuplicateFindings {
+  possibleDuplicate?: Quote; // Most recent open quote for the same job
+  previousQuotes: Quote[]; // Newest first
+  contracts: Contract[];
+}
+
+const descriptionWords = (description: string): Set<string> =>
+  new Set(description.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length >= 3));
+
+// Jaccard similarity of the two word sets; 1 means the same words in any order
+export function descriptionSimilarity(a: string, b: string): number {
+  const wordsA = descriptionWords(a);
+  const wordsB = descriptionWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) {
+    return a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0;
+  }
+
+  const shared = Array.from(wordsA).filter(word => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+export class QuoteDuplicateDetectionService {
+  constructor(
+    private readonly quoteRepository: QuoteRepository,
+    private readonly contractRepository: ContractRepository
+  ) {}
+
+  // Matches on email across all history and on phone within the duplicate window
+  async inspect(quote: Quote, now: Date = new Date()): Promise<QuoteDuplicateFindings> {
+    const windowStart = new Date(now.getTime() - DUPLICATE_WINDOW_DAYS * DAY_MS);
+
+    const [byEmail, recent, contracts] = await Promise.all([
+      this.quoteRepository.findByEmail(quote.email.value),
+      this.quoteRepository.findByDateRange(windowStart, now),
+      this.contractRepository.findByCustomerEmail(quote.email.value)
+    ]);
+
+    const byPhone = recent.filter(candidate => candidate.phone.nationalNumber === quote.phone.nationalNumber);
+    const previousQuotes = Array.from(
+      new Map([...byEmail, ...byPhone].map(candidate => [candidate.id.toString(), candidate])).values()
+    )
+      .filter(candidate => candidate.id.toString() !== quote.id.toString())
+      .sort((a, b) => b.submittedAt.getTime() - a.submittedAt.getTime());
+
+    const possibleDuplicate = previousQuotes.find(candidate =>
+      OPEN_STATUSES.includes(candidate.status) &&
+      candidate.submittedAt >= windowStart &&
+      candidate.serviceType.key === quote.serviceType.key &&
+      descriptionSimilarity(candidate.description, quote.description) >= DESCRIPTION_SIMILARITY_THRESHOLD
+    );
+
+    return { possibleDuplicate, previousQuotes, contracts };
+  }
+}
\ No newline at end of file
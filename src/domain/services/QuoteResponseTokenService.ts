@@ -0,0 +1,17 @@
+/**
+ * Quote Response Token Service Interface - Domain Service
+ * Issues the signed links customers use to accept or decline a sent quote
+ */
+
+import { Quote } from '../quote/Quote';
+
+export interface QuoteResponseTokenPayload {
+  quoteId: string;
+  revision: number;
+}
+
+export interface QuoteResponseTokenService {
+  issueToken(quote: Quote): string;
+  // Returns null for tampered, malformed or long-expired tokens
+  verifyToken(token: string): QuoteResponseTokenPayload | null;
+}
\ No newline at end of file
@@ -0,0 +1,23 @@
+/**
+ * Service Log Importer Interface - Domain Service
+ * Turns a legacy crew log spreadsheet into service log entries, reporting problems row by row
+ */
+
+import { ServiceLogEntry } from '../servicelog/ServiceLogEntry';
+
+export interface ServiceLogImportError {
+  row: number; // Spreadsheet row number as shown in Excel
+  field?: string;
+  message: string;
+}
+
+export interface ServiceLogImportResult {
+  rowCount: number;
+  entries: ServiceLogEntry[];
+  errors: ServiceLogImportError[];
+}
+
+export interface ServiceLogImporter {
+  // importedBy is recorded as the submitter for rows without an employee column value
+  parseServiceLogs(file: Buffer, importedBy: string): Promise<ServiceLogImportResult>;
+}
\ No newline at end of file
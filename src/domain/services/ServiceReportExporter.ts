@@ -0,0 +1,26 @@
+/**
+ * Service Report Exporter Interface - Domain Service
+ * Renders service log entries and work orders for a period as a client-facing spreadsheet
+ */
+
+import { ServiceLogEntry } from '../servicelog/ServiceLogEntry';
+import { WorkOrder } from '../workorder/WorkOrder';
+
+export interface ServiceReportData {
+  title: string; // Property code, client name or "All properties"
+  from: Date;
+  to: Date;
+  serviceLogs: ServiceLogEntry[];
+  workOrders: WorkOrder[];
+  generatedAt: Date;
+}
+
+export interface ServiceReportFile {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+export interface ServiceReportExporter {
+  exportServiceReport(data: ServiceReportData): Promise<ServiceReportFile>;
+}
\ No newline at end of file
@@ -0,0 +1,100 @@
+/**
+ * Service Report Service - Domain Service
+ * Collects the service log entries and work orders behind a property or client report
+ */
+
+import { ContractRepository } from '../contract/ContractRepository';
+import { ServiceLogRepository } from '../servicelog/ServiceLogRepository';
+import { WorkOrderRepository } from '../workorder/WorkOrderRepository';
+import { DomainValidationError } from '../shared/DomainError';
+import { ServiceReportData } from './ServiceReportExporter';
+
+export interface ServiceReportCriteria {
+  from: Date;
+  to: Date; // Inclusive; the whole day is covered
+  propertyCode?: string;
+  clientName?: string;
+  employee?: string; // Limits the report to records the employee submitted, requested or was dispatched to
+}
+
+const MAX_RANGE_DAYS = 366;
+
+export class ServiceReportService {
+  constructor(
+    private readonly serviceLogRepository: ServiceLogRepository,
+    private readonly workOrderRepository: WorkOrderRepository,
+    private readonly contractRepository: ContractRepository
+  ) {}
+
+  async collect(criteria: ServiceReportCriteria): Promise<ServiceReportData> {
+    const { from, to } = this.validateRange(criteria.from, criteria.to);
+    const propertyCode = criteria.propertyCode?.trim().toUpperCase();
+    const clientName = criteria.clientName?.trim();
+    const inRange = (date: Date) => date >= from && date <= to;
+
+    let serviceLogs = (propertyCode
+      ? await this.serviceLogRepository.findByPropertyCode(propertyCode)
+      : await this.serviceLogRepository.findAll()
+    ).filter(entry => inRange(entry.serviceDate));
+
+    let workOrders = (propertyCode
+      ? await this.workOrderRepository.findByPropertyCode(propertyCode)
+      : await this.workOrderRepository.findAll()
+    ).filter(workOrder => inRange(workOrder.scheduledDate));
+
+    // Service logs only carry a property code, so a client's properties come from its contracts and work orders
+    if (clientName) {
+      const normalizedClient = clientName.toLowerCase();
+      workOrders = workOrders.filter(workOrder => workOrder.clientName.toLowerCase() === normalizedClient);
+
+      const contracts = (await this.contractRepository.findByCustomerName(clientName))
+        .filter(contract => contract.customerName.toLowerCase() === normalizedClient);
+      const propertyCodes = new Set([
+        ...contracts.map(contract => contract.contractId.toUpperCase()),
+        ...workOrders.map(workOrder => workOrder.propertyCode)
+      ]);
+      serviceLogs = serviceLogs.filter(entry => propertyCodes.has(entry.propertyCode));
+    }
+
+    if (criteria.employee) {
+      const employee = criteria.employee.toLowerCase();
+      serviceLogs = serviceLogs.filter(entry => entry.submittedBy.toLowerCase() === employee);
+      workOrders = workOrders.filter(workOrder =>
+        workOrder.assignedTo?.toLowerCase() === employee || workOrder.requestedBy.toLowerCase() === employee
+      );
+    }
+
+    return {
+      title: propertyCode || clientName || 'All properties',
+      from,
+      to,
+      // Oldest first reads naturally in a report
+      serviceLogs: serviceLogs.sort((a, b) => a.serviceDate.getTime() - b.serviceDate.getTime()),
+      workOrders: workOrders.sort((a, b) => a.scheduledDate.getTime() - b.scheduledDate.getTime()),
+      generatedAt: new Date()
+    };
+  }
+
+  private validateRange(from: Date, to: Date): { from: Date; to: Date } {
+    if (!(from instanceof Date) || isNaN(from.getTime())) {
+      throw new DomainValidationError('from', 'Must be a valid date');
+    }
+    if (!(to instanceof Date) || isNaN(to.getTime())) {
+      throw new DomainValidationError('to', 'Must be a valid date');
+    }
+
+    const start = new Date(from);
+    start.setUTCHours(0, 0, 0, 0);
+    const end = new Date(to);
+    end.setUTCHours(23, 59, 59, 999);
+
+    if (end < start) {
+      throw new DomainValidationError('to', 'Must not be before the start date');
+    }
+    if (end.getTime() - start.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      throw new DomainValidationError('to', `Reports cover at most ${MAX_RANGE_DAYS} days`);
+    }
+
+    return { from: start, to: end };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,158 @@
+/**
+ * Storm Dispatch Service - Domain Service
+ * Declares a storm by generating routed work orders for every triggered snow contract
+ */
+
+import { StormEvent } from '../storm/StormEvent';
+import { StormEventRepository } from '../storm/StormEventRepository';
+import { Contract } from '../contract/Contract';
+import { ContractRepository } from '../contract/ContractRepository';
+import { WorkOrder, WorkOrderPriority, WorkOrderStatus, SnowServiceType } from '../workorder/WorkOrder';
+import { WorkOrderRepository } from '../workorder/WorkOrderRepository';
+
+const SNOW_SERVICE_TYPE = 'snow-ice-removal';
+
+export interface SkippedContract {
+  contractId: string;
+  reason: string;
+}
+
+export interface StormDeclarationResult {
+  workOrders: WorkOrder[];
+  skipped: SkippedContract[];
+}
+
+export interface StormProgress {
+  total: number;
+  completed: number; // Complete or verified
+  verified: number;
+  percentComplete: number;
+  routes: Array<{ route: string; total: number; completed: number }>;
+}
+
+// Last ZIP in the address, so street numbers that happen to be five digits are not mistaken for it
+const zipCodeOf = (address: string): string | undefined => address.match(/\b\d{5}(?:-\d{4})?\b/g)?.pop();
+
+export function summarizeStormProgress(workOrders: ReadonlyArray<WorkOrder>): StormProgress {
+  const isDone = (workOrder: WorkOrder) =>
+    workOrder.status === WorkOrderStatus.COMPLETE || workOrder.status === WorkOrderStatus.VERIFIED;
+
+  const routes = new Map<string, { route: string; total: number; completed: number }>();
+  for (const workOrder of workOrders) {
+    const route = workOrder.storm?.route || 'Unrouted';
+    const entry = routes.get(route) || { route, total: 0, completed: 0 };
+    entry.total += 1;
+    entry.completed += isDone(workOrder) ? 1 : 0;
+    routes.set(route, entry);
+  }
+
+  const completed = workOrders.filter(isDone).length;
+  return {
+    total: workOrders.length,
+    completed,
+    verified: workOrders.filter(workOrder => workOrder.status === WorkOrderStatus.VERIFIED).length,
+    percentComplete: workOrders.length > 0 ? Math.round((completed / workOrders.length) * 100) : 0,
+    routes: Array.from(routes.values()).sort((a, b) => a.route.localeCompare(b.route))
+  };
+}
+
+export class StormDispatchService {
+  constructor(
+    private readonly contractRepository: ContractRepository,
+    private readonly workOrderRepository: WorkOrderRepository,
+    private readonly stormEventRepository: StormEventRepository
+  ) {}
+
+  async declare(storm: StormEvent, declaredBy: string): Promise<StormDeclarationResult> {
+    storm.assertDeclarable();
+    const { triggered, skipped } = await this.findTriggeredContracts(storm);
+
+    // Routes follow contract regions; stops within a route run in ZIP then address order
+    const routes = new Map<string, Array<{ contract: Contract; zipCode: string }>>();
+    for (const entry of triggered) {
+      const route = entry.contract.metadata.region?.trim() || `ZIP ${entry.zipCode}`;
+      routes.set(route, [...(routes.get(route) || []), entry]);
+    }
+
+    const workOrders: WorkOrder[] = [];
+    for (const route of Array.from(routes.keys()).sort()) {
+      const stops = routes.get(route)!.sort((a, b) =>
+        a.zipCode.localeCompare(b.zipCode) || a.contract.address.localeCompare(b.contract.address)
+      );
+
+      stops.forEach(({ contract, zipCode }, index) => {
+        workOrders.push(WorkOrder.create({
+          propertyCode: contract.contractId,
+          clientName: contract.customerName,
+          serviceAddress: contract.address,
+          zipCode,
+          serviceType: SnowServiceType.SNOW_REMOVAL,
+          priority: WorkOrderPriority.HIGH,
+          scheduledDate: storm.startsAt,
+          specialInstructions: `${storm.name}: ${storm.expectedAccumulationInches}" expected`,
+          requestedBy: declaredBy,
+          storm: { stormEventId: storm.id.toString(), route, sequence: index + 1 }
+        }));
+      });
+    }
+
+    storm.declare(declaredBy, workOrders.map(workOrder => workOrder.id.toString()));
+    await this.persist(storm, workOrders);
+
+    return { workOrders, skipped };
+  }
+
+  async progress(storm: StormEvent): Promise<StormProgress> {
+    return summarizeStormProgress(await this.workOrderRepository.findByStormEventId(storm.id.toString()));
+  }
+
+  private async findTriggeredContracts(storm: StormEvent): Promise<{
+    triggered: Array<{ contract: Contract; zipCode: string }>;
+    skipped: SkippedContract[];
+  }> {
+    const contracts = (await this.contractRepository.findActiveContracts())
+      .filter(contract => contract.serviceType.key === SNOW_SERVICE_TYPE);
+
+    const triggered: Array<{ contract: Contract; zipCode: string }> = [];
+    const skipped: SkippedContract[] = [];
+
+    for (const contract of contracts) {
+      const zipCode = zipCodeOf(contract.address);
+      if (contract.startDate > storm.startsAt || (contract.endDate && contract.endDate < storm.startsAt)) {
+        skipped.push({ contractId: contract.contractId, reason: 'Contract is not in effect for this storm' });
+      } else if (!storm.triggers(contract.metadata.snowTriggerInches)) {
+        skipped.push({ contractId: contract.contractId, reason: 'Trigger depth not met' });
+      } else if (!zipCode) {
+        skipped.push({ contractId: contract.contractId, reason: 'Contract address has no ZIP code' });
+      } else {
+        triggered.push({ contract, zipCode });
+      }
+    }
+
+    return { triggered, skipped };
+  }
+
+  // Saves the work orders before the storm, removing them again if a later write fails
+  private async persist(storm: StormEvent, workOrders: WorkOrder[]): Promise<void> {
+    const saved: WorkOrder[] = [];
+
+    try {
+      for (const workOrder of workOrders) {
+        await this.workOrderRepository.save(workOrder);
+        saved.push(workOrder);
+      }
+      await this.stormEventRepository.save(storm);
+    } catch (error) {
+      for (const workOrder of saved.reverse()) {
+        try {
+          await this.workOrderRepository.delete(workOrder.id);
+        } catch (compensationError) {
+          console.error('Failed to roll back storm work order:', compensationError);
+        }
+      }
+      throw error;
+    }
+
+    workOrders.forEach(workOrder => workOrder.markEventsAsCommitted());
+  }
+}
\ No newline at end of file
@@ -0,0 +1,243 @@
+/**
+ * Timesheet Service - Domain Service
+ * Runs the employee time clock against project sites and totals regular and overtime hours for payroll
+ */
+
+import { TimeEntry, TimeEntryStatus, ReportedLocation, checkClockLocation } from '../timesheet/TimeEntry';
+import { TimeEntryRepository } from '../timesheet/TimeEntryRepository';
+import {
+  DateRange,
+  TimeEntryHours,
+  TimesheetPolicy,
+  allocateWeeklyOvertime,
+  payPeriodContaining,
+  workWeekContaining
+} from '../timesheet/PayPeriod';
+import { Project } from '../project/Project';
+import { ProjectRepository } from '../project/ProjectRepository';
+import { GeoCoordinates } from '../shared/GeoCoordinates';
+import { UniqueEntityId } from '../shared/UniqueEntityId';
+import { BusinessRuleViolationError } from '../shared/DomainError';
+
+export interface ClockInRequest {
+  projectId?: string;
+  propertyCode?: string;
+  location?: ReportedLocation;
+  notes?: string;
+}
+
+export interface WeekToDate {
+  week: DateRange;
+  thresholdHours: number;
+  hours: number;
+  regularHours: number;
+  overtimeHours: number;
+  entries: TimeEntryHours[];
+}
+
+export interface PeriodTimesheet {
+  period: DateRange;
+  entries: TimeEntry[]; // Newest clock-in first
+  hours: Map<string, TimeEntryHours>; // By entry id; rejected shifts are not totalled
+}
+
+export interface PayrollEmployeeTotals {
+  employee: string;
+  approvedEntries: number;
+  regularHours: number;
+  overtimeHours: number;
+  totalHours: number;
+  unapprovedEntries: number;
+}
+
+export interface PayrollReport {
+  period: DateRange;
+  policy: TimesheetPolicy;
+  employees: PayrollEmployeeTotals[];
+  entries: TimeEntryHours[]; // Approved entries only, in clock-in order
+  unapproved: TimeEntry[]; // Open or waiting on review; left out of the totals
+  generatedAt: Date;
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+export class TimesheetService {
+  constructor(
+    private readonly timeEntryRepository: TimeEntryRepository,
+    private readonly projectRepository: ProjectRepository,
+    private readonly policy: TimesheetPolicy
+  ) {}
+
+  async currentEntry(employee: string): Promise<TimeEntry | null> {
+    return this.timeEntryRepository.findOpenByEmployee(employee);
+  }
+
+  async clockIn(employee: string, request: ClockInRequest): Promise<TimeEntry> {
+    if (await this.timeEntryRepository.findOpenByEmployee(employee)) {
+      throw new BusinessRuleViolationError('You are already clocked in; clock out of the current shift first');
+    }
+
+    const site = await this.resolveSite(request);
+    const entry = TimeEntry.clockIn({
+      employee,
+      propertyCode: request.propertyCode?.trim() || site.project?.propertyCode,
+      projectId: site.project?.id.toString(),
+      siteName: site.project?.title,
+      clockInCheck: checkClockLocation(site.coordinates, request.location, this.policy.geofenceRadiusMeters),
+      notes: request.notes
+    });
+
+    await this.save(entry);
+    return entry;
+  }
+
+  async clockOut(employee: string, request: { location?: ReportedLocation; notes?: string }): Promise<TimeEntry> {
+    const entry = await this.openEntryOf(employee);
+    const site = await this.resolveSite({ projectId: entry.projectId, propertyCode: entry.propertyCode });
+
+    entry.clockOut(
+      checkClockLocation(site.coordinates, request.location, this.policy.geofenceRadiusMeters),
+      new Date(),
+      request.notes
+    );
+
+    await this.save(entry);
+    return entry;
+  }
+
+  async startBreak(employee: string): Promise<TimeEntry> {
+    const entry = await this.openEntryOf(employee);
+    entry.startBreak();
+    await this.save(entry);
+    return entry;
+  }
+
+  async endBreak(employee: string): Promise<TimeEntry> {
+    const entry = await this.openEntryOf(employee);
+    entry.endBreak();
+    await this.save(entry);
+    return entry;
+  }
+
+  // Counts everything not rejected, including the running shift, so employees see overtime coming
+  async weekToDate(employee: string, asOf: Date = new Date()): Promise<WeekToDate> {
+    const week = workWeekContaining(asOf, this.policy);
+    const entries = (await this.timeEntryRepository.findByEmployee(employee))
+      .filter(entry => entry.status !== TimeEntryStatus.REJECTED && this.isWithin(entry, week));
+    const hours = allocateWeeklyOvertime(entries, this.policy, asOf);
+
+    return {
+      week,
+      thresholdHours: this.policy.weeklyOvertimeThresholdHours,
+      hours: round(hours.reduce((total, line) => total + line.hours, 0)),
+      regularHours: round(hours.reduce((total, line) => total + line.regularHours, 0)),
+      overtimeHours: round(hours.reduce((total, line) => total + line.overtimeHours, 0)),
+      entries: hours
+    };
+  }
+
+  payPeriodContaining(date: Date): DateRange {
+    return payPeriodContaining(date, this.policy);
+  }
+
+  // Totals count every shift not rejected, so reviewers see the overtime a shift would add once approved
+  async reviewPeriod(period: DateRange): Promise<PeriodTimesheet> {
+    const entries = await this.timeEntryRepository.findClockedInBetween(period.start, period.end);
+    const hours = allocateWeeklyOvertime(
+      entries.filter(entry => entry.status !== TimeEntryStatus.REJECTED),
+      this.policy
+    );
+
+    return {
+      period,
+      entries: [...entries].sort((a, b) => b.clockInAt.getTime() - a.clockInAt.getTime()),
+      hours: new Map(hours.map(line => [line.entry.id.toString(), line]))
+    };
+  }
+
+  async payrollReport(period: DateRange): Promise<PayrollReport> {
+    const entries = await this.timeEntryRepository.findClockedInBetween(period.start, period.end);
+    const approved = allocateWeeklyOvertime(
+      entries.filter(entry => entry.status === TimeEntryStatus.APPROVED),
+      this.policy
+    );
+    const unapproved = entries.filter(entry =>
+      entry.status === TimeEntryStatus.OPEN || entry.status === TimeEntryStatus.COMPLETED);
+
+    const totals = new Map<string, PayrollEmployeeTotals>();
+    const totalsFor = (employee: string): PayrollEmployeeTotals => {
+      const key = employee.toLowerCase();
+      const existing = totals.get(key);
+      if (existing) return existing;
+
+      const created = { employee, approvedEntries: 0, regularHours: 0, overtimeHours: 0, totalHours: 0, unapprovedEntries: 0 };
+      totals.set(key, created);
+      return created;
+    };
+
+    for (const line of approved) {
+      const employeeTotals = totalsFor(line.entry.employee);
+      employeeTotals.approvedEntries += 1;
+      employeeTotals.regularHours = round(employeeTotals.regularHours + line.regularHours);
+      employeeTotals.overtimeHours = round(employeeTotals.overtimeHours + line.overtimeHours);
+      employeeTotals.totalHours = round(employeeTotals.totalHours + line.hours);
+    }
+    for (const entry of unapproved) {
+      totalsFor(entry.employee).unapprovedEntries += 1;
+    }
+
+    return {
+      period,
+      policy: this.policy,
+      employees: Array.from(totals.values()).sort((a, b) => a.employee.localeCompare(b.employee)),
+      entries: approved,
+      unapproved,
+      generatedAt: new Date()
+    };
+  }
+
+  private isWithin(entry: TimeEntry, range: DateRange): boolean {
+    return entry.clockInAt >= range.start && entry.clockInAt < range.end;
+  }
+
+  private async openEntryOf(employee: string): Promise<TimeEntry> {
+    const entry = await this.timeEntryRepository.findOpenByEmployee(employee);
+    if (!entry) {
+      throw new BusinessRuleViolationError('You are not clocked in');
+    }
+    return entry;
+  }
+
+  // A property can have several projects; the first one with site coordinates anchors the geofence
+  private async resolveSite(request: { projectId?: string; propertyCode?: string }): Promise<{
+    project?: Project;
+    coordinates?: GeoCoordinates;
+  }> {
+    if (request.projectId) {
+      const project = UniqueEntityId.isValid(request.projectId)
+        ? await this.projectRepository.findById(UniqueEntityId.create(request.projectId))
+        : null;
+      if (!project) {
+        throw new BusinessRuleViolationError('Project not found', request.projectId);
+      }
+      return { project, coordinates: project.siteCoordinates };
+    }
+
+    const propertyCode = request.propertyCode?.trim();
+    if (!propertyCode) {
+      return {};
+    }
+
+    const projects = await this.projectRepository.findByPropertyCode(propertyCode);
+    const located = projects.find(project => project.siteCoordinates);
+    return {
+      project: projects.length === 1 ? projects[0] : undefined,
+      coordinates: located?.siteCoordinates
+    };
+  }
+
+  private async save(entry: TimeEntry): Promise<void> {
+    await this.timeEntryRepository.save(entry);
+    entry.markEventsAsCommitted();
+  }
+}
\ No newline at end of file
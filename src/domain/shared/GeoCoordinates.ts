@@ -0,0 +1,35 @@
+/**
+ * Geographic Coordinates - Shared domain types
+ * Latitude/longitude pairs for property sites and browser-reported positions
+ */
+
+import { DomainValidationError } from './DomainError';
+
+export interface GeoCoordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+export function validateGeoCoordinates(field: string, coordinates: GeoCoordinates): GeoCoordinates {
+  const { latitude, longitude } = coordinates;
+  if (typeof latitude !== 'number' || !Number.isFinite(latitude) || latitude < -90 || latitude > 90) {
+    throw new DomainValidationError(field, 'Latitude must be between -90 and 90');
+  }
+  if (typeof longitude !== 'number' || !Number.isFinite(longitude) || longitude < -180 || longitude > 180) {
+    throw new DomainValidationError(field, 'Longitude must be between -180 and 180');
+  }
+  return { latitude, longitude };
+}
+
+// Great-circle (haversine) distance; accurate to well under a metre at property scale
+export function distanceInMeters(from: GeoCoordinates, to: GeoCoordinates): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const deltaLatitude = toRadians(to.latitude - from.latitude);
+  const deltaLongitude = toRadians(to.longitude - from.longitude);
+
+  const a = Math.sin(deltaLatitude / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(deltaLongitude / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
\ No newline at end of file
@@ -72,6 +72,12 @@ export class PhoneNumber extends ValueObject<PhoneNumberProps> {
     return this.props.formatted;
   }
 
+  // Drops the US country code so "1 555..." and "555..." compare equal
+  get nationalNumber(): string {
+    const { value } = this.props;
+    return value.length === 11 && value.startsWith('1') ? value.slice(1) : value;
+  }
+
   toString(): string {
     return this.props.formatted;
   }
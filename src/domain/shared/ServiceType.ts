@@ -17,6 +17,7 @@ interface ServiceTypeProps {
   name: string;
   category: ServiceCategory;
   description: string;
+  defaultStatusLabels: string[];
 }
 
 export class ServiceType extends ValueObject<ServiceTypeProps> {
@@ -24,30 +25,48 @@ export class ServiceType extends ValueObject<ServiceTypeProps> {
     'concrete-asphalt': {
       name: 'Concrete & Asphalt Repairs',
       category: ServiceCategory.CONSTRUCTION,
-      description: 'Professional concrete and asphalt repair services'
+      description: 'Professional concrete and asphalt repair services',
+      defaultStatusLabels: ['Quote Request', 'Quote Response', 'Scheduled Review', 'Started Service', 'Service Complete']
     },
     'landscaping': {
       name: 'Landscaping',
       category: ServiceCategory.MAINTENANCE,
-      description: 'Landscape design and maintenance services'
+      description: 'Landscape design and maintenance services',
+      defaultStatusLabels: ['Quote Request', 'Quote Response', 'Scheduled Review', 'Service Phase 1', 'Service Phase 2', 'Service Complete']
     },
     'painting': {
       name: 'Painting',
       category: ServiceCategory.CONSTRUCTION,
-      description: 'Interior and exterior painting services'
+      description: 'Interior and exterior painting services',
+      defaultStatusLabels: ['Quote Request', 'Quote Response', 'Materials Ordered', 'Painting Started', 'Project Complete']
     },
     'demolition': {
       name: 'Demolition',
       category: ServiceCategory.CONSTRUCTION,
-      description: 'Safe demolition and removal services'
+      description: 'Safe demolition and removal services',
+      defaultStatusLabels: ['Quote Request', 'Quote Response', 'Permits Acquired', 'Demolition Started', 'Cleanup Complete']
     },
     'snow-ice-removal': {
       name: 'Snow & Ice Removal',
       category: ServiceCategory.SEASONAL,
-      description: 'Commercial snow and ice removal services'
+      description: 'Commercial snow and ice removal services',
+      defaultStatusLabels: ['Quote Request', 'Quote Response', 'Contract Signed', 'Service Active', 'Service Complete']
+    },
+    'other': {
+      name: 'Other',
+      category: ServiceCategory.CONSTRUCTION,
+      description: 'General construction requests that do not fit another service',
+      defaultStatusLabels: ['Quote Request', 'Quote Response', 'Scheduled Review', 'Service Complete']
     }
   };
 
+  // Labels the public quote forms submit instead of service keys
+  private static readonly FORM_LABELS: Record<string, string> = {
+    'snow and ice removal': 'snow-ice-removal',
+    'landscaping / hardscaping': 'landscaping',
+    'concrete / asphalt repairs': 'concrete-asphalt'
+  };
+
   private constructor(props: ServiceTypeProps) {
     super(props);
   }
@@ -68,6 +87,28 @@ export class ServiceType extends ValueObject<ServiceTypeProps> {
     });
   }
 
+  // Accepts a service key, a service name or a quote form label
+  static resolve(value: string): ServiceType {
+    const normalized = value?.trim().toLowerCase() || '';
+
+    if (this.VALID_SERVICES[normalized]) {
+      return this.create(normalized);
+    }
+
+    const byName = Object.entries(this.VALID_SERVICES)
+      .find(([, config]) => config.name.toLowerCase() === normalized);
+    if (byName) {
+      return this.create(byName[0]);
+    }
+
+    const byLabel = this.FORM_LABELS[normalized];
+    if (byLabel) {
+      return this.create(byLabel);
+    }
+
+    return this.create(value);
+  }
+
   static getAllValidServices(): string[] {
     return Object.keys(this.VALID_SERVICES);
   }
@@ -94,6 +135,10 @@ export class ServiceType extends ValueObject<ServiceTypeProps> {
     return this.props.description;
   }
 
+  get defaultStatusLabels(): string[] {
+    return [...this.props.defaultStatusLabels];
+  }
+
   toString(): string {
     return this.props.name;
   }
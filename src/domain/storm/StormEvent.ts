@@ -0,0 +1,198 @@
+/**
+ * Storm Event Aggregate Root - Storm response
+ * A forecast storm that, once declared, puts every triggered snow contract on the dispatch board
+ */
+
+import { AggregateRoot } from '../shared/AggregateRoot';
+import { UniqueEntityId } from '../shared/UniqueEntityId';
+import { DomainEventBase } from '../shared/Entity';
+import { BusinessRuleViolationError, DomainValidationError } from '../shared/DomainError';
+
+export enum StormEventStatus {
+  FORECAST = 'forecast',
+  DECLARED = 'declared',
+  CLOSED = 'closed'
+}
+
+export interface StormEventProps {
+  name: string;
+  startsAt: Date;
+  endsAt?: Date;
+  expectedAccumulationInches: number;
+  triggerThresholdInches: number; // Used for contracts without a trigger depth of their own
+  status: StormEventStatus;
+  workOrderIds: string[];
+  createdBy: string;
+  declaredBy?: string;
+  declaredAt?: Date;
+  closedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class StormEvent extends AggregateRoot<UniqueEntityId> {
+  private constructor(id: UniqueEntityId, private props: StormEventProps) {
+    super(id);
+  }
+
+  static create(props: {
+    name: string;
+    startsAt: Date;
+    endsAt?: Date;
+    expectedAccumulationInches: number;
+    triggerThresholdInches: number;
+    createdBy: string;
+  }): StormEvent {
+    // Domain validation
+    if (!props.name || props.name.trim().length < 2) {
+      throw new DomainValidationError('name', 'Must be at least 2 characters');
+    }
+    if (props.name.trim().length > 100) {
+      throw new DomainValidationError('name', 'Must not exceed 100 characters');
+    }
+
+    if (!(props.startsAt instanceof Date) || isNaN(props.startsAt.getTime())) {
+      throw new DomainValidationError('startsAt', 'Must be a valid date');
+    }
+    this.validateEnd(props.startsAt, props.endsAt);
+    this.validateDepth('expectedAccumulationInches', props.expectedAccumulationInches, 0);
+    this.validateDepth('triggerThresholdInches', props.triggerThresholdInches, 0.1);
+
+    const id = UniqueEntityId.create();
+    const now = new Date();
+
+    const storm = new StormEvent(id, {
+      name: props.name.trim(),
+      startsAt: props.startsAt,
+      endsAt: props.endsAt,
+      expectedAccumulationInches: props.expectedAccumulationInches,
+      triggerThresholdInches: props.triggerThresholdInches,
+      status: StormEventStatus.FORECAST,
+      workOrderIds: [],
+      createdBy: props.createdBy,
+      createdAt: now,
+      updatedAt: now
+    });
+
+    storm.addDomainEvent(new StormForecastEvent(storm));
+    return storm;
+  }
+
+  static reconstitute(id: UniqueEntityId, props: StormEventProps): StormEvent {
+    return new StormEvent(id, props);
+  }
+
+  private static validateEnd(startsAt: Date, endsAt?: Date): void {
+    if (endsAt === undefined) {
+      return;
+    }
+    if (!(endsAt instanceof Date) || isNaN(endsAt.getTime())) {
+      throw new DomainValidationError('endsAt', 'Must be a valid date');
+    }
+    if (endsAt <= startsAt) {
+      throw new DomainValidationError('endsAt', 'Must be after the storm starts');
+    }
+  }
+
+  private static validateDepth(field: string, inches: number, min: number): void {
+    if (!Number.isFinite(inches) || inches < min || inches > 120) {
+      throw new DomainValidationError(field, `Must be between ${min} and 120 inches`);
+    }
+  }
+
+  // Business Methods
+  updateForecast(forecast: { expectedAccumulationInches?: number; endsAt?: Date }): void {
+    if (this.props.status === StormEventStatus.CLOSED) {
+      throw new BusinessRuleViolationError('Closed storm events cannot be changed');
+    }
+
+    if (forecast.expectedAccumulationInches !== undefined) {
+      StormEvent.validateDepth('expectedAccumulationInches', forecast.expectedAccumulationInches, 0);
+      this.props.expectedAccumulationInches = forecast.expectedAccumulationInches;
+    }
+    if (forecast.endsAt !== undefined) {
+      StormEvent.validateEnd(this.props.startsAt, forecast.endsAt);
+      this.props.endsAt = forecast.endsAt;
+    }
+    this.props.updatedAt = new Date();
+  }
+
+  // A contract's own trigger depth wins over the storm-wide threshold
+  triggers(contractTriggerInches?: number): boolean {
+    return this.props.expectedAccumulationInches >= (contractTriggerInches ?? this.props.triggerThresholdInches);
+  }
+
+  // Checked before work orders are generated as well as on declaration itself
+  assertDeclarable(): void {
+    if (this.props.status !== StormEventStatus.FORECAST) {
+      throw new BusinessRuleViolationError('Storm event has already been declared', this.props.status);
+    }
+  }
+
+  declare(declaredBy: string, workOrderIds: string[]): void {
+    this.assertDeclarable();
+
+    const now = new Date();
+    this.props.status = StormEventStatus.DECLARED;
+    this.props.declaredBy = declaredBy;
+    this.props.declaredAt = now;
+    this.props.workOrderIds = [...workOrderIds];
+    this.props.updatedAt = now;
+
+    this.addDomainEvent(new StormDeclaredEvent(this, workOrderIds.length));
+  }
+
+  close(closedAt: Date = new Date()): void {
+    if (this.props.status !== StormEventStatus.DECLARED) {
+      throw new BusinessRuleViolationError('Only declared storm events can be closed', this.props.status);
+    }
+
+    this.props.status = StormEventStatus.CLOSED;
+    this.props.endsAt = this.props.endsAt && this.props.endsAt < closedAt ? this.props.endsAt : closedAt;
+    this.props.closedAt = closedAt;
+    this.props.updatedAt = closedAt;
+
+    this.addDomainEvent(new StormClosedEvent(this));
+  }
+
+  isActive(): boolean {
+    return this.props.status === StormEventStatus.DECLARED;
+  }
+
+  // Getters
+  get name(): string { return this.props.name; }
+  get startsAt(): Date { return this.props.startsAt; }
+  get endsAt(): Date | undefined { return this.props.endsAt; }
+  get expectedAccumulationInches(): number { return this.props.expectedAccumulationInches; }
+  get triggerThresholdInches(): number { return this.props.triggerThresholdInches; }
+  get status(): StormEventStatus { return this.props.status; }
+  get workOrderIds(): ReadonlyArray<string> { return this.props.workOrderIds; }
+  get createdBy(): string { return this.props.createdBy; }
+  get declaredBy(): string | undefined { return this.props.declaredBy; }
+  get declaredAt(): Date | undefined { return this.props.declaredAt; }
+  get closedAt(): Date | undefined { return this.props.closedAt; }
+  get createdAt(): Date { return this.props.createdAt; }
+  get updatedAt(): Date { return this.props.updatedAt; }
+}
+
+// Domain Events
+export class StormForecastEvent extends DomainEventBase {
+  constructor(public readonly storm: StormEvent) {
+    super();
+  }
+}
+
+export class StormDeclaredEvent extends DomainEventBase {
+  constructor(
+    public readonly storm: StormEvent,
+    public readonly workOrderCount: number
+  ) {
+    super();
+  }
+}
+
+export class StormClosedEvent extends DomainEventBase {
+  constructor(public readonly storm: StormEvent) {
+    super();
+  }
+}
\ No newline at end of file
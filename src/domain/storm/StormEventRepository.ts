@@ -0,0 +1,18 @@
+/**
+ * Storm Event Repository Interface - Domain Layer
+ * Defines storm event data access operations
+ */
+
+import { StormEvent, StormEventStatus } from './StormEvent';
+import { UniqueEntityId } from '../shared/UniqueEntityId';
+
+export interface StormEventRepository {
+  // Basic CRUD operations
+  save(storm: StormEvent): Promise<void>;
+  findById(id: UniqueEntityId): Promise<StormEvent | null>;
+  findAll(): Promise<StormEvent[]>; // Newest storm first
+  delete(id: UniqueEntityId): Promise<void>;
+
+  // Query operations
+  findByStatus(status: StormEventStatus): Promise<StormEvent[]>;
+}
\ No newline at end of file
@@ -0,0 +1,101 @@
+/**
+ * Pay Periods and Overtime - Timesheet rules
+ * Work weeks and pay periods are counted from a fixed anchor date; overtime is paid on hours past the weekly threshold
+ */
+
+import { DomainValidationError } from '../shared/DomainError';
+import { TimeEntry } from './TimeEntry';
+
+export interface TimesheetPolicy {
+  weeklyOvertimeThresholdHours: number;
+  payPeriodDays: 7 | 14;
+  payPeriodAnchor: Date; // First day of any pay period; also the first day of a work week
+  geofenceRadiusMeters: number;
+}
+
+export interface DateRange {
+  start: Date; // Local midnight
+  end: Date; // Exclusive
+}
+
+export interface TimeEntryHours {
+  entry: TimeEntry;
+  week: DateRange;
+  hours: number;
+  regularHours: number;
+  overtimeHours: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// Calendar arithmetic rather than fixed 24h steps, so periods stay on midnight across daylight saving changes
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+const addDays = (date: Date, days: number): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+const daysBetween = (from: Date, to: Date): number =>
+  Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / MS_PER_DAY);
+
+function rangeContaining(date: Date, anchor: Date, lengthInDays: number): DateRange {
+  if (isNaN(date.getTime())) {
+    throw new DomainValidationError('date', 'Must be a valid date');
+  }
+
+  const index = Math.floor(daysBetween(anchor, date) / lengthInDays);
+  const start = addDays(startOfDay(anchor), index * lengthInDays);
+  return { start, end: addDays(start, lengthInDays) };
+}
+
+// YYYY-MM-DD as a local calendar day; Date parses that form as UTC, which lands on the previous day west of Greenwich
+export function parseCalendarDate(value: string): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value?.trim() || '');
+  const date = match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : new Date(NaN);
+  if (!match || isNaN(date.getTime()) || date.getDate() !== Number(match[3])) {
+    throw new DomainValidationError('date', 'Must be a date in YYYY-MM-DD format');
+  }
+  return date;
+}
+
+export function formatCalendarDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function lastDayOf(range: DateRange): Date {
+  return addDays(range.end, -1);
+}
+
+export function payPeriodContaining(date: Date, policy: TimesheetPolicy): DateRange {
+  return rangeContaining(date, policy.payPeriodAnchor, policy.payPeriodDays);
+}
+
+export function workWeekContaining(date: Date, policy: TimesheetPolicy): DateRange {
+  return rangeContaining(date, policy.payPeriodAnchor, 7);
+}
+
+export function previousPayPeriod(period: DateRange, policy: TimesheetPolicy): DateRange {
+  return payPeriodContaining(addDays(period.start, -1), policy);
+}
+
+// A shift belongs to the week it started in. Hours fill the threshold in clock-in order, so the
+// shift that crosses it is split between regular and overtime.
+export function allocateWeeklyOvertime(
+  entries: ReadonlyArray<TimeEntry>,
+  policy: TimesheetPolicy,
+  asOf: Date = new Date()
+): TimeEntryHours[] {
+  const workedByWeek = new Map<string, number>();
+
+  return [...entries]
+    .sort((a, b) => a.clockInAt.getTime() - b.clockInAt.getTime())
+    .map(entry => {
+      const week = workWeekContaining(entry.clockInAt, policy);
+      const key = `${entry.employee.toLowerCase()}|${week.start.getTime()}`;
+      const workedBefore = workedByWeek.get(key) || 0;
+      const hours = entry.workedHours(asOf);
+      const regularHours = round(Math.min(hours, Math.max(0, policy.weeklyOvertimeThresholdHours - workedBefore)));
+
+      workedByWeek.set(key, workedBefore + hours);
+      return { entry, week, hours, regularHours, overtimeHours: round(hours - regularHours) };
+    });
+}
\ No newline at end of file
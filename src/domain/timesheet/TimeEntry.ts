@@ -0,0 +1,380 @@
+/**
+ * Time Entry Aggregate Root - Employee time clock
+ * One shift clocked in and out against a project or property code, with breaks, location checks and supervisor review
+ */
+
+import { AggregateRoot } from '../shared/AggregateRoot';
+import { UniqueEntityId } from '../shared/UniqueEntityId';
+import { DomainEventBase } from '../shared/Entity';
+import { BusinessRuleViolationError, DomainValidationError } from '../shared/DomainError';
+import { GeoCoordinates, distanceInMeters, validateGeoCoordinates } from '../shared/GeoCoordinates';
+
+export enum TimeEntryStatus {
+  OPEN = 'open', // Clocked in
+  COMPLETED = 'completed', // Clocked out, waiting on a supervisor
+  APPROVED = 'approved',
+  REJECTED = 'rejected'
+}
+
+export enum LocationCheckStatus {
+  VERIFIED = 'verified',
+  OUTSIDE = 'outside',
+  NOT_REPORTED = 'not_reported', // Browser location denied or unavailable
+  NO_SITE_COORDINATES = 'no_site_coordinates'
+}
+
+export interface ReportedLocation extends GeoCoordinates {
+  accuracyMeters?: number;
+}
+
+export interface LocationCheck {
+  status: LocationCheckStatus;
+  reported?: ReportedLocation;
+  distanceMeters?: number;
+  radiusMeters?: number;
+}
+
+export interface TimeEntryBreak {
+  startedAt: Date;
+  endedAt?: Date;
+}
+
+export interface TimeEntryReview {
+  id: string;
+  decision: TimeEntryStatus.APPROVED | TimeEntryStatus.REJECTED;
+  reviewedBy: string;
+  comment?: string;
+  reviewedAt: Date;
+}
+
+export interface TimeEntryCorrection {
+  id: string;
+  correctedBy: string;
+  reason: string;
+  previous: { clockInAt: Date; clockOutAt?: Date; breakMinutes: number };
+  correctedAt: Date;
+}
+
+export interface TimeEntrySite {
+  propertyCode?: string;
+  projectId?: string;
+  siteName?: string; // Project title at clock-in, for timesheets and payroll
+}
+
+export interface TimeEntryProps extends TimeEntrySite {
+  employee: string;
+  status: TimeEntryStatus;
+  clockInAt: Date;
+  clockOutAt?: Date;
+  breaks: TimeEntryBreak[]; // Oldest first; the last one may still be running
+  breakMinutesOverride?: number; // Set when a supervisor corrects the break time
+  clockInCheck: LocationCheck;
+  clockOutCheck?: LocationCheck;
+  notes?: string;
+  reviews: TimeEntryReview[];
+  corrections: TimeEntryCorrection[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+const MAX_SHIFT_HOURS = 24;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// Browser positions can be off by tens of metres, so the reported accuracy is allowed on top of the radius, up to the radius again
+export function checkClockLocation(
+  site: GeoCoordinates | undefined,
+  reported: ReportedLocation | undefined,
+  radiusMeters: number
+): LocationCheck {
+  if (!reported) {
+    return { status: LocationCheckStatus.NOT_REPORTED };
+  }
+
+  const position = validateGeoCoordinates('location', reported);
+  const accuracyMeters = reported.accuracyMeters !== undefined && Number.isFinite(reported.accuracyMeters) && reported.accuracyMeters >= 0
+    ? Math.round(reported.accuracyMeters)
+    : undefined;
+  const recorded: ReportedLocation = { ...position, accuracyMeters };
+
+  if (!site) {
+    return { status: LocationCheckStatus.NO_SITE_COORDINATES, reported: recorded };
+  }
+
+  const distance = Math.round(distanceInMeters(site, position));
+  const tolerance = Math.min(accuracyMeters ?? 0, radiusMeters);
+  return {
+    status: distance <= radiusMeters + tolerance ? LocationCheckStatus.VERIFIED : LocationCheckStatus.OUTSIDE,
+    reported: recorded,
+    distanceMeters: distance,
+    radiusMeters
+  };
+}
+
+export class TimeEntry extends AggregateRoot<UniqueEntityId> {
+  private constructor(id: UniqueEntityId, private props: TimeEntryProps) {
+    super(id);
+  }
+
+  static clockIn(props: TimeEntrySite & {
+    employee: string;
+    clockInCheck: LocationCheck;
+    notes?: string;
+    at?: Date;
+  }): TimeEntry {
+    if (!props.employee || !props.employee.trim()) {
+      throw new DomainValidationError('employee', 'Employee is required');
+    }
+    const propertyCode = props.propertyCode?.trim().toUpperCase() || undefined;
+    if (!propertyCode && !props.projectId) {
+      throw new DomainValidationError('propertyCode', 'Choose a project or enter a property code');
+    }
+    if (propertyCode && (propertyCode.length < 2 || propertyCode.length > 50)) {
+      throw new DomainValidationError('propertyCode', 'Must be between 2 and 50 characters');
+    }
+    this.validateNotes(props.notes);
+
+    const id = UniqueEntityId.create();
+    const now = new Date();
+    const entry = new TimeEntry(id, {
+      employee: props.employee.trim(),
+      propertyCode,
+      projectId: props.projectId,
+      siteName: props.siteName?.trim() || undefined,
+      status: TimeEntryStatus.OPEN,
+      clockInAt: props.at || now,
+      breaks: [],
+      clockInCheck: props.clockInCheck,
+      notes: props.notes?.trim() || undefined,
+      reviews: [],
+      corrections: [],
+      createdAt: now,
+      updatedAt: now
+    });
+
+    entry.addDomainEvent(new EmployeeClockedInEvent(entry));
+    return entry;
+  }
+
+  static reconstitute(id: UniqueEntityId, props: TimeEntryProps): TimeEntry {
+    return new TimeEntry(id, props);
+  }
+
+  private static validateNotes(notes?: string): void {
+    if (notes && notes.trim().length > 1000) {
+      throw new DomainValidationError('notes', 'Must not exceed 1000 characters');
+    }
+  }
+
+  // Business Methods
+  startBreak(at: Date = new Date()): void {
+    this.ensureOpen();
+    if (this.onBreak) {
+      throw new BusinessRuleViolationError('A break is already running');
+    }
+    if (at < this.props.clockInAt) {
+      throw new DomainValidationError('at', 'A break cannot start before clock-in');
+    }
+
+    this.props.breaks.push({ startedAt: at });
+    this.props.updatedAt = new Date();
+  }
+
+  endBreak(at: Date = new Date()): void {
+    this.ensureOpen();
+    const current = this.props.breaks[this.props.breaks.length - 1];
+    if (!current || current.endedAt) {
+      throw new BusinessRuleViolationError('No break is running');
+    }
+
+    current.endedAt = at < current.startedAt ? current.startedAt : at;
+    this.props.updatedAt = new Date();
+  }
+
+  // A running break ends when the shift does
+  clockOut(clockOutCheck: LocationCheck, at: Date = new Date(), notes?: string): void {
+    this.ensureOpen();
+    if (at <= this.props.clockInAt) {
+      throw new DomainValidationError('clockOutAt', 'Must be after clock-in');
+    }
+    TimeEntry.validateNotes(notes);
+
+    const current = this.props.breaks[this.props.breaks.length - 1];
+    if (current && !current.endedAt) {
+      current.endedAt = at;
+    }
+
+    this.props.clockOutAt = at;
+    this.props.clockOutCheck = clockOutCheck;
+    if (notes?.trim()) {
+      this.props.notes = this.props.notes ? `${this.props.notes}\n${notes.trim()}` : notes.trim();
+    }
+    this.props.status = TimeEntryStatus.COMPLETED;
+    this.props.updatedAt = new Date();
+
+    this.addDomainEvent(new EmployeeClockedOutEvent(this));
+  }
+
+  approve(reviewedBy: string, comment?: string): void {
+    this.review(TimeEntryStatus.APPROVED, reviewedBy, comment);
+    this.addDomainEvent(new TimeEntryApprovedEvent(this, reviewedBy));
+  }
+
+  reject(reviewedBy: string, comment: string): void {
+    if (!comment || !comment.trim()) {
+      throw new DomainValidationError('comment', 'A comment is required to reject a time entry');
+    }
+
+    this.review(TimeEntryStatus.REJECTED, reviewedBy, comment);
+  }
+
+  // Supervisors fix missed punches; the entry goes back for review and the original times are kept
+  correct(
+    times: { clockInAt: Date; clockOutAt: Date; breakMinutes: number },
+    correctedBy: string,
+    reason: string
+  ): void {
+    if (this.props.status === TimeEntryStatus.APPROVED) {
+      throw new BusinessRuleViolationError('Approved time entries are locked');
+    }
+    if (!reason || !reason.trim()) {
+      throw new DomainValidationError('reason', 'A reason is required to correct a time entry');
+    }
+    if (isNaN(times.clockInAt.getTime()) || isNaN(times.clockOutAt.getTime())) {
+      throw new DomainValidationError('clockInAt', 'Clock-in and clock-out must be valid dates');
+    }
+    if (times.clockOutAt <= times.clockInAt) {
+      throw new DomainValidationError('clockOutAt', 'Must be after clock-in');
+    }
+    const shiftMinutes = (times.clockOutAt.getTime() - times.clockInAt.getTime()) / MS_PER_MINUTE;
+    if (shiftMinutes > MAX_SHIFT_HOURS * 60) {
+      throw new DomainValidationError('clockOutAt', `A shift cannot be longer than ${MAX_SHIFT_HOURS} hours`);
+    }
+    if (!Number.isFinite(times.breakMinutes) || times.breakMinutes < 0 || times.breakMinutes >= shiftMinutes) {
+      throw new DomainValidationError('breakMinutes', 'Must be zero or more and shorter than the shift');
+    }
+
+    const now = new Date();
+    this.props.corrections.push({
+      id: UniqueEntityId.create().toString(),
+      correctedBy,
+      reason: reason.trim(),
+      previous: {
+        clockInAt: this.props.clockInAt,
+        clockOutAt: this.props.clockOutAt,
+        breakMinutes: this.breakMinutes
+      },
+      correctedAt: now
+    });
+
+    const current = this.props.breaks[this.props.breaks.length - 1];
+    if (current && !current.endedAt) {
+      current.endedAt = times.clockOutAt;
+    }
+    this.props.clockInAt = times.clockInAt;
+    this.props.clockOutAt = times.clockOutAt;
+    this.props.breakMinutesOverride = Math.round(times.breakMinutes);
+    this.props.status = TimeEntryStatus.COMPLETED;
+    this.props.updatedAt = now;
+  }
+
+  workedHours(asOf: Date = new Date()): number {
+    const end = this.props.clockOutAt || asOf;
+    const minutes = (end.getTime() - this.props.clockInAt.getTime()) / MS_PER_MINUTE - this.breakMinutesAsOf(end);
+    return round(Math.max(0, minutes) / 60);
+  }
+
+  private breakMinutesAsOf(asOf: Date): number {
+    if (this.props.breakMinutesOverride !== undefined) {
+      return this.props.breakMinutesOverride;
+    }
+
+    return Math.round(this.props.breaks.reduce((total, entry) => {
+      const end = entry.endedAt || asOf;
+      return total + Math.max(0, end.getTime() - entry.startedAt.getTime()) / MS_PER_MINUTE;
+    }, 0));
+  }
+
+  private ensureOpen(): void {
+    if (this.props.status !== TimeEntryStatus.OPEN) {
+      throw new BusinessRuleViolationError('This shift has already been clocked out');
+    }
+  }
+
+  private review(decision: TimeEntryReview['decision'], reviewedBy: string, comment?: string): void {
+    if (this.props.status !== TimeEntryStatus.COMPLETED) {
+      throw new BusinessRuleViolationError('Only clocked-out time entries can be reviewed', this.props.status);
+    }
+    if (reviewedBy.toLowerCase() === this.props.employee.toLowerCase()) {
+      throw new BusinessRuleViolationError('Employees cannot approve their own time');
+    }
+
+    const now = new Date();
+    this.props.reviews.push({
+      id: UniqueEntityId.create().toString(),
+      decision,
+      reviewedBy,
+      comment: comment?.trim() || undefined,
+      reviewedAt: now
+    });
+    this.props.status = decision;
+    this.props.updatedAt = now;
+  }
+
+  // Getters
+  get employee(): string { return this.props.employee; }
+  get propertyCode(): string | undefined { return this.props.propertyCode; }
+  get projectId(): string | undefined { return this.props.projectId; }
+  get siteName(): string | undefined { return this.props.siteName; }
+  get status(): TimeEntryStatus { return this.props.status; }
+  get clockInAt(): Date { return this.props.clockInAt; }
+  get clockOutAt(): Date | undefined { return this.props.clockOutAt; }
+  get breaks(): ReadonlyArray<TimeEntryBreak> { return this.props.breaks; }
+  get breakMinutesOverride(): number | undefined { return this.props.breakMinutesOverride; }
+  get clockInCheck(): LocationCheck { return this.props.clockInCheck; }
+  get clockOutCheck(): LocationCheck | undefined { return this.props.clockOutCheck; }
+  get notes(): string | undefined { return this.props.notes; }
+  get reviews(): ReadonlyArray<TimeEntryReview> { return this.props.reviews; }
+  get latestReview(): TimeEntryReview | undefined { return this.props.reviews[this.props.reviews.length - 1]; }
+  get corrections(): ReadonlyArray<TimeEntryCorrection> { return this.props.corrections; }
+  get createdAt(): Date { return this.props.createdAt; }
+  get updatedAt(): Date { return this.props.updatedAt; }
+
+  get onBreak(): boolean {
+    const current = this.props.breaks[this.props.breaks.length - 1];
+    return this.props.status === TimeEntryStatus.OPEN && !!current && !current.endedAt;
+  }
+
+  get breakMinutes(): number {
+    return this.breakMinutesAsOf(this.props.clockOutAt || new Date());
+  }
+
+  // Either punch landing outside the geofence is worth a supervisor's look
+  get locationFlagged(): boolean {
+    return this.props.clockInCheck.status === LocationCheckStatus.OUTSIDE
+      || this.props.clockOutCheck?.status === LocationCheckStatus.OUTSIDE;
+  }
+}
+
+// Domain Events
+export class EmployeeClockedInEvent extends DomainEventBase {
+  constructor(public readonly entry: TimeEntry) {
+    super();
+  }
+}
+
+export class EmployeeClockedOutEvent extends DomainEventBase {
+  constructor(public readonly entry: TimeEntry) {
+    super();
+  }
+}
+
+export class TimeEntryApprovedEvent extends DomainEventBase {
+  constructor(
+    public readonly entry: TimeEntry,
+    public readonly approvedBy: string
+  ) {
+    super();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,21 @@
+/**
+ * Time Entry Repository Interface - Domain Layer
+ * Defines time clock data access operations
+ */
+
+import { TimeEntry, TimeEntryStatus } from './TimeEntry';
+import { UniqueEntityId } from '../shared/UniqueEntityId';
+
+export interface TimeEntryRepository {
+  // Basic CRUD operations
+  save(entry: TimeEntry): Promise<void>;
+  findById(id: UniqueEntityId): Promise<TimeEntry | null>;
+  findAll(): Promise<TimeEntry[]>; // Most recent clock-in first
+  delete(id: UniqueEntityId): Promise<void>;
+
+  // Query operations
+  findByStatus(status: TimeEntryStatus): Promise<TimeEntry[]>;
+  findByEmployee(employee: string): Promise<TimeEntry[]>;
+  findOpenByEmployee(employee: string): Promise<TimeEntry | null>;
+  findClockedInBetween(from: Date, to: Date): Promise<TimeEntry[]>; // Clock-in at or after from, before to
+}
\ No newline at end of file
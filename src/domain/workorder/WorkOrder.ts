@@ -0,0 +1,318 @@
+/**
+ * Work Order Aggregate Root - Field service requests
+ * A snow or ice job at a property, tracked from request through dispatch to verified completion
+ */
+
+import { AggregateRoot } from '../shared/AggregateRoot';
+import { UniqueEntityId } from '../shared/UniqueEntityId';
+import { DomainEventBase } from '../shared/Entity';
+import { BusinessRuleViolationError, DomainValidationError } from '../shared/DomainError';
+import { WorkOrderStatus, assertWorkOrderStatusTransition, OPEN_WORK_ORDER_STATUSES } from './WorkOrderStatus';
+
+export { WorkOrderStatus };
+
+export enum SnowServiceType {
+  SNOW_REMOVAL = 'snow-removal',
+  ICE_TREATMENT = 'ice-treatment',
+  SIDEWALK_CLEARING = 'sidewalk-clearing',
+  PARKING_LOT_CLEARING = 'parking-lot-clearing',
+  EMERGENCY_RESPONSE = 'emergency-response'
+}
+
+export enum WorkOrderPriority {
+  STANDARD = 'standard',
+  HIGH = 'high',
+  URGENT = 'urgent',
+  EMERGENCY = 'emergency'
+}
+
+// Higher ranks are dispatched first
+const PRIORITY_RANK: Record<WorkOrderPriority, number> = {
+  [WorkOrderPriority.EMERGENCY]: 3,
+  [WorkOrderPriority.URGENT]: 2,
+  [WorkOrderPriority.HIGH]: 1,
+  [WorkOrderPriority.STANDARD]: 0
+};
+
+export interface WorkOrderStatusChange {
+  id: string;
+  fromStatus: WorkOrderStatus | null;
+  toStatus: WorkOrderStatus;
+  changedBy?: string;
+  notes?: string;
+  changedAt: Date;
+}
+
+export interface WorkOrderStormRun {
+  stormEventId: string;
+  route: string;
+  sequence: number; // Stop number within the route, starting at 1
+}
+
+export interface WorkOrderProps {
+  propertyCode: string;
+  clientName: string;
+  serviceAddress: string;
+  zipCode: string;
+  serviceType: SnowServiceType;
+  priority: WorkOrderPriority;
+  scheduledDate: Date;
+  estimatedHours: number;
+  equipmentRequired: string[];
+  specialInstructions?: string;
+  weatherConditions?: string;
+  accessNotes?: string;
+  status: WorkOrderStatus;
+  assignedTo?: string; // Crew member responsible once dispatched
+  requestedBy: string;
+  completionNotes?: string;
+  verifiedBy?: string;
+  storm?: WorkOrderStormRun; // Set when generated by a storm event declaration
+  statusHistory: WorkOrderStatusChange[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class WorkOrder extends AggregateRoot<UniqueEntityId> {
+  private constructor(id: UniqueEntityId, private props: WorkOrderProps) {
+    super(id);
+  }
+
+  static create(props: {
+    propertyCode: string;
+    clientName: string;
+    serviceAddress: string;
+    zipCode: string;
+    serviceType?: string;
+    priority?: string;
+    scheduledDate: Date;
+    estimatedHours?: number;
+    equipmentRequired?: string[];
+    specialInstructions?: string;
+    weatherConditions?: string;
+    accessNotes?: string;
+    requestedBy: string;
+    storm?: WorkOrderStormRun;
+  }): WorkOrder {
+    // Domain validation
+    this.validateRequired('propertyCode', props.propertyCode, 2, 50);
+    this.validateRequired('clientName', props.clientName, 2, 255);
+    this.validateRequired('serviceAddress', props.serviceAddress, 5, 500);
+    this.validateRequired('requestedBy', props.requestedBy, 2, 255);
+
+    if (!props.zipCode || !/^\d{5}(-\d{4})?$/.test(props.zipCode.trim())) {
+      throw new DomainValidationError('zipCode', 'Must be a 5-digit ZIP code');
+    }
+
+    if (!(props.scheduledDate instanceof Date) || isNaN(props.scheduledDate.getTime())) {
+      throw new DomainValidationError('scheduledDate', 'Must be a valid date');
+    }
+
+    const estimatedHours = props.estimatedHours ?? 1;
+    if (!Number.isFinite(estimatedHours) || estimatedHours <= 0 || estimatedHours > 24) {
+      throw new DomainValidationError('estimatedHours', 'Must be between 0 and 24 hours');
+    }
+
+    const id = UniqueEntityId.create();
+    const now = new Date();
+
+    const workOrder = new WorkOrder(id, {
+      propertyCode: props.propertyCode.trim().toUpperCase(),
+      clientName: props.clientName.trim(),
+      serviceAddress: props.serviceAddress.trim(),
+      zipCode: props.zipCode.trim(),
+      serviceType: this.parseEnum('serviceType', SnowServiceType, props.serviceType || SnowServiceType.SNOW_REMOVAL),
+      priority: this.parseEnum('priority', WorkOrderPriority, props.priority || WorkOrderPriority.STANDARD),
+      scheduledDate: props.scheduledDate,
+      estimatedHours,
+      equipmentRequired: (props.equipmentRequired || []).map(item => item.trim()).filter(Boolean),
+      specialInstructions: props.specialInstructions?.trim() || undefined,
+      weatherConditions: props.weatherConditions?.trim() || undefined,
+      accessNotes: props.accessNotes?.trim() || undefined,
+      status: WorkOrderStatus.REQUESTED,
+      requestedBy: props.requestedBy.trim(),
+      storm: props.storm,
+      statusHistory: [{
+        id: UniqueEntityId.create().toString(),
+        fromStatus: null,
+        toStatus: WorkOrderStatus.REQUESTED,
+        changedBy: props.requestedBy.trim(),
+        changedAt: now
+      }],
+      createdAt: now,
+      updatedAt: now
+    });
+
+    workOrder.addDomainEvent(new WorkOrderRequestedEvent(workOrder));
+    return workOrder;
+  }
+
+  static reconstitute(id: UniqueEntityId, props: WorkOrderProps): WorkOrder {
+    return new WorkOrder(id, props);
+  }
+
+  // Dispatch board order: most urgent first, then earliest scheduled, then storm route stops, then oldest request
+  static compareForDispatch(a: WorkOrder, b: WorkOrder): number {
+    return PRIORITY_RANK[b.priority] - PRIORITY_RANK[a.priority]
+      || a.scheduledDate.getTime() - b.scheduledDate.getTime()
+      || (a.storm && b.storm
+        ? a.storm.route.localeCompare(b.storm.route) || a.storm.sequence - b.storm.sequence
+        : 0)
+      || a.createdAt.getTime() - b.createdAt.getTime();
+  }
+
+  private static validateRequired(field: string, value: string, min: number, max: number): void {
+    if (!value || value.trim().length < min) {
+      throw new DomainValidationError(field, `Must be at least ${min} characters`);
+    }
+    if (value.trim().length > max) {
+      throw new DomainValidationError(field, `Must not exceed ${max} characters`);
+    }
+  }
+
+  private static parseEnum<T extends string>(field: string, values: Record<string, T>, value: string): T {
+    const valid = Object.values(values) as string[];
+    if (!valid.includes(value)) {
+      throw new DomainValidationError(field, `Must be one of: ${valid.join(', ')}`);
+    }
+    return value as T;
+  }
+
+  // Business Methods
+  dispatch(assignee: string, dispatchedBy?: string): void {
+    if (!assignee || !assignee.trim()) {
+      throw new DomainValidationError('assignedTo', 'Assignee is required');
+    }
+
+    const previousAssignee = this.props.assignedTo;
+    this.props.assignedTo = assignee.trim();
+    this.transitionTo(WorkOrderStatus.DISPATCHED, {
+      changedBy: dispatchedBy,
+      notes: previousAssignee && previousAssignee !== this.props.assignedTo
+        ? `Reassigned from ${previousAssignee} to ${this.props.assignedTo}`
+        : `Dispatched to ${this.props.assignedTo}`
+    });
+    this.addDomainEvent(new WorkOrderDispatchedEvent(this, this.props.assignedTo, previousAssignee));
+  }
+
+  // Crew members pick up unassigned orders themselves from the field
+  claim(employee: string): void {
+    if (this.props.status !== WorkOrderStatus.REQUESTED) {
+      throw new BusinessRuleViolationError('Work order has already been dispatched', this.props.assignedTo);
+    }
+
+    this.dispatch(employee, employee);
+  }
+
+  startTravel(performedBy: string): void {
+    this.ensureAssignee(performedBy);
+    this.transitionTo(WorkOrderStatus.EN_ROUTE, { changedBy: performedBy });
+  }
+
+  arriveOnSite(performedBy: string): void {
+    this.ensureAssignee(performedBy);
+    this.transitionTo(WorkOrderStatus.ON_SITE, { changedBy: performedBy });
+  }
+
+  complete(performedBy: string, notes?: string): void {
+    this.ensureAssignee(performedBy);
+    this.props.completionNotes = notes?.trim() || undefined;
+    this.transitionTo(WorkOrderStatus.COMPLETE, { changedBy: performedBy, notes: this.props.completionNotes });
+  }
+
+  verify(verifiedBy: string): void {
+    this.transitionTo(WorkOrderStatus.VERIFIED, { changedBy: verifiedBy });
+    this.props.verifiedBy = verifiedBy;
+  }
+
+  // Supervisor rejected the completed work; the crew member goes back on site
+  sendBack(reviewedBy: string, reason: string): void {
+    if (!reason || !reason.trim()) {
+      throw new DomainValidationError('reason', 'A reason is required to send work back');
+    }
+
+    this.transitionTo(WorkOrderStatus.ON_SITE, { changedBy: reviewedBy, notes: reason.trim() });
+  }
+
+  isOpen(): boolean {
+    return OPEN_WORK_ORDER_STATUSES.includes(this.props.status);
+  }
+
+  private ensureAssignee(performedBy: string): void {
+    if (!this.props.assignedTo || this.props.assignedTo !== performedBy) {
+      throw new BusinessRuleViolationError('Only the assigned crew member can update this work order');
+    }
+  }
+
+  private transitionTo(status: WorkOrderStatus, options: { changedBy?: string; notes?: string } = {}): void {
+    assertWorkOrderStatusTransition(this.props.status, status);
+
+    const now = new Date();
+    const fromStatus = this.props.status;
+
+    this.props.statusHistory.push({
+      id: UniqueEntityId.create().toString(),
+      fromStatus,
+      toStatus: status,
+      changedBy: options.changedBy,
+      notes: options.notes,
+      changedAt: now
+    });
+    this.props.status = status;
+    this.props.updatedAt = now;
+
+    if (fromStatus !== status) {
+      this.addDomainEvent(new WorkOrderStatusChangedEvent(this, fromStatus, status));
+    }
+  }
+
+  // Getters
+  get propertyCode(): string { return this.props.propertyCode; }
+  get clientName(): string { return this.props.clientName; }
+  get serviceAddress(): string { return this.props.serviceAddress; }
+  get zipCode(): string { return this.props.zipCode; }
+  get serviceType(): SnowServiceType { return this.props.serviceType; }
+  get priority(): WorkOrderPriority { return this.props.priority; }
+  get scheduledDate(): Date { return this.props.scheduledDate; }
+  get estimatedHours(): number { return this.props.estimatedHours; }
+  get equipmentRequired(): ReadonlyArray<string> { return this.props.equipmentRequired; }
+  get specialInstructions(): string | undefined { return this.props.specialInstructions; }
+  get weatherConditions(): string | undefined { return this.props.weatherConditions; }
+  get accessNotes(): string | undefined { return this.props.accessNotes; }
+  get status(): WorkOrderStatus { return this.props.status; }
+  get assignedTo(): string | undefined { return this.props.assignedTo; }
+  get requestedBy(): string { return this.props.requestedBy; }
+  get completionNotes(): string | undefined { return this.props.completionNotes; }
+  get verifiedBy(): string | undefined { return this.props.verifiedBy; }
+  get storm(): WorkOrderStormRun | undefined { return this.props.storm; }
+  get statusHistory(): ReadonlyArray<WorkOrderStatusChange> { return this.props.statusHistory; }
+  get createdAt(): Date { return this.props.createdAt; }
+  get updatedAt(): Date { return this.props.updatedAt; }
+}
+
+// Domain Events
+export class WorkOrderRequestedEvent extends DomainEventBase {
+  constructor(public readonly workOrder: WorkOrder) {
+    super();
+  }
+}
+
+export class WorkOrderDispatchedEvent extends DomainEventBase {
+  constructor(
+    public readonly workOrder: WorkOrder,
+    public readonly assignee: string,
+    public readonly previousAssignee?: string
+  ) {
+    super();
+  }
+}
+
+export class WorkOrderStatusChangedEvent extends DomainEventBase {
+  constructor(
+    public readonly workOrder: WorkOrder,
+    public readonly fromStatus: WorkOrderStatus,
+    public readonly toStatus: WorkOrderStatus
+  ) {
+    super();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,21 @@
+/**
+ * Work Order Repository Interface - Domain Layer
+ * Defines work order data access operations
+ */
+
+import { WorkOrder, WorkOrderStatus } from './WorkOrder';
+import { UniqueEntityId } from '../shared/UniqueEntityId';
+
+export interface WorkOrderRepository {
+  // Basic CRUD operations
+  save(workOrder: WorkOrder): Promise<void>;
+  findById(id: UniqueEntityId): Promise<WorkOrder | null>;
+  findAll(): Promise<WorkOrder[]>;
+  delete(id: UniqueEntityId): Promise<void>;
+
+  // Query operations
+  findByStatus(statuses: ReadonlyArray<WorkOrderStatus>): Promise<WorkOrder[]>;
+  findByAssignee(assignee: string): Promise<WorkOrder[]>;
+  findByPropertyCode(propertyCode: string): Promise<WorkOrder[]>;
+  findByStormEventId(stormEventId: string): Promise<WorkOrder[]>;
+}
\ No newline at end of file
@@ -0,0 +1,55 @@
+/**
+ * Work Order Status - Field work lifecycle
+ * Requested by staff, dispatched to a crew member, worked on site and verified by a supervisor
+ */
+
+import { BusinessRuleViolationError, DomainValidationError } from '../shared/DomainError';
+
+export enum WorkOrderStatus {
+  REQUESTED = 'requested',
+  DISPATCHED = 'dispatched',
+  EN_ROUTE = 'en_route',
+  ON_SITE = 'on_site',
+  COMPLETE = 'complete',
+  VERIFIED = 'verified'
+}
+
+// Every allowed move; anything not listed here is rejected
+export const WORK_ORDER_STATUS_TRANSITIONS: Readonly<Record<WorkOrderStatus, ReadonlyArray<WorkOrderStatus>>> = {
+  [WorkOrderStatus.REQUESTED]: [WorkOrderStatus.DISPATCHED],
+  [WorkOrderStatus.DISPATCHED]: [WorkOrderStatus.DISPATCHED, WorkOrderStatus.EN_ROUTE], // Re-dispatching hands the order to another crew member
+  [WorkOrderStatus.EN_ROUTE]: [WorkOrderStatus.DISPATCHED, WorkOrderStatus.ON_SITE],
+  [WorkOrderStatus.ON_SITE]: [WorkOrderStatus.COMPLETE],
+  [WorkOrderStatus.COMPLETE]: [WorkOrderStatus.VERIFIED, WorkOrderStatus.ON_SITE], // A supervisor can send incomplete work back
+  [WorkOrderStatus.VERIFIED]: []
+};
+
+// Orders still needing crew work; complete orders wait on a supervisor instead
+export const OPEN_WORK_ORDER_STATUSES: ReadonlyArray<WorkOrderStatus> = [
+  WorkOrderStatus.REQUESTED,
+  WorkOrderStatus.DISPATCHED,
+  WorkOrderStatus.EN_ROUTE,
+  WorkOrderStatus.ON_SITE
+];
+
+export function isWorkOrderStatus(value: unknown): value is WorkOrderStatus {
+  return Object.values(WorkOrderStatus).includes(value as WorkOrderStatus);
+}
+
+export function parseWorkOrderStatus(value: string): WorkOrderStatus {
+  const normalized = value?.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if (!isWorkOrderStatus(normalized)) {
+    throw new DomainValidationError('status', `Unknown work order status "${value}"`);
+  }
+  return normalized;
+}
+
+export function canTransitionWorkOrderStatus(from: WorkOrderStatus, to: WorkOrderStatus): boolean {
+  return WORK_ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function assertWorkOrderStatusTransition(from: WorkOrderStatus, to: WorkOrderStatus): void {
+  if (!canTransitionWorkOrderStatus(from, to)) {
+    throw new BusinessRuleViolationError('Invalid work order status transition', `${from} -> ${to}`);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,87 @@
+/**
+ * Alerting System Inventory Alert Notifier - Infrastructure Layer
+ * Routes reorder and maintenance alerts through the observability AlertingSystem
+ */
+
+import { InventoryAlertNotifier } from '../../domain/services/InventoryAlertNotifier';
+import { InventoryItem } from '../../domain/inventory/InventoryItem';
+import { Equipment } from '../../domain/inventory/Equipment';
+import type { AlertingSystem } from '../../observability/AlertingSystem';
+
+const REORDER_RULE = 'inventory_reorder';
+const MAINTENANCE_RULE = 'equipment_maintenance_due';
+
+export class AlertingSystemInventoryAlertNotifier implements InventoryAlertNotifier {
+  private alerting: Promise<AlertingSystem> | null = null;
+
+  async reorderNeeded(item: InventoryItem): Promise<void> {
+    const alerting = await this.getAlertingSystem();
+    const shortfall = Math.max(item.reorderThreshold - item.onHand, 0);
+
+    alerting.createAlert(
+      REORDER_RULE,
+      `Reorder ${item.name} at ${item.yard}`,
+      `${item.sku} is down to ${item.onHand} ${item.unit} (reorder at ${item.reorderThreshold}). `
+        + `Suggested order: ${Math.max(item.reorderQuantity, shortfall)} ${item.unit}.`,
+      'inventory.on_hand',
+      item.onHand,
+      item.reorderThreshold,
+      item.onHand <= 0 ? 'high' : 'medium',
+      { component: 'inventory', operation: `${item.sku}@${item.yard}`, sku: item.sku, yard: item.yard }
+    );
+  }
+
+  async stockReplenished(item: InventoryItem): Promise<void> {
+    const alerting = await this.getAlertingSystem();
+    const operation = `${item.sku}@${item.yard}`;
+
+    for (const alert of alerting.getActiveAlerts()) {
+      if (alert.ruleId === REORDER_RULE && alert.operation === operation) {
+        alerting.resolveAlert(alert.id, 'inventory', `Stock back to ${item.onHand} ${item.unit}`);
+      }
+    }
+  }
+
+  async maintenanceDue(equipment: Equipment): Promise<void> {
+    const alerting = await this.getAlertingSystem();
+    const overdue = equipment.isMaintenanceOverdue();
+    const dueDate = equipment.maintenanceDueAt.toISOString().split('T')[0];
+
+    alerting.createAlert(
+      MAINTENANCE_RULE,
+      `${equipment.name} (${equipment.assetTag}) ${overdue ? 'is overdue for' : 'is due for'} maintenance`,
+      `${equipment.category} at ${equipment.yard}, maintenance due ${dueDate}`,
+      'equipment.maintenance_due',
+      Math.round((equipment.maintenanceDueAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000)),
+      0,
+      overdue ? 'high' : 'low',
+      { component: 'equipment', operation: equipment.assetTag, yard: equipment.yard }
+    );
+  }
+
+  // Loaded on first use so the alerting timers only start in processes that raise inventory alerts
+  private getAlertingSystem(): Promise<AlertingSystem> {
+    if (!this.alerting) {
+      this.alerting = import('../../observability/AlertingSystem').then(({ alertingSystem }) => {
+        // Manual rules: no metric conditions, so the evaluator never fires them on its own
+        for (const [id, name, description] of [
+          [REORDER_RULE, 'Inventory Reorder', 'Material stock is at or below its reorder threshold'],
+          [MAINTENANCE_RULE, 'Equipment Maintenance Due', 'Equipment is due or overdue for scheduled maintenance']
+        ]) {
+          alertingSystem.addAlertRule({
+            id,
+            name,
+            description,
+            enabled: true,
+            conditions: [],
+            severity: 'medium',
+            channels: ['console'],
+            cooldownPeriod: 0
+          });
+        }
+        return alertingSystem;
+      });
+    }
+    return this.alerting;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,89 @@
+/**
+ * Cached Session Store - Infrastructure Layer
+ * Puts a CacheProvider in front of another SessionStore for the per-request session lookup.
+ * Writes and revocations evict the cached entries; with a shared cache (Redis and the like) that
+ * reaches every instance at once, with the in-process cache other instances see it within the TTL.
+ */
+
+import { SessionStore, StoredSession } from '../../auth/types';
+import { CacheProvider } from './CacheProvider';
+
+const DATE_FIELDS = ['signedInAt', 'createdAt', 'lastActiveAt', 'expiresAt', 'refreshExpiresAt', 'rotatedAt', 'revokedAt'] as const;
+
+// Cache providers that serialize values hand dates back as strings
+const revive = (cached: StoredSession): StoredSession => {
+  const session = { ...cached };
+  for (const field of DATE_FIELDS) {
+    if (session[field]) {
+      session[field] = new Date(session[field] as Date);
+    }
+  }
+  return session;
+};
+
+export class CachedSessionStore implements SessionStore {
+  constructor(
+    private readonly store: SessionStore,
+    private readonly cache: CacheProvider,
+    private readonly ttlSeconds: number = 30
+  ) {}
+
+  async save(session: StoredSession): Promise<void> {
+    await this.store.save(session);
+    await this.evict([session.id]);
+  }
+
+  async findById(id: string): Promise<StoredSession | null> {
+    const cached = await this.cache.get<StoredSession>(this.key(id));
+    if (cached) {
+      return revive(cached);
+    }
+
+    const session = await this.store.findById(id);
+    if (session) {
+      await this.cache.set(this.key(id), session, this.ttlSeconds);
+    }
+    return session;
+  }
+
+  // Refreshing is rare and must see the latest rotation, so it always goes to the store
+  async findByRefreshTokenHash(refreshTokenHash: string): Promise<StoredSession | null> {
+    return this.store.findByRefreshTokenHash(refreshTokenHash);
+  }
+
+  async findActive(userId?: string): Promise<StoredSession[]> {
+    return this.store.findActive(userId);
+  }
+
+  async markRotated(id: string, rotatedAt: Date): Promise<boolean> {
+    const rotated = await this.store.markRotated(id, rotatedAt);
+    await this.evict([id]);
+    return rotated;
+  }
+
+  async revokeFamily(familyId: string, reason: string): Promise<string[]> {
+    const revoked = await this.store.revokeFamily(familyId, reason);
+    await this.evict(revoked);
+    return revoked;
+  }
+
+  async revokeByUser(userId: string, reason: string, exceptFamilyId?: string): Promise<string[]> {
+    const revoked = await this.store.revokeByUser(userId, reason, exceptFamilyId);
+    await this.evict(revoked);
+    return revoked;
+  }
+
+  async deleteExpired(now: Date): Promise<number> {
+    return this.store.deleteExpired(now);
+  }
+
+  private key(id: string): string {
+    return `session:${id}`;
+  }
+
+  private async evict(ids: string[]): Promise<void> {
+    if (ids.length > 0) {
+      await this.cache.mdel(ids.map(id => this.key(id)));
+    }
+  }
+}
\ No newline at end of file
@@ -19,13 +19,21 @@ import {
   MoveQuoteToReviewCommandHandler,
   SendQuoteCommandHandler,
   UpdateQuotePriorityCommandHandler,
-  RejectQuoteCommandHandler
+  RejectQuoteCommandHandler,
+  AcceptQuoteCommandHandler,
+  AssignQuoteCommandHandler,
+  AnnotateQuoteCommandHandler,
+  ReopenQuoteCommandHandler,
+  DeleteQuoteCommandHandler,
+  MergeQuoteCommandHandler,
+  DismissDuplicateQuoteCommandHandler
 } from '../../application/handlers/commands/ProcessQuoteCommandHandler';
 import { SubmitJobApplicationCommandHandler } from '../../application/handlers/commands/SubmitJobApplicationCommandHandler';
 
 // Query Handlers
 import { GetQuoteListQueryHandler } from '../../application/handlers/queries/GetQuoteListQueryHandler';
 import { GetQuoteDetailsQueryHandler } from '../../application/handlers/queries/GetQuoteDetailsQueryHandler';
+import { GetQuoteStatusCountsQueryHandler } from '../../application/handlers/queries/GetQuoteStatusCountsQueryHandler';
 
 // Commands
 import { SubmitQuoteRequestCommand } from '../../application/commands/quote/SubmitQuoteRequestCommand';
@@ -33,21 +41,31 @@ import {
   MoveQuoteToReviewCommand,
   SendQuoteCommand,
   UpdateQuotePriorityCommand,
-  RejectQuoteCommand
+  RejectQuoteCommand,
+  AcceptQuoteCommand,
+  AssignQuoteCommand,
+  AnnotateQuoteCommand,
+  ReopenQuoteCommand,
+  DeleteQuoteCommand,
+  MergeQuoteCommand,
+  DismissDuplicateQuoteCommand
 } from '../../application/commands/quote/ProcessQuoteCommand';
 import { SubmitJobApplicationCommand } from '../../application/commands/application/SubmitJobApplicationCommand';
 
 // Queries
 import { GetQuoteListQuery } from '../../application/queries/quote/GetQuoteListQuery';
 import { GetQuoteDetailsQuery } from '../../application/queries/quote/GetQuoteDetailsQuery';
+import { GetQuoteStatusCountsQuery } from '../../application/queries/quote/GetQuoteStatusCountsQuery';
 
 // Middleware
 import { CommandLoggingMiddleware } from '../../application/middleware/CommandLoggingMiddleware';
 import { CommandValidationMiddleware } from '../../application/middleware/CommandValidationMiddleware';
 import { PerformanceMiddleware, InMemoryPerformanceMonitor } from '../../application/middleware/PerformanceMiddleware';
+import { QueryCacheInvalidationMiddleware } from '../../application/middleware/QueryCacheInvalidationMiddleware';
 
 // Domain Services (from existing container)
 import { container as domainContainer } from '../di/Container';
+import { getQuoteConversionService } from '../repositories/RepositoryProvider';
 
 export interface CQRSContainer {
   // Dispatchers
@@ -86,7 +104,7 @@ export class CQRSDIContainer implements CQRSContainer {
     this.queryDispatcher = new InMemoryQueryDispatcher(queryCache);
 
     // Setup middleware
-    this.setupCommandMiddleware();
+    this.setupCommandMiddleware(queryCache);
 
     // Register command handlers
     this.registerCommandHandlers();
@@ -113,13 +131,14 @@ export class CQRSDIContainer implements CQRSContainer {
     return CQRSDIContainer.instance;
   }
 
-  private setupCommandMiddleware(): void {
+  private setupCommandMiddleware(queryCache: InMemoryQueryCache): void {
     const commandDispatcher = this.commandDispatcher as InMemoryCommandDispatcher;
     
     // Add middleware in order of execution
     commandDispatcher.addMiddleware(new CommandLoggingMiddleware());
     commandDispatcher.addMiddleware(new CommandValidationMiddleware());
     commandDispatcher.addMiddleware(new PerformanceMiddleware(this.performanceMonitor));
+    commandDispatcher.addMiddleware(new QueryCacheInvalidationMiddleware(queryCache));
   }
 
   private registerCommandHandlers(): void {
@@ -130,7 +149,9 @@ export class CQRSDIContainer implements CQRSContainer {
         domainContainer.quoteRepository,
         domainContainer.notificationService,
         domainContainer.fileStorageService,
-        domainContainer.eventPublisher
+        domainContainer.eventPublisher,
+        domainContainer.quoteAssignmentService,
+        domainContainer.quoteDuplicateDetectionService
       )
     );
 
@@ -165,6 +186,61 @@ export class CQRSDIContainer implements CQRSContainer {
       )
     );
 
+    this.commandDispatcher.register(
+      AcceptQuoteCommand,
+      new AcceptQuoteCommandHandler(
+        domainContainer.quoteRepository,
+        domainContainer.eventPublisher,
+        getQuoteConversionService
+      )
+    );
+
+    this.commandDispatcher.register(
+      AssignQuoteCommand,
+      new AssignQuoteCommandHandler(
+        domainContainer.quoteRepository,
+        domainContainer.eventPublisher,
+        domainContainer.quoteAssignmentService
+      )
+    );
+
+    this.commandDispatcher.register(
+      AnnotateQuoteCommand,
+      new AnnotateQuoteCommandHandler(
+        domainContainer.quoteRepository
+      )
+    );
+
+    this.commandDispatcher.register(
+      ReopenQuoteCommand,
+      new ReopenQuoteCommandHandler(
+        domainContainer.quoteRepository,
+        domainContainer.eventPublisher
+      )
+    );
+
+    this.commandDispatcher.register(
+      DeleteQuoteCommand,
+      new DeleteQuoteCommandHandler(
+        domainContainer.quoteRepository
+      )
+    );
+
+    this.commandDispatcher.register(
+      MergeQuoteCommand,
+      new MergeQuoteCommandHandler(
+        domainContainer.quoteRepository,
+        domainContainer.eventPublisher
+      )
+    );
+
+    this.commandDispatcher.register(
+      DismissDuplicateQuoteCommand,
+      new DismissDuplicateQuoteCommandHandler(
+        domainContainer.quoteRepository
+      )
+    );
+
     // Job application command handlers
     this.commandDispatcher.register(
       SubmitJobApplicationCommand,
@@ -193,6 +269,13 @@ export class CQRSDIContainer implements CQRSContainer {
         domainContainer.fileStorageService
       )
     );
+
+    this.queryDispatcher.register(
+      GetQuoteStatusCountsQuery,
+      new GetQuoteStatusCountsQueryHandler(
+        domainContainer.quoteRepository
+      )
+    );
   }
 
   // Development/testing helpers
@@ -10,6 +10,11 @@ import {
   QueryCache
 } from '../../application/cqrs/Query';
 
+// Set fresh on every dispatch, so keying on them would make every lookup a miss. userId is among them because
+// no query handler reads it: routes check access before dispatching, and results never vary by user.
+// A handler that starts filtering by user must take the user as a query parameter instead.
+const DISPATCH_METADATA_FIELDS: ReadonlySet<string> = new Set(['queryId', 'timestamp', 'correlationId', 'userId']);
+
 export class InMemoryQueryDispatcher implements QueryDispatcher {
   private handlers = new Map<string, QueryHandler<Query, unknown>>();
   private cache?: QueryCache;
@@ -68,11 +73,9 @@ export class InMemoryQueryDispatcher implements QueryDispatcher {
 
   private generateCacheKey(query: Query): string {
     const queryName = query.constructor.name;
-    const queryData = JSON.stringify({
-      filters: query.filters,
-      pagination: query.pagination,
-      sorting: query.sorting
-    });
+    // Key on every query parameter (e.g. quoteId) but not on per-dispatch metadata
+    const parameters = Object.entries(query).filter(([field]) => !DISPATCH_METADATA_FIELDS.has(field));
+    const queryData = JSON.stringify(Object.fromEntries(parameters));
     
     return `query:${queryName}:${Buffer.from(queryData).toString('base64')}`;
   }
@@ -3,38 +3,167 @@
  * Clean Architecture: Wires together all dependencies
  */
 
+import crypto from 'crypto';
+
 // Domain Interfaces
 import { QuoteRepository } from '../../domain/quote/QuoteRepository';
 import { JobApplicationRepository } from '../../domain/application/JobApplicationRepository';
+import { ProjectRepository } from '../../domain/project/ProjectRepository';
+import { WorkOrderRepository } from '../../domain/workorder/WorkOrderRepository';
+import { StormEventRepository } from '../../domain/storm/StormEventRepository';
+import { ServiceLogRepository } from '../../domain/servicelog/ServiceLogRepository';
+import { InventoryItemRepository } from '../../domain/inventory/InventoryItemRepository';
+import { EquipmentRepository } from '../../domain/inventory/EquipmentRepository';
+import { TimeEntryRepository } from '../../domain/timesheet/TimeEntryRepository';
+import { TimesheetPolicy } from '../../domain/timesheet/PayPeriod';
+import { InvoiceRepository } from '../../domain/invoice/InvoiceRepository';
+import { InvoiceNumberAllocator } from '../../domain/invoice/InvoiceNumberAllocator';
+import { ContractRepository } from '../../domain/contract/ContractRepository';
+import { ContractIdAllocator } from '../../domain/contract/ContractIdAllocator';
+import { ContractConversionStore } from '../../domain/contract/ContractConversionStore';
+import { ClientInvitationRepository } from '../../domain/clientaccount/ClientInvitationRepository';
+import { ClientUserStore } from '../../domain/clientaccount/ClientUserStore';
+import { IpCountryResolver, LoginAlertNotifier, LoginSecurityStore, RBACStore, SessionStore } from '../../auth/types';
+import { DEFAULT_LOGIN_POLICY, LoginPolicy } from '../../auth/login-policy';
+import { ContractLookupService } from '../../domain/services/ContractLookupService';
+import { QuoteAssignmentService, EstimatorRoster } from '../../domain/services/QuoteAssignmentService';
+import { QuoteDuplicateDetectionService } from '../../domain/services/QuoteDuplicateDetectionService';
+import { ServiceCategory } from '../../domain/shared/ServiceType';
+import { QuoteDocumentGenerator } from '../../domain/services/QuoteDocumentGenerator';
+import { ServiceReportExporter } from '../../domain/services/ServiceReportExporter';
+import { ServiceLogImporter } from '../../domain/services/ServiceLogImporter';
+import { InventoryAlertNotifier } from '../../domain/services/InventoryAlertNotifier';
+import { PayrollExporter } from '../../domain/services/PayrollExporter';
+import { InvoiceDocumentGenerator } from '../../domain/services/InvoiceDocumentGenerator';
+import { InvoiceMailer } from '../../domain/services/InvoiceMailer';
+import { ClientInvitationMailer } from '../../domain/services/ClientInvitationMailer';
+import { InvoicingPolicy } from '../../domain/services/InvoiceService';
+import { QuoteResponseTokenService } from '../../domain/services/QuoteResponseTokenService';
 import { NotificationService } from '../../domain/services/NotificationService';
 import { FileStorageService } from '../../domain/services/FileStorageService';
 import { DomainEventPublisher } from '../../domain/shared/DomainEventPublisher';
+import { JobScheduler, JobStateStore } from '../../application/jobs/ScheduledJob';
 
 // Infrastructure Implementations
 import { InMemoryQuoteRepository } from '../persistence/InMemoryQuoteRepository';
+import { FileQuoteRepository } from '../persistence/FileQuoteRepository';
 import { InMemoryJobApplicationRepository } from '../persistence/InMemoryJobApplicationRepository';
+import { InMemoryProjectRepository } from '../persistence/InMemoryProjectRepository';
+import { InMemoryWorkOrderRepository } from '../persistence/InMemoryWorkOrderRepository';
+import { FileWorkOrderRepository } from '../persistence/FileWorkOrderRepository';
+import { InMemoryStormEventRepository } from '../persistence/InMemoryStormEventRepository';
+import { FileStormEventRepository } from '../persistence/FileStormEventRepository';
+import { InMemoryServiceLogRepository } from '../persistence/InMemoryServiceLogRepository';
+import { FileServiceLogRepository } from '../persistence/FileServiceLogRepository';
+import { InMemoryInventoryItemRepository } from '../persistence/InMemoryInventoryItemRepository';
+import { FileInventoryItemRepository } from '../persistence/FileInventoryItemRepository';
+import { InMemoryEquipmentRepository } from '../persistence/InMemoryEquipmentRepository';
+import { FileEquipmentRepository } from '../persistence/FileEquipmentRepository';
+import { InMemoryTimeEntryRepository } from '../persistence/InMemoryTimeEntryRepository';
+import { FileTimeEntryRepository } from '../persistence/FileTimeEntryRepository';
+import { InMemoryInvoiceRepository } from '../persistence/InMemoryInvoiceRepository';
+import { FileInvoiceRepository } from '../persistence/FileInvoiceRepository';
+import { InMemoryInvoiceNumberAllocator } from '../persistence/InMemoryInvoiceNumberAllocator';
+import { InMemoryPaymentAuditLog } from '../persistence/InMemoryPaymentAuditLog';
+import { FilePaymentAuditLog } from '../persistence/FilePaymentAuditLog';
+import { InMemoryContractRepository } from '../persistence/InMemoryContractRepository';
+import { InMemoryContractIdAllocator } from '../persistence/InMemoryContractIdAllocator';
+import { CompensatingContractConversionStore } from '../persistence/CompensatingContractConversionStore';
+import { InMemoryClientInvitationRepository } from '../persistence/InMemoryClientInvitationRepository';
+import { FileClientInvitationRepository } from '../persistence/FileClientInvitationRepository';
+import { FileRBACStore } from '../persistence/FileRBACStore';
+import { FileSessionStore } from '../persistence/FileSessionStore';
+import { FileLoginSecurityStore } from '../persistence/FileLoginSecurityStore';
+import { JsPdfQuoteDocumentGenerator } from '../documents/JsPdfQuoteDocumentGenerator';
+import { XlsxServiceReportExporter } from '../documents/XlsxServiceReportExporter';
+import { XlsxServiceLogImporter } from '../documents/XlsxServiceLogImporter';
+import { XlsxPayrollExporter } from '../documents/XlsxPayrollExporter';
+import { JsPdfInvoiceDocumentGenerator } from '../documents/JsPdfInvoiceDocumentGenerator';
+import { AlertingSystemInventoryAlertNotifier } from '../alerts/AlertingSystemInventoryAlertNotifier';
+import { JwtQuoteResponseTokenService } from '../security/JwtQuoteResponseTokenService';
+import { SecureUserManagerClientUserStore } from '../security/SecureUserManagerClientUserStore';
+import { CidrIpCountryResolver } from '../security/CidrIpCountryResolver';
 import { ConsoleNotificationService } from '../notifications/ConsoleNotificationService';
+import { EmailServiceInvoiceMailer } from '../notifications/EmailServiceInvoiceMailer';
+import { EmailServiceClientInvitationMailer } from '../notifications/EmailServiceClientInvitationMailer';
+import { EmailServiceLoginAlertNotifier } from '../notifications/EmailServiceLoginAlertNotifier';
 import { InMemoryFileStorageService } from '../storage/InMemoryFileStorageService';
 import { InMemoryEventPublisher } from '../events/InMemoryEventPublisher';
+import { InProcessJobScheduler } from '../scheduling/InProcessJobScheduler';
+import { FileJobStateStore } from '../scheduling/FileJobStateStore';
+import { PaymentProvider, PaymentProviderType } from '../payments/PaymentProvider';
+import { PaymentAuditLog } from '../payments/PaymentAuditLog';
+import { StripePaymentProvider } from '../payments/StripePaymentProvider';
+import { LocalPaymentProvider } from '../payments/LocalPaymentProvider';
 
 // Use Cases
 import { SubmitQuoteRequestUseCase } from '../../application/usecases/SubmitQuoteRequestUseCase';
 import { SubmitJobApplicationUseCase } from '../../application/usecases/SubmitJobApplicationUseCase';
 import { ProcessQuoteUseCase } from '../../application/usecases/ProcessQuoteUseCase';
 
+// Application Services
+import { ClientAccountService } from '../../application/services/ClientAccountService';
+
+// Jobs
+import { QuoteExpiryJob, QuoteExpiryJobOptions } from '../../application/jobs/QuoteExpiryJob';
+import { EquipmentMaintenanceJob, EquipmentMaintenanceJobOptions } from '../../application/jobs/EquipmentMaintenanceJob';
+import { InvoiceOverdueJob, InvoiceOverdueJobOptions } from '../../application/jobs/InvoiceOverdueJob';
+import { SessionCleanupJob, SessionCleanupJobOptions } from '../../application/jobs/SessionCleanupJob';
+import { LoginSecurityCleanupJob, LoginSecurityCleanupJobOptions } from '../../application/jobs/LoginSecurityCleanupJob';
+
 // Event Handlers
 import { QuoteEventHandler } from '../events/QuoteEventHandler';
 import { JobApplicationEventHandler } from '../events/JobApplicationEventHandler';
+import { ContractEventHandler } from '../events/ContractEventHandler';
 
 export interface Container {
   // Repositories
   quoteRepository: QuoteRepository;
   jobApplicationRepository: JobApplicationRepository;
+  projectRepository: ProjectRepository;
+  workOrderRepository: WorkOrderRepository;
+  stormEventRepository: StormEventRepository;
+  serviceLogRepository: ServiceLogRepository;
+  inventoryItemRepository: InventoryItemRepository;
+  equipmentRepository: EquipmentRepository;
+  timeEntryRepository: TimeEntryRepository;
+  invoiceRepository: InvoiceRepository;
+  contractRepository: ContractRepository;
+  clientInvitationRepository: ClientInvitationRepository;
+  rbacStore: RBACStore;
+  sessionStore: SessionStore;
+  loginSecurityStore: LoginSecurityStore;
   
   // Services
   notificationService: NotificationService;
   fileStorageService: FileStorageService;
   eventPublisher: DomainEventPublisher;
+  contractIdAllocator: ContractIdAllocator;
+  contractConversionStore: ContractConversionStore;
+  contractLookupService: ContractLookupService;
+  quoteAssignmentService: QuoteAssignmentService;
+  quoteDuplicateDetectionService: QuoteDuplicateDetectionService;
+  quoteDocumentGenerator: QuoteDocumentGenerator;
+  serviceReportExporter: ServiceReportExporter;
+  serviceLogImporter: ServiceLogImporter;
+  inventoryAlertNotifier: InventoryAlertNotifier;
+  payrollExporter: PayrollExporter;
+  timesheetPolicy: TimesheetPolicy;
+  invoiceNumberAllocator: InvoiceNumberAllocator;
+  invoiceDocumentGenerator: InvoiceDocumentGenerator;
+  invoiceMailer: InvoiceMailer;
+  invoicingPolicy: InvoicingPolicy;
+  paymentProvider: PaymentProvider;
+  paymentAuditLog: PaymentAuditLog;
+  quoteResponseTokenService: QuoteResponseTokenService;
+  clientUserStore: ClientUserStore;
+  clientInvitationMailer: ClientInvitationMailer;
+  clientAccountService: ClientAccountService;
+  ipCountryResolver: IpCountryResolver;
+  loginAlertNotifier: LoginAlertNotifier;
+  loginPolicy: LoginPolicy;
+  jobStateStore: JobStateStore;
+  jobScheduler: JobScheduler;
   
   // Use Cases
   submitQuoteRequestUseCase: SubmitQuoteRequestUseCase;
@@ -42,15 +171,185 @@ export interface Container {
   processQuoteUseCase: ProcessQuoteUseCase;
 }
 
+// QUOTE_REMINDER_DAYS is a comma-separated list of days before expiry, e.g. "7,2"
+function getQuoteExpiryJobOptions(): QuoteExpiryJobOptions {
+  const reminderOffsetsInDays = (process.env.QUOTE_REMINDER_DAYS || '7,2')
+    .split(',')
+    .map(value => parseFloat(value.trim()))
+    .filter(value => Number.isFinite(value) && value > 0);
+  const intervalMinutes = parseInt(process.env.QUOTE_EXPIRY_JOB_INTERVAL_MINUTES || '60', 10);
+
+  return {
+    reminderOffsetsInDays,
+    intervalMs: (intervalMinutes > 0 ? intervalMinutes : 60) * 60 * 1000
+  };
+}
+
+// EQUIPMENT_MAINTENANCE_WARNING_DAYS is how far ahead of the due date maintenance alerts start
+function getEquipmentMaintenanceJobOptions(): EquipmentMaintenanceJobOptions {
+  const warningDays = parseFloat(process.env.EQUIPMENT_MAINTENANCE_WARNING_DAYS || '7');
+  const intervalMinutes = parseInt(process.env.EQUIPMENT_MAINTENANCE_JOB_INTERVAL_MINUTES || '1440', 10);
+
+  return {
+    warningDays: Number.isFinite(warningDays) && warningDays >= 0 ? warningDays : 7,
+    intervalMs: (intervalMinutes > 0 ? intervalMinutes : 1440) * 60 * 1000
+  };
+}
+
+// TIMESHEET_PAY_PERIOD_START is the first day of any pay period (YYYY-MM-DD); work weeks start on the same weekday
+function getTimesheetPolicy(): TimesheetPolicy {
+  const overtimeHours = parseFloat(process.env.TIMESHEET_OVERTIME_WEEKLY_HOURS || '40');
+  const payPeriodDays = parseInt(process.env.TIMESHEET_PAY_PERIOD_DAYS || '14', 10);
+  const [year, month, day] = (process.env.TIMESHEET_PAY_PERIOD_START || '2026-01-04').split('-').map(Number);
+  const anchor = new Date(year, month - 1, day);
+  const geofenceMeters = parseInt(process.env.TIMESHEET_GEOFENCE_METERS || '150', 10);
+
+  return {
+    weeklyOvertimeThresholdHours: Number.isFinite(overtimeHours) && overtimeHours > 0 ? overtimeHours : 40,
+    payPeriodDays: payPeriodDays === 7 ? 7 : 14,
+    payPeriodAnchor: isNaN(anchor.getTime()) ? new Date(2026, 0, 4) : anchor,
+    geofenceRadiusMeters: geofenceMeters > 0 ? geofenceMeters : 150
+  };
+}
+
+// INVOICE_RATE_* are the customer prices for materials logged on approved service logs
+function getInvoicingPolicy(): InvoicingPolicy {
+  const rate = (name: string, fallback: number): number => {
+    const value = parseFloat(process.env[name] || String(fallback));
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+  const taxRatePercent = parseFloat(process.env.INVOICE_TAX_RATE || '0');
+  const paymentTermsDays = parseInt(process.env.INVOICE_PAYMENT_TERMS_DAYS || '30', 10);
+
+  return {
+    materialRates: {
+      iceMeltBags: rate('INVOICE_RATE_ICE_MELT_BAG', 25),
+      deicerGallons: rate('INVOICE_RATE_DEICER_GALLON', 4),
+      iceSlicerTons: rate('INVOICE_RATE_ICE_SLICER_TON', 180)
+    },
+    taxRatePercent: Number.isFinite(taxRatePercent) && taxRatePercent >= 0 && taxRatePercent <= 25 ? taxRatePercent : 0,
+    paymentTermsDays: paymentTermsDays >= 0 && paymentTermsDays <= 120 ? paymentTermsDays : 30
+  };
+}
+
+function getInvoiceOverdueJobOptions(): InvoiceOverdueJobOptions {
+  const intervalMinutes = parseInt(process.env.INVOICE_OVERDUE_JOB_INTERVAL_MINUTES || '360', 10);
+
+  return {
+    intervalMs: (intervalMinutes > 0 ? intervalMinutes : 360) * 60 * 1000
+  };
+}
+
+function getSessionCleanupJobOptions(): SessionCleanupJobOptions {
+  const intervalMinutes = parseInt(process.env.SESSION_CLEANUP_JOB_INTERVAL_MINUTES || '60', 10);
+
+  return {
+    intervalMs: (intervalMinutes > 0 ? intervalMinutes : 60) * 60 * 1000
+  };
+}
+
+// LOGIN_LOCKOUT_MINUTES is the first lock; each further lock within a day doubles it, up to LOGIN_MAX_LOCKOUT_HOURS
+function getLoginPolicy(): LoginPolicy {
+  const positive = (name: string, fallback: number): number => {
+    const value = parseFloat(process.env[name] || String(fallback));
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+  const minutes = 60 * 1000;
+
+  return {
+    ...DEFAULT_LOGIN_POLICY,
+    accountMaxFailures: Math.round(positive('LOGIN_MAX_FAILURES_PER_ACCOUNT', DEFAULT_LOGIN_POLICY.accountMaxFailures)),
+    ipMaxFailures: Math.round(positive('LOGIN_MAX_FAILURES_PER_IP', DEFAULT_LOGIN_POLICY.ipMaxFailures)),
+    baseLockoutMs: positive('LOGIN_LOCKOUT_MINUTES', DEFAULT_LOGIN_POLICY.baseLockoutMs / minutes) * minutes,
+    maxLockoutMs: positive('LOGIN_MAX_LOCKOUT_HOURS', DEFAULT_LOGIN_POLICY.maxLockoutMs / (60 * minutes)) * 60 * minutes,
+    historyDays: positive('LOGIN_HISTORY_DAYS', DEFAULT_LOGIN_POLICY.historyDays)
+  };
+}
+
+function getLoginSecurityCleanupJobOptions(): LoginSecurityCleanupJobOptions {
+  const intervalMinutes = parseInt(process.env.LOGIN_SECURITY_CLEANUP_JOB_INTERVAL_MINUTES || '360', 10);
+
+  return {
+    intervalMs: (intervalMinutes > 0 ? intervalMinutes : 360) * 60 * 1000
+  };
+}
+
+// PAYMENT_PROVIDER=stripe takes real payments; anything else uses the in-process fake
+function getPaymentProvider(): PaymentProvider {
+  if ((process.env.PAYMENT_PROVIDER || '').toLowerCase() === PaymentProviderType.STRIPE) {
+    const secretKey = process.env.STRIPE_SECRET_KEY;
+    const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!secretKey || !webhookSecret) {
+      throw new Error('PAYMENT_PROVIDER=stripe requires STRIPE_SECRET_KEY and STRIPE_WEBHOOK_SECRET');
+    }
+    return new StripePaymentProvider({ secretKey, webhookSecret });
+  }
+
+  // The fake signs and verifies its own webhooks, so a per-process secret is enough
+  return new LocalPaymentProvider(process.env.LOCAL_PAYMENTS_WEBHOOK_SECRET || crypto.randomBytes(32).toString('hex'));
+}
+
+// QUOTE_ESTIMATORS_<CATEGORY> lists who takes round-robin quotes, e.g. QUOTE_ESTIMATORS_SEASONAL="a@vsr.com,b@vsr.com"
+function getEstimatorRoster(): EstimatorRoster {
+  return Object.fromEntries(
+    Object.values(ServiceCategory).map(category => [
+      category,
+      (process.env[`QUOTE_ESTIMATORS_${category.toUpperCase()}`] || '')
+        .split(',')
+        .map(estimator => estimator.trim())
+        .filter(estimator => estimator.length > 0)
+    ])
+  );
+}
+
 export class DIContainer implements Container {
   private static instance: DIContainer;
   
   // Infrastructure
   public readonly quoteRepository: QuoteRepository;
   public readonly jobApplicationRepository: JobApplicationRepository;
+  public readonly projectRepository: ProjectRepository;
+  public readonly workOrderRepository: WorkOrderRepository;
+  public readonly stormEventRepository: StormEventRepository;
+  public readonly serviceLogRepository: ServiceLogRepository;
+  public readonly inventoryItemRepository: InventoryItemRepository;
+  public readonly equipmentRepository: EquipmentRepository;
+  public readonly timeEntryRepository: TimeEntryRepository;
+  public readonly invoiceRepository: InvoiceRepository;
+  public readonly contractRepository: ContractRepository;
+  public readonly clientInvitationRepository: ClientInvitationRepository;
+  public readonly rbacStore: RBACStore;
+  public readonly sessionStore: SessionStore;
+  public readonly loginSecurityStore: LoginSecurityStore;
   public readonly notificationService: NotificationService;
   public readonly fileStorageService: FileStorageService;
   public readonly eventPublisher: DomainEventPublisher;
+  public readonly contractIdAllocator: ContractIdAllocator;
+  public readonly contractConversionStore: ContractConversionStore;
+  public readonly contractLookupService: ContractLookupService;
+  public readonly quoteAssignmentService: QuoteAssignmentService;
+  public readonly quoteDuplicateDetectionService: QuoteDuplicateDetectionService;
+  public readonly quoteDocumentGenerator: QuoteDocumentGenerator;
+  public readonly serviceReportExporter: ServiceReportExporter;
+  public readonly serviceLogImporter: ServiceLogImporter;
+  public readonly inventoryAlertNotifier: InventoryAlertNotifier;
+  public readonly payrollExporter: PayrollExporter;
+  public readonly timesheetPolicy: TimesheetPolicy;
+  public readonly invoiceNumberAllocator: InvoiceNumberAllocator;
+  public readonly invoiceDocumentGenerator: InvoiceDocumentGenerator;
+  public readonly invoiceMailer: InvoiceMailer;
+  public readonly invoicingPolicy: InvoicingPolicy;
+  public readonly paymentProvider: PaymentProvider;
+  public readonly paymentAuditLog: PaymentAuditLog;
+  public readonly quoteResponseTokenService: QuoteResponseTokenService;
+  public readonly clientUserStore: ClientUserStore;
+  public readonly clientInvitationMailer: ClientInvitationMailer;
+  public readonly clientAccountService: ClientAccountService;
+  public readonly ipCountryResolver: IpCountryResolver;
+  public readonly loginAlertNotifier: LoginAlertNotifier;
+  public readonly loginPolicy: LoginPolicy;
+  public readonly jobStateStore: JobStateStore;
+  public readonly jobScheduler: JobScheduler;
   
   // Use Cases
   public readonly submitQuoteRequestUseCase: SubmitQuoteRequestUseCase;
@@ -64,8 +363,56 @@ export class DIContainer implements Container {
     this.fileStorageService = new InMemoryFileStorageService();
     
     // Initialize repositories
-    this.quoteRepository = new InMemoryQuoteRepository();
+    this.quoteRepository = new FileQuoteRepository();
     this.jobApplicationRepository = new InMemoryJobApplicationRepository();
+    this.projectRepository = new InMemoryProjectRepository();
+    this.workOrderRepository = new FileWorkOrderRepository();
+    this.stormEventRepository = new FileStormEventRepository();
+    this.serviceLogRepository = new FileServiceLogRepository();
+    this.inventoryItemRepository = new FileInventoryItemRepository();
+    this.equipmentRepository = new FileEquipmentRepository();
+    this.timeEntryRepository = new FileTimeEntryRepository();
+    this.invoiceRepository = new FileInvoiceRepository();
+    this.contractRepository = new InMemoryContractRepository();
+    this.clientInvitationRepository = new FileClientInvitationRepository();
+    this.rbacStore = new FileRBACStore();
+    this.sessionStore = new FileSessionStore();
+    this.loginSecurityStore = new FileLoginSecurityStore();
+    
+    // Initialize domain services
+    this.contractIdAllocator = new InMemoryContractIdAllocator(this.contractRepository);
+    this.contractConversionStore = new CompensatingContractConversionStore(this.contractRepository, this.projectRepository);
+    this.contractLookupService = new ContractLookupService(this.contractRepository);
+    this.quoteAssignmentService = new QuoteAssignmentService(getEstimatorRoster());
+    this.quoteDuplicateDetectionService = new QuoteDuplicateDetectionService(
+      this.quoteRepository,
+      this.contractRepository
+    );
+    this.quoteDocumentGenerator = new JsPdfQuoteDocumentGenerator();
+    this.serviceReportExporter = new XlsxServiceReportExporter();
+    this.serviceLogImporter = new XlsxServiceLogImporter();
+    this.inventoryAlertNotifier = new AlertingSystemInventoryAlertNotifier();
+    this.payrollExporter = new XlsxPayrollExporter();
+    this.timesheetPolicy = getTimesheetPolicy();
+    this.invoiceNumberAllocator = new InMemoryInvoiceNumberAllocator(this.invoiceRepository);
+    this.invoiceDocumentGenerator = new JsPdfInvoiceDocumentGenerator();
+    this.invoiceMailer = new EmailServiceInvoiceMailer();
+    this.invoicingPolicy = getInvoicingPolicy();
+    this.paymentProvider = getPaymentProvider();
+    this.paymentAuditLog = new FilePaymentAuditLog();
+    this.quoteResponseTokenService = new JwtQuoteResponseTokenService();
+    this.clientUserStore = new SecureUserManagerClientUserStore();
+    this.clientInvitationMailer = new EmailServiceClientInvitationMailer();
+    this.clientAccountService = new ClientAccountService(
+      this.clientInvitationRepository,
+      this.contractRepository,
+      this.clientUserStore,
+      this.clientInvitationMailer,
+      process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'
+    );
+    this.ipCountryResolver = new CidrIpCountryResolver(process.env.IP_COUNTRY_RANGES_FILE || 'data/ip-country-ranges.csv');
+    this.loginAlertNotifier = new EmailServiceLoginAlertNotifier();
+    this.loginPolicy = getLoginPolicy();
     
     // Initialize use cases
     this.submitQuoteRequestUseCase = new SubmitQuoteRequestUseCase(
@@ -88,6 +435,25 @@ export class DIContainer implements Container {
       this.eventPublisher
     );
     
+    // Initialize background jobs (started from instrumentation, not here)
+    this.jobStateStore = new FileJobStateStore();
+    this.jobScheduler = new InProcessJobScheduler(this.jobStateStore);
+    this.jobScheduler.register(
+      new QuoteExpiryJob(this.quoteRepository, this.eventPublisher, getQuoteExpiryJobOptions())
+    );
+    this.jobScheduler.register(
+      new EquipmentMaintenanceJob(this.equipmentRepository, this.inventoryAlertNotifier, getEquipmentMaintenanceJobOptions())
+    );
+    this.jobScheduler.register(
+      new InvoiceOverdueJob(this.invoiceRepository, getInvoiceOverdueJobOptions())
+    );
+    this.jobScheduler.register(
+      new SessionCleanupJob(this.sessionStore, getSessionCleanupJobOptions())
+    );
+    this.jobScheduler.register(
+      new LoginSecurityCleanupJob(this.loginSecurityStore, this.loginPolicy, getLoginSecurityCleanupJobOptions())
+    );
+    
     // Setup event handlers
     this.setupEventHandlers();
   }
@@ -100,14 +466,22 @@ export class DIContainer implements Container {
   }
 
   private setupEventHandlers(): void {
-    const quoteEventHandler = new QuoteEventHandler(this.notificationService);
+    const quoteEventHandler = new QuoteEventHandler(
+      this.notificationService,
+      this.quoteDocumentGenerator,
+      this.quoteResponseTokenService
+    );
     const jobApplicationEventHandler = new JobApplicationEventHandler(this.notificationService);
+    const contractEventHandler = new ContractEventHandler(this.clientAccountService);
     
     // Subscribe to quote events
     quoteEventHandler.subscribeToEvents(this.eventPublisher);
     
     // Subscribe to job application events
     jobApplicationEventHandler.subscribeToEvents(this.eventPublisher);
+    
+    // Subscribe to contract events
+    contractEventHandler.subscribeToEvents(this.eventPublisher);
   }
 
   // Development/testing helpers
@@ -121,6 +495,62 @@ export class DIContainer implements Container {
       (this.jobApplicationRepository as InMemoryJobApplicationRepository).clear();
     }
     
+    if (this.projectRepository instanceof InMemoryProjectRepository) {
+      (this.projectRepository as InMemoryProjectRepository).clear();
+    }
+    
+    if (this.workOrderRepository instanceof InMemoryWorkOrderRepository) {
+      (this.workOrderRepository as InMemoryWorkOrderRepository).clear();
+    }
+    
+    if (this.stormEventRepository instanceof InMemoryStormEventRepository) {
+      (this.stormEventRepository as InMemoryStormEventRepository).clear();
+    }
+    
+    if (this.serviceLogRepository instanceof InMemoryServiceLogRepository) {
+      (this.serviceLogRepository as InMemoryServiceLogRepository).clear();
+    }
+    
+    if (this.inventoryItemRepository instanceof InMemoryInventoryItemRepository) {
+      (this.inventoryItemRepository as InMemoryInventoryItemRepository).clear();
+    }
+    
+    if (this.equipmentRepository instanceof InMemoryEquipmentRepository) {
+      (this.equipmentRepository as InMemoryEquipmentRepository).clear();
+    }
+    
+    if (this.timeEntryRepository instanceof InMemoryTimeEntryRepository) {
+      (this.timeEntryRepository as InMemoryTimeEntryRepository).clear();
+    }
+    
+    if (this.invoiceRepository instanceof InMemoryInvoiceRepository) {
+      (this.invoiceRepository as InMemoryInvoiceRepository).clear();
+    }
+    
+    if (this.contractRepository instanceof InMemoryContractRepository) {
+      (this.contractRepository as InMemoryContractRepository).clear();
+    }
+    
+    if (this.clientInvitationRepository instanceof InMemoryClientInvitationRepository) {
+      (this.clientInvitationRepository as InMemoryClientInvitationRepository).clear();
+    }
+    
+    if (this.contractIdAllocator instanceof InMemoryContractIdAllocator) {
+      (this.contractIdAllocator as InMemoryContractIdAllocator).clear();
+    }
+    
+    if (this.invoiceNumberAllocator instanceof InMemoryInvoiceNumberAllocator) {
+      (this.invoiceNumberAllocator as InMemoryInvoiceNumberAllocator).clear();
+    }
+    
+    if (this.paymentProvider instanceof LocalPaymentProvider) {
+      (this.paymentProvider as LocalPaymentProvider).clear();
+    }
+    
+    if (this.paymentAuditLog instanceof InMemoryPaymentAuditLog) {
+      (this.paymentAuditLog as InMemoryPaymentAuditLog).clear();
+    }
+    
     // Reset event publisher
     if (this.eventPublisher instanceof InMemoryEventPublisher) {
       (this.eventPublisher as InMemoryEventPublisher).clearAllSubscriptions();
@@ -0,0 +1,179 @@
+/**
+ * jsPDF Invoice Document Generator - Infrastructure Layer
+ * Produces the invoice PDF attached to customer emails and downloaded from the admin portal
+ */
+
+import { jsPDF } from 'jspdf';
+import { Invoice, InvoiceLineCategory, InvoiceStatus, lineItemAmount } from '../../domain/invoice/Invoice';
+import { InvoiceDocumentGenerator } from '../../domain/services/InvoiceDocumentGenerator';
+import { EmailAttachment } from '../../domain/services/NotificationService';
+
+const PAGE_MARGIN = 20;
+const LINE_HEIGHT = 6;
+const PAGE_BOTTOM = 275;
+
+const CATEGORY_LABELS: Record<InvoiceLineCategory, string> = {
+  [InvoiceLineCategory.SERVICE]: 'Service',
+  [InvoiceLineCategory.SEASONAL]: 'Seasonal',
+  [InvoiceLineCategory.MATERIAL]: 'Material',
+  [InvoiceLineCategory.ADJUSTMENT]: 'Adjustment'
+};
+
+const formatCurrency = (amount: number): string =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: Date): string =>
+  new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+// Service dates are stored at UTC midnight, so print them in UTC to keep the calendar day
+const formatServiceDate = (date: Date): string =>
+  new Date(date).toLocaleDateString('en-US', { month: '2-digit', day: '2-digit', year: 'numeric', timeZone: 'UTC' });
+
+export class JsPdfInvoiceDocumentGenerator implements InvoiceDocumentGenerator {
+  async generateInvoicePdf(invoice: Invoice): Promise<EmailAttachment> {
+    const doc = new jsPDF();
+    let y = PAGE_MARGIN;
+
+    // Header
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(18);
+    doc.text('VSR Construction - Invoice', PAGE_MARGIN, y);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.text(invoice.invoiceNumber, 190, y, { align: 'right' });
+    y += LINE_HEIGHT * 2;
+
+    if (invoice.status === InvoiceStatus.DRAFT) {
+      doc.setFont('helvetica', 'bold');
+      doc.text('DRAFT - not yet issued', PAGE_MARGIN, y);
+      doc.setFont('helvetica', 'normal');
+      y += LINE_HEIGHT;
+    } else {
+      if (invoice.status === InvoiceStatus.VOID) {
+        doc.setFont('helvetica', 'bold');
+        doc.text(`VOID - withdrawn ${formatDate(invoice.voidedAt!)}, nothing is owed`, PAGE_MARGIN, y);
+        doc.setFont('helvetica', 'normal');
+        y += LINE_HEIGHT;
+      }
+      doc.text(`Issued: ${formatDate(invoice.issuedAt!)}`, PAGE_MARGIN, y);
+      doc.text(`Due: ${formatDate(invoice.dueAt!)}`, 190, y, { align: 'right' });
+      y += LINE_HEIGHT;
+    }
+    doc.text(
+      `Service period: ${formatServiceDate(invoice.periodStart)} - ${formatServiceDate(invoice.periodEnd)}`,
+      PAGE_MARGIN,
+      y
+    );
+    doc.text(`Contract: ${invoice.contractId}`, 190, y, { align: 'right' });
+    y += LINE_HEIGHT * 2;
+
+    // Customer block
+    doc.setFont('helvetica', 'bold');
+    doc.text('Bill to', PAGE_MARGIN, y);
+    doc.setFont('helvetica', 'normal');
+    y += LINE_HEIGHT;
+    for (const line of [invoice.billTo.name, invoice.billTo.email, invoice.billTo.address].filter(Boolean)) {
+      doc.text(line, PAGE_MARGIN, y);
+      y += LINE_HEIGHT;
+    }
+    y += LINE_HEIGHT;
+
+    y = this.renderItems(doc, invoice, y);
+    y = this.renderTotals(doc, invoice, y);
+
+    if (invoice.notes) {
+      y = this.ensureSpace(doc, y, LINE_HEIGHT * 3);
+      doc.setFont('helvetica', 'bold');
+      doc.text('Notes', PAGE_MARGIN, y);
+      doc.setFont('helvetica', 'normal');
+      y += LINE_HEIGHT;
+      const noteLines = doc.splitTextToSize(invoice.notes, 170) as string[];
+      for (const line of noteLines) {
+        y = this.ensureSpace(doc, y, LINE_HEIGHT);
+        doc.text(line, PAGE_MARGIN, y);
+        y += LINE_HEIGHT;
+      }
+    }
+
+    return {
+      filename: `VSR-Invoice-${invoice.invoiceNumber}.pdf`,
+      content: Buffer.from(doc.output('arraybuffer')),
+      contentType: 'application/pdf'
+    };
+  }
+
+  private renderItems(doc: jsPDF, invoice: Invoice, startY: number): number {
+    let y = this.ensureSpace(doc, startY, LINE_HEIGHT * 3);
+
+    doc.setFont('helvetica', 'bold');
+    doc.text('Date', PAGE_MARGIN, y);
+    doc.text('Description', 45, y);
+    doc.text('Type', 112, y);
+    doc.text('Qty', 140, y, { align: 'right' });
+    doc.text('Unit Price', 165, y, { align: 'right' });
+    doc.text('Amount', 190, y, { align: 'right' });
+    doc.line(PAGE_MARGIN, y + 1.5, 190, y + 1.5);
+    doc.setFont('helvetica', 'normal');
+    y += LINE_HEIGHT;
+
+    for (const item of invoice.lineItems) {
+      const descriptionLines = doc.splitTextToSize(item.description, 64) as string[];
+      y = this.ensureSpace(doc, y, LINE_HEIGHT * descriptionLines.length);
+
+      if (item.serviceDate) {
+        doc.text(formatServiceDate(item.serviceDate), PAGE_MARGIN, y);
+      }
+      doc.text(descriptionLines, 45, y);
+      doc.text(CATEGORY_LABELS[item.category], 112, y);
+      doc.text(`${item.quantity} ${item.unit}`, 140, y, { align: 'right' });
+      doc.text(formatCurrency(item.unitPrice), 165, y, { align: 'right' });
+      doc.text(formatCurrency(lineItemAmount(item)), 190, y, { align: 'right' });
+      y += LINE_HEIGHT * descriptionLines.length;
+    }
+
+    return y + LINE_HEIGHT;
+  }
+
+  private renderTotals(doc: jsPDF, invoice: Invoice, startY: number): number {
+    const rows: Array<[string, string]> = [['Subtotal', formatCurrency(invoice.subtotal)]];
+    if (invoice.taxRate > 0) {
+      rows.push([`Tax (${invoice.taxRate}%)`, formatCurrency(invoice.taxAmount)]);
+    }
+
+    let y = this.ensureSpace(doc, startY, LINE_HEIGHT * (rows.length + 5));
+
+    for (const [label, value] of rows) {
+      doc.text(label, 165, y, { align: 'right' });
+      doc.text(value, 190, y, { align: 'right' });
+      y += LINE_HEIGHT;
+    }
+
+    doc.line(120, y - 3.5, 190, y - 3.5);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Total', 165, y + 1, { align: 'right' });
+    doc.text(formatCurrency(invoice.total), 190, y + 1, { align: 'right' });
+    doc.setFont('helvetica', 'normal');
+    y += LINE_HEIGHT + 1;
+
+    if (invoice.amountPaid > 0) {
+      doc.text('Paid', 165, y, { align: 'right' });
+      doc.text(`-${formatCurrency(invoice.amountPaid)}`, 190, y, { align: 'right' });
+      y += LINE_HEIGHT;
+      doc.setFont('helvetica', 'bold');
+      doc.text('Balance due', 165, y, { align: 'right' });
+      doc.text(formatCurrency(invoice.balanceDue), 190, y, { align: 'right' });
+      doc.setFont('helvetica', 'normal');
+      y += LINE_HEIGHT;
+    }
+
+    return y + LINE_HEIGHT;
+  }
+
+  private ensureSpace(doc: jsPDF, y: number, needed: number): number {
+    if (y + needed > PAGE_BOTTOM) {
+      doc.addPage();
+      return PAGE_MARGIN;
+    }
+    return y;
+  }
+}
\ No newline at end of file
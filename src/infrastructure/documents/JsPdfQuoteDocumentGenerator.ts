@@ -0,0 +1,153 @@
+/**
+ * jsPDF Quote Document Generator - Infrastructure Layer
+ * Produces the quote PDF attached to customer emails
+ */
+
+import { jsPDF } from 'jspdf';
+import { Estimate, EstimateLineItem, LineItemCategory, DiscountType } from '../../domain/quote/Estimate';
+import { QuoteDocumentGenerator, QuoteDocumentData } from '../../domain/services/QuoteDocumentGenerator';
+import { EmailAttachment } from '../../domain/services/NotificationService';
+
+const PAGE_MARGIN = 20;
+const LINE_HEIGHT = 6;
+const PAGE_BOTTOM = 275;
+
+const formatCurrency = (amount: number): string =>
+  `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: Date): string =>
+  new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+export class JsPdfQuoteDocumentGenerator implements QuoteDocumentGenerator {
+  async generateQuotePdf(data: QuoteDocumentData): Promise<EmailAttachment> {
+    const doc = new jsPDF();
+    let y = PAGE_MARGIN;
+
+    // Header
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(18);
+    doc.text('VSR Construction - Quote', PAGE_MARGIN, y);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.text(`Quote ${data.quoteId} (revision ${data.revision})`, 190, y, { align: 'right' });
+    y += LINE_HEIGHT * 2;
+
+    doc.text(`Issued: ${formatDate(data.issuedAt)}`, PAGE_MARGIN, y);
+    if (data.expiresAt) {
+      doc.text(`Valid until: ${formatDate(data.expiresAt)}`, 190, y, { align: 'right' });
+    }
+    y += LINE_HEIGHT * 2;
+
+    // Customer block
+    doc.setFont('helvetica', 'bold');
+    doc.text('Prepared for', PAGE_MARGIN, y);
+    doc.setFont('helvetica', 'normal');
+    y += LINE_HEIGHT;
+    for (const line of [data.customerName, data.email, data.phone, data.serviceAddress].filter(Boolean) as string[]) {
+      doc.text(line, PAGE_MARGIN, y);
+      y += LINE_HEIGHT;
+    }
+    doc.text(`Service: ${data.serviceName}`, PAGE_MARGIN, y);
+    y += LINE_HEIGHT * 2;
+
+    y = this.renderItems(doc, 'Scope of Work', data.estimate.requiredItems, y);
+
+    if (data.estimate.addOns.length > 0) {
+      y = this.renderItems(doc, 'Optional Add-ons (not included in total)', data.estimate.addOns, y);
+    }
+
+    y = this.renderTotals(doc, data.estimate, y);
+
+    if (data.estimate.notes) {
+      y = this.ensureSpace(doc, y, LINE_HEIGHT * 3);
+      doc.setFont('helvetica', 'bold');
+      doc.text('Notes', PAGE_MARGIN, y);
+      doc.setFont('helvetica', 'normal');
+      y += LINE_HEIGHT;
+      const noteLines = doc.splitTextToSize(data.estimate.notes, 170) as string[];
+      for (const line of noteLines) {
+        y = this.ensureSpace(doc, y, LINE_HEIGHT);
+        doc.text(line, PAGE_MARGIN, y);
+        y += LINE_HEIGHT;
+      }
+    }
+
+    return {
+      filename: `VSR-Quote-${data.quoteId}-r${data.revision}.pdf`,
+      content: Buffer.from(doc.output('arraybuffer')),
+      contentType: 'application/pdf'
+    };
+  }
+
+  private renderItems(doc: jsPDF, title: string, items: EstimateLineItem[], startY: number): number {
+    let y = this.ensureSpace(doc, startY, LINE_HEIGHT * 3);
+
+    doc.setFont('helvetica', 'bold');
+    doc.text(title, PAGE_MARGIN, y);
+    y += LINE_HEIGHT;
+    doc.text('Description', PAGE_MARGIN, y);
+    doc.text('Type', 105, y);
+    doc.text('Qty', 130, y, { align: 'right' });
+    doc.text('Unit Price', 160, y, { align: 'right' });
+    doc.text('Amount', 190, y, { align: 'right' });
+    doc.line(PAGE_MARGIN, y + 1.5, 190, y + 1.5);
+    doc.setFont('helvetica', 'normal');
+    y += LINE_HEIGHT;
+
+    for (const item of items) {
+      const descriptionLines = doc.splitTextToSize(item.description, 80) as string[];
+      y = this.ensureSpace(doc, y, LINE_HEIGHT * descriptionLines.length);
+
+      doc.text(descriptionLines, PAGE_MARGIN, y);
+      doc.text(item.category === LineItemCategory.MATERIAL ? 'Material' : 'Labor', 105, y);
+      doc.text(`${item.quantity} ${item.unit}`, 130, y, { align: 'right' });
+      doc.text(formatCurrency(item.unitPrice), 160, y, { align: 'right' });
+      doc.text(formatCurrency(Estimate.lineTotal(item)), 190, y, { align: 'right' });
+      y += LINE_HEIGHT * descriptionLines.length;
+    }
+
+    return y + LINE_HEIGHT;
+  }
+
+  private renderTotals(doc: jsPDF, estimate: Estimate, startY: number): number {
+    const totals = estimate.calculateTotals();
+    const rows: Array<[string, string]> = [
+      ['Materials', formatCurrency(totals.materialSubtotal)],
+      ['Labor', formatCurrency(totals.laborSubtotal)],
+      ['Subtotal', formatCurrency(totals.subtotal)]
+    ];
+
+    for (const { discount, amount } of estimate.discountBreakdown(totals.subtotal)) {
+      const label = discount.type === DiscountType.PERCENTAGE ? `${discount.description} (${discount.value}%)` : discount.description;
+      rows.push([label, `-${formatCurrency(amount)}`]);
+    }
+
+    if (estimate.taxRate > 0) {
+      rows.push([`Tax (${estimate.taxRate}%)`, formatCurrency(totals.taxAmount)]);
+    }
+
+    let y = this.ensureSpace(doc, startY, LINE_HEIGHT * (rows.length + 2));
+
+    for (const [label, value] of rows) {
+      doc.text(label, 160, y, { align: 'right' });
+      doc.text(value, 190, y, { align: 'right' });
+      y += LINE_HEIGHT;
+    }
+
+    doc.line(120, y - 3.5, 190, y - 3.5);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Total', 160, y + 1, { align: 'right' });
+    doc.text(formatCurrency(totals.total), 190, y + 1, { align: 'right' });
+    doc.setFont('helvetica', 'normal');
+
+    return y + LINE_HEIGHT * 2;
+  }
+
+  private ensureSpace(doc: jsPDF, y: number, needed: number): number {
+    if (y + needed > PAGE_BOTTOM) {
+      doc.addPage();
+      return PAGE_MARGIN;
+    }
+    return y;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,178 @@
+/**
+ * XLSX Payroll Exporter - Infrastructure Layer
+ * Builds the pay period workbook: per-employee regular and overtime totals over the approved shifts they come from
+ */
+
+import { PayrollExporter, PayrollFile } from '../../domain/services/PayrollExporter';
+import { PayrollReport } from '../../domain/services/TimesheetService';
+import { LocationCheckStatus, TimeEntry } from '../../domain/timesheet/TimeEntry';
+import { formatCalendarDate, lastDayOf } from '../../domain/timesheet/PayPeriod';
+import { XLSX_CONTENT_TYPE, XlsxCell, XlsxCellValue, XlsxSheet, XlsxStyle, writeXlsx } from './XlsxWorkbook';
+
+type Row = Array<XlsxCellValue | XlsxCell>;
+
+const ENTRY_SHEET = 'Time Entries';
+
+const LOCATION_LABELS: Record<LocationCheckStatus, string> = {
+  [LocationCheckStatus.VERIFIED]: 'On site',
+  [LocationCheckStatus.OUTSIDE]: 'Outside geofence',
+  [LocationCheckStatus.NOT_REPORTED]: 'Not reported',
+  [LocationCheckStatus.NO_SITE_COORDINATES]: 'No site coordinates'
+};
+
+const header = (labels: string[]): Row => labels.map(label => ({ value: label, style: XlsxStyle.HEADER }));
+const decimal = (value: XlsxCellValue): XlsxCell => ({ value, style: XlsxStyle.DECIMAL });
+const round = (value: number): number => Math.round(value * 100) / 100;
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// Period boundaries and shift times are local; Excel has no timezone, so write the local wall clock
+const localDay = (date: Date): Date => new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+const localTime = (date: Date): string => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+const locationSummary = (entry: TimeEntry): string => {
+  const clockOut = entry.clockOutCheck ? LOCATION_LABELS[entry.clockOutCheck.status] : '';
+  const clockIn = LOCATION_LABELS[entry.clockInCheck.status];
+  return clockOut && clockOut !== clockIn ? `In: ${clockIn}; Out: ${clockOut}` : clockIn;
+};
+
+export class XlsxPayrollExporter implements PayrollExporter {
+  async exportPayroll(report: PayrollReport): Promise<PayrollFile> {
+    const content = writeXlsx([
+      this.summarySheet(report),
+      this.entrySheet(report),
+      this.unapprovedSheet(report)
+    ]);
+
+    return {
+      filename: `payroll-${formatCalendarDate(report.period.start)}-to-${formatCalendarDate(lastDayOf(report.period))}.xlsx`,
+      content,
+      contentType: XLSX_CONTENT_TYPE
+    };
+  }
+
+  private summarySheet(report: PayrollReport): XlsxSheet {
+    const entryRows = report.entries.length;
+    const entryRange = (column: string) => `'${ENTRY_SHEET}'!$${column}$2:$${column}$${entryRows + 1}`;
+
+    const rows: Row[] = [
+      [{ value: 'Payroll Hours', style: XlsxStyle.HEADER }],
+      ['Pay period', `${formatCalendarDate(report.period.start)} to ${formatCalendarDate(lastDayOf(report.period))}`],
+      ['Overtime after', `${report.policy.weeklyOvertimeThresholdHours} hours per work week`],
+      ['Generated', report.generatedAt.toISOString().replace('T', ' ').slice(0, 16) + ' UTC'],
+      [],
+      header(['Employee', 'Approved Shifts', 'Regular Hours', 'Overtime Hours', 'Total Hours', 'Unapproved Shifts'])
+    ];
+
+    const firstEmployeeRow = rows.length + 1;
+    for (const totals of report.employees) {
+      const row = rows.length + 1;
+      // Ranges are only valid when the entry sheet has data rows
+      const sumOf = (column: string, value: number): XlsxCell => decimal(entryRows
+        ? { formula: `SUMIF(${entryRange('A')},$A${row},${entryRange(column)})`, value }
+        : value);
+
+      rows.push([
+        totals.employee,
+        entryRows ? { formula: `COUNTIF(${entryRange('A')},$A${row})`, value: totals.approvedEntries } : totals.approvedEntries,
+        sumOf('J', totals.regularHours),
+        sumOf('K', totals.overtimeHours),
+        decimal({ formula: `C${row}+D${row}`, value: totals.totalHours }),
+        totals.unapprovedEntries
+      ]);
+    }
+
+    if (report.employees.length > 0) {
+      const lastEmployeeRow = rows.length;
+      const sum = (column: string) => `SUM(${column}${firstEmployeeRow}:${column}${lastEmployeeRow})`;
+      const total = (pick: (totals: PayrollReport['employees'][number]) => number) =>
+        round(report.employees.reduce((value, totals) => value + pick(totals), 0));
+
+      rows.push([
+        { value: 'Total', style: XlsxStyle.HEADER },
+        { value: { formula: sum('B'), value: total(totals => totals.approvedEntries) }, style: XlsxStyle.HEADER },
+        { value: { formula: sum('C'), value: total(totals => totals.regularHours) }, style: XlsxStyle.DECIMAL_TOTAL },
+        { value: { formula: sum('D'), value: total(totals => totals.overtimeHours) }, style: XlsxStyle.DECIMAL_TOTAL },
+        { value: { formula: sum('E'), value: total(totals => totals.totalHours) }, style: XlsxStyle.DECIMAL_TOTAL },
+        { value: { formula: sum('F'), value: total(totals => totals.unapprovedEntries) }, style: XlsxStyle.HEADER }
+      ]);
+    } else {
+      rows.push(['No time was clocked in this pay period.']);
+    }
+
+    if (report.unapproved.length > 0) {
+      rows.push([]);
+      rows.push([`${report.unapproved.length} shift(s) are not approved yet and are not included. See the Unapproved sheet.`]);
+    }
+
+    return { name: 'Summary', columnWidths: [30, 16, 14, 16, 13, 18], rows };
+  }
+
+  private entrySheet(report: PayrollReport): XlsxSheet {
+    const rows: Row[] = [header([
+      'Employee', 'Date', 'Week Of', 'Property', 'Site', 'Clock In', 'Clock Out', 'Break (min)',
+      'Hours', 'Regular', 'Overtime', 'Location', 'Approved By'
+    ])];
+
+    for (const line of report.entries) {
+      const entry = line.entry;
+      rows.push([
+        entry.employee,
+        localDay(entry.clockInAt),
+        localDay(line.week.start),
+        entry.propertyCode || '',
+        entry.siteName || '',
+        localTime(entry.clockInAt),
+        entry.clockOutAt ? localTime(entry.clockOutAt) : '',
+        entry.breakMinutes,
+        decimal(line.hours),
+        decimal(line.regularHours),
+        decimal(line.overtimeHours),
+        locationSummary(entry),
+        entry.latestReview?.reviewedBy || ''
+      ]);
+    }
+
+    if (report.entries.length > 0) {
+      const last = rows.length;
+      const total = (column: string, value: number): XlsxCell =>
+        ({ value: { formula: `SUM(${column}2:${column}${last})`, value: round(value) }, style: XlsxStyle.DECIMAL_TOTAL });
+
+      rows.push([]);
+      rows.push([
+        { value: 'Total', style: XlsxStyle.HEADER }, '', '', '', '', '', '', '',
+        total('I', report.entries.reduce((sum, line) => sum + line.hours, 0)),
+        total('J', report.entries.reduce((sum, line) => sum + line.regularHours, 0)),
+        total('K', report.entries.reduce((sum, line) => sum + line.overtimeHours, 0))
+      ]);
+    }
+
+    return {
+      name: ENTRY_SHEET,
+      freezeHeader: true,
+      columnWidths: [30, 12, 12, 12, 28, 9, 10, 11, 8, 9, 10, 34, 28],
+      rows
+    };
+  }
+
+  private unapprovedSheet(report: PayrollReport): XlsxSheet {
+    const rows: Row[] = [header(['Employee', 'Date', 'Property', 'Site', 'Clock In', 'Clock Out', 'Status'])];
+
+    for (const entry of report.unapproved) {
+      rows.push([
+        entry.employee,
+        localDay(entry.clockInAt),
+        entry.propertyCode || '',
+        entry.siteName || '',
+        localTime(entry.clockInAt),
+        entry.clockOutAt ? localTime(entry.clockOutAt) : 'Still clocked in',
+        entry.status
+      ]);
+    }
+
+    if (report.unapproved.length === 0) {
+      rows.push(['Every shift in this pay period has been reviewed.']);
+    }
+
+    return { name: 'Unapproved', freezeHeader: true, columnWidths: [30, 12, 12, 28, 9, 16, 12], rows };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,263 @@
+/**
+ * XLSX Service Log Importer - Infrastructure Layer
+ * Reads the legacy crew log spreadsheet: one crew line per row, continuation rows add crew to the entry above
+ */
+
+import { DomainError } from '../../domain/shared/DomainError';
+import { ServiceLogCrewLine } from '../../domain/servicelog/ServiceLogCodes';
+import { ServiceLogEntry } from '../../domain/servicelog/ServiceLogEntry';
+import {
+  ServiceLogImportError,
+  ServiceLogImportResult,
+  ServiceLogImporter
+} from '../../domain/services/ServiceLogImporter';
+import { XlsxReadValue, excelSerialToDate, readXlsx } from './XlsxWorkbook';
+
+type Column =
+  | 'serviceDate' | 'propertyCode' | 'description' | 'locationDescription' | 'serviceCode'
+  | 'timeIn' | 'timeOut' | 'workerType' | 'workerCount' | 'hourlyRate' | 'contractRate'
+  | 'iceMeltBags' | 'deicerGallons' | 'iceSlicerTons' | 'employee';
+
+// Header spellings seen across the crew log templates, lower-cased with punctuation stripped
+const COLUMN_ALIASES: Record<Column, string[]> = {
+  serviceDate: ['date', 'service date'],
+  propertyCode: ['property code', 'property', 'property id'],
+  description: ['service data', 'description', 'service description'],
+  locationDescription: ['location description', 'location'],
+  serviceCode: ['type of service', 'type of service a u', 'service code', 'service type', 'code'],
+  timeIn: ['time in', 'start time'],
+  timeOut: ['time out', 'end time'],
+  workerType: ['worker type', 'type of workers', 'crew type'],
+  workerCount: ['number of workers', 'workers', 'no of workers', 'crew size'],
+  hourlyRate: ['hourly rate', 'rate per hour'],
+  contractRate: ['contract rate', 'contract'],
+  iceMeltBags: ['ice melt bags', 'ice melt', 'ice melt 50lb bags'],
+  deicerGallons: ['deicer gallons', 'deicer gal', 'deicer', 'liquid deicer gallons'],
+  iceSlicerTons: ['ice slicer tons', 'ice slicer'],
+  employee: ['employee', 'employee email', 'submitted by']
+};
+
+const REQUIRED_COLUMNS: Column[] = ['serviceDate', 'propertyCode', 'serviceCode', 'timeIn', 'timeOut'];
+const HEADER_SEARCH_ROWS = 10;
+const MAX_IMPORT_ROWS = 5000;
+
+interface PendingEntry {
+  row: number;
+  values: Partial<Record<Column, XlsxReadValue>>;
+  crew: ServiceLogCrewLine[];
+}
+
+const normalizeHeader = (value: XlsxReadValue): string =>
+  String(value ?? '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const isBlank = (value: XlsxReadValue | undefined): boolean =>
+  value === null || value === undefined || String(value).trim() === '';
+
+export class XlsxServiceLogImporter implements ServiceLogImporter {
+  async parseServiceLogs(file: Buffer, importedBy: string): Promise<ServiceLogImportResult> {
+    let sheets;
+    try {
+      sheets = readXlsx(file);
+    } catch (error) {
+      return this.fileError(`The file could not be read as an Excel workbook: ${(error as Error).message}`);
+    }
+
+    const sheet = sheets.find(candidate => this.findHeader(candidate.rows)) || sheets[0];
+    const header = sheet ? this.findHeader(sheet.rows) : undefined;
+    if (!sheet || !header) {
+      return this.fileError('No header row with Date, Property Code, Type of Service, Time In and Time Out columns was found');
+    }
+
+    const errors: ServiceLogImportError[] = [];
+    const pending: PendingEntry[] = [];
+
+    for (let index = header.rowIndex + 1; index < sheet.rows.length; index++) {
+      const cells = sheet.rows[index];
+      const row = index + 1;
+      const values: Partial<Record<Column, XlsxReadValue>> = {};
+      for (const [column, position] of Object.entries(header.columns) as Array<[Column, number]>) {
+        values[column] = cells[position] ?? null;
+      }
+
+      if (Object.values(values).every(isBlank)) continue;
+
+      const crewLine = this.parseCrewLine(values, row, errors);
+      const isContinuation = REQUIRED_COLUMNS.every(column => isBlank(values[column]));
+
+      if (isContinuation) {
+        const previous = pending[pending.length - 1];
+        if (!previous) {
+          errors.push({ row, message: 'Crew line has no service entry above it' });
+        } else if (crewLine) {
+          previous.crew.push(crewLine);
+        }
+        continue;
+      }
+
+      if (pending.length >= MAX_IMPORT_ROWS) {
+        errors.push({ row, message: `Imports are limited to ${MAX_IMPORT_ROWS} entries per file` });
+        break;
+      }
+      pending.push({ row, values, crew: crewLine ? [crewLine] : [] });
+    }
+
+    const entries: ServiceLogEntry[] = [];
+    for (const item of pending) {
+      const entry = this.toEntry(item, importedBy, errors);
+      if (entry) entries.push(entry);
+    }
+
+    errors.sort((a, b) => a.row - b.row);
+    return { rowCount: pending.length, entries, errors };
+  }
+
+  private findHeader(rows: XlsxReadValue[][]): { rowIndex: number; columns: Partial<Record<Column, number>> } | undefined {
+    for (let rowIndex = 0; rowIndex < Math.min(rows.length, HEADER_SEARCH_ROWS); rowIndex++) {
+      const columns: Partial<Record<Column, number>> = {};
+      rows[rowIndex].forEach((cell, position) => {
+        const label = normalizeHeader(cell);
+        const column = (Object.keys(COLUMN_ALIASES) as Column[])
+          .find(candidate => COLUMN_ALIASES[candidate].includes(label));
+        if (column && columns[column] === undefined) {
+          columns[column] = position;
+        }
+      });
+
+      if (REQUIRED_COLUMNS.every(column => columns[column] !== undefined)) {
+        return { rowIndex, columns };
+      }
+    }
+    return undefined;
+  }
+
+  private parseCrewLine(
+    values: Partial<Record<Column, XlsxReadValue>>,
+    row: number,
+    errors: ServiceLogImportError[]
+  ): ServiceLogCrewLine | undefined {
+    if (isBlank(values.workerType) && isBlank(values.workerCount) && isBlank(values.hourlyRate)) {
+      return undefined;
+    }
+
+    const count = this.toNumber(values.workerCount, 1);
+    const hourlyRate = this.toNumber(values.hourlyRate, 0);
+    if (count === undefined) {
+      errors.push({ row, field: 'Number of Workers', message: 'Must be a number' });
+      return undefined;
+    }
+    if (hourlyRate === undefined) {
+      errors.push({ row, field: 'Hourly Rate', message: 'Must be a number' });
+      return undefined;
+    }
+
+    return { type: String(values.workerType ?? '').trim(), count, hourlyRate };
+  }
+
+  private toEntry(item: PendingEntry, importedBy: string, errors: ServiceLogImportError[]): ServiceLogEntry | undefined {
+    const { row, values } = item;
+    const rowErrors: ServiceLogImportError[] = [];
+    const number = (column: Column, field: string): number => {
+      const value = this.toNumber(values[column], 0);
+      if (value === undefined) {
+        rowErrors.push({ row, field, message: 'Must be a number' });
+        return 0;
+      }
+      return value;
+    };
+
+    const serviceDate = this.toDate(values.serviceDate);
+    if (!serviceDate) rowErrors.push({ row, field: 'Date', message: 'Must be a valid date' });
+    const timeIn = this.toTime(values.timeIn);
+    if (!timeIn) rowErrors.push({ row, field: 'Time In', message: 'Must be a time such as 06:30 or 6:30 AM' });
+    const timeOut = this.toTime(values.timeOut);
+    if (!timeOut) rowErrors.push({ row, field: 'Time Out', message: 'Must be a time such as 14:00 or 2:00 PM' });
+
+    const contractRate = number('contractRate', 'Contract Rate');
+    const materials = {
+      iceMeltBags: number('iceMeltBags', 'Ice Melt Bags'),
+      deicerGallons: number('deicerGallons', 'Deicer Gallons'),
+      iceSlicerTons: number('iceSlicerTons', 'Ice Slicer Tons')
+    };
+
+    if (rowErrors.length > 0 || !serviceDate || !timeIn || !timeOut) {
+      errors.push(...rowErrors);
+      return undefined;
+    }
+
+    try {
+      return ServiceLogEntry.create({
+        serviceDate,
+        propertyCode: String(values.propertyCode ?? ''),
+        description: String(values.description ?? ''),
+        locationDescription: String(values.locationDescription ?? ''),
+        serviceCode: String(values.serviceCode ?? '').trim().toUpperCase(),
+        timeIn,
+        timeOut,
+        crew: item.crew,
+        contractRate,
+        materials,
+        submittedBy: isBlank(values.employee) ? importedBy : String(values.employee).trim()
+      });
+    } catch (error) {
+      if (error instanceof DomainError) {
+        errors.push({ row, message: error.message });
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private toNumber(value: XlsxReadValue | undefined, fallback: number): number | undefined {
+    if (isBlank(value)) return fallback;
+    if (typeof value === 'number') return value;
+
+    const parsed = Number(String(value).replace(/[$,\s]/g, ''));
+    return isNaN(parsed) ? undefined : parsed;
+  }
+
+  // Excel stores dates as day serials; text cells come from sheets that were typed rather than formatted
+  private toDate(value: XlsxReadValue | undefined): Date | undefined {
+    if (isBlank(value)) return undefined;
+
+    if (typeof value === 'number') {
+      const date = excelSerialToDate(Math.floor(value));
+      return isNaN(date.getTime()) ? undefined : date;
+    }
+
+    const text = String(value).trim();
+    const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+    const date = us
+      ? new Date(Date.UTC(us[3].length === 2 ? 2000 + Number(us[3]) : Number(us[3]), Number(us[1]) - 1, Number(us[2])))
+      : new Date(`${text.split('T')[0]}T00:00:00.000Z`);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  // Times arrive as fractions of a day when the cell is time-formatted, otherwise as "6:30 AM" or "18:30"
+  private toTime(value: XlsxReadValue | undefined): string | undefined {
+    if (isBlank(value)) return undefined;
+
+    let hours: number;
+    let minutes: number;
+    if (typeof value === 'number') {
+      const totalMinutes = Math.round((value % 1) * 24 * 60) % (24 * 60);
+      hours = Math.floor(totalMinutes / 60);
+      minutes = totalMinutes % 60;
+    } else {
+      const match = String(value).trim().toUpperCase().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*(AM|PM)?$/);
+      if (!match) return undefined;
+      hours = Number(match[1]);
+      minutes = Number(match[2]);
+      if (match[3]) {
+        if (hours < 1 || hours > 12) return undefined;
+        hours = (hours % 12) + (match[3] === 'PM' ? 12 : 0);
+      }
+    }
+
+    if (hours > 23 || minutes > 59) return undefined;
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+  }
+
+  private fileError(message: string): ServiceLogImportResult {
+    return { rowCount: 0, entries: [], errors: [{ row: 0, message }] };
+  }
+}
\ No newline at end of file
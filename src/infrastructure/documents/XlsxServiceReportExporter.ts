@@ -0,0 +1,249 @@
+/**
+ * XLSX Service Report Exporter - Infrastructure Layer
+ * Builds the Excel service report: a per-property summary plus service log and work order sheets with live totals
+ */
+
+import {
+  ServiceReportData,
+  ServiceReportExporter,
+  ServiceReportFile
+} from '../../domain/services/ServiceReportExporter';
+import { SERVICE_LOG_CODES } from '../../domain/servicelog/ServiceLogCodes';
+import { ServiceLogStatus } from '../../domain/servicelog/ServiceLogEntry';
+import { WorkOrderStatus } from '../../domain/workorder/WorkOrder';
+import { XLSX_CONTENT_TYPE, XlsxCell, XlsxCellValue, XlsxSheet, XlsxStyle, writeXlsx } from './XlsxWorkbook';
+
+type Row = Array<XlsxCellValue | XlsxCell>;
+
+const SERVICE_LOG_SHEET = 'Service Logs';
+const WORK_ORDER_SHEET = 'Work Orders';
+
+const header = (labels: string[]): Row => labels.map(label => ({ value: label, style: XlsxStyle.HEADER }));
+const currency = (value: XlsxCellValue): XlsxCell => ({ value, style: XlsxStyle.CURRENCY });
+const decimal = (value: XlsxCellValue): XlsxCell => ({ value, style: XlsxStyle.DECIMAL });
+const isoDate = (date: Date): string => date.toISOString().split('T')[0];
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// Calendar dates are stored at UTC midnight; shift them so Excel shows the same day in any timezone
+const calendarDate = (date: Date): Date => new Date(date.getTime() + date.getTimezoneOffset() * 60 * 1000);
+
+export class XlsxServiceReportExporter implements ServiceReportExporter {
+  async exportServiceReport(data: ServiceReportData): Promise<ServiceReportFile> {
+    const content = writeXlsx([
+      this.summarySheet(data),
+      this.serviceLogSheet(data),
+      this.workOrderSheet(data)
+    ]);
+
+    const slug = data.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'report';
+    return {
+      filename: `service-report-${slug}-${isoDate(data.from)}-to-${isoDate(data.to)}.xlsx`,
+      content,
+      contentType: XLSX_CONTENT_TYPE
+    };
+  }
+
+  private summarySheet(data: ServiceReportData): XlsxSheet {
+    const logRows = data.serviceLogs.length;
+    const workOrderRows = data.workOrders.length;
+    const logRange = (column: string) => `'${SERVICE_LOG_SHEET}'!$${column}$2:$${column}$${logRows + 1}`;
+    const workOrderRange = (column: string) => `'${WORK_ORDER_SHEET}'!$${column}$2:$${column}$${workOrderRows + 1}`;
+
+    const properties = Array.from(new Set([
+      ...data.serviceLogs.map(entry => entry.propertyCode),
+      ...data.workOrders.map(workOrder => workOrder.propertyCode)
+    ])).sort();
+
+    const rows: Row[] = [
+      [{ value: `Service Report - ${data.title}`, style: XlsxStyle.HEADER }],
+      ['Period', `${isoDate(data.from)} to ${isoDate(data.to)}`],
+      ['Generated', data.generatedAt.toISOString().replace('T', ' ').slice(0, 16) + ' UTC'],
+      [],
+      header(['Property', 'Service Entries', 'Hours', 'Total', 'Approved Total', 'Work Orders', 'Completed Work Orders'])
+    ];
+
+    const firstPropertyRow = rows.length + 1;
+    for (const property of properties) {
+      const row = rows.length + 1;
+      const logs = data.serviceLogs.filter(entry => entry.propertyCode === property);
+      const approved = logs.filter(entry => entry.status === ServiceLogStatus.APPROVED);
+      const workOrders = data.workOrders.filter(workOrder => workOrder.propertyCode === property);
+      const completed = workOrders.filter(workOrder =>
+        workOrder.status === WorkOrderStatus.COMPLETE || workOrder.status === WorkOrderStatus.VERIFIED);
+
+      // Ranges are only valid when the referenced sheet has data rows
+      rows.push([
+        property,
+        logRows ? { formula: `COUNTIF(${logRange('B')},$A${row})`, value: logs.length } : 0,
+        decimal(logRows
+          ? { formula: `SUMIF(${logRange('B')},$A${row},${logRange('J')})`, value: round(logs.reduce((sum, entry) => sum + entry.totalHours, 0)) }
+          : 0),
+        currency(logRows
+          ? { formula: `SUMIF(${logRange('B')},$A${row},${logRange('N')})`, value: round(logs.reduce((sum, entry) => sum + entry.totalPayable, 0)) }
+          : 0),
+        currency(logRows
+          ? {
+            formula: `SUMIFS(${logRange('N')},${logRange('B')},$A${row},${logRange('R')},"${ServiceLogStatus.APPROVED}")`,
+            value: round(approved.reduce((sum, entry) => sum + entry.totalPayable, 0))
+          }
+          : 0),
+        workOrderRows ? { formula: `COUNTIF(${workOrderRange('B')},$A${row})`, value: workOrders.length } : 0,
+        workOrderRows
+          ? {
+            formula: `COUNTIFS(${workOrderRange('B')},$A${row},${workOrderRange('G')},"${WorkOrderStatus.COMPLETE}")`
+              + `+COUNTIFS(${workOrderRange('B')},$A${row},${workOrderRange('G')},"${WorkOrderStatus.VERIFIED}")`,
+            value: completed.length
+          }
+          : 0
+      ]);
+    }
+
+    if (properties.length > 0) {
+      const lastPropertyRow = rows.length;
+      const sum = (column: string) => `SUM(${column}${firstPropertyRow}:${column}${lastPropertyRow})`;
+      rows.push([
+        { value: 'Total', style: XlsxStyle.HEADER },
+        { value: { formula: sum('B'), value: logRows }, style: XlsxStyle.HEADER },
+        { value: { formula: sum('C'), value: round(data.serviceLogs.reduce((total, entry) => total + entry.totalHours, 0)) }, style: XlsxStyle.DECIMAL_TOTAL },
+        { value: { formula: sum('D'), value: round(data.serviceLogs.reduce((total, entry) => total + entry.totalPayable, 0)) }, style: XlsxStyle.CURRENCY_TOTAL },
+        {
+          value: {
+            formula: sum('E'),
+            value: round(data.serviceLogs
+              .filter(entry => entry.status === ServiceLogStatus.APPROVED)
+              .reduce((total, entry) => total + entry.totalPayable, 0))
+          },
+          style: XlsxStyle.CURRENCY_TOTAL
+        },
+        { value: { formula: sum('F'), value: workOrderRows }, style: XlsxStyle.HEADER },
+        {
+          value: {
+            formula: sum('G'),
+            value: data.workOrders.filter(workOrder =>
+              workOrder.status === WorkOrderStatus.COMPLETE || workOrder.status === WorkOrderStatus.VERIFIED).length
+          },
+          style: XlsxStyle.HEADER
+        }
+      ]);
+    } else {
+      rows.push(['No service entries or work orders in this period.']);
+    }
+
+    return { name: 'Summary', columnWidths: [22, 16, 12, 14, 16, 14, 22], rows };
+  }
+
+  private serviceLogSheet(data: ServiceReportData): XlsxSheet {
+    const rows: Row[] = [header([
+      'Date', 'Property', 'Employee', 'Code', 'Service', 'Location', 'Description', 'Time In', 'Time Out', 'Hours',
+      'Crew', 'Contract Rate', 'Labor', 'Total', 'Ice Melt (bags)', 'Deicer (gal)', 'Ice Slicer (tons)', 'Status'
+    ])];
+
+    for (const entry of data.serviceLogs) {
+      const row = rows.length + 1;
+      const materials = entry.materials;
+      rows.push([
+        calendarDate(entry.serviceDate),
+        entry.propertyCode,
+        entry.submittedBy,
+        entry.serviceCode,
+        SERVICE_LOG_CODES[entry.serviceCode],
+        entry.locationDescription,
+        entry.description,
+        entry.timeIn,
+        entry.timeOut,
+        decimal(entry.totalHours),
+        entry.crew.map(line => `${line.count} ${line.type}${line.hourlyRate ? ` @ $${line.hourlyRate}/h` : ''}`).join('; '),
+        currency(entry.contractRate),
+        currency(round(entry.totalPayable - entry.contractRate)),
+        currency({ formula: `L${row}+M${row}`, value: entry.totalPayable }),
+        materials.iceMeltBags,
+        materials.deicerGallons,
+        materials.iceSlicerTons,
+        entry.status
+      ]);
+    }
+
+    if (data.serviceLogs.length > 0) {
+      const last = rows.length;
+      const total = (column: string, style: XlsxStyle, value: number): XlsxCell =>
+        ({ value: { formula: `SUM(${column}2:${column}${last})`, value: round(value) }, style });
+      const approved = (column: string, style: XlsxStyle, value: number): XlsxCell =>
+        ({ value: { formula: `SUMIF(R2:R${last},"${ServiceLogStatus.APPROVED}",${column}2:${column}${last})`, value: round(value) }, style });
+      const sumOf = (entries: typeof data.serviceLogs, pick: (entry: (typeof data.serviceLogs)[number]) => number) =>
+        entries.reduce((sum, entry) => sum + pick(entry), 0);
+      const approvedEntries = data.serviceLogs.filter(entry => entry.status === ServiceLogStatus.APPROVED);
+
+      rows.push([]);
+      for (const [label, entries, cell] of [
+        ['Total', data.serviceLogs, total],
+        ['Approved (billable)', approvedEntries, approved]
+      ] as const) {
+        rows.push([
+          { value: label, style: XlsxStyle.HEADER }, '', '', '', '', '', '', '', '',
+          cell('J', XlsxStyle.DECIMAL_TOTAL, sumOf(entries, entry => entry.totalHours)),
+          '',
+          cell('L', XlsxStyle.CURRENCY_TOTAL, sumOf(entries, entry => entry.contractRate)),
+          cell('M', XlsxStyle.CURRENCY_TOTAL, sumOf(entries, entry => entry.totalPayable - entry.contractRate)),
+          cell('N', XlsxStyle.CURRENCY_TOTAL, sumOf(entries, entry => entry.totalPayable)),
+          cell('O', XlsxStyle.DECIMAL_TOTAL, sumOf(entries, entry => entry.materials.iceMeltBags)),
+          cell('P', XlsxStyle.DECIMAL_TOTAL, sumOf(entries, entry => entry.materials.deicerGallons)),
+          cell('Q', XlsxStyle.DECIMAL_TOTAL, sumOf(entries, entry => entry.materials.iceSlicerTons))
+        ]);
+      }
+    }
+
+    return {
+      name: SERVICE_LOG_SHEET,
+      freezeHeader: true,
+      columnWidths: [12, 12, 26, 6, 28, 30, 30, 9, 9, 8, 36, 14, 12, 12, 14, 12, 15, 11],
+      rows
+    };
+  }
+
+  private workOrderSheet(data: ServiceReportData): XlsxSheet {
+    const rows: Row[] = [header([
+      'Scheduled', 'Property', 'Client', 'Service Address', 'Service Type', 'Priority', 'Status',
+      'Assigned To', 'Est. Hours', 'Storm Route', 'Completion Notes'
+    ])];
+
+    for (const workOrder of data.workOrders) {
+      rows.push([
+        calendarDate(workOrder.scheduledDate),
+        workOrder.propertyCode,
+        workOrder.clientName,
+        workOrder.serviceAddress,
+        workOrder.serviceType,
+        workOrder.priority,
+        workOrder.status,
+        workOrder.assignedTo || '',
+        decimal(workOrder.estimatedHours),
+        workOrder.storm ? `${workOrder.storm.route} #${workOrder.storm.sequence}` : '',
+        workOrder.completionNotes || ''
+      ]);
+    }
+
+    if (data.workOrders.length > 0) {
+      const last = rows.length;
+      rows.push([]);
+      rows.push([
+        { value: 'Total', style: XlsxStyle.HEADER }, '', '', '', '', '',
+        { value: { formula: `COUNTA(G2:G${last})`, value: data.workOrders.length }, style: XlsxStyle.HEADER },
+        '',
+        {
+          value: {
+            formula: `SUM(I2:I${last})`,
+            value: round(data.workOrders.reduce((sum, workOrder) => sum + workOrder.estimatedHours, 0))
+          },
+          style: XlsxStyle.DECIMAL_TOTAL
+        }
+      ]);
+    }
+
+    return {
+      name: WORK_ORDER_SHEET,
+      freezeHeader: true,
+      columnWidths: [12, 12, 26, 36, 20, 10, 12, 26, 10, 18, 36],
+      rows
+    };
+  }
+}
\ No newline at end of file
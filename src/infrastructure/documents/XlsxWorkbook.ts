@@ -0,0 +1,293 @@
+/**
+ * XLSX Workbook - Infrastructure Layer
+ * Writes and reads the subset of SpreadsheetML needed for service reports and legacy log imports
+ */
+
+import { createZip, readZip } from './ZipArchive';
+
+export interface XlsxFormula {
+  formula: string; // Without the leading "="
+  value?: number | string; // Cached result shown before Excel recalculates
+}
+
+export type XlsxCellValue = string | number | boolean | Date | XlsxFormula | null | undefined;
+
+export enum XlsxStyle {
+  DEFAULT = 0,
+  HEADER = 1,
+  DATE = 2,
+  CURRENCY = 3,
+  CURRENCY_TOTAL = 4,
+  DECIMAL = 5,
+  DECIMAL_TOTAL = 6
+}
+
+export interface XlsxCell {
+  value: XlsxCellValue;
+  style?: XlsxStyle;
+}
+
+export interface XlsxSheet {
+  name: string;
+  columnWidths?: number[];
+  freezeHeader?: boolean;
+  rows: Array<Array<XlsxCellValue | XlsxCell>>;
+}
+
+export type XlsxReadValue = string | number | boolean | null;
+
+export interface XlsxSheetData {
+  name: string;
+  rows: XlsxReadValue[][];
+}
+
+export const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Excel's day zero, which keeps the historical 1900 leap year bug
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Excel's own sheet limits; references beyond them come from a broken or hostile file
+const MAX_SHEET_ROWS = 1048576;
+const MAX_SHEET_COLUMNS = 16384;
+// Gaps between rows and cells are filled in, so a few far-off references are enough to build huge arrays
+const MAX_READ_ROWS = 50000;
+const MAX_READ_CELLS = 1000000;
+
+export function dateToExcelSerial(date: Date): number {
+  return (date.getTime() - EXCEL_EPOCH_MS) / MS_PER_DAY;
+}
+
+export function excelSerialToDate(serial: number): Date {
+  return new Date(EXCEL_EPOCH_MS + Math.round(serial * MS_PER_DAY));
+}
+
+// 0 -> A, 25 -> Z, 26 -> AA
+export function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/)?.[0] || 'A';
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+const escapeXml = (value: string): string => value
+  // Control characters are not allowed in XML 1.0
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const unescapeXml = (value: string): string => value
+  .replace(/&#x([0-9a-fA-F]+);/g, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+  .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&amp;/g, '&');
+
+// Sheet names are limited to 31 characters and may not contain []:*?/\
+const sheetName = (name: string): string => name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet';
+
+const isCell = (value: XlsxCellValue | XlsxCell): value is XlsxCell =>
+  typeof value === 'object' && value !== null && !(value instanceof Date) && 'value' in value;
+
+const isFormula = (value: XlsxCellValue): value is XlsxFormula =>
+  typeof value === 'object' && value !== null && !(value instanceof Date) && 'formula' in value;
+
+function renderCell(reference: string, input: XlsxCellValue | XlsxCell): string {
+  const { value, style } = isCell(input) ? input : { value: input, style: undefined };
+  const resolvedStyle = style ?? (value instanceof Date ? XlsxStyle.DATE : XlsxStyle.DEFAULT);
+  const styleAttribute = resolvedStyle ? ` s="${resolvedStyle}"` : '';
+
+  if (value === null || value === undefined || value === '') {
+    return resolvedStyle ? `<c r="${reference}"${styleAttribute}/>` : '';
+  }
+  if (isFormula(value)) {
+    const cached = value.value === undefined ? '' : `<v>${escapeXml(String(value.value))}</v>`;
+    const type = typeof value.value === 'string' ? ' t="str"' : '';
+    return `<c r="${reference}"${styleAttribute}${type}><f>${escapeXml(value.formula)}</f>${cached}</c>`;
+  }
+  if (value instanceof Date) {
+    return `<c r="${reference}"${styleAttribute}><v>${dateToExcelSerial(value)}</v></c>`;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c r="${reference}"${styleAttribute}><v>${value}</v></c>` : '';
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${reference}"${styleAttribute} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  return `<c r="${reference}"${styleAttribute} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function renderSheet(sheet: XlsxSheet): string {
+  const views = sheet.freezeHeader
+    ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    : '';
+  const columns = sheet.columnWidths && sheet.columnWidths.length > 0
+    ? `<cols>${sheet.columnWidths.map((width, index) =>
+      `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+  const rows = sheet.rows.map((row, rowIndex) => {
+    const cells = row.map((cell, columnIndex) => renderCell(`${columnName(columnIndex)}${rowIndex + 1}`, cell)).join('');
+    return `<row r="${rowIndex + 1}">${cells}</row>`;
+  }).join('');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + `${views}${columns}<sheetData>${rows}</sheetData></worksheet>`;
+}
+
+const STYLES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+  + '<numFmts count="1"><numFmt numFmtId="164" formatCode="&quot;$&quot;#,##0.00"/></numFmts>'
+  + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+  + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+  + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+  + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+  + '<cellXfs count="7">'
+  + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+  + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>'
+  + '<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+  + '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+  + '<xf numFmtId="164" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>'
+  + '<xf numFmtId="2" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+  + '<xf numFmtId="2" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>'
+  + '</cellXfs>'
+  + '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>'
+  + '</styleSheet>';
+
+export function writeXlsx(sheets: XlsxSheet[]): Buffer {
+  const names = sheets.map(sheet => sheetName(sheet.name));
+  const sheetEntries = sheets.map((sheet, index) => ({
+    name: `xl/worksheets/sheet${index + 1}.xml`,
+    data: Buffer.from(renderSheet(sheet), 'utf8')
+  }));
+
+  const contentTypes = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+    + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+    + sheets.map((_, index) =>
+      `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+    + '</Types>';
+
+  const rootRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+    + '</Relationships>';
+
+  // Formulas carry cached values, but ask Excel to recalculate everything on open anyway
+  const workbook = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+    + `<sheets>${names.map((name, index) =>
+      `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('')}</sheets>`
+    + '<calcPr calcId="0" fullCalcOnLoad="1"/>'
+    + '</workbook>';
+
+  const workbookRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + sheets.map((_, index) =>
+      `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`).join('')
+    + `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`
+    + '</Relationships>';
+
+  return createZip([
+    { name: '[Content_Types].xml', data: Buffer.from(contentTypes, 'utf8') },
+    { name: '_rels/.rels', data: Buffer.from(rootRels, 'utf8') },
+    { name: 'xl/workbook.xml', data: Buffer.from(workbook, 'utf8') },
+    { name: 'xl/_rels/workbook.xml.rels', data: Buffer.from(workbookRels, 'utf8') },
+    { name: 'xl/styles.xml', data: Buffer.from(STYLES_XML, 'utf8') },
+    ...sheetEntries
+  ]);
+}
+
+const attribute = (attributes: string, name: string): string | undefined =>
+  attributes.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+
+// Rich text runs split one string across several <t> elements
+const textContent = (xml: string): string =>
+  Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)).map(match => unescapeXml(match[1])).join('');
+
+// Dates come back as serial numbers; callers convert the columns they expect to hold dates
+export function readXlsx(content: Buffer): XlsxSheetData[] {
+  const files = readZip(content);
+  const read = (name: string) => files.get(name)?.toString('utf8');
+
+  const workbook = read('xl/workbook.xml');
+  if (!workbook) {
+    throw new Error('Not an XLSX workbook');
+  }
+
+  const targets = new Map<string, string>();
+  for (const match of (read('xl/_rels/workbook.xml.rels') || '').matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    const id = attribute(match[1], 'Id');
+    const target = attribute(match[1], 'Target');
+    if (id && target) {
+      targets.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+    }
+  }
+
+  const sharedStrings = Array.from((read('xl/sharedStrings.xml') || '').matchAll(/<si>([\s\S]*?)<\/si>/g))
+    .map(match => textContent(match[1]));
+
+  return Array.from(workbook.matchAll(/<sheet\b([^>]*)\/?>/g)).map(match => {
+    const name = unescapeXml(attribute(match[1], 'name') || '');
+    const relationshipId = attribute(match[1], 'r:id') || '';
+    const xml = read(targets.get(relationshipId) || '') || '';
+    const rows: XlsxReadValue[][] = [];
+    let cellCount = 0;
+
+    for (const rowMatch of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+      const rowNumber = Number(attribute(rowMatch[1], 'r')) || rows.length + 1;
+      if (!Number.isInteger(rowNumber) || rowNumber < 1 || rowNumber > MAX_SHEET_ROWS) {
+        throw new Error(`Sheet ${name} has an invalid row number`);
+      }
+      if (rowNumber > MAX_READ_ROWS) {
+        throw new Error(`Sheet ${name} has more than ${MAX_READ_ROWS} rows`);
+      }
+      const row: XlsxReadValue[] = [];
+
+      for (const cellMatch of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+        const reference = attribute(cellMatch[1], 'r');
+        const type = attribute(cellMatch[1], 't');
+        const body = cellMatch[2] || '';
+        const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+        const index = reference ? columnIndex(reference) : row.length;
+        if (index >= MAX_SHEET_COLUMNS) {
+          throw new Error(`Sheet ${name} has a cell beyond column ${columnName(MAX_SHEET_COLUMNS - 1)}`);
+        }
+
+        let value: XlsxReadValue = null;
+        if (type === 'inlineStr') {
+          value = textContent(body);
+        } else if (raw !== undefined) {
+          if (type === 's') value = sharedStrings[Number(raw)] ?? null;
+          else if (type === 'b') value = raw === '1';
+          else if (type === 'str') value = unescapeXml(raw);
+          else if (type === 'e') value = null;
+          else value = Number(raw);
+        }
+
+        row[index] = value;
+      }
+
+      cellCount += row.length;
+      if (cellCount > MAX_READ_CELLS) {
+        throw new Error(`Sheet ${name} has more than ${MAX_READ_CELLS} cells`);
+      }
+      rows[rowNumber - 1] = Array.from(row, cell => cell ?? null);
+    }
+
+    return { name, rows: Array.from(rows, row => row ?? []) };
+  });
+}
\ No newline at end of file
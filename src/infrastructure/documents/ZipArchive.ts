@@ -0,0 +1,175 @@
+/**
+ * Zip Archive - Infrastructure Layer
+ * Minimal zip container support for Office Open XML documents, built on Node's zlib
+ */
+
+import { deflateRawSync, inflateRawSync } from 'zlib';
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+// Uploaded spreadsheets are untrusted; refuse anything that inflates past this, across all entries
+const MAX_UNCOMPRESSED_BYTES = 50 * 1024 * 1024;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+export function createZip(entries: ZipEntry[], modifiedAt: Date = new Date()): Buffer {
+  const { time, date } = dosDateTime(modifiedAt);
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const compressed = deflateRawSync(entry.data);
+    const checksum = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    local.writeUInt16LE(20, 4); // Version needed to extract
+    local.writeUInt16LE(0x0800, 6); // UTF-8 file names
+    local.writeUInt16LE(METHOD_DEFLATE, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+    central.writeUInt16LE(20, 4); // Version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(METHOD_DEFLATE, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+// zlib stops and throws as soon as the output passes the limit, so a bomb never gets fully inflated
+function inflateWithin(data: Buffer, limit: number): Buffer {
+  try {
+    return inflateRawSync(data, { maxOutputLength: Math.max(limit, 1) });
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new Error('Zip archive is too large');
+    }
+    throw error;
+  }
+}
+
+export function readZip(archive: Buffer): Map<string, Buffer> {
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64KB
+  let endOffset = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (archive.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('Not a zip archive');
+  }
+
+  const entryCount = archive.readUInt16LE(endOffset + 10);
+  let pointer = archive.readUInt32LE(endOffset + 16);
+  const files = new Map<string, Buffer>();
+  let totalSize = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (archive.readUInt32LE(pointer) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt zip central directory');
+    }
+
+    const method = archive.readUInt16LE(pointer + 10);
+    const compressedSize = archive.readUInt32LE(pointer + 20);
+    const uncompressedSize = archive.readUInt32LE(pointer + 24);
+    const nameLength = archive.readUInt16LE(pointer + 28);
+    const extraLength = archive.readUInt16LE(pointer + 30);
+    const commentLength = archive.readUInt16LE(pointer + 32);
+    const localOffset = archive.readUInt32LE(pointer + 42);
+    const name = archive.toString('utf8', pointer + 46, pointer + 46 + nameLength);
+    pointer += 46 + nameLength + extraLength + commentLength;
+
+    // Declared sizes are only a cheap early exit; the budget is enforced on the bytes actually inflated
+    const remaining = MAX_UNCOMPRESSED_BYTES - totalSize;
+    if (uncompressedSize > remaining) {
+      throw new Error('Zip archive is too large');
+    }
+
+    // Local headers carry their own name and extra field lengths
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    const data = archive.subarray(dataStart, dataStart + compressedSize);
+
+    let contents: Buffer;
+    if (method === METHOD_STORE) {
+      contents = Buffer.from(data);
+    } else if (method === METHOD_DEFLATE) {
+      contents = inflateWithin(data, remaining);
+    } else {
+      throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+    }
+
+    totalSize += contents.length;
+    if (totalSize > MAX_UNCOMPRESSED_BYTES) {
+      throw new Error('Zip archive is too large');
+    }
+    files.set(name, contents);
+  }
+
+  return files;
+}
\ No newline at end of file
@@ -0,0 +1,38 @@
+/**
+ * Contract Event Handler - Infrastructure Layer
+ * Clean Architecture: Handles domain events for contracts
+ */
+
+import { ContractCreatedEvent } from '../../domain/contract/Contract';
+import { DomainEventPublisher, BaseDomainEventHandler } from '../../domain/shared/DomainEventPublisher';
+import { ClientAccountService } from '../../application/services/ClientAccountService';
+
+export class ContractCreatedEventHandler extends BaseDomainEventHandler<ContractCreatedEvent> {
+  constructor(private readonly clientAccountService: ClientAccountService) {
+    super();
+  }
+
+  async handle(event: ContractCreatedEvent): Promise<void> {
+    this.logEvent(event);
+
+    // Business logic: Every new contract's customer gets a way into the client portal
+    const invitation = await this.clientAccountService.inviteFromContract(event.contract);
+
+    console.log('📨 Client portal access for new contract:', {
+      contractId: event.contract.contractId,
+      customerEmail: event.contract.email.value,
+      invited: !!invitation
+    });
+  }
+}
+
+export class ContractEventHandler {
+  constructor(private readonly clientAccountService: ClientAccountService) {}
+
+  subscribeToEvents(eventPublisher: DomainEventPublisher): void {
+    eventPublisher.subscribe(
+      ContractCreatedEvent,
+      new ContractCreatedEventHandler(this.clientAccountService)
+    );
+  }
+}
\ No newline at end of file
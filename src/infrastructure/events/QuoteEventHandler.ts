@@ -7,11 +7,29 @@ import {
   QuoteSubmittedEvent,
   QuoteMovedToReviewEvent,
   QuoteSentEvent,
+  QuoteAssignedEvent,
   QuoteAcceptedEvent,
-  QuoteRejectedEvent
+  QuoteRejectedEvent,
+  QuoteExpiryReminderEvent,
+  QuoteExpiredEvent,
+  QuoteStatus,
+  Quote
 } from '../../domain/quote/Quote';
+import { Email } from '../../domain/shared/Email';
 import { NotificationService } from '../../domain/services/NotificationService';
+import { QuoteDocumentGenerator } from '../../domain/services/QuoteDocumentGenerator';
+import { QuoteResponseTokenService } from '../../domain/services/QuoteResponseTokenService';
 import { DomainEventPublisher, BaseDomainEventHandler } from '../../domain/shared/DomainEventPublisher';
+import { getRecipientsForType } from '../../lib/email-config';
+
+function buildQuoteResponseLink(quote: Quote, tokenService?: QuoteResponseTokenService): string | undefined {
+  if (!tokenService) {
+    return undefined;
+  }
+
+  const token = tokenService.issueToken(quote);
+  return `${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/quote-response?token=${encodeURIComponent(token)}`;
+}
 
 export class QuoteSubmittedEventHandler extends BaseDomainEventHandler<QuoteSubmittedEvent> {
   constructor(private readonly notificationService: NotificationService) {
@@ -39,7 +57,11 @@ export class QuoteSubmittedEventHandler extends BaseDomainEventHandler<QuoteSubm
 }
 
 export class QuoteSentEventHandler extends BaseDomainEventHandler<QuoteSentEvent> {
-  constructor(private readonly notificationService: NotificationService) {
+  constructor(
+    private readonly notificationService: NotificationService,
+    private readonly quoteDocumentGenerator?: QuoteDocumentGenerator,
+    private readonly quoteResponseTokenService?: QuoteResponseTokenService
+  ) {
     super();
   }
 
@@ -51,14 +73,169 @@ export class QuoteSentEventHandler extends BaseDomainEventHandler<QuoteSentEvent
       quoteId: event.quote.id.toString(),
       estimatedValue: event.estimatedValue,
       customerEmail: event.quote.email.value,
-      serviceType: event.quote.serviceType.key
+      serviceType: event.quote.serviceType.key,
+      revision: event.revision.version
     });
 
+    if (this.quoteDocumentGenerator) {
+      await this.emailQuoteDocument(event);
+    }
+
     // Could integrate with:
     // - Financial systems
     // - Revenue tracking
     // - Sales pipeline management
   }
+
+  private async emailQuoteDocument(event: QuoteSentEvent): Promise<void> {
+    const { quote, revision } = event;
+    const quoteId = quote.id.toString();
+
+    const document = await this.quoteDocumentGenerator!.generateQuotePdf({
+      quoteId,
+      revision: revision.version,
+      customerName: quote.customerName,
+      email: quote.email.value,
+      phone: quote.phone.formatted,
+      serviceName: quote.serviceType.name,
+      serviceAddress: quote.serviceAddress,
+      issuedAt: quote.quoteSentAt || new Date(),
+      expiresAt: quote.expiresAt,
+      estimate: revision.estimate
+    });
+
+    const responseLink = buildQuoteResponseLink(quote, this.quoteResponseTokenService);
+    const responseText = responseLink ? ` Review and accept or decline online: ${responseLink}` : '';
+    const responseHtml = responseLink
+      ? `<p><a href="${responseLink}">Review and accept or decline your quote online</a></p>`
+      : '';
+
+    await this.notificationService.sendEmail({
+      to: quote.email,
+      subject: `Your Quote from VSR Construction - ${quoteId}`,
+      body: `Hi ${quote.customerName}, your quote for ${quote.serviceType.name} totals $${event.estimatedValue.toFixed(2)}. The full estimate is attached.${responseText}`,
+      htmlBody: `
+        <h2>Your Quote is Ready</h2>
+        <p>Hi ${quote.customerName},</p>
+        <p>Your quote for <strong>${quote.serviceType.name}</strong> totals <strong>$${event.estimatedValue.toFixed(2)}</strong>.</p>
+        <p>The full estimate is attached as a PDF.</p>
+        ${responseHtml}
+        <p>Best regards,<br>VSR Construction Team</p>
+      `,
+      attachments: [document]
+    });
+  }
+}
+
+export class QuoteExpiryReminderEventHandler extends BaseDomainEventHandler<QuoteExpiryReminderEvent> {
+  constructor(
+    private readonly notificationService: NotificationService,
+    private readonly quoteResponseTokenService?: QuoteResponseTokenService
+  ) {
+    super();
+  }
+
+  async handle(event: QuoteExpiryReminderEvent): Promise<void> {
+    this.logEvent(event);
+
+    const { quote } = event;
+    const expiresOn = quote.expiresAt?.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+    const responseLink = buildQuoteResponseLink(quote, this.quoteResponseTokenService);
+    const responseText = responseLink ? ` Review and respond online: ${responseLink}` : '';
+    const responseHtml = responseLink
+      ? `<p><a href="${responseLink}">Review and accept or decline your quote online</a></p>`
+      : '';
+
+    await this.notificationService.sendEmail({
+      to: quote.email,
+      subject: `Reminder: your VSR Construction quote expires ${expiresOn}`,
+      body: `Hi ${quote.customerName}, your quote for ${quote.serviceType.name} expires on ${expiresOn}.${responseText}`,
+      htmlBody: `
+        <h2>Your Quote Expires Soon</h2>
+        <p>Hi ${quote.customerName},</p>
+        <p>Your quote for <strong>${quote.serviceType.name}</strong> expires on <strong>${expiresOn}</strong>.</p>
+        ${responseHtml}
+        <p>Best regards,<br>VSR Construction Team</p>
+      `
+    });
+
+    console.log('⏳ Quote expiry reminder sent:', {
+      quoteId: quote.id.toString(),
+      daysBefore: event.daysBefore
+    });
+  }
+}
+
+export class QuoteExpiredEventHandler extends BaseDomainEventHandler<QuoteExpiredEvent> {
+  constructor(private readonly notificationService: NotificationService) {
+    super();
+  }
+
+  async handle(event: QuoteExpiredEvent): Promise<void> {
+    this.logEvent(event);
+
+    const { quote } = event;
+    const quoteId = quote.id.toString();
+
+    // The assigned admin owns the follow-up; unassigned quotes go to the quotes inbox
+    const recipients = quote.assignedTo ? [quote.assignedTo] : getRecipientsForType('quotes');
+
+    for (const recipient of recipients) {
+      await this.notificationService.sendEmail({
+        to: Email.create(recipient),
+        subject: `Quote Expired - ${quoteId}`,
+        body: `The quote for ${quote.customerName} (${quote.serviceType.name}) expired without a response. Quote ID: ${quoteId}.`,
+        htmlBody: `
+          <h2>Quote Expired</h2>
+          <p>The quote for <strong>${quote.customerName}</strong> (${quote.serviceType.name}) expired without a customer response.</p>
+          <p><strong>Quote ID:</strong> ${quoteId}</p>
+          <p>Follow up with the customer or send a revised quote from the admin dashboard.</p>
+        `
+      });
+    }
+
+    console.log('⌛ Quote expired:', { quoteId, notified: recipients });
+  }
+}
+
+export class QuoteAssignedEventHandler extends BaseDomainEventHandler<QuoteAssignedEvent> {
+  constructor(private readonly notificationService: NotificationService) {
+    super();
+  }
+
+  async handle(event: QuoteAssignedEvent): Promise<void> {
+    this.logEvent(event);
+
+    const { quote } = event;
+    const quoteId = quote.id.toString();
+
+    // Assignees are normally staff emails; anything else is shown in the dashboard only
+    let recipient: Email;
+    try {
+      recipient = Email.create(event.assignee);
+    } catch {
+      console.log('👷 Quote assigned:', { quoteId, assignee: event.assignee, notified: false });
+      return;
+    }
+
+    const dueText = quote.status === QuoteStatus.PENDING
+      ? ` First response is due by ${quote.firstResponseDueAt.toLocaleString('en-US')}.`
+      : '';
+
+    await this.notificationService.sendEmail({
+      to: recipient,
+      subject: `Quote Assigned - ${quote.customerName} (${quote.serviceType.name})`,
+      body: `You have been assigned the ${quote.priority} priority quote for ${quote.customerName} (${quote.serviceType.name}). Quote ID: ${quoteId}.${dueText}`,
+      htmlBody: `
+        <h2>Quote Assigned to You</h2>
+        <p>You have been assigned the <strong>${quote.priority}</strong> priority quote for <strong>${quote.customerName}</strong> (${quote.serviceType.name}).</p>
+        <p><strong>Quote ID:</strong> ${quoteId}</p>
+        ${dueText ? `<p>${dueText.trim()}</p>` : ''}
+      `
+    });
+
+    console.log('👷 Quote assigned:', { quoteId, assignee: event.assignee, notified: true });
+  }
 }
 
 export class QuoteAcceptedEventHandler extends BaseDomainEventHandler<QuoteAcceptedEvent> {
@@ -77,16 +254,24 @@ export class QuoteAcceptedEventHandler extends BaseDomainEventHandler<QuoteAccep
       serviceType: event.quote.serviceType.key
     });
 
+    // The contract and project were created by AcceptQuoteCommandHandler before this event was published
+    console.log('📄 Quote converted to contract:', {
+      quoteId: event.quote.id.toString(),
+      contractId: event.quote.contractId
+    });
+
     // Could trigger:
-    // - Project creation
-    // - Contract generation
     // - Resource scheduling
     // - Customer onboarding
   }
 }
 
 export class QuoteEventHandler {
-  constructor(private readonly notificationService: NotificationService) {}
+  constructor(
+    private readonly notificationService: NotificationService,
+    private readonly quoteDocumentGenerator?: QuoteDocumentGenerator,
+    private readonly quoteResponseTokenService?: QuoteResponseTokenService
+  ) {}
 
   subscribeToEvents(eventPublisher: DomainEventPublisher): void {
     // Subscribe to all quote-related events
@@ -110,7 +295,26 @@ export class QuoteEventHandler {
 
     eventPublisher.subscribe(
       QuoteSentEvent,
-      new QuoteSentEventHandler(this.notificationService)
+      new QuoteSentEventHandler(
+        this.notificationService,
+        this.quoteDocumentGenerator,
+        this.quoteResponseTokenService
+      )
+    );
+
+    eventPublisher.subscribe(
+      QuoteAssignedEvent,
+      new QuoteAssignedEventHandler(this.notificationService)
+    );
+
+    eventPublisher.subscribe(
+      QuoteExpiryReminderEvent,
+      new QuoteExpiryReminderEventHandler(this.notificationService, this.quoteResponseTokenService)
+    );
+
+    eventPublisher.subscribe(
+      QuoteExpiredEvent,
+      new QuoteExpiredEventHandler(this.notificationService)
     );
 
     eventPublisher.subscribe(
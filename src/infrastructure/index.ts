@@ -38,6 +38,19 @@ export { ConfigFactory, createConfiguration, getConfiguration } from './config/C
 
 // Repository Implementations
 export * from './repositories/PostgreSQLQuoteRepository';
+export * from './repositories/PostgreSQLProjectRepository';
+export * from './repositories/PostgreSQLContractRepository';
+export * from './repositories/PostgreSQLWorkOrderRepository';
+export * from './repositories/PostgreSQLStormEventRepository';
+export * from './repositories/PostgreSQLServiceLogRepository';
+export * from './repositories/PostgreSQLInventoryItemRepository';
+export * from './repositories/PostgreSQLEquipmentRepository';
+export * from './repositories/PostgreSQLTimeEntryRepository';
+export * from './repositories/PostgreSQLInvoiceRepository';
+export * from './repositories/PostgreSQLRBACStore';
+export * from './repositories/PostgreSQLSessionStore';
+export * from './repositories/PostgreSQLLoginSecurityStore';
+export * from './cache/CachedSessionStore';
 
 // Infrastructure Services Container
 import { DatabaseConnection } from './database/DatabaseConnection';
@@ -50,6 +63,35 @@ import { ConfigurationManager } from './config/ConfigurationManager';
 import { ConfigFactory } from './config/ConfigFactory';
 import { QuoteRepository } from '../domain/quote/QuoteRepository';
 import { PostgreSQLQuoteRepository } from './repositories/PostgreSQLQuoteRepository';
+import { ProjectRepository } from '../domain/project/ProjectRepository';
+import { PostgreSQLProjectRepository } from './repositories/PostgreSQLProjectRepository';
+import { ContractRepository } from '../domain/contract/ContractRepository';
+import { ContractIdAllocator } from '../domain/contract/ContractIdAllocator';
+import { ContractConversionStore } from '../domain/contract/ContractConversionStore';
+import { PostgreSQLContractRepository } from './repositories/PostgreSQLContractRepository';
+import { PostgreSQLContractIdAllocator } from './repositories/PostgreSQLContractIdAllocator';
+import { PostgreSQLContractConversionStore } from './repositories/PostgreSQLContractConversionStore';
+import { WorkOrderRepository } from '../domain/workorder/WorkOrderRepository';
+import { PostgreSQLWorkOrderRepository } from './repositories/PostgreSQLWorkOrderRepository';
+import { StormEventRepository } from '../domain/storm/StormEventRepository';
+import { PostgreSQLStormEventRepository } from './repositories/PostgreSQLStormEventRepository';
+import { ServiceLogRepository } from '../domain/servicelog/ServiceLogRepository';
+import { PostgreSQLServiceLogRepository } from './repositories/PostgreSQLServiceLogRepository';
+import { InventoryItemRepository } from '../domain/inventory/InventoryItemRepository';
+import { PostgreSQLInventoryItemRepository } from './repositories/PostgreSQLInventoryItemRepository';
+import { EquipmentRepository } from '../domain/inventory/EquipmentRepository';
+import { PostgreSQLEquipmentRepository } from './repositories/PostgreSQLEquipmentRepository';
+import { TimeEntryRepository } from '../domain/timesheet/TimeEntryRepository';
+import { PostgreSQLTimeEntryRepository } from './repositories/PostgreSQLTimeEntryRepository';
+import { InvoiceRepository } from '../domain/invoice/InvoiceRepository';
+import { InvoiceNumberAllocator } from '../domain/invoice/InvoiceNumberAllocator';
+import { PostgreSQLInvoiceRepository } from './repositories/PostgreSQLInvoiceRepository';
+import { PostgreSQLInvoiceNumberAllocator } from './repositories/PostgreSQLInvoiceNumberAllocator';
+import { LoginSecurityStore, RBACStore, SessionStore } from '../auth/types';
+import { PostgreSQLRBACStore } from './repositories/PostgreSQLRBACStore';
+import { PostgreSQLSessionStore } from './repositories/PostgreSQLSessionStore';
+import { PostgreSQLLoginSecurityStore } from './repositories/PostgreSQLLoginSecurityStore';
+import { CachedSessionStore } from './cache/CachedSessionStore';
 
 export class InfrastructureContainer {
   private static instance: InfrastructureContainer | null = null;
@@ -119,9 +161,66 @@ export class InfrastructureContainer {
     const quoteRepository = new PostgreSQLQuoteRepository(database);
     this.register('quoteRepository', quoteRepository);
 
+    const projectRepository = new PostgreSQLProjectRepository(database);
+    this.register('projectRepository', projectRepository);
+
+    const contractRepository = new PostgreSQLContractRepository(database);
+    this.register('contractRepository', contractRepository);
+    const contractIdAllocator = new PostgreSQLContractIdAllocator(database);
+    this.register('contractIdAllocator', contractIdAllocator);
+    this.register('contractConversionStore', new PostgreSQLContractConversionStore(database, contractRepository, projectRepository));
+
+    const workOrderRepository = new PostgreSQLWorkOrderRepository(database);
+    this.register('workOrderRepository', workOrderRepository);
+
+    const stormEventRepository = new PostgreSQLStormEventRepository(database);
+    this.register('stormEventRepository', stormEventRepository);
+
+    const serviceLogRepository = new PostgreSQLServiceLogRepository(database);
+    this.register('serviceLogRepository', serviceLogRepository);
+
+    const inventoryItemRepository = new PostgreSQLInventoryItemRepository(database);
+    this.register('inventoryItemRepository', inventoryItemRepository);
+
+    const equipmentRepository = new PostgreSQLEquipmentRepository(database);
+    this.register('equipmentRepository', equipmentRepository);
+
+    const timeEntryRepository = new PostgreSQLTimeEntryRepository(database);
+    this.register('timeEntryRepository', timeEntryRepository);
+
+    const invoiceRepository = new PostgreSQLInvoiceRepository(database);
+    this.register('invoiceRepository', invoiceRepository);
+    const invoiceNumberAllocator = new PostgreSQLInvoiceNumberAllocator(database);
+    this.register('invoiceNumberAllocator', invoiceNumberAllocator);
+
+    const rbacStore = new PostgreSQLRBACStore(database);
+    this.register('rbacStore', rbacStore);
+
+    // Every request looks its session up, so lookups go through the cache; revocations evict them
+    const sessionStore = new PostgreSQLSessionStore(database);
+    const sessionCacheTTL = parseInt(process.env.SESSION_CACHE_TTL_SECONDS || '30', 10);
+    this.register('sessionStore', new CachedSessionStore(sessionStore, cache, sessionCacheTTL > 0 ? sessionCacheTTL : 30));
+
+    const loginSecurityStore = new PostgreSQLLoginSecurityStore(database);
+    this.register('loginSecurityStore', loginSecurityStore);
+
     // Create database schema in development
     if (appConfig.environment === 'development') {
       await quoteRepository.createSchema();
+      await projectRepository.createSchema();
+      await contractRepository.createSchema();
+      await contractIdAllocator.createSchema();
+      await workOrderRepository.createSchema();
+      await stormEventRepository.createSchema();
+      await serviceLogRepository.createSchema();
+      await inventoryItemRepository.createSchema();
+      await equipmentRepository.createSchema();
+      await timeEntryRepository.createSchema();
+      await invoiceRepository.createSchema();
+      await invoiceNumberAllocator.createSchema();
+      await rbacStore.createSchema();
+      await sessionStore.createSchema();
+      await loginSecurityStore.createSchema();
     }
 
     console.log('🚀 Infrastructure container initialized successfully');
@@ -163,6 +262,66 @@ export class InfrastructureContainer {
     return this.resolve<QuoteRepository>('quoteRepository');
   }
 
+  getProjectRepository(): ProjectRepository {
+    return this.resolve<ProjectRepository>('projectRepository');
+  }
+
+  getContractRepository(): ContractRepository {
+    return this.resolve<ContractRepository>('contractRepository');
+  }
+
+  getContractIdAllocator(): ContractIdAllocator {
+    return this.resolve<ContractIdAllocator>('contractIdAllocator');
+  }
+
+  getContractConversionStore(): ContractConversionStore {
+    return this.resolve<ContractConversionStore>('contractConversionStore');
+  }
+
+  getWorkOrderRepository(): WorkOrderRepository {
+    return this.resolve<WorkOrderRepository>('workOrderRepository');
+  }
+
+  getStormEventRepository(): StormEventRepository {
+    return this.resolve<StormEventRepository>('stormEventRepository');
+  }
+
+  getServiceLogRepository(): ServiceLogRepository {
+    return this.resolve<ServiceLogRepository>('serviceLogRepository');
+  }
+
+  getInventoryItemRepository(): InventoryItemRepository {
+    return this.resolve<InventoryItemRepository>('inventoryItemRepository');
+  }
+
+  getEquipmentRepository(): EquipmentRepository {
+    return this.resolve<EquipmentRepository>('equipmentRepository');
+  }
+
+  getTimeEntryRepository(): TimeEntryRepository {
+    return this.resolve<TimeEntryRepository>('timeEntryRepository');
+  }
+
+  getInvoiceRepository(): InvoiceRepository {
+    return this.resolve<InvoiceRepository>('invoiceRepository');
+  }
+
+  getInvoiceNumberAllocator(): InvoiceNumberAllocator {
+    return this.resolve<InvoiceNumberAllocator>('invoiceNumberAllocator');
+  }
+
+  getRBACStore(): RBACStore {
+    return this.resolve<RBACStore>('rbacStore');
+  }
+
+  getSessionStore(): SessionStore {
+    return this.resolve<SessionStore>('sessionStore');
+  }
+
+  getLoginSecurityStore(): LoginSecurityStore {
+    return this.resolve<LoginSecurityStore>('loginSecurityStore');
+  }
+
   async shutdown(): Promise<void> {
     console.log('🛑 Shutting down infrastructure services...');
 
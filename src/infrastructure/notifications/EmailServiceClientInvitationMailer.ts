@@ -0,0 +1,40 @@
+/**
+ * Email Service Client Invitation Mailer - Infrastructure Layer
+ * Sends client portal setup and contract link emails through the shared EmailService templates
+ */
+
+import {
+  ClientAccessLevel,
+  ClientInvitation,
+  ClientInvitationPurpose
+} from '../../domain/clientaccount/ClientInvitation';
+import { ClientInvitationMailer } from '../../domain/services/ClientInvitationMailer';
+
+const formatDate = (date: Date): string =>
+  new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+// Names typed by clients end up in HTML email, and the template engine does not escape
+const plain = (value: string): string => value.replace(/[<>&"]/g, '').trim();
+
+export class EmailServiceClientInvitationMailer implements ClientInvitationMailer {
+  async sendInvitation(invitation: ClientInvitation, link: string): Promise<void> {
+    // Loaded lazily so the container can be built without the email transport configured
+    const { emailService } = await import('../../lib/email-service');
+
+    const template = invitation.purpose === ClientInvitationPurpose.CONTRACT_LINK
+      ? 'client-contract-link'
+      : invitation.accessLevel === ClientAccessLevel.MEMBER ? 'client-coworker-invitation' : 'client-invitation';
+
+    // Sent immediately so a delivery failure reaches whoever asked for the invitation
+    await emailService.sendTemplateEmail(template, [invitation.email.value], {
+      recipientName: plain(invitation.recipientName || '') || 'there',
+      companyName: plain(invitation.companyName || '') || 'your company',
+      invitedBy: plain(invitation.invitedBy),
+      contractIds: invitation.contractIds.join(', '),
+      link,
+      expiresAt: formatDate(invitation.expiresAt)
+    }, {
+      async: false
+    });
+  }
+}
\ No newline at end of file
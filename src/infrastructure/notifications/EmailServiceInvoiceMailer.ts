@@ -0,0 +1,35 @@
+/**
+ * Email Service Invoice Mailer - Infrastructure Layer
+ * Sends issued invoices to customers through the shared EmailService templates
+ */
+
+import { Invoice } from '../../domain/invoice/Invoice';
+import { InvoiceMailer } from '../../domain/services/InvoiceMailer';
+import { EmailAttachment } from '../../domain/services/NotificationService';
+
+const formatCurrency = (amount: number): string =>
+  `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: Date): string =>
+  new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+export class EmailServiceInvoiceMailer implements InvoiceMailer {
+  async sendInvoice(invoice: Invoice, document: EmailAttachment, to: string): Promise<void> {
+    // Loaded lazily so the container can be built without the email transport configured
+    const { emailService } = await import('../../lib/email-service');
+
+    // Sent immediately rather than queued so a delivery failure reaches the admin who clicked send
+    await emailService.sendTemplateEmail('invoice-sent', [to], {
+      customerName: invoice.billTo.name,
+      invoiceNumber: invoice.invoiceNumber,
+      periodStart: formatDate(invoice.periodStart),
+      periodEnd: formatDate(invoice.periodEnd),
+      total: formatCurrency(invoice.total),
+      balanceDue: formatCurrency(invoice.balanceDue),
+      dueDate: invoice.dueAt ? formatDate(invoice.dueAt) : 'on receipt'
+    }, {
+      attachments: [document],
+      async: false
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,34 @@
+/**
+ * Email Service Login Alert Notifier - Infrastructure Layer
+ * Emails the account holder about a sign-in from a new device or country through the shared EmailService templates
+ */
+
+import { LoginAlertNotifier, LoginAnomalyFlag, SuspiciousSignIn } from '../../auth/types';
+
+const REASONS: Record<LoginAnomalyFlag, string> = {
+  new_device: 'a device or browser you have not used recently',
+  new_country: 'a country you have not signed in from recently'
+};
+
+// The name is typed by users and the address can come from a forwarding header; the template engine does not escape
+const plain = (value: string): string => value.replace(/[<>&"]/g, '').trim();
+
+export class EmailServiceLoginAlertNotifier implements LoginAlertNotifier {
+  async notifySuspiciousSignIn(alert: SuspiciousSignIn): Promise<void> {
+    // Loaded lazily so the container can be built without the email transport configured
+    const { emailService } = await import('../../lib/email-service');
+
+    // Queued rather than sent inline, so the sign-in is not held up by the mail server
+    await emailService.sendTemplateEmail('suspicious-sign-in', [alert.email], {
+      recipientName: plain(alert.recipientName) || 'there',
+      reasons: alert.flags.map(flag => REASONS[flag]).join(' and '),
+      device: alert.device,
+      ip: plain(alert.ip),
+      location: alert.country || 'Unknown',
+      signedInAt: new Date(alert.attemptedAt).toUTCString()
+    }, {
+      priority: 'high',
+      async: true
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,212 @@
+/**
+ * Local Payment Provider - Infrastructure Layer
+ * In-process fake processor for development and tests; queues signed webhooks instead of calling out
+ *
+ * Test payment methods mirror Stripe's: pm_card_visa succeeds, pm_card_declined fails and
+ * pm_us_bank_account stays processing until settleIntent() is called, like an ACH debit.
+ */
+
+import crypto from 'crypto';
+import {
+  PaymentEventType,
+  PaymentIntent,
+  PaymentIntentRequest,
+  PaymentIntentStatus,
+  PaymentOperationError,
+  PaymentProvider,
+  PaymentProviderType,
+  PaymentRefund,
+  PaymentWebhookEvent,
+  PaymentWebhookVerificationError
+} from './PaymentProvider';
+import { signWebhookPayload, verifyWebhookSignature } from './WebhookSignature';
+
+export interface SignedWebhook {
+  rawBody: string;
+  signature: string;
+}
+
+interface LocalWebhookPayload {
+  id: string;
+  type: PaymentEventType;
+  created: string;
+  intent: Omit<PaymentIntent, 'createdAt'> & { createdAt: string };
+}
+
+export const LOCAL_TEST_PAYMENT_METHODS = {
+  CARD_SUCCEEDS: 'pm_card_visa',
+  CARD_DECLINED: 'pm_card_declined',
+  ACH_DEBIT: 'pm_us_bank_account'
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+const localId = (prefix: string): string => `${prefix}_local_${crypto.randomBytes(8).toString('hex')}`;
+
+export class LocalPaymentProvider implements PaymentProvider {
+  readonly name = PaymentProviderType.LOCAL;
+  readonly signatureHeader = 'x-local-payments-signature';
+  private intents = new Map<string, PaymentIntent>();
+  private intentsByIdempotencyKey = new Map<string, string>();
+  private outbox: SignedWebhook[] = [];
+
+  constructor(private readonly webhookSecret: string) {}
+
+  async createIntent(request: PaymentIntentRequest): Promise<PaymentIntent> {
+    const existingId = this.intentsByIdempotencyKey.get(request.idempotencyKey);
+    if (existingId) {
+      return { ...this.intents.get(existingId)! };
+    }
+    if (!Number.isFinite(request.amount) || request.amount <= 0) {
+      throw new PaymentOperationError('Amount must be greater than 0', this.name);
+    }
+
+    const id = localId('pi');
+    const intent: PaymentIntent = {
+      id,
+      status: PaymentIntentStatus.REQUIRES_PAYMENT_METHOD,
+      amount: round(request.amount),
+      amountReceived: 0,
+      amountRefunded: 0,
+      currency: request.currency.toLowerCase(),
+      purpose: request.purpose,
+      targetId: request.targetId,
+      clientSecret: `${id}_secret_${crypto.randomBytes(8).toString('hex')}`,
+      createdAt: new Date()
+    };
+    this.intents.set(id, intent);
+    this.intentsByIdempotencyKey.set(request.idempotencyKey, id);
+    return { ...intent };
+  }
+
+  async confirmIntent(intentId: string, paymentMethod: string = LOCAL_TEST_PAYMENT_METHODS.CARD_SUCCEEDS): Promise<PaymentIntent> {
+    const intent = this.requireIntent(intentId);
+    if (intent.status !== PaymentIntentStatus.REQUIRES_PAYMENT_METHOD && intent.status !== PaymentIntentStatus.REQUIRES_CONFIRMATION) {
+      throw new PaymentOperationError(`Payment intent is already ${intent.status}`, this.name);
+    }
+
+    switch (paymentMethod) {
+      case LOCAL_TEST_PAYMENT_METHODS.CARD_SUCCEEDS:
+        intent.methodType = 'card';
+        this.succeed(intent);
+        break;
+      case LOCAL_TEST_PAYMENT_METHODS.CARD_DECLINED:
+        intent.methodType = 'card';
+        intent.status = PaymentIntentStatus.FAILED;
+        intent.failureMessage = 'Your card was declined.';
+        this.enqueue(PaymentEventType.PAYMENT_FAILED, intent);
+        // A declined card can be retried with another method, as with Stripe
+        intent.status = PaymentIntentStatus.REQUIRES_PAYMENT_METHOD;
+        break;
+      case LOCAL_TEST_PAYMENT_METHODS.ACH_DEBIT:
+        intent.methodType = 'ach';
+        intent.status = PaymentIntentStatus.PROCESSING;
+        this.enqueue(PaymentEventType.PAYMENT_PROCESSING, intent);
+        break;
+      default:
+        throw new PaymentOperationError(
+          `Unknown test payment method; use one of ${Object.values(LOCAL_TEST_PAYMENT_METHODS).join(', ')}`,
+          this.name
+        );
+    }
+
+    return { ...intent };
+  }
+
+  // Completes a processing ACH debit
+  settleIntent(intentId: string): PaymentIntent {
+    const intent = this.requireIntent(intentId);
+    if (intent.status !== PaymentIntentStatus.PROCESSING) {
+      throw new PaymentOperationError('Only processing payments can be settled', this.name);
+    }
+    this.succeed(intent);
+    return { ...intent };
+  }
+
+  async getIntent(intentId: string): Promise<PaymentIntent | null> {
+    const intent = this.intents.get(intentId);
+    return intent ? { ...intent } : null;
+  }
+
+  async refund(intentId: string, amount?: number): Promise<PaymentRefund> {
+    const intent = this.requireIntent(intentId);
+    if (intent.status !== PaymentIntentStatus.SUCCEEDED) {
+      throw new PaymentOperationError('Only succeeded payments can be refunded', this.name);
+    }
+    const refundable = round(intent.amountReceived - intent.amountRefunded);
+    const refundAmount = round(amount ?? refundable);
+    if (refundAmount <= 0 || refundAmount > refundable) {
+      throw new PaymentOperationError(`Refund must be between 0 and ${refundable.toFixed(2)}`, this.name);
+    }
+
+    intent.amountRefunded = round(intent.amountRefunded + refundAmount);
+    this.enqueue(PaymentEventType.REFUND_SUCCEEDED, intent);
+    return {
+      id: localId('re'),
+      intentId,
+      amount: refundAmount,
+      status: 'succeeded',
+      createdAt: new Date()
+    };
+  }
+
+  verifyWebhook(rawBody: string, signatureHeader: string | undefined): PaymentWebhookEvent {
+    verifyWebhookSignature(rawBody, signatureHeader, this.webhookSecret, this.name);
+
+    let payload: LocalWebhookPayload;
+    try {
+      payload = JSON.parse(rawBody) as LocalWebhookPayload;
+    } catch {
+      throw new PaymentWebhookVerificationError('Webhook body is not valid JSON', this.name);
+    }
+
+    const intent: PaymentIntent = { ...payload.intent, createdAt: new Date(payload.intent.createdAt) };
+    return {
+      id: payload.id,
+      type: Object.values(PaymentEventType).includes(payload.type) ? payload.type : PaymentEventType.OTHER,
+      providerType: payload.type,
+      intentId: intent.id,
+      intent,
+      amountRefunded: payload.type === PaymentEventType.REFUND_SUCCEEDED ? intent.amountRefunded : undefined,
+      createdAt: new Date(payload.created)
+    };
+  }
+
+  // Hands over the webhooks queued since the last call, for the caller to post or process
+  drainWebhooks(): SignedWebhook[] {
+    const webhooks = this.outbox;
+    this.outbox = [];
+    return webhooks;
+  }
+
+  clear(): void {
+    this.intents.clear();
+    this.intentsByIdempotencyKey.clear();
+    this.outbox = [];
+  }
+
+  private succeed(intent: PaymentIntent): void {
+    intent.status = PaymentIntentStatus.SUCCEEDED;
+    intent.amountReceived = intent.amount;
+    intent.failureMessage = undefined;
+    this.enqueue(PaymentEventType.PAYMENT_SUCCEEDED, intent);
+  }
+
+  private enqueue(type: PaymentEventType, intent: PaymentIntent): void {
+    const payload: LocalWebhookPayload = {
+      id: localId('evt'),
+      type,
+      created: new Date().toISOString(),
+      intent: { ...intent, clientSecret: undefined, createdAt: intent.createdAt.toISOString() }
+    };
+    const rawBody = JSON.stringify(payload);
+    this.outbox.push({ rawBody, signature: signWebhookPayload(rawBody, this.webhookSecret) });
+  }
+
+  private requireIntent(intentId: string): PaymentIntent {
+    const intent = this.intents.get(intentId);
+    if (!intent) {
+      throw new PaymentOperationError(`No such payment intent: ${intentId}`, this.name);
+    }
+    return intent;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,35 @@
+/**
+ * Payment Audit Log - Infrastructure Layer
+ * Append-only record of every payment webhook received and what it did to invoices and deposits
+ */
+
+export enum PaymentAuditOutcome {
+  APPLIED = 'applied', // Invoice or deposit updated
+  DUPLICATE = 'duplicate', // Event id already handled; redelivery dropped
+  IGNORED = 'ignored', // Nothing to change for this event
+  UNAPPLIED = 'unapplied', // Money the provider captured or returned that the invoice or deposit would not take; held for staff to settle
+  FAILED = 'failed', // Verified event that could not be applied
+  REJECTED = 'rejected' // Signature did not verify
+}
+
+export interface PaymentAuditEntry {
+  id: string;
+  provider: string;
+  eventId?: string;
+  eventType?: string;
+  intentId?: string;
+  purpose?: string;
+  targetId?: string;
+  amount?: number;
+  outcome: PaymentAuditOutcome;
+  message?: string;
+  recordedAt: Date;
+}
+
+export interface PaymentAuditLog {
+  record(entry: PaymentAuditEntry): Promise<void>;
+  // Events that reached the point of being applied; duplicates and rejections do not count
+  hasProcessedEvent(provider: string, eventId: string): Promise<boolean>;
+  findByTargetId(targetId: string): Promise<PaymentAuditEntry[]>;
+  list(limit?: number): Promise<PaymentAuditEntry[]>; // Newest first
+}
\ No newline at end of file
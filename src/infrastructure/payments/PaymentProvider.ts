@@ -0,0 +1,107 @@
+/**
+ * Payment Provider Interface - Infrastructure Layer
+ * Card and ACH payment abstraction so invoices and quote deposits are not tied to one processor
+ */
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderType;
+  readonly signatureHeader: string; // Lower-case request header the webhook signature arrives in
+
+  createIntent(request: PaymentIntentRequest): Promise<PaymentIntent>;
+  confirmIntent(intentId: string, paymentMethod?: string): Promise<PaymentIntent>;
+  getIntent(intentId: string): Promise<PaymentIntent | null>;
+  refund(intentId: string, amount?: number): Promise<PaymentRefund>;
+
+  // Checks the signature against the raw request body; throws PaymentWebhookVerificationError
+  verifyWebhook(rawBody: string, signatureHeader: string | undefined): PaymentWebhookEvent;
+}
+
+export enum PaymentProviderType {
+  STRIPE = 'stripe',
+  LOCAL = 'local'
+}
+
+export type PaymentPurpose = 'invoice' | 'quote_deposit';
+export type PaymentMethodType = 'card' | 'ach';
+
+export interface PaymentIntentRequest {
+  amount: number; // Dollars; providers convert to their own minor units
+  currency: string;
+  methodTypes: PaymentMethodType[];
+  purpose: PaymentPurpose;
+  targetId: string; // Invoice id or quote id
+  description: string;
+  customerEmail?: string;
+  idempotencyKey: string;
+}
+
+export enum PaymentIntentStatus {
+  REQUIRES_PAYMENT_METHOD = 'requires_payment_method',
+  REQUIRES_CONFIRMATION = 'requires_confirmation',
+  PROCESSING = 'processing', // ACH debits settle over several days
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+  CANCELED = 'canceled'
+}
+
+export interface PaymentIntent {
+  id: string;
+  status: PaymentIntentStatus;
+  amount: number;
+  amountReceived: number;
+  amountRefunded: number;
+  currency: string;
+  purpose: PaymentPurpose;
+  targetId: string;
+  methodType?: PaymentMethodType;
+  clientSecret?: string; // Handed to the browser to collect card details
+  failureMessage?: string;
+  createdAt: Date;
+}
+
+export interface PaymentRefund {
+  id: string;
+  intentId: string;
+  amount: number;
+  status: 'pending' | 'succeeded' | 'failed';
+  createdAt: Date;
+}
+
+export enum PaymentEventType {
+  PAYMENT_SUCCEEDED = 'payment.succeeded',
+  PAYMENT_FAILED = 'payment.failed',
+  PAYMENT_PROCESSING = 'payment.processing',
+  REFUND_SUCCEEDED = 'refund.succeeded',
+  OTHER = 'other'
+}
+
+export interface PaymentWebhookEvent {
+  id: string; // Provider event id, used to drop redelivered webhooks
+  type: PaymentEventType;
+  providerType: string; // Event name as the provider sent it
+  intentId?: string;
+  intent?: PaymentIntent; // Present when the payload carries the whole intent
+  amountRefunded?: number; // Running refund total on refund events
+  createdAt: Date;
+}
+
+export abstract class PaymentProviderError extends Error {
+  abstract readonly errorCode: string;
+
+  constructor(
+    message: string,
+    public readonly provider?: string,
+    public readonly cause?: Error
+  ) {
+    super(message);
+    this.name = this.constructor.name;
+  }
+}
+
+export class PaymentOperationError extends PaymentProviderError {
+  readonly errorCode = 'PAYMENT_OPERATION_ERROR';
+}
+
+export class PaymentWebhookVerificationError extends PaymentProviderError {
+  readonly errorCode = 'PAYMENT_WEBHOOK_VERIFICATION_ERROR';
+}
\ No newline at end of file
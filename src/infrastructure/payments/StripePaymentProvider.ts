@@ -0,0 +1,221 @@
+/**
+ * Stripe Payment Provider - Infrastructure Layer
+ * Talks to the Stripe REST API directly; amounts are sent in cents and intents carry their target in metadata
+ */
+
+import {
+  PaymentEventType,
+  PaymentIntent,
+  PaymentIntentRequest,
+  PaymentIntentStatus,
+  PaymentMethodType,
+  PaymentOperationError,
+  PaymentProvider,
+  PaymentProviderType,
+  PaymentPurpose,
+  PaymentRefund,
+  PaymentWebhookEvent,
+  PaymentWebhookVerificationError
+} from './PaymentProvider';
+import { verifyWebhookSignature } from './WebhookSignature';
+
+export interface StripePaymentProviderConfig {
+  secretKey: string;
+  webhookSecret: string;
+  apiBaseUrl?: string;
+}
+
+type StripeObject = Record<string, unknown>;
+
+const STRIPE_API_BASE_URL = 'https://api.stripe.com/v1';
+
+// Stripe calls ACH debits "us_bank_account"
+const METHOD_TYPES: Record<PaymentMethodType, string> = {
+  card: 'card',
+  ach: 'us_bank_account'
+};
+
+const STATUSES: Record<string, PaymentIntentStatus> = {
+  requires_payment_method: PaymentIntentStatus.REQUIRES_PAYMENT_METHOD,
+  requires_confirmation: PaymentIntentStatus.REQUIRES_CONFIRMATION,
+  requires_action: PaymentIntentStatus.REQUIRES_CONFIRMATION,
+  requires_capture: PaymentIntentStatus.PROCESSING,
+  processing: PaymentIntentStatus.PROCESSING,
+  succeeded: PaymentIntentStatus.SUCCEEDED,
+  canceled: PaymentIntentStatus.CANCELED
+};
+
+const EVENT_TYPES: Record<string, PaymentEventType> = {
+  'payment_intent.succeeded': PaymentEventType.PAYMENT_SUCCEEDED,
+  'payment_intent.payment_failed': PaymentEventType.PAYMENT_FAILED,
+  'payment_intent.processing': PaymentEventType.PAYMENT_PROCESSING,
+  'charge.refunded': PaymentEventType.REFUND_SUCCEEDED
+};
+
+const toCents = (amount: number): number => Math.round(amount * 100);
+const fromCents = (cents: unknown): number => (typeof cents === 'number' ? cents / 100 : 0);
+const fromUnixSeconds = (seconds: unknown): Date => (typeof seconds === 'number' ? new Date(seconds * 1000) : new Date());
+
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = PaymentProviderType.STRIPE;
+  readonly signatureHeader = 'stripe-signature';
+  private readonly apiBaseUrl: string;
+
+  constructor(private readonly config: StripePaymentProviderConfig) {
+    this.apiBaseUrl = config.apiBaseUrl || STRIPE_API_BASE_URL;
+  }
+
+  async createIntent(request: PaymentIntentRequest): Promise<PaymentIntent> {
+    const params = new URLSearchParams({
+      amount: String(toCents(request.amount)),
+      currency: request.currency.toLowerCase(),
+      description: request.description,
+      'metadata[purpose]': request.purpose,
+      'metadata[target_id]': request.targetId
+    });
+    request.methodTypes.forEach(type => params.append('payment_method_types[]', METHOD_TYPES[type]));
+    if (request.customerEmail) {
+      params.set('receipt_email', request.customerEmail);
+    }
+
+    const intent = await this.request('POST', '/payment_intents', params, request.idempotencyKey);
+    return this.toIntent(intent);
+  }
+
+  async confirmIntent(intentId: string, paymentMethod?: string): Promise<PaymentIntent> {
+    const params = new URLSearchParams();
+    if (paymentMethod) {
+      params.set('payment_method', paymentMethod);
+    }
+    const intent = await this.request('POST', `/payment_intents/${encodeURIComponent(intentId)}/confirm`, params);
+    return this.toIntent(intent);
+  }
+
+  async getIntent(intentId: string): Promise<PaymentIntent | null> {
+    try {
+      // The latest charge carries the running refund total
+      const intent = await this.request(
+        'GET',
+        `/payment_intents/${encodeURIComponent(intentId)}?expand[]=latest_charge`
+      );
+      return this.toIntent(intent);
+    } catch (error) {
+      if (error instanceof PaymentOperationError && error.message.includes('No such payment_intent')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async refund(intentId: string, amount?: number): Promise<PaymentRefund> {
+    const params = new URLSearchParams({ payment_intent: intentId });
+    if (amount !== undefined) {
+      params.set('amount', String(toCents(amount)));
+    }
+    const refund = await this.request('POST', '/refunds', params);
+    return {
+      id: String(refund.id),
+      intentId,
+      amount: fromCents(refund.amount),
+      status: refund.status === 'succeeded' ? 'succeeded' : refund.status === 'failed' ? 'failed' : 'pending',
+      createdAt: fromUnixSeconds(refund.created)
+    };
+  }
+
+  verifyWebhook(rawBody: string, signatureHeader: string | undefined): PaymentWebhookEvent {
+    verifyWebhookSignature(rawBody, signatureHeader, this.config.webhookSecret, this.name);
+
+    let event: StripeObject;
+    try {
+      event = JSON.parse(rawBody) as StripeObject;
+    } catch {
+      throw new PaymentWebhookVerificationError('Webhook body is not valid JSON', this.name);
+    }
+
+    const providerType = String(event.type);
+    const type = EVENT_TYPES[providerType] || PaymentEventType.OTHER;
+    const object = ((event.data as StripeObject | undefined)?.object || {}) as StripeObject;
+    const webhookEvent: PaymentWebhookEvent = {
+      id: String(event.id),
+      type,
+      providerType,
+      createdAt: fromUnixSeconds(event.created)
+    };
+
+    if (providerType.startsWith('payment_intent.')) {
+      const intent = this.toIntent(object);
+      webhookEvent.intentId = intent.id;
+      webhookEvent.intent = type === PaymentEventType.PAYMENT_FAILED
+        ? { ...intent, status: PaymentIntentStatus.FAILED }
+        : intent;
+    } else if (providerType === 'charge.refunded') {
+      // Charges do not copy the intent's metadata, so the processor looks the intent up by id
+      webhookEvent.intentId = typeof object.payment_intent === 'string' ? object.payment_intent : undefined;
+      webhookEvent.amountRefunded = fromCents(object.amount_refunded);
+    }
+
+    return webhookEvent;
+  }
+
+  private toIntent(object: StripeObject): PaymentIntent {
+    const metadata = (object.metadata || {}) as Record<string, string>;
+    const lastError = object.last_payment_error as StripeObject | undefined;
+    const latestCharge = typeof object.latest_charge === 'object' && object.latest_charge
+      ? object.latest_charge as StripeObject
+      : undefined;
+    const methodTypes = (object.payment_method_types || []) as string[];
+
+    return {
+      id: String(object.id),
+      status: STATUSES[String(object.status)] || PaymentIntentStatus.REQUIRES_PAYMENT_METHOD,
+      amount: fromCents(object.amount),
+      amountReceived: fromCents(object.amount_received),
+      amountRefunded: fromCents(latestCharge?.amount_refunded),
+      currency: String(object.currency || 'usd'),
+      purpose: metadata.purpose as PaymentPurpose,
+      targetId: metadata.target_id,
+      methodType: methodTypes.length === 1 && methodTypes[0] === METHOD_TYPES.ach ? 'ach' : 'card',
+      clientSecret: typeof object.client_secret === 'string' ? object.client_secret : undefined,
+      failureMessage: typeof lastError?.message === 'string' ? lastError.message : undefined,
+      createdAt: fromUnixSeconds(object.created)
+    };
+  }
+
+  private async request(
+    method: 'GET' | 'POST',
+    resource: string,
+    params?: URLSearchParams,
+    idempotencyKey?: string
+  ): Promise<StripeObject> {
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${this.config.secretKey}`
+    };
+    if (method === 'POST') {
+      headers['Content-Type'] = 'application/x-www-form-urlencoded';
+    }
+    if (idempotencyKey) {
+      headers['Idempotency-Key'] = idempotencyKey;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.apiBaseUrl}${resource}`, {
+        method,
+        headers,
+        body: method === 'POST' ? params?.toString() : undefined
+      });
+    } catch (error) {
+      throw new PaymentOperationError('Could not reach Stripe', this.name, error instanceof Error ? error : undefined);
+    }
+
+    const body = await response.json().catch(() => ({})) as StripeObject;
+    if (!response.ok) {
+      const stripeError = body.error as StripeObject | undefined;
+      throw new PaymentOperationError(
+        typeof stripeError?.message === 'string' ? stripeError.message : `Stripe request failed with ${response.status}`,
+        this.name
+      );
+    }
+    return body;
+  }
+}
\ No newline at end of file
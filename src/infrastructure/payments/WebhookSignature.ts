@@ -0,0 +1,57 @@
+/**
+ * Webhook Signature - Infrastructure Layer
+ * Timestamped HMAC-SHA256 signatures in the "t=...,v1=..." header format used by Stripe
+ */
+
+import crypto from 'crypto';
+import { PaymentWebhookVerificationError } from './PaymentProvider';
+
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const computeSignature = (payload: string, secret: string, timestamp: number): string =>
+  crypto.createHmac('sha256', secret).update(`${timestamp}.${payload}`, 'utf8').digest('hex');
+
+export function signWebhookPayload(payload: string, secret: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${computeSignature(payload, secret, timestamp)}`;
+}
+
+// Rejects missing, malformed, forged and replayed (older than the tolerance) signatures
+export function verifyWebhookSignature(
+  payload: string,
+  header: string | undefined,
+  secret: string,
+  provider: string,
+  toleranceSeconds: number = DEFAULT_SIGNATURE_TOLERANCE_SECONDS
+): void {
+  if (!secret) {
+    throw new PaymentWebhookVerificationError('Webhook secret is not configured', provider);
+  }
+  if (!header) {
+    throw new PaymentWebhookVerificationError('Missing webhook signature header', provider);
+  }
+
+  let timestamp: number | undefined;
+  const signatures: string[] = [];
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=', 2);
+    if (key === 't') timestamp = Number(value);
+    if (key === 'v1' && value) signatures.push(value);
+  }
+  if (timestamp === undefined || !Number.isInteger(timestamp) || signatures.length === 0) {
+    throw new PaymentWebhookVerificationError('Malformed webhook signature header', provider);
+  }
+
+  const age = Math.abs(Math.floor(Date.now() / 1000) - timestamp);
+  if (age > toleranceSeconds) {
+    throw new PaymentWebhookVerificationError('Webhook signature timestamp is outside the tolerance', provider);
+  }
+
+  const expected = Buffer.from(computeSignature(payload, secret, timestamp), 'hex');
+  const matches = signatures.some(signature => {
+    const given = Buffer.from(signature, 'hex');
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+  });
+  if (!matches) {
+    throw new PaymentWebhookVerificationError('Webhook signature does not match', provider);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,40 @@
+/**
+ * Compensating Contract Conversion Store - Infrastructure Layer
+ * ContractConversionStore for stores without transactions: earlier writes are deleted if a later one fails
+ */
+
+import { Contract } from '../../domain/contract/Contract';
+import { ContractConversionStore } from '../../domain/contract/ContractConversionStore';
+import { ContractRepository } from '../../domain/contract/ContractRepository';
+import { Project } from '../../domain/project/Project';
+import { ProjectRepository } from '../../domain/project/ProjectRepository';
+
+export class CompensatingContractConversionStore implements ContractConversionStore {
+  constructor(
+    private readonly contractRepository: ContractRepository,
+    private readonly projectRepository: ProjectRepository
+  ) {}
+
+  async saveConversion(contract: Contract, project: Project, link: () => Promise<void>): Promise<void> {
+    const compensations: Array<() => Promise<void>> = [];
+
+    try {
+      await this.contractRepository.save(contract);
+      compensations.push(() => this.contractRepository.delete(contract.id));
+
+      await this.projectRepository.save(project);
+      compensations.push(() => this.projectRepository.delete(project.id));
+
+      await link();
+    } catch (error) {
+      for (const compensate of compensations.reverse()) {
+        try {
+          await compensate();
+        } catch (compensationError) {
+          console.error('Failed to roll back quote conversion step:', compensationError);
+        }
+      }
+      throw error;
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,116 @@
+/**
+ * File Client Invitation Repository - Infrastructure Layer
+ * Persists client invitations to data/client-invitations.json next to the secure user store
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  ClientAccessLevel,
+  ClientInvitation,
+  ClientInvitationPurpose,
+  ClientInvitationStatus
+} from '../../domain/clientaccount/ClientInvitation';
+import { Email } from '../../domain/shared/Email';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+import { InMemoryClientInvitationRepository } from './InMemoryClientInvitationRepository';
+
+interface ClientInvitationRecord {
+  id: string;
+  email: string;
+  purpose: string;
+  accessLevel: string;
+  contractIds: string[];
+  companyName?: string;
+  recipientName?: string;
+  userId?: string;
+  tokenHash: string;
+  status: string;
+  invitedBy: string;
+  expiresAt: string;
+  acceptedAt?: string;
+  acceptedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const toDate = (value?: string): Date | undefined => value ? new Date(value) : undefined;
+
+export class FileClientInvitationRepository extends InMemoryClientInvitationRepository {
+  constructor(private readonly filePath: string = path.join(process.cwd(), 'data', 'client-invitations.json')) {
+    super();
+    this.load();
+  }
+
+  async save(invitation: ClientInvitation): Promise<void> {
+    await super.save(invitation);
+    this.persist();
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    await super.delete(id);
+    this.persist();
+  }
+
+  private load(): void {
+    let records: ClientInvitationRecord[] = [];
+    try {
+      if (fs.existsSync(this.filePath)) {
+        records = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as ClientInvitationRecord[];
+      }
+    } catch (error) {
+      // Refuse to start from an empty store, or the next save would overwrite the file
+      throw new Error(`Failed to read client invitations from ${this.filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    for (const record of records) {
+      const invitation = ClientInvitation.reconstitute(UniqueEntityId.create(record.id), {
+        email: Email.create(record.email),
+        purpose: record.purpose as ClientInvitationPurpose,
+        accessLevel: record.accessLevel as ClientAccessLevel,
+        contractIds: record.contractIds || [],
+        companyName: record.companyName,
+        recipientName: record.recipientName,
+        userId: record.userId,
+        tokenHash: record.tokenHash,
+        status: record.status as ClientInvitationStatus,
+        invitedBy: record.invitedBy,
+        expiresAt: new Date(record.expiresAt),
+        acceptedAt: toDate(record.acceptedAt),
+        acceptedBy: record.acceptedBy,
+        createdAt: new Date(record.createdAt),
+        updatedAt: new Date(record.updatedAt)
+      });
+      this.invitations.set(invitation.id.toString(), invitation);
+    }
+  }
+
+  private persist(): void {
+    const records: ClientInvitationRecord[] = Array.from(this.invitations.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(invitation => ({
+        id: invitation.id.toString(),
+        email: invitation.email.value,
+        purpose: invitation.purpose,
+        accessLevel: invitation.accessLevel,
+        contractIds: Array.from(invitation.contractIds),
+        companyName: invitation.companyName,
+        recipientName: invitation.recipientName,
+        userId: invitation.userId,
+        tokenHash: invitation.tokenHash,
+        status: invitation.status,
+        invitedBy: invitation.invitedBy,
+        expiresAt: invitation.expiresAt.toISOString(),
+        acceptedAt: invitation.acceptedAt?.toISOString(),
+        acceptedBy: invitation.acceptedBy,
+        createdAt: invitation.createdAt.toISOString(),
+        updatedAt: invitation.updatedAt.toISOString()
+      }));
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write then rename so a crash mid-write never leaves a truncated file
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(records, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,153 @@
+/**
+ * File Equipment Repository - Infrastructure Layer
+ * Persists the equipment registry, crew check-outs and maintenance history to data/equipment.json
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  Equipment,
+  EquipmentCategory,
+  EquipmentCheckout,
+  EquipmentMaintenanceRecord,
+  EquipmentStatus
+} from '../../domain/inventory/Equipment';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+import { InMemoryEquipmentRepository } from './InMemoryEquipmentRepository';
+
+interface EquipmentCheckoutRecord extends Omit<EquipmentCheckout, 'checkedOutAt' | 'dueBackAt' | 'returnedAt'> {
+  checkedOutAt: string;
+  dueBackAt?: string;
+  returnedAt?: string;
+}
+
+interface EquipmentMaintenanceRecordRecord extends Omit<EquipmentMaintenanceRecord, 'completedAt'> {
+  completedAt: string;
+}
+
+interface EquipmentRecord {
+  id: string;
+  assetTag: string;
+  name: string;
+  category: string;
+  yard: string;
+  status: string;
+  maintenanceIntervalDays: number;
+  maintenanceDueAt: string;
+  checkouts: EquipmentCheckoutRecord[];
+  maintenance: EquipmentMaintenanceRecordRecord[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+const toDate = (value?: string): Date | undefined => value ? new Date(value) : undefined;
+
+export class FileEquipmentRepository extends InMemoryEquipmentRepository {
+  // Records that could not be turned into equipment are written back untouched rather than dropped
+  private unreadableRecords: EquipmentRecord[] = [];
+
+  constructor(private readonly filePath: string = path.join(process.cwd(), 'data', 'equipment.json')) {
+    super();
+    this.load();
+  }
+
+  async save(equipment: Equipment): Promise<void> {
+    await super.save(equipment);
+    this.persist();
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    await super.delete(id);
+    this.persist();
+  }
+
+  private load(): void {
+    let records: EquipmentRecord[] = [];
+    try {
+      if (fs.existsSync(this.filePath)) {
+        records = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as EquipmentRecord[];
+      }
+    } catch (error) {
+      // Refuse to start from an empty store, or the next save would overwrite the file
+      throw new Error(`Failed to read equipment from ${this.filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    for (const record of records) {
+      try {
+        const equipment = this.fromRecord(record);
+        this.equipment.set(equipment.id.toString(), equipment);
+      } catch (error) {
+        console.warn(`Skipping unreadable equipment record ${record.id}:`, error instanceof Error ? error.message : error);
+        this.unreadableRecords.push(record);
+      }
+    }
+  }
+
+  private persist(): void {
+    const records: EquipmentRecord[] = [
+      ...Array.from(this.equipment.values())
+        .sort((a, b) => a.assetTag.localeCompare(b.assetTag))
+        .map(equipment => this.toRecord(equipment)),
+      ...this.unreadableRecords
+    ];
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write then rename so a crash mid-write never leaves a truncated file
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(records, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  private fromRecord(record: EquipmentRecord): Equipment {
+    if (!Object.values(EquipmentStatus).includes(record.status as EquipmentStatus)) {
+      throw new Error(`Unknown equipment status "${record.status}"`);
+    }
+
+    return Equipment.reconstitute(UniqueEntityId.create(record.id), {
+      assetTag: record.assetTag,
+      name: record.name,
+      category: record.category as EquipmentCategory,
+      yard: record.yard,
+      status: record.status as EquipmentStatus,
+      maintenanceIntervalDays: record.maintenanceIntervalDays,
+      maintenanceDueAt: new Date(record.maintenanceDueAt),
+      checkouts: (record.checkouts || []).map(checkout => ({
+        ...checkout,
+        checkedOutAt: new Date(checkout.checkedOutAt),
+        dueBackAt: toDate(checkout.dueBackAt),
+        returnedAt: toDate(checkout.returnedAt)
+      })),
+      maintenance: (record.maintenance || []).map(maintenance => ({
+        ...maintenance,
+        completedAt: new Date(maintenance.completedAt)
+      })),
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt)
+    });
+  }
+
+  private toRecord(equipment: Equipment): EquipmentRecord {
+    return {
+      id: equipment.id.toString(),
+      assetTag: equipment.assetTag,
+      name: equipment.name,
+      category: equipment.category,
+      yard: equipment.yard,
+      status: equipment.status,
+      maintenanceIntervalDays: equipment.maintenanceIntervalDays,
+      maintenanceDueAt: equipment.maintenanceDueAt.toISOString(),
+      checkouts: equipment.checkouts.map(checkout => ({
+        ...checkout,
+        checkedOutAt: checkout.checkedOutAt.toISOString(),
+        dueBackAt: checkout.dueBackAt?.toISOString(),
+        returnedAt: checkout.returnedAt?.toISOString()
+      })),
+      maintenance: equipment.maintenance.map(maintenance => ({
+        ...maintenance,
+        completedAt: maintenance.completedAt.toISOString()
+      })),
+      createdAt: equipment.createdAt.toISOString(),
+      updatedAt: equipment.updatedAt.toISOString()
+    };
+  }
+}
\ No newline at end of file
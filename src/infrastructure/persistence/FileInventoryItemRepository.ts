@@ -0,0 +1,136 @@
+/**
+ * File Inventory Item Repository - Infrastructure Layer
+ * Persists material stock and its movement history to data/inventory.json
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  InventoryItem,
+  InventoryMovement,
+  InventoryMovementReason,
+  ServiceLogMaterial
+} from '../../domain/inventory/InventoryItem';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+import { InMemoryInventoryItemRepository } from './InMemoryInventoryItemRepository';
+
+interface InventoryMovementRecord extends Omit<InventoryMovement, 'recordedAt'> {
+  recordedAt: string;
+}
+
+interface InventoryItemRecord {
+  id: string;
+  sku: string;
+  yard: string;
+  name: string;
+  unit: string;
+  material?: string;
+  onHand: number;
+  reorderThreshold: number;
+  reorderQuantity: number;
+  movements: InventoryMovementRecord[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class FileInventoryItemRepository extends InMemoryInventoryItemRepository {
+  // Records that could not be turned into items are written back untouched rather than dropped
+  private unreadableRecords: InventoryItemRecord[] = [];
+
+  constructor(private readonly filePath: string = path.join(process.cwd(), 'data', 'inventory.json')) {
+    super();
+    this.load();
+  }
+
+  async save(item: InventoryItem): Promise<void> {
+    await super.save(item);
+    this.persist();
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    await super.delete(id);
+    this.persist();
+  }
+
+  private load(): void {
+    let records: InventoryItemRecord[] = [];
+    try {
+      if (fs.existsSync(this.filePath)) {
+        records = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as InventoryItemRecord[];
+      }
+    } catch (error) {
+      // Refuse to start from an empty store, or the next save would overwrite the file
+      throw new Error(`Failed to read inventory from ${this.filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    for (const record of records) {
+      try {
+        const item = this.fromRecord(record);
+        this.items.set(item.id.toString(), item);
+      } catch (error) {
+        console.warn(`Skipping unreadable inventory record ${record.id}:`, error instanceof Error ? error.message : error);
+        this.unreadableRecords.push(record);
+      }
+    }
+  }
+
+  private persist(): void {
+    const records: InventoryItemRecord[] = [
+      ...Array.from(this.items.values())
+        .sort((a, b) => a.yard.localeCompare(b.yard) || a.sku.localeCompare(b.sku))
+        .map(item => this.toRecord(item)),
+      ...this.unreadableRecords
+    ];
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write then rename so a crash mid-write never leaves a truncated file
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(records, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  private fromRecord(record: InventoryItemRecord): InventoryItem {
+    for (const movement of record.movements || []) {
+      if (!Object.values(InventoryMovementReason).includes(movement.reason)) {
+        throw new Error(`Unknown inventory movement reason "${movement.reason}"`);
+      }
+    }
+
+    return InventoryItem.reconstitute(UniqueEntityId.create(record.id), {
+      sku: record.sku,
+      yard: record.yard,
+      name: record.name,
+      unit: record.unit,
+      material: record.material as ServiceLogMaterial | undefined,
+      onHand: record.onHand,
+      reorderThreshold: record.reorderThreshold,
+      reorderQuantity: record.reorderQuantity,
+      movements: (record.movements || []).map(movement => ({
+        ...movement,
+        recordedAt: new Date(movement.recordedAt)
+      })),
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt)
+    });
+  }
+
+  private toRecord(item: InventoryItem): InventoryItemRecord {
+    return {
+      id: item.id.toString(),
+      sku: item.sku,
+      yard: item.yard,
+      name: item.name,
+      unit: item.unit,
+      material: item.material,
+      onHand: item.onHand,
+      reorderThreshold: item.reorderThreshold,
+      reorderQuantity: item.reorderQuantity,
+      movements: item.movements.map(movement => ({
+        ...movement,
+        recordedAt: movement.recordedAt.toISOString()
+      })),
+      createdAt: item.createdAt.toISOString(),
+      updatedAt: item.updatedAt.toISOString()
+    };
+  }
+}
\ No newline at end of file
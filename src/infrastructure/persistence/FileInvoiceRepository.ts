@@ -0,0 +1,186 @@
+/**
+ * File Invoice Repository - Infrastructure Layer
+ * Persists invoices and their payments to data/invoices.json
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  Invoice,
+  InvoiceBillTo,
+  InvoiceLineItem,
+  InvoicePayment,
+  InvoiceStatus
+} from '../../domain/invoice/Invoice';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+import { InMemoryInvoiceRepository } from './InMemoryInvoiceRepository';
+
+interface InvoiceLineItemRecord extends Omit<InvoiceLineItem, 'serviceDate'> {
+  serviceDate?: string;
+}
+
+interface InvoicePaymentRecord extends Omit<InvoicePayment, 'receivedAt' | 'recordedAt' | 'refundedAt'> {
+  receivedAt: string;
+  recordedAt: string;
+  refundedAt?: string;
+}
+
+interface InvoiceRecord {
+  id: string;
+  invoiceNumber: string;
+  contractId: string;
+  billTo: InvoiceBillTo;
+  periodStart: string;
+  periodEnd: string;
+  lineItems: InvoiceLineItemRecord[];
+  serviceLogEntryIds: string[];
+  taxRate: number;
+  paymentTermsDays: number;
+  status: string;
+  issuedAt?: string;
+  dueAt?: string;
+  sentTo?: string;
+  lastSentAt?: string;
+  payments: InvoicePaymentRecord[];
+  notes?: string;
+  voidedAt?: string;
+  voidedBy?: string;
+  voidReason?: string;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const toDate = (value?: string): Date | undefined => (value ? new Date(value) : undefined);
+
+export class FileInvoiceRepository extends InMemoryInvoiceRepository {
+  // Records that could not be turned into invoices are written back untouched rather than dropped
+  private unreadableRecords: InvoiceRecord[] = [];
+
+  constructor(private readonly filePath: string = path.join(process.cwd(), 'data', 'invoices.json')) {
+    super();
+    this.load();
+  }
+
+  async save(invoice: Invoice): Promise<void> {
+    await super.save(invoice);
+    this.persist();
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    await super.delete(id);
+    this.persist();
+  }
+
+  private load(): void {
+    let records: InvoiceRecord[] = [];
+    try {
+      if (fs.existsSync(this.filePath)) {
+        records = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as InvoiceRecord[];
+      }
+    } catch (error) {
+      // Refuse to start from an empty store, or the next save would overwrite the file
+      throw new Error(`Failed to read invoices from ${this.filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    for (const record of records) {
+      try {
+        const invoice = this.fromRecord(record);
+        this.invoices.set(invoice.id.toString(), invoice);
+      } catch (error) {
+        console.warn(`Skipping unreadable invoice record ${record.id}:`, error instanceof Error ? error.message : error);
+        this.unreadableRecords.push(record);
+      }
+    }
+  }
+
+  private persist(): void {
+    const records: InvoiceRecord[] = [
+      ...Array.from(this.invoices.values())
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .map(invoice => this.toRecord(invoice)),
+      ...this.unreadableRecords
+    ];
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write then rename so a crash mid-write never leaves a truncated file
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(records, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  private fromRecord(record: InvoiceRecord): Invoice {
+    if (!Object.values(InvoiceStatus).includes(record.status as InvoiceStatus)) {
+      throw new Error(`Unknown invoice status "${record.status}"`);
+    }
+
+    return Invoice.reconstitute(UniqueEntityId.create(record.id), {
+      invoiceNumber: record.invoiceNumber,
+      contractId: record.contractId,
+      billTo: record.billTo,
+      periodStart: new Date(record.periodStart),
+      periodEnd: new Date(record.periodEnd),
+      lineItems: (record.lineItems || []).map(item => ({
+        ...item,
+        serviceDate: toDate(item.serviceDate)
+      })),
+      serviceLogEntryIds: record.serviceLogEntryIds || [],
+      taxRate: record.taxRate,
+      paymentTermsDays: record.paymentTermsDays,
+      status: record.status as InvoiceStatus,
+      issuedAt: toDate(record.issuedAt),
+      dueAt: toDate(record.dueAt),
+      sentTo: record.sentTo,
+      lastSentAt: toDate(record.lastSentAt),
+      payments: (record.payments || []).map(payment => ({
+        ...payment,
+        receivedAt: new Date(payment.receivedAt),
+        recordedAt: new Date(payment.recordedAt),
+        refundedAt: toDate(payment.refundedAt)
+      })),
+      notes: record.notes,
+      voidedAt: toDate(record.voidedAt),
+      voidedBy: record.voidedBy,
+      voidReason: record.voidReason,
+      createdBy: record.createdBy,
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt)
+    });
+  }
+
+  private toRecord(invoice: Invoice): InvoiceRecord {
+    return {
+      id: invoice.id.toString(),
+      invoiceNumber: invoice.invoiceNumber,
+      contractId: invoice.contractId,
+      billTo: invoice.billTo,
+      periodStart: invoice.periodStart.toISOString(),
+      periodEnd: invoice.periodEnd.toISOString(),
+      lineItems: invoice.lineItems.map(item => ({
+        ...item,
+        serviceDate: item.serviceDate?.toISOString()
+      })),
+      serviceLogEntryIds: [...invoice.serviceLogEntryIds],
+      taxRate: invoice.taxRate,
+      paymentTermsDays: invoice.paymentTermsDays,
+      status: invoice.status,
+      issuedAt: invoice.issuedAt?.toISOString(),
+      dueAt: invoice.dueAt?.toISOString(),
+      sentTo: invoice.sentTo,
+      lastSentAt: invoice.lastSentAt?.toISOString(),
+      payments: invoice.payments.map(payment => ({
+        ...payment,
+        receivedAt: payment.receivedAt.toISOString(),
+        recordedAt: payment.recordedAt.toISOString(),
+        refundedAt: payment.refundedAt?.toISOString()
+      })),
+      notes: invoice.notes,
+      voidedAt: invoice.voidedAt?.toISOString(),
+      voidedBy: invoice.voidedBy,
+      voidReason: invoice.voidReason,
+      createdBy: invoice.createdBy,
+      createdAt: invoice.createdAt.toISOString(),
+      updatedAt: invoice.updatedAt.toISOString()
+    };
+  }
+}
\ No newline at end of file
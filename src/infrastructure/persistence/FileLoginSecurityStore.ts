@@ -0,0 +1,109 @@
+/**
+ * File Login Security Store - Infrastructure Layer
+ * Persists sign-in attempts and lockouts to data/login-security.json so lockouts survive a restart
+ * of a single instance; deployments with more than one instance use the PostgreSQL store
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { LoginAttemptRecord, LoginLockout, LoginLockoutScope } from '../../auth/types';
+import { InMemoryLoginSecurityStore } from './InMemoryLoginSecurityStore';
+
+type AttemptRecord = Omit<LoginAttemptRecord, 'attemptedAt'> & { attemptedAt: string };
+
+type LockoutRecord = Omit<LoginLockout, 'windowStartedAt' | 'lastFailureAt' | 'lockedAt' | 'lockedUntil'> & {
+  windowStartedAt: string;
+  lastFailureAt: string;
+  lockedAt?: string;
+  lockedUntil?: string;
+};
+
+interface LoginSecurityFile {
+  attempts: AttemptRecord[];
+  lockouts: LockoutRecord[];
+}
+
+const toDate = (value?: string): Date | undefined => value ? new Date(value) : undefined;
+
+export class FileLoginSecurityStore extends InMemoryLoginSecurityStore {
+  constructor(private readonly filePath: string = path.join(process.cwd(), 'data', 'login-security.json')) {
+    super();
+    this.load();
+  }
+
+  async recordAttempt(attempt: LoginAttemptRecord): Promise<void> {
+    await super.recordAttempt(attempt);
+    this.persist();
+  }
+
+  async deleteAttemptsBefore(before: Date): Promise<number> {
+    const deleted = await super.deleteAttemptsBefore(before);
+    if (deleted > 0) {
+      this.persist();
+    }
+    return deleted;
+  }
+
+  async saveLockout(lockout: LoginLockout): Promise<void> {
+    await super.saveLockout(lockout);
+    this.persist();
+  }
+
+  async deleteLockout(scope: LoginLockoutScope, subject: string): Promise<boolean> {
+    const deleted = await super.deleteLockout(scope, subject);
+    if (deleted) {
+      this.persist();
+    }
+    return deleted;
+  }
+
+  async deleteStaleLockouts(before: Date, now: Date): Promise<number> {
+    const deleted = await super.deleteStaleLockouts(before, now);
+    if (deleted > 0) {
+      this.persist();
+    }
+    return deleted;
+  }
+
+  private load(): void {
+    let data: LoginSecurityFile = { attempts: [], lockouts: [] };
+    try {
+      if (fs.existsSync(this.filePath)) {
+        data = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as LoginSecurityFile;
+      }
+    } catch (error) {
+      // Refuse to start from an empty store, or every lockout would be lifted on the next save
+      throw new Error(`Failed to read login security data from ${this.filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    this.attempts = data.attempts.map(record => ({ ...record, attemptedAt: new Date(record.attemptedAt) }));
+    for (const record of data.lockouts) {
+      this.lockouts.set(this.key(record.scope, record.subject), {
+        ...record,
+        windowStartedAt: new Date(record.windowStartedAt),
+        lastFailureAt: new Date(record.lastFailureAt),
+        lockedAt: toDate(record.lockedAt),
+        lockedUntil: toDate(record.lockedUntil)
+      });
+    }
+  }
+
+  private persist(): void {
+    const data: LoginSecurityFile = {
+      attempts: this.attempts.map(attempt => ({ ...attempt, attemptedAt: attempt.attemptedAt.toISOString() })),
+      lockouts: Array.from(this.lockouts.values()).map(lockout => ({
+        ...lockout,
+        windowStartedAt: lockout.windowStartedAt.toISOString(),
+        lastFailureAt: lockout.lastFailureAt.toISOString(),
+        lockedAt: lockout.lockedAt?.toISOString(),
+        lockedUntil: lockout.lockedUntil?.toISOString()
+      }))
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write then rename so a crash mid-write never leaves a truncated file
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,45 @@
+/**
+ * File Payment Audit Log - Infrastructure Layer
+ * Appends payment webhook audit entries to data/payment-audit.log, one JSON object per line
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { PaymentAuditEntry } from '../payments/PaymentAuditLog';
+import { InMemoryPaymentAuditLog } from './InMemoryPaymentAuditLog';
+
+export class FilePaymentAuditLog extends InMemoryPaymentAuditLog {
+  constructor(private readonly filePath: string = path.join(process.cwd(), 'data', 'payment-audit.log')) {
+    super();
+    this.load();
+  }
+
+  async record(entry: PaymentAuditEntry): Promise<void> {
+    // Written before it is kept in memory so the log never claims an event the file lacks
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, JSON.stringify({ ...entry, recordedAt: entry.recordedAt.toISOString() }) + '\n');
+    await super.record(entry);
+  }
+
+  private load(): void {
+    let lines: string[] = [];
+    try {
+      if (fs.existsSync(this.filePath)) {
+        lines = fs.readFileSync(this.filePath, 'utf8').split('\n').filter(line => line.trim());
+      }
+    } catch (error) {
+      // Without the history, redelivered webhooks would be applied twice
+      throw new Error(`Failed to read payment audit log from ${this.filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    for (const line of lines) {
+      try {
+        const record = JSON.parse(line) as Omit<PaymentAuditEntry, 'recordedAt'> & { recordedAt: string };
+        this.entries.push({ ...record, recordedAt: new Date(record.recordedAt) });
+      } catch (error) {
+        // A torn last line from a crash mid-append; the rest of the log is still good
+        console.warn('Skipping unreadable payment audit log line:', error instanceof Error ? error.message : error);
+      }
+    }
+  }
+}
\ No newline at end of file
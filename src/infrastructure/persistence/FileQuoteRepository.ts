@@ -0,0 +1,287 @@
+/**
+ * File Quote Repository - Infrastructure Layer
+ * Persists quotes to data/quote-requests.json so the admin queue survives restarts
+ * Records written by the old admin quote-requests API are read and upgraded on the next save
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Quote, QuotePriority, QuoteCustomerResponse, QuoteCustomerHistory, QuoteDeposit } from '../../domain/quote/Quote';
+import { QuoteStatus, normalizeQuoteStatus } from '../../domain/quote/QuoteStatus';
+import { Estimate, EstimateProps, EstimateRevision } from '../../domain/quote/Estimate';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+import { Email } from '../../domain/shared/Email';
+import { PhoneNumber } from '../../domain/shared/PhoneNumber';
+import { ServiceType } from '../../domain/shared/ServiceType';
+import { InMemoryQuoteRepository } from './InMemoryQuoteRepository';
+
+const QUOTE_VALIDITY_DAYS = 30;
+
+interface EstimateRevisionRecord {
+  version: number;
+  estimate: EstimateProps;
+  createdAt: string;
+  createdBy?: string;
+  notes?: string;
+}
+
+interface QuoteRecord {
+  id: string;
+  customerName: string;
+  email: string;
+  phone: string;
+  serviceType: string;
+  description: string;
+  serviceAddress?: string;
+  status: string;
+  priority: string;
+  photoAttachments: string[];
+  submittedAt: string;
+  updatedAt: string;
+  updatedBy?: string;
+  estimatedValue?: number;
+  estimateRevisions: EstimateRevisionRecord[];
+  sentRevision?: number;
+  quoteSentAt?: string;
+  expiresAt?: string;
+  contractId?: string;
+  customerResponse?: Omit<QuoteCustomerResponse, 'respondedAt'> & { respondedAt: string };
+  assignedTo?: string;
+  firstRespondedAt?: string;
+  adminNotes?: string;
+  possibleDuplicateOf?: string;
+  customerHistory?: QuoteCustomerHistory;
+  deposit?: DepositRecord;
+  expiryRemindersSent: number[];
+  metadata: Quote['metadata'];
+}
+
+type DepositRecord = Omit<QuoteDeposit, 'requestedAt' | 'paidAt' | 'refundedAt'> & {
+  requestedAt: string;
+  paidAt?: string;
+  refundedAt?: string;
+};
+
+// Shape written by the admin quote-requests API before it moved onto the Quote aggregate
+interface LegacyQuoteRequestRecord {
+  id: string;
+  fullName: string;
+  email: string;
+  phone: string;
+  serviceClass?: string;
+  service: string;
+  details: string;
+  photoFiles?: string[];
+  status: string;
+  submittedAt: string;
+  quotedAt?: string;
+  quotedAmount?: number;
+  estimateRevisions?: EstimateRevisionRecord[];
+  assignedTo?: string;
+  adminNotes?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+type StoredRecord = QuoteRecord | LegacyQuoteRequestRecord;
+
+const isLegacyRecord = (record: StoredRecord): record is LegacyQuoteRequestRecord => 'fullName' in record;
+
+const toRevision = (record: EstimateRevisionRecord): EstimateRevision => ({
+  version: record.version,
+  estimate: Estimate.reconstitute(record.estimate),
+  createdAt: new Date(record.createdAt),
+  createdBy: record.createdBy,
+  notes: record.notes
+});
+
+export class FileQuoteRepository extends InMemoryQuoteRepository {
+  // Records that could not be turned into quotes are written back untouched rather than dropped
+  private unreadableRecords: StoredRecord[] = [];
+
+  constructor(private readonly filePath: string = path.join(process.cwd(), 'data', 'quote-requests.json')) {
+    super();
+    this.load();
+  }
+
+  async save(quote: Quote): Promise<void> {
+    await super.save(quote);
+    this.persist();
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    await super.delete(id);
+    this.persist();
+  }
+
+  private load(): void {
+    let records: StoredRecord[] = [];
+    try {
+      if (fs.existsSync(this.filePath)) {
+        records = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as StoredRecord[];
+      }
+    } catch (error) {
+      // Refuse to start from an empty store, or the next save would overwrite the file
+      throw new Error(`Failed to read quotes from ${this.filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    for (const record of records) {
+      try {
+        const quote = isLegacyRecord(record) ? this.fromLegacyRecord(record) : this.fromRecord(record);
+        this.quotes.set(quote.id.toString(), quote);
+      } catch (error) {
+        console.warn(`Skipping unreadable quote record ${record.id}:`, error instanceof Error ? error.message : error);
+        this.unreadableRecords.push(record);
+      }
+    }
+  }
+
+  private persist(): void {
+    const records: StoredRecord[] = [
+      ...Array.from(this.quotes.values())
+        .sort((a, b) => b.submittedAt.getTime() - a.submittedAt.getTime())
+        .map(quote => this.toRecord(quote)),
+      ...this.unreadableRecords
+    ];
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write then rename so a crash mid-write never leaves a truncated file
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(records, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  private fromRecord(record: QuoteRecord): Quote {
+    return Quote.reconstitute(UniqueEntityId.create(record.id), {
+      customerName: record.customerName,
+      email: Email.create(record.email),
+      phone: PhoneNumber.create(record.phone),
+      serviceType: ServiceType.create(record.serviceType),
+      description: record.description,
+      serviceAddress: record.serviceAddress,
+      status: normalizeQuoteStatus(record.status),
+      priority: record.priority as QuotePriority,
+      photoAttachments: record.photoAttachments || [],
+      submittedAt: new Date(record.submittedAt),
+      updatedAt: new Date(record.updatedAt),
+      updatedBy: record.updatedBy,
+      estimatedValue: record.estimatedValue,
+      estimateRevisions: (record.estimateRevisions || []).map(toRevision),
+      sentRevision: record.sentRevision,
+      quoteSentAt: record.quoteSentAt ? new Date(record.quoteSentAt) : undefined,
+      expiresAt: record.expiresAt ? new Date(record.expiresAt) : undefined,
+      contractId: record.contractId,
+      customerResponse: record.customerResponse
+        ? { ...record.customerResponse, respondedAt: new Date(record.customerResponse.respondedAt) }
+        : undefined,
+      assignedTo: record.assignedTo,
+      firstRespondedAt: record.firstRespondedAt ? new Date(record.firstRespondedAt) : undefined,
+      adminNotes: record.adminNotes,
+      possibleDuplicateOf: record.possibleDuplicateOf,
+      customerHistory: record.customerHistory,
+      deposit: record.deposit
+        ? {
+          ...record.deposit,
+          requestedAt: new Date(record.deposit.requestedAt),
+          paidAt: record.deposit.paidAt ? new Date(record.deposit.paidAt) : undefined,
+          refundedAt: record.deposit.refundedAt ? new Date(record.deposit.refundedAt) : undefined
+        }
+        : undefined,
+      expiryRemindersSent: record.expiryRemindersSent || [],
+      metadata: record.metadata
+    });
+  }
+
+  // Legacy requests kept the sent estimate as the latest revision and had no expiry of their own
+  private fromLegacyRecord(record: LegacyQuoteRequestRecord): Quote {
+    const status = normalizeQuoteStatus(record.status);
+    const estimateRevisions = (record.estimateRevisions || []).map(toRevision);
+    const latestRevision = estimateRevisions[estimateRevisions.length - 1];
+    const wasSent = [QuoteStatus.QUOTE_SENT, QuoteStatus.ACCEPTED].includes(status) && !!latestRevision;
+    const quoteSentAt = wasSent && record.quotedAt ? new Date(record.quotedAt) : undefined;
+    const submittedAt = new Date(record.submittedAt);
+    const updatedAt = record.updatedAt ? new Date(record.updatedAt) : submittedAt;
+
+    return Quote.reconstitute(UniqueEntityId.create(record.id), {
+      customerName: record.fullName,
+      email: Email.create(record.email),
+      phone: PhoneNumber.create(record.phone),
+      serviceType: ServiceType.resolve(record.service),
+      description: record.details,
+      status,
+      priority: QuotePriority.MEDIUM,
+      photoAttachments: record.photoFiles || [],
+      submittedAt,
+      updatedAt,
+      updatedBy: record.updatedBy,
+      estimatedValue: latestRevision ? latestRevision.estimate.total : record.quotedAmount,
+      estimateRevisions,
+      sentRevision: wasSent ? latestRevision.version : undefined,
+      quoteSentAt,
+      expiresAt: quoteSentAt
+        ? new Date(quoteSentAt.getTime() + QUOTE_VALIDITY_DAYS * 24 * 60 * 60 * 1000)
+        : undefined,
+      assignedTo: record.assignedTo,
+      // The last update is the closest thing legacy requests have to a first response
+      firstRespondedAt: status === QuoteStatus.PENDING ? undefined : updatedAt,
+      adminNotes: record.adminNotes,
+      expiryRemindersSent: [],
+      metadata: {
+        ipAddress: record.ipAddress,
+        userAgent: record.userAgent,
+        source: 'website',
+        serviceClass: record.serviceClass
+      }
+    });
+  }
+
+  private toRecord(quote: Quote): QuoteRecord {
+    return {
+      id: quote.id.toString(),
+      customerName: quote.customerName,
+      email: quote.email.value,
+      phone: quote.phone.value,
+      serviceType: quote.serviceType.key,
+      description: quote.description,
+      serviceAddress: quote.serviceAddress,
+      status: quote.status,
+      priority: quote.priority,
+      photoAttachments: Array.from(quote.photoAttachments),
+      submittedAt: quote.submittedAt.toISOString(),
+      updatedAt: quote.updatedAt.toISOString(),
+      updatedBy: quote.updatedBy,
+      estimatedValue: quote.estimatedValue,
+      estimateRevisions: quote.estimateRevisions.map(revision => ({
+        version: revision.version,
+        estimate: revision.estimate.toJSON(),
+        createdAt: revision.createdAt.toISOString(),
+        createdBy: revision.createdBy,
+        notes: revision.notes
+      })),
+      sentRevision: quote.sentRevision,
+      quoteSentAt: quote.quoteSentAt?.toISOString(),
+      expiresAt: quote.expiresAt?.toISOString(),
+      contractId: quote.contractId,
+      customerResponse: quote.customerResponse
+        ? { ...quote.customerResponse, respondedAt: quote.customerResponse.respondedAt.toISOString() }
+        : undefined,
+      assignedTo: quote.assignedTo,
+      firstRespondedAt: quote.firstRespondedAt?.toISOString(),
+      adminNotes: quote.adminNotes,
+      possibleDuplicateOf: quote.possibleDuplicateOf,
+      customerHistory: quote.customerHistory,
+      deposit: quote.deposit
+        ? {
+          ...quote.deposit,
+          requestedAt: quote.deposit.requestedAt.toISOString(),
+          paidAt: quote.deposit.paidAt?.toISOString(),
+          refundedAt: quote.deposit.refundedAt?.toISOString()
+        }
+        : undefined,
+      expiryRemindersSent: Array.from(quote.expiryRemindersSent),
+      metadata: quote.metadata
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,123 @@
+/**
+ * File RBAC Store - Infrastructure Layer
+ * Persists roles, the permission catalog and role assignments to data/rbac.json
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Permission, Role, RoleAssignment } from '../../auth/types';
+import { InMemoryRBACStore } from './InMemoryRBACStore';
+
+// Roles and users refer to permissions by name; the catalog holds the definitions once
+interface RBACRecord {
+  permissions: Permission[];
+  roles: Array<Omit<Role, 'permissions' | 'createdAt' | 'updatedAt'> & {
+    permissions: string[];
+    createdAt: string;
+    updatedAt: string;
+  }>;
+  assignments: Array<Omit<RoleAssignment, 'assignedAt'> & { assignedAt: string }>;
+  userPermissions: Record<string, string[]>;
+}
+
+export class FileRBACStore extends InMemoryRBACStore {
+  constructor(private readonly filePath: string = path.join(process.cwd(), 'data', 'rbac.json')) {
+    super();
+    this.load();
+  }
+
+  async saveRole(role: Role): Promise<void> {
+    await super.saveRole(role);
+    this.persist();
+  }
+
+  async deleteRole(id: string): Promise<void> {
+    await super.deleteRole(id);
+    this.persist();
+  }
+
+  async savePermission(permission: Permission): Promise<void> {
+    await super.savePermission(permission);
+    this.persist();
+  }
+
+  async saveAssignment(assignment: RoleAssignment): Promise<void> {
+    await super.saveAssignment(assignment);
+    this.persist();
+  }
+
+  async deleteAssignment(userId: string, roleId: string): Promise<void> {
+    await super.deleteAssignment(userId, roleId);
+    this.persist();
+  }
+
+  async saveUserPermissions(userId: string, permissions: Permission[]): Promise<void> {
+    await super.saveUserPermissions(userId, permissions);
+    this.persist();
+  }
+
+  private load(): void {
+    let record: RBACRecord | null = null;
+    try {
+      if (fs.existsSync(this.filePath)) {
+        record = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as RBACRecord;
+      }
+    } catch (error) {
+      // Refuse to start from an empty store, or the next save would overwrite the file
+      throw new Error(`Failed to read roles from ${this.filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!record) {
+      return;
+    }
+
+    const catalog = new Map<string, Permission>();
+    for (const permission of record.permissions || []) {
+      this.permissions.set(permission.id, permission);
+      catalog.set(permission.name, permission);
+    }
+    const resolve = (names: string[]): Permission[] =>
+      names.map(name => catalog.get(name)).filter((permission): permission is Permission => !!permission);
+
+    for (const role of record.roles || []) {
+      this.roles.set(role.id, {
+        ...role,
+        permissions: resolve(role.permissions),
+        createdAt: new Date(role.createdAt),
+        updatedAt: new Date(role.updatedAt)
+      });
+    }
+    this.assignments = (record.assignments || []).map(assignment => ({
+      ...assignment,
+      assignedAt: new Date(assignment.assignedAt)
+    }));
+    for (const [userId, names] of Object.entries(record.userPermissions || {})) {
+      this.userPermissions.set(userId, resolve(names));
+    }
+  }
+
+  private persist(): void {
+    const names = (permissions: Permission[]) => permissions.map(permission => permission.name);
+    const record: RBACRecord = {
+      permissions: Array.from(this.permissions.values()),
+      roles: Array.from(this.roles.values()).map(role => ({
+        ...role,
+        permissions: names(role.permissions),
+        createdAt: role.createdAt.toISOString(),
+        updatedAt: role.updatedAt.toISOString()
+      })),
+      assignments: this.assignments.map(assignment => ({
+        ...assignment,
+        assignedAt: assignment.assignedAt.toISOString()
+      })),
+      userPermissions: Object.fromEntries(
+        Array.from(this.userPermissions.entries()).map(([userId, permissions]) => [userId, names(permissions)])
+      )
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write then rename so a crash mid-write never leaves a truncated file
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(record, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,161 @@
+/**
+ * File Service Log Repository - Infrastructure Layer
+ * Persists crew service log entries to data/service-logs.json, the record clients are billed from
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  ServiceLogEntry,
+  ServiceLogMaterials,
+  ServiceLogPhoto,
+  ServiceLogReview,
+  ServiceLogStatus
+} from '../../domain/servicelog/ServiceLogEntry';
+import { ServiceLogCode, ServiceLogCrewLine } from '../../domain/servicelog/ServiceLogCodes';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+import { InMemoryServiceLogRepository } from './InMemoryServiceLogRepository';
+
+interface ServiceLogReviewRecord extends Omit<ServiceLogReview, 'reviewedAt'> {
+  reviewedAt: string;
+}
+
+interface ServiceLogPhotoRecord extends Omit<ServiceLogPhoto, 'uploadedAt'> {
+  uploadedAt: string;
+}
+
+interface ServiceLogRecord {
+  id: string;
+  serviceDate: string;
+  propertyCode: string;
+  description: string;
+  locationDescription: string;
+  serviceCode: string;
+  timeIn: string;
+  timeOut: string;
+  crew: ServiceLogCrewLine[];
+  contractRate: number;
+  materials: ServiceLogMaterials;
+  status: string;
+  submittedBy: string;
+  reviews: ServiceLogReviewRecord[];
+  photos?: ServiceLogPhotoRecord[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class FileServiceLogRepository extends InMemoryServiceLogRepository {
+  // Records that could not be turned into entries are written back untouched rather than dropped
+  private unreadableRecords: ServiceLogRecord[] = [];
+
+  constructor(private readonly filePath: string = path.join(process.cwd(), 'data', 'service-logs.json')) {
+    super();
+    this.load();
+  }
+
+  async save(entry: ServiceLogEntry): Promise<void> {
+    await super.save(entry);
+    this.persist();
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    await super.delete(id);
+    this.persist();
+  }
+
+  private load(): void {
+    let records: ServiceLogRecord[] = [];
+    try {
+      if (fs.existsSync(this.filePath)) {
+        records = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as ServiceLogRecord[];
+      }
+    } catch (error) {
+      // Refuse to start from an empty store, or the next save would overwrite the file
+      throw new Error(`Failed to read service logs from ${this.filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    for (const record of records) {
+      try {
+        const entry = this.fromRecord(record);
+        this.entries.set(entry.id.toString(), entry);
+      } catch (error) {
+        console.warn(`Skipping unreadable service log record ${record.id}:`, error instanceof Error ? error.message : error);
+        this.unreadableRecords.push(record);
+      }
+    }
+  }
+
+  private persist(): void {
+    const records: ServiceLogRecord[] = [
+      ...Array.from(this.entries.values())
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .map(entry => this.toRecord(entry)),
+      ...this.unreadableRecords
+    ];
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write then rename so a crash mid-write never leaves a truncated file
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(records, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  private fromRecord(record: ServiceLogRecord): ServiceLogEntry {
+    if (!Object.values(ServiceLogStatus).includes(record.status as ServiceLogStatus)) {
+      throw new Error(`Unknown service log status "${record.status}"`);
+    }
+
+    return ServiceLogEntry.reconstitute(UniqueEntityId.create(record.id), {
+      serviceDate: new Date(record.serviceDate),
+      propertyCode: record.propertyCode,
+      description: record.description,
+      locationDescription: record.locationDescription,
+      serviceCode: record.serviceCode as ServiceLogCode,
+      timeIn: record.timeIn,
+      timeOut: record.timeOut,
+      crew: record.crew || [],
+      contractRate: record.contractRate,
+      materials: record.materials,
+      status: record.status as ServiceLogStatus,
+      submittedBy: record.submittedBy,
+      reviews: (record.reviews || []).map(review => ({
+        ...review,
+        reviewedAt: new Date(review.reviewedAt)
+      })),
+      photos: (record.photos || []).map(photo => ({
+        ...photo,
+        uploadedAt: new Date(photo.uploadedAt)
+      })),
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt)
+    });
+  }
+
+  private toRecord(entry: ServiceLogEntry): ServiceLogRecord {
+    return {
+      id: entry.id.toString(),
+      serviceDate: entry.serviceDate.toISOString(),
+      propertyCode: entry.propertyCode,
+      description: entry.description,
+      locationDescription: entry.locationDescription,
+      serviceCode: entry.serviceCode,
+      timeIn: entry.timeIn,
+      timeOut: entry.timeOut,
+      crew: entry.crew.map(line => ({ ...line })),
+      contractRate: entry.contractRate,
+      materials: entry.materials,
+      status: entry.status,
+      submittedBy: entry.submittedBy,
+      reviews: entry.reviews.map(review => ({
+        ...review,
+        reviewedAt: review.reviewedAt.toISOString()
+      })),
+      photos: entry.photos.map(photo => ({
+        ...photo,
+        uploadedAt: photo.uploadedAt.toISOString()
+      })),
+      createdAt: entry.createdAt.toISOString(),
+      updatedAt: entry.updatedAt.toISOString()
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,110 @@
+/**
+ * File Session Store - Infrastructure Layer
+ * Persists sign-in sessions to data/sessions.json so sign-outs survive a restart of a single instance;
+ * deployments with more than one instance use the PostgreSQL store
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { StoredSession } from '../../auth/types';
+import { InMemorySessionStore } from './InMemorySessionStore';
+
+type SessionRecord = Omit<StoredSession, 'signedInAt' | 'createdAt' | 'lastActiveAt' | 'expiresAt' | 'refreshExpiresAt' | 'rotatedAt' | 'revokedAt'> & {
+  signedInAt: string;
+  createdAt: string;
+  lastActiveAt: string;
+  expiresAt: string;
+  refreshExpiresAt: string;
+  rotatedAt?: string;
+  revokedAt?: string;
+};
+
+const toDate = (value?: string): Date | undefined => value ? new Date(value) : undefined;
+
+export class FileSessionStore extends InMemorySessionStore {
+  constructor(private readonly filePath: string = path.join(process.cwd(), 'data', 'sessions.json')) {
+    super();
+    this.load();
+  }
+
+  async save(session: StoredSession): Promise<void> {
+    await super.save(session);
+    this.persist();
+  }
+
+  async markRotated(id: string, rotatedAt: Date): Promise<boolean> {
+    const rotated = await super.markRotated(id, rotatedAt);
+    if (rotated) {
+      this.persist();
+    }
+    return rotated;
+  }
+
+  async revokeFamily(familyId: string, reason: string): Promise<string[]> {
+    const revoked = await super.revokeFamily(familyId, reason);
+    if (revoked.length > 0) {
+      this.persist();
+    }
+    return revoked;
+  }
+
+  async revokeByUser(userId: string, reason: string, exceptFamilyId?: string): Promise<string[]> {
+    const revoked = await super.revokeByUser(userId, reason, exceptFamilyId);
+    if (revoked.length > 0) {
+      this.persist();
+    }
+    return revoked;
+  }
+
+  async deleteExpired(now: Date): Promise<number> {
+    const deleted = await super.deleteExpired(now);
+    if (deleted > 0) {
+      this.persist();
+    }
+    return deleted;
+  }
+
+  private load(): void {
+    let records: SessionRecord[] = [];
+    try {
+      if (fs.existsSync(this.filePath)) {
+        records = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as SessionRecord[];
+      }
+    } catch (error) {
+      // Refuse to start from an empty store, or revoked sessions would be forgotten on the next save
+      throw new Error(`Failed to read sessions from ${this.filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    for (const record of records) {
+      this.sessions.set(record.id, {
+        ...record,
+        signedInAt: new Date(record.signedInAt),
+        createdAt: new Date(record.createdAt),
+        lastActiveAt: new Date(record.lastActiveAt),
+        expiresAt: new Date(record.expiresAt),
+        refreshExpiresAt: new Date(record.refreshExpiresAt),
+        rotatedAt: toDate(record.rotatedAt),
+        revokedAt: toDate(record.revokedAt)
+      });
+    }
+  }
+
+  private persist(): void {
+    const records: SessionRecord[] = Array.from(this.sessions.values()).map(session => ({
+      ...session,
+      signedInAt: session.signedInAt.toISOString(),
+      createdAt: session.createdAt.toISOString(),
+      lastActiveAt: session.lastActiveAt.toISOString(),
+      expiresAt: session.expiresAt.toISOString(),
+      refreshExpiresAt: session.refreshExpiresAt.toISOString(),
+      rotatedAt: session.rotatedAt?.toISOString(),
+      revokedAt: session.revokedAt?.toISOString()
+    }));
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write then rename so a crash mid-write never leaves a truncated file
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(records, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
\ No newline at end of file
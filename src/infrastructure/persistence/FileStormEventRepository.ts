@@ -0,0 +1,104 @@
+/**
+ * File Storm Event Repository - Infrastructure Layer
+ * Persists storm events to data/storm-events.json alongside the work orders they generated
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { StormEvent, StormEventStatus } from '../../domain/storm/StormEvent';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+import { InMemoryStormEventRepository } from './InMemoryStormEventRepository';
+
+interface StormEventRecord {
+  id: string;
+  name: string;
+  startsAt: string;
+  endsAt?: string;
+  expectedAccumulationInches: number;
+  triggerThresholdInches: number;
+  status: string;
+  workOrderIds: string[];
+  createdBy: string;
+  declaredBy?: string;
+  declaredAt?: string;
+  closedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const toDate = (value?: string): Date | undefined => value ? new Date(value) : undefined;
+
+export class FileStormEventRepository extends InMemoryStormEventRepository {
+  constructor(private readonly filePath: string = path.join(process.cwd(), 'data', 'storm-events.json')) {
+    super();
+    this.load();
+  }
+
+  async save(storm: StormEvent): Promise<void> {
+    await super.save(storm);
+    this.persist();
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    await super.delete(id);
+    this.persist();
+  }
+
+  private load(): void {
+    let records: StormEventRecord[] = [];
+    try {
+      if (fs.existsSync(this.filePath)) {
+        records = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as StormEventRecord[];
+      }
+    } catch (error) {
+      // Refuse to start from an empty store, or the next save would overwrite the file
+      throw new Error(`Failed to read storm events from ${this.filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    for (const record of records) {
+      const storm = StormEvent.reconstitute(UniqueEntityId.create(record.id), {
+        name: record.name,
+        startsAt: new Date(record.startsAt),
+        endsAt: toDate(record.endsAt),
+        expectedAccumulationInches: record.expectedAccumulationInches,
+        triggerThresholdInches: record.triggerThresholdInches,
+        status: record.status as StormEventStatus,
+        workOrderIds: record.workOrderIds || [],
+        createdBy: record.createdBy,
+        declaredBy: record.declaredBy,
+        declaredAt: toDate(record.declaredAt),
+        closedAt: toDate(record.closedAt),
+        createdAt: new Date(record.createdAt),
+        updatedAt: new Date(record.updatedAt)
+      });
+      this.storms.set(storm.id.toString(), storm);
+    }
+  }
+
+  private persist(): void {
+    const records: StormEventRecord[] = Array.from(this.storms.values())
+      .sort((a, b) => b.startsAt.getTime() - a.startsAt.getTime())
+      .map(storm => ({
+        id: storm.id.toString(),
+        name: storm.name,
+        startsAt: storm.startsAt.toISOString(),
+        endsAt: storm.endsAt?.toISOString(),
+        expectedAccumulationInches: storm.expectedAccumulationInches,
+        triggerThresholdInches: storm.triggerThresholdInches,
+        status: storm.status,
+        workOrderIds: Array.from(storm.workOrderIds),
+        createdBy: storm.createdBy,
+        declaredBy: storm.declaredBy,
+        declaredAt: storm.declaredAt?.toISOString(),
+        closedAt: storm.closedAt?.toISOString(),
+        createdAt: storm.createdAt.toISOString(),
+        updatedAt: storm.updatedAt.toISOString()
+      }));
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write then rename so a crash mid-write never leaves a truncated file
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(records, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
\ No newline at end of file
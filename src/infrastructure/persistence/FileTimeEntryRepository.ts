@@ -0,0 +1,179 @@
+/**
+ * File Time Entry Repository - Infrastructure Layer
+ * Persists time clock shifts to data/time-entries.json, the record payroll is paid from
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  LocationCheck,
+  TimeEntry,
+  TimeEntryCorrection,
+  TimeEntryReview,
+  TimeEntryStatus
+} from '../../domain/timesheet/TimeEntry';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+import { InMemoryTimeEntryRepository } from './InMemoryTimeEntryRepository';
+
+interface TimeEntryReviewRecord extends Omit<TimeEntryReview, 'reviewedAt'> {
+  reviewedAt: string;
+}
+
+interface TimeEntryCorrectionRecord extends Omit<TimeEntryCorrection, 'previous' | 'correctedAt'> {
+  previous: { clockInAt: string; clockOutAt?: string; breakMinutes: number };
+  correctedAt: string;
+}
+
+interface TimeEntryRecord {
+  id: string;
+  employee: string;
+  propertyCode?: string;
+  projectId?: string;
+  siteName?: string;
+  status: string;
+  clockInAt: string;
+  clockOutAt?: string;
+  breaks: Array<{ startedAt: string; endedAt?: string }>;
+  breakMinutesOverride?: number;
+  clockInCheck: LocationCheck;
+  clockOutCheck?: LocationCheck;
+  notes?: string;
+  reviews: TimeEntryReviewRecord[];
+  corrections: TimeEntryCorrectionRecord[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+const toDate = (value?: string): Date | undefined => (value ? new Date(value) : undefined);
+
+export class FileTimeEntryRepository extends InMemoryTimeEntryRepository {
+  // Records that could not be turned into entries are written back untouched rather than dropped
+  private unreadableRecords: TimeEntryRecord[] = [];
+
+  constructor(private readonly filePath: string = path.join(process.cwd(), 'data', 'time-entries.json')) {
+    super();
+    this.load();
+  }
+
+  async save(entry: TimeEntry): Promise<void> {
+    await super.save(entry);
+    this.persist();
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    await super.delete(id);
+    this.persist();
+  }
+
+  private load(): void {
+    let records: TimeEntryRecord[] = [];
+    try {
+      if (fs.existsSync(this.filePath)) {
+        records = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as TimeEntryRecord[];
+      }
+    } catch (error) {
+      // Refuse to start from an empty store, or the next save would overwrite the file
+      throw new Error(`Failed to read time entries from ${this.filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    for (const record of records) {
+      try {
+        const entry = this.fromRecord(record);
+        this.entries.set(entry.id.toString(), entry);
+      } catch (error) {
+        console.warn(`Skipping unreadable time entry record ${record.id}:`, error instanceof Error ? error.message : error);
+        this.unreadableRecords.push(record);
+      }
+    }
+  }
+
+  private persist(): void {
+    const records: TimeEntryRecord[] = [
+      ...Array.from(this.entries.values())
+        .sort((a, b) => b.clockInAt.getTime() - a.clockInAt.getTime())
+        .map(entry => this.toRecord(entry)),
+      ...this.unreadableRecords
+    ];
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write then rename so a crash mid-write never leaves a truncated file
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(records, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  private fromRecord(record: TimeEntryRecord): TimeEntry {
+    if (!Object.values(TimeEntryStatus).includes(record.status as TimeEntryStatus)) {
+      throw new Error(`Unknown time entry status "${record.status}"`);
+    }
+
+    return TimeEntry.reconstitute(UniqueEntityId.create(record.id), {
+      employee: record.employee,
+      propertyCode: record.propertyCode,
+      projectId: record.projectId,
+      siteName: record.siteName,
+      status: record.status as TimeEntryStatus,
+      clockInAt: new Date(record.clockInAt),
+      clockOutAt: toDate(record.clockOutAt),
+      breaks: (record.breaks || []).map(entry => ({
+        startedAt: new Date(entry.startedAt),
+        endedAt: toDate(entry.endedAt)
+      })),
+      breakMinutesOverride: record.breakMinutesOverride,
+      clockInCheck: record.clockInCheck,
+      clockOutCheck: record.clockOutCheck,
+      notes: record.notes,
+      reviews: (record.reviews || []).map(review => ({
+        ...review,
+        reviewedAt: new Date(review.reviewedAt)
+      })),
+      corrections: (record.corrections || []).map(correction => ({
+        ...correction,
+        previous: {
+          clockInAt: new Date(correction.previous.clockInAt),
+          clockOutAt: toDate(correction.previous.clockOutAt),
+          breakMinutes: correction.previous.breakMinutes
+        },
+        correctedAt: new Date(correction.correctedAt)
+      })),
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt)
+    });
+  }
+
+  private toRecord(entry: TimeEntry): TimeEntryRecord {
+    return {
+      id: entry.id.toString(),
+      employee: entry.employee,
+      propertyCode: entry.propertyCode,
+      projectId: entry.projectId,
+      siteName: entry.siteName,
+      status: entry.status,
+      clockInAt: entry.clockInAt.toISOString(),
+      clockOutAt: entry.clockOutAt?.toISOString(),
+      breaks: entry.breaks.map(item => ({
+        startedAt: item.startedAt.toISOString(),
+        endedAt: item.endedAt?.toISOString()
+      })),
+      breakMinutesOverride: entry.breakMinutesOverride,
+      clockInCheck: entry.clockInCheck,
+      clockOutCheck: entry.clockOutCheck,
+      notes: entry.notes,
+      reviews: entry.reviews.map(review => ({
+        ...review,
+        reviewedAt: review.reviewedAt.toISOString()
+      })),
+      corrections: entry.corrections.map(correction => ({
+        ...correction,
+        previous: {
+          clockInAt: correction.previous.clockInAt.toISOString(),
+          clockOutAt: correction.previous.clockOutAt?.toISOString(),
+          breakMinutes: correction.previous.breakMinutes
+        },
+        correctedAt: correction.correctedAt.toISOString()
+      })),
+      createdAt: entry.createdAt.toISOString(),
+      updatedAt: entry.updatedAt.toISOString()
+    };
+  }
+}
\ No newline at end of file
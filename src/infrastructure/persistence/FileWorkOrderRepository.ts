@@ -0,0 +1,156 @@
+/**
+ * File Work Order Repository - Infrastructure Layer
+ * Persists work orders to data/work-orders.json so the dispatch board survives restarts
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { WorkOrder, WorkOrderPriority, WorkOrderStatusChange, WorkOrderStormRun, SnowServiceType } from '../../domain/workorder/WorkOrder';
+import { parseWorkOrderStatus } from '../../domain/workorder/WorkOrderStatus';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+import { InMemoryWorkOrderRepository } from './InMemoryWorkOrderRepository';
+
+interface WorkOrderStatusChangeRecord extends Omit<WorkOrderStatusChange, 'changedAt'> {
+  changedAt: string;
+}
+
+interface WorkOrderRecord {
+  id: string;
+  propertyCode: string;
+  clientName: string;
+  serviceAddress: string;
+  zipCode: string;
+  serviceType: string;
+  priority: string;
+  scheduledDate: string;
+  estimatedHours: number;
+  equipmentRequired: string[];
+  specialInstructions?: string;
+  weatherConditions?: string;
+  accessNotes?: string;
+  status: string;
+  assignedTo?: string;
+  requestedBy: string;
+  completionNotes?: string;
+  verifiedBy?: string;
+  storm?: WorkOrderStormRun;
+  statusHistory: WorkOrderStatusChangeRecord[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class FileWorkOrderRepository extends InMemoryWorkOrderRepository {
+  // Records that could not be turned into work orders are written back untouched rather than dropped
+  private unreadableRecords: WorkOrderRecord[] = [];
+
+  constructor(private readonly filePath: string = path.join(process.cwd(), 'data', 'work-orders.json')) {
+    super();
+    this.load();
+  }
+
+  async save(workOrder: WorkOrder): Promise<void> {
+    await super.save(workOrder);
+    this.persist();
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    await super.delete(id);
+    this.persist();
+  }
+
+  private load(): void {
+    let records: WorkOrderRecord[] = [];
+    try {
+      if (fs.existsSync(this.filePath)) {
+        records = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as WorkOrderRecord[];
+      }
+    } catch (error) {
+      // Refuse to start from an empty store, or the next save would overwrite the file
+      throw new Error(`Failed to read work orders from ${this.filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    for (const record of records) {
+      try {
+        const workOrder = this.fromRecord(record);
+        this.workOrders.set(workOrder.id.toString(), workOrder);
+      } catch (error) {
+        console.warn(`Skipping unreadable work order record ${record.id}:`, error instanceof Error ? error.message : error);
+        this.unreadableRecords.push(record);
+      }
+    }
+  }
+
+  private persist(): void {
+    const records: WorkOrderRecord[] = [
+      ...Array.from(this.workOrders.values())
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .map(workOrder => this.toRecord(workOrder)),
+      ...this.unreadableRecords
+    ];
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write then rename so a crash mid-write never leaves a truncated file
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(records, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  private fromRecord(record: WorkOrderRecord): WorkOrder {
+    return WorkOrder.reconstitute(UniqueEntityId.create(record.id), {
+      propertyCode: record.propertyCode,
+      clientName: record.clientName,
+      serviceAddress: record.serviceAddress,
+      zipCode: record.zipCode,
+      serviceType: record.serviceType as SnowServiceType,
+      priority: record.priority as WorkOrderPriority,
+      scheduledDate: new Date(record.scheduledDate),
+      estimatedHours: record.estimatedHours,
+      equipmentRequired: record.equipmentRequired || [],
+      specialInstructions: record.specialInstructions,
+      weatherConditions: record.weatherConditions,
+      accessNotes: record.accessNotes,
+      status: parseWorkOrderStatus(record.status),
+      assignedTo: record.assignedTo,
+      requestedBy: record.requestedBy,
+      completionNotes: record.completionNotes,
+      verifiedBy: record.verifiedBy,
+      storm: record.storm,
+      statusHistory: (record.statusHistory || []).map(change => ({
+        ...change,
+        changedAt: new Date(change.changedAt)
+      })),
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt)
+    });
+  }
+
+  private toRecord(workOrder: WorkOrder): WorkOrderRecord {
+    return {
+      id: workOrder.id.toString(),
+      propertyCode: workOrder.propertyCode,
+      clientName: workOrder.clientName,
+      serviceAddress: workOrder.serviceAddress,
+      zipCode: workOrder.zipCode,
+      serviceType: workOrder.serviceType,
+      priority: workOrder.priority,
+      scheduledDate: workOrder.scheduledDate.toISOString(),
+      estimatedHours: workOrder.estimatedHours,
+      equipmentRequired: Array.from(workOrder.equipmentRequired),
+      specialInstructions: workOrder.specialInstructions,
+      weatherConditions: workOrder.weatherConditions,
+      accessNotes: workOrder.accessNotes,
+      status: workOrder.status,
+      assignedTo: workOrder.assignedTo,
+      requestedBy: workOrder.requestedBy,
+      completionNotes: workOrder.completionNotes,
+      verifiedBy: workOrder.verifiedBy,
+      storm: workOrder.storm,
+      statusHistory: workOrder.statusHistory.map(change => ({
+        ...change,
+        changedAt: change.changedAt.toISOString()
+      })),
+      createdAt: workOrder.createdAt.toISOString(),
+      updatedAt: workOrder.updatedAt.toISOString()
+    };
+  }
+}
\ No newline at end of file
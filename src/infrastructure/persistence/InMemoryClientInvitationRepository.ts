@@ -0,0 +1,52 @@
+/**
+ * In-Memory Client Invitation Repository - Infrastructure Layer
+ * Development/testing implementation of ClientInvitationRepository
+ */
+
+import { ClientInvitation } from '../../domain/clientaccount/ClientInvitation';
+import { ClientInvitationRepository } from '../../domain/clientaccount/ClientInvitationRepository';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+
+export class InMemoryClientInvitationRepository implements ClientInvitationRepository {
+  protected invitations = new Map<string, ClientInvitation>();
+
+  async save(invitation: ClientInvitation): Promise<void> {
+    this.invitations.set(invitation.id.toString(), invitation);
+  }
+
+  async findById(id: UniqueEntityId): Promise<ClientInvitation | null> {
+    return this.invitations.get(id.toString()) || null;
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    this.invitations.delete(id.toString());
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<ClientInvitation | null> {
+    return Array.from(this.invitations.values()).find(invitation => invitation.tokenHash === tokenHash) || null;
+  }
+
+  async findByEmail(email: string): Promise<ClientInvitation[]> {
+    const normalized = email.trim().toLowerCase();
+    return this.sorted().filter(invitation => invitation.email.value === normalized);
+  }
+
+  async findByInviter(invitedBy: string): Promise<ClientInvitation[]> {
+    const normalized = invitedBy.trim().toLowerCase();
+    return this.sorted().filter(invitation => invitation.invitedBy.toLowerCase() === normalized);
+  }
+
+  private sorted(): ClientInvitation[] {
+    return Array.from(this.invitations.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  // Development helper methods
+  async clear(): Promise<void> {
+    this.invitations.clear();
+  }
+
+  async count(): Promise<number> {
+    return this.invitations.size;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,43 @@
+/**
+ * In-Memory Contract ID Allocator - Infrastructure Layer
+ * Development/testing implementation of ContractIdAllocator
+ */
+
+import { ContractIdAllocator, formatContractId, parseContractSequence, CONTRACT_ID_PREFIX } from '../../domain/contract/ContractIdAllocator';
+import { ContractRepository } from '../../domain/contract/ContractRepository';
+
+export class InMemoryContractIdAllocator implements ContractIdAllocator {
+  private lastSequenceByYear = new Map<number, number>();
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly contractRepository: ContractRepository) {}
+
+  async allocate(year: number): Promise<string> {
+    // Serialize allocations so concurrent conversions never share a sequence number
+    const allocation = this.pending.then(() => this.nextSequence(year));
+    this.pending = allocation.catch(() => undefined);
+    const sequence = await allocation;
+    return formatContractId(year, sequence);
+  }
+
+  private async nextSequence(year: number): Promise<number> {
+    if (!this.lastSequenceByYear.has(year)) {
+      // Seed from contracts that already exist for the year
+      const existing = await this.contractRepository.searchContracts(`${CONTRACT_ID_PREFIX}-${year}-`);
+      const highest = existing.reduce((max, contract) => {
+        const sequence = parseContractSequence(contract.contractId, year);
+        return sequence !== null && sequence > max ? sequence : max;
+      }, 0);
+      this.lastSequenceByYear.set(year, highest);
+    }
+
+    const next = this.lastSequenceByYear.get(year)! + 1;
+    this.lastSequenceByYear.set(year, next);
+    return next;
+  }
+
+  // Development helper methods
+  clear(): void {
+    this.lastSequenceByYear.clear();
+  }
+}
\ No newline at end of file
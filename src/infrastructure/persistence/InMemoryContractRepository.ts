@@ -262,7 +262,8 @@ export class InMemoryContractRepository implements ContractRepository {
         metadata: {
           projectManager: 'Marcus Vargas',
           estimator: 'Zach Lewis',
-          region: 'Denver Metro'
+          region: 'Denver Metro',
+          snowTriggerInches: 2
         }
       },
       {
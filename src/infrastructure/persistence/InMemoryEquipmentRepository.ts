@@ -0,0 +1,52 @@
+/**
+ * In-Memory Equipment Repository - Infrastructure Layer
+ * Development/testing implementation of EquipmentRepository
+ */
+
+import { Equipment, EquipmentStatus } from '../../domain/inventory/Equipment';
+import { EquipmentRepository } from '../../domain/inventory/EquipmentRepository';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+
+export class InMemoryEquipmentRepository implements EquipmentRepository {
+  protected equipment = new Map<string, Equipment>();
+
+  async save(equipment: Equipment): Promise<void> {
+    this.equipment.set(equipment.id.toString(), equipment);
+  }
+
+  async findById(id: UniqueEntityId): Promise<Equipment | null> {
+    return this.equipment.get(id.toString()) || null;
+  }
+
+  async findAll(): Promise<Equipment[]> {
+    return Array.from(this.equipment.values()).sort((a, b) => a.assetTag.localeCompare(b.assetTag));
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    this.equipment.delete(id.toString());
+  }
+
+  async findByAssetTag(assetTag: string): Promise<Equipment | null> {
+    const normalizedTag = assetTag.toUpperCase().trim();
+    return (await this.findAll()).find(equipment => equipment.assetTag === normalizedTag) || null;
+  }
+
+  async findByStatus(status: EquipmentStatus): Promise<Equipment[]> {
+    return (await this.findAll()).filter(equipment => equipment.status === status);
+  }
+
+  async findCheckedOutTo(crew: string): Promise<Equipment[]> {
+    const normalized = crew.toLowerCase().trim();
+    return (await this.findByStatus(EquipmentStatus.CHECKED_OUT))
+      .filter(equipment => equipment.currentCheckout?.crew.toLowerCase() === normalized);
+  }
+
+  // Development helper methods
+  async clear(): Promise<void> {
+    this.equipment.clear();
+  }
+
+  async count(): Promise<number> {
+    return this.equipment.size;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,52 @@
+/**
+ * In-Memory Inventory Item Repository - Infrastructure Layer
+ * Development/testing implementation of InventoryItemRepository
+ */
+
+import { InventoryItem, ServiceLogMaterial } from '../../domain/inventory/InventoryItem';
+import { InventoryItemRepository } from '../../domain/inventory/InventoryItemRepository';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+
+export class InMemoryInventoryItemRepository implements InventoryItemRepository {
+  protected items = new Map<string, InventoryItem>();
+
+  async save(item: InventoryItem): Promise<void> {
+    this.items.set(item.id.toString(), item);
+  }
+
+  async findById(id: UniqueEntityId): Promise<InventoryItem | null> {
+    return this.items.get(id.toString()) || null;
+  }
+
+  async findAll(): Promise<InventoryItem[]> {
+    return Array.from(this.items.values())
+      .sort((a, b) => a.yard.localeCompare(b.yard) || a.sku.localeCompare(b.sku));
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    this.items.delete(id.toString());
+  }
+
+  async findByYard(yard: string): Promise<InventoryItem[]> {
+    const normalizedYard = yard.toUpperCase().trim();
+    return (await this.findAll()).filter(item => item.yard === normalizedYard);
+  }
+
+  async findBySku(sku: string, yard: string): Promise<InventoryItem | null> {
+    const normalizedSku = sku.toUpperCase().trim();
+    return (await this.findByYard(yard)).find(item => item.sku === normalizedSku) || null;
+  }
+
+  async findByMaterial(material: ServiceLogMaterial): Promise<InventoryItem[]> {
+    return (await this.findAll()).filter(item => item.material === material);
+  }
+
+  // Development helper methods
+  async clear(): Promise<void> {
+    this.items.clear();
+  }
+
+  async count(): Promise<number> {
+    return this.items.size;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,43 @@
+/**
+ * In-Memory Invoice Number Allocator - Infrastructure Layer
+ * Development/testing implementation of InvoiceNumberAllocator
+ */
+
+import { InvoiceNumberAllocator, formatInvoiceNumber, parseInvoiceSequence } from '../../domain/invoice/InvoiceNumberAllocator';
+import { InvoiceRepository } from '../../domain/invoice/InvoiceRepository';
+
+export class InMemoryInvoiceNumberAllocator implements InvoiceNumberAllocator {
+  private lastSequenceByYear = new Map<number, number>();
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly invoiceRepository: InvoiceRepository) {}
+
+  async allocate(year: number): Promise<string> {
+    // Serialize allocations so invoices generated together never share a number
+    const allocation = this.pending.then(() => this.nextSequence(year));
+    this.pending = allocation.catch(() => undefined);
+    const sequence = await allocation;
+    return formatInvoiceNumber(year, sequence);
+  }
+
+  private async nextSequence(year: number): Promise<number> {
+    if (!this.lastSequenceByYear.has(year)) {
+      // Seed from invoices that already exist for the year
+      const existing = await this.invoiceRepository.findAll();
+      const highest = existing.reduce((max, invoice) => {
+        const sequence = parseInvoiceSequence(invoice.invoiceNumber, year);
+        return sequence !== null && sequence > max ? sequence : max;
+      }, 0);
+      this.lastSequenceByYear.set(year, highest);
+    }
+
+    const next = this.lastSequenceByYear.get(year)! + 1;
+    this.lastSequenceByYear.set(year, next);
+    return next;
+  }
+
+  // Development helper methods
+  clear(): void {
+    this.lastSequenceByYear.clear();
+  }
+}
\ No newline at end of file
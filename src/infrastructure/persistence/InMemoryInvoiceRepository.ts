@@ -0,0 +1,51 @@
+/**
+ * In-Memory Invoice Repository - Infrastructure Layer
+ * Development/testing implementation of InvoiceRepository
+ */
+
+import { Invoice, InvoiceStatus } from '../../domain/invoice/Invoice';
+import { InvoiceRepository } from '../../domain/invoice/InvoiceRepository';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+
+export class InMemoryInvoiceRepository implements InvoiceRepository {
+  protected invoices = new Map<string, Invoice>();
+
+  async save(invoice: Invoice): Promise<void> {
+    this.invoices.set(invoice.id.toString(), invoice);
+  }
+
+  async findById(id: UniqueEntityId): Promise<Invoice | null> {
+    return this.invoices.get(id.toString()) || null;
+  }
+
+  async findAll(): Promise<Invoice[]> {
+    return Array.from(this.invoices.values()).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    this.invoices.delete(id.toString());
+  }
+
+  async findByInvoiceNumber(invoiceNumber: string): Promise<Invoice | null> {
+    const normalized = invoiceNumber.toUpperCase().trim();
+    return Array.from(this.invoices.values()).find(invoice => invoice.invoiceNumber === normalized) || null;
+  }
+
+  async findByStatus(status: InvoiceStatus): Promise<Invoice[]> {
+    return (await this.findAll()).filter(invoice => invoice.status === status);
+  }
+
+  async findByContractId(contractId: string): Promise<Invoice[]> {
+    const normalized = contractId.toUpperCase().trim();
+    return (await this.findAll()).filter(invoice => invoice.contractId === normalized);
+  }
+
+  // Development helper methods
+  async clear(): Promise<void> {
+    this.invoices.clear();
+  }
+
+  async count(): Promise<number> {
+    return this.invoices.size;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,78 @@
+/**
+ * In-Memory Login Security Store - Infrastructure Layer
+ * Development/testing implementation of LoginSecurityStore
+ */
+
+import { LoginAttemptRecord, LoginLockout, LoginLockoutScope, LoginSecurityStore } from '../../auth/types';
+
+export class InMemoryLoginSecurityStore implements LoginSecurityStore {
+  protected attempts: LoginAttemptRecord[] = []; // Oldest first
+  protected lockouts = new Map<string, LoginLockout>();
+
+  async recordAttempt(attempt: LoginAttemptRecord): Promise<void> {
+    this.attempts.push({ ...attempt, flags: [...attempt.flags] });
+  }
+
+  async findSuccessfulAttempts(userId: string, since: Date): Promise<LoginAttemptRecord[]> {
+    return this.attempts
+      .filter(attempt => attempt.success && attempt.userId === userId && attempt.attemptedAt >= since)
+      .map(attempt => ({ ...attempt, flags: [...attempt.flags] }));
+  }
+
+  async findRecentAttempts(limit: number, flaggedOnly: boolean = false): Promise<LoginAttemptRecord[]> {
+    return this.attempts
+      .filter(attempt => !flaggedOnly || attempt.flags.length > 0)
+      .slice(-limit)
+      .reverse()
+      .map(attempt => ({ ...attempt, flags: [...attempt.flags] }));
+  }
+
+  async deleteAttemptsBefore(before: Date): Promise<number> {
+    const kept = this.attempts.filter(attempt => attempt.attemptedAt >= before);
+    const deleted = this.attempts.length - kept.length;
+    this.attempts = kept;
+    return deleted;
+  }
+
+  async findLockout(scope: LoginLockoutScope, subject: string): Promise<LoginLockout | null> {
+    const lockout = this.lockouts.get(this.key(scope, subject));
+    return lockout ? { ...lockout } : null;
+  }
+
+  async saveLockout(lockout: LoginLockout): Promise<void> {
+    this.lockouts.set(this.key(lockout.scope, lockout.subject), { ...lockout });
+  }
+
+  async deleteLockout(scope: LoginLockoutScope, subject: string): Promise<boolean> {
+    return this.lockouts.delete(this.key(scope, subject));
+  }
+
+  async findLockedOut(now: Date): Promise<LoginLockout[]> {
+    return Array.from(this.lockouts.values())
+      .filter(lockout => lockout.lockedUntil && lockout.lockedUntil > now)
+      .sort((a, b) => b.lockedAt!.getTime() - a.lockedAt!.getTime())
+      .map(lockout => ({ ...lockout }));
+  }
+
+  async deleteStaleLockouts(before: Date, now: Date): Promise<number> {
+    let deleted = 0;
+    for (const [key, lockout] of this.lockouts.entries()) {
+      const locked = lockout.lockedUntil && lockout.lockedUntil > now;
+      if (!locked && lockout.lastFailureAt < before) {
+        this.lockouts.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  protected key(scope: LoginLockoutScope, subject: string): string {
+    return `${scope}:${subject}`;
+  }
+
+  // Development helper methods
+  async clear(): Promise<void> {
+    this.attempts = [];
+    this.lockouts.clear();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,45 @@
+/**
+ * In-Memory Payment Audit Log - Infrastructure Layer
+ * Keeps payment webhook audit entries for development and testing
+ */
+
+import { PaymentAuditEntry, PaymentAuditLog, PaymentAuditOutcome } from '../payments/PaymentAuditLog';
+
+// A failed event may be redelivered and retried, so only these outcomes close an event id
+const FINAL_OUTCOMES = new Set([PaymentAuditOutcome.APPLIED, PaymentAuditOutcome.IGNORED, PaymentAuditOutcome.UNAPPLIED]);
+
+export class InMemoryPaymentAuditLog implements PaymentAuditLog {
+  protected entries: PaymentAuditEntry[] = [];
+
+  async record(entry: PaymentAuditEntry): Promise<void> {
+    this.entries.push({ ...entry });
+  }
+
+  async hasProcessedEvent(provider: string, eventId: string): Promise<boolean> {
+    return this.entries.some(entry =>
+      entry.provider === provider && entry.eventId === eventId && FINAL_OUTCOMES.has(entry.outcome)
+    );
+  }
+
+  async findByTargetId(targetId: string): Promise<PaymentAuditEntry[]> {
+    return this.newestFirst(this.entries.filter(entry => entry.targetId === targetId));
+  }
+
+  async list(limit?: number): Promise<PaymentAuditEntry[]> {
+    const entries = this.newestFirst(this.entries);
+    return limit !== undefined ? entries.slice(0, limit) : entries;
+  }
+
+  // Helper methods for testing
+  clear(): void {
+    this.entries = [];
+  }
+
+  count(): number {
+    return this.entries.length;
+  }
+
+  private newestFirst(entries: PaymentAuditEntry[]): PaymentAuditEntry[] {
+    return entries.map(entry => ({ ...entry })).reverse();
+  }
+}
\ No newline at end of file
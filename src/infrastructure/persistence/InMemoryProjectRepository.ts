@@ -0,0 +1,193 @@
+/**
+ * In-Memory Project Repository - Infrastructure Layer
+ * Development/testing implementation of ProjectRepository
+ */
+
+import { Project } from '../../domain/project/Project';
+import { ProjectRepository, ProjectQueryFilters, ProjectQueryResult } from '../../domain/project/ProjectRepository';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+
+export class InMemoryProjectRepository implements ProjectRepository {
+  private projects = new Map<string, Project>();
+
+  constructor() {
+    // Seed with sample projects for development
+    this.seedSampleProjects();
+  }
+
+  async save(project: Project): Promise<void> {
+    this.projects.set(project.id.toString(), project);
+  }
+
+  async findById(id: UniqueEntityId): Promise<Project | null> {
+    return this.projects.get(id.toString()) || null;
+  }
+
+  async findAll(): Promise<Project[]> {
+    return Array.from(this.projects.values())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    this.projects.delete(id.toString());
+  }
+
+  async findByPropertyCode(propertyCode: string): Promise<Project[]> {
+    const normalizedCode = propertyCode.toUpperCase().trim();
+    return Array.from(this.projects.values()).filter(
+      project => project.propertyCode === normalizedCode
+    );
+  }
+
+  async findByContractId(contractId: string): Promise<Project[]> {
+    const normalizedId = contractId.toUpperCase().trim();
+    return Array.from(this.projects.values()).filter(
+      project => project.contractId === normalizedId
+    );
+  }
+
+  async findByServiceType(serviceType: string): Promise<Project[]> {
+    return Array.from(this.projects.values()).filter(
+      project => project.serviceType.key === serviceType
+    );
+  }
+
+  async findWithFilters(filters: ProjectQueryFilters): Promise<ProjectQueryResult> {
+    let projects = Array.from(this.projects.values());
+
+    if (filters.serviceType) {
+      projects = projects.filter(project => project.serviceType.key === filters.serviceType);
+    }
+
+    if (filters.serviceClass) {
+      projects = projects.filter(project => project.serviceClass === filters.serviceClass);
+    }
+
+    if (filters.client) {
+      const searchClient = filters.client.toLowerCase().trim();
+      projects = projects.filter(project =>
+        project.client.toLowerCase().includes(searchClient)
+      );
+    }
+
+    if (filters.propertyCode) {
+      const searchCode = filters.propertyCode.toUpperCase().trim();
+      projects = projects.filter(project => project.propertyCode === searchCode);
+    }
+
+    if (filters.contractId) {
+      const searchId = filters.contractId.toUpperCase().trim();
+      projects = projects.filter(project => project.contractId === searchId);
+    }
+
+    const orderBy = filters.orderBy || 'createdAt';
+    const orderDirection = filters.orderDirection || 'desc';
+
+    projects.sort((a, b) => {
+      let aValue: string | number;
+      let bValue: string | number;
+
+      switch (orderBy) {
+        case 'title':
+          aValue = a.title.toLowerCase();
+          bValue = b.title.toLowerCase();
+          break;
+        case 'updatedAt':
+          aValue = a.updatedAt.getTime();
+          bValue = b.updatedAt.getTime();
+          break;
+        case 'createdAt':
+        default:
+          aValue = a.createdAt.getTime();
+          bValue = b.createdAt.getTime();
+          break;
+      }
+
+      if (aValue < bValue) return orderDirection === 'asc' ? -1 : 1;
+      if (aValue > bValue) return orderDirection === 'asc' ? 1 : -1;
+      return 0;
+    });
+
+    const total = projects.length;
+    const offset = filters.offset || 0;
+    const limit = filters.limit || 50;
+
+    projects = projects.slice(offset, offset + limit);
+
+    return {
+      projects,
+      total,
+      hasMore: offset + projects.length < total
+    };
+  }
+
+  // Development helper methods
+  async clear(): Promise<void> {
+    this.projects.clear();
+  }
+
+  async count(): Promise<number> {
+    return this.projects.size;
+  }
+
+  private seedSampleProjects(): void {
+    // Sample projects for development and testing
+    const sampleProjects = [
+      {
+        title: 'Commercial Snow Removal - Office Complex',
+        propertyCode: 'COM-001',
+        client: 'ABC Corporation',
+        serviceClass: 'commercial',
+        serviceType: 'snow-ice-removal',
+        currentStatus: 3,
+        statusLabels: ['Quote Request', 'Quote Response', 'Contract Signed', 'Service Active', 'Service Complete'],
+        showStatusBar: false,
+        adminNotes: 'Priority client - requires weekly updates',
+        address: {
+          street: '123 Business Park Dr',
+          city: 'Grand Rapids',
+          state: 'MI',
+          zipCode: '49503'
+        },
+        contact: {
+          name: 'John Manager',
+          phone: '(616) 555-0123',
+          email: 'john@abccorp.com'
+        }
+      },
+      {
+        title: 'Residential Landscaping Project',
+        propertyCode: 'RES-002',
+        client: 'John Smith',
+        serviceClass: 'residential',
+        serviceType: 'landscaping',
+        currentStatus: 2,
+        statusLabels: ['Quote Request', 'Quote Response', 'Scheduled Review', 'Service Phase 1', 'Service Phase 2', 'Service Complete'],
+        showStatusBar: true,
+        adminNotes: 'Client requested specific plant varieties',
+        address: {
+          street: '456 Maple Street',
+          city: 'Wyoming',
+          state: 'MI',
+          zipCode: '49509'
+        },
+        contact: {
+          name: 'John Smith',
+          phone: '(616) 555-0456',
+          email: 'john.smith@email.com'
+        }
+      }
+    ];
+
+    sampleProjects.forEach(({ currentStatus, ...data }) => {
+      try {
+        const project = Project.create({ ...data, createdBy: 'system' });
+        project.updateStatus(currentStatus, { changedBy: 'system' });
+        project.markEventsAsCommitted();
+        this.projects.set(project.id.toString(), project);
+      } catch (error) {
+        console.error('Failed to create sample project:', error);
+      }
+    });
+  }
+}
\ No newline at end of file
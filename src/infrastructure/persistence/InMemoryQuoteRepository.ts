@@ -9,7 +9,7 @@ import { QuoteRepository, QuoteQueryFilters, QuoteQueryResult } from '../../doma
 import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
 
 export class InMemoryQuoteRepository implements QuoteRepository {
-  private quotes = new Map<string, Quote>();
+  protected quotes = new Map<string, Quote>();
 
   async save(quote: Quote): Promise<void> {
     this.quotes.set(quote.id.toString(), quote);
@@ -105,6 +105,14 @@ export class InMemoryQuoteRepository implements QuoteRepository {
       quotes = quotes.filter(quote => quote.isExpired() === filters.isExpired);
     }
 
+    if (filters.assignedTo) {
+      quotes = quotes.filter(quote => quote.assignedTo === filters.assignedTo);
+    }
+
+    if (filters.isOverdue !== undefined) {
+      quotes = quotes.filter(quote => quote.isFirstResponseOverdue() === filters.isOverdue);
+    }
+
     // Apply sorting
     const orderBy = filters.orderBy || 'submittedAt';
     const orderDirection = filters.orderDirection || 'desc';
@@ -0,0 +1,75 @@
+/**
+ * In-Memory RBAC Store - Infrastructure Layer
+ * Development/testing implementation of RBACStore
+ */
+
+import { Permission, RBACStore, Role, RoleAssignment } from '../../auth/types';
+
+export class InMemoryRBACStore implements RBACStore {
+  protected roles = new Map<string, Role>();
+  protected permissions = new Map<string, Permission>();
+  protected assignments: RoleAssignment[] = [];
+  protected userPermissions = new Map<string, Permission[]>();
+
+  async listRoles(): Promise<Role[]> {
+    return Array.from(this.roles.values());
+  }
+
+  async findRoleById(id: string): Promise<Role | null> {
+    return this.roles.get(id) || null;
+  }
+
+  // Names are unique regardless of case, so "Crew Lead" and "crew lead" are the same role
+  async findRoleByName(name: string): Promise<Role | null> {
+    const normalized = name.trim().toLowerCase();
+    return Array.from(this.roles.values()).find(role => role.name.toLowerCase() === normalized) || null;
+  }
+
+  async saveRole(role: Role): Promise<void> {
+    this.roles.set(role.id, { ...role, permissions: [...role.permissions] });
+  }
+
+  async deleteRole(id: string): Promise<void> {
+    this.roles.delete(id);
+    this.assignments = this.assignments.filter(assignment => assignment.roleId !== id);
+  }
+
+  async listPermissions(): Promise<Permission[]> {
+    return Array.from(this.permissions.values());
+  }
+
+  async savePermission(permission: Permission): Promise<void> {
+    this.permissions.set(permission.id, permission);
+  }
+
+  async listAssignments(): Promise<RoleAssignment[]> {
+    return [...this.assignments];
+  }
+
+  async findAssignmentsByUser(userId: string): Promise<RoleAssignment[]> {
+    return this.assignments.filter(assignment => assignment.userId === userId);
+  }
+
+  async saveAssignment(assignment: RoleAssignment): Promise<void> {
+    await this.deleteAssignment(assignment.userId, assignment.roleId);
+    this.assignments.push(assignment);
+  }
+
+  async deleteAssignment(userId: string, roleId: string): Promise<void> {
+    this.assignments = this.assignments.filter(assignment =>
+      !(assignment.userId === userId && assignment.roleId === roleId)
+    );
+  }
+
+  async findUserPermissions(userId: string): Promise<Permission[]> {
+    return this.userPermissions.get(userId) || [];
+  }
+
+  async saveUserPermissions(userId: string, permissions: Permission[]): Promise<void> {
+    if (permissions.length === 0) {
+      this.userPermissions.delete(userId);
+    } else {
+      this.userPermissions.set(userId, [...permissions]);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,53 @@
+/**
+ * In-Memory Service Log Repository - Infrastructure Layer
+ * Development/testing implementation of ServiceLogRepository
+ */
+
+import { ServiceLogEntry, ServiceLogStatus } from '../../domain/servicelog/ServiceLogEntry';
+import { ServiceLogRepository } from '../../domain/servicelog/ServiceLogRepository';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+
+export class InMemoryServiceLogRepository implements ServiceLogRepository {
+  protected entries = new Map<string, ServiceLogEntry>();
+
+  async save(entry: ServiceLogEntry): Promise<void> {
+    this.entries.set(entry.id.toString(), entry);
+  }
+
+  async findById(id: UniqueEntityId): Promise<ServiceLogEntry | null> {
+    return this.entries.get(id.toString()) || null;
+  }
+
+  async findAll(): Promise<ServiceLogEntry[]> {
+    return Array.from(this.entries.values()).sort((a, b) =>
+      b.serviceDate.getTime() - a.serviceDate.getTime() || b.createdAt.getTime() - a.createdAt.getTime()
+    );
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    this.entries.delete(id.toString());
+  }
+
+  async findByStatus(status: ServiceLogStatus): Promise<ServiceLogEntry[]> {
+    return (await this.findAll()).filter(entry => entry.status === status);
+  }
+
+  async findBySubmitter(employee: string): Promise<ServiceLogEntry[]> {
+    const normalized = employee.toLowerCase().trim();
+    return (await this.findAll()).filter(entry => entry.submittedBy.toLowerCase() === normalized);
+  }
+
+  async findByPropertyCode(propertyCode: string): Promise<ServiceLogEntry[]> {
+    const normalizedCode = propertyCode.toUpperCase().trim();
+    return (await this.findAll()).filter(entry => entry.propertyCode === normalizedCode);
+  }
+
+  // Development helper methods
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async count(): Promise<number> {
+    return this.entries.size;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,93 @@
+/**
+ * In-Memory Session Store - Infrastructure Layer
+ * Development/testing implementation of SessionStore
+ */
+
+import { SessionStore, StoredSession } from '../../auth/types';
+
+export class InMemorySessionStore implements SessionStore {
+  protected sessions = new Map<string, StoredSession>();
+
+  // Like the PostgreSQL upsert, saving an existing session only moves its times, so a stale copy
+  // saved after a rotation or revocation cannot undo it
+  async save(session: StoredSession): Promise<void> {
+    const existing = this.sessions.get(session.id);
+    if (existing) {
+      existing.lastActiveAt = session.lastActiveAt;
+      existing.expiresAt = session.expiresAt;
+      existing.refreshExpiresAt = session.refreshExpiresAt;
+      return;
+    }
+    this.sessions.set(session.id, { ...session });
+  }
+
+  async findById(id: string): Promise<StoredSession | null> {
+    const session = this.sessions.get(id);
+    return session ? { ...session } : null;
+  }
+
+  async findByRefreshTokenHash(refreshTokenHash: string): Promise<StoredSession | null> {
+    const session = Array.from(this.sessions.values()).find(s => s.refreshTokenHash === refreshTokenHash);
+    return session ? { ...session } : null;
+  }
+
+  async findActive(userId?: string): Promise<StoredSession[]> {
+    const now = Date.now();
+    return Array.from(this.sessions.values())
+      .filter(session => !session.rotatedAt && !session.revokedAt && session.refreshExpiresAt.getTime() > now)
+      .filter(session => !userId || session.userId === userId)
+      .sort((a, b) => b.lastActiveAt.getTime() - a.lastActiveAt.getTime())
+      .map(session => ({ ...session }));
+  }
+
+  async markRotated(id: string, rotatedAt: Date): Promise<boolean> {
+    const session = this.sessions.get(id);
+    if (!session || session.rotatedAt || session.revokedAt) {
+      return false;
+    }
+    session.rotatedAt = rotatedAt;
+    return true;
+  }
+
+  async revokeFamily(familyId: string, reason: string): Promise<string[]> {
+    return this.revokeWhere(session => session.familyId === familyId, reason);
+  }
+
+  async revokeByUser(userId: string, reason: string, exceptFamilyId?: string): Promise<string[]> {
+    return this.revokeWhere(session => session.userId === userId && session.familyId !== exceptFamilyId, reason);
+  }
+
+  // Revoked and rotated sessions are kept until their family expires, so a replayed refresh token is still recognised
+  async deleteExpired(now: Date): Promise<number> {
+    let deleted = 0;
+    for (const [id, session] of this.sessions.entries()) {
+      if (session.refreshExpiresAt <= now) {
+        this.sessions.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  protected revokeWhere(matches: (session: StoredSession) => boolean, reason: string): string[] {
+    const revokedAt = new Date();
+    const revoked: string[] = [];
+    for (const session of this.sessions.values()) {
+      if (matches(session) && !session.revokedAt) {
+        session.revokedAt = revokedAt;
+        session.revokedReason = reason;
+        revoked.push(session.id);
+      }
+    }
+    return revoked;
+  }
+
+  // Development helper methods
+  async clear(): Promise<void> {
+    this.sessions.clear();
+  }
+
+  async count(): Promise<number> {
+    return this.sessions.size;
+  }
+}
\ No newline at end of file
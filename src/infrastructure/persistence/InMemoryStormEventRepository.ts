@@ -0,0 +1,42 @@
+/**
+ * In-Memory Storm Event Repository - Infrastructure Layer
+ * Development/testing implementation of StormEventRepository
+ */
+
+import { StormEvent, StormEventStatus } from '../../domain/storm/StormEvent';
+import { StormEventRepository } from '../../domain/storm/StormEventRepository';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+
+export class InMemoryStormEventRepository implements StormEventRepository {
+  protected storms = new Map<string, StormEvent>();
+
+  async save(storm: StormEvent): Promise<void> {
+    this.storms.set(storm.id.toString(), storm);
+  }
+
+  async findById(id: UniqueEntityId): Promise<StormEvent | null> {
+    return this.storms.get(id.toString()) || null;
+  }
+
+  async findAll(): Promise<StormEvent[]> {
+    return Array.from(this.storms.values())
+      .sort((a, b) => b.startsAt.getTime() - a.startsAt.getTime());
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    this.storms.delete(id.toString());
+  }
+
+  async findByStatus(status: StormEventStatus): Promise<StormEvent[]> {
+    return (await this.findAll()).filter(storm => storm.status === status);
+  }
+
+  // Development helper methods
+  async clear(): Promise<void> {
+    this.storms.clear();
+  }
+
+  async count(): Promise<number> {
+    return this.storms.size;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,54 @@
+/**
+ * In-Memory Time Entry Repository - Infrastructure Layer
+ * Development/testing implementation of TimeEntryRepository
+ */
+
+import { TimeEntry, TimeEntryStatus } from '../../domain/timesheet/TimeEntry';
+import { TimeEntryRepository } from '../../domain/timesheet/TimeEntryRepository';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+
+export class InMemoryTimeEntryRepository implements TimeEntryRepository {
+  protected entries = new Map<string, TimeEntry>();
+
+  async save(entry: TimeEntry): Promise<void> {
+    this.entries.set(entry.id.toString(), entry);
+  }
+
+  async findById(id: UniqueEntityId): Promise<TimeEntry | null> {
+    return this.entries.get(id.toString()) || null;
+  }
+
+  async findAll(): Promise<TimeEntry[]> {
+    return Array.from(this.entries.values()).sort((a, b) => b.clockInAt.getTime() - a.clockInAt.getTime());
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    this.entries.delete(id.toString());
+  }
+
+  async findByStatus(status: TimeEntryStatus): Promise<TimeEntry[]> {
+    return (await this.findAll()).filter(entry => entry.status === status);
+  }
+
+  async findByEmployee(employee: string): Promise<TimeEntry[]> {
+    const normalized = employee.toLowerCase().trim();
+    return (await this.findAll()).filter(entry => entry.employee.toLowerCase() === normalized);
+  }
+
+  async findOpenByEmployee(employee: string): Promise<TimeEntry | null> {
+    return (await this.findByEmployee(employee)).find(entry => entry.status === TimeEntryStatus.OPEN) || null;
+  }
+
+  async findClockedInBetween(from: Date, to: Date): Promise<TimeEntry[]> {
+    return (await this.findAll()).filter(entry => entry.clockInAt >= from && entry.clockInAt < to);
+  }
+
+  // Development helper methods
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async count(): Promise<number> {
+    return this.entries.size;
+  }
+}
\ No newline at end of file
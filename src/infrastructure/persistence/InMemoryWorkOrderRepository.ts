@@ -0,0 +1,55 @@
+/**
+ * In-Memory Work Order Repository - Infrastructure Layer
+ * Development/testing implementation of WorkOrderRepository
+ */
+
+import { WorkOrder, WorkOrderStatus } from '../../domain/workorder/WorkOrder';
+import { WorkOrderRepository } from '../../domain/workorder/WorkOrderRepository';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+
+export class InMemoryWorkOrderRepository implements WorkOrderRepository {
+  protected workOrders = new Map<string, WorkOrder>();
+
+  async save(workOrder: WorkOrder): Promise<void> {
+    this.workOrders.set(workOrder.id.toString(), workOrder);
+  }
+
+  async findById(id: UniqueEntityId): Promise<WorkOrder | null> {
+    return this.workOrders.get(id.toString()) || null;
+  }
+
+  async findAll(): Promise<WorkOrder[]> {
+    return Array.from(this.workOrders.values()).sort(WorkOrder.compareForDispatch);
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    this.workOrders.delete(id.toString());
+  }
+
+  async findByStatus(statuses: ReadonlyArray<WorkOrderStatus>): Promise<WorkOrder[]> {
+    return (await this.findAll()).filter(workOrder => statuses.includes(workOrder.status));
+  }
+
+  async findByAssignee(assignee: string): Promise<WorkOrder[]> {
+    const normalized = assignee.toLowerCase().trim();
+    return (await this.findAll()).filter(workOrder => workOrder.assignedTo?.toLowerCase() === normalized);
+  }
+
+  async findByPropertyCode(propertyCode: string): Promise<WorkOrder[]> {
+    const normalizedCode = propertyCode.toUpperCase().trim();
+    return (await this.findAll()).filter(workOrder => workOrder.propertyCode === normalizedCode);
+  }
+
+  async findByStormEventId(stormEventId: string): Promise<WorkOrder[]> {
+    return (await this.findAll()).filter(workOrder => workOrder.storm?.stormEventId === stormEventId);
+  }
+
+  // Development helper methods
+  async clear(): Promise<void> {
+    this.workOrders.clear();
+  }
+
+  async count(): Promise<number> {
+    return this.workOrders.size;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,35 @@
+/**
+ * PostgreSQL Contract Conversion Store - Infrastructure Layer
+ * Writes a quote conversion's contract and project in one transaction
+ */
+
+import { Contract } from '../../domain/contract/Contract';
+import { ContractConversionStore } from '../../domain/contract/ContractConversionStore';
+import { Project } from '../../domain/project/Project';
+import { DatabaseConnection } from '../database/DatabaseConnection';
+import { PostgreSQLContractRepository } from './PostgreSQLContractRepository';
+import { PostgreSQLProjectRepository } from './PostgreSQLProjectRepository';
+
+export class PostgreSQLContractConversionStore implements ContractConversionStore {
+  constructor(
+    private readonly connection: DatabaseConnection,
+    private readonly contractRepository: PostgreSQLContractRepository,
+    private readonly projectRepository: PostgreSQLProjectRepository
+  ) {}
+
+  // The quote lives in another store, so its link is written before the commit: a failed link rolls
+  // the contract and project back, leaving only a commit failure able to strand a linked quote
+  async saveConversion(contract: Contract, project: Project, link: () => Promise<void>): Promise<void> {
+    const transaction = await this.connection.beginTransaction();
+
+    try {
+      await this.contractRepository.save(contract, { transaction });
+      await this.projectRepository.save(project, { transaction });
+      await link();
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,40 @@
+/**
+ * PostgreSQL Contract ID Allocator - Infrastructure Layer
+ * Durable ContractIdAllocator shared by every instance through a per-year counter row
+ */
+
+import { ContractIdAllocator, formatContractId, CONTRACT_ID_PREFIX } from '../../domain/contract/ContractIdAllocator';
+import { DatabaseConnection } from '../database/DatabaseConnection';
+
+export class PostgreSQLContractIdAllocator implements ContractIdAllocator {
+  constructor(private readonly connection: DatabaseConnection) {}
+
+  // The upsert locks the year's row, so concurrent allocations queue behind each other; a year's
+  // first allocation seeds the counter from contracts saved before the counter existed
+  async allocate(year: number): Promise<string> {
+    const result = await this.connection.query<{ last_sequence: number }>(
+      `INSERT INTO contract_id_sequences (year, last_sequence)
+       VALUES ($1, COALESCE((
+         SELECT MAX(SUBSTRING(contract_id FROM '^[A-Za-z]{2,4}-[0-9]{4}-([0-9]{3,4})$')::INTEGER)
+         FROM contracts
+         WHERE UPPER(contract_id) LIKE $2
+       ), 0) + 1)
+       ON CONFLICT (year) DO UPDATE SET last_sequence = contract_id_sequences.last_sequence + 1
+       RETURNING last_sequence`,
+      [year, `${CONTRACT_ID_PREFIX}-${year}-%`]
+    );
+    return formatContractId(year, Number(result.rows[0].last_sequence));
+  }
+
+  // Schema creation method for development/testing
+  async createSchema(): Promise<void> {
+    const sql = `
+      CREATE TABLE IF NOT EXISTS contract_id_sequences (
+        year INTEGER PRIMARY KEY,
+        last_sequence INTEGER NOT NULL
+      );
+    `;
+
+    await this.connection.execute(sql);
+  }
+}
\ No newline at end of file
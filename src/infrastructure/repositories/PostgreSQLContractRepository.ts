@@ -0,0 +1,286 @@
+/**
+ * PostgreSQL Contract Repository - Infrastructure Layer
+ * Cloud-ready PostgreSQL implementation of ContractRepository
+ */
+
+import { Contract, ContractBillingBasis, ContractStatus } from '../../domain/contract/Contract';
+import { ContractRepository } from '../../domain/contract/ContractRepository';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+import { Email } from '../../domain/shared/Email';
+import { PhoneNumber } from '../../domain/shared/PhoneNumber';
+import { ServiceType } from '../../domain/shared/ServiceType';
+import { BaseRepository, FilterParams, FilterOperator, QueryOptions, SortingParams } from '../database/Repository';
+import { DatabaseConnection } from '../database/DatabaseConnection';
+
+interface ContractRow {
+  id: string;
+  contract_id: string;
+  customer_name: string;
+  email: string;
+  phone: string;
+  service_type: string;
+  address: string;
+  status: string;
+  start_date: Date;
+  end_date?: Date | null;
+  contract_value: string | number;
+  description: string;
+  project_manager?: string | null;
+  estimator?: string | null;
+  region?: string | null;
+  notes?: string | null;
+  source_quote_id?: string | null;
+  snow_trigger_inches?: string | number | null;
+  billing_basis?: string | null;
+  season_installments?: number | null;
+  push_rate?: string | number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const MOST_RECENT_FIRST: SortingParams[] = [
+  { field: 'created_at', direction: 'DESC' }
+];
+
+export class PostgreSQLContractRepository implements ContractRepository {
+  private baseRepository: BaseRepository<Contract, string>;
+
+  constructor(private connection: DatabaseConnection) {
+    this.baseRepository = new class extends BaseRepository<Contract, string> {
+      constructor() {
+        super({
+          tableName: 'contracts',
+          primaryKey: 'id',
+          connection,
+          useTransactions: true
+        });
+      }
+
+      toDomainEntity(row: Record<string, unknown>): Contract {
+        const contractRow = row as unknown as ContractRow;
+
+        return Contract.reconstitute(UniqueEntityId.create(contractRow.id), {
+          contractId: contractRow.contract_id,
+          customerName: contractRow.customer_name,
+          email: Email.create(contractRow.email),
+          phone: PhoneNumber.create(contractRow.phone),
+          serviceType: ServiceType.create(contractRow.service_type),
+          address: contractRow.address,
+          status: contractRow.status as ContractStatus,
+          startDate: contractRow.start_date,
+          endDate: contractRow.end_date || undefined,
+          // DECIMAL columns come back from pg as strings
+          contractValue: Number(contractRow.contract_value),
+          description: contractRow.description,
+          createdAt: contractRow.created_at,
+          updatedAt: contractRow.updated_at,
+          metadata: {
+            projectManager: contractRow.project_manager || undefined,
+            estimator: contractRow.estimator || undefined,
+            region: contractRow.region || undefined,
+            notes: contractRow.notes || undefined,
+            sourceQuoteId: contractRow.source_quote_id || undefined,
+            snowTriggerInches: contractRow.snow_trigger_inches != null ? Number(contractRow.snow_trigger_inches) : undefined,
+            billingBasis: (contractRow.billing_basis as ContractBillingBasis) || undefined,
+            seasonInstallments: contractRow.season_installments ?? undefined,
+            pushRate: contractRow.push_rate != null ? Number(contractRow.push_rate) : undefined
+          }
+        });
+      }
+
+      toPersistenceModel(entity: Contract): Record<string, unknown> {
+        return {
+          id: entity.id.toString(),
+          contract_id: entity.contractId,
+          customer_name: entity.customerName,
+          email: entity.email.value,
+          phone: entity.phone.value,
+          service_type: entity.serviceType.key,
+          address: entity.address,
+          status: entity.status,
+          start_date: entity.startDate,
+          end_date: entity.endDate ?? null,
+          contract_value: entity.contractValue,
+          description: entity.description,
+          project_manager: entity.metadata.projectManager ?? null,
+          estimator: entity.metadata.estimator ?? null,
+          region: entity.metadata.region ?? null,
+          notes: entity.metadata.notes ?? null,
+          source_quote_id: entity.metadata.sourceQuoteId ?? null,
+          snow_trigger_inches: entity.metadata.snowTriggerInches ?? null,
+          billing_basis: entity.metadata.billingBasis ?? null,
+          season_installments: entity.metadata.seasonInstallments ?? null,
+          push_rate: entity.metadata.pushRate ?? null,
+          created_at: entity.createdAt,
+          updated_at: entity.updatedAt
+        };
+      }
+
+      getEntityId(entity: Contract): string {
+        return entity.id.toString();
+      }
+    };
+  }
+
+  // ContractRepository interface implementations
+  async save(contract: Contract, options?: QueryOptions): Promise<void> {
+    await this.baseRepository.save(contract, options);
+  }
+
+  async findById(id: UniqueEntityId): Promise<Contract | null> {
+    return this.baseRepository.findById(id.toString());
+  }
+
+  async findByContractId(contractId: string): Promise<Contract | null> {
+    const contracts = await this.findMatching([{
+      field: 'contract_id',
+      operator: FilterOperator.EQUALS,
+      value: contractId.toUpperCase().trim()
+    }]);
+    return contracts[0] || null;
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    await this.baseRepository.delete(id.toString());
+  }
+
+  async findByCustomerEmail(email: string): Promise<Contract[]> {
+    return this.findMatching([{
+      field: 'LOWER(email)',
+      operator: FilterOperator.EQUALS,
+      value: email.toLowerCase().trim()
+    }]);
+  }
+
+  async findByCustomerPhone(phone: string): Promise<Contract[]> {
+    // Compare digits only so formatting differences still match
+    return this.findMatching([{
+      field: `regexp_replace(phone, '\\D', '', 'g')`,
+      operator: FilterOperator.EQUALS,
+      value: phone.replace(/\D/g, '')
+    }]);
+  }
+
+  async findByCustomerName(name: string): Promise<Contract[]> {
+    return this.findMatching([{
+      field: 'customer_name',
+      operator: FilterOperator.ILIKE,
+      value: `%${name.trim()}%`
+    }]);
+  }
+
+  async findActiveContracts(): Promise<Contract[]> {
+    return this.findByStatus(ContractStatus.ACTIVE);
+  }
+
+  async findByStatus(status: ContractStatus): Promise<Contract[]> {
+    return this.findMatching([{
+      field: 'status',
+      operator: FilterOperator.EQUALS,
+      value: status
+    }]);
+  }
+
+  async findByServiceType(serviceType: string): Promise<Contract[]> {
+    return this.findMatching([{
+      field: 'service_type',
+      operator: FilterOperator.EQUALS,
+      value: serviceType
+    }]);
+  }
+
+  async findByDateRange(startDate: Date, endDate: Date): Promise<Contract[]> {
+    return this.findMatching([{
+      field: 'start_date',
+      operator: FilterOperator.BETWEEN,
+      value: [startDate, endDate]
+    }]);
+  }
+
+  async searchContracts(searchTerm: string): Promise<Contract[]> {
+    const pattern = `%${searchTerm.trim()}%`;
+    return this.findMatching(
+      ['contract_id', 'customer_name', 'email', 'address', 'description'].map(field => ({
+        field,
+        operator: FilterOperator.ILIKE,
+        value: pattern,
+        logical: 'OR' as const
+      }))
+    );
+  }
+
+  async findRecentContracts(limit: number): Promise<Contract[]> {
+    const result = await this.baseRepository.findMany(undefined, MOST_RECENT_FIRST, { page: 1, limit });
+    return result.items;
+  }
+
+  async countByStatus(status: ContractStatus): Promise<number> {
+    return this.baseRepository.count([{
+      field: 'status',
+      operator: FilterOperator.EQUALS,
+      value: status
+    }]);
+  }
+
+  async getTotalContractValue(): Promise<number> {
+    const result = await this.connection.query<{ total: string | null }>(
+      'SELECT SUM(contract_value) AS total FROM contracts'
+    );
+    return Number(result.rows[0]?.total || 0);
+  }
+
+  async getContractValueByServiceType(serviceType: string): Promise<number> {
+    const result = await this.connection.query<{ total: string | null }>(
+      'SELECT SUM(contract_value) AS total FROM contracts WHERE service_type = $1',
+      [serviceType]
+    );
+    return Number(result.rows[0]?.total || 0);
+  }
+
+  private async findMatching(filters: FilterParams[]): Promise<Contract[]> {
+    const result = await this.baseRepository.findMany(filters.length > 0 ? filters : undefined, MOST_RECENT_FIRST);
+    return result.items;
+  }
+
+  // Schema creation method for development/testing
+  async createSchema(): Promise<void> {
+    const sql = `
+      CREATE TABLE IF NOT EXISTS contracts (
+        id VARCHAR(255) PRIMARY KEY,
+        contract_id VARCHAR(20) NOT NULL UNIQUE,
+        customer_name VARCHAR(255) NOT NULL,
+        email VARCHAR(255) NOT NULL,
+        phone VARCHAR(50) NOT NULL,
+        service_type VARCHAR(100) NOT NULL,
+        address TEXT NOT NULL,
+        status VARCHAR(20) NOT NULL,
+        start_date TIMESTAMP WITH TIME ZONE NOT NULL,
+        end_date TIMESTAMP WITH TIME ZONE,
+        contract_value DECIMAL(12,2) NOT NULL,
+        description TEXT NOT NULL,
+        project_manager VARCHAR(255),
+        estimator VARCHAR(255),
+        region VARCHAR(255),
+        notes TEXT,
+        source_quote_id VARCHAR(255),
+        snow_trigger_inches DECIMAL(5,2),
+        billing_basis VARCHAR(20),
+        season_installments INTEGER,
+        push_rate DECIMAL(12,2),
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        updated_at TIMESTAMP WITH TIME ZONE NOT NULL,
+
+        CONSTRAINT contracts_status_check CHECK (status IN ('active', 'completed', 'cancelled', 'on_hold')),
+        CONSTRAINT contracts_billing_basis_check CHECK (billing_basis IS NULL OR billing_basis IN ('per_push', 'per_season'))
+      );
+
+      -- Create indexes
+      CREATE INDEX IF NOT EXISTS idx_contracts_email ON contracts(email);
+      CREATE INDEX IF NOT EXISTS idx_contracts_status ON contracts(status);
+      CREATE INDEX IF NOT EXISTS idx_contracts_source_quote_id ON contracts(source_quote_id);
+      CREATE INDEX IF NOT EXISTS idx_contracts_created_at ON contracts(created_at);
+    `;
+
+    await this.connection.execute(sql);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,190 @@
+/**
+ * PostgreSQL Equipment Repository - Infrastructure Layer
+ * Cloud-ready PostgreSQL implementation of EquipmentRepository
+ */
+
+import {
+  Equipment,
+  EquipmentCategory,
+  EquipmentCheckout,
+  EquipmentMaintenanceRecord,
+  EquipmentStatus
+} from '../../domain/inventory/Equipment';
+import { EquipmentRepository } from '../../domain/inventory/EquipmentRepository';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+import { BaseRepository, FilterParams, FilterOperator, SortingParams } from '../database/Repository';
+import { DatabaseConnection } from '../database/DatabaseConnection';
+
+interface EquipmentRow {
+  id: string;
+  asset_tag: string;
+  name: string;
+  category: string;
+  yard: string;
+  status: string;
+  maintenance_interval_days: number;
+  maintenance_due_at: Date;
+  checkouts: string | CheckoutEntry[];
+  maintenance: string | MaintenanceEntry[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+type CheckoutEntry = Omit<EquipmentCheckout, 'checkedOutAt' | 'dueBackAt' | 'returnedAt'> & {
+  checkedOutAt: string;
+  dueBackAt?: string;
+  returnedAt?: string;
+};
+type MaintenanceEntry = Omit<EquipmentMaintenanceRecord, 'completedAt'> & { completedAt: string };
+
+const BY_ASSET_TAG: SortingParams[] = [{ field: 'asset_tag', direction: 'ASC' }];
+
+const parseJson = <T>(value: string | T[]): T[] => typeof value === 'string' ? JSON.parse(value) as T[] : value || [];
+const toDate = (value?: string): Date | undefined => value ? new Date(value) : undefined;
+
+export class PostgreSQLEquipmentRepository implements EquipmentRepository {
+  private baseRepository: BaseRepository<Equipment, string>;
+
+  constructor(private connection: DatabaseConnection) {
+    this.baseRepository = new class extends BaseRepository<Equipment, string> {
+      constructor() {
+        super({
+          tableName: 'equipment',
+          primaryKey: 'id',
+          connection,
+          useTransactions: true
+        });
+      }
+
+      toDomainEntity(row: Record<string, unknown>): Equipment {
+        const equipmentRow = row as unknown as EquipmentRow;
+
+        return Equipment.reconstitute(UniqueEntityId.create(equipmentRow.id), {
+          assetTag: equipmentRow.asset_tag,
+          name: equipmentRow.name,
+          category: equipmentRow.category as EquipmentCategory,
+          yard: equipmentRow.yard,
+          status: equipmentRow.status as EquipmentStatus,
+          maintenanceIntervalDays: Number(equipmentRow.maintenance_interval_days),
+          maintenanceDueAt: equipmentRow.maintenance_due_at,
+          checkouts: parseJson<CheckoutEntry>(equipmentRow.checkouts).map(checkout => ({
+            ...checkout,
+            checkedOutAt: new Date(checkout.checkedOutAt),
+            dueBackAt: toDate(checkout.dueBackAt),
+            returnedAt: toDate(checkout.returnedAt)
+          })),
+          maintenance: parseJson<MaintenanceEntry>(equipmentRow.maintenance).map(record => ({
+            ...record,
+            completedAt: new Date(record.completedAt)
+          })),
+          createdAt: equipmentRow.created_at,
+          updatedAt: equipmentRow.updated_at
+        });
+      }
+
+      toPersistenceModel(entity: Equipment): Record<string, unknown> {
+        return {
+          id: entity.id.toString(),
+          asset_tag: entity.assetTag,
+          name: entity.name,
+          category: entity.category,
+          yard: entity.yard,
+          status: entity.status,
+          maintenance_interval_days: entity.maintenanceIntervalDays,
+          maintenance_due_at: entity.maintenanceDueAt,
+          checkouts: JSON.stringify(entity.checkouts.map(checkout => ({
+            ...checkout,
+            checkedOutAt: checkout.checkedOutAt.toISOString(),
+            dueBackAt: checkout.dueBackAt?.toISOString(),
+            returnedAt: checkout.returnedAt?.toISOString()
+          }))),
+          maintenance: JSON.stringify(entity.maintenance.map(record => ({
+            ...record,
+            completedAt: record.completedAt.toISOString()
+          }))),
+          created_at: entity.createdAt,
+          updated_at: entity.updatedAt
+        };
+      }
+
+      getEntityId(entity: Equipment): string {
+        return entity.id.toString();
+      }
+    };
+  }
+
+  // EquipmentRepository interface implementations
+  async save(equipment: Equipment): Promise<void> {
+    await this.baseRepository.save(equipment);
+  }
+
+  async findById(id: UniqueEntityId): Promise<Equipment | null> {
+    return this.baseRepository.findById(id.toString());
+  }
+
+  async findAll(): Promise<Equipment[]> {
+    return this.findMatching([]);
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    await this.baseRepository.delete(id.toString());
+  }
+
+  async findByAssetTag(assetTag: string): Promise<Equipment | null> {
+    const equipment = await this.findMatching([{
+      field: 'asset_tag',
+      operator: FilterOperator.EQUALS,
+      value: assetTag.toUpperCase().trim()
+    }]);
+    return equipment[0] || null;
+  }
+
+  async findByStatus(status: EquipmentStatus): Promise<Equipment[]> {
+    return this.findMatching([{
+      field: 'status',
+      operator: FilterOperator.EQUALS,
+      value: status
+    }]);
+  }
+
+  // The crew lives inside the open checkout, so filter the checked-out set in memory
+  async findCheckedOutTo(crew: string): Promise<Equipment[]> {
+    const normalized = crew.toLowerCase().trim();
+    return (await this.findByStatus(EquipmentStatus.CHECKED_OUT))
+      .filter(equipment => equipment.currentCheckout?.crew.toLowerCase() === normalized);
+  }
+
+  private async findMatching(filters: FilterParams[]): Promise<Equipment[]> {
+    const result = await this.baseRepository.findMany(filters.length > 0 ? filters : undefined, BY_ASSET_TAG);
+    return result.items;
+  }
+
+  // Schema creation method for development/testing
+  async createSchema(): Promise<void> {
+    const sql = `
+      CREATE TABLE IF NOT EXISTS equipment (
+        id VARCHAR(255) PRIMARY KEY,
+        asset_tag VARCHAR(30) NOT NULL UNIQUE,
+        name VARCHAR(100) NOT NULL,
+        category VARCHAR(50) NOT NULL,
+        yard VARCHAR(50) NOT NULL,
+        status VARCHAR(20) NOT NULL,
+        maintenance_interval_days INTEGER NOT NULL,
+        maintenance_due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        checkouts JSONB NOT NULL DEFAULT '[]',
+        maintenance JSONB NOT NULL DEFAULT '[]',
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        updated_at TIMESTAMP WITH TIME ZONE NOT NULL,
+
+        CONSTRAINT equipment_status_check CHECK (status IN ('available', 'checked_out', 'in_maintenance', 'retired'))
+      );
+
+      -- Create indexes
+      CREATE INDEX IF NOT EXISTS idx_equipment_status ON equipment(status);
+      CREATE INDEX IF NOT EXISTS idx_equipment_yard ON equipment(yard);
+      CREATE INDEX IF NOT EXISTS idx_equipment_maintenance_due_at ON equipment(maintenance_due_at);
+    `;
+
+    await this.connection.execute(sql);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,173 @@
+/**
+ * PostgreSQL Inventory Item Repository - Infrastructure Layer
+ * Cloud-ready PostgreSQL implementation of InventoryItemRepository
+ */
+
+import { InventoryItem, InventoryMovement, ServiceLogMaterial } from '../../domain/inventory/InventoryItem';
+import { InventoryItemRepository } from '../../domain/inventory/InventoryItemRepository';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+import { BaseRepository, FilterParams, FilterOperator, SortingParams } from '../database/Repository';
+import { DatabaseConnection } from '../database/DatabaseConnection';
+
+interface InventoryItemRow {
+  id: string;
+  sku: string;
+  yard: string;
+  name: string;
+  unit: string;
+  material: string | null;
+  on_hand: string | number;
+  reorder_threshold: string | number;
+  reorder_quantity: string | number;
+  movements: string | MovementEntry[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+type MovementEntry = Omit<InventoryMovement, 'recordedAt'> & { recordedAt: string };
+
+const BY_YARD_AND_SKU: SortingParams[] = [
+  { field: 'yard', direction: 'ASC' },
+  { field: 'sku', direction: 'ASC' }
+];
+
+export class PostgreSQLInventoryItemRepository implements InventoryItemRepository {
+  private baseRepository: BaseRepository<InventoryItem, string>;
+
+  constructor(private connection: DatabaseConnection) {
+    this.baseRepository = new class extends BaseRepository<InventoryItem, string> {
+      constructor() {
+        super({
+          tableName: 'inventory_items',
+          primaryKey: 'id',
+          connection,
+          useTransactions: true
+        });
+      }
+
+      toDomainEntity(row: Record<string, unknown>): InventoryItem {
+        const itemRow = row as unknown as InventoryItemRow;
+
+        const movements = typeof itemRow.movements === 'string'
+          ? JSON.parse(itemRow.movements) as MovementEntry[]
+          : itemRow.movements || [];
+
+        return InventoryItem.reconstitute(UniqueEntityId.create(itemRow.id), {
+          sku: itemRow.sku,
+          yard: itemRow.yard,
+          name: itemRow.name,
+          unit: itemRow.unit,
+          material: (itemRow.material || undefined) as ServiceLogMaterial | undefined,
+          onHand: Number(itemRow.on_hand),
+          reorderThreshold: Number(itemRow.reorder_threshold),
+          reorderQuantity: Number(itemRow.reorder_quantity),
+          movements: movements.map(movement => ({
+            ...movement,
+            recordedAt: new Date(movement.recordedAt)
+          })),
+          createdAt: itemRow.created_at,
+          updatedAt: itemRow.updated_at
+        });
+      }
+
+      toPersistenceModel(entity: InventoryItem): Record<string, unknown> {
+        return {
+          id: entity.id.toString(),
+          sku: entity.sku,
+          yard: entity.yard,
+          name: entity.name,
+          unit: entity.unit,
+          material: entity.material || null,
+          on_hand: entity.onHand,
+          reorder_threshold: entity.reorderThreshold,
+          reorder_quantity: entity.reorderQuantity,
+          movements: JSON.stringify(entity.movements.map(movement => ({
+            ...movement,
+            recordedAt: movement.recordedAt.toISOString()
+          }))),
+          created_at: entity.createdAt,
+          updated_at: entity.updatedAt
+        };
+      }
+
+      getEntityId(entity: InventoryItem): string {
+        return entity.id.toString();
+      }
+    };
+  }
+
+  // InventoryItemRepository interface implementations
+  async save(item: InventoryItem): Promise<void> {
+    await this.baseRepository.save(item);
+  }
+
+  async findById(id: UniqueEntityId): Promise<InventoryItem | null> {
+    return this.baseRepository.findById(id.toString());
+  }
+
+  async findAll(): Promise<InventoryItem[]> {
+    return this.findMatching([]);
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    await this.baseRepository.delete(id.toString());
+  }
+
+  async findByYard(yard: string): Promise<InventoryItem[]> {
+    return this.findMatching([{
+      field: 'yard',
+      operator: FilterOperator.EQUALS,
+      value: yard.toUpperCase().trim()
+    }]);
+  }
+
+  async findBySku(sku: string, yard: string): Promise<InventoryItem | null> {
+    const items = await this.findMatching([
+      { field: 'sku', operator: FilterOperator.EQUALS, value: sku.toUpperCase().trim() },
+      { field: 'yard', operator: FilterOperator.EQUALS, value: yard.toUpperCase().trim() }
+    ]);
+    return items[0] || null;
+  }
+
+  async findByMaterial(material: ServiceLogMaterial): Promise<InventoryItem[]> {
+    return this.findMatching([{
+      field: 'material',
+      operator: FilterOperator.EQUALS,
+      value: material
+    }]);
+  }
+
+  private async findMatching(filters: FilterParams[]): Promise<InventoryItem[]> {
+    const result = await this.baseRepository.findMany(filters.length > 0 ? filters : undefined, BY_YARD_AND_SKU);
+    return result.items;
+  }
+
+  // Schema creation method for development/testing
+  async createSchema(): Promise<void> {
+    const sql = `
+      CREATE TABLE IF NOT EXISTS inventory_items (
+        id VARCHAR(255) PRIMARY KEY,
+        sku VARCHAR(30) NOT NULL,
+        yard VARCHAR(50) NOT NULL,
+        name VARCHAR(100) NOT NULL,
+        unit VARCHAR(20) NOT NULL,
+        material VARCHAR(30),
+        on_hand DECIMAL(12,2) NOT NULL DEFAULT 0,
+        reorder_threshold DECIMAL(12,2) NOT NULL DEFAULT 0,
+        reorder_quantity DECIMAL(12,2) NOT NULL DEFAULT 0,
+        movements JSONB NOT NULL DEFAULT '[]',
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        updated_at TIMESTAMP WITH TIME ZONE NOT NULL,
+
+        CONSTRAINT inventory_items_sku_yard_unique UNIQUE (sku, yard),
+        CONSTRAINT inventory_items_material_check CHECK (material IS NULL OR material IN ('iceMeltBags', 'deicerGallons', 'iceSlicerTons'))
+      );
+
+      -- Create indexes
+      CREATE INDEX IF NOT EXISTS idx_inventory_items_yard ON inventory_items(yard);
+      CREATE INDEX IF NOT EXISTS idx_inventory_items_material ON inventory_items(material);
+    `;
+
+    await this.connection.execute(sql);
+  }
+}
\ No newline at end of file
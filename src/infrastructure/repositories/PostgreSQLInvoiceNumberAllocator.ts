@@ -0,0 +1,40 @@
+/**
+ * PostgreSQL Invoice Number Allocator - Infrastructure Layer
+ * Durable InvoiceNumberAllocator shared by every instance through a per-year counter row
+ */
+
+import { InvoiceNumberAllocator, formatInvoiceNumber, INVOICE_NUMBER_PREFIX } from '../../domain/invoice/InvoiceNumberAllocator';
+import { DatabaseConnection } from '../database/DatabaseConnection';
+
+export class PostgreSQLInvoiceNumberAllocator implements InvoiceNumberAllocator {
+  constructor(private readonly connection: DatabaseConnection) {}
+
+  // Same upsert as contract IDs: the year's row lock queues concurrent allocations, and the first
+  // allocation of a year seeds the counter from invoices saved before the counter existed
+  async allocate(year: number): Promise<string> {
+    const result = await this.connection.query<{ last_sequence: number }>(
+      `INSERT INTO invoice_number_sequences (year, last_sequence)
+       VALUES ($1, COALESCE((
+         SELECT MAX(SUBSTRING(invoice_number FROM '^[A-Za-z]{2,4}-[0-9]{4}-([0-9]{4,6})$')::INTEGER)
+         FROM invoices
+         WHERE UPPER(invoice_number) LIKE $2
+       ), 0) + 1)
+       ON CONFLICT (year) DO UPDATE SET last_sequence = invoice_number_sequences.last_sequence + 1
+       RETURNING last_sequence`,
+      [year, `${INVOICE_NUMBER_PREFIX}-${year}-%`]
+    );
+    return formatInvoiceNumber(year, Number(result.rows[0].last_sequence));
+  }
+
+  // Schema creation method for development/testing
+  async createSchema(): Promise<void> {
+    const sql = `
+      CREATE TABLE IF NOT EXISTS invoice_number_sequences (
+        year INTEGER PRIMARY KEY,
+        last_sequence INTEGER NOT NULL
+      );
+    `;
+
+    await this.connection.execute(sql);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,246 @@
+/**
+ * PostgreSQL Invoice Repository - Infrastructure Layer
+ * Cloud-ready PostgreSQL implementation of InvoiceRepository
+ */
+
+import {
+  Invoice,
+  InvoiceBillTo,
+  InvoiceLineItem,
+  InvoicePayment,
+  InvoiceStatus
+} from '../../domain/invoice/Invoice';
+import { InvoiceRepository } from '../../domain/invoice/InvoiceRepository';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+import { BaseRepository, FilterParams, FilterOperator, SortingParams } from '../database/Repository';
+import { DatabaseConnection } from '../database/DatabaseConnection';
+
+interface InvoiceRow {
+  id: string;
+  invoice_number: string;
+  contract_id: string;
+  bill_to: string | InvoiceBillTo;
+  period_start: Date;
+  period_end: Date;
+  line_items: string | LineItemEntry[];
+  service_log_entry_ids: string | string[];
+  tax_rate: string | number;
+  payment_terms_days: number;
+  status: string;
+  issued_at?: Date | null;
+  due_at?: Date | null;
+  sent_to?: string | null;
+  last_sent_at?: Date | null;
+  payments: string | PaymentEntry[];
+  notes?: string | null;
+  voided_at?: Date | null;
+  voided_by?: string | null;
+  void_reason?: string | null;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+type LineItemEntry = Omit<InvoiceLineItem, 'serviceDate'> & { serviceDate?: string };
+type PaymentEntry = Omit<InvoicePayment, 'receivedAt' | 'recordedAt' | 'refundedAt'> & {
+  receivedAt: string;
+  recordedAt: string;
+  refundedAt?: string;
+};
+
+const MOST_RECENT_FIRST: SortingParams[] = [
+  { field: 'created_at', direction: 'DESC' }
+];
+
+const parseJson = <T>(value: string | T): T => (typeof value === 'string' ? JSON.parse(value) as T : value);
+const toDate = (value?: string): Date | undefined => (value ? new Date(value) : undefined);
+
+export class PostgreSQLInvoiceRepository implements InvoiceRepository {
+  private baseRepository: BaseRepository<Invoice, string>;
+
+  constructor(private connection: DatabaseConnection) {
+    this.baseRepository = new class extends BaseRepository<Invoice, string> {
+      constructor() {
+        super({
+          tableName: 'invoices',
+          primaryKey: 'id',
+          connection,
+          useTransactions: true
+        });
+      }
+
+      toDomainEntity(row: Record<string, unknown>): Invoice {
+        const invoiceRow = row as unknown as InvoiceRow;
+
+        return Invoice.reconstitute(UniqueEntityId.create(invoiceRow.id), {
+          invoiceNumber: invoiceRow.invoice_number,
+          contractId: invoiceRow.contract_id,
+          billTo: parseJson<InvoiceBillTo>(invoiceRow.bill_to),
+          periodStart: invoiceRow.period_start,
+          periodEnd: invoiceRow.period_end,
+          lineItems: parseJson<LineItemEntry[]>(invoiceRow.line_items || []).map(item => ({
+            ...item,
+            serviceDate: toDate(item.serviceDate)
+          })),
+          serviceLogEntryIds: parseJson<string[]>(invoiceRow.service_log_entry_ids || []),
+          // DECIMAL columns come back from pg as strings
+          taxRate: Number(invoiceRow.tax_rate),
+          paymentTermsDays: invoiceRow.payment_terms_days,
+          status: invoiceRow.status as InvoiceStatus,
+          issuedAt: invoiceRow.issued_at || undefined,
+          dueAt: invoiceRow.due_at || undefined,
+          sentTo: invoiceRow.sent_to || undefined,
+          lastSentAt: invoiceRow.last_sent_at || undefined,
+          payments: parseJson<PaymentEntry[]>(invoiceRow.payments || []).map(payment => ({
+            ...payment,
+            receivedAt: new Date(payment.receivedAt),
+            recordedAt: new Date(payment.recordedAt),
+            refundedAt: toDate(payment.refundedAt)
+          })),
+          notes: invoiceRow.notes || undefined,
+          voidedAt: invoiceRow.voided_at || undefined,
+          voidedBy: invoiceRow.voided_by || undefined,
+          voidReason: invoiceRow.void_reason || undefined,
+          createdBy: invoiceRow.created_by,
+          createdAt: invoiceRow.created_at,
+          updatedAt: invoiceRow.updated_at
+        });
+      }
+
+      toPersistenceModel(entity: Invoice): Record<string, unknown> {
+        return {
+          id: entity.id.toString(),
+          invoice_number: entity.invoiceNumber,
+          contract_id: entity.contractId,
+          bill_to: JSON.stringify(entity.billTo),
+          period_start: entity.periodStart,
+          period_end: entity.periodEnd,
+          line_items: JSON.stringify(entity.lineItems.map(item => ({
+            ...item,
+            serviceDate: item.serviceDate?.toISOString()
+          }))),
+          service_log_entry_ids: JSON.stringify(entity.serviceLogEntryIds),
+          tax_rate: entity.taxRate,
+          payment_terms_days: entity.paymentTermsDays,
+          status: entity.status,
+          issued_at: entity.issuedAt ?? null,
+          due_at: entity.dueAt ?? null,
+          sent_to: entity.sentTo ?? null,
+          last_sent_at: entity.lastSentAt ?? null,
+          payments: JSON.stringify(entity.payments.map(payment => ({
+            ...payment,
+            receivedAt: payment.receivedAt.toISOString(),
+            recordedAt: payment.recordedAt.toISOString(),
+            refundedAt: payment.refundedAt?.toISOString()
+          }))),
+          notes: entity.notes ?? null,
+          voided_at: entity.voidedAt ?? null,
+          voided_by: entity.voidedBy ?? null,
+          void_reason: entity.voidReason ?? null,
+          created_by: entity.createdBy,
+          created_at: entity.createdAt,
+          updated_at: entity.updatedAt
+        };
+      }
+
+      getEntityId(entity: Invoice): string {
+        return entity.id.toString();
+      }
+    };
+  }
+
+  // InvoiceRepository interface implementations
+  async save(invoice: Invoice): Promise<void> {
+    await this.baseRepository.save(invoice);
+  }
+
+  async findById(id: UniqueEntityId): Promise<Invoice | null> {
+    return this.baseRepository.findById(id.toString());
+  }
+
+  async findAll(): Promise<Invoice[]> {
+    return this.findMatching([]);
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    await this.baseRepository.delete(id.toString());
+  }
+
+  async findByInvoiceNumber(invoiceNumber: string): Promise<Invoice | null> {
+    const invoices = await this.findMatching([{
+      field: 'invoice_number',
+      operator: FilterOperator.EQUALS,
+      value: invoiceNumber.toUpperCase().trim()
+    }]);
+    return invoices[0] || null;
+  }
+
+  async findByStatus(status: InvoiceStatus): Promise<Invoice[]> {
+    return this.findMatching([{
+      field: 'status',
+      operator: FilterOperator.EQUALS,
+      value: status
+    }]);
+  }
+
+  async findByContractId(contractId: string): Promise<Invoice[]> {
+    return this.findMatching([{
+      field: 'contract_id',
+      operator: FilterOperator.EQUALS,
+      value: contractId.toUpperCase().trim()
+    }]);
+  }
+
+  private async findMatching(filters: FilterParams[]): Promise<Invoice[]> {
+    const result = await this.baseRepository.findMany(filters.length > 0 ? filters : undefined, MOST_RECENT_FIRST);
+    return result.items;
+  }
+
+  // Schema creation method for development/testing
+  async createSchema(): Promise<void> {
+    const sql = `
+      CREATE TABLE IF NOT EXISTS invoices (
+        id VARCHAR(255) PRIMARY KEY,
+        invoice_number VARCHAR(30) NOT NULL UNIQUE,
+        contract_id VARCHAR(50) NOT NULL,
+        bill_to JSONB NOT NULL,
+        period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+        period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+        line_items JSONB NOT NULL DEFAULT '[]',
+        service_log_entry_ids JSONB NOT NULL DEFAULT '[]',
+        tax_rate DECIMAL(5,2) NOT NULL DEFAULT 0,
+        payment_terms_days INTEGER NOT NULL,
+        status VARCHAR(20) NOT NULL,
+        issued_at TIMESTAMP WITH TIME ZONE,
+        due_at TIMESTAMP WITH TIME ZONE,
+        sent_to VARCHAR(255),
+        last_sent_at TIMESTAMP WITH TIME ZONE,
+        payments JSONB NOT NULL DEFAULT '[]',
+        notes TEXT,
+        voided_at TIMESTAMP WITH TIME ZONE,
+        voided_by VARCHAR(255),
+        void_reason TEXT,
+        created_by VARCHAR(255) NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        updated_at TIMESTAMP WITH TIME ZONE NOT NULL,
+
+        CONSTRAINT invoices_status_check CHECK (status IN ('draft', 'sent', 'partially_paid', 'paid', 'overdue', 'void'))
+      );
+
+      -- Tables created before invoices could be voided
+      ALTER TABLE invoices ADD COLUMN IF NOT EXISTS voided_at TIMESTAMP WITH TIME ZONE;
+      ALTER TABLE invoices ADD COLUMN IF NOT EXISTS voided_by VARCHAR(255);
+      ALTER TABLE invoices ADD COLUMN IF NOT EXISTS void_reason TEXT;
+      ALTER TABLE invoices DROP CONSTRAINT IF EXISTS invoices_status_check;
+      ALTER TABLE invoices ADD CONSTRAINT invoices_status_check
+        CHECK (status IN ('draft', 'sent', 'partially_paid', 'paid', 'overdue', 'void'));
+
+      -- Create indexes
+      CREATE INDEX IF NOT EXISTS idx_invoices_contract_id ON invoices(contract_id);
+      CREATE INDEX IF NOT EXISTS idx_invoices_status ON invoices(status);
+      CREATE INDEX IF NOT EXISTS idx_invoices_created_at ON invoices(created_at);
+    `;
+
+    await this.connection.execute(sql);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,259 @@
+/**
+ * PostgreSQL Login Security Store - Infrastructure Layer
+ * Cloud-ready PostgreSQL implementation of LoginSecurityStore, so every instance sees the same lockouts
+ */
+
+import {
+  LoginAnomalyFlag,
+  LoginAttemptRecord,
+  LoginLockout,
+  LoginLockoutScope,
+  LoginSecurityStore
+} from '../../auth/types';
+import { DatabaseConnection } from '../database/DatabaseConnection';
+
+interface AttemptRow {
+  id: string;
+  user_id?: string | null;
+  email: string;
+  ip_address: string;
+  user_agent: string;
+  device: string;
+  country?: string | null;
+  success: boolean;
+  failure_reason?: string | null;
+  flags: LoginAnomalyFlag[] | string;
+  attempted_at: Date;
+}
+
+interface LockoutRow {
+  scope: LoginLockoutScope;
+  subject: string;
+  failures: number;
+  window_started_at: Date;
+  strikes: number;
+  last_failure_at: Date;
+  locked_at?: Date | null;
+  locked_until?: Date | null;
+}
+
+const toAttempt = (row: AttemptRow): LoginAttemptRecord => ({
+  id: row.id,
+  userId: row.user_id || undefined,
+  email: row.email,
+  ip: row.ip_address,
+  userAgent: row.user_agent,
+  device: row.device,
+  country: row.country || undefined,
+  success: row.success,
+  failureReason: row.failure_reason || undefined,
+  flags: typeof row.flags === 'string' ? JSON.parse(row.flags) : row.flags,
+  attemptedAt: row.attempted_at
+});
+
+const toLockout = (row: LockoutRow): LoginLockout => ({
+  scope: row.scope,
+  subject: row.subject,
+  failures: row.failures,
+  windowStartedAt: row.window_started_at,
+  strikes: row.strikes,
+  lastFailureAt: row.last_failure_at,
+  lockedAt: row.locked_at || undefined,
+  lockedUntil: row.locked_until || undefined
+});
+
+export class PostgreSQLLoginSecurityStore implements LoginSecurityStore {
+  constructor(private connection: DatabaseConnection) {}
+
+  async recordAttempt(attempt: LoginAttemptRecord): Promise<void> {
+    await this.connection.execute(
+      `INSERT INTO login_attempts
+         (id, user_id, email, ip_address, user_agent, device, country, success, failure_reason, flags, attempted_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [
+        attempt.id,
+        attempt.userId ?? null,
+        attempt.email,
+        attempt.ip,
+        attempt.userAgent,
+        attempt.device,
+        attempt.country ?? null,
+        attempt.success,
+        attempt.failureReason ?? null,
+        JSON.stringify(attempt.flags),
+        attempt.attemptedAt
+      ]
+    );
+  }
+
+  async findSuccessfulAttempts(userId: string, since: Date): Promise<LoginAttemptRecord[]> {
+    const result = await this.connection.query<AttemptRow>(
+      `SELECT * FROM login_attempts
+       WHERE user_id = $1 AND success = TRUE AND attempted_at >= $2
+       ORDER BY attempted_at`,
+      [userId, since]
+    );
+    return result.rows.map(toAttempt);
+  }
+
+  async findRecentAttempts(limit: number, flaggedOnly: boolean = false): Promise<LoginAttemptRecord[]> {
+    const where = flaggedOnly ? "WHERE flags <> '[]'::jsonb" : '';
+    const result = await this.connection.query<AttemptRow>(
+      `SELECT * FROM login_attempts ${where} ORDER BY attempted_at DESC LIMIT $1`,
+      [limit]
+    );
+    return result.rows.map(toAttempt);
+  }
+
+  async deleteAttemptsBefore(before: Date): Promise<number> {
+    const result = await this.connection.execute('DELETE FROM login_attempts WHERE attempted_at < $1', [before]);
+    return result.affectedRows;
+  }
+
+  async findLockout(scope: LoginLockoutScope, subject: string): Promise<LoginLockout | null> {
+    const result = await this.connection.query<LockoutRow>(
+      'SELECT * FROM login_lockouts WHERE scope = $1 AND subject = $2',
+      [scope, subject]
+    );
+    return result.rows[0] ? toLockout(result.rows[0]) : null;
+  }
+
+  async saveLockout(lockout: LoginLockout): Promise<void> {
+    await this.connection.execute(
+      `INSERT INTO login_lockouts
+         (scope, subject, failures, window_started_at, strikes, last_failure_at, locked_at, locked_until)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (scope, subject) DO UPDATE SET
+         failures = EXCLUDED.failures,
+         window_started_at = EXCLUDED.window_started_at,
+         strikes = EXCLUDED.strikes,
+         last_failure_at = EXCLUDED.last_failure_at,
+         locked_at = EXCLUDED.locked_at,
+         locked_until = EXCLUDED.locked_until`,
+      [
+        lockout.scope,
+        lockout.subject,
+        lockout.failures,
+        lockout.windowStartedAt,
+        lockout.strikes,
+        lockout.lastFailureAt,
+        lockout.lockedAt ?? null,
+        lockout.lockedUntil ?? null
+      ]
+    );
+  }
+
+  async deleteLockout(scope: LoginLockoutScope, subject: string): Promise<boolean> {
+    const result = await this.connection.execute(
+      'DELETE FROM login_lockouts WHERE scope = $1 AND subject = $2',
+      [scope, subject]
+    );
+    return result.affectedRows > 0;
+  }
+
+  async findLockedOut(now: Date): Promise<LoginLockout[]> {
+    const result = await this.connection.query<LockoutRow>(
+      'SELECT * FROM login_lockouts WHERE locked_until > $1 ORDER BY locked_at DESC',
+      [now]
+    );
+    return result.rows.map(toLockout);
+  }
+
+  async deleteStaleLockouts(before: Date, now: Date): Promise<number> {
+    const result = await this.connection.execute(
+      `DELETE FROM login_lockouts
+       WHERE last_failure_at < $1 AND (locked_until IS NULL OR locked_until <= $2)`,
+      [before, now]
+    );
+    return result.affectedRows;
+  }
+
+  // Schema creation method for development/testing
+  async createSchema(): Promise<void> {
+    const sql = `
+      CREATE TABLE IF NOT EXISTS login_attempts (
+        id VARCHAR(255) PRIMARY KEY,
+        user_id VARCHAR(255),
+        email VARCHAR(255) NOT NULL,
+        ip_address VARCHAR(100) NOT NULL,
+        user_agent TEXT NOT NULL,
+        device VARCHAR(100) NOT NULL,
+        country VARCHAR(2),
+        success BOOLEAN NOT NULL,
+        failure_reason VARCHAR(255),
+        flags JSONB NOT NULL DEFAULT '[]',
+        attempted_at TIMESTAMP WITH TIME ZONE NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS login_lockouts (
+        scope VARCHAR(20) NOT NULL,
+        subject VARCHAR(255) NOT NULL,
+        failures INTEGER NOT NULL DEFAULT 0,
+        window_started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        strikes INTEGER NOT NULL DEFAULT 0,
+        last_failure_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        locked_at TIMESTAMP WITH TIME ZONE,
+        locked_until TIMESTAMP WITH TIME ZONE,
+        PRIMARY KEY (scope, subject)
+      );
+
+      -- Tables from before the login policy: attempts are converted in place, and account lockouts move
+      -- from the users table to login_lockouts; the old users columns are dropped once carried over, so this runs once
+      DO $$
+      BEGIN
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = 'login_attempts' AND column_name = 'device') THEN
+          ALTER TABLE login_attempts DROP CONSTRAINT IF EXISTS login_attempts_user_id_fkey;
+          ALTER TABLE login_attempts ALTER COLUMN id DROP DEFAULT;
+          UPDATE login_attempts SET user_agent = '' WHERE user_agent IS NULL;
+          UPDATE login_attempts SET attempted_at = NOW() WHERE attempted_at IS NULL;
+          ALTER TABLE login_attempts
+            ALTER COLUMN id TYPE VARCHAR(255) USING id::text,
+            ALTER COLUMN user_id TYPE VARCHAR(255) USING user_id::text,
+            ALTER COLUMN ip_address TYPE VARCHAR(100) USING COALESCE(host(ip_address), 'unknown'),
+            ALTER COLUMN ip_address SET NOT NULL,
+            ALTER COLUMN user_agent SET NOT NULL,
+            ALTER COLUMN attempted_at DROP DEFAULT,
+            ALTER COLUMN attempted_at SET NOT NULL,
+            ADD COLUMN device VARCHAR(100),
+            ADD COLUMN country VARCHAR(2),
+            ADD COLUMN flags JSONB NOT NULL DEFAULT '[]';
+          -- Same rules as describeDevice in src/lib/user-agent.ts, so old sign-ins still count as known devices
+          UPDATE login_attempts SET device =
+            (CASE WHEN user_agent ~ 'Edg/' THEN 'Edge'
+                  WHEN user_agent ~ 'Chrome/' THEN 'Chrome'
+                  WHEN user_agent ~ 'Firefox/' THEN 'Firefox'
+                  WHEN user_agent ~ 'Safari/' THEN 'Safari'
+                  ELSE 'Unknown browser' END)
+            || ' on ' ||
+            (CASE WHEN user_agent ~ 'iPhone|iPad' THEN 'iOS'
+                  WHEN user_agent ~ 'Android' THEN 'Android'
+                  WHEN user_agent ~ 'Windows' THEN 'Windows'
+                  WHEN user_agent ~ 'Mac OS X' THEN 'macOS'
+                  WHEN user_agent ~ 'Linux' THEN 'Linux'
+                  ELSE 'unknown device' END);
+          ALTER TABLE login_attempts ALTER COLUMN device SET NOT NULL;
+        END IF;
+
+        IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = 'users' AND column_name = 'locked_until') THEN
+          INSERT INTO login_lockouts (scope, subject, failures, window_started_at, strikes, last_failure_at, locked_at, locked_until)
+          SELECT 'account', LOWER(TRIM(email)), COALESCE(failed_login_attempts, 0), NOW(),
+                 CASE WHEN locked_until > NOW() THEN 1 ELSE 0 END, NOW(),
+                 CASE WHEN locked_until > NOW() THEN NOW() END,
+                 CASE WHEN locked_until > NOW() THEN locked_until END
+          FROM users
+          WHERE locked_until > NOW() OR COALESCE(failed_login_attempts, 0) > 0
+          ON CONFLICT (scope, subject) DO NOTHING;
+          ALTER TABLE users DROP COLUMN IF EXISTS failed_login_attempts, DROP COLUMN locked_until;
+        END IF;
+      END $$;
+
+      -- Create indexes
+      CREATE INDEX IF NOT EXISTS idx_login_attempts_email ON login_attempts(email);
+      CREATE INDEX IF NOT EXISTS idx_login_attempts_user_id ON login_attempts(user_id);
+      CREATE INDEX IF NOT EXISTS idx_login_attempts_attempted_at ON login_attempts(attempted_at);
+      CREATE INDEX IF NOT EXISTS idx_login_lockouts_locked_until ON login_lockouts(locked_until);
+    `;
+
+    await this.connection.execute(sql);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,414 @@
+/**
+ * PostgreSQL Project Repository - Infrastructure Layer
+ * Cloud-ready PostgreSQL implementation of ProjectRepository
+ */
+
+import { Project, ProjectStatusChange, ServiceClass } from '../../domain/project/Project';
+import { ProjectRepository, ProjectQueryFilters, ProjectQueryResult } from '../../domain/project/ProjectRepository';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+import { ServiceType } from '../../domain/shared/ServiceType';
+import { BaseRepository, FilterParams, FilterOperator, SortingParams, PaginationParams, QueryOptions } from '../database/Repository';
+import { DatabaseConnection } from '../database/DatabaseConnection';
+
+interface ProjectRow {
+  id: string;
+  title: string;
+  property_code?: string;
+  client: string;
+  service_class: string;
+  service_type: string;
+  current_status: number;
+  status_labels: string | string[];
+  show_status_bar: boolean;
+  admin_notes?: string;
+  address_street?: string;
+  address_city?: string;
+  address_state?: string;
+  address_zip_code?: string;
+  address_latitude?: string | number | null;
+  address_longitude?: string | number | null;
+  contact_name?: string;
+  contact_phone?: string;
+  contact_email?: string;
+  contract_id?: string;
+  created_at: Date;
+  updated_at: Date;
+  status_history?: string | StatusHistoryRow[];
+}
+
+interface StatusHistoryRow {
+  id: string;
+  project_id: string;
+  from_status: number | null;
+  to_status: number;
+  label: string;
+  notes?: string | null;
+  changed_by?: string | null;
+  changed_at: string | Date;
+}
+
+// Projects are always read together with their status history
+const PROJECT_SELECT = `
+  SELECT projects.*, COALESCE((
+    SELECT json_agg(h ORDER BY h.changed_at)
+    FROM project_status_history h
+    WHERE h.project_id = projects.id
+  ), '[]'::json) AS status_history
+  FROM projects`;
+
+export class PostgreSQLProjectRepository implements ProjectRepository {
+  private baseRepository: BaseRepository<Project, string>;
+
+  constructor(private connection: DatabaseConnection) {
+    this.baseRepository = new class extends BaseRepository<Project, string> {
+      constructor() {
+        super({
+          tableName: 'projects',
+          primaryKey: 'id',
+          connection,
+          useTransactions: true
+        });
+      }
+
+      async findById(id: string, options?: QueryOptions): Promise<Project | null> {
+        const sql = `${PROJECT_SELECT} WHERE projects.id = $1`;
+        const result = await this.executeQuery<Record<string, unknown>>(sql, [id], options);
+
+        if (result.rows.length === 0) {
+          return null;
+        }
+
+        return this.toDomainEntity(result.rows[0]);
+      }
+
+      protected buildSelectQuery(
+        filters?: FilterParams[],
+        sorting?: SortingParams[],
+        pagination?: PaginationParams
+      ): { sql: string; params: unknown[] } {
+        const query = super.buildSelectQuery(filters, sorting, pagination);
+        return {
+          ...query,
+          sql: query.sql.replace(`SELECT * FROM ${this.tableName}`, PROJECT_SELECT)
+        };
+      }
+
+      toDomainEntity(row: Record<string, unknown>): Project {
+        const projectRow = row as unknown as ProjectRow;
+
+        const statusLabels = typeof projectRow.status_labels === 'string'
+          ? JSON.parse(projectRow.status_labels) as string[]
+          : projectRow.status_labels;
+
+        const historyRows = typeof projectRow.status_history === 'string'
+          ? JSON.parse(projectRow.status_history) as StatusHistoryRow[]
+          : projectRow.status_history || [];
+
+        const statusHistory: ProjectStatusChange[] = historyRows.map(history => ({
+          id: history.id,
+          fromStatus: history.from_status,
+          toStatus: history.to_status,
+          label: history.label,
+          notes: history.notes || undefined,
+          changedBy: history.changed_by || undefined,
+          changedAt: new Date(history.changed_at)
+        }));
+
+        const address = projectRow.address_street
+          ? {
+              street: projectRow.address_street,
+              city: projectRow.address_city || '',
+              state: projectRow.address_state || '',
+              zipCode: projectRow.address_zip_code || '',
+              latitude: projectRow.address_latitude != null ? Number(projectRow.address_latitude) : undefined,
+              longitude: projectRow.address_longitude != null ? Number(projectRow.address_longitude) : undefined
+            }
+          : undefined;
+
+        const contact = projectRow.contact_name
+          ? {
+              name: projectRow.contact_name,
+              phone: projectRow.contact_phone || '',
+              email: projectRow.contact_email || ''
+            }
+          : undefined;
+
+        const props = {
+          title: projectRow.title,
+          propertyCode: projectRow.property_code || undefined,
+          client: projectRow.client,
+          serviceClass: projectRow.service_class as ServiceClass,
+          serviceType: ServiceType.create(projectRow.service_type),
+          currentStatus: Number(projectRow.current_status),
+          statusLabels,
+          showStatusBar: projectRow.show_status_bar,
+          adminNotes: projectRow.admin_notes || undefined,
+          address,
+          contact,
+          contractId: projectRow.contract_id || undefined,
+          statusHistory,
+          createdAt: projectRow.created_at,
+          updatedAt: projectRow.updated_at
+        };
+
+        return Project.reconstitute(UniqueEntityId.create(projectRow.id), props);
+      }
+
+      toPersistenceModel(entity: Project): Record<string, unknown> {
+        return {
+          id: entity.id.toString(),
+          title: entity.title,
+          property_code: entity.propertyCode ?? null,
+          client: entity.client,
+          service_class: entity.serviceClass,
+          service_type: entity.serviceType.key,
+          current_status: entity.currentStatus,
+          status_labels: JSON.stringify(Array.from(entity.statusLabels)),
+          show_status_bar: entity.showStatusBar,
+          admin_notes: entity.adminNotes ?? null,
+          address_street: entity.address?.street ?? null,
+          address_city: entity.address?.city ?? null,
+          address_state: entity.address?.state ?? null,
+          address_zip_code: entity.address?.zipCode ?? null,
+          address_latitude: entity.address?.latitude ?? null,
+          address_longitude: entity.address?.longitude ?? null,
+          contact_name: entity.contact?.name ?? null,
+          contact_phone: entity.contact?.phone ?? null,
+          contact_email: entity.contact?.email ?? null,
+          contract_id: entity.contractId ?? null,
+          created_at: entity.createdAt,
+          updated_at: entity.updatedAt
+        };
+      }
+
+      getEntityId(entity: Project): string {
+        return entity.id.toString();
+      }
+    };
+  }
+
+  // ProjectRepository interface implementations
+  // Joins the caller's transaction when given one, otherwise commits its own
+  async save(project: Project, options?: QueryOptions): Promise<void> {
+    const transaction = options?.transaction || await this.connection.beginTransaction();
+    const shouldCommit = !options?.transaction;
+
+    try {
+      await this.baseRepository.save(project, { transaction });
+
+      // Status history is append-only; previously persisted entries are skipped
+      for (const change of project.statusHistory) {
+        await transaction.execute(
+          `INSERT INTO project_status_history
+             (id, project_id, from_status, to_status, label, notes, changed_by, changed_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+           ON CONFLICT (id) DO NOTHING`,
+          [
+            change.id,
+            project.id.toString(),
+            change.fromStatus,
+            change.toStatus,
+            change.label,
+            change.notes ?? null,
+            change.changedBy ?? null,
+            change.changedAt
+          ]
+        );
+      }
+
+      if (shouldCommit) {
+        await transaction.commit();
+      }
+    } catch (error) {
+      if (shouldCommit) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+  }
+
+  async findById(id: UniqueEntityId): Promise<Project | null> {
+    return this.baseRepository.findById(id.toString());
+  }
+
+  async findAll(): Promise<Project[]> {
+    const sorting: SortingParams[] = [{
+      field: 'created_at',
+      direction: 'ASC'
+    }];
+
+    const result = await this.baseRepository.findMany(undefined, sorting);
+    return result.items;
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    // History rows are removed by ON DELETE CASCADE
+    await this.baseRepository.delete(id.toString());
+  }
+
+  async findByPropertyCode(propertyCode: string): Promise<Project[]> {
+    const filters: FilterParams[] = [{
+      field: 'property_code',
+      operator: FilterOperator.EQUALS,
+      value: propertyCode.toUpperCase().trim()
+    }];
+
+    const result = await this.baseRepository.findMany(filters);
+    return result.items;
+  }
+
+  async findByContractId(contractId: string): Promise<Project[]> {
+    const filters: FilterParams[] = [{
+      field: 'contract_id',
+      operator: FilterOperator.EQUALS,
+      value: contractId.toUpperCase().trim()
+    }];
+
+    const result = await this.baseRepository.findMany(filters);
+    return result.items;
+  }
+
+  async findByServiceType(serviceType: string): Promise<Project[]> {
+    const filters: FilterParams[] = [{
+      field: 'service_type',
+      operator: FilterOperator.EQUALS,
+      value: serviceType
+    }];
+
+    const result = await this.baseRepository.findMany(filters);
+    return result.items;
+  }
+
+  async findWithFilters(filters: ProjectQueryFilters): Promise<ProjectQueryResult> {
+    const filterParams: FilterParams[] = [];
+    const sortingParams: SortingParams[] = [];
+    const paginationParams: PaginationParams = {
+      page: Math.max(1, Math.floor((filters.offset || 0) / (filters.limit || 50)) + 1),
+      limit: filters.limit || 50
+    };
+
+    if (filters.serviceType) {
+      filterParams.push({
+        field: 'service_type',
+        operator: FilterOperator.EQUALS,
+        value: filters.serviceType
+      });
+    }
+
+    if (filters.serviceClass) {
+      filterParams.push({
+        field: 'service_class',
+        operator: FilterOperator.EQUALS,
+        value: filters.serviceClass,
+        logical: 'AND'
+      });
+    }
+
+    if (filters.client) {
+      filterParams.push({
+        field: 'client',
+        operator: FilterOperator.ILIKE,
+        value: `%${filters.client}%`,
+        logical: 'AND'
+      });
+    }
+
+    if (filters.propertyCode) {
+      filterParams.push({
+        field: 'property_code',
+        operator: FilterOperator.EQUALS,
+        value: filters.propertyCode.toUpperCase().trim(),
+        logical: 'AND'
+      });
+    }
+
+    if (filters.contractId) {
+      filterParams.push({
+        field: 'contract_id',
+        operator: FilterOperator.EQUALS,
+        value: filters.contractId.toUpperCase().trim(),
+        logical: 'AND'
+      });
+    }
+
+    const fieldMap: Record<string, string> = {
+      'createdAt': 'created_at',
+      'updatedAt': 'updated_at',
+      'title': 'title'
+    };
+
+    sortingParams.push({
+      field: fieldMap[filters.orderBy || 'createdAt'] || 'created_at',
+      direction: (filters.orderDirection || 'desc').toUpperCase() as 'ASC' | 'DESC'
+    });
+
+    const result = await this.baseRepository.findMany(
+      filterParams.length > 0 ? filterParams : undefined,
+      sortingParams,
+      paginationParams
+    );
+
+    return {
+      projects: result.items,
+      total: result.total,
+      hasMore: result.hasNext || false
+    };
+  }
+
+  // Schema creation method for development/testing
+  async createSchema(): Promise<void> {
+    const sql = `
+      CREATE TABLE IF NOT EXISTS projects (
+        id VARCHAR(255) PRIMARY KEY,
+        title VARCHAR(200) NOT NULL,
+        property_code VARCHAR(50),
+        client VARCHAR(255) NOT NULL,
+        service_class VARCHAR(20) NOT NULL,
+        service_type VARCHAR(100) NOT NULL,
+        current_status INTEGER NOT NULL DEFAULT 0,
+        status_labels JSONB NOT NULL,
+        show_status_bar BOOLEAN NOT NULL DEFAULT true,
+        admin_notes TEXT,
+        address_street VARCHAR(255),
+        address_city VARCHAR(100),
+        address_state VARCHAR(50),
+        address_zip_code VARCHAR(20),
+        address_latitude DECIMAL(9,6),
+        address_longitude DECIMAL(9,6),
+        contact_name VARCHAR(255),
+        contact_phone VARCHAR(50),
+        contact_email VARCHAR(255),
+        contract_id VARCHAR(50),
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        updated_at TIMESTAMP WITH TIME ZONE NOT NULL,
+
+        CONSTRAINT projects_service_class_check CHECK (service_class IN ('commercial', 'residential')),
+        CONSTRAINT projects_current_status_check CHECK (current_status >= 0)
+      );
+
+      -- Tables created before site coordinates were stored
+      ALTER TABLE projects ADD COLUMN IF NOT EXISTS address_latitude DECIMAL(9,6);
+      ALTER TABLE projects ADD COLUMN IF NOT EXISTS address_longitude DECIMAL(9,6);
+
+      CREATE TABLE IF NOT EXISTS project_status_history (
+        id VARCHAR(255) PRIMARY KEY,
+        project_id VARCHAR(255) NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        from_status INTEGER,
+        to_status INTEGER NOT NULL,
+        label VARCHAR(100) NOT NULL,
+        notes TEXT,
+        changed_by VARCHAR(255),
+        changed_at TIMESTAMP WITH TIME ZONE NOT NULL
+      );
+
+      -- Create indexes
+      CREATE INDEX IF NOT EXISTS idx_projects_service_type ON projects(service_type);
+      CREATE INDEX IF NOT EXISTS idx_projects_property_code ON projects(property_code);
+      CREATE INDEX IF NOT EXISTS idx_projects_contract_id ON projects(contract_id);
+      CREATE INDEX IF NOT EXISTS idx_projects_created_at ON projects(created_at);
+      CREATE INDEX IF NOT EXISTS idx_project_status_history_project_id ON project_status_history(project_id);
+    `;
+
+    await this.connection.execute(sql);
+  }
+}
\ No newline at end of file
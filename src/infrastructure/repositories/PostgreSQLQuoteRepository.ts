@@ -3,7 +3,9 @@
  * Cloud-ready PostgreSQL implementation of QuoteRepository
  */
 
-import { Quote, QuoteStatus, QuotePriority } from '../../domain/quote/Quote';
+import { Quote, QuoteStatus, QuotePriority, QuoteCustomerResponse, QuoteCustomerHistory, QuoteDeposit } from '../../domain/quote/Quote';
+import { normalizeQuoteStatus } from '../../domain/quote/QuoteStatus';
+import { Estimate, EstimateProps, EstimateRevision } from '../../domain/quote/Estimate';
 import { QuoteRepository, QuoteQueryFilters, QuoteQueryResult } from '../../domain/quote/QuoteRepository';
 import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
 import { Email } from '../../domain/shared/Email';
@@ -12,6 +14,21 @@ import { ServiceType } from '../../domain/shared/ServiceType';
 import { BaseRepository, FilterParams, FilterOperator, SortingParams, PaginationParams } from '../database/Repository';
 import { DatabaseConnection } from '../database/DatabaseConnection';
 
+interface EstimateRevisionRecord {
+  version: number;
+  estimate: EstimateProps;
+  createdAt: string;
+  createdBy?: string;
+  notes?: string;
+}
+
+type CustomerResponseRecord = Omit<QuoteCustomerResponse, 'respondedAt'> & { respondedAt: string };
+type DepositRecord = Omit<QuoteDeposit, 'requestedAt' | 'paidAt' | 'refundedAt'> & {
+  requestedAt: string;
+  paidAt?: string;
+  refundedAt?: string;
+};
+
 interface QuoteRow {
   id: string;
   customer_name: string;
@@ -19,17 +36,32 @@ interface QuoteRow {
   phone: string;
   service_type: string;
   description: string;
+  service_address?: string;
   status: string;
   priority: string;
   photo_attachments: string;
   submitted_at: Date;
   updated_at: Date;
   estimated_value?: number;
+  estimate_revisions?: string;
+  sent_revision?: number;
   quote_sent_at?: Date;
   expires_at?: Date;
+  contract_id?: string;
+  customer_response?: string;
+  assigned_to?: string;
+  first_responded_at?: Date;
+  first_response_due_at?: Date; // Derived from priority; stored so overdue quotes can be filtered in SQL
+  admin_notes?: string;
+  possible_duplicate_of?: string;
+  customer_history?: string;
+  deposit?: string;
+  updated_by?: string;
+  expiry_reminders_sent?: string;
   ip_address?: string;
   user_agent?: string;
   source: string;
+  service_class?: string;
   utm_source?: string;
   utm_medium?: string;
   utm_campaign?: string;
@@ -64,25 +96,70 @@ export class PostgreSQLQuoteRepository implements QuoteRepository {
           ipAddress: quoteRow.ip_address,
           userAgent: quoteRow.user_agent,
           source: quoteRow.source,
+          serviceClass: quoteRow.service_class || undefined,
           utmSource: quoteRow.utm_source,
           utmMedium: quoteRow.utm_medium,
           utmCampaign: quoteRow.utm_campaign
         };
 
+        const estimateRevisions: EstimateRevision[] = quoteRow.estimate_revisions
+          ? (JSON.parse(quoteRow.estimate_revisions) as EstimateRevisionRecord[]).map(record => ({
+              version: record.version,
+              estimate: Estimate.reconstitute(record.estimate),
+              createdAt: new Date(record.createdAt),
+              createdBy: record.createdBy,
+              notes: record.notes
+            }))
+          : [];
+
+        const customerResponseRecord = quoteRow.customer_response
+          ? JSON.parse(quoteRow.customer_response) as CustomerResponseRecord
+          : undefined;
+
+        const depositRecord = quoteRow.deposit
+          ? JSON.parse(quoteRow.deposit) as DepositRecord
+          : undefined;
+
         const props = {
           customerName: quoteRow.customer_name,
           email,
           phone,
           serviceType,
           description: quoteRow.description,
-          status: quoteRow.status as QuoteStatus,
+          serviceAddress: quoteRow.service_address || undefined,
+          status: normalizeQuoteStatus(quoteRow.status),
           priority: quoteRow.priority as QuotePriority,
           photoAttachments,
           submittedAt: quoteRow.submitted_at,
           updatedAt: quoteRow.updated_at,
           estimatedValue: quoteRow.estimated_value,
+          estimateRevisions,
+          sentRevision: quoteRow.sent_revision || undefined,
           quoteSentAt: quoteRow.quote_sent_at,
           expiresAt: quoteRow.expires_at,
+          contractId: quoteRow.contract_id || undefined,
+          customerResponse: customerResponseRecord
+            ? { ...customerResponseRecord, respondedAt: new Date(customerResponseRecord.respondedAt) }
+            : undefined,
+          assignedTo: quoteRow.assigned_to || undefined,
+          firstRespondedAt: quoteRow.first_responded_at || undefined,
+          adminNotes: quoteRow.admin_notes || undefined,
+          possibleDuplicateOf: quoteRow.possible_duplicate_of || undefined,
+          customerHistory: quoteRow.customer_history
+            ? JSON.parse(quoteRow.customer_history) as QuoteCustomerHistory
+            : undefined,
+          deposit: depositRecord
+            ? {
+                ...depositRecord,
+                requestedAt: new Date(depositRecord.requestedAt),
+                paidAt: depositRecord.paidAt ? new Date(depositRecord.paidAt) : undefined,
+                refundedAt: depositRecord.refundedAt ? new Date(depositRecord.refundedAt) : undefined
+              }
+            : undefined,
+          updatedBy: quoteRow.updated_by || undefined,
+          expiryRemindersSent: quoteRow.expiry_reminders_sent
+            ? JSON.parse(quoteRow.expiry_reminders_sent) as number[]
+            : [],
           metadata
         };
 
@@ -97,17 +174,50 @@ export class PostgreSQLQuoteRepository implements QuoteRepository {
           phone: entity.phone.value,
           service_type: entity.serviceType.key,
           description: entity.description,
+          service_address: entity.serviceAddress,
           status: entity.status,
           priority: entity.priority,
           photo_attachments: JSON.stringify(Array.from(entity.photoAttachments)),
           submitted_at: entity.submittedAt,
           updated_at: entity.updatedAt,
           estimated_value: entity.estimatedValue,
+          estimate_revisions: JSON.stringify(entity.estimateRevisions.map((revision): EstimateRevisionRecord => ({
+            version: revision.version,
+            estimate: revision.estimate.toJSON(),
+            createdAt: revision.createdAt.toISOString(),
+            createdBy: revision.createdBy,
+            notes: revision.notes
+          }))),
+          sent_revision: entity.sentEstimate?.version,
           quote_sent_at: entity.quoteSentAt,
           expires_at: entity.expiresAt,
+          contract_id: entity.contractId,
+          customer_response: entity.customerResponse
+            ? JSON.stringify({
+                ...entity.customerResponse,
+                respondedAt: entity.customerResponse.respondedAt.toISOString()
+              } as CustomerResponseRecord)
+            : null,
+          assigned_to: entity.assignedTo,
+          first_responded_at: entity.firstRespondedAt,
+          first_response_due_at: entity.firstResponseDueAt,
+          admin_notes: entity.adminNotes,
+          possible_duplicate_of: entity.possibleDuplicateOf,
+          customer_history: entity.customerHistory ? JSON.stringify(entity.customerHistory) : null,
+          deposit: entity.deposit
+            ? JSON.stringify({
+                ...entity.deposit,
+                requestedAt: entity.deposit.requestedAt.toISOString(),
+                paidAt: entity.deposit.paidAt?.toISOString(),
+                refundedAt: entity.deposit.refundedAt?.toISOString()
+              } as DepositRecord)
+            : null,
+          updated_by: entity.updatedBy,
+          expiry_reminders_sent: JSON.stringify(Array.from(entity.expiryRemindersSent)),
           ip_address: entity.metadata.ipAddress,
           user_agent: entity.metadata.userAgent,
           source: entity.metadata.source,
+          service_class: entity.metadata.serviceClass,
           utm_source: entity.metadata.utmSource,
           utm_medium: entity.metadata.utmMedium,
           utm_campaign: entity.metadata.utmCampaign
@@ -317,6 +427,30 @@ export class PostgreSQLQuoteRepository implements QuoteRepository {
       }
     }
 
+    if (filters.assignedTo) {
+      filterParams.push({
+        field: 'assigned_to',
+        operator: FilterOperator.EQUALS,
+        value: filters.assignedTo,
+        logical: 'AND'
+      });
+    }
+
+    if (filters.isOverdue) {
+      filterParams.push({
+        field: 'status',
+        operator: FilterOperator.EQUALS,
+        value: QuoteStatus.PENDING,
+        logical: 'AND'
+      });
+      filterParams.push({
+        field: 'first_response_due_at',
+        operator: FilterOperator.LESS_THAN,
+        value: new Date(),
+        logical: 'AND'
+      });
+    }
+
     // Build sorting parameters
     if (filters.orderBy && filters.orderDirection) {
       const fieldMap: Record<string, string> = {
@@ -354,17 +488,32 @@ export class PostgreSQLQuoteRepository implements QuoteRepository {
         phone VARCHAR(50) NOT NULL,
         service_type VARCHAR(100) NOT NULL,
         description TEXT NOT NULL,
+        service_address VARCHAR(500),
         status VARCHAR(50) NOT NULL DEFAULT 'pending',
         priority VARCHAR(50) NOT NULL DEFAULT 'medium',
         photo_attachments TEXT DEFAULT '[]',
         submitted_at TIMESTAMP WITH TIME ZONE NOT NULL,
         updated_at TIMESTAMP WITH TIME ZONE NOT NULL,
         estimated_value DECIMAL(10,2),
+        estimate_revisions TEXT DEFAULT '[]',
+        sent_revision INTEGER,
         quote_sent_at TIMESTAMP WITH TIME ZONE,
         expires_at TIMESTAMP WITH TIME ZONE,
+        contract_id VARCHAR(50),
+        customer_response TEXT,
+        assigned_to VARCHAR(255),
+        first_responded_at TIMESTAMP WITH TIME ZONE,
+        first_response_due_at TIMESTAMP WITH TIME ZONE,
+        admin_notes TEXT,
+        possible_duplicate_of VARCHAR(255),
+        customer_history TEXT,
+        deposit TEXT,
+        updated_by VARCHAR(255),
+        expiry_reminders_sent TEXT DEFAULT '[]',
         ip_address VARCHAR(45),
         user_agent TEXT,
         source VARCHAR(100) NOT NULL DEFAULT 'web',
+        service_class VARCHAR(50),
         utm_source VARCHAR(100),
         utm_medium VARCHAR(100),
         utm_campaign VARCHAR(100),
@@ -383,6 +532,8 @@ export class PostgreSQLQuoteRepository implements QuoteRepository {
       CREATE INDEX IF NOT EXISTS idx_quotes_submitted_at ON quotes(submitted_at);
       CREATE INDEX IF NOT EXISTS idx_quotes_expires_at ON quotes(expires_at);
       CREATE INDEX IF NOT EXISTS idx_quotes_customer_name ON quotes(customer_name);
+      CREATE INDEX IF NOT EXISTS idx_quotes_assigned_to ON quotes(assigned_to);
+      CREATE INDEX IF NOT EXISTS idx_quotes_first_response_due_at ON quotes(first_response_due_at);
     `;
 
     await this.connection.execute(sql);
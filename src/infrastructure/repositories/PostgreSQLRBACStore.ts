@@ -0,0 +1,282 @@
+/**
+ * PostgreSQL RBAC Store - Infrastructure Layer
+ * Cloud-ready PostgreSQL implementation of RBACStore
+ */
+
+import { Permission, PermissionCondition, RBACStore, Role, RoleAssignment } from '../../auth/types';
+import { DatabaseConnection } from '../database/DatabaseConnection';
+
+interface RoleRow {
+  id: string;
+  name: string;
+  description?: string | null;
+  is_system_role: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface PermissionRow {
+  id: string;
+  name: string;
+  resource: string;
+  action: string;
+  description?: string | null;
+  conditions: string | PermissionCondition[];
+}
+
+interface RolePermissionRow extends PermissionRow {
+  role_id: string;
+}
+
+interface AssignmentRow {
+  user_id: string;
+  role_id: string;
+  assigned_by: string;
+  assigned_at: Date;
+}
+
+const PERMISSION_COLUMNS = 'p.id, p.name, p.resource, p.action, p.description, p.conditions';
+
+const parseJson = <T>(value: string | T): T => (typeof value === 'string' ? JSON.parse(value) as T : value);
+
+const toPermission = (row: PermissionRow): Permission => ({
+  id: row.id,
+  name: row.name,
+  resource: row.resource,
+  action: row.action,
+  description: row.description || undefined,
+  conditions: parseJson<PermissionCondition[]>(row.conditions || [])
+});
+
+const toAssignment = (row: AssignmentRow): RoleAssignment => ({
+  userId: row.user_id,
+  roleId: row.role_id,
+  assignedBy: row.assigned_by,
+  assignedAt: row.assigned_at
+});
+
+export class PostgreSQLRBACStore implements RBACStore {
+  constructor(private connection: DatabaseConnection) {}
+
+  async listRoles(): Promise<Role[]> {
+    const result = await this.connection.query<RoleRow>('SELECT * FROM roles ORDER BY name');
+    return this.withPermissions(result.rows);
+  }
+
+  async findRoleById(id: string): Promise<Role | null> {
+    const result = await this.connection.query<RoleRow>('SELECT * FROM roles WHERE id = $1', [id]);
+    const [role] = await this.withPermissions(result.rows);
+    return role || null;
+  }
+
+  async findRoleByName(name: string): Promise<Role | null> {
+    const result = await this.connection.query<RoleRow>(
+      'SELECT * FROM roles WHERE LOWER(name) = $1',
+      [name.trim().toLowerCase()]
+    );
+    const [role] = await this.withPermissions(result.rows);
+    return role || null;
+  }
+
+  async saveRole(role: Role): Promise<void> {
+    const transaction = await this.connection.beginTransaction();
+
+    try {
+      await transaction.execute(
+        `INSERT INTO roles (id, name, description, is_system_role, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (id) DO UPDATE SET
+           name = EXCLUDED.name,
+           description = EXCLUDED.description,
+           is_system_role = EXCLUDED.is_system_role,
+           updated_at = EXCLUDED.updated_at`,
+        [role.id, role.name, role.description ?? null, role.isSystemRole, role.createdAt, role.updatedAt]
+      );
+
+      // The role's permission set is replaced as a whole
+      await transaction.execute('DELETE FROM role_permissions WHERE role_id = $1', [role.id]);
+      for (const permission of role.permissions) {
+        await transaction.execute(
+          'INSERT INTO role_permissions (role_id, permission_id) VALUES ($1, $2)',
+          [role.id, permission.id]
+        );
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  // Permissions and assignments go with the role through ON DELETE CASCADE
+  async deleteRole(id: string): Promise<void> {
+    await this.connection.execute('DELETE FROM roles WHERE id = $1', [id]);
+  }
+
+  async listPermissions(): Promise<Permission[]> {
+    const result = await this.connection.query<PermissionRow>(
+      `SELECT ${PERMISSION_COLUMNS} FROM permissions p ORDER BY p.name`
+    );
+    return result.rows.map(toPermission);
+  }
+
+  async savePermission(permission: Permission): Promise<void> {
+    await this.connection.execute(
+      `INSERT INTO permissions (id, name, resource, action, description, conditions)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (id) DO UPDATE SET
+         name = EXCLUDED.name,
+         resource = EXCLUDED.resource,
+         action = EXCLUDED.action,
+         description = EXCLUDED.description,
+         conditions = EXCLUDED.conditions`,
+      [
+        permission.id,
+        permission.name,
+        permission.resource,
+        permission.action,
+        permission.description ?? null,
+        JSON.stringify(permission.conditions || [])
+      ]
+    );
+  }
+
+  async listAssignments(): Promise<RoleAssignment[]> {
+    const result = await this.connection.query<AssignmentRow>('SELECT * FROM user_roles ORDER BY assigned_at');
+    return result.rows.map(toAssignment);
+  }
+
+  async findAssignmentsByUser(userId: string): Promise<RoleAssignment[]> {
+    const result = await this.connection.query<AssignmentRow>(
+      'SELECT * FROM user_roles WHERE user_id = $1 ORDER BY assigned_at',
+      [userId]
+    );
+    return result.rows.map(toAssignment);
+  }
+
+  async saveAssignment(assignment: RoleAssignment): Promise<void> {
+    await this.connection.execute(
+      `INSERT INTO user_roles (user_id, role_id, assigned_by, assigned_at)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (user_id, role_id) DO UPDATE SET
+         assigned_by = EXCLUDED.assigned_by,
+         assigned_at = EXCLUDED.assigned_at`,
+      [assignment.userId, assignment.roleId, assignment.assignedBy, assignment.assignedAt]
+    );
+  }
+
+  async deleteAssignment(userId: string, roleId: string): Promise<void> {
+    await this.connection.execute('DELETE FROM user_roles WHERE user_id = $1 AND role_id = $2', [userId, roleId]);
+  }
+
+  async findUserPermissions(userId: string): Promise<Permission[]> {
+    const result = await this.connection.query<PermissionRow>(
+      `SELECT ${PERMISSION_COLUMNS}
+       FROM user_permissions up JOIN permissions p ON p.id = up.permission_id
+       WHERE up.user_id = $1
+       ORDER BY p.name`,
+      [userId]
+    );
+    return result.rows.map(toPermission);
+  }
+
+  async saveUserPermissions(userId: string, permissions: Permission[]): Promise<void> {
+    const transaction = await this.connection.beginTransaction();
+
+    try {
+      await transaction.execute('DELETE FROM user_permissions WHERE user_id = $1', [userId]);
+      for (const permission of permissions) {
+        await transaction.execute(
+          'INSERT INTO user_permissions (user_id, permission_id) VALUES ($1, $2)',
+          [userId, permission.id]
+        );
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  // One query for the permissions of every role in the page, rather than one per role
+  private async withPermissions(rows: RoleRow[]): Promise<Role[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const result = await this.connection.query<RolePermissionRow>(
+      `SELECT rp.role_id, ${PERMISSION_COLUMNS}
+       FROM role_permissions rp JOIN permissions p ON p.id = rp.permission_id
+       WHERE rp.role_id = ANY($1)
+       ORDER BY p.name`,
+      [rows.map(row => row.id)]
+    );
+
+    const byRole = new Map<string, Permission[]>();
+    for (const row of result.rows) {
+      byRole.set(row.role_id, [...(byRole.get(row.role_id) || []), toPermission(row)]);
+    }
+
+    return rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      description: row.description || undefined,
+      permissions: byRole.get(row.id) || [],
+      isSystemRole: row.is_system_role,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }));
+  }
+
+  // Schema creation method for development/testing
+  async createSchema(): Promise<void> {
+    const sql = `
+      CREATE TABLE IF NOT EXISTS permissions (
+        id VARCHAR(255) PRIMARY KEY,
+        name VARCHAR(100) NOT NULL UNIQUE,
+        resource VARCHAR(100) NOT NULL,
+        action VARCHAR(100) NOT NULL,
+        description TEXT,
+        conditions JSONB NOT NULL DEFAULT '[]'
+      );
+
+      CREATE TABLE IF NOT EXISTS roles (
+        id VARCHAR(255) PRIMARY KEY,
+        name VARCHAR(50) NOT NULL,
+        description TEXT,
+        is_system_role BOOLEAN NOT NULL DEFAULT FALSE,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        updated_at TIMESTAMP WITH TIME ZONE NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS role_permissions (
+        role_id VARCHAR(255) NOT NULL REFERENCES roles(id) ON DELETE CASCADE,
+        permission_id VARCHAR(255) NOT NULL REFERENCES permissions(id) ON DELETE CASCADE,
+        PRIMARY KEY (role_id, permission_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS user_roles (
+        user_id VARCHAR(255) NOT NULL,
+        role_id VARCHAR(255) NOT NULL REFERENCES roles(id) ON DELETE CASCADE,
+        assigned_by VARCHAR(255) NOT NULL,
+        assigned_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        PRIMARY KEY (user_id, role_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS user_permissions (
+        user_id VARCHAR(255) NOT NULL,
+        permission_id VARCHAR(255) NOT NULL REFERENCES permissions(id) ON DELETE CASCADE,
+        PRIMARY KEY (user_id, permission_id)
+      );
+
+      -- Create indexes
+      -- Role names are unique regardless of case
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_roles_name ON roles(LOWER(name));
+      CREATE INDEX IF NOT EXISTS idx_user_roles_role_id ON user_roles(role_id);
+    `;
+
+    await this.connection.execute(sql);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,223 @@
+/**
+ * PostgreSQL Service Log Repository - Infrastructure Layer
+ * Cloud-ready PostgreSQL implementation of ServiceLogRepository
+ */
+
+import { ServiceLogEntry, ServiceLogPhoto, ServiceLogReview, ServiceLogStatus } from '../../domain/servicelog/ServiceLogEntry';
+import { ServiceLogRepository } from '../../domain/servicelog/ServiceLogRepository';
+import { ServiceLogCode, ServiceLogCrewLine } from '../../domain/servicelog/ServiceLogCodes';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+import { BaseRepository, FilterParams, FilterOperator, SortingParams } from '../database/Repository';
+import { DatabaseConnection } from '../database/DatabaseConnection';
+
+interface ServiceLogRow {
+  id: string;
+  service_date: Date;
+  property_code: string;
+  description: string;
+  location_description: string;
+  service_code: string;
+  time_in: string;
+  time_out: string;
+  crew: string | ServiceLogCrewLine[];
+  contract_rate: string | number;
+  ice_melt_bags: string | number;
+  deicer_gallons: string | number;
+  ice_slicer_tons: string | number;
+  status: string;
+  submitted_by: string;
+  reviews: string | ReviewEntry[];
+  photos: string | PhotoEntry[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+type ReviewEntry = Omit<ServiceLogReview, 'reviewedAt'> & { reviewedAt: string };
+type PhotoEntry = Omit<ServiceLogPhoto, 'uploadedAt'> & { uploadedAt: string };
+
+const MOST_RECENT_FIRST: SortingParams[] = [
+  { field: 'service_date', direction: 'DESC' },
+  { field: 'created_at', direction: 'DESC' }
+];
+
+export class PostgreSQLServiceLogRepository implements ServiceLogRepository {
+  private baseRepository: BaseRepository<ServiceLogEntry, string>;
+
+  constructor(private connection: DatabaseConnection) {
+    this.baseRepository = new class extends BaseRepository<ServiceLogEntry, string> {
+      constructor() {
+        super({
+          tableName: 'service_log_entries',
+          primaryKey: 'id',
+          connection,
+          useTransactions: true
+        });
+      }
+
+      toDomainEntity(row: Record<string, unknown>): ServiceLogEntry {
+        const logRow = row as unknown as ServiceLogRow;
+
+        const crew = typeof logRow.crew === 'string'
+          ? JSON.parse(logRow.crew) as ServiceLogCrewLine[]
+          : logRow.crew || [];
+
+        const reviews = typeof logRow.reviews === 'string'
+          ? JSON.parse(logRow.reviews) as ReviewEntry[]
+          : logRow.reviews || [];
+
+        const photos = typeof logRow.photos === 'string'
+          ? JSON.parse(logRow.photos) as PhotoEntry[]
+          : logRow.photos || [];
+
+        return ServiceLogEntry.reconstitute(UniqueEntityId.create(logRow.id), {
+          serviceDate: logRow.service_date,
+          propertyCode: logRow.property_code,
+          description: logRow.description,
+          locationDescription: logRow.location_description,
+          serviceCode: logRow.service_code as ServiceLogCode,
+          timeIn: logRow.time_in,
+          timeOut: logRow.time_out,
+          crew,
+          contractRate: Number(logRow.contract_rate),
+          materials: {
+            iceMeltBags: Number(logRow.ice_melt_bags),
+            deicerGallons: Number(logRow.deicer_gallons),
+            iceSlicerTons: Number(logRow.ice_slicer_tons)
+          },
+          status: logRow.status as ServiceLogStatus,
+          submittedBy: logRow.submitted_by,
+          reviews: reviews.map(review => ({
+            ...review,
+            reviewedAt: new Date(review.reviewedAt)
+          })),
+          photos: photos.map(photo => ({
+            ...photo,
+            uploadedAt: new Date(photo.uploadedAt)
+          })),
+          createdAt: logRow.created_at,
+          updatedAt: logRow.updated_at
+        });
+      }
+
+      toPersistenceModel(entity: ServiceLogEntry): Record<string, unknown> {
+        const materials = entity.materials;
+
+        return {
+          id: entity.id.toString(),
+          service_date: entity.serviceDate,
+          property_code: entity.propertyCode,
+          description: entity.description,
+          location_description: entity.locationDescription,
+          service_code: entity.serviceCode,
+          time_in: entity.timeIn,
+          time_out: entity.timeOut,
+          crew: JSON.stringify(entity.crew),
+          contract_rate: entity.contractRate,
+          ice_melt_bags: materials.iceMeltBags,
+          deicer_gallons: materials.deicerGallons,
+          ice_slicer_tons: materials.iceSlicerTons,
+          status: entity.status,
+          submitted_by: entity.submittedBy,
+          reviews: JSON.stringify(entity.reviews.map(review => ({
+            ...review,
+            reviewedAt: review.reviewedAt.toISOString()
+          }))),
+          photos: JSON.stringify(entity.photos.map(photo => ({
+            ...photo,
+            uploadedAt: photo.uploadedAt.toISOString()
+          }))),
+          created_at: entity.createdAt,
+          updated_at: entity.updatedAt
+        };
+      }
+
+      getEntityId(entity: ServiceLogEntry): string {
+        return entity.id.toString();
+      }
+    };
+  }
+
+  // ServiceLogRepository interface implementations
+  async save(entry: ServiceLogEntry): Promise<void> {
+    await this.baseRepository.save(entry);
+  }
+
+  async findById(id: UniqueEntityId): Promise<ServiceLogEntry | null> {
+    return this.baseRepository.findById(id.toString());
+  }
+
+  async findAll(): Promise<ServiceLogEntry[]> {
+    return this.findMatching([]);
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    await this.baseRepository.delete(id.toString());
+  }
+
+  async findByStatus(status: ServiceLogStatus): Promise<ServiceLogEntry[]> {
+    return this.findMatching([{
+      field: 'status',
+      operator: FilterOperator.EQUALS,
+      value: status
+    }]);
+  }
+
+  async findBySubmitter(employee: string): Promise<ServiceLogEntry[]> {
+    return this.findMatching([{
+      field: 'LOWER(submitted_by)',
+      operator: FilterOperator.EQUALS,
+      value: employee.toLowerCase().trim()
+    }]);
+  }
+
+  async findByPropertyCode(propertyCode: string): Promise<ServiceLogEntry[]> {
+    return this.findMatching([{
+      field: 'property_code',
+      operator: FilterOperator.EQUALS,
+      value: propertyCode.toUpperCase().trim()
+    }]);
+  }
+
+  private async findMatching(filters: FilterParams[]): Promise<ServiceLogEntry[]> {
+    const result = await this.baseRepository.findMany(filters.length > 0 ? filters : undefined, MOST_RECENT_FIRST);
+    return result.items;
+  }
+
+  // Schema creation method for development/testing
+  async createSchema(): Promise<void> {
+    const sql = `
+      CREATE TABLE IF NOT EXISTS service_log_entries (
+        id VARCHAR(255) PRIMARY KEY,
+        service_date TIMESTAMP WITH TIME ZONE NOT NULL,
+        property_code VARCHAR(50) NOT NULL,
+        description VARCHAR(255) NOT NULL,
+        location_description TEXT NOT NULL,
+        service_code CHAR(1) NOT NULL,
+        time_in VARCHAR(5) NOT NULL,
+        time_out VARCHAR(5) NOT NULL,
+        crew JSONB NOT NULL DEFAULT '[]',
+        contract_rate DECIMAL(10,2) NOT NULL,
+        ice_melt_bags DECIMAL(8,2) NOT NULL DEFAULT 0,
+        deicer_gallons DECIMAL(8,2) NOT NULL DEFAULT 0,
+        ice_slicer_tons DECIMAL(8,2) NOT NULL DEFAULT 0,
+        status VARCHAR(20) NOT NULL,
+        submitted_by VARCHAR(255) NOT NULL,
+        reviews JSONB NOT NULL DEFAULT '[]',
+        photos JSONB NOT NULL DEFAULT '[]',
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        updated_at TIMESTAMP WITH TIME ZONE NOT NULL,
+
+        CONSTRAINT service_log_entries_status_check CHECK (status IN ('submitted', 'approved', 'rejected')),
+        CONSTRAINT service_log_entries_code_check CHECK (service_code BETWEEN 'A' AND 'U')
+      );
+
+      -- Create indexes
+      CREATE INDEX IF NOT EXISTS idx_service_log_entries_status ON service_log_entries(status);
+      CREATE INDEX IF NOT EXISTS idx_service_log_entries_submitted_by ON service_log_entries(LOWER(submitted_by));
+      CREATE INDEX IF NOT EXISTS idx_service_log_entries_property_code ON service_log_entries(property_code);
+      CREATE INDEX IF NOT EXISTS idx_service_log_entries_service_date ON service_log_entries(service_date);
+    `;
+
+    await this.connection.execute(sql);
+  }
+}
\ No newline at end of file
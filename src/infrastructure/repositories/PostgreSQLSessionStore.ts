@@ -0,0 +1,204 @@
+/**
+ * PostgreSQL Session Store - Infrastructure Layer
+ * Cloud-ready PostgreSQL implementation of SessionStore, shared by every instance
+ */
+
+import { SessionStore, StoredSession } from '../../auth/types';
+import { DatabaseConnection } from '../database/DatabaseConnection';
+
+interface SessionRow {
+  id: string;
+  user_id: string;
+  family_id: string;
+  refresh_token_hash: string;
+  remember_me: boolean;
+  ip: string;
+  user_agent: string;
+  signed_in_at: Date;
+  created_at: Date;
+  last_active_at: Date;
+  expires_at: Date;
+  refresh_expires_at: Date;
+  rotated_at?: Date | null;
+  revoked_at?: Date | null;
+  revoked_reason?: string | null;
+}
+
+const toSession = (row: SessionRow): StoredSession => ({
+  id: row.id,
+  userId: row.user_id,
+  familyId: row.family_id,
+  refreshTokenHash: row.refresh_token_hash,
+  rememberMe: row.remember_me,
+  ip: row.ip,
+  userAgent: row.user_agent,
+  signedInAt: row.signed_in_at,
+  createdAt: row.created_at,
+  lastActiveAt: row.last_active_at,
+  expiresAt: row.expires_at,
+  refreshExpiresAt: row.refresh_expires_at,
+  rotatedAt: row.rotated_at || undefined,
+  revokedAt: row.revoked_at || undefined,
+  revokedReason: row.revoked_reason || undefined
+});
+
+export class PostgreSQLSessionStore implements SessionStore {
+  constructor(private connection: DatabaseConnection) {}
+
+  async save(session: StoredSession): Promise<void> {
+    await this.connection.execute(
+      `INSERT INTO user_sessions
+         (id, user_id, family_id, refresh_token_hash, remember_me, ip, user_agent, signed_in_at, created_at,
+          last_active_at, expires_at, refresh_expires_at, rotated_at, revoked_at, revoked_reason)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+       ON CONFLICT (id) DO UPDATE SET
+         last_active_at = EXCLUDED.last_active_at,
+         expires_at = EXCLUDED.expires_at,
+         refresh_expires_at = EXCLUDED.refresh_expires_at`,
+      [
+        session.id,
+        session.userId,
+        session.familyId,
+        session.refreshTokenHash,
+        session.rememberMe,
+        session.ip,
+        session.userAgent,
+        session.signedInAt,
+        session.createdAt,
+        session.lastActiveAt,
+        session.expiresAt,
+        session.refreshExpiresAt,
+        session.rotatedAt ?? null,
+        session.revokedAt ?? null,
+        session.revokedReason ?? null
+      ]
+    );
+  }
+
+  async findById(id: string): Promise<StoredSession | null> {
+    const result = await this.connection.query<SessionRow>('SELECT * FROM user_sessions WHERE id = $1', [id]);
+    return result.rows[0] ? toSession(result.rows[0]) : null;
+  }
+
+  async findByRefreshTokenHash(refreshTokenHash: string): Promise<StoredSession | null> {
+    const result = await this.connection.query<SessionRow>(
+      'SELECT * FROM user_sessions WHERE refresh_token_hash = $1',
+      [refreshTokenHash]
+    );
+    return result.rows[0] ? toSession(result.rows[0]) : null;
+  }
+
+  async findActive(userId?: string): Promise<StoredSession[]> {
+    const params: unknown[] = [];
+    let sql = `SELECT * FROM user_sessions
+               WHERE rotated_at IS NULL AND revoked_at IS NULL AND refresh_expires_at > NOW()`;
+    if (userId) {
+      params.push(userId);
+      sql += ' AND user_id = $1';
+    }
+
+    const result = await this.connection.query<SessionRow>(`${sql} ORDER BY last_active_at DESC`, params);
+    return result.rows.map(toSession);
+  }
+
+  // Conditional, so two instances refreshing the same token cannot both win
+  async markRotated(id: string, rotatedAt: Date): Promise<boolean> {
+    const result = await this.connection.execute(
+      'UPDATE user_sessions SET rotated_at = $2 WHERE id = $1 AND rotated_at IS NULL AND revoked_at IS NULL',
+      [id, rotatedAt]
+    );
+    return result.affectedRows === 1;
+  }
+
+  async revokeFamily(familyId: string, reason: string): Promise<string[]> {
+    const result = await this.connection.query<{ id: string }>(
+      `UPDATE user_sessions SET revoked_at = NOW(), revoked_reason = $2
+       WHERE family_id = $1 AND revoked_at IS NULL
+       RETURNING id`,
+      [familyId, reason]
+    );
+    return result.rows.map(row => row.id);
+  }
+
+  async revokeByUser(userId: string, reason: string, exceptFamilyId?: string): Promise<string[]> {
+    const result = await this.connection.query<{ id: string }>(
+      `UPDATE user_sessions SET revoked_at = NOW(), revoked_reason = $2
+       WHERE user_id = $1 AND revoked_at IS NULL AND ($3::VARCHAR IS NULL OR family_id <> $3)
+       RETURNING id`,
+      [userId, reason, exceptFamilyId ?? null]
+    );
+    return result.rows.map(row => row.id);
+  }
+
+  async deleteExpired(now: Date): Promise<number> {
+    const result = await this.connection.execute('DELETE FROM user_sessions WHERE refresh_expires_at <= $1', [now]);
+    return result.affectedRows;
+  }
+
+  // Schema creation method for development/testing
+  async createSchema(): Promise<void> {
+    const sql = `
+      CREATE TABLE IF NOT EXISTS user_sessions (
+        id VARCHAR(255) PRIMARY KEY,
+        user_id VARCHAR(255) NOT NULL,
+        family_id VARCHAR(255) NOT NULL,
+        refresh_token_hash VARCHAR(64) NOT NULL UNIQUE,
+        remember_me BOOLEAN NOT NULL DEFAULT FALSE,
+        ip VARCHAR(100) NOT NULL,
+        user_agent TEXT NOT NULL,
+        signed_in_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        last_active_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        refresh_expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        rotated_at TIMESTAMP WITH TIME ZONE,
+        revoked_at TIMESTAMP WITH TIME ZONE,
+        revoked_reason VARCHAR(50)
+      );
+
+      -- Tables from before refresh-token sessions: their sessions have no refresh token and cannot be
+      -- resumed, so they are cleared and the table is converted in place; everyone signs in again once
+      DO $$
+      BEGIN
+        IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = 'user_sessions' AND column_name = 'session_id') THEN
+          DELETE FROM user_sessions;
+          DROP INDEX IF EXISTS idx_user_sessions_session_id;
+          DROP INDEX IF EXISTS idx_user_sessions_active;
+          ALTER TABLE user_sessions DROP CONSTRAINT IF EXISTS user_sessions_user_id_fkey;
+          ALTER TABLE user_sessions RENAME COLUMN ip_address TO ip;
+          ALTER TABLE user_sessions RENAME COLUMN last_activity TO last_active_at;
+          ALTER TABLE user_sessions ALTER COLUMN id DROP DEFAULT;
+          ALTER TABLE user_sessions
+            DROP COLUMN session_id,
+            DROP COLUMN is_active,
+            ALTER COLUMN id TYPE VARCHAR(255) USING id::text,
+            ALTER COLUMN user_id TYPE VARCHAR(255) USING user_id::text,
+            ALTER COLUMN ip TYPE VARCHAR(100) USING host(ip),
+            ALTER COLUMN ip SET NOT NULL,
+            ALTER COLUMN user_agent SET NOT NULL,
+            ALTER COLUMN created_at DROP DEFAULT,
+            ALTER COLUMN created_at SET NOT NULL,
+            ALTER COLUMN last_active_at DROP DEFAULT,
+            ALTER COLUMN last_active_at SET NOT NULL,
+            ALTER COLUMN expires_at DROP DEFAULT,
+            ALTER COLUMN expires_at SET NOT NULL,
+            ADD COLUMN family_id VARCHAR(255) NOT NULL,
+            ADD COLUMN refresh_token_hash VARCHAR(64) NOT NULL UNIQUE,
+            ADD COLUMN remember_me BOOLEAN NOT NULL DEFAULT FALSE,
+            ADD COLUMN signed_in_at TIMESTAMP WITH TIME ZONE NOT NULL,
+            ADD COLUMN refresh_expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+            ADD COLUMN rotated_at TIMESTAMP WITH TIME ZONE,
+            ADD COLUMN revoked_at TIMESTAMP WITH TIME ZONE,
+            ADD COLUMN revoked_reason VARCHAR(50);
+        END IF;
+      END $$;
+
+      -- Create indexes
+      CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id);
+      CREATE INDEX IF NOT EXISTS idx_user_sessions_family_id ON user_sessions(family_id);
+      CREATE INDEX IF NOT EXISTS idx_user_sessions_refresh_expires_at ON user_sessions(refresh_expires_at);
+    `;
+
+    await this.connection.execute(sql);
+  }
+}
\ No newline at end of file
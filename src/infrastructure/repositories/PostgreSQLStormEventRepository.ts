@@ -0,0 +1,148 @@
+/**
+ * PostgreSQL Storm Event Repository - Infrastructure Layer
+ * Cloud-ready PostgreSQL implementation of StormEventRepository
+ */
+
+import { StormEvent, StormEventStatus } from '../../domain/storm/StormEvent';
+import { StormEventRepository } from '../../domain/storm/StormEventRepository';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+import { BaseRepository, FilterOperator, SortingParams } from '../database/Repository';
+import { DatabaseConnection } from '../database/DatabaseConnection';
+
+interface StormEventRow {
+  id: string;
+  name: string;
+  starts_at: Date;
+  ends_at?: Date;
+  expected_accumulation_inches: string | number;
+  trigger_threshold_inches: string | number;
+  status: string;
+  work_order_ids: string | string[];
+  created_by: string;
+  declared_by?: string;
+  declared_at?: Date;
+  closed_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const NEWEST_FIRST: SortingParams[] = [{ field: 'starts_at', direction: 'DESC' }];
+
+export class PostgreSQLStormEventRepository implements StormEventRepository {
+  private baseRepository: BaseRepository<StormEvent, string>;
+
+  constructor(private connection: DatabaseConnection) {
+    this.baseRepository = new class extends BaseRepository<StormEvent, string> {
+      constructor() {
+        super({
+          tableName: 'storm_events',
+          primaryKey: 'id',
+          connection,
+          useTransactions: true
+        });
+      }
+
+      toDomainEntity(row: Record<string, unknown>): StormEvent {
+        const stormRow = row as unknown as StormEventRow;
+
+        return StormEvent.reconstitute(UniqueEntityId.create(stormRow.id), {
+          name: stormRow.name,
+          startsAt: stormRow.starts_at,
+          endsAt: stormRow.ends_at || undefined,
+          expectedAccumulationInches: Number(stormRow.expected_accumulation_inches),
+          triggerThresholdInches: Number(stormRow.trigger_threshold_inches),
+          status: stormRow.status as StormEventStatus,
+          workOrderIds: typeof stormRow.work_order_ids === 'string'
+            ? JSON.parse(stormRow.work_order_ids) as string[]
+            : stormRow.work_order_ids || [],
+          createdBy: stormRow.created_by,
+          declaredBy: stormRow.declared_by || undefined,
+          declaredAt: stormRow.declared_at || undefined,
+          closedAt: stormRow.closed_at || undefined,
+          createdAt: stormRow.created_at,
+          updatedAt: stormRow.updated_at
+        });
+      }
+
+      toPersistenceModel(entity: StormEvent): Record<string, unknown> {
+        return {
+          id: entity.id.toString(),
+          name: entity.name,
+          starts_at: entity.startsAt,
+          ends_at: entity.endsAt ?? null,
+          expected_accumulation_inches: entity.expectedAccumulationInches,
+          trigger_threshold_inches: entity.triggerThresholdInches,
+          status: entity.status,
+          work_order_ids: JSON.stringify(Array.from(entity.workOrderIds)),
+          created_by: entity.createdBy,
+          declared_by: entity.declaredBy ?? null,
+          declared_at: entity.declaredAt ?? null,
+          closed_at: entity.closedAt ?? null,
+          created_at: entity.createdAt,
+          updated_at: entity.updatedAt
+        };
+      }
+
+      getEntityId(entity: StormEvent): string {
+        return entity.id.toString();
+      }
+    };
+  }
+
+  // StormEventRepository interface implementations
+  async save(storm: StormEvent): Promise<void> {
+    await this.baseRepository.save(storm);
+  }
+
+  async findById(id: UniqueEntityId): Promise<StormEvent | null> {
+    return this.baseRepository.findById(id.toString());
+  }
+
+  async findAll(): Promise<StormEvent[]> {
+    const result = await this.baseRepository.findMany(undefined, NEWEST_FIRST);
+    return result.items;
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    await this.baseRepository.delete(id.toString());
+  }
+
+  async findByStatus(status: StormEventStatus): Promise<StormEvent[]> {
+    const result = await this.baseRepository.findMany([{
+      field: 'status',
+      operator: FilterOperator.EQUALS,
+      value: status
+    }], NEWEST_FIRST);
+    return result.items;
+  }
+
+  // Schema creation method for development/testing
+  async createSchema(): Promise<void> {
+    const sql = `
+      CREATE TABLE IF NOT EXISTS storm_events (
+        id VARCHAR(255) PRIMARY KEY,
+        name VARCHAR(100) NOT NULL,
+        starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        ends_at TIMESTAMP WITH TIME ZONE,
+        expected_accumulation_inches DECIMAL(5,1) NOT NULL,
+        trigger_threshold_inches DECIMAL(5,1) NOT NULL,
+        status VARCHAR(20) NOT NULL,
+        work_order_ids JSONB NOT NULL DEFAULT '[]',
+        created_by VARCHAR(255) NOT NULL,
+        declared_by VARCHAR(255),
+        declared_at TIMESTAMP WITH TIME ZONE,
+        closed_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        updated_at TIMESTAMP WITH TIME ZONE NOT NULL,
+
+        CONSTRAINT storm_events_status_check CHECK (status IN ('forecast', 'declared', 'closed'))
+      );
+
+      -- Create indexes
+      CREATE INDEX IF NOT EXISTS idx_storm_events_status ON storm_events(status);
+      CREATE INDEX IF NOT EXISTS idx_storm_events_starts_at ON storm_events(starts_at);
+    `;
+
+    await this.connection.execute(sql);
+  }
+}
\ No newline at end of file
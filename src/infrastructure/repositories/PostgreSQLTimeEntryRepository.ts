@@ -0,0 +1,234 @@
+/**
+ * PostgreSQL Time Entry Repository - Infrastructure Layer
+ * Cloud-ready PostgreSQL implementation of TimeEntryRepository
+ */
+
+import {
+  LocationCheck,
+  TimeEntry,
+  TimeEntryCorrection,
+  TimeEntryReview,
+  TimeEntryStatus
+} from '../../domain/timesheet/TimeEntry';
+import { TimeEntryRepository } from '../../domain/timesheet/TimeEntryRepository';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+import { BaseRepository, FilterParams, FilterOperator, SortingParams } from '../database/Repository';
+import { DatabaseConnection } from '../database/DatabaseConnection';
+
+interface TimeEntryRow {
+  id: string;
+  employee: string;
+  property_code?: string | null;
+  project_id?: string | null;
+  site_name?: string | null;
+  status: string;
+  clock_in_at: Date;
+  clock_out_at?: Date | null;
+  breaks: string | BreakEntry[];
+  break_minutes_override?: number | null;
+  clock_in_check: string | LocationCheck;
+  clock_out_check?: string | LocationCheck | null;
+  notes?: string | null;
+  reviews: string | ReviewEntry[];
+  corrections: string | CorrectionEntry[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+type BreakEntry = { startedAt: string; endedAt?: string };
+type ReviewEntry = Omit<TimeEntryReview, 'reviewedAt'> & { reviewedAt: string };
+type CorrectionEntry = Omit<TimeEntryCorrection, 'previous' | 'correctedAt'> & {
+  previous: { clockInAt: string; clockOutAt?: string; breakMinutes: number };
+  correctedAt: string;
+};
+
+const MOST_RECENT_FIRST: SortingParams[] = [
+  { field: 'clock_in_at', direction: 'DESC' }
+];
+
+const parseJson = <T>(value: string | T): T => (typeof value === 'string' ? JSON.parse(value) as T : value);
+const toDate = (value?: string): Date | undefined => (value ? new Date(value) : undefined);
+
+export class PostgreSQLTimeEntryRepository implements TimeEntryRepository {
+  private baseRepository: BaseRepository<TimeEntry, string>;
+
+  constructor(private connection: DatabaseConnection) {
+    this.baseRepository = new class extends BaseRepository<TimeEntry, string> {
+      constructor() {
+        super({
+          tableName: 'time_entries',
+          primaryKey: 'id',
+          connection,
+          useTransactions: true
+        });
+      }
+
+      toDomainEntity(row: Record<string, unknown>): TimeEntry {
+        const entryRow = row as unknown as TimeEntryRow;
+
+        return TimeEntry.reconstitute(UniqueEntityId.create(entryRow.id), {
+          employee: entryRow.employee,
+          propertyCode: entryRow.property_code || undefined,
+          projectId: entryRow.project_id || undefined,
+          siteName: entryRow.site_name || undefined,
+          status: entryRow.status as TimeEntryStatus,
+          clockInAt: entryRow.clock_in_at,
+          clockOutAt: entryRow.clock_out_at || undefined,
+          breaks: parseJson<BreakEntry[]>(entryRow.breaks || []).map(entry => ({
+            startedAt: new Date(entry.startedAt),
+            endedAt: toDate(entry.endedAt)
+          })),
+          breakMinutesOverride: entryRow.break_minutes_override ?? undefined,
+          clockInCheck: parseJson<LocationCheck>(entryRow.clock_in_check),
+          clockOutCheck: entryRow.clock_out_check ? parseJson<LocationCheck>(entryRow.clock_out_check) : undefined,
+          notes: entryRow.notes || undefined,
+          reviews: parseJson<ReviewEntry[]>(entryRow.reviews || []).map(review => ({
+            ...review,
+            reviewedAt: new Date(review.reviewedAt)
+          })),
+          corrections: parseJson<CorrectionEntry[]>(entryRow.corrections || []).map(correction => ({
+            ...correction,
+            previous: {
+              clockInAt: new Date(correction.previous.clockInAt),
+              clockOutAt: toDate(correction.previous.clockOutAt),
+              breakMinutes: correction.previous.breakMinutes
+            },
+            correctedAt: new Date(correction.correctedAt)
+          })),
+          createdAt: entryRow.created_at,
+          updatedAt: entryRow.updated_at
+        });
+      }
+
+      toPersistenceModel(entity: TimeEntry): Record<string, unknown> {
+        return {
+          id: entity.id.toString(),
+          employee: entity.employee,
+          property_code: entity.propertyCode ?? null,
+          project_id: entity.projectId ?? null,
+          site_name: entity.siteName ?? null,
+          status: entity.status,
+          clock_in_at: entity.clockInAt,
+          clock_out_at: entity.clockOutAt ?? null,
+          breaks: JSON.stringify(entity.breaks.map(entry => ({
+            startedAt: entry.startedAt.toISOString(),
+            endedAt: entry.endedAt?.toISOString()
+          }))),
+          break_minutes_override: entity.breakMinutesOverride ?? null,
+          clock_in_check: JSON.stringify(entity.clockInCheck),
+          clock_out_check: entity.clockOutCheck ? JSON.stringify(entity.clockOutCheck) : null,
+          notes: entity.notes ?? null,
+          reviews: JSON.stringify(entity.reviews.map(review => ({
+            ...review,
+            reviewedAt: review.reviewedAt.toISOString()
+          }))),
+          corrections: JSON.stringify(entity.corrections.map(correction => ({
+            ...correction,
+            previous: {
+              clockInAt: correction.previous.clockInAt.toISOString(),
+              clockOutAt: correction.previous.clockOutAt?.toISOString(),
+              breakMinutes: correction.previous.breakMinutes
+            },
+            correctedAt: correction.correctedAt.toISOString()
+          }))),
+          created_at: entity.createdAt,
+          updated_at: entity.updatedAt
+        };
+      }
+
+      getEntityId(entity: TimeEntry): string {
+        return entity.id.toString();
+      }
+    };
+  }
+
+  // TimeEntryRepository interface implementations
+  async save(entry: TimeEntry): Promise<void> {
+    await this.baseRepository.save(entry);
+  }
+
+  async findById(id: UniqueEntityId): Promise<TimeEntry | null> {
+    return this.baseRepository.findById(id.toString());
+  }
+
+  async findAll(): Promise<TimeEntry[]> {
+    return this.findMatching([]);
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    await this.baseRepository.delete(id.toString());
+  }
+
+  async findByStatus(status: TimeEntryStatus): Promise<TimeEntry[]> {
+    return this.findMatching([{
+      field: 'status',
+      operator: FilterOperator.EQUALS,
+      value: status
+    }]);
+  }
+
+  async findByEmployee(employee: string): Promise<TimeEntry[]> {
+    return this.findMatching([{
+      field: 'LOWER(employee)',
+      operator: FilterOperator.EQUALS,
+      value: employee.toLowerCase().trim()
+    }]);
+  }
+
+  async findOpenByEmployee(employee: string): Promise<TimeEntry | null> {
+    const entries = await this.findMatching([
+      { field: 'LOWER(employee)', operator: FilterOperator.EQUALS, value: employee.toLowerCase().trim() },
+      { field: 'status', operator: FilterOperator.EQUALS, value: TimeEntryStatus.OPEN }
+    ]);
+    return entries[0] || null;
+  }
+
+  async findClockedInBetween(from: Date, to: Date): Promise<TimeEntry[]> {
+    return this.findMatching([
+      { field: 'clock_in_at', operator: FilterOperator.GREATER_THAN_OR_EQUAL, value: from },
+      { field: 'clock_in_at', operator: FilterOperator.LESS_THAN, value: to }
+    ]);
+  }
+
+  private async findMatching(filters: FilterParams[]): Promise<TimeEntry[]> {
+    const result = await this.baseRepository.findMany(filters.length > 0 ? filters : undefined, MOST_RECENT_FIRST);
+    return result.items;
+  }
+
+  // Schema creation method for development/testing
+  async createSchema(): Promise<void> {
+    const sql = `
+      CREATE TABLE IF NOT EXISTS time_entries (
+        id VARCHAR(255) PRIMARY KEY,
+        employee VARCHAR(255) NOT NULL,
+        property_code VARCHAR(50),
+        project_id VARCHAR(255),
+        site_name VARCHAR(200),
+        status VARCHAR(20) NOT NULL,
+        clock_in_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        clock_out_at TIMESTAMP WITH TIME ZONE,
+        breaks JSONB NOT NULL DEFAULT '[]',
+        break_minutes_override INTEGER,
+        clock_in_check JSONB NOT NULL,
+        clock_out_check JSONB,
+        notes TEXT,
+        reviews JSONB NOT NULL DEFAULT '[]',
+        corrections JSONB NOT NULL DEFAULT '[]',
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        updated_at TIMESTAMP WITH TIME ZONE NOT NULL,
+
+        CONSTRAINT time_entries_status_check CHECK (status IN ('open', 'completed', 'approved', 'rejected')),
+        CONSTRAINT time_entries_clock_out_check CHECK (clock_out_at IS NULL OR clock_out_at > clock_in_at)
+      );
+
+      -- Create indexes
+      CREATE INDEX IF NOT EXISTS idx_time_entries_employee ON time_entries(LOWER(employee));
+      CREATE INDEX IF NOT EXISTS idx_time_entries_status ON time_entries(status);
+      CREATE INDEX IF NOT EXISTS idx_time_entries_clock_in_at ON time_entries(clock_in_at);
+      -- One running shift per employee
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_time_entries_open_employee ON time_entries(LOWER(employee)) WHERE status = 'open';
+    `;
+
+    await this.connection.execute(sql);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,235 @@
+/**
+ * PostgreSQL Work Order Repository - Infrastructure Layer
+ * Cloud-ready PostgreSQL implementation of WorkOrderRepository
+ */
+
+import { WorkOrder, WorkOrderPriority, WorkOrderStatus, WorkOrderStatusChange, SnowServiceType } from '../../domain/workorder/WorkOrder';
+import { WorkOrderRepository } from '../../domain/workorder/WorkOrderRepository';
+import { parseWorkOrderStatus } from '../../domain/workorder/WorkOrderStatus';
+import { UniqueEntityId } from '../../domain/shared/UniqueEntityId';
+import { BaseRepository, FilterParams, FilterOperator } from '../database/Repository';
+import { DatabaseConnection } from '../database/DatabaseConnection';
+
+interface WorkOrderRow {
+  id: string;
+  property_code: string;
+  client_name: string;
+  service_address: string;
+  zip_code: string;
+  service_type: string;
+  priority: string;
+  scheduled_date: Date;
+  estimated_hours: string | number;
+  equipment_required: string | string[];
+  special_instructions?: string;
+  weather_conditions?: string;
+  access_notes?: string;
+  status: string;
+  assigned_to?: string;
+  requested_by: string;
+  completion_notes?: string;
+  verified_by?: string;
+  storm_event_id?: string;
+  storm_route?: string;
+  storm_sequence?: number;
+  status_history: string | StatusHistoryEntry[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+type StatusHistoryEntry = Omit<WorkOrderStatusChange, 'changedAt'> & { changedAt: string };
+
+export class PostgreSQLWorkOrderRepository implements WorkOrderRepository {
+  private baseRepository: BaseRepository<WorkOrder, string>;
+
+  constructor(private connection: DatabaseConnection) {
+    this.baseRepository = new class extends BaseRepository<WorkOrder, string> {
+      constructor() {
+        super({
+          tableName: 'work_orders',
+          primaryKey: 'id',
+          connection,
+          useTransactions: true
+        });
+      }
+
+      toDomainEntity(row: Record<string, unknown>): WorkOrder {
+        const workOrderRow = row as unknown as WorkOrderRow;
+
+        const equipmentRequired = typeof workOrderRow.equipment_required === 'string'
+          ? JSON.parse(workOrderRow.equipment_required) as string[]
+          : workOrderRow.equipment_required || [];
+
+        const historyEntries = typeof workOrderRow.status_history === 'string'
+          ? JSON.parse(workOrderRow.status_history) as StatusHistoryEntry[]
+          : workOrderRow.status_history || [];
+
+        return WorkOrder.reconstitute(UniqueEntityId.create(workOrderRow.id), {
+          propertyCode: workOrderRow.property_code,
+          clientName: workOrderRow.client_name,
+          serviceAddress: workOrderRow.service_address,
+          zipCode: workOrderRow.zip_code,
+          serviceType: workOrderRow.service_type as SnowServiceType,
+          priority: workOrderRow.priority as WorkOrderPriority,
+          scheduledDate: workOrderRow.scheduled_date,
+          estimatedHours: Number(workOrderRow.estimated_hours),
+          equipmentRequired,
+          specialInstructions: workOrderRow.special_instructions || undefined,
+          weatherConditions: workOrderRow.weather_conditions || undefined,
+          accessNotes: workOrderRow.access_notes || undefined,
+          status: parseWorkOrderStatus(workOrderRow.status),
+          assignedTo: workOrderRow.assigned_to || undefined,
+          requestedBy: workOrderRow.requested_by,
+          completionNotes: workOrderRow.completion_notes || undefined,
+          verifiedBy: workOrderRow.verified_by || undefined,
+          storm: workOrderRow.storm_event_id
+            ? {
+                stormEventId: workOrderRow.storm_event_id,
+                route: workOrderRow.storm_route || '',
+                sequence: Number(workOrderRow.storm_sequence)
+              }
+            : undefined,
+          statusHistory: historyEntries.map(entry => ({ ...entry, changedAt: new Date(entry.changedAt) })),
+          createdAt: workOrderRow.created_at,
+          updatedAt: workOrderRow.updated_at
+        });
+      }
+
+      toPersistenceModel(entity: WorkOrder): Record<string, unknown> {
+        return {
+          id: entity.id.toString(),
+          property_code: entity.propertyCode,
+          client_name: entity.clientName,
+          service_address: entity.serviceAddress,
+          zip_code: entity.zipCode,
+          service_type: entity.serviceType,
+          priority: entity.priority,
+          scheduled_date: entity.scheduledDate,
+          estimated_hours: entity.estimatedHours,
+          equipment_required: JSON.stringify(Array.from(entity.equipmentRequired)),
+          special_instructions: entity.specialInstructions ?? null,
+          weather_conditions: entity.weatherConditions ?? null,
+          access_notes: entity.accessNotes ?? null,
+          status: entity.status,
+          assigned_to: entity.assignedTo ?? null,
+          requested_by: entity.requestedBy,
+          completion_notes: entity.completionNotes ?? null,
+          verified_by: entity.verifiedBy ?? null,
+          storm_event_id: entity.storm?.stormEventId ?? null,
+          storm_route: entity.storm?.route ?? null,
+          storm_sequence: entity.storm?.sequence ?? null,
+          status_history: JSON.stringify(entity.statusHistory),
+          created_at: entity.createdAt,
+          updated_at: entity.updatedAt
+        };
+      }
+
+      getEntityId(entity: WorkOrder): string {
+        return entity.id.toString();
+      }
+    };
+  }
+
+  // WorkOrderRepository interface implementations
+  async save(workOrder: WorkOrder): Promise<void> {
+    await this.baseRepository.save(workOrder);
+  }
+
+  async findById(id: UniqueEntityId): Promise<WorkOrder | null> {
+    return this.baseRepository.findById(id.toString());
+  }
+
+  async findAll(): Promise<WorkOrder[]> {
+    return this.findMatching([]);
+  }
+
+  async delete(id: UniqueEntityId): Promise<void> {
+    await this.baseRepository.delete(id.toString());
+  }
+
+  async findByStatus(statuses: ReadonlyArray<WorkOrderStatus>): Promise<WorkOrder[]> {
+    if (statuses.length === 0) {
+      return [];
+    }
+
+    return this.findMatching([{
+      field: 'status',
+      operator: FilterOperator.IN,
+      value: Array.from(statuses)
+    }]);
+  }
+
+  async findByAssignee(assignee: string): Promise<WorkOrder[]> {
+    return this.findMatching([{
+      field: 'LOWER(assigned_to)',
+      operator: FilterOperator.EQUALS,
+      value: assignee.toLowerCase().trim()
+    }]);
+  }
+
+  async findByPropertyCode(propertyCode: string): Promise<WorkOrder[]> {
+    return this.findMatching([{
+      field: 'property_code',
+      operator: FilterOperator.EQUALS,
+      value: propertyCode.toUpperCase().trim()
+    }]);
+  }
+
+  async findByStormEventId(stormEventId: string): Promise<WorkOrder[]> {
+    return this.findMatching([{
+      field: 'storm_event_id',
+      operator: FilterOperator.EQUALS,
+      value: stormEventId
+    }]);
+  }
+
+  // Priority ranking lives in the domain, so dispatch order is applied after loading
+  private async findMatching(filters: FilterParams[]): Promise<WorkOrder[]> {
+    const result = await this.baseRepository.findMany(filters.length > 0 ? filters : undefined);
+    return result.items.sort(WorkOrder.compareForDispatch);
+  }
+
+  // Schema creation method for development/testing
+  async createSchema(): Promise<void> {
+    const sql = `
+      CREATE TABLE IF NOT EXISTS work_orders (
+        id VARCHAR(255) PRIMARY KEY,
+        property_code VARCHAR(50) NOT NULL,
+        client_name VARCHAR(255) NOT NULL,
+        service_address VARCHAR(500) NOT NULL,
+        zip_code VARCHAR(10) NOT NULL,
+        service_type VARCHAR(50) NOT NULL,
+        priority VARCHAR(20) NOT NULL,
+        scheduled_date TIMESTAMP WITH TIME ZONE NOT NULL,
+        estimated_hours DECIMAL(5,2) NOT NULL,
+        equipment_required JSONB NOT NULL DEFAULT '[]',
+        special_instructions TEXT,
+        weather_conditions TEXT,
+        access_notes TEXT,
+        status VARCHAR(20) NOT NULL,
+        assigned_to VARCHAR(255),
+        requested_by VARCHAR(255) NOT NULL,
+        completion_notes TEXT,
+        verified_by VARCHAR(255),
+        storm_event_id VARCHAR(255),
+        storm_route VARCHAR(100),
+        storm_sequence INTEGER,
+        status_history JSONB NOT NULL DEFAULT '[]',
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        updated_at TIMESTAMP WITH TIME ZONE NOT NULL,
+
+        CONSTRAINT work_orders_status_check CHECK (status IN ('requested', 'dispatched', 'en_route', 'on_site', 'complete', 'verified')),
+        CONSTRAINT work_orders_priority_check CHECK (priority IN ('standard', 'high', 'urgent', 'emergency'))
+      );
+
+      -- Create indexes
+      CREATE INDEX IF NOT EXISTS idx_work_orders_status ON work_orders(status);
+      CREATE INDEX IF NOT EXISTS idx_work_orders_assigned_to ON work_orders(LOWER(assigned_to));
+      CREATE INDEX IF NOT EXISTS idx_work_orders_property_code ON work_orders(property_code);
+      CREATE INDEX IF NOT EXISTS idx_work_orders_scheduled_date ON work_orders(scheduled_date);
+      CREATE INDEX IF NOT EXISTS idx_work_orders_storm_event_id ON work_orders(storm_event_id);
+    `;
+
+    await this.connection.execute(sql);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,287 @@
+/**
+ * Repository Provider - Infrastructure Layer
+ * Resolves repositories for API routes: PostgreSQL when configured, in-memory otherwise
+ */
+
+import { ProjectRepository } from '../../domain/project/ProjectRepository';
+import { ContractRepository } from '../../domain/contract/ContractRepository';
+import { ContractIdAllocator } from '../../domain/contract/ContractIdAllocator';
+import { ContractConversionStore } from '../../domain/contract/ContractConversionStore';
+import { WorkOrderRepository } from '../../domain/workorder/WorkOrderRepository';
+import { StormEventRepository } from '../../domain/storm/StormEventRepository';
+import { ServiceLogRepository } from '../../domain/servicelog/ServiceLogRepository';
+import { InventoryItemRepository } from '../../domain/inventory/InventoryItemRepository';
+import { EquipmentRepository } from '../../domain/inventory/EquipmentRepository';
+import { StormDispatchService } from '../../domain/services/StormDispatchService';
+import { ServiceReportService } from '../../domain/services/ServiceReportService';
+import { InventoryService } from '../../domain/services/InventoryService';
+import { TimeEntryRepository } from '../../domain/timesheet/TimeEntryRepository';
+import { TimesheetService } from '../../domain/services/TimesheetService';
+import { InvoiceRepository } from '../../domain/invoice/InvoiceRepository';
+import { InvoiceNumberAllocator } from '../../domain/invoice/InvoiceNumberAllocator';
+import { InvoiceService } from '../../domain/services/InvoiceService';
+import { ClientPortalService } from '../../domain/services/ClientPortalService';
+import { QuoteConversionService } from '../../domain/services/QuoteConversionService';
+import { ContractLookupService } from '../../domain/services/ContractLookupService';
+import { ClientAccountService } from '../../application/services/ClientAccountService';
+import { PaymentService } from '../../application/services/PaymentService';
+import { RBACManager } from '../../auth/rbac';
+import { LoginSecurityStore, RBACStore, SessionStore } from '../../auth/types';
+import { LoginPolicyEngine } from '../../auth/login-policy';
+import { container } from '../di/Container';
+import { getInfrastructure } from '../index';
+
+let initialization: Promise<void> | null = null;
+let paymentService: PaymentService | null = null;
+let rbacManager: Promise<RBACManager> | null = null;
+
+export function isPostgreSQLEnabled(): boolean {
+  return process.env.DATABASE_PROVIDER === 'postgresql';
+}
+
+async function ensureInfrastructure(): Promise<void> {
+  if (!initialization) {
+    initialization = getInfrastructure().initialize().catch(error => {
+      // Allow the next request to retry a failed initialization
+      initialization = null;
+      throw error;
+    });
+  }
+  return initialization;
+}
+
+export async function getProjectRepository(): Promise<ProjectRepository> {
+  if (isPostgreSQLEnabled()) {
+    await ensureInfrastructure();
+    return getInfrastructure().getProjectRepository();
+  }
+  return container.projectRepository;
+}
+
+export async function getContractRepository(): Promise<ContractRepository> {
+  if (isPostgreSQLEnabled()) {
+    await ensureInfrastructure();
+    return getInfrastructure().getContractRepository();
+  }
+  return container.contractRepository;
+}
+
+// Contract IDs must be allocated against the same store the contracts are saved to
+async function getContractIdAllocator(): Promise<ContractIdAllocator> {
+  if (isPostgreSQLEnabled()) {
+    await ensureInfrastructure();
+    return getInfrastructure().getContractIdAllocator();
+  }
+  return container.contractIdAllocator;
+}
+
+async function getContractConversionStore(): Promise<ContractConversionStore> {
+  if (isPostgreSQLEnabled()) {
+    await ensureInfrastructure();
+    return getInfrastructure().getContractConversionStore();
+  }
+  return container.contractConversionStore;
+}
+
+export async function getWorkOrderRepository(): Promise<WorkOrderRepository> {
+  if (isPostgreSQLEnabled()) {
+    await ensureInfrastructure();
+    return getInfrastructure().getWorkOrderRepository();
+  }
+  return container.workOrderRepository;
+}
+
+export async function getStormEventRepository(): Promise<StormEventRepository> {
+  if (isPostgreSQLEnabled()) {
+    await ensureInfrastructure();
+    return getInfrastructure().getStormEventRepository();
+  }
+  return container.stormEventRepository;
+}
+
+export async function getServiceLogRepository(): Promise<ServiceLogRepository> {
+  if (isPostgreSQLEnabled()) {
+    await ensureInfrastructure();
+    return getInfrastructure().getServiceLogRepository();
+  }
+  return container.serviceLogRepository;
+}
+
+export async function getInventoryItemRepository(): Promise<InventoryItemRepository> {
+  if (isPostgreSQLEnabled()) {
+    await ensureInfrastructure();
+    return getInfrastructure().getInventoryItemRepository();
+  }
+  return container.inventoryItemRepository;
+}
+
+export async function getEquipmentRepository(): Promise<EquipmentRepository> {
+  if (isPostgreSQLEnabled()) {
+    await ensureInfrastructure();
+    return getInfrastructure().getEquipmentRepository();
+  }
+  return container.equipmentRepository;
+}
+
+export async function getTimeEntryRepository(): Promise<TimeEntryRepository> {
+  if (isPostgreSQLEnabled()) {
+    await ensureInfrastructure();
+    return getInfrastructure().getTimeEntryRepository();
+  }
+  return container.timeEntryRepository;
+}
+
+export async function getRBACStore(): Promise<RBACStore> {
+  if (isPostgreSQLEnabled()) {
+    await ensureInfrastructure();
+    return getInfrastructure().getRBACStore();
+  }
+  return container.rbacStore;
+}
+
+export async function getSessionStore(): Promise<SessionStore> {
+  if (isPostgreSQLEnabled()) {
+    await ensureInfrastructure();
+    return getInfrastructure().getSessionStore();
+  }
+  return container.sessionStore;
+}
+
+export async function getLoginSecurityStore(): Promise<LoginSecurityStore> {
+  if (isPostgreSQLEnabled()) {
+    await ensureInfrastructure();
+    return getInfrastructure().getLoginSecurityStore();
+  }
+  return container.loginSecurityStore;
+}
+
+export async function getInvoiceRepository(): Promise<InvoiceRepository> {
+  if (isPostgreSQLEnabled()) {
+    await ensureInfrastructure();
+    return getInfrastructure().getInvoiceRepository();
+  }
+  return container.invoiceRepository;
+}
+
+// Invoice numbers must be allocated against the same store the invoices are saved to
+async function getInvoiceNumberAllocator(): Promise<InvoiceNumberAllocator> {
+  if (isPostgreSQLEnabled()) {
+    await ensureInfrastructure();
+    return getInfrastructure().getInvoiceNumberAllocator();
+  }
+  return container.invoiceNumberAllocator;
+}
+
+export async function getStormDispatchService(): Promise<StormDispatchService> {
+  return new StormDispatchService(
+    await getContractRepository(),
+    await getWorkOrderRepository(),
+    await getStormEventRepository()
+  );
+}
+
+export async function getServiceReportService(): Promise<ServiceReportService> {
+  return new ServiceReportService(
+    await getServiceLogRepository(),
+    await getWorkOrderRepository(),
+    await getContractRepository()
+  );
+}
+
+export async function getInventoryService(): Promise<InventoryService> {
+  return new InventoryService(await getInventoryItemRepository(), container.inventoryAlertNotifier);
+}
+
+export async function getTimesheetService(): Promise<TimesheetService> {
+  return new TimesheetService(
+    await getTimeEntryRepository(),
+    await getProjectRepository(),
+    container.timesheetPolicy
+  );
+}
+
+export async function getInvoiceService(): Promise<InvoiceService> {
+  return new InvoiceService(
+    await getInvoiceRepository(),
+    await getContractRepository(),
+    await getProjectRepository(),
+    await getServiceLogRepository(),
+    await getInvoiceNumberAllocator(),
+    container.invoiceDocumentGenerator,
+    container.invoiceMailer,
+    container.invoicingPolicy
+  );
+}
+
+export async function getClientPortalService(): Promise<ClientPortalService> {
+  return new ClientPortalService(
+    await getContractRepository(),
+    await getProjectRepository(),
+    container.quoteRepository,
+    await getServiceLogRepository(),
+    await getInvoiceRepository()
+  );
+}
+
+// Quotes always come from the container; contracts and projects from the configured store
+export async function getQuoteConversionService(): Promise<QuoteConversionService> {
+  return new QuoteConversionService(
+    container.quoteRepository,
+    await getContractConversionStore(),
+    await getContractIdAllocator(),
+    container.eventPublisher
+  );
+}
+
+export async function getContractLookupService(): Promise<ContractLookupService> {
+  return new ContractLookupService(await getContractRepository());
+}
+
+export async function getClientAccountService(): Promise<ClientAccountService> {
+  return new ClientAccountService(
+    container.clientInvitationRepository,
+    await getContractRepository(),
+    container.clientUserStore,
+    container.clientInvitationMailer,
+    process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'
+  );
+}
+
+export async function getLoginPolicyEngine(): Promise<LoginPolicyEngine> {
+  return new LoginPolicyEngine(
+    await getLoginSecurityStore(),
+    container.ipCountryResolver,
+    container.loginAlertNotifier,
+    container.loginPolicy
+  );
+}
+
+// Shared so webhooks for the same event are applied one after another; quotes always come from the container
+export async function getPaymentService(): Promise<PaymentService> {
+  if (!paymentService) {
+    paymentService = new PaymentService(
+      container.paymentProvider,
+      await getInvoiceRepository(),
+      container.quoteRepository,
+      container.paymentAuditLog
+    );
+  }
+  return paymentService;
+}
+
+// Shared so its permission cache is cleared by every role change; default roles are seeded on first use
+export async function getRBACManager(): Promise<RBACManager> {
+  if (!rbacManager) {
+    rbacManager = getRBACStore()
+      .then(async store => {
+        const manager = new RBACManager(store);
+        await manager.seedDefaults();
+        return manager;
+      })
+      .catch(error => {
+        rbacManager = null;
+        throw error;
+      });
+  }
+  return rbacManager;
+}
\ No newline at end of file
@@ -0,0 +1,62 @@
+/**
+ * File Job State Store - Infrastructure Layer
+ * Persists scheduler state as JSON alongside the other data files
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { JobState, JobStateStore } from '../../application/jobs/ScheduledJob';
+
+type JobStateRecord = Omit<JobState, 'nextRunAt' | 'lastRunAt' | 'lastSuccessAt'> & {
+  nextRunAt: string;
+  lastRunAt?: string;
+  lastSuccessAt?: string;
+};
+
+export class FileJobStateStore implements JobStateStore {
+  constructor(private readonly filePath: string = path.join(process.cwd(), 'data', 'job-state.json')) {}
+
+  async load(name: string): Promise<JobState | null> {
+    const record = this.readAll()[name];
+    return record ? this.toState(record) : null;
+  }
+
+  async save(state: JobState): Promise<void> {
+    const records = this.readAll();
+    records[state.name] = {
+      ...state,
+      nextRunAt: state.nextRunAt.toISOString(),
+      lastRunAt: state.lastRunAt?.toISOString(),
+      lastSuccessAt: state.lastSuccessAt?.toISOString()
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write then rename so a crash mid-write never leaves a truncated file
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(records, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  async list(): Promise<JobState[]> {
+    return Object.values(this.readAll()).map(record => this.toState(record));
+  }
+
+  private readAll(): Record<string, JobStateRecord> {
+    try {
+      if (!fs.existsSync(this.filePath)) return {};
+      return JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as Record<string, JobStateRecord>;
+    } catch (error) {
+      console.error('Failed to read job state, starting fresh:', error);
+      return {};
+    }
+  }
+
+  private toState(record: JobStateRecord): JobState {
+    return {
+      ...record,
+      nextRunAt: new Date(record.nextRunAt),
+      lastRunAt: record.lastRunAt ? new Date(record.lastRunAt) : undefined,
+      lastSuccessAt: record.lastSuccessAt ? new Date(record.lastSuccessAt) : undefined
+    };
+  }
+}
\ No newline at end of file
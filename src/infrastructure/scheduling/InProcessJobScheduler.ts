@@ -0,0 +1,121 @@
+/**
+ * In-Process Job Scheduler - Infrastructure Layer
+ * Runs scheduled jobs on timers inside the server process, resuming from persisted state
+ */
+
+import { ScheduledJob, JobScheduler, JobState, JobStateStore } from '../../application/jobs/ScheduledJob';
+
+// setTimeout overflows past ~24.8 days; longer waits are re-armed when they fire
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+export class InProcessJobScheduler implements JobScheduler {
+  private readonly jobs = new Map<string, ScheduledJob>();
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private readonly running = new Set<string>();
+  private started = false;
+
+  constructor(private readonly stateStore: JobStateStore) {}
+
+  register(job: ScheduledJob): void {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Job already registered: ${job.name}`);
+    }
+    this.jobs.set(job.name, job);
+  }
+
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    for (const job of this.jobs.values()) {
+      const state = await this.loadState(job);
+      this.schedule(job, state.nextRunAt);
+    }
+
+    console.log('⏰ Job scheduler started:', Array.from(this.jobs.keys()));
+  }
+
+  stop(): void {
+    this.started = false;
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  async runNow(name: string): Promise<JobState> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`Unknown job: ${name}`);
+    }
+
+    return this.execute(job);
+  }
+
+  async getStates(): Promise<JobState[]> {
+    return Promise.all(Array.from(this.jobs.values()).map(job => this.loadState(job)));
+  }
+
+  private async loadState(job: ScheduledJob): Promise<JobState> {
+    const existing = await this.stateStore.load(job.name);
+    if (existing) return existing;
+
+    // First run happens straight away so overdue work is picked up on a fresh install
+    const state: JobState = { name: job.name, nextRunAt: new Date(), runCount: 0, failureCount: 0 };
+    await this.stateStore.save(state);
+    return state;
+  }
+
+  private schedule(job: ScheduledJob, runAt: Date): void {
+    if (!this.started) return;
+
+    const existing = this.timers.get(job.name);
+    if (existing) clearTimeout(existing);
+
+    const delay = Math.max(0, runAt.getTime() - Date.now());
+    const timer = setTimeout(() => {
+      this.timers.delete(job.name);
+      if (delay > MAX_TIMER_DELAY_MS) {
+        this.schedule(job, runAt);
+        return;
+      }
+      void this.execute(job);
+    }, Math.min(delay, MAX_TIMER_DELAY_MS));
+
+    // Timers must not keep the process alive on shutdown
+    timer.unref?.();
+    this.timers.set(job.name, timer);
+  }
+
+  private async execute(job: ScheduledJob): Promise<JobState> {
+    const state = await this.loadState(job);
+
+    if (this.running.has(job.name)) {
+      return state;
+    }
+
+    this.running.add(job.name);
+    const startedAt = new Date();
+
+    try {
+      state.lastSummary = await job.run();
+      state.lastSuccessAt = new Date();
+      state.lastError = undefined;
+      console.log(`⏰ Job ${job.name} completed:`, state.lastSummary);
+    } catch (error) {
+      state.failureCount++;
+      state.lastError = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`⏰ Job ${job.name} failed:`, error);
+    } finally {
+      this.running.delete(job.name);
+    }
+
+    state.runCount++;
+    state.lastRunAt = startedAt;
+    state.nextRunAt = new Date(startedAt.getTime() + job.intervalMs);
+    await this.stateStore.save(state);
+
+    this.schedule(job, state.nextRunAt);
+    return state;
+  }
+}
\ No newline at end of file
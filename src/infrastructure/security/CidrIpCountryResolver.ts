@@ -0,0 +1,91 @@
+/**
+ * CIDR IP Country Resolver - Infrastructure Layer
+ * Resolves IPv4 addresses to countries from a table of registered ranges, one "cidr,country" per line
+ * (e.g. "81.2.69.0/24,GB"), such as an export of a regional internet registry's delegation files.
+ * Without a table every address resolves to null and no sign-in is flagged for a new country.
+ */
+
+import fs from 'fs';
+import { IpCountryResolver } from '../../auth/types';
+
+interface IpRange {
+  start: number;
+  end: number;
+  country: string;
+}
+
+// IPv4 as an unsigned 32-bit number; IPv4-mapped IPv6 (::ffff:a.b.c.d) is unwrapped
+const ipv4ToNumber = (ip: string): number | null => {
+  const match = /^(?:::ffff:)?(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/i.exec(ip.trim());
+  if (!match) {
+    return null;
+  }
+  const octets = match.slice(1).map(Number);
+  if (octets.some(octet => octet > 255)) {
+    return null;
+  }
+  return ((octets[0] << 24) >>> 0) + (octets[1] << 16) + (octets[2] << 8) + octets[3];
+};
+
+export class CidrIpCountryResolver implements IpCountryResolver {
+  private readonly ranges: IpRange[] = []; // Sorted by start
+
+  constructor(filePath?: string) {
+    if (!filePath || !fs.existsSync(filePath)) {
+      if (filePath) {
+        console.warn(`IP country ranges file ${filePath} not found; sign-ins will not be flagged for new countries`);
+      }
+      return;
+    }
+
+    for (const line of fs.readFileSync(filePath, 'utf8').split(/\r?\n/)) {
+      const range = this.parseLine(line);
+      if (range) {
+        this.ranges.push(range);
+      }
+    }
+    this.ranges.sort((a, b) => a.start - b.start);
+  }
+
+  resolve(ip: string): string | null {
+    const address = ipv4ToNumber(ip);
+    if (address === null) {
+      return null;
+    }
+
+    // Last range starting at or before the address
+    let low = 0;
+    let high = this.ranges.length - 1;
+    let found: IpRange | null = null;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      if (this.ranges[middle].start <= address) {
+        found = this.ranges[middle];
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    return found && address <= found.end ? found.country : null;
+  }
+
+  private parseLine(line: string): IpRange | null {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) {
+      return null;
+    }
+
+    const [cidr, country] = trimmed.split(',').map(part => part.trim());
+    const [network, prefixText] = (cidr || '').split('/');
+    const start = ipv4ToNumber(network || '');
+    const prefix = Number(prefixText ?? 32);
+    if (start === null || !Number.isInteger(prefix) || prefix < 0 || prefix > 32 || !/^[A-Za-z]{2}$/.test(country || '')) {
+      return null;
+    }
+
+    const size = 2 ** (32 - prefix);
+    const base = start - (start % size);
+    return { start: base, end: base + size - 1, country: country.toUpperCase() };
+  }
+}
\ No newline at end of file
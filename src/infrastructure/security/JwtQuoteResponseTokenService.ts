@@ -0,0 +1,47 @@
+/**
+ * JWT Quote Response Token Service - Infrastructure Layer
+ * Signs quote response links with the application JWT secret
+ */
+
+import jwt from 'jsonwebtoken';
+import { Quote } from '../../domain/quote/Quote';
+import { BusinessRuleViolationError } from '../../domain/shared/DomainError';
+import { QuoteResponseTokenService, QuoteResponseTokenPayload } from '../../domain/services/QuoteResponseTokenService';
+import { getJwtSecret } from '../../lib/jwt-utils';
+
+const TOKEN_AUDIENCE = 'quote-response';
+// Links keep working past the quote expiry so customers see an "expired" page instead of a broken link
+const LINK_GRACE_PERIOD_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+export class JwtQuoteResponseTokenService implements QuoteResponseTokenService {
+  issueToken(quote: Quote): string {
+    if (!quote.sentRevision || !quote.expiresAt) {
+      throw new BusinessRuleViolationError('Quote must be sent before a response link can be issued');
+    }
+
+    const expiresAt = quote.expiresAt.getTime() + LINK_GRACE_PERIOD_MS;
+
+    return jwt.sign(
+      { quoteId: quote.id.toString(), revision: quote.sentRevision },
+      getJwtSecret(),
+      {
+        audience: TOKEN_AUDIENCE,
+        expiresIn: Math.max(1, Math.floor((expiresAt - Date.now()) / 1000))
+      }
+    );
+  }
+
+  verifyToken(token: string): QuoteResponseTokenPayload | null {
+    try {
+      const payload = jwt.verify(token, getJwtSecret(), { audience: TOKEN_AUDIENCE }) as jwt.JwtPayload;
+
+      if (typeof payload.quoteId !== 'string' || typeof payload.revision !== 'number') {
+        return null;
+      }
+
+      return { quoteId: payload.quoteId, revision: payload.revision };
+    } catch {
+      return null;
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,73 @@
+/**
+ * Secure User Manager Client User Store - Infrastructure Layer
+ * Creates and updates client portal accounts in the secure user store that logins use
+ */
+
+import { ClientAccessLevel } from '../../domain/clientaccount/ClientInvitation';
+import { ClientUser, ClientUserStore, NewClientUser } from '../../domain/clientaccount/ClientUserStore';
+import { BusinessRuleViolationError } from '../../domain/shared/DomainError';
+
+type StoredUser = {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: 'admin' | 'employee' | 'client';
+  status: string;
+  contractIds?: string[];
+  clientAccessLevel?: 'owner' | 'member';
+  companyName?: string;
+};
+
+const toClientUser = (user: StoredUser): ClientUser => ({
+  id: user.id,
+  email: user.email,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  role: user.role,
+  status: user.status,
+  contractIds: user.contractIds,
+  clientAccessLevel: user.clientAccessLevel as ClientAccessLevel | undefined,
+  companyName: user.companyName
+});
+
+export class SecureUserManagerClientUserStore implements ClientUserStore {
+  // Loaded lazily so the container can be built without touching the user store on disk
+  private async manager() {
+    const { secureUserManager } = await import('../../lib/secure-user-manager');
+    return secureUserManager;
+  }
+
+  async findByEmail(email: string): Promise<ClientUser | null> {
+    const user = (await this.manager()).getUserByEmail(email);
+    return user ? toClientUser(user) : null;
+  }
+
+  async createClient(user: NewClientUser): Promise<ClientUser> {
+    const result = await (await this.manager()).createUser({
+      email: user.email,
+      password: user.password,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      role: 'client',
+      phone: user.phone,
+      isEmailVerified: true,
+      contractIds: user.contractIds,
+      clientAccessLevel: user.accessLevel,
+      companyName: user.companyName,
+      createdBy: user.createdBy
+    });
+    if (!result.success || !result.user) {
+      throw new BusinessRuleViolationError(result.message || 'Account could not be created');
+    }
+    return toClientUser(result.user);
+  }
+
+  async linkContracts(userId: string, contractIds: string[]): Promise<ClientUser> {
+    const result = await (await this.manager()).linkContracts(userId, contractIds);
+    if (!result.success || !result.user) {
+      throw new BusinessRuleViolationError(result.message || 'Contracts could not be linked');
+    }
+    return toClientUser(result.user);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,13 @@
+/**
+ * Next.js instrumentation hook
+ * Starts the background job scheduler once per server process
+ */
+
+export async function register(): Promise<void> {
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.JOB_SCHEDULER_ENABLED === 'false') {
+    return;
+  }
+
+  const { container } = await import('./infrastructure/di/Container');
+  await container.jobScheduler.start();
+}
\ No newline at end of file
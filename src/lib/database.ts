@@ -5,6 +5,7 @@
 import { Pool, PoolClient } from 'pg';
 import { logger } from './logger';
 import { metrics } from './monitoring';
+import { QuoteStatus, normalizeQuoteStatus } from '../domain/quote/QuoteStatus';
 
 // Type for SQLite database instance
 type Database = {
@@ -64,7 +65,7 @@ export interface QuoteRequest {
   details: string;
   photoFilenames: string[];
   photoUrls: string[];
-  status: 'pending' | 'quoted' | 'accepted' | 'declined' | 'completed';
+  status: QuoteStatus;
   priority: 'low' | 'medium' | 'high' | 'urgent';
   estimatedValue?: number;
   quotedAmount?: number;
@@ -536,7 +537,7 @@ export class PostgreSQLProvider extends DatabaseProvider {
       
       const values = [
         id, data.fullName, data.email, data.phone, data.service, data.details,
-        JSON.stringify(data.photoFilenames || []), data.status || 'pending',
+        JSON.stringify(data.photoFilenames || []), data.status ? normalizeQuoteStatus(data.status) : QuoteStatus.PENDING,
         data.priority || 'medium', data.estimatedValue, data.quotedAmount,
         data.assignedTo, data.notes, data.ipAddress, data.userAgent
       ];
@@ -551,7 +552,7 @@ export class PostgreSQLProvider extends DatabaseProvider {
         details: result.rows[0].details,
         photoFilenames: JSON.parse(result.rows[0].photo_files || '[]'),
         photoUrls: [], // Would be populated from file storage
-        status: result.rows[0].status,
+        status: normalizeQuoteStatus(result.rows[0].status),
         priority: result.rows[0].priority,
         estimatedValue: result.rows[0].estimated_value,
         quotedAmount: result.rows[0].quoted_amount,
@@ -659,7 +660,7 @@ export class PostgreSQLProvider extends DatabaseProvider {
         details: row.details,
         photoFilenames: JSON.parse(row.photo_files || '[]'),
         photoUrls: [],
-        status: row.status,
+        status: normalizeQuoteStatus(row.status),
         priority: row.priority,
         estimatedValue: row.estimated_value,
         quotedAmount: row.quoted_amount,
@@ -698,7 +699,7 @@ export class PostgreSQLProvider extends DatabaseProvider {
         details: row.details,
         photoFilenames: JSON.parse(row.photo_files || '[]'),
         photoUrls: [],
-        status: row.status,
+        status: normalizeQuoteStatus(row.status),
         priority: row.priority,
         estimatedValue: row.estimated_value,
         quotedAmount: row.quoted_amount,
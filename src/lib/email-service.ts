@@ -482,6 +482,176 @@ This quote request was submitted through the VSR Construction Services website.
       `
     });
 
+    // Quote sent to customer template
+    this.templateEngine.registerTemplate('quote-sent', {
+      subject: 'Your Quote from VSR Construction - {{service}}',
+      html: `
+        <h2>Your Quote is Ready</h2>
+        <p>Hi {{fullName}},</p>
+        <p>Thank you for considering VSR Construction Services. Your quote for <strong>{{service}}</strong> totals <strong>{{total}}</strong>.</p>
+        <p>The itemized estimate (revision {{revision}}) is attached as a PDF and is valid until {{validUntil}}.</p>
+        <p>Reply to this email or call us with any questions.</p>
+        <hr>
+        <p>VSR Construction Services</p>
+      `,
+      text: `
+Your Quote is Ready
+
+Hi {{fullName}},
+
+Thank you for considering VSR Construction Services. Your quote for {{service}} totals {{total}}.
+
+The itemized estimate (revision {{revision}}) is attached as a PDF and is valid until {{validUntil}}.
+
+Reply to this email or call us with any questions.
+
+VSR Construction Services
+      `
+    });
+
+    // Invoice sent to customer template
+    this.templateEngine.registerTemplate('invoice-sent', {
+      subject: 'Invoice {{invoiceNumber}} from VSR Construction',
+      html: `
+        <h2>Invoice {{invoiceNumber}}</h2>
+        <p>Hi {{customerName}},</p>
+        <p>Attached is your invoice for services from {{periodStart}} to {{periodEnd}}. The invoice total is <strong>{{total}}</strong> and the balance due is <strong>{{balanceDue}}</strong>.</p>
+        <p>Payment is due {{dueDate}}. Please include the invoice number with your payment.</p>
+        <p>Reply to this email or call us with any questions.</p>
+        <hr>
+        <p>VSR Construction Services</p>
+      `,
+      text: `
+Invoice {{invoiceNumber}}
+
+Hi {{customerName}},
+
+Attached is your invoice for services from {{periodStart}} to {{periodEnd}}. The invoice total is {{total}} and the balance due is {{balanceDue}}.
+
+Payment is due {{dueDate}}. Please include the invoice number with your payment.
+
+Reply to this email or call us with any questions.
+
+VSR Construction Services
+      `
+    });
+
+    // Client portal account setup for the customer on a new contract
+    this.templateEngine.registerTemplate('client-invitation', {
+      subject: 'Set up your VSR Construction client portal account',
+      html: `
+        <h2>Welcome to the VSR Client Portal</h2>
+        <p>Hi {{recipientName}},</p>
+        <p>Your contract {{contractIds}} is set up. In the client portal you can follow project progress, see service visits with photos, and view your invoices.</p>
+        <p><a href="{{link}}">Set your password</a> to finish creating your account. The link works once and expires on {{expiresAt}}.</p>
+        <p>If you were not expecting this email you can ignore it.</p>
+        <hr>
+        <p>VSR Construction Services</p>
+      `,
+      text: `
+Welcome to the VSR Client Portal
+
+Hi {{recipientName}},
+
+Your contract {{contractIds}} is set up. In the client portal you can follow project progress, see service visits with photos, and view your invoices.
+
+Set your password to finish creating your account: {{link}}
+The link works once and expires on {{expiresAt}}.
+
+If you were not expecting this email you can ignore it.
+
+VSR Construction Services
+      `
+    });
+
+    // Client portal invitation from a co-worker who owns the account
+    this.templateEngine.registerTemplate('client-coworker-invitation', {
+      subject: '{{invitedBy}} invited you to the VSR Construction client portal',
+      html: `
+        <h2>You're Invited to the VSR Client Portal</h2>
+        <p>Hi {{recipientName}},</p>
+        <p>{{invitedBy}} invited you to follow {{companyName}}'s VSR Construction projects for contract {{contractIds}}.</p>
+        <p><a href="{{link}}">Set your password</a> to create your account. The link works once and expires on {{expiresAt}}.</p>
+        <hr>
+        <p>VSR Construction Services</p>
+      `,
+      text: `
+You're Invited to the VSR Client Portal
+
+Hi {{recipientName}},
+
+{{invitedBy}} invited you to follow {{companyName}}'s VSR Construction projects for contract {{contractIds}}.
+
+Set your password to create your account: {{link}}
+The link works once and expires on {{expiresAt}}.
+
+VSR Construction Services
+      `
+    });
+
+    // Confirms a client may link a contract under this email to their portal account
+    this.templateEngine.registerTemplate('client-contract-link', {
+      subject: 'Confirm linking contract {{contractIds}} to a VSR client portal account',
+      html: `
+        <h2>Confirm Contract Link</h2>
+        <p>Hi {{recipientName}},</p>
+        <p>{{invitedBy}} asked to add contract {{contractIds}} to their VSR Construction client portal account.</p>
+        <p><a href="{{link}}">Confirm the link</a> while signed in to that account. The link expires on {{expiresAt}}.</p>
+        <p>If you did not ask for this, ignore this email and the contract stays private.</p>
+        <hr>
+        <p>VSR Construction Services</p>
+      `,
+      text: `
+Confirm Contract Link
+
+Hi {{recipientName}},
+
+{{invitedBy}} asked to add contract {{contractIds}} to their VSR Construction client portal account.
+
+Confirm the link while signed in to that account: {{link}}
+The link expires on {{expiresAt}}.
+
+If you did not ask for this, ignore this email and the contract stays private.
+
+VSR Construction Services
+      `
+    });
+
+    // Sign-in from a device or country the account has not used recently
+    this.templateEngine.registerTemplate('suspicious-sign-in', {
+      subject: 'New sign-in to your VSR Construction account',
+      html: `
+        <h2>New Sign-In to Your Account</h2>
+        <p>Hi {{recipientName}},</p>
+        <p>Your account was just signed in to from {{reasons}}.</p>
+        <ul>
+          <li><strong>Device:</strong> {{device}}</li>
+          <li><strong>IP address:</strong> {{ip}}</li>
+          <li><strong>Location:</strong> {{location}}</li>
+          <li><strong>Time:</strong> {{signedInAt}}</li>
+        </ul>
+        <p>If this was you, there is nothing to do. If it was not, change your password straight away and contact an administrator so they can sign out your other devices.</p>
+        <hr>
+        <p>VSR Construction Services</p>
+      `,
+      text: `
+New Sign-In to Your Account
+
+Hi {{recipientName}},
+
+Your account was just signed in to from {{reasons}}.
+
+Device: {{device}}
+IP address: {{ip}}
+Location: {{location}}
+Time: {{signedInAt}}
+
+If this was you, there is nothing to do. If it was not, change your password straight away and contact an administrator so they can sign out your other devices.
+
+VSR Construction Services
+      `
+    });
+
     logger.info('Email templates initialized');
   }
 
@@ -1,12 +1,15 @@
 // Security middleware for VSR Landing API endpoints
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { checkRateLimit, validateEnvironment, secureLog } from './security';
+import { checkRateLimit, validateEnvironment, secureLog, RateLimitOptions } from './security';
 
 /**
  * Security middleware wrapper for API endpoints
  * CRITICAL: Implements multiple layers of security protection
  */
-export function withSecurity(handler: (req: NextApiRequest, res: NextApiResponse) => Promise<void>) {
+export function withSecurity(
+  handler: (req: NextApiRequest, res: NextApiResponse) => Promise<void>,
+  options: { rateLimit?: RateLimitOptions } = {}
+) {
   return async (req: NextApiRequest, res: NextApiResponse) => {
     try {
       // 1. Validate environment variables on startup
@@ -33,7 +36,7 @@ export function withSecurity(handler: (req: NextApiRequest, res: NextApiResponse
 
       // 4. Rate limiting
       const clientIP = getClientIP(req);
-      const rateLimitResult = checkRateLimit({ ip: clientIP, headers: req.headers });
+      const rateLimitResult = checkRateLimit({ ip: clientIP, headers: req.headers }, options.rateLimit);
       
       if (!rateLimitResult.allowed) {
         secureLog('warn', 'Rate limit exceeded', { ip: clientIP });
@@ -117,7 +120,7 @@ function addSecurityHeaders(res: NextApiResponse) {
  * Safely extracts client IP address from request
  * CRITICAL: Handles various proxy configurations for accurate IP detection
  */
-function getClientIP(req: NextApiRequest): string {
+export function getClientIP(req: NextApiRequest): string {
   // Try various headers in order of preference
   const forwardedFor = req.headers['x-forwarded-for'];
   const realIP = req.headers['x-real-ip'];
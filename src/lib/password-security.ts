@@ -20,10 +20,6 @@ export const PASSWORD_SECURITY_CONFIG = {
   REQUIRE_NUMBERS: true,
   REQUIRE_SPECIAL_CHARS: true,
   
-  // Account lockout configuration
-  MAX_LOGIN_ATTEMPTS: 5,
-  LOCKOUT_DURATION: 15 * 60 * 1000, // 15 minutes in milliseconds
-  
   // Password history (prevent reuse)
   PASSWORD_HISTORY_COUNT: 5,
   
@@ -56,22 +52,11 @@ export interface PasswordHashResult {
   timestamp: Date;
 }
 
-/**
- * Account lockout information
- */
-export interface AccountLockoutInfo {
-  isLocked: boolean;
-  attemptsRemaining: number;
-  lockoutUntil?: Date;
-  lastAttempt?: Date;
-}
-
 /**
  * Password Security Manager
  * Handles all password-related security operations
  */
 export class PasswordSecurityManager {
-  private failedAttempts = new Map<string, { count: number; lastAttempt: Date; lockoutUntil?: Date }>();
   private passwordHistory = new Map<string, string[]>(); // userId -> password hashes
 
   /**
@@ -266,69 +251,6 @@ export class PasswordSecurityManager {
     return false;
   }
 
-  /**
-   * Check account lockout status
-   * SECURITY: Implements exponential backoff for failed login attempts
-   */
-  checkAccountLockout(identifier: string): AccountLockoutInfo {
-    const attempts = this.failedAttempts.get(identifier);
-    
-    if (!attempts) {
-      return {
-        isLocked: false,
-        attemptsRemaining: PASSWORD_SECURITY_CONFIG.MAX_LOGIN_ATTEMPTS
-      };
-    }
-
-    const now = new Date();
-    
-    // Check if lockout has expired
-    if (attempts.lockoutUntil && now > attempts.lockoutUntil) {
-      this.failedAttempts.delete(identifier);
-      return {
-        isLocked: false,
-        attemptsRemaining: PASSWORD_SECURITY_CONFIG.MAX_LOGIN_ATTEMPTS
-      };
-    }
-
-    const isLocked = attempts.count >= PASSWORD_SECURITY_CONFIG.MAX_LOGIN_ATTEMPTS;
-    
-    return {
-      isLocked,
-      attemptsRemaining: Math.max(0, PASSWORD_SECURITY_CONFIG.MAX_LOGIN_ATTEMPTS - attempts.count),
-      lockoutUntil: attempts.lockoutUntil,
-      lastAttempt: attempts.lastAttempt
-    };
-  }
-
-  /**
-   * Record a failed login attempt
-   * SECURITY: Implements progressive delay and account lockout
-   */
-  recordFailedAttempt(identifier: string): AccountLockoutInfo {
-    const now = new Date();
-    const attempts = this.failedAttempts.get(identifier) || { count: 0, lastAttempt: now };
-    
-    attempts.count++;
-    attempts.lastAttempt = now;
-    
-    // Lock account if max attempts reached
-    if (attempts.count >= PASSWORD_SECURITY_CONFIG.MAX_LOGIN_ATTEMPTS) {
-      attempts.lockoutUntil = new Date(now.getTime() + PASSWORD_SECURITY_CONFIG.LOCKOUT_DURATION);
-    }
-    
-    this.failedAttempts.set(identifier, attempts);
-    
-    return this.checkAccountLockout(identifier);
-  }
-
-  /**
-   * Reset failed login attempts (on successful login)
-   */
-  resetFailedAttempts(identifier: string): void {
-    this.failedAttempts.delete(identifier);
-  }
-
   /**
    * Check if password has been used recently
    * SECURITY: Prevents password reuse
@@ -437,25 +359,6 @@ export class PasswordSecurityManager {
     
     return decrypted;
   }
-
-  /**
-   * Clean up expired lockouts and old data
-   * SECURITY: Prevents memory leaks and maintains performance
-   */
-  cleanup(): void {
-    const now = new Date();
-    
-    // Clean up expired lockouts
-    for (const [identifier, attempts] of this.failedAttempts.entries()) {
-      if (attempts.lockoutUntil && now > attempts.lockoutUntil) {
-        this.failedAttempts.delete(identifier);
-      }
-    }
-    
-    // Clean up old password history (older than 1 year)
-    const oneYearAgo = new Date(now.getTime() - 365 * 24 * 60 * 60 * 1000);
-    // This would need to be implemented with timestamps in a real system
-  }
 }
 
 // Export singleton instance
@@ -0,0 +1,71 @@
+/**
+ * Portal Fetch
+ * Browser-side fetch for signed-in portal pages: sends the session cookie and, on requests that
+ * change something, the CSRF token the session service checks. When the short-lived session has
+ * expired it refreshes it once and retries.
+ */
+
+export const CSRF_COOKIE_NAME = 'vsr_csrf_token';
+export const CSRF_HEADER_NAME = 'X-CSRF-Token';
+export const REFRESH_ENDPOINT = '/api/auth/refresh';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Shared by every request that hits an expired session at the same time, so the token rotates once
+let pendingRefresh: Promise<boolean> | null = null;
+
+/**
+ * Read the CSRF token cookie set at sign-in
+ */
+export function getCsrfToken(): string {
+  if (typeof document === 'undefined') {
+    return '';
+  }
+
+  const match = document.cookie.split('; ').find(cookie => cookie.startsWith(`${CSRF_COOKIE_NAME}=`));
+  return match ? decodeURIComponent(match.slice(CSRF_COOKIE_NAME.length + 1)) : '';
+}
+
+/**
+ * Exchange the refresh cookie for a new session
+ * @returns Whether a request that failed with 401 is worth retrying
+ */
+export function refreshSession(): Promise<boolean> {
+  if (!pendingRefresh) {
+    pendingRefresh = fetch(REFRESH_ENDPOINT, {
+      method: 'POST',
+      headers: { [CSRF_HEADER_NAME]: getCsrfToken() },
+      credentials: 'include'
+    })
+      // 409: another tab rotated the token first and the new cookies are already set
+      .then(response => response.ok || response.status === 409)
+      .catch(() => false)
+      .finally(() => {
+        pendingRefresh = null;
+      });
+  }
+  return pendingRefresh;
+}
+
+/**
+ * fetch() with the session cookie and, for unsafe methods, the CSRF header
+ * A 401 while signed in is retried once after refreshing the session
+ */
+export async function portalFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const response = await send(input, init);
+  if (response.status !== 401 || input.startsWith(REFRESH_ENDPOINT) || !getCsrfToken()) {
+    return response;
+  }
+
+  return (await refreshSession()) ? send(input, init) : response;
+}
+
+// Headers are rebuilt per attempt, because refreshing replaces the CSRF token
+function send(input: string, init: RequestInit): Promise<Response> {
+  const headers = new Headers(init.headers);
+  if (!SAFE_METHODS.includes((init.method || 'GET').toUpperCase())) {
+    headers.set(CSRF_HEADER_NAME, getCsrfToken());
+  }
+
+  return fetch(input, { ...init, headers, credentials: 'include' });
+}
\ No newline at end of file
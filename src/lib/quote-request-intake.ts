@@ -0,0 +1,43 @@
+/**
+ * Quote Request Intake
+ * Puts website quote form submissions in the quote queue once the form route has validated them
+ */
+
+import type { NextApiRequest } from 'next';
+import { cqrsContainer } from '@/infrastructure/cqrs/CQRSContainer';
+import { SubmitQuoteRequestCommandResult } from '@/application/commands/quote/SubmitQuoteRequestCommand';
+
+export interface QuoteRequestSubmission {
+  fullName: string;
+  email: string;
+  phone: string;
+  serviceAddress?: string;
+  serviceClass?: string;
+  service: string;
+  details?: string;
+  photoFiles?: string[];
+}
+
+// Placeholder for form submissions that left the optional details box empty
+const NO_DETAILS_PROVIDED = 'No additional details provided.';
+
+export async function recordQuoteRequest(
+  submission: QuoteRequestSubmission,
+  req: NextApiRequest
+): Promise<SubmitQuoteRequestCommandResult> {
+  return cqrsContainer.quoteApplicationService.submitQuoteRequest({
+    customerName: submission.fullName,
+    email: submission.email,
+    phone: submission.phone,
+    serviceAddress: submission.serviceAddress,
+    serviceType: submission.service,
+    description: submission.details?.trim() || NO_DETAILS_PROVIDED,
+    attachmentIds: submission.photoFiles || [],
+    metadata: {
+      ipAddress: req.headers['x-forwarded-for'] as string || req.socket.remoteAddress,
+      userAgent: req.headers['user-agent'],
+      source: 'website',
+      serviceClass: submission.serviceClass || 'commercial'
+    }
+  });
+}
\ No newline at end of file
@@ -1,12 +1,16 @@
 /**
  * Secure User Management System
  * Replaces hardcoded credentials with encrypted user data and secure authentication
- * SECURITY: Uses bcrypt hashing, encrypted storage, and secure session management
+ * SECURITY: Uses bcrypt hashing and encrypted storage; sign-in sessions are kept by the SessionService
  */
 
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 import { passwordSecurity, PasswordSecurityManager } from './password-security';
+import { base32Encode, buildOtpAuthUrl, generateTotpSecret, verifyTotp } from './totp';
+import { LoginDecision, LoginPolicyEngine } from '../auth/login-policy';
+import { DEFAULT_ADMIN_USERS } from '../types/admin';
 import { v4 as uuidv4 } from 'uuid';
 
 interface SecureUser {
@@ -16,12 +20,18 @@ interface SecureUser {
   firstName: string;
   lastName: string;
   role: 'admin' | 'employee' | 'client';
+  adminLevel?: 'super_admin' | 'admin' | 'manager';
   status: 'active' | 'inactive' | 'suspended';
   phone?: string;
   profilePhoto?: string;
   employeeId?: string;
   projectIds?: string[];
   
+  // Client portal access
+  contractIds?: string[];
+  clientAccessLevel?: 'owner' | 'member';
+  companyName?: string;
+  
   // Security fields
   isEmailVerified: boolean;
   emailVerificationToken?: string;
@@ -53,52 +63,83 @@ interface SecureUser {
   requirePasswordChange: boolean;
   twoFactorEnabled: boolean;
   twoFactorSecret?: string;
+  twoFactorPendingSecret?: string; // Enrollment in progress until the first code confirms it
+  twoFactorRecoveryCodes?: string[]; // SHA-256 hashes; each is removed once used
+  twoFactorLastUsedStep?: number; // A code cannot be replayed within its validity window
+  twoFactorEnabledAt?: Date;
   
   // Metadata
   metadata?: Record<string, unknown>;
 }
 
-interface SecureUserStore {
-  users: SecureUser[];
-  version: string;
-  lastUpdated: Date;
-  encryptionKey: string;
+// Credentials and second-factor secrets never leave the user manager
+const SECRET_USER_FIELDS = [
+  'passwordHash', 'passwordResetToken', 'emailVerificationToken',
+  'twoFactorSecret', 'twoFactorPendingSecret', 'twoFactorRecoveryCodes', 'twoFactorLastUsedStep'
+] as const satisfies ReadonlyArray<keyof SecureUser>;
+
+export type SanitizedUser = Omit<SecureUser, typeof SECRET_USER_FIELDS[number]>;
+
+export type TwoFactorRole = 'admin' | 'employee';
+
+export interface TwoFactorPolicy {
+  requiredRoles: TwoFactorRole[];
+  updatedAt?: Date;
+  updatedBy?: string;
 }
 
-interface LoginAttempt {
-  userId: string;
-  email: string;
-  ip: string;
-  userAgent: string;
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  enabledAt?: Date;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorEnrollment {
   success: boolean;
-  timestamp: Date;
-  failureReason?: string;
+  message?: string;
+  secret?: string;
+  otpauthUrl?: string;
 }
 
-interface UserSession {
-  id: string;
+interface TwoFactorChallenge {
   userId: string;
-  createdAt: Date;
-  lastActivity: Date;
   ip: string;
   userAgent: string;
-  isActive: boolean;
+  expiresAt: number;
+  attempts: number;
+}
+
+// Admin accounts are covered by default, as the pre-deployment checklist requires
+const DEFAULT_TWO_FACTOR_POLICY: TwoFactorPolicy = { requiredRoles: ['admin'] };
+const TWO_FACTOR_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+const RECOVERY_CODE_COUNT = 10;
+
+const hashSecret = (value: string): string => crypto.createHash('sha256').update(value).digest('hex');
+const normalizeRecoveryCode = (code: string): string => code.toUpperCase().replace(/[^A-Z2-7]/g, '');
+
+interface SecureUserStore {
+  users: SecureUser[];
+  version: string;
+  lastUpdated: Date;
+  encryptionKey: string;
 }
 
 /**
  * Secure User Manager
- * Handles user authentication, storage, and session management
+ * Handles user authentication and storage
  */
 export class SecureUserManager {
   private readonly DATA_DIR = path.join(process.cwd(), 'data', 'secure');
   private readonly USERS_FILE = path.join(this.DATA_DIR, 'users.encrypted');
-  private readonly SESSIONS_FILE = path.join(this.DATA_DIR, 'sessions.encrypted');
   private readonly AUDIT_FILE = path.join(this.DATA_DIR, 'audit.log');
+  private readonly TWO_FACTOR_POLICY_FILE = path.join(this.DATA_DIR, 'two-factor-policy.json');
   
   private passwordManager: PasswordSecurityManager;
   private users: SecureUser[] = [];
-  private sessions: UserSession[] = [];
-  private loginAttempts: LoginAttempt[] = [];
+  private twoFactorPolicy: TwoFactorPolicy = DEFAULT_TWO_FACTOR_POLICY;
+  private twoFactorChallenges = new Map<string, TwoFactorChallenge>(); // Keyed by token hash
   
   private readonly ENCRYPTION_KEY = process.env.USER_ENCRYPTION_KEY || this.generateEncryptionKey();
   
@@ -107,7 +148,7 @@ export class SecureUserManager {
     this.ensureDataDirectory();
     this.initializeUsers();
     this.loadUsers();
-    this.loadSessions();
+    this.loadTwoFactorPolicy();
     this.startCleanupSchedule();
   }
 
@@ -254,68 +295,39 @@ export class SecureUserManager {
     }
   }
 
-  /**
-   * Load sessions from storage
-   */
-  private loadSessions(): void {
-    try {
-      if (!fs.existsSync(this.SESSIONS_FILE)) {
-        return;
-      }
-
-      const sessionData = fs.readFileSync(this.SESSIONS_FILE, 'utf8');
-      this.sessions = JSON.parse(sessionData);
-      
-      // Clean up expired sessions
-      this.cleanupExpiredSessions();
-    } catch (error) {
-      console.error('❌ Failed to load sessions:', error);
-      this.sessions = [];
-    }
-  }
-
-  /**
-   * Save sessions to storage
-   */
-  private saveSessions(): void {
-    try {
-      fs.writeFileSync(this.SESSIONS_FILE, JSON.stringify(this.sessions, null, 2));
-    } catch (error) {
-      console.error('❌ Failed to save sessions:', error);
-    }
-  }
-
   /**
    * Authenticate user with email and password
-   * SECURITY: Implements rate limiting, account lockout, and secure password verification
+   * SECURITY: Failures count towards account and IP address lockouts in the login policy engine
    */
   async authenticate(email: string, password: string, ip: string = 'unknown', userAgent: string = 'unknown'): Promise<{
     success: boolean;
-    user?: Omit<SecureUser, 'passwordHash' | 'passwordResetToken' | 'emailVerificationToken' | 'twoFactorSecret'>;
-    sessionId?: string;
+    user?: SanitizedUser;
     message?: string;
     requiresPasswordChange?: boolean;
+    twoFactorRequired?: boolean;
+    twoFactorEnrollmentRequired?: boolean;
+    challengeToken?: string;
+    locked?: boolean;
+    lockedUntil?: Date;
   }> {
     try {
-      // Check rate limiting
-      const lockoutInfo = this.passwordManager.checkAccountLockout(email);
-      if (lockoutInfo.isLocked) {
-        await this.logAttempt(email, '', ip, userAgent, false, 'Account locked');
-        return {
-          success: false,
-          message: `Account is locked. Try again after ${lockoutInfo.lockoutUntil?.toLocaleString()}`
-        };
+      const loginPolicy = await this.loginPolicy();
+      const context = { email, ip, userAgent };
+
+      // Locked accounts and addresses are turned away before the password is checked
+      const decision = await loginPolicy.evaluate(email, ip);
+      if (!decision.allowed) {
+        await loginPolicy.recordBlocked(context, decision);
+        await this.logAttempt('', email, ip, userAgent, false, `${decision.scope === 'ip' ? 'IP address' : 'Account'} locked`);
+        return this.lockedOut(decision);
       }
 
-      // Find user by email
+      // Find user by email; unknown emails count as failures too, so lockouts do not reveal which accounts exist
       const user = this.users.find(u => u.email.toLowerCase() === email.toLowerCase());
       if (!user) {
-        this.passwordManager.recordFailedAttempt(email);
+        const next = await loginPolicy.recordFailure(context, 'User not found');
         await this.logAttempt('', email, ip, userAgent, false, 'User not found');
-        return {
-          success: false,
-          message: 'Invalid email or password'
-        };
+        return next.allowed ? { success: false, message: 'Invalid email or password' } : this.lockedOut(next);
       }
 
       // Check if user is locked
@@ -339,12 +351,9 @@ export class SecureUserManager {
       // Verify password
       const isPasswordValid = await this.passwordManager.verifyPassword(password, user.passwordHash);
       if (!isPasswordValid) {
-        this.passwordManager.recordFailedAttempt(email);
+        const next = await loginPolicy.recordFailure({ ...context, userId: user.id }, 'Invalid password');
         await this.logAttempt(user.id, email, ip, userAgent, false, 'Invalid password');
-        return {
-          success: false,
-          message: 'Invalid email or password'
-        };
+        return next.allowed ? { success: false, message: 'Invalid email or password' } : this.lockedOut(next);
       }
 
       // Check password expiration
@@ -358,23 +367,33 @@ export class SecureUserManager {
         };
       }
 
-      // Success - reset failed attempts
-      this.passwordManager.resetFailedAttempts(email);
-
-      // Create session
-      const sessionId = await this.createSession(user.id, ip, userAgent);
+      // The password alone is not enough when the account or its role uses two-factor;
+      // the account lockout is only cleared once the second factor is verified too
+      if (user.twoFactorEnabled || this.isTwoFactorRequired(user.role)) {
+        const challengeToken = this.createTwoFactorChallenge(user.id, ip, userAgent);
+        this.logSecurityEvent('two_factor_challenge', { userId: user.id, email, ip, enrollmentRequired: !user.twoFactorEnabled });
+        return {
+          success: false,
+          user: this.sanitizeUser(user),
+          message: user.twoFactorEnabled ? 'Enter the code from your authenticator app' : 'Two-factor authentication must be set up for this account',
+          twoFactorRequired: true,
+          twoFactorEnrollmentRequired: !user.twoFactorEnabled,
+          challengeToken,
+          requiresPasswordChange: user.requirePasswordChange
+        };
+      }
 
       // Update user login info
       user.lastLoginAt = now;
       user.updatedAt = now;
       await this.saveUsers();
 
+      await loginPolicy.recordSuccess({ ...context, userId: user.id, recipientName: user.firstName });
       await this.logAttempt(user.id, email, ip, userAgent, true);
 
       return {
         success: true,
         user: this.sanitizeUser(user),
-        sessionId,
         message: 'Login successful',
         requiresPasswordChange: user.requirePasswordChange
       };
@@ -389,45 +408,543 @@ export class SecureUserManager {
   }
 
   /**
-   * Create a new user session
+   * Create a user account with a password chosen by the user
+   * SECURITY: Applies the same password policy as password changes
    */
-  private async createSession(userId: string, ip: string, userAgent: string): Promise<string> {
-    const sessionId = uuidv4();
-    const session: UserSession = {
-      id: sessionId,
-      userId,
-      createdAt: new Date(),
-      lastActivity: new Date(),
-      ip,
-      userAgent,
-      isActive: true
+  async createUser(data: {
+    email: string;
+    password: string;
+    firstName: string;
+    lastName: string;
+    role: SecureUser['role'];
+    phone?: string;
+    isEmailVerified: boolean;
+    contractIds?: string[];
+    clientAccessLevel?: SecureUser['clientAccessLevel'];
+    companyName?: string;
+    createdBy?: string;
+  }): Promise<{
+    success: boolean;
+    message?: string;
+    user?: SanitizedUser;
+  }> {
+    try {
+      if (this.users.some(u => u.email.toLowerCase() === data.email.toLowerCase())) {
+        return { success: false, message: 'An account already exists for this email' };
+      }
+
+      const validation = this.passwordManager.validatePasswordStrength(data.password);
+      if (!validation.isValid) {
+        return {
+          success: false,
+          message: `Password validation failed: ${validation.errors.join(', ')}`
+        };
+      }
+
+      const passwordHash = await this.passwordManager.hashPassword(data.password);
+      const now = new Date();
+
+      const user: SecureUser = {
+        id: uuidv4(),
+        email: data.email.toLowerCase().trim(),
+        passwordHash: passwordHash.hash,
+        firstName: data.firstName,
+        lastName: data.lastName,
+        role: data.role,
+        status: 'active',
+        phone: data.phone,
+        contractIds: data.contractIds,
+        clientAccessLevel: data.clientAccessLevel,
+        companyName: data.companyName,
+
+        // Security defaults
+        isEmailVerified: data.isEmailVerified,
+        isLocked: false,
+        requirePasswordChange: false, // The user just chose this password
+        twoFactorEnabled: false,
+        maxConcurrentSessions: 5,
+
+        // Timestamps
+        createdAt: now,
+        updatedAt: now,
+        createdBy: data.createdBy,
+        lastPasswordChange: now,
+        passwordExpiresAt: new Date(now.getTime() + 90 * 24 * 60 * 60 * 1000), // 90 days
+
+        // Session management
+        activeSessions: []
+      };
+
+      this.passwordManager.addPasswordToHistory(user.id, passwordHash.hash);
+      this.users.push(user);
+      await this.saveUsers();
+
+      return { success: true, message: 'User created successfully', user: this.sanitizeUser(user) };
+
+    } catch (error) {
+      console.error('User creation error:', error);
+      return { success: false, message: 'User creation failed due to server error' };
+    }
+  }
+
+  /**
+   * Link additional contracts to a client account
+   */
+  async linkContracts(userId: string, contractIds: string[]): Promise<{
+    success: boolean;
+    message?: string;
+    user?: SanitizedUser;
+  }> {
+    const user = this.users.find(u => u.id === userId);
+    if (!user) {
+      return { success: false, message: 'User not found' };
+    }
+    if (user.role !== 'client') {
+      return { success: false, message: 'Contracts can only be linked to client accounts' };
+    }
+
+    user.contractIds = Array.from(new Set([...(user.contractIds || []), ...contractIds.map(id => id.toUpperCase())]));
+    user.updatedAt = new Date();
+    await this.saveUsers();
+
+    return { success: true, message: 'Contracts linked successfully', user: this.sanitizeUser(user) };
+  }
+
+  /**
+   * Current two-factor policy: which roles must use an authenticator app
+   */
+  getTwoFactorPolicy(): TwoFactorPolicy {
+    return { ...this.twoFactorPolicy, requiredRoles: [...this.twoFactorPolicy.requiredRoles] };
+  }
+
+  /**
+   * Check whether a role must use two-factor authentication
+   */
+  isTwoFactorRequired(role: SecureUser['role']): boolean {
+    return (this.twoFactorPolicy.requiredRoles as string[]).includes(role);
+  }
+
+  /**
+   * Require (or stop requiring) two-factor authentication for a role
+   * SECURITY: Accounts in the role without it are made to enroll at their next sign-in
+   */
+  setTwoFactorRequired(role: TwoFactorRole, required: boolean, updatedBy: string): TwoFactorPolicy {
+    const roles = new Set(this.twoFactorPolicy.requiredRoles);
+    if (required) {
+      roles.add(role);
+    } else {
+      roles.delete(role);
+    }
+
+    this.twoFactorPolicy = { requiredRoles: Array.from(roles), updatedAt: new Date(), updatedBy };
+    this.saveTwoFactorPolicy();
+    this.logSecurityEvent('two_factor_policy_changed', { role, required, updatedBy });
+
+    return this.getTwoFactorPolicy();
+  }
+
+  /**
+   * Get a user's two-factor status
+   */
+  getTwoFactorStatus(userId: string): TwoFactorStatus | undefined {
+    const user = this.users.find(u => u.id === userId);
+    if (!user) {
+      return undefined;
+    }
+
+    return {
+      enabled: user.twoFactorEnabled,
+      required: this.isTwoFactorRequired(user.role),
+      enabledAt: user.twoFactorEnabledAt ? new Date(user.twoFactorEnabledAt) : undefined,
+      recoveryCodesRemaining: user.twoFactorRecoveryCodes?.length || 0
     };
+  }
+
+  /**
+   * Start authenticator enrollment for a signed-in user
+   * SECURITY: The new secret stays pending until a code from the app confirms it
+   */
+  async beginTwoFactorEnrollment(userId: string): Promise<TwoFactorEnrollment> {
+    const user = this.users.find(u => u.id === userId);
+    if (!user) {
+      return { success: false, message: 'User not found' };
+    }
+    if (user.role === 'client') {
+      return { success: false, message: 'Two-factor authentication is only available for staff accounts' };
+    }
+    if (user.twoFactorEnabled) {
+      return { success: false, message: 'Two-factor authentication is already enabled' };
+    }
+
+    return this.startTwoFactorEnrollment(user);
+  }
+
+  /**
+   * Confirm enrollment with the first code from the authenticator app
+   * SECURITY: Recovery codes are returned once here and only their hashes are kept
+   */
+  async confirmTwoFactorEnrollment(userId: string, code: string): Promise<{
+    success: boolean;
+    message?: string;
+    recoveryCodes?: string[];
+  }> {
+    const user = this.users.find(u => u.id === userId);
+    if (!user || !user.twoFactorPendingSecret) {
+      return { success: false, message: 'Start two-factor setup first' };
+    }
+
+    const step = verifyTotp(user.twoFactorPendingSecret, code);
+    if (step === null) {
+      return { success: false, message: 'Invalid verification code' };
+    }
+
+    const recoveryCodes = this.enableTwoFactor(user, step);
+    await this.saveUsers();
+
+    return { success: true, message: 'Two-factor authentication enabled', recoveryCodes };
+  }
+
+  /**
+   * Replace all recovery codes, confirmed with a current authenticator code
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<{
+    success: boolean;
+    message?: string;
+    recoveryCodes?: string[];
+  }> {
+    const user = this.users.find(u => u.id === userId);
+    if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) {
+      return { success: false, message: 'Two-factor authentication is not enabled' };
+    }
+
+    const step = verifyTotp(user.twoFactorSecret, code, user.twoFactorLastUsedStep);
+    if (step === null) {
+      return { success: false, message: 'Invalid verification code' };
+    }
 
-    this.sessions.push(session);
-    this.saveSessions();
+    user.twoFactorLastUsedStep = step;
+    const recoveryCodes = this.issueRecoveryCodes(user);
+    user.updatedAt = new Date();
+    await this.saveUsers();
+    this.logSecurityEvent('two_factor_recovery_codes_regenerated', { userId: user.id, email: user.email });
 
-    return sessionId;
+    return { success: true, message: 'New recovery codes generated', recoveryCodes };
   }
 
   /**
-   * Validate session
+   * Turn off two-factor authentication, confirmed with a current or recovery code
+   * SECURITY: Not allowed while the user's role requires two-factor
    */
-  validateSession(sessionId: string): { valid: boolean; user?: Omit<SecureUser, 'passwordHash' | 'passwordResetToken' | 'emailVerificationToken' | 'twoFactorSecret'> } {
-    const session = this.sessions.find(s => s.id === sessionId && s.isActive);
-    if (!session) {
-      return { valid: false };
+  async disableTwoFactor(userId: string, code: string): Promise<{ success: boolean; message?: string }> {
+    const user = this.users.find(u => u.id === userId);
+    if (!user || !user.twoFactorEnabled) {
+      return { success: false, message: 'Two-factor authentication is not enabled' };
+    }
+    if (this.isTwoFactorRequired(user.role)) {
+      return { success: false, message: 'Two-factor authentication is required for your role' };
     }
+    if (!this.verifySecondFactor(user, code)) {
+      return { success: false, message: 'Invalid verification code' };
+    }
+
+    this.clearTwoFactor(user);
+    user.updatedAt = new Date();
+    await this.saveUsers();
+    this.logSecurityEvent('two_factor_disabled', { userId: user.id, email: user.email });
 
-    const user = this.users.find(u => u.id === session.userId);
+    return { success: true, message: 'Two-factor authentication disabled' };
+  }
+
+  /**
+   * Reset a user's two-factor authentication so they enroll again at next sign-in
+   * SECURITY: Callers must restrict this to super admins and sign the user out everywhere
+   */
+  async resetTwoFactor(userId: string, resetBy: string, reason?: string): Promise<{ success: boolean; message?: string }> {
+    const user = this.users.find(u => u.id === userId);
     if (!user) {
-      return { valid: false };
+      return { success: false, message: 'User not found' };
+    }
+
+    this.clearTwoFactor(user);
+    user.updatedAt = new Date();
+    user.updatedBy = resetBy;
+    await this.saveUsers();
+
+    for (const [key, challenge] of this.twoFactorChallenges.entries()) {
+      if (challenge.userId === user.id) {
+        this.twoFactorChallenges.delete(key);
+      }
+    }
+
+    this.logSecurityEvent('two_factor_reset', { userId: user.id, email: user.email, resetBy, reason });
+
+    return { success: true, message: 'Two-factor authentication reset' };
+  }
+
+  /**
+   * Start enrollment during sign-in, for accounts whose role requires two-factor
+   */
+  async beginChallengeEnrollment(challengeToken: string): Promise<TwoFactorEnrollment> {
+    const challenge = this.findTwoFactorChallenge(challengeToken);
+    const user = challenge && this.users.find(u => u.id === challenge.userId);
+    if (!user) {
+      return { success: false, message: 'Verification expired. Please sign in again.' };
+    }
+    if (user.twoFactorEnabled) {
+      return { success: false, message: 'Two-factor authentication is already set up' };
+    }
+
+    return this.startTwoFactorEnrollment(user);
+  }
+
+  /**
+   * Complete a sign-in with an authenticator code or a recovery code
+   * SECURITY: Sign-in only succeeds here; wrong codes count towards account and IP address lockouts
+   */
+  async completeTwoFactorLogin(challengeToken: string, code: string): Promise<{
+    success: boolean;
+    user?: SanitizedUser;
+    message?: string;
+    requiresPasswordChange?: boolean;
+    recoveryCodes?: string[];
+    locked?: boolean;
+    lockedUntil?: Date;
+  }> {
+    const challengeKey = hashSecret(challengeToken || '');
+    const challenge = this.findTwoFactorChallenge(challengeToken);
+    const user = challenge && this.users.find(u => u.id === challenge.userId);
+    if (!challenge || !user) {
+      return { success: false, message: 'Verification expired. Please sign in again.' };
+    }
+
+    if (user.isLocked || user.status !== 'active') {
+      this.twoFactorChallenges.delete(challengeKey);
+      return { success: false, message: 'Account is locked. Try again later or contact an administrator.' };
+    }
+
+    const loginPolicy = await this.loginPolicy();
+    const context = { email: user.email, ip: challenge.ip, userAgent: challenge.userAgent, userId: user.id };
+    const decision = await loginPolicy.evaluate(user.email, challenge.ip);
+    if (!decision.allowed) {
+      this.twoFactorChallenges.delete(challengeKey);
+      await loginPolicy.recordBlocked(context, decision);
+      return this.lockedOut(decision);
+    }
+
+    let verified = false;
+    let recoveryCodes: string[] | undefined;
+    if (user.twoFactorEnabled) {
+      verified = this.verifySecondFactor(user, code) !== null;
+    } else if (user.twoFactorPendingSecret) {
+      // First sign-in after the role started requiring two-factor: this code finishes enrollment
+      const step = verifyTotp(user.twoFactorPendingSecret, code);
+      if (step !== null) {
+        recoveryCodes = this.enableTwoFactor(user, step);
+        verified = true;
+      }
+    }
+
+    if (!verified) {
+      challenge.attempts++;
+      if (challenge.attempts >= TWO_FACTOR_MAX_ATTEMPTS) {
+        this.twoFactorChallenges.delete(challengeKey);
+      }
+      const next = await loginPolicy.recordFailure(context, 'Invalid two-factor code');
+      await this.logAttempt(user.id, user.email, challenge.ip, challenge.userAgent, false, 'Invalid two-factor code');
+      if (!next.allowed) {
+        this.twoFactorChallenges.delete(challengeKey);
+        return this.lockedOut(next);
+      }
+      return {
+        success: false,
+        message: challenge.attempts >= TWO_FACTOR_MAX_ATTEMPTS
+          ? 'Too many invalid codes. Please sign in again.'
+          : 'Invalid verification code'
+      };
+    }
+
+    this.twoFactorChallenges.delete(challengeKey);
+
+    const now = new Date();
+    user.lastLoginAt = now;
+    user.updatedAt = now;
+    await this.saveUsers();
+
+    await loginPolicy.recordSuccess({ ...context, recipientName: user.firstName });
+    await this.logAttempt(user.id, user.email, challenge.ip, challenge.userAgent, true);
+
+    return {
+      success: true,
+      user: this.sanitizeUser(user),
+      message: 'Login successful',
+      requiresPasswordChange: user.requirePasswordChange,
+      recoveryCodes
+    };
+  }
+
+  /**
+   * Check whether an admin is a super admin
+   * Accounts without a stored level fall back to the default admin configuration
+   */
+  isSuperAdmin(userId: string): boolean {
+    const user = this.users.find(u => u.id === userId);
+    if (!user || user.role !== 'admin') {
+      return false;
+    }
+
+    const level = user.adminLevel
+      || DEFAULT_ADMIN_USERS.find(admin => admin.email.toLowerCase() === user.email.toLowerCase())?.adminLevel;
+    return level === 'super_admin';
+  }
+
+  /**
+   * List all users (without sensitive fields)
+   */
+  listUsers(): SanitizedUser[] {
+    return this.users.map(user => this.sanitizeUser(user));
+  }
+
+  /**
+   * Generate a pending secret and its provisioning URI
+   */
+  private async startTwoFactorEnrollment(user: SecureUser): Promise<TwoFactorEnrollment> {
+    const secret = generateTotpSecret();
+    user.twoFactorPendingSecret = secret;
+    user.updatedAt = new Date();
+    await this.saveUsers();
+
+    return { success: true, secret, otpauthUrl: buildOtpAuthUrl(secret, user.email) };
+  }
+
+  /**
+   * Promote the pending secret and issue recovery codes
+   */
+  private enableTwoFactor(user: SecureUser, usedStep: number): string[] {
+    user.twoFactorSecret = user.twoFactorPendingSecret;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorEnabled = true;
+    user.twoFactorEnabledAt = new Date();
+    user.twoFactorLastUsedStep = usedStep;
+    user.updatedAt = new Date();
+
+    this.logSecurityEvent('two_factor_enabled', { userId: user.id, email: user.email });
+
+    return this.issueRecoveryCodes(user);
+  }
+
+  /**
+   * Remove every two-factor secret from a user
+   */
+  private clearTwoFactor(user: SecureUser): void {
+    user.twoFactorEnabled = false;
+    user.twoFactorSecret = undefined;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorRecoveryCodes = undefined;
+    user.twoFactorLastUsedStep = undefined;
+    user.twoFactorEnabledAt = undefined;
+  }
+
+  /**
+   * Generate single-use recovery codes, replacing any earlier ones
+   */
+  private issueRecoveryCodes(user: SecureUser): string[] {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const code = base32Encode(crypto.randomBytes(5));
+      return `${code.slice(0, 4)}-${code.slice(4)}`;
+    });
+
+    user.twoFactorRecoveryCodes = codes.map(code => hashSecret(normalizeRecoveryCode(code)));
+    return codes;
+  }
+
+  /**
+   * Verify an authenticator code, or else consume a matching recovery code
+   */
+  private verifySecondFactor(user: SecureUser, code: string): 'totp' | 'recovery' | null {
+    if (user.twoFactorSecret) {
+      const step = verifyTotp(user.twoFactorSecret, code, user.twoFactorLastUsedStep);
+      if (step !== null) {
+        user.twoFactorLastUsedStep = step;
+        return 'totp';
+      }
     }
 
-    // Update last activity
-    session.lastActivity = new Date();
-    this.saveSessions();
+    const recoveryCodes = user.twoFactorRecoveryCodes || [];
+    const index = recoveryCodes.indexOf(hashSecret(normalizeRecoveryCode(code)));
+    if (index === -1) {
+      return null;
+    }
+
+    recoveryCodes.splice(index, 1);
+    this.logSecurityEvent('two_factor_recovery_code_used', {
+      userId: user.id,
+      email: user.email,
+      recoveryCodesRemaining: recoveryCodes.length
+    });
+    return 'recovery';
+  }
+
+  /**
+   * Create a short-lived sign-in challenge for the second factor
+   */
+  private createTwoFactorChallenge(userId: string, ip: string, userAgent: string): string {
+    const token = crypto.randomBytes(32).toString('base64url');
+    this.twoFactorChallenges.set(hashSecret(token), {
+      userId,
+      ip,
+      userAgent,
+      expiresAt: Date.now() + TWO_FACTOR_CHALLENGE_TTL_MS,
+      attempts: 0
+    });
+    return token;
+  }
+
+  /**
+   * Find an unexpired sign-in challenge
+   */
+  private findTwoFactorChallenge(token: string): TwoFactorChallenge | undefined {
+    if (!token) {
+      return undefined;
+    }
+
+    const key = hashSecret(token);
+    const challenge = this.twoFactorChallenges.get(key);
+    if (challenge && challenge.expiresAt < Date.now()) {
+      this.twoFactorChallenges.delete(key);
+      return undefined;
+    }
+    return challenge;
+  }
+
+  /**
+   * Load the two-factor policy
+   */
+  private loadTwoFactorPolicy(): void {
+    try {
+      if (!fs.existsSync(this.TWO_FACTOR_POLICY_FILE)) {
+        return;
+      }
+
+      const stored = JSON.parse(fs.readFileSync(this.TWO_FACTOR_POLICY_FILE, 'utf8'));
+      this.twoFactorPolicy = {
+        requiredRoles: (stored.requiredRoles || []).filter((role: string) => role === 'admin' || role === 'employee'),
+        updatedAt: stored.updatedAt ? new Date(stored.updatedAt) : undefined,
+        updatedBy: stored.updatedBy
+      };
+    } catch (error) {
+      console.error('❌ Failed to load two-factor policy:', error);
+    }
+  }
 
-    return { valid: true, user: this.sanitizeUser(user) };
+  /**
+   * Save the two-factor policy
+   */
+  private saveTwoFactorPolicy(): void {
+    try {
+      fs.writeFileSync(this.TWO_FACTOR_POLICY_FILE, JSON.stringify(this.twoFactorPolicy, null, 2));
+    } catch (error) {
+      console.error('❌ Failed to save two-factor policy:', error);
+    }
   }
 
   /**
@@ -492,31 +1009,51 @@ export class SecureUserManager {
   }
 
   /**
-   * Log authentication attempt
+   * The login policy engine, which keeps sign-in history and lockouts
+   * Loaded lazily so scripts using the user manager do not build the DI container
+   */
+  private async loginPolicy(): Promise<LoginPolicyEngine> {
+    const { getLoginPolicyEngine } = await import('../infrastructure/repositories/RepositoryProvider');
+    return getLoginPolicyEngine();
+  }
+
+  /**
+   * The response to a sign-in turned away by a lockout; it reads the same whether or not the account exists
+   */
+  private lockedOut(decision: LoginDecision): { success: false; message: string; locked: true; lockedUntil?: Date } {
+    const until = decision.lockedUntil ? ` Try again after ${decision.lockedUntil.toLocaleString()}.` : '';
+    return {
+      success: false,
+      message: decision.scope === 'ip'
+        ? `Too many failed sign-in attempts from your network.${until}`
+        : `Too many failed sign-in attempts. This account is temporarily locked.${until}`,
+      locked: true,
+      lockedUntil: decision.lockedUntil
+    };
+  }
+
+  /**
+   * Log authentication attempt to the audit file; the login policy engine keeps the queryable history
    */
   private async logAttempt(userId: string, email: string, ip: string, userAgent: string, success: boolean, failureReason?: string): Promise<void> {
-    const attempt: LoginAttempt = {
+    this.logSecurityEvent('login_attempt', {
       userId,
       email,
       ip,
       userAgent,
       success,
-      timestamp: new Date(),
       failureReason
-    };
-
-    this.loginAttempts.push(attempt);
+    });
+  }
 
-    // Also log to audit file
+  /**
+   * Append a security event to the audit log
+   */
+  private logSecurityEvent(event: string, details: Record<string, unknown>): void {
     const auditEntry = {
       timestamp: new Date().toISOString(),
-      event: 'login_attempt',
-      userId,
-      email,
-      ip,
-      userAgent,
-      success,
-      failureReason
+      event,
+      ...details
     };
 
     try {
@@ -529,28 +1066,24 @@ export class SecureUserManager {
   /**
    * Remove sensitive information from user object
    */
-  private sanitizeUser(user: SecureUser): Omit<SecureUser, 'passwordHash' | 'passwordResetToken' | 'emailVerificationToken' | 'twoFactorSecret'> {
-    const { passwordHash, passwordResetToken, emailVerificationToken, twoFactorSecret, ...sanitized } = user;
-    return sanitized;
+  private sanitizeUser(user: SecureUser): SanitizedUser {
+    const sanitized: Partial<SecureUser> = { ...user };
+    for (const field of SECRET_USER_FIELDS) {
+      delete sanitized[field];
+    }
+    return sanitized as SanitizedUser;
   }
 
   /**
-   * Clean up expired sessions
+   * Drop sign-in challenges that were never completed
    */
-  private cleanupExpiredSessions(): void {
-    const now = new Date();
-    const sessionTimeout = 24 * 60 * 60 * 1000; // 24 hours
-
-    this.sessions = this.sessions.filter(session => {
-      // Handle case where session dates are strings (from JSON parsing)
-      const lastActivity = session.lastActivity instanceof Date 
-        ? session.lastActivity 
-        : new Date(session.lastActivity);
-      const isExpired = (now.getTime() - lastActivity.getTime()) > sessionTimeout;
-      return !isExpired;
-    });
-
-    this.saveSessions();
+  private cleanupTwoFactorChallenges(): void {
+    const now = Date.now();
+    for (const [key, challenge] of this.twoFactorChallenges.entries()) {
+      if (challenge.expiresAt < now) {
+        this.twoFactorChallenges.delete(key);
+      }
+    }
   }
 
   /**
@@ -559,15 +1092,14 @@ export class SecureUserManager {
   private startCleanupSchedule(): void {
     // Clean up every hour
     setInterval(() => {
-      this.cleanupExpiredSessions();
-      this.passwordManager.cleanup();
+      this.cleanupTwoFactorChallenges();
     }, 60 * 60 * 1000);
   }
 
   /**
    * Get user by ID
    */
-  getUserById(id: string): Omit<SecureUser, 'passwordHash' | 'passwordResetToken' | 'emailVerificationToken' | 'twoFactorSecret'> | undefined {
+  getUserById(id: string): SanitizedUser | undefined {
     const user = this.users.find(u => u.id === id);
     return user ? this.sanitizeUser(user) : undefined;
   }
@@ -575,32 +1107,28 @@ export class SecureUserManager {
   /**
    * Get user by email
    */
-  getUserByEmail(email: string): Omit<SecureUser, 'passwordHash' | 'passwordResetToken' | 'emailVerificationToken' | 'twoFactorSecret'> | undefined {
+  getUserByEmail(email: string): SanitizedUser | undefined {
     const user = this.users.find(u => u.email.toLowerCase() === email.toLowerCase());
     return user ? this.sanitizeUser(user) : undefined;
   }
 
   /**
-   * Logout user (invalidate session)
+   * Mark an email address verified using the token sent to it
    */
-  logout(sessionId: string): void {
-    const sessionIndex = this.sessions.findIndex(s => s.id === sessionId);
-    if (sessionIndex !== -1) {
-      this.sessions[sessionIndex].isActive = false;
-      this.saveSessions();
+  async verifyEmail(token: string): Promise<{ success: boolean; message: string }> {
+    const user = token ? this.users.find(u => u.emailVerificationToken === token) : undefined;
+    if (!user) {
+      return { success: false, message: 'Invalid or expired verification token.' };
     }
-  }
 
-  /**
-   * Logout all sessions for a user
-   */
-  logoutAllSessions(userId: string): void {
-    this.sessions.forEach(session => {
-      if (session.userId === userId) {
-        session.isActive = false;
-      }
-    });
-    this.saveSessions();
+    user.isEmailVerified = true;
+    user.emailVerificationToken = undefined;
+    user.updatedAt = new Date();
+    await this.saveUsers();
+
+    this.logSecurityEvent('email_verified', { userId: user.id, email: user.email });
+
+    return { success: true, message: 'Email verified successfully. You can now log in.' };
   }
 
   /**
@@ -609,7 +1137,7 @@ export class SecureUserManager {
   async updateUser(userId: string, updates: Partial<Pick<SecureUser, 'firstName' | 'lastName' | 'phone' | 'profilePhoto'>>): Promise<{
     success: boolean;
     message?: string;
-    user?: Omit<SecureUser, 'passwordHash' | 'passwordResetToken' | 'emailVerificationToken' | 'twoFactorSecret'>;
+    user?: SanitizedUser;
   }> {
     try {
       const userIndex = this.users.findIndex(u => u.id === userId);
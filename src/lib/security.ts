@@ -212,7 +212,13 @@ export function validateEnvironment(): { isValid: boolean; errors: string[] } {
  */
 const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
 
-export function checkRateLimit(req: { ip?: string; headers: Record<string, string | string[] | undefined> }): { 
+export interface RateLimitOptions {
+  scope?: string; // Separate counter per scope, e.g. 'contract_lookup'
+  windowMs?: number;
+  maxRequests?: number;
+}
+
+export function checkRateLimit(req: { ip?: string; headers: Record<string, string | string[] | undefined> }, options: RateLimitOptions = {}): { 
   allowed: boolean; 
   resetTime?: number;
   ip: string;
@@ -227,32 +233,51 @@ export function checkRateLimit(req: { ip?: string; headers: Record<string, strin
       ? forwardedFor[0] 
       : forwardedFor?.split(',')[0]) || 'unknown';
 
+  const windowMs = options.windowMs ?? SECURITY_CONFIG.RATE_LIMIT_WINDOW_MS;
+  const maxRequests = options.maxRequests ?? SECURITY_CONFIG.RATE_LIMIT_MAX_REQUESTS;
+  const key = options.scope ? `rate_limit_${options.scope}_${ip}` : `rate_limit_${ip}`;
+
+  return { ip, ...consumeRateLimit(key, windowMs, maxRequests) };
+}
+
+/**
+ * Rate limits an arbitrary key (e.g. a contract ID) rather than a client IP
+ * CRITICAL: Stops distributed guessing against a single target
+ */
+export function checkKeyedRateLimit(key: string, windowMs: number, maxRequests: number): {
+  allowed: boolean;
+  resetTime?: number;
+  totalRequests: number;
+  windowMs: number;
+  timeUntilReset: number;
+} {
+  return consumeRateLimit(`rate_limit_key_${key}`, windowMs, maxRequests);
+}
+
+function consumeRateLimit(key: string, windowMs: number, maxRequests: number) {
   const now = Date.now();
-  const key = `rate_limit_${ip}`;
   const existing = rateLimitStore.get(key);
   
   if (!existing || now > existing.resetTime) {
     // Create new window
-    const resetTime = now + SECURITY_CONFIG.RATE_LIMIT_WINDOW_MS;
+    const resetTime = now + windowMs;
     rateLimitStore.set(key, { count: 1, resetTime });
     return { 
       allowed: true,
-      ip,
       totalRequests: 1,
-      windowMs: SECURITY_CONFIG.RATE_LIMIT_WINDOW_MS,
+      windowMs,
       timeUntilReset: resetTime - now
     };
   }
   
   const timeUntilReset = existing.resetTime - now;
   
-  if (existing.count >= SECURITY_CONFIG.RATE_LIMIT_MAX_REQUESTS) {
+  if (existing.count >= maxRequests) {
     return { 
       allowed: false, 
       resetTime: existing.resetTime,
-      ip,
       totalRequests: existing.count,
-      windowMs: SECURITY_CONFIG.RATE_LIMIT_WINDOW_MS,
+      windowMs,
       timeUntilReset
     };
   }
@@ -263,9 +288,8 @@ export function checkRateLimit(req: { ip?: string; headers: Record<string, strin
   
   return { 
     allowed: true,
-    ip,
     totalRequests: existing.count,
-    windowMs: SECURITY_CONFIG.RATE_LIMIT_WINDOW_MS,
+    windowMs,
     timeUntilReset
   };
 }
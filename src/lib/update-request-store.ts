@@ -0,0 +1,52 @@
+/**
+ * Update Request Store
+ * Client update requests shared by the admin queue and the client portal
+ */
+
+// v2 data structure for update requests (priority column removed)
+export interface UpdateRequest {
+  id: string;
+  contractId: string;
+  customerName: string;
+  email: string;
+  phone: string;
+  serviceType?: string;
+  serviceAddress?: string;
+  reasonForContact: string;
+  jobDescription: string;
+  notes: string;
+  files: string[];
+  status: 'pending' | 'in_progress' | 'completed' | 'resolved';
+  submittedAt: Date;
+  completedAt?: Date;
+  assignedTo?: string;
+  adminNotes?: string;
+}
+
+// Database-driven storage - no static entries for v3
+export const updateRequests: UpdateRequest[] = [];
+
+export type UpdateRequestSubmission = Pick<
+  UpdateRequest,
+  'contractId' | 'customerName' | 'email' | 'phone' | 'serviceType' | 'serviceAddress' | 'reasonForContact' | 'jobDescription' | 'notes' | 'files'
+>;
+
+// Forms only supply the request itself; status and admin fields always start fresh
+export function recordUpdateRequest(submission: UpdateRequestSubmission): UpdateRequest {
+  const request: UpdateRequest = {
+    ...submission,
+    id: `ur_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    status: 'pending',
+    submittedAt: new Date()
+  };
+  updateRequests.unshift(request); // Newest first
+  return request;
+}
+
+// A client sees requests filed against one of their contracts; the email on a request without a
+// verified contract is whatever the sender typed, so it never links a request to a client
+export function findUpdateRequestsForClient(contractIds: ReadonlySet<string>): UpdateRequest[] {
+  return updateRequests.filter(request =>
+    contractIds.has((request.contractId || '').trim().toUpperCase())
+  );
+}
\ No newline at end of file
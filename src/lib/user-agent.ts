@@ -0,0 +1,20 @@
+/**
+ * User Agent Descriptions
+ * Names a browser and platform from a user agent string, enough to tell a user's devices apart
+ * without a user agent parsing library
+ */
+
+export function describeDevice(userAgent: string): string {
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Unknown browser';
+  const platform = /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'unknown device';
+  return `${browser} on ${platform}`;
+}
\ No newline at end of file
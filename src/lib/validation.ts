@@ -80,6 +80,7 @@ export interface QuoteData {
   fullName: string;
   email: string;
   phone: string;
+  serviceAddress: string;
   serviceClass: string;
   service: string;
   details: string;
@@ -120,6 +121,16 @@ export function validateQuoteData(fields: Record<string, unknown>, files: Record
     data.phone = phoneValidation.sanitized;
   }
 
+  // Validate service address (needed to turn an accepted quote into a contract)
+  const serviceAddress = sanitizeText(Array.isArray(fields.serviceAddress) ? fields.serviceAddress[0] : fields.serviceAddress);
+  if (!serviceAddress || serviceAddress.length < 10) {
+    errors.push('Service address must be at least 10 characters long');
+  } else if (serviceAddress.length > 500) {
+    errors.push('Service address must be less than 500 characters');
+  } else {
+    data.serviceAddress = serviceAddress;
+  }
+
   // Validate service class
   const allowedServiceClasses = ['commercial', 'residential'];
   const serviceClass = sanitizeText(Array.isArray(fields.serviceClass) ? fields.serviceClass[0] : fields.serviceClass);
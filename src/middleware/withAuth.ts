@@ -0,0 +1,82 @@
+/**
+ * Authentication Guard
+ * The request guard every signed-in API route goes through: resolves the cookie session,
+ * checks role and permissions, and requires the CSRF token on anything that changes state
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import {
+  AuthenticatedSession,
+  SessionRole,
+  SessionUser,
+  sessionService
+} from '../services/SessionService';
+
+export interface AuthenticatedRequest extends NextApiRequest {
+  session: AuthenticatedSession;
+  user: SessionUser;
+}
+
+export type AuthenticatedHandler = (req: AuthenticatedRequest, res: NextApiResponse) => void | Promise<void>;
+
+export interface WithAuthOptions {
+  roles?: SessionRole[]; // Any one of these; omitted means any signed-in user
+  permissions?: string[]; // All of these
+}
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+export function withAuth(options: WithAuthOptions = {}) {
+  return function (handler: AuthenticatedHandler) {
+    return async (req: NextApiRequest, res: NextApiResponse): Promise<void> => {
+      try {
+        const session = await sessionService.getSession(req);
+        if (!session) {
+          return res.status(401).json({
+            success: false,
+            message: 'Authentication required',
+            error: 'UNAUTHORIZED'
+          });
+        }
+
+        if (!SAFE_METHODS.includes(req.method || 'GET') && !sessionService.verifyCsrf(req, session)) {
+          return res.status(403).json({
+            success: false,
+            message: 'CSRF validation failed',
+            error: 'CSRF_INVALID'
+          });
+        }
+
+        if (options.roles && !options.roles.includes(session.user.role)) {
+          return res.status(403).json({
+            success: false,
+            message: `Access denied. ${options.roles.join(' or ')} role required.`,
+            error: 'INSUFFICIENT_PERMISSIONS'
+          });
+        }
+
+        if (options.permissions && !(await sessionService.hasPermissions(session.user, options.permissions))) {
+          return res.status(403).json({
+            success: false,
+            message: 'Insufficient permissions',
+            error: 'INSUFFICIENT_PERMISSIONS',
+            required: options.permissions
+          });
+        }
+
+        const authenticatedReq = req as AuthenticatedRequest;
+        authenticatedReq.session = session;
+        authenticatedReq.user = session.user;
+
+        return await handler(authenticatedReq, res);
+      } catch (error) {
+        console.error('Authentication guard error:', error);
+        return res.status(500).json({
+          success: false,
+          message: 'Internal server error',
+          error: 'SERVER_ERROR'
+        });
+      }
+    };
+  };
+}
\ No newline at end of file
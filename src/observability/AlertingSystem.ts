@@ -3,6 +3,7 @@
  * Comprehensive alerting with multiple channels, escalation, and intelligent deduplication
  */
 
+import { createHash } from 'crypto';
 import { observability, TraceContext } from './ObservabilityCore';
 import { logger } from './Logger';
 import { metricsCollector } from './MetricsCollector';
@@ -897,7 +898,8 @@ export class AlertingSystem {
 
   private generateFingerprint(ruleId: string, metric: string, metadata: Record<string, any>): string {
     const key = `${ruleId}:${metric}:${metadata.component || ''}:${metadata.operation || ''}`;
-    return Buffer.from(key).toString('base64').substr(0, 16);
+    // Hash the whole key; a truncated encoding only covered the rule id and merged unrelated alerts
+    return createHash('sha256').update(key).digest('hex').substr(0, 16);
   }
 
   private getSeverityEmoji(severity: AlertSeverity): string {
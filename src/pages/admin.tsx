@@ -9,6 +9,7 @@ import { useAuth } from '../context/AuthContext';
 import AdminDashboard from '../components/admin/AdminDashboard';
 import { AdminUser } from '../types/admin';
 import Head from 'next/head';
+import { portalFetch } from '../lib/portal-fetch';
 
 const AdminPage: React.FC = () => {
   const router = useRouter();
@@ -23,19 +24,8 @@ const AdminPage: React.FC = () => {
 
   const checkAdminAccess = async () => {
     try {
-      // Check if user is authenticated
-      const token = localStorage.getItem('accessToken');
-      if (!token) {
-        router.push('/admin/login');
-        return;
-      }
-
       // Verify admin access
-      const response = await fetch('/api/admin/dashboard', {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const response = await portalFetch('/api/admin/dashboard');
 
       if (response.status === 401) {
         router.push('/admin/login');
@@ -53,11 +43,7 @@ const AdminPage: React.FC = () => {
       }
 
       // Get current admin user info
-      const userResponse = await fetch('/api/admin/users', {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const userResponse = await portalFetch('/api/admin/users');
 
       if (userResponse.ok) {
         const users = await userResponse.json();
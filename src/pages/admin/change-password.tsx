@@ -7,6 +7,7 @@ import { useRouter } from 'next/router';
 import Head from 'next/head';
 import Link from 'next/link';
 import { FaEye, FaEyeSlash, FaCheck, FaTimes } from 'react-icons/fa';
+import { portalFetch } from '../../lib/portal-fetch';
 
 interface PasswordRequirement {
   label: string;
@@ -79,7 +80,7 @@ const ChangePasswordPage: React.FC = () => {
     }
 
     try {
-      const response = await fetch('/api/admin/auth/change-password', {
+      const response = await portalFetch('/api/admin/auth/change-password', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
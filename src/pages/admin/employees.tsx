@@ -17,6 +17,7 @@ import {
 } from 'react-icons/fa';
 import EmployeeApprovalSystem from '../../components/admin/EmployeeApprovalSystem';
 import { EmployeeAccount } from '../../types/admin';
+import { portalFetch } from '../../lib/portal-fetch';
 
 const AdminEmployeesPage: React.FC = () => {
   const [employees, setEmployees] = useState<EmployeeAccount[]>([]);
@@ -28,17 +29,7 @@ const AdminEmployeesPage: React.FC = () => {
 
   const loadEmployees = async () => {
     try {
-      const token = localStorage.getItem('accessToken');
-      if (!token) {
-        console.error('No access token found');
-        return;
-      }
-
-      const response = await fetch('/api/admin/employees?action=pending', {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const response = await portalFetch('/api/admin/employees?action=pending');
 
       if (!response.ok) {
         throw new Error('Failed to load employees');
@@ -107,14 +98,10 @@ const AdminEmployeesPage: React.FC = () => {
 
   const handleApprove = async (employeeId: string, notes?: string) => {
     try {
-      const token = localStorage.getItem('accessToken');
-      if (!token) return;
-
-      const response = await fetch(`/api/admin/employees?employeeId=${employeeId}&action=approve`, {
+      const response = await portalFetch(`/api/admin/employees?employeeId=${employeeId}&action=approve`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({ notes })
       });
@@ -134,14 +121,10 @@ const AdminEmployeesPage: React.FC = () => {
 
   const handleReject = async (employeeId: string, reason: string) => {
     try {
-      const token = localStorage.getItem('accessToken');
-      if (!token) return;
-
-      const response = await fetch(`/api/admin/employees?employeeId=${employeeId}&action=reject`, {
+      const response = await portalFetch(`/api/admin/employees?employeeId=${employeeId}&action=reject`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({ reason })
       });
@@ -160,14 +143,10 @@ const AdminEmployeesPage: React.FC = () => {
 
   const handleBulkApprove = async (employeeIds: string[], notes?: string) => {
     try {
-      const token = localStorage.getItem('accessToken');
-      if (!token) return;
-
-      const response = await fetch('/api/admin/bulk-actions', {
+      const response = await portalFetch('/api/admin/bulk-actions', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({ 
           action: 'approve_employees', 
@@ -191,14 +170,10 @@ const AdminEmployeesPage: React.FC = () => {
 
   const handleBulkReject = async (employeeIds: string[], reason: string) => {
     try {
-      const token = localStorage.getItem('accessToken');
-      if (!token) return;
-
-      const response = await fetch('/api/admin/bulk-actions', {
+      const response = await portalFetch('/api/admin/bulk-actions', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({ 
           action: 'reject_employees', 
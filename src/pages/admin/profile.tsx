@@ -4,6 +4,7 @@ import Head from 'next/head';
 import { FaArrowLeft, FaUser, FaEnvelope, FaKey, FaSave } from 'react-icons/fa';
 import PasswordStrengthIndicator from '@/components/PasswordStrengthIndicator';
 import { validatePassword } from '@/utils/passwordValidation';
+import { portalFetch } from '@/lib/portal-fetch';
 
 export default function ProfileManagement() {
   const router = useRouter();
@@ -29,18 +30,8 @@ export default function ProfileManagement() {
   }, []);
 
   const loadProfile = async () => {
-    const token = localStorage.getItem('accessToken');
-    if (!token) {
-      router.push('/admin/login');
-      return;
-    }
-
     try {
-      const response = await fetch('/api/auth/me', {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const response = await portalFetch('/api/auth/me');
 
       if (response.ok) {
         const data = await response.json();
@@ -69,11 +60,9 @@ export default function ProfileManagement() {
     setMessage('');
 
     try {
-      const token = localStorage.getItem('accessToken');
-      const response = await fetch('/api/admin/profile', {
+      const response = await portalFetch('/api/admin/profile', {
         method: 'PUT',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
@@ -117,11 +106,9 @@ export default function ProfileManagement() {
     setMessage('');
 
     try {
-      const token = localStorage.getItem('accessToken');
-      const response = await fetch('/api/admin/auth/change-password', {
+      const response = await portalFetch('/api/admin/auth/change-password', {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
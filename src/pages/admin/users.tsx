@@ -8,6 +8,7 @@ import Head from 'next/head';
 import { FaArrowLeft, FaUsers, FaPlus, FaEdit, FaTrash, FaShieldAlt, FaUserTie } from 'react-icons/fa';
 import UserManagementTable from '../../components/admin/UserManagementTable';
 import { AdminUser } from '../../types/admin';
+import { portalFetch } from '../../lib/portal-fetch';
 
 const AdminUsersPage: React.FC = () => {
   const [users, setUsers] = useState<AdminUser[]>([]);
@@ -19,17 +20,7 @@ const AdminUsersPage: React.FC = () => {
 
   const loadUsers = async () => {
     try {
-      const token = localStorage.getItem('accessToken');
-      if (!token) {
-        console.error('No access token found');
-        return;
-      }
-
-      const response = await fetch('/api/admin/users', {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const response = await portalFetch('/api/admin/users');
 
       if (!response.ok) {
         throw new Error('Failed to load users');
@@ -110,14 +101,10 @@ const AdminUsersPage: React.FC = () => {
 
   const handleUserUpdate = async (userId: string, updates: Partial<AdminUser>) => {
     try {
-      const token = localStorage.getItem('accessToken');
-      if (!token) return;
-
-      const response = await fetch(`/api/admin/users?userId=${userId}`, {
+      const response = await portalFetch(`/api/admin/users?userId=${userId}`, {
         method: 'PUT',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({ updates })
       });
@@ -137,14 +124,8 @@ const AdminUsersPage: React.FC = () => {
 
   const handleUserDelete = async (userId: string) => {
     try {
-      const token = localStorage.getItem('accessToken');
-      if (!token) return;
-
-      const response = await fetch(`/api/admin/users?userId=${userId}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
+      const response = await portalFetch(`/api/admin/users?userId=${userId}`, {
+        method: 'DELETE'
       });
 
       if (response.ok) {
@@ -165,14 +146,10 @@ const AdminUsersPage: React.FC = () => {
 
   const handleBulkAction = async (action: string, userIds: string[], data?: any) => {
     try {
-      const token = localStorage.getItem('accessToken');
-      if (!token) return;
-
-      const response = await fetch('/api/admin/bulk-actions', {
+      const response = await portalFetch('/api/admin/bulk-actions', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({ action, targets: userIds, data })
       });
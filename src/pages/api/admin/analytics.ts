@@ -6,8 +6,7 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { withSecurity } from '../../../middleware/cors';
 import { withServiceStatusCheck } from '../../../middleware/maintenanceMode';
-import { secureCookieManager } from '../../../lib/secure-cookie-auth';
-import jwt from 'jsonwebtoken';
+import { withAuth } from '../../../middleware/withAuth';
 import fs from 'fs';
 import path from 'path';
 
@@ -184,18 +183,6 @@ updateHistoricalData(analyticsStore);
 
 async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
-    // For GET requests (viewing analytics), require authentication
-    if (req.method === 'GET') {
-      // Use secure cookie authentication instead of JWT tokens
-      const authResult = await secureCookieManager.getAuthFromCookies(req);
-      if (!authResult.success || !authResult.user || authResult.user.role !== 'admin') {
-        return res.status(401).json({ 
-          error: 'Authentication required or insufficient permissions',
-          message: authResult.message
-        });
-      }
-    }
-
     // For POST requests (tracking), allow without authentication but with basic validation
     if (req.method === 'POST') {
       // Basic rate limiting check (optional)
@@ -436,5 +423,13 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   }
 }
 
+const adminHandler = withAuth({ roles: ['admin'] })(handler);
+
+// Page views are tracked from every visitor; viewing and resetting analytics is for admins
+async function routeHandler(req: NextApiRequest, res: NextApiResponse) {
+  const isTracking = req.method === 'POST' && req.body?.action !== 'reset';
+  return isTracking ? handler(req, res) : adminHandler(req, res);
+}
+
 // Export with service status check for analytics module
-export default withSecurity(withServiceStatusCheck(handler, 'analytics'));
\ No newline at end of file
+export default withSecurity(withServiceStatusCheck(routeHandler, 'analytics'));
\ No newline at end of file
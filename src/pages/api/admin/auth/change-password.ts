@@ -1,15 +1,15 @@
 /**
  * Admin Change Password API Endpoint
- * SECURITY: Uses secure cookie authentication and password validation
+ * SECURITY: Requires the admin's cookie session and CSRF token, and validates password strength
  */
 
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import { simpleAuthService } from '../../../../services/SimpleAuthService';
 import { withSecurity } from '../../../../middleware/cors';
-import { secureCookieManager } from '../../../../lib/secure-cookie-auth';
+import { AuthenticatedRequest, withAuth } from '../../../../middleware/withAuth';
 import { passwordSecurity } from '../../../../lib/password-security';
 
-async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     res.setHeader('Allow', ['POST']);
     return res.status(405).json({ 
@@ -20,39 +20,6 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   }
 
   try {
-    // Authenticate user with secure cookies
-    const authResult = await secureCookieManager.getAuthFromCookies(req);
-    
-    console.log('🔐 Cookie auth result:', {
-      success: authResult.success,
-      message: authResult.message,
-      hasCookies: !!req.headers.cookie
-    });
-    
-    if (!authResult.success) {
-      return res.status(401).json({
-        success: false,
-        message: authResult.message || 'Authentication required',
-        error: 'UNAUTHORIZED'
-      });
-    }
-
-    // Validate CSRF token
-    const csrfValid = secureCookieManager.validateCSRFToken(req);
-    console.log('🔐 CSRF validation result:', {
-      valid: csrfValid,
-      headerToken: req.headers['x-csrf-token'],
-      bodyToken: req.body?.csrfToken
-    });
-    
-    if (!csrfValid) {
-      return res.status(403).json({
-        success: false,
-        message: 'CSRF validation failed',
-        error: 'CSRF_VALIDATION_FAILED'
-      });
-    }
-
     const { currentPassword, newPassword } = req.body;
 
     // Input validation
@@ -79,29 +46,15 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       });
     }
 
-    // Get user email from session (more secure than client-provided email)
-    const userEmail = authResult.user?.email;
-    console.log('🔐 Session user info:', {
-      hasUser: !!authResult.user,
-      email: userEmail,
-      sessionId: authResult.sessionId
-    });
-    
-    if (!userEmail) {
-      console.log('❌ User email not found in session');
-      return res.status(401).json({
-        success: false,
-        message: 'User email not found in session',
-        error: 'INVALID_SESSION'
-      });
-    }
+    // Taken from the session, never from the request body
+    const userEmail = req.user.email;
 
     // Log password change attempt
     const clientIP = req.headers['x-forwarded-for'] || req.connection.remoteAddress;
     console.log(`Password change attempt for ${userEmail} from IP: ${clientIP} at ${new Date().toISOString()}`);
 
     console.log(`🔐 Calling changePassword for ${userEmail}`);
-    const result = await simpleAuthService.changePassword(userEmail, currentPassword, newPassword);
+    const result = await simpleAuthService.changePassword(userEmail, currentPassword, newPassword, req.session.sessionId);
     console.log('🔐 Password change result:', {
       success: result.success,
       message: result.message
@@ -109,15 +62,8 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
 
     if (result.success) {
       console.log(`Successful password change for ${userEmail} at ${new Date().toISOString()}`);
-      
-      // Update authentication cookies with new token
-      if (result.token) {
-        secureCookieManager.setAuthCookies(res, {
-          accessToken: result.token,
-          refreshToken: result.token,
-          sessionId: authResult.sessionId!
-        });
-      }
+
+      // Other sessions were signed out; this one carries on with the same cookies
       
       return res.status(200).json({
         success: true,
@@ -155,4 +101,4 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   }
 }
 
-export default withSecurity(handler);
\ No newline at end of file
+export default withSecurity(withAuth({ roles: ['admin'] })(handler));
\ No newline at end of file
@@ -1,13 +1,13 @@
 /**
  * Admin Login API Endpoint
- * SECURITY: Uses secure cookie authentication instead of client-side JWT
+ * SECURITY: Starts an HttpOnly cookie session instead of returning a token
  */
 
 import { NextApiRequest, NextApiResponse } from 'next';
 import { simpleAuthService } from '../../../../services/SimpleAuthService';
 import { withSecurity } from '../../../../middleware/cors';
 import { withAuthRateLimit } from '../../../../middleware/rateLimit';
-import { secureCookieManager } from '../../../../lib/secure-cookie-auth';
+import { sessionService } from '../../../../services/SessionService';
 
 async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -73,7 +73,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
     console.log(`Admin login attempt from IP: ${clientIP}, Email: ${email}`);
     
     // Login with secure authentication
-    const result = await simpleAuthService.login(email, password, rememberMe || false, clientIP, userAgent);
+    const result = await simpleAuthService.login(email, password, clientIP, userAgent);
     
     // Track login attempt in analytics
     try {
@@ -95,6 +95,26 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       console.error('Analytics tracking failed:', analyticsError);
     }
     
+    // Password accepted; the session is issued by /api/admin/auth/two-factor once the code is verified
+    if (result.requiresTwoFactor) {
+      if (result.user?.role !== 'admin') {
+        return res.status(403).json({
+          success: false,
+          message: 'Access denied. Admin role required.',
+          error: 'INSUFFICIENT_PERMISSIONS'
+        });
+      }
+
+      return res.status(202).json({
+        success: false,
+        requiresTwoFactor: true,
+        enrollmentRequired: result.twoFactorEnrollmentRequired,
+        challengeToken: result.challengeToken,
+        message: result.message,
+        error: 'TWO_FACTOR_REQUIRED'
+      });
+    }
+
     if (result.success) {
       // Log successful login
       console.log(`Admin login: ${email} at ${new Date().toISOString()}`);
@@ -108,14 +128,9 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         });
       }
       
-      // Set secure authentication cookies instead of returning JWT token
-      secureCookieManager.setAuthCookies(res, {
-        accessToken: result.token!,
-        refreshToken: result.token!, // In production, use separate refresh token
-        sessionId: result.sessionId!
-      });
+      // Set the HttpOnly session cookie instead of returning a token
+      await sessionService.startSession(req, res, result.user.id, rememberMe || false);
       
-      // Return result without exposing the token
       return res.status(200).json({
         success: true,
         user: result.user,
@@ -127,10 +142,11 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       // Log failed login
       console.warn(`Admin login failed: ${email} at ${new Date().toISOString()}`);
       
-      return res.status(401).json({
+      return res.status(result.accountLocked ? 423 : 401).json({
         success: false,
         message: result.message,
-        error: 'LOGIN_FAILED'
+        error: result.accountLocked ? 'ACCOUNT_LOCKED' : 'LOGIN_FAILED',
+        lockedUntil: result.lockedUntil
       });
     }
   } catch (error) {
@@ -1,13 +1,12 @@
 /**
  * Admin Password Reset API Endpoint
- * SECURITY: Uses secure password validation and cookie authentication
+ * SECURITY: Uses secure password validation; every session ends and the user signs in again
  */
 
 import { NextApiRequest, NextApiResponse } from 'next';
 import { simpleAuthService } from '../../../../services/SimpleAuthService';
 import { withSecurity } from '../../../../middleware/cors';
 import { withAuthRateLimit } from '../../../../middleware/rateLimit';
-import { secureCookieManager } from '../../../../lib/secure-cookie-auth';
 import { passwordSecurity } from '../../../../lib/password-security';
 
 async function handler(req: NextApiRequest, res: NextApiResponse) {
@@ -57,20 +56,10 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
     if (resetResult.success) {
       console.log(`Password reset successful for token: ${token.substring(0, 8)}... at ${new Date().toISOString()}`);
       
-      // Set secure authentication cookies for the user
-      if (resetResult.token) {
-        secureCookieManager.setAuthCookies(res, {
-          accessToken: resetResult.token,
-          refreshToken: resetResult.token,
-          sessionId: `session_${Date.now()}_${Math.random()}`
-        });
-      }
-      
       return res.status(200).json({
         success: true,
         user: resetResult.user,
-        message: resetResult.message,
-        authMethod: 'secure_cookies'
+        message: resetResult.message
       });
     }
 
@@ -0,0 +1,70 @@
+/**
+ * Admin Two-Factor Login API Endpoint
+ * Second sign-in step: verifies the authenticator or recovery code, then starts the cookie session
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { simpleAuthService } from '../../../../services/SimpleAuthService';
+import { withSecurity } from '../../../../middleware/cors';
+import { sessionService } from '../../../../services/SessionService';
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({
+      success: false,
+      message: `Method ${req.method} not allowed`,
+      error: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  try {
+    const { challengeToken, code, rememberMe } = req.body || {};
+    if (typeof challengeToken !== 'string' || !challengeToken || typeof code !== 'string' || !code.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Verification code is required.',
+        error: 'INVALID_REQUEST_FORMAT'
+      });
+    }
+
+    const result = await simpleAuthService.completeTwoFactorLogin(challengeToken, code);
+    if (!result.success) {
+      return res.status(result.accountLocked ? 423 : 401).json({
+        success: false,
+        message: result.message,
+        error: result.accountLocked ? 'ACCOUNT_LOCKED' : 'TWO_FACTOR_FAILED',
+        lockedUntil: result.lockedUntil
+      });
+    }
+
+    // The challenge came from the admin login, but the role is checked again before any cookie is set
+    if (result.user?.role !== 'admin') {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied. Admin role required.',
+        error: 'INSUFFICIENT_PERMISSIONS'
+      });
+    }
+
+    await sessionService.startSession(req, res, result.user.id, rememberMe || false);
+
+    return res.status(200).json({
+      success: true,
+      user: result.user,
+      message: result.message,
+      requiresPasswordChange: result.requiresPasswordChange,
+      recoveryCodes: result.recoveryCodes,
+      authMethod: 'secure_cookies'
+    });
+  } catch (error) {
+    console.error('Admin two-factor login error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: 'SERVER_ERROR'
+    });
+  }
+}
+
+export default withSecurity(handler);
\ No newline at end of file
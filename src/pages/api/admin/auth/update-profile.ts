@@ -1,15 +1,18 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import { simpleAuthService } from '@/services/SimpleAuthService';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ success: false, message: 'Method not allowed' });
   }
 
   try {
-    const { currentEmail, firstName, lastName, email } = req.body;
+    const { firstName, lastName, email } = req.body;
+    // Only the signed-in admin's own profile can be changed
+    const currentEmail = req.user.email;
 
-    if (!currentEmail || !firstName || !lastName || !email) {
+    if (!firstName || !lastName || !email) {
       return res.status(400).json({ 
         success: false, 
         message: 'All fields are required' 
@@ -50,4 +53,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       message: 'Internal server error' 
     });
   }
-}
\ No newline at end of file
+}
+
+export default withAuth({ roles: ['admin'] })(handler);
\ No newline at end of file
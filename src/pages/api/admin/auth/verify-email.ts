@@ -3,9 +3,7 @@
  */
 
 import { NextApiRequest, NextApiResponse } from 'next';
-import { AdminAuthService } from '../../../../services/AdminAuthService';
-
-const authService = new AdminAuthService();
+import { secureUserManager } from '../../../../lib/secure-user-manager';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -19,7 +17,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(400).json({ message: 'Verification token is required' });
     }
 
-    const result = await authService.verifyEmail(token);
+    const result = await secureUserManager.verifyEmail(token);
 
     if (result.success) {
       res.status(200).json({
@@ -1,31 +1,45 @@
 /**
  * Admin Bulk Actions API Endpoint
- * Handle bulk operations for user and employee management
+ * Handle bulk operations for user, employee and quote management
  */
 
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import { AdminUserService } from '../../../services/AdminUserService';
-import { withAdminAuth } from '../../../middleware/withAdminAuth';
+import { AuthenticatedRequest, withAuth } from '../../../middleware/withAuth';
 import { ADMIN_PERMISSIONS } from '../../../types/admin';
-
-interface AdminApiRequest extends NextApiRequest {
-  user?: {
-    id: string;
-    email: string;
-    adminLevel: string;
-  };
-}
+import { cqrsContainer } from '../../../infrastructure/cqrs/CQRSContainer';
+import { QuoteProcessingCommandResult } from '../../../application/commands/quote/ProcessQuoteCommand';
 
 const adminService = new AdminUserService();
 
-async function handler(req: AdminApiRequest, res: NextApiResponse) {
+// Runs one quote command per target; each target succeeds or fails on its own
+async function runQuoteCommands(
+  targets: string[],
+  dispatch: (quoteId: string) => Promise<QuoteProcessingCommandResult>
+) {
+  const results = [];
+  for (const quoteId of targets) {
+    try {
+      const result = await dispatch(quoteId);
+      results.push(result.success
+        ? { id: quoteId, success: true, result: result.data }
+        : { id: quoteId, success: false, error: result.errors?.[0]?.message || result.message });
+    } catch (error) {
+      results.push({ 
+        id: quoteId, 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+    }
+  }
+  return results;
+}
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   const { method } = req;
 
   try {
-    const userId = req.user?.id;
-    if (!userId) {
-      return res.status(401).json({ error: 'Unauthorized' });
-    }
+    const userId = req.user.id;
 
     switch (method) {
       case 'POST':
@@ -215,6 +229,51 @@ async function handler(req: AdminApiRequest, res: NextApiResponse) {
               successful: deactivatedResults.filter(r => r.success).length
             });
 
+          case 'assign_quotes':
+          case 'annotate_quotes':
+          case 'review_quotes':
+          case 'reopen_quotes':
+          case 'decline_quotes':
+            const canManageQuotes = await adminService.hasAdminPermission(
+              userId,
+              action === 'assign_quotes'
+                ? ADMIN_PERMISSIONS.QUOTE_MANAGEMENT.ASSIGN_QUOTE
+                : ADMIN_PERMISSIONS.QUOTE_MANAGEMENT.PROCESS_QUOTE
+            );
+
+            if (!canManageQuotes) {
+              return res.status(403).json({ error: 'Insufficient permissions' });
+            }
+
+            if (action === 'annotate_quotes' && typeof data?.notes !== 'string') {
+              return res.status(400).json({ error: 'Notes required' });
+            }
+
+            const quotes = cqrsContainer.quoteApplicationService;
+            const actorId = req.user.email;
+            const quoteResults = await runQuoteCommands(targets, quoteId => {
+              switch (action) {
+                case 'assign_quotes':
+                  // Without an assignee each quote goes to the next estimator in rotation
+                  return quotes.assignQuote({ quoteId, userId: actorId, assignee: data?.assignee || undefined });
+                case 'annotate_quotes':
+                  return quotes.annotateQuote({ quoteId, userId: actorId, notes: data.notes });
+                case 'review_quotes':
+                  return quotes.moveQuoteToReview({ quoteId, userId: actorId });
+                case 'reopen_quotes':
+                  return quotes.reopenQuote({ quoteId, userId: actorId });
+                default:
+                  return quotes.rejectQuote({ quoteId, userId: actorId, reason: data?.reason || 'Declined by staff' });
+              }
+            });
+
+            return res.status(200).json({
+              action,
+              results: quoteResults,
+              total: targets.length,
+              successful: quoteResults.filter(r => r.success).length
+            });
+
           default:
             return res.status(400).json({ error: 'Invalid action' });
         }
@@ -232,4 +291,4 @@ async function handler(req: AdminApiRequest, res: NextApiResponse) {
   }
 }
 
-export default withAdminAuth(handler);
\ No newline at end of file
+export default withAuth({ roles: ['admin'] })(handler);
\ No newline at end of file
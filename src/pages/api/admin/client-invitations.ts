@@ -0,0 +1,58 @@
+/**
+ * Admin Client Invitations API Endpoint
+ * Sends (or re-sends) the client portal invitation for a contract and lists invitations by email
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { getClientAccountService, getContractRepository } from '@/infrastructure/repositories/RepositoryProvider';
+import { DomainError } from '@/domain/shared/DomainError';
+import { toClientInvitation } from '@/presentation/api/ClientPortalPresenter';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const clientAccountService = await getClientAccountService();
+
+    if (req.method === 'GET') {
+      const { email } = req.query;
+      if (typeof email !== 'string' || !email) {
+        return res.status(400).json({ success: false, error: 'email is required' });
+      }
+      const invitations = await clientAccountService.listInvitationsForEmail(email);
+      return res.status(200).json({ success: true, invitations: invitations.map(toClientInvitation) });
+    }
+
+    const { contractId } = req.body || {};
+    const contract = typeof contractId === 'string' && contractId
+      ? await (await getContractRepository()).findByContractId(contractId.trim().toUpperCase())
+      : null;
+    if (!contract) {
+      return res.status(404).json({ success: false, error: 'Contract not found' });
+    }
+
+    try {
+      const invitation = await clientAccountService.inviteFromContract(contract, req.user.email);
+      return res.status(200).json({
+        success: true,
+        invitation: invitation ? toClientInvitation(invitation) : null,
+        message: invitation
+          ? `Invitation sent to ${invitation.email.value}`
+          : `${contract.email.value} already has an account; the contract was linked to it`
+      });
+    } catch (error) {
+      if (error instanceof DomainError) {
+        return res.status(400).json({ success: false, error: error.message, code: error.errorCode });
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error('Admin client invitation error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'] })(handler);
\ No newline at end of file
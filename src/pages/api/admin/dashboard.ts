@@ -3,24 +3,15 @@
  * Provide dashboard statistics and system health information
  */
 
-import { NextApiRequest, NextApiResponse } from 'next';
-import { secureCookieManager } from '../../../lib/secure-cookie-auth';
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '../../../middleware/withAuth';
 import { withSecurity } from '../../../middleware/cors';
 
-async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   const { method } = req;
 
   try {
-    // Check authentication using secure cookies
-    const authResult = await secureCookieManager.getAuthFromCookies(req);
-    if (!authResult.success || !authResult.user || authResult.user.role !== 'admin') {
-      return res.status(401).json({ 
-        error: 'Authentication required or insufficient permissions',
-        message: authResult.message
-      });
-    }
-
-    const user = authResult.user;
+    const user = req.user;
 
     switch (method) {
       case 'GET':
@@ -58,4 +49,4 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   }
 }
 
-export default withSecurity(handler);
\ No newline at end of file
+export default withSecurity(withAuth({ roles: ['admin'] })(handler));
\ No newline at end of file
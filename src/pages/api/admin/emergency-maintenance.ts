@@ -3,11 +3,11 @@
  * The "Big Red Button" for immediate site shutdown
  */
 
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import { withSecurity } from '../../../middleware/cors';
+import { AuthenticatedRequest, withAuth } from '../../../middleware/withAuth';
 import * as fs from 'fs';
 import * as path from 'path';
-import jwt from 'jsonwebtoken';
 
 interface EmergencyMaintenanceRequest {
   action: 'enable' | 'disable';
@@ -18,64 +18,23 @@ interface EmergencyMaintenanceRequest {
 const MAINTENANCE_FILE = path.join(process.cwd(), 'data', 'maintenance.json');
 const SERVICE_STATUS_FILE = path.join(process.cwd(), 'data', 'service-status.json');
 
-async function handler(req: NextApiRequest, res: NextApiResponse) {
-  // Super admin authentication check
-  let decoded: any;
-  
-  try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({
-        success: false,
-        message: 'Access denied. Authorization required.',
-        error: 'NO_AUTH_HEADER'
-      });
-    }
-
-    const token = authHeader.substring(7);
-    const secret = process.env.JWT_SECRET || 'your-secret-key';
-    
-    try {
-      decoded = jwt.verify(token, secret);
-    } catch (jwtError) {
-      return res.status(401).json({
-        success: false,
-        message: 'Invalid or expired token',
-        error: 'INVALID_TOKEN'
-      });
-    }
-
-    // Check if user is the super admin
-    if (!decoded.email || decoded.email !== 'citylife32@outlook.com') {
-      return res.status(403).json({
-        success: false,
-        message: 'Access denied. Super admin privileges required.',
-        error: 'INSUFFICIENT_PERMISSIONS'
-      });
-    }
-
-  } catch (error) {
-    console.error('❌ Emergency maintenance auth error:', error);
-    return res.status(500).json({
-      success: false,
-      message: 'Authentication error',
-      error: 'AUTH_ERROR'
-    });
-  }
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  // Super admin only; the guard checks the system administration permission
+  const adminEmail = req.user.email;
 
   if (req.method === 'POST') {
     const { action, reason, estimatedDuration }: EmergencyMaintenanceRequest = req.body;
 
     try {
       if (action === 'enable') {
-        console.log('🚨 EMERGENCY MAINTENANCE ACTIVATED by:', decoded.email);
+        console.log('🚨 EMERGENCY MAINTENANCE ACTIVATED by:', adminEmail);
         
         // Create emergency maintenance mode
         const maintenanceData = {
           enabled: true,
           message: reason || 'Emergency maintenance in progress. We apologize for the inconvenience and will be back online shortly.',
           enabledAt: new Date().toISOString(),
-          enabledBy: decoded.email,
+          enabledBy: adminEmail,
           isEmergency: true,
           estimatedDuration: estimatedDuration || 'Unknown',
           reason: reason || 'Emergency maintenance'
@@ -102,13 +61,13 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
             authentication: false
           },
           lastUpdated: new Date().toISOString(),
-          updatedBy: decoded.email,
+          updatedBy: adminEmail,
           emergencyShutdown: true,
           adminNotes: {
             emergency: {
               message: 'EMERGENCY SHUTDOWN: All services disabled for emergency maintenance',
               disabledAt: new Date().toISOString(),
-              disabledBy: decoded.email,
+              disabledBy: adminEmail,
               reason: reason || 'Emergency maintenance'
             }
           }
@@ -135,7 +94,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         });
 
       } else if (action === 'disable') {
-        console.log('✅ EMERGENCY MAINTENANCE DEACTIVATED by:', decoded.email);
+        console.log('✅ EMERGENCY MAINTENANCE DEACTIVATED by:', adminEmail);
         
         // Remove maintenance mode
         if (fs.existsSync(MAINTENANCE_FILE)) {
@@ -154,7 +113,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
             authentication: true
           },
           lastUpdated: new Date().toISOString(),
-          updatedBy: decoded.email,
+          updatedBy: adminEmail,
           emergencyShutdown: false
         };
 
@@ -231,4 +190,4 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   });
 }
 
-export default withSecurity(handler);
\ No newline at end of file
+export default withSecurity(withAuth({ roles: ['admin'], permissions: ['admin:system'] })(handler));
\ No newline at end of file
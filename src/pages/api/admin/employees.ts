@@ -3,31 +3,19 @@
  * Handle employee approval, rejection, and management operations
  */
 
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import { AdminUserService } from '../../../services/AdminUserService';
-import { withAdminAuth } from '../../../middleware/withAdminAuth';
+import { AuthenticatedRequest, withAuth } from '../../../middleware/withAuth';
 import { ADMIN_PERMISSIONS } from '../../../types/admin';
 
-interface AdminApiRequest extends NextApiRequest {
-  user?: {
-    id: string;
-    email: string;
-    adminLevel: string;
-  };
-}
-
 const adminService = new AdminUserService();
 
-async function handler(req: AdminApiRequest, res: NextApiResponse) {
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   const { method } = req;
   const { employeeId, action } = req.query;
 
   try {
-    const userId = req.user?.id;
-
-    if (!userId) {
-      return res.status(401).json({ error: 'Unauthorized' });
-    }
+    const userId = req.user.id;
 
     switch (method) {
       case 'GET':
@@ -118,4 +106,4 @@ async function handler(req: AdminApiRequest, res: NextApiResponse) {
   }
 }
 
-export default withAdminAuth(handler);
\ No newline at end of file
+export default withAuth({ roles: ['admin'], permissions: ['admin:users'] })(handler);
\ No newline at end of file
@@ -0,0 +1,78 @@
+/**
+ * Admin Equipment Item API Endpoint
+ * Check-out to crews, returns, maintenance and retirement for one asset
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { DomainError } from '@/domain/shared/DomainError';
+import { UniqueEntityId } from '@/domain/shared/UniqueEntityId';
+import { getEquipmentRepository } from '@/infrastructure/repositories/RepositoryProvider';
+import { toEquipmentResponse } from '@/presentation/api/InventoryPresenter';
+
+const ACTIONS = ['check_out', 'check_in', 'start_maintenance', 'complete_maintenance', 'set_interval', 'retire'];
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'PATCH') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const adminEmail: string = req.user.email;
+
+    const { id } = req.query;
+    const equipmentRepository = await getEquipmentRepository();
+    const equipment = typeof id === 'string' && UniqueEntityId.isValid(id)
+      ? await equipmentRepository.findById(UniqueEntityId.create(id))
+      : null;
+
+    if (!equipment) {
+      return res.status(404).json({ success: false, error: 'Equipment not found' });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ success: true, equipment: toEquipmentResponse(equipment, true) });
+    }
+
+    const { action, crew, dueBackAt, notes, days } = req.body || {};
+    try {
+      switch (action) {
+        case 'check_out':
+          equipment.checkOut(String(crew ?? ''), adminEmail, dueBackAt ? new Date(String(dueBackAt)) : undefined);
+          break;
+        case 'check_in':
+          equipment.checkIn(adminEmail, notes);
+          break;
+        case 'start_maintenance':
+          equipment.startMaintenance();
+          break;
+        case 'complete_maintenance':
+          equipment.completeMaintenance(adminEmail, notes);
+          break;
+        case 'set_interval':
+          equipment.changeMaintenanceInterval(Number(days));
+          break;
+        case 'retire':
+          equipment.retire();
+          break;
+        default:
+          return res.status(400).json({ success: false, error: `Action must be one of: ${ACTIONS.join(', ')}` });
+      }
+    } catch (domainError) {
+      if (domainError instanceof DomainError) {
+        return res.status(400).json({ success: false, error: domainError.message, code: domainError.errorCode });
+      }
+      throw domainError;
+    }
+
+    await equipmentRepository.save(equipment);
+    equipment.markEventsAsCommitted();
+
+    return res.status(200).json({ success: true, equipment: toEquipmentResponse(equipment, true) });
+  } catch (error) {
+    console.error('Equipment update error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'] })(handler);
\ No newline at end of file
@@ -0,0 +1,74 @@
+/**
+ * Admin Equipment API Endpoint
+ * Lists the equipment registry and registers new assets
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { BusinessRuleViolationError, DomainError } from '@/domain/shared/DomainError';
+import { Equipment, EquipmentStatus, EQUIPMENT_CATEGORIES } from '@/domain/inventory/Equipment';
+import { getEquipmentRepository } from '@/infrastructure/repositories/RepositoryProvider';
+import { toEquipmentResponse } from '@/presentation/api/InventoryPresenter';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const equipmentRepository = await getEquipmentRepository();
+
+    if (req.method === 'GET') {
+      const { status } = req.query;
+      if (typeof status === 'string' && status && !Object.values(EquipmentStatus).includes(status as EquipmentStatus)) {
+        return res.status(400).json({
+          success: false,
+          error: `Status must be one of: ${Object.values(EquipmentStatus).join(', ')}`
+        });
+      }
+
+      const equipment = typeof status === 'string' && status
+        ? await equipmentRepository.findByStatus(status as EquipmentStatus)
+        : await equipmentRepository.findAll();
+
+      return res.status(200).json({
+        success: true,
+        equipment: equipment.map(item => toEquipmentResponse(item)),
+        categories: EQUIPMENT_CATEGORIES,
+        maintenanceOverdueCount: equipment.filter(item => item.isMaintenanceOverdue()).length
+      });
+    }
+
+    const body = req.body || {};
+    let equipment: Equipment;
+    try {
+      equipment = Equipment.create({
+        assetTag: String(body.assetTag ?? ''),
+        name: String(body.name ?? ''),
+        category: String(body.category ?? ''),
+        yard: String(body.yard ?? ''),
+        maintenanceIntervalDays: Number(body.maintenanceIntervalDays),
+        maintenanceDueAt: body.maintenanceDueAt ? new Date(String(body.maintenanceDueAt)) : undefined
+      });
+
+      if (await equipmentRepository.findByAssetTag(equipment.assetTag)) {
+        throw new BusinessRuleViolationError('Asset tag is already registered', equipment.assetTag);
+      }
+    } catch (domainError) {
+      if (domainError instanceof DomainError) {
+        return res.status(400).json({ success: false, error: domainError.message, code: domainError.errorCode });
+      }
+      throw domainError;
+    }
+
+    await equipmentRepository.save(equipment);
+    equipment.markEventsAsCommitted();
+
+    return res.status(201).json({ success: true, equipment: toEquipmentResponse(equipment) });
+  } catch (error) {
+    console.error('Equipment error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'] })(handler);
\ No newline at end of file
@@ -5,6 +5,7 @@
 
 import { NextApiResponse } from 'next';
 import { withSecurity } from '../../../middleware/cors';
+import { withAuth } from '../../../middleware/withAuth';
 import { withAdminRateLimit, getAllRateLimits } from '../../../middleware/rateLimit';
 import { envConfig } from '../../../lib/env-validation';
 import { logger } from '../../../lib/logger';
@@ -383,4 +384,4 @@ function getConfigurationInfo(): HealthResponse['configuration'] {
   };
 }
 
-export default withSecurity(withAdminRateLimit(handler));
\ No newline at end of file
+export default withSecurity(withAuth({ roles: ['admin'] })(withAdminRateLimit(handler)));
\ No newline at end of file
@@ -0,0 +1,75 @@
+/**
+ * Admin Inventory Item API Endpoint
+ * Movement history, reorder policy changes, restocks and physical stock counts for one SKU
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { DomainError } from '@/domain/shared/DomainError';
+import { UniqueEntityId } from '@/domain/shared/UniqueEntityId';
+import { InventoryItem, ServiceLogMaterial } from '@/domain/inventory/InventoryItem';
+import { getInventoryItemRepository, getInventoryService } from '@/infrastructure/repositories/RepositoryProvider';
+import { toInventoryItemResponse } from '@/presentation/api/InventoryPresenter';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'PUT' && req.method !== 'PATCH') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const adminEmail: string = req.user.email;
+
+    const { id } = req.query;
+    const inventoryItemRepository = await getInventoryItemRepository();
+    const existing = typeof id === 'string' && UniqueEntityId.isValid(id)
+      ? await inventoryItemRepository.findById(UniqueEntityId.create(id))
+      : null;
+
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Inventory item not found' });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ success: true, item: toInventoryItemResponse(existing, true) });
+    }
+
+    const inventoryService = await getInventoryService();
+    const body = req.body || {};
+    let item: InventoryItem;
+    try {
+      if (req.method === 'PUT') {
+        item = await inventoryService.updateItem(existing.id, {
+          name: String(body.name ?? ''),
+          unit: String(body.unit ?? ''),
+          material: body.material ? String(body.material) as ServiceLogMaterial : undefined,
+          reorderThreshold: Number(body.reorderThreshold ?? 0),
+          reorderQuantity: Number(body.reorderQuantity ?? 0)
+        });
+      } else {
+        const { action, quantity, note } = body;
+        switch (action) {
+          case 'restock':
+            item = await inventoryService.restock(existing.id, Number(quantity), adminEmail, note);
+            break;
+          case 'count':
+            item = await inventoryService.recordStockCount(existing.id, Number(quantity), adminEmail, note);
+            break;
+          default:
+            return res.status(400).json({ success: false, error: 'Action must be one of: restock, count' });
+        }
+      }
+    } catch (domainError) {
+      if (domainError instanceof DomainError) {
+        return res.status(400).json({ success: false, error: domainError.message, code: domainError.errorCode });
+      }
+      throw domainError;
+    }
+
+    return res.status(200).json({ success: true, item: toInventoryItemResponse(item, true) });
+  } catch (error) {
+    console.error('Inventory item error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'] })(handler);
\ No newline at end of file
@@ -0,0 +1,63 @@
+/**
+ * Admin Inventory API Endpoint
+ * Lists material stock by yard and adds new SKUs
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { DomainError } from '@/domain/shared/DomainError';
+import { ServiceLogMaterial } from '@/domain/inventory/InventoryItem';
+import { getInventoryItemRepository, getInventoryService } from '@/infrastructure/repositories/RepositoryProvider';
+import { toInventoryItemResponse } from '@/presentation/api/InventoryPresenter';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const inventoryService = await getInventoryService();
+
+    if (req.method === 'GET') {
+      const { yard } = req.query;
+      const inventoryItemRepository = await getInventoryItemRepository();
+      const items = typeof yard === 'string' && yard.trim()
+        ? await inventoryItemRepository.findByYard(yard)
+        : await inventoryItemRepository.findAll();
+
+      return res.status(200).json({
+        success: true,
+        items: items.map(item => toInventoryItemResponse(item)),
+        yards: await inventoryService.listYards(),
+        reorderCount: items.filter(item => item.needsReorder()).length
+      });
+    }
+
+    const body = req.body || {};
+    try {
+      const item = await inventoryService.addItem({
+        sku: String(body.sku ?? ''),
+        yard: String(body.yard ?? ''),
+        name: String(body.name ?? ''),
+        unit: String(body.unit ?? ''),
+        material: body.material ? String(body.material) as ServiceLogMaterial : undefined,
+        openingQuantity: Number(body.openingQuantity ?? 0),
+        reorderThreshold: Number(body.reorderThreshold ?? 0),
+        reorderQuantity: Number(body.reorderQuantity ?? 0),
+        createdBy: req.user.email
+      });
+
+      return res.status(201).json({ success: true, item: toInventoryItemResponse(item) });
+    } catch (domainError) {
+      if (domainError instanceof DomainError) {
+        return res.status(400).json({ success: false, error: domainError.message, code: domainError.errorCode });
+      }
+      throw domainError;
+    }
+  } catch (error) {
+    console.error('Inventory error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'] })(handler);
\ No newline at end of file
@@ -0,0 +1,120 @@
+/**
+ * Admin Invoice API Endpoint
+ * Edits draft invoices, sends them to the customer, records payments received and voids issued invoices
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { DomainError } from '@/domain/shared/DomainError';
+import { UniqueEntityId } from '@/domain/shared/UniqueEntityId';
+import { InvoiceStatus, PaymentMethod } from '@/domain/invoice/Invoice';
+import { getInvoiceRepository, getInvoiceService } from '@/infrastructure/repositories/RepositoryProvider';
+import { toInvoiceResponse } from '@/presentation/api/InvoicePresenter';
+
+const ACTIONS = ['send', 'record_payment', 'add_adjustment', 'remove_line', 'update_terms', 'void'];
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'PATCH' && req.method !== 'DELETE') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const adminEmail: string = req.user.email;
+
+    const { id } = req.query;
+    const invoiceRepository = await getInvoiceRepository();
+    const invoice = typeof id === 'string' && UniqueEntityId.isValid(id)
+      ? await invoiceRepository.findById(UniqueEntityId.create(id))
+      : null;
+
+    if (!invoice) {
+      return res.status(404).json({ success: false, error: 'Invoice not found' });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ success: true, invoice: toInvoiceResponse(invoice) });
+    }
+
+    if (req.method === 'DELETE') {
+      // Issued invoices are part of the books; only drafts can be thrown away
+      if (invoice.status !== InvoiceStatus.DRAFT) {
+        return res.status(400).json({ success: false, error: 'Only draft invoices can be deleted' });
+      }
+      await invoiceRepository.delete(invoice.id);
+      return res.status(200).json({ success: true });
+    }
+
+    const { action } = req.body || {};
+    if (!ACTIONS.includes(action)) {
+      return res.status(400).json({ success: false, error: `Action must be one of: ${ACTIONS.join(', ')}` });
+    }
+
+    try {
+      if (action === 'send') {
+        const { recipient } = req.body;
+        const invoiceService = await getInvoiceService();
+        await invoiceService.send(invoice, typeof recipient === 'string' ? recipient : undefined);
+        return res.status(200).json({ success: true, invoice: toInvoiceResponse(invoice) });
+      }
+
+      switch (action) {
+        case 'record_payment': {
+          const { amount, method, receivedAt, reference, notes } = req.body;
+          if (!Object.values(PaymentMethod).includes(method)) {
+            return res.status(400).json({
+              success: false,
+              error: `Payment method must be one of: ${Object.values(PaymentMethod).join(', ')}`
+            });
+          }
+          invoice.recordPayment({
+            amount: Number(amount),
+            method,
+            receivedAt: receivedAt ? new Date(String(receivedAt)) : new Date(),
+            reference: typeof reference === 'string' ? reference : undefined,
+            notes: typeof notes === 'string' ? notes : undefined
+          }, adminEmail);
+          break;
+        }
+        case 'add_adjustment': {
+          const { description, amount } = req.body;
+          invoice.addAdjustment(typeof description === 'string' ? description : '', Number(amount));
+          break;
+        }
+        case 'remove_line': {
+          const { lineItemId } = req.body;
+          invoice.removeLineItem(typeof lineItemId === 'string' ? lineItemId : '');
+          break;
+        }
+        case 'update_terms': {
+          const { taxRate, paymentTermsDays, notes } = req.body;
+          invoice.updateTerms({
+            taxRate: taxRate !== undefined ? Number(taxRate) : undefined,
+            paymentTermsDays: paymentTermsDays !== undefined ? Number(paymentTermsDays) : undefined,
+            notes: typeof notes === 'string' ? notes : undefined
+          });
+          break;
+        }
+        case 'void': {
+          const { reason } = req.body;
+          invoice.voidInvoice(typeof reason === 'string' ? reason : '', adminEmail);
+          break;
+        }
+      }
+    } catch (domainError) {
+      if (domainError instanceof DomainError) {
+        return res.status(400).json({ success: false, error: domainError.message, code: domainError.errorCode });
+      }
+      throw domainError;
+    }
+
+    await invoiceRepository.save(invoice);
+    invoice.markEventsAsCommitted();
+
+    return res.status(200).json({ success: true, invoice: toInvoiceResponse(invoice) });
+  } catch (error) {
+    console.error('Invoice update error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'] })(handler);
\ No newline at end of file
@@ -0,0 +1,40 @@
+/**
+ * Admin Invoice PDF API Endpoint
+ * Downloads the invoice document as the customer receives it; drafts are watermarked
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { UniqueEntityId } from '@/domain/shared/UniqueEntityId';
+import { container } from '@/infrastructure/di/Container';
+import { getInvoiceRepository } from '@/infrastructure/repositories/RepositoryProvider';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const { id } = req.query;
+    const invoiceRepository = await getInvoiceRepository();
+    const invoice = typeof id === 'string' && UniqueEntityId.isValid(id)
+      ? await invoiceRepository.findById(UniqueEntityId.create(id))
+      : null;
+
+    if (!invoice) {
+      return res.status(404).json({ success: false, error: 'Invoice not found' });
+    }
+
+    const file = await container.invoiceDocumentGenerator.generateInvoicePdf(invoice);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).send(file.content);
+  } catch (error) {
+    console.error('Invoice PDF error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'] })(handler);
\ No newline at end of file
@@ -0,0 +1,81 @@
+/**
+ * Admin Invoices API Endpoint
+ * Lists invoices with their balances and generates draft invoices from a contract's approved service logs
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { DomainError } from '@/domain/shared/DomainError';
+import { ContractBillingBasis } from '@/domain/contract/Contract';
+import { InvoiceStatus } from '@/domain/invoice/Invoice';
+import { getInvoiceRepository, getInvoiceService } from '@/infrastructure/repositories/RepositoryProvider';
+import { toInvoiceResponse, toInvoiceSummary } from '@/presentation/api/InvoicePresenter';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const { status, contractId } = req.query;
+      if (typeof status === 'string' && status && !Object.values(InvoiceStatus).includes(status as InvoiceStatus)) {
+        return res.status(400).json({
+          success: false,
+          error: `Status must be one of: ${Object.values(InvoiceStatus).join(', ')}`
+        });
+      }
+
+      const invoiceRepository = await getInvoiceRepository();
+      const allInvoices = typeof contractId === 'string' && contractId
+        ? await invoiceRepository.findByContractId(contractId)
+        : await invoiceRepository.findAll();
+      const invoices = typeof status === 'string' && status
+        ? allInvoices.filter(invoice => invoice.status === status)
+        : allInvoices;
+
+      // The summary covers every status so the tabs stay stable while filtering
+      return res.status(200).json({
+        success: true,
+        invoices: invoices.map(toInvoiceResponse),
+        summary: toInvoiceSummary(allInvoices)
+      });
+    }
+
+    const { contractId, periodStart, periodEnd, billingBasis, seasonInstallments, pushRate } = req.body || {};
+    if (typeof contractId !== 'string' || !contractId.trim()) {
+      return res.status(400).json({ success: false, error: 'Contract ID is required' });
+    }
+    if (billingBasis !== undefined && !Object.values(ContractBillingBasis).includes(billingBasis)) {
+      return res.status(400).json({
+        success: false,
+        error: `Billing basis must be one of: ${Object.values(ContractBillingBasis).join(', ')}`
+      });
+    }
+
+    try {
+      const invoiceService = await getInvoiceService();
+      const invoice = await invoiceService.generate({
+        contractId,
+        periodStart: new Date(String(periodStart ?? '')),
+        periodEnd: new Date(String(periodEnd ?? '')),
+        createdBy: req.user.email,
+        billingBasis,
+        seasonInstallments: seasonInstallments !== undefined ? Number(seasonInstallments) : undefined,
+        pushRate: pushRate !== undefined ? Number(pushRate) : undefined
+      });
+
+      return res.status(201).json({ success: true, invoice: toInvoiceResponse(invoice) });
+    } catch (domainError) {
+      if (domainError instanceof DomainError) {
+        return res.status(400).json({ success: false, error: domainError.message, code: domainError.errorCode });
+      }
+      throw domainError;
+    }
+  } catch (error) {
+    console.error('Invoices API error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'] })(handler);
\ No newline at end of file
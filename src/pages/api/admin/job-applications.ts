@@ -2,9 +2,8 @@
  * Admin Job Applications API - Handle job applications management
  */
 
-import type { NextApiRequest, NextApiResponse } from 'next';
-import { simpleAuthService } from '@/services/SimpleAuthService';
-import { secureCookieManager } from '../../../lib/secure-cookie-auth';
+import type { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '../../../middleware/withAuth';
 import fs from 'fs';
 import path from 'path';
 
@@ -66,24 +65,8 @@ function saveJobApplicationsToFile(applications: JobApplication[]) {
   }
 }
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handleRequest(req: AuthenticatedRequest, res: NextApiResponse) {
   try {
-    // Check if this is a form submission (POST without auth header for new applications)
-    const authHeader = req.headers.authorization;
-    const isFormSubmission = req.method === 'POST' && !authHeader && req.body && req.body.name;
-    
-    if (!isFormSubmission) {
-      // Verify admin authentication using cookies
-      const authResult = await secureCookieManager.getAuthFromCookies(req);
-      if (!authResult.success || !authResult.user || authResult.user.role !== 'admin') {
-        return res.status(401).json({ 
-          success: false,
-          error: 'Authentication required or insufficient permissions',
-          message: authResult.message
-        });
-      }
-    }
-
     switch (req.method) {
       case 'GET':
         // Get all job applications or specific one
@@ -131,7 +114,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       case 'PATCH':
         // Update job application status
         const { id: appId } = req.query;
-        const { status: newStatus, adminNotes, assignedTo: newAssignedTo, updatedBy } = req.body;
+        const { status: newStatus, adminNotes, assignedTo: newAssignedTo } = req.body;
 
         if (!appId) {
           return res.status(400).json({
@@ -165,10 +148,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           updatedApplication.assignedTo = newAssignedTo;
         }
         
-        if (updatedBy !== undefined) {
-          updatedApplication.updatedBy = updatedBy;
-          updatedApplication.updatedAt = new Date();
-        }
+        // Changes are attributed to the signed-in admin, never to a name sent by the client
+        updatedApplication.updatedBy = req.user.email;
+        updatedApplication.updatedAt = new Date();
 
         jobApplications[appIndex] = updatedApplication;
         saveJobApplicationsToFile(jobApplications);
@@ -179,70 +161,44 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           message: 'Job application updated successfully'
         });
 
-      case 'POST':
-        // Handle new job application or bulk actions
-        if (req.body.applicationIds) {
-          // Bulk action
-          const { applicationIds, bulkStatus, updatedBy } = req.body;
-
-          if (!Array.isArray(applicationIds) || applicationIds.length === 0) {
-            return res.status(400).json({
-              success: false,
-              message: 'Application IDs array required'
-            });
-          }
-
-          const updatedApplications = [];
-          let updated = 0;
-
-          for (const applicationId of applicationIds) {
-            const index = jobApplications.findIndex(app => app.id === applicationId);
-            if (index !== -1) {
-              jobApplications[index] = {
-                ...jobApplications[index],
-                status: bulkStatus,
-                reviewedAt: bulkStatus === 'reviewing' ? new Date() : jobApplications[index].reviewedAt,
-                updatedBy: updatedBy || 'Admin',
-                updatedAt: new Date()
-              };
-              updatedApplications.push(jobApplications[index]);
-              updated++;
-            }
-          }
+      case 'POST': {
+        // Bulk actions; careers applications are created through /api/apply
+        const { applicationIds, bulkStatus } = req.body || {};
 
-          saveJobApplicationsToFile(jobApplications);
-          
-          return res.status(200).json({
-            success: true,
-            data: updatedApplications,
-            message: `${updated} job applications updated to ${bulkStatus}`
+        if (!Array.isArray(applicationIds) || applicationIds.length === 0) {
+          return res.status(400).json({
+            success: false,
+            message: 'Application IDs array required'
           });
-        } else {
-          // Create new job application (from website form)
-          const newApplication: JobApplication = {
-            id: `ja_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            name: req.body.name,
-            email: req.body.email,
-            phone: req.body.phone,
-            experience: req.body.experience,
-            resumeFilename: req.body.resumeFilename,
-            status: 'pending',
-            submittedAt: new Date(),
-            submittedBy: req.body.name,
-            ipAddress: req.headers['x-forwarded-for'] as string || req.connection.remoteAddress,
-            userAgent: req.headers['user-agent']
-          };
-
-          jobApplications.unshift(newApplication); // Add to beginning of array
-          saveJobApplicationsToFile(jobApplications);
+        }
 
-          return res.status(201).json({
-            success: true,
-            data: newApplication,
-            message: 'Job application created successfully'
-          });
+        const updatedApplications = [];
+        let updated = 0;
+
+        for (const applicationId of applicationIds) {
+          const index = jobApplications.findIndex(app => app.id === applicationId);
+          if (index !== -1) {
+            jobApplications[index] = {
+              ...jobApplications[index],
+              status: bulkStatus,
+              reviewedAt: bulkStatus === 'reviewing' ? new Date() : jobApplications[index].reviewedAt,
+              updatedBy: req.user.email,
+              updatedAt: new Date()
+            };
+            updatedApplications.push(jobApplications[index]);
+            updated++;
+          }
         }
 
+        saveJobApplicationsToFile(jobApplications);
+        
+        return res.status(200).json({
+          success: true,
+          data: updatedApplications,
+          message: `${updated} job applications updated to ${bulkStatus}`
+        });
+      }
+
       case 'DELETE':
         // Delete specific job application
         const { id: deleteId } = req.query;
@@ -289,4 +245,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       message: 'Internal server error'
     });
   }
-}
\ No newline at end of file
+}
+
+export default withAuth({ roles: ['admin'] })(handleRequest);
\ No newline at end of file
@@ -0,0 +1,60 @@
+/**
+ * Admin Jobs API - Background job status and manual runs
+ */
+
+import type { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '../../../middleware/withAuth';
+import { container } from '@/infrastructure/di/Container';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return res.status(200).json({
+          success: true,
+          data: await container.jobScheduler.getStates()
+        });
+
+      case 'POST': {
+        // Run a job immediately, e.g. { "job": "quote-expiry" }
+        const { job } = req.body || {};
+        if (typeof job !== 'string' || !job) {
+          return res.status(400).json({
+            success: false,
+            message: 'Job name is required'
+          });
+        }
+
+        const states = await container.jobScheduler.getStates();
+        if (!states.some(state => state.name === job)) {
+          return res.status(404).json({
+            success: false,
+            message: `Unknown job: ${job}`
+          });
+        }
+
+        const state = await container.jobScheduler.runNow(job);
+        return res.status(200).json({
+          success: !state.lastError,
+          message: state.lastError ? `Job ${job} failed: ${state.lastError}` : `Job ${job} completed`,
+          data: state
+        });
+      }
+
+      default:
+        res.setHeader('Allow', ['GET', 'POST']);
+        return res.status(405).json({
+          success: false,
+          message: `Method ${req.method} not allowed`
+        });
+    }
+  } catch (error) {
+    console.error('Admin jobs API error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+}
+
+export default withAuth({ roles: ['admin'] })(handler);
\ No newline at end of file
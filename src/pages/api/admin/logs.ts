@@ -5,6 +5,7 @@
 
 import { NextApiResponse } from 'next';
 import { withSecurity } from '../../../middleware/cors';
+import { withAuth } from '../../../middleware/withAuth';
 import { withAdminRateLimit } from '../../../middleware/rateLimit';
 import { logger } from '../../../lib/logger';
 import { 
@@ -226,4 +227,4 @@ function getLogStats(): {
   };
 }
 
-export default withSecurity(withAdminRateLimit(handler));
\ No newline at end of file
+export default withSecurity(withAuth({ roles: ['admin'], permissions: ['system:logs'] })(withAdminRateLimit(handler)));
\ No newline at end of file
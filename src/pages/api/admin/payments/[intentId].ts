@@ -0,0 +1,95 @@
+/**
+ * Admin Payment Intent API Endpoint
+ * Confirms and refunds payment intents; with the local provider its queued webhooks are applied straight away
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { DomainError } from '@/domain/shared/DomainError';
+import { container } from '@/infrastructure/di/Container';
+import { getPaymentService } from '@/infrastructure/repositories/RepositoryProvider';
+import { PaymentService, WebhookResult } from '@/application/services/PaymentService';
+import { PaymentProviderError } from '@/infrastructure/payments/PaymentProvider';
+import { LocalPaymentProvider } from '@/infrastructure/payments/LocalPaymentProvider';
+
+const ACTIONS = ['confirm', 'refund', 'settle'];
+
+// Stands in for the provider calling the webhook endpoint, going through the same signature check
+async function deliverLocalWebhooks(paymentService: PaymentService): Promise<WebhookResult[]> {
+  if (!(container.paymentProvider instanceof LocalPaymentProvider)) {
+    return [];
+  }
+  const results: WebhookResult[] = [];
+  for (const webhook of container.paymentProvider.drainWebhooks()) {
+    results.push(await paymentService.handleWebhook(webhook.rawBody, webhook.signature));
+  }
+  return results;
+}
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'PATCH') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const { intentId } = req.query;
+    if (typeof intentId !== 'string' || !intentId) {
+      return res.status(400).json({ success: false, error: 'Payment intent id is required' });
+    }
+    const paymentService = await getPaymentService();
+
+    try {
+      if (req.method === 'GET') {
+        const intent = await container.paymentProvider.getIntent(intentId);
+        if (!intent) {
+          return res.status(404).json({ success: false, error: 'Payment intent not found' });
+        }
+        return res.status(200).json({ success: true, intent: { ...intent, createdAt: intent.createdAt.toISOString() } });
+      }
+
+      const { action } = req.body || {};
+      if (!ACTIONS.includes(action)) {
+        return res.status(400).json({ success: false, error: `Action must be one of: ${ACTIONS.join(', ')}` });
+      }
+
+      switch (action) {
+        case 'confirm': {
+          const { paymentMethod } = req.body;
+          await paymentService.confirmIntent(intentId, typeof paymentMethod === 'string' ? paymentMethod : undefined);
+          break;
+        }
+        case 'refund': {
+          const { amount } = req.body;
+          await paymentService.refund(intentId, amount !== undefined && amount !== '' ? Number(amount) : undefined);
+          break;
+        }
+        case 'settle': {
+          // Real ACH debits settle on the provider's schedule
+          if (!(container.paymentProvider instanceof LocalPaymentProvider)) {
+            return res.status(400).json({ success: false, error: 'Only the local payment provider can settle payments on demand' });
+          }
+          container.paymentProvider.settleIntent(intentId);
+          break;
+        }
+      }
+
+      const webhooks = await deliverLocalWebhooks(paymentService);
+      const intent = await container.paymentProvider.getIntent(intentId);
+      return res.status(200).json({
+        success: true,
+        intent: intent ? { ...intent, createdAt: intent.createdAt.toISOString() } : null,
+        webhooks
+      });
+    } catch (error) {
+      if (error instanceof DomainError || error instanceof PaymentProviderError) {
+        return res.status(400).json({ success: false, error: error.message, code: error.errorCode });
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error('Payment intent API error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'] })(handler);
\ No newline at end of file
@@ -0,0 +1,72 @@
+/**
+ * Admin Payments API Endpoint
+ * Opens card/ACH payment intents for invoices and quote deposits and lists the payment audit trail
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { DomainError } from '@/domain/shared/DomainError';
+import { getPaymentService } from '@/infrastructure/repositories/RepositoryProvider';
+import { PaymentProviderError } from '@/infrastructure/payments/PaymentProvider';
+
+const PURPOSES = ['invoice', 'quote_deposit'];
+const METHOD_TYPES = ['card', 'ach'];
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const paymentService = await getPaymentService();
+
+    if (req.method === 'GET') {
+      const { targetId, limit } = req.query;
+      const entries = await paymentService.auditTrail(
+        typeof targetId === 'string' && targetId ? targetId : undefined,
+        Math.min(Math.max(parseInt(String(limit || '100'), 10) || 100, 1), 500)
+      );
+      return res.status(200).json({
+        success: true,
+        provider: paymentService.providerName,
+        entries: entries.map(entry => ({ ...entry, recordedAt: entry.recordedAt.toISOString() }))
+      });
+    }
+
+    const { purpose, targetId, amount, methodTypes } = req.body || {};
+    if (!PURPOSES.includes(purpose)) {
+      return res.status(400).json({ success: false, error: `Purpose must be one of: ${PURPOSES.join(', ')}` });
+    }
+    if (typeof targetId !== 'string' || !targetId) {
+      return res.status(400).json({ success: false, error: 'targetId is required' });
+    }
+    if (methodTypes !== undefined && (!Array.isArray(methodTypes) || methodTypes.some(type => !METHOD_TYPES.includes(type)))) {
+      return res.status(400).json({ success: false, error: `Method types must be from: ${METHOD_TYPES.join(', ')}` });
+    }
+
+    try {
+      const intent = await paymentService.createIntent({
+        purpose,
+        targetId,
+        amount: amount !== undefined && amount !== '' ? Number(amount) : undefined,
+        methodTypes,
+        requestedBy: req.user.email
+      });
+      return res.status(201).json({
+        success: true,
+        provider: paymentService.providerName,
+        intent: { ...intent, createdAt: intent.createdAt.toISOString() }
+      });
+    } catch (error) {
+      if (error instanceof DomainError || error instanceof PaymentProviderError) {
+        return res.status(400).json({ success: false, error: error.message, code: error.errorCode });
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error('Payments API error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'] })(handler);
\ No newline at end of file
@@ -5,7 +5,7 @@
 
 import { NextApiRequest, NextApiResponse } from 'next';
 import { simpleAuthService } from '../../../services/SimpleAuthService';
-import { secureCookieManager } from '../../../lib/secure-cookie-auth';
+import { AuthenticatedRequest, withAuth } from '../../../middleware/withAuth';
 import multer from 'multer';
 import fs from 'fs';
 import path from 'path';
@@ -68,29 +68,9 @@ function parseBody(req: NextApiRequest): Promise<any> {
   });
 }
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  // Set CORS headers
-  res.setHeader('Access-Control-Allow-Origin', process.env.FRONTEND_URL || 'http://localhost:3000');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-  res.setHeader('Access-Control-Allow-Credentials', 'true');
-
-  // Handle preflight request
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
-  }
-
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   try {
-    // Authenticate user
-    const authResult = await secureCookieManager.getAuthFromCookies(req);
-    if (!authResult.success || !authResult.user) {
-      return res.status(401).json({
-        success: false,
-        message: 'Authentication required'
-      });
-    }
-
-    const user = authResult.user;
+    const user = req.user;
 
     if (req.method === 'GET') {
       // Get user profile - need to get full user data from secure user manager
@@ -146,7 +126,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         const passwordChangeResult = await simpleAuthService.changePassword(
           user.email,
           currentPassword,
-          newPassword
+          newPassword,
+          req.session.sessionId
         );
 
         if (!passwordChangeResult.success) {
@@ -239,6 +220,23 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
+const authenticatedHandler = withAuth({ roles: ['admin'] })(handler);
+
+export default async function profileHandler(req: NextApiRequest, res: NextApiResponse) {
+  // Set CORS headers
+  res.setHeader('Access-Control-Allow-Origin', process.env.FRONTEND_URL || 'http://localhost:3000');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+  // Handle preflight request
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  return authenticatedHandler(req, res);
+}
+
 // Disable body parser for file uploads
 export const config = {
   api: {
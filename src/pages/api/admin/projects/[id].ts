@@ -3,90 +3,14 @@
  * Handles individual project updates
  */
 
-import { NextApiRequest, NextApiResponse } from 'next';
-import jwt from 'jsonwebtoken';
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { DomainError } from '@/domain/shared/DomainError';
+import { UniqueEntityId } from '@/domain/shared/UniqueEntityId';
+import { getProjectRepository } from '@/infrastructure/repositories/RepositoryProvider';
+import { toProjectResponse } from '@/presentation/api/ProjectPresenter';
 
-interface Project {
-  id: string;
-  title: string;
-  propertyCode?: string;
-  client: string;
-  serviceClass: 'commercial' | 'residential';
-  serviceType: string;
-  currentStatus: number;
-  statusLabels: string[];
-  showStatusBar: boolean;
-  createdDate: string;
-  lastUpdated: string;
-  adminNotes?: string;
-  address?: {
-    street: string;
-    city: string;
-    state: string;
-    zipCode: string;
-  };
-  contact?: {
-    name: string;
-    phone: string;
-    email: string;
-  };
-}
-
-// In-memory storage - in production this would be a database
-let projectsStore: Project[] = [
-  {
-    id: '1',
-    title: 'Commercial Snow Removal - Office Complex',
-    propertyCode: 'COM-001',
-    client: 'ABC Corporation',
-    serviceClass: 'commercial',
-    serviceType: 'snow-ice-removal',
-    currentStatus: 3,
-    statusLabels: ['Quote Request', 'Quote Response', 'Contract Signed', 'Service Active', 'Service Complete'],
-    showStatusBar: false,
-    createdDate: '2024-01-15',
-    lastUpdated: '2024-01-20',
-    adminNotes: 'Priority client - requires weekly updates',
-    address: {
-      street: '123 Business Park Dr',
-      city: 'Grand Rapids',
-      state: 'MI',
-      zipCode: '49503'
-    },
-    contact: {
-      name: 'John Manager',
-      phone: '(616) 555-0123',
-      email: 'john@abccorp.com'
-    }
-  },
-  {
-    id: '2',
-    title: 'Residential Landscaping Project',
-    propertyCode: 'RES-002',
-    client: 'John Smith',
-    serviceClass: 'residential',
-    serviceType: 'landscaping',
-    currentStatus: 2,
-    statusLabels: ['Quote Request', 'Quote Response', 'Scheduled Review', 'Service Phase 1', 'Service Phase 2', 'Service Complete'],
-    showStatusBar: true,
-    createdDate: '2024-01-10',
-    lastUpdated: '2024-01-18',
-    adminNotes: 'Client requested specific plant varieties',
-    address: {
-      street: '456 Maple Street',
-      city: 'Wyoming',
-      state: 'MI',
-      zipCode: '49509'
-    },
-    contact: {
-      name: 'John Smith',
-      phone: '(616) 555-0456',
-      email: 'john.smith@email.com'
-    }
-  }
-];
-
-async function projectUpdateHandler(req: NextApiRequest, res: NextApiResponse) {
+async function projectUpdateHandler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'PUT') {
     return res.status(405).json({ 
       error: true, 
@@ -96,37 +20,18 @@ async function projectUpdateHandler(req: NextApiRequest, res: NextApiResponse) {
   }
 
   try {
-    // Check for authorization header
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({
-        error: true,
-        message: 'No valid authentication token provided',
-        code: 'UNAUTHORIZED'
-      });
-    }
-
-    const token = authHeader.substring(7);
-    
-    try {
-      // Verify the JWT token
-      const jwtSecret = process.env.JWT_SECRET || 'your-secret-key';
-      jwt.verify(token, jwtSecret);
-    } catch (jwtError) {
-      return res.status(401).json({
-        error: true,
-        message: 'Invalid or expired token',
-        code: 'INVALID_TOKEN'
-      });
-    }
+    const adminEmail = req.user.email;
 
     const { id } = req.query;
     const updateData = req.body;
 
     // Find and update the project
-    const projectIndex = projectsStore.findIndex(project => project.id === id);
+    const projectRepository = await getProjectRepository();
+    const project = typeof id === 'string' && UniqueEntityId.isValid(id)
+      ? await projectRepository.findById(UniqueEntityId.create(id))
+      : null;
     
-    if (projectIndex === -1) {
+    if (!project) {
       return res.status(404).json({
         error: true,
         message: 'Project not found',
@@ -135,15 +40,47 @@ async function projectUpdateHandler(req: NextApiRequest, res: NextApiResponse) {
     }
 
     // Update the project
-    projectsStore[projectIndex] = {
-      ...projectsStore[projectIndex],
-      ...updateData,
-      lastUpdated: new Date().toISOString().split('T')[0]
-    };
+    try {
+      project.updateDetails({
+        title: updateData.title,
+        propertyCode: updateData.propertyCode,
+        client: updateData.client,
+        serviceClass: updateData.serviceClass,
+        serviceType: updateData.serviceType,
+        showStatusBar: updateData.showStatusBar,
+        adminNotes: updateData.adminNotes,
+        address: updateData.address,
+        contact: updateData.contact,
+        contractId: updateData.contractId
+      });
+
+      if (Array.isArray(updateData.statusLabels)) {
+        project.replaceStatusLabels(updateData.statusLabels);
+      }
+
+      if (updateData.currentStatus !== undefined) {
+        project.updateStatus(Number(updateData.currentStatus), {
+          notes: updateData.statusNotes,
+          changedBy: adminEmail
+        });
+      }
+    } catch (domainError) {
+      if (domainError instanceof DomainError) {
+        return res.status(400).json({
+          error: true,
+          message: domainError.message,
+          code: domainError.errorCode
+        });
+      }
+      throw domainError;
+    }
+
+    await projectRepository.save(project);
+    project.markEventsAsCommitted();
 
     return res.status(200).json({
       success: true,
-      project: projectsStore[projectIndex]
+      project: toProjectResponse(project)
     });
 
   } catch (error) {
@@ -158,4 +95,4 @@ async function projectUpdateHandler(req: NextApiRequest, res: NextApiResponse) {
   }
 }
 
-export default projectUpdateHandler;
\ No newline at end of file
+export default withAuth({ roles: ['admin'] })(projectUpdateHandler);
\ No newline at end of file
@@ -3,146 +3,64 @@
  * Handles CRUD operations for project management
  */
 
-import { NextApiRequest, NextApiResponse } from 'next';
-import jwt from 'jsonwebtoken';
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { Project } from '@/domain/project/Project';
+import { DomainError } from '@/domain/shared/DomainError';
+import { getProjectRepository } from '@/infrastructure/repositories/RepositoryProvider';
+import { toProjectResponse } from '@/presentation/api/ProjectPresenter';
 
-interface Project {
-  id: string;
-  title: string;
-  propertyCode?: string;
-  client: string;
-  serviceClass: 'commercial' | 'residential';
-  serviceType: string;
-  currentStatus: number;
-  statusLabels: string[];
-  showStatusBar: boolean;
-  createdDate: string;
-  lastUpdated: string;
-  adminNotes?: string;
-  address?: {
-    street: string;
-    city: string;
-    state: string;
-    zipCode: string;
-  };
-  contact?: {
-    name: string;
-    phone: string;
-    email: string;
-  };
-}
-
-// In-memory storage - in production this would be a database
-let projectsStore: Project[] = [
-  {
-    id: '1',
-    title: 'Commercial Snow Removal - Office Complex',
-    propertyCode: 'COM-001',
-    client: 'ABC Corporation',
-    serviceClass: 'commercial',
-    serviceType: 'snow-ice-removal',
-    currentStatus: 3,
-    statusLabels: ['Quote Request', 'Quote Response', 'Contract Signed', 'Service Active', 'Service Complete'],
-    showStatusBar: false,
-    createdDate: '2024-01-15',
-    lastUpdated: '2024-01-20',
-    adminNotes: 'Priority client - requires weekly updates',
-    address: {
-      street: '123 Business Park Dr',
-      city: 'Grand Rapids',
-      state: 'MI',
-      zipCode: '49503'
-    },
-    contact: {
-      name: 'John Manager',
-      phone: '(616) 555-0123',
-      email: 'john@abccorp.com'
-    }
-  },
-  {
-    id: '2',
-    title: 'Residential Landscaping Project',
-    propertyCode: 'RES-002',
-    client: 'John Smith',
-    serviceClass: 'residential',
-    serviceType: 'landscaping',
-    currentStatus: 2,
-    statusLabels: ['Quote Request', 'Quote Response', 'Scheduled Review', 'Service Phase 1', 'Service Phase 2', 'Service Complete'],
-    showStatusBar: true,
-    createdDate: '2024-01-10',
-    lastUpdated: '2024-01-18',
-    adminNotes: 'Client requested specific plant varieties',
-    address: {
-      street: '456 Maple Street',
-      city: 'Wyoming',
-      state: 'MI',
-      zipCode: '49509'
-    },
-    contact: {
-      name: 'John Smith',
-      phone: '(616) 555-0456',
-      email: 'john.smith@email.com'
-    }
-  }
-];
-
-async function projectsHandler(req: NextApiRequest, res: NextApiResponse) {
+async function projectsHandler(req: AuthenticatedRequest, res: NextApiResponse) {
   try {
-    // Check for authorization header
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({
-        error: true,
-        message: 'No valid authentication token provided',
-        code: 'UNAUTHORIZED'
-      });
-    }
+    const adminEmail = req.user.email;
 
-    const token = authHeader.substring(7);
-    
-    try {
-      // Verify the JWT token
-      const jwtSecret = process.env.JWT_SECRET || 'your-secret-key';
-      jwt.verify(token, jwtSecret);
-    } catch (jwtError) {
-      return res.status(401).json({
-        error: true,
-        message: 'Invalid or expired token',
-        code: 'INVALID_TOKEN'
-      });
-    }
+    const projectRepository = await getProjectRepository();
 
     if (req.method === 'GET') {
+      const projects = await projectRepository.findAll();
+
       return res.status(200).json({
         success: true,
-        projects: projectsStore
+        projects: projects.map(toProjectResponse)
       });
     }
 
     if (req.method === 'POST') {
       const projectData = req.body;
-      const newProject: Project = {
-        id: (projectsStore.length + 1).toString(),
-        title: projectData.title,
-        propertyCode: projectData.propertyCode,
-        client: projectData.client,
-        serviceClass: projectData.serviceClass,
-        serviceType: projectData.serviceType,
-        currentStatus: 0,
-        statusLabels: projectData.statusLabels,
-        showStatusBar: projectData.showStatusBar,
-        createdDate: new Date().toISOString().split('T')[0],
-        lastUpdated: new Date().toISOString().split('T')[0],
-        address: projectData.address,
-        contact: projectData.contact,
-        adminNotes: projectData.adminNotes
-      };
 
-      projectsStore.push(newProject);
+      let project: Project;
+      try {
+        project = Project.create({
+          title: projectData.title,
+          propertyCode: projectData.propertyCode,
+          client: projectData.client,
+          serviceClass: projectData.serviceClass,
+          serviceType: projectData.serviceType,
+          statusLabels: projectData.statusLabels,
+          showStatusBar: projectData.showStatusBar,
+          address: projectData.address,
+          contact: projectData.contact,
+          adminNotes: projectData.adminNotes,
+          contractId: projectData.contractId,
+          createdBy: adminEmail
+        });
+      } catch (domainError) {
+        if (domainError instanceof DomainError) {
+          return res.status(400).json({
+            error: true,
+            message: domainError.message,
+            code: domainError.errorCode
+          });
+        }
+        throw domainError;
+      }
+
+      await projectRepository.save(project);
+      project.markEventsAsCommitted();
 
       return res.status(201).json({
         success: true,
-        project: newProject
+        project: toProjectResponse(project)
       });
     }
 
@@ -164,4 +82,4 @@ async function projectsHandler(req: NextApiRequest, res: NextApiResponse) {
   }
 }
 
-export default projectsHandler;
\ No newline at end of file
+export default withAuth({ roles: ['admin'] })(projectsHandler);
\ No newline at end of file
@@ -3,19 +3,11 @@
  * Returns project statistics including total, active, completed and breakdown by service type
  */
 
-import { NextApiRequest, NextApiResponse } from 'next';
-import jwt from 'jsonwebtoken';
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { getProjectRepository } from '@/infrastructure/repositories/RepositoryProvider';
 
-interface Project {
-  id: string;
-  title: string;
-  serviceType: string;
-  currentStatus: number;
-  statusLabels: string[];
-  showStatusBar: boolean;
-}
-
-async function projectStatsHandler(req: NextApiRequest, res: NextApiResponse) {
+async function projectStatsHandler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
     return res.status(405).json({ 
       error: true, 
@@ -25,106 +17,32 @@ async function projectStatsHandler(req: NextApiRequest, res: NextApiResponse) {
   }
 
   try {
-    // Check for authorization header
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({
-        error: true,
-        message: 'No valid authentication token provided',
-        code: 'UNAUTHORIZED'
-      });
-    }
-
-    const token = authHeader.substring(7);
-    
-    try {
-      // Verify the JWT token
-      const jwtSecret = process.env.JWT_SECRET || 'your-secret-key';
-      jwt.verify(token, jwtSecret);
-    } catch (jwtError) {
-      return res.status(401).json({
-        error: true,
-        message: 'Invalid or expired token',
-        code: 'INVALID_TOKEN'
-      });
-    }
-
-    // Use shared project data store - in production this would come from database
-    const projectsStore: Project[] = [
-      {
-        id: '1',
-        title: 'Commercial Snow Removal - Office Complex',
-        serviceType: 'snow-ice-removal',
-        currentStatus: 3, // Active
-        statusLabels: ['Quote Request', 'Quote Response', 'Contract Signed', 'Service Active', 'Service Complete'],
-        showStatusBar: false,
-      },
-      {
-        id: '2',
-        title: 'Residential Landscaping Project',
-        serviceType: 'landscaping',
-        currentStatus: 2, // Active
-        statusLabels: ['Quote Request', 'Quote Response', 'Scheduled Review', 'Service Phase 1', 'Service Phase 2', 'Service Complete'],
-        showStatusBar: true,
-      },
-      {
-        id: '3',
-        title: 'Commercial Concrete Repair',
-        serviceType: 'concrete-asphalt',
-        currentStatus: 1, // Active
-        statusLabels: ['Quote Request', 'Quote Response', 'Scheduled Review', 'Started Service', 'Service Complete'],
-        showStatusBar: true,
-      },
-      {
-        id: '4',
-        title: 'Residential Driveway Repair',
-        serviceType: 'concrete-asphalt',
-        currentStatus: 4, // Complete
-        statusLabels: ['Quote Request', 'Quote Response', 'Scheduled Review', 'Started Service', 'Service Complete'],
-        showStatusBar: true,
-      },
-      {
-        id: '5',
-        title: 'Commercial Building Demolition',
-        serviceType: 'demolition',
-        currentStatus: 3, // Active
-        statusLabels: ['Quote Request', 'Quote Response', 'Permits Acquired', 'Demolition Started', 'Cleanup Complete'],
-        showStatusBar: true,
-      },
-      {
-        id: '6',
-        title: 'Office Painting Project',
-        serviceType: 'painting',
-        currentStatus: 4, // Complete
-        statusLabels: ['Quote Request', 'Quote Response', 'Materials Ordered', 'Painting Started', 'Project Complete'],
-        showStatusBar: true,
-      }
-    ];
+    const projectRepository = await getProjectRepository();
+    const projects = await projectRepository.findAll();
 
     // Calculate statistics
-    const totalProjects = projectsStore.length;
+    const totalProjects = projects.length;
     
-    // A project is considered complete if currentStatus equals statusLabels.length - 1
-    const completedProjects = projectsStore.filter(project => 
-      project.currentStatus >= project.statusLabels.length - 1
-    ).length;
+    // A project is considered complete once it reaches its final status label
+    const completedProjects = projects.filter(project => project.isComplete()).length;
     
     const activeProjects = totalProjects - completedProjects;
 
     // Calculate by service type
     const byServiceType: { [key: string]: { total: number; completed: number; active: number } } = {};
     
-    projectsStore.forEach(project => {
-      if (!byServiceType[project.serviceType]) {
-        byServiceType[project.serviceType] = { total: 0, completed: 0, active: 0 };
+    projects.forEach(project => {
+      const serviceType = project.serviceType.key;
+      if (!byServiceType[serviceType]) {
+        byServiceType[serviceType] = { total: 0, completed: 0, active: 0 };
       }
       
-      byServiceType[project.serviceType].total++;
+      byServiceType[serviceType].total++;
       
-      if (project.currentStatus >= project.statusLabels.length - 1) {
-        byServiceType[project.serviceType].completed++;
+      if (project.isComplete()) {
+        byServiceType[serviceType].completed++;
       } else {
-        byServiceType[project.serviceType].active++;
+        byServiceType[serviceType].active++;
       }
     });
 
@@ -152,4 +70,4 @@ async function projectStatsHandler(req: NextApiRequest, res: NextApiResponse) {
   }
 }
 
-export default projectStatsHandler;
\ No newline at end of file
+export default withAuth({ roles: ['admin'] })(projectStatsHandler);
\ No newline at end of file
@@ -1,114 +1,157 @@
 /**
  * Admin Quote Requests API - Handle quote requests management
+ * Every change goes through the quote command bus so validation, logging and domain events apply
  */
 
-import type { NextApiRequest, NextApiResponse } from 'next';
-import { simpleAuthService } from '@/services/SimpleAuthService';
-import { secureCookieManager } from '../../../lib/secure-cookie-auth';
-import fs from 'fs';
-import path from 'path';
-
-// v2 Quote request data structure (priority column removed)
-interface QuoteRequest {
-  id: string;
-  fullName: string;
-  email: string;
-  phone: string;
-  serviceClass: string;
-  service: string;
-  details: string;
-  photoFiles: string[];
-  status: 'pending' | 'review' | 'quoted' | 'accepted' | 'declined';
-  submittedAt: Date;
-  reviewedAt?: Date;
-  quotedAt?: Date;
-  quotedAmount?: number;
-  estimatedValue?: number;
+import type { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '../../../middleware/withAuth';
+import { EstimateInput } from '@/domain/quote/Estimate';
+import { DomainValidationError } from '@/domain/shared/DomainError';
+import { QuoteStatus, normalizeQuoteStatus } from '@/domain/quote/QuoteStatus';
+import { cqrsContainer } from '@/infrastructure/cqrs/CQRSContainer';
+import { container } from '@/infrastructure/di/Container';
+import { QuoteProcessingCommandResult } from '@/application/commands/quote/ProcessQuoteCommand';
+import { toAdminQuoteRequestView } from '@/presentation/api/AdminQuotePresenter';
+
+// The admin page loads the whole queue at once and filters open/closed itself
+const QUOTE_LIST_LIMIT = 500;
+
+const FAILURE_STATUS_CODES: Record<string, number> = {
+  NOT_FOUND: 404,
+  BUSINESS_RULE_VIOLATION: 409,
+  DOMAIN_VALIDATION: 400,
+  INVALID_VALUE: 400
+};
+
+interface QuoteChange {
+  status?: string;
   assignedTo?: string;
+  autoAssign?: boolean; // Hands the quote to the next estimator for its service category
   adminNotes?: string;
-  submittedBy?: string;
-  updatedBy?: string;
-  updatedAt?: Date;
-  ipAddress?: string;
-  userAgent?: string;
+  dismissDuplicate?: boolean; // Staff confirmed a flagged quote is a separate request
+  estimate?: EstimateInput;
+  quotedAmount?: number;
+  serviceAddress?: string; // Only applied when sending
+  reason?: string;
 }
 
-// Database file path
-const DB_FILE = path.join(process.cwd(), 'data', 'quote-requests.json');
-
-// Ensure data directory exists
-if (!fs.existsSync(path.dirname(DB_FILE))) {
-  fs.mkdirSync(path.dirname(DB_FILE), { recursive: true });
+interface QuoteChangeFailure {
+  statusCode: number;
+  message: string;
+  field?: string;
 }
 
-// Load data from file or use default
-let quoteRequests: QuoteRequest[] = loadQuoteRequestsFromFile();
+function toFailure(result: QuoteProcessingCommandResult): QuoteChangeFailure {
+  const error = result.errors?.[0];
+  return {
+    statusCode: (error && FAILURE_STATUS_CODES[error.code]) || 500,
+    message: error?.message || result.message || 'Quote update failed',
+    field: error?.field
+  };
+}
 
-function loadQuoteRequestsFromFile(): QuoteRequest[] {
+// Maps a requested status onto the command that performs that transition
+async function dispatchStatusChange(
+  quoteId: string,
+  currentStatus: QuoteStatus,
+  change: QuoteChange,
+  userId: string
+): Promise<QuoteProcessingCommandResult | QuoteChangeFailure> {
+  const quotes = cqrsContainer.quoteApplicationService;
+  let target: QuoteStatus;
   try {
-    if (fs.existsSync(DB_FILE)) {
-      const data = fs.readFileSync(DB_FILE, 'utf8');
-      const parsed = JSON.parse(data);
-      return parsed.map((req: any) => ({
-        ...req,
-        submittedAt: new Date(req.submittedAt),
-        reviewedAt: req.reviewedAt ? new Date(req.reviewedAt) : undefined,
-        quotedAt: req.quotedAt ? new Date(req.quotedAt) : undefined,
-        updatedAt: req.updatedAt ? new Date(req.updatedAt) : undefined
-      }));
-    }
+    target = normalizeQuoteStatus(String(change.status));
   } catch (error) {
-    console.error('Error loading quote requests from file:', error);
+    if (error instanceof DomainValidationError) {
+      return { statusCode: 400, message: error.message, field: error.field };
+    }
+    throw error;
+  }
+
+  switch (target) {
+    case QuoteStatus.UNDER_REVIEW:
+      return currentStatus === QuoteStatus.PENDING
+        ? quotes.moveQuoteToReview({ quoteId, userId })
+        : quotes.reopenQuote({ quoteId, userId });
+    case QuoteStatus.QUOTE_SENT:
+      if (change.estimate === undefined && change.quotedAmount === undefined) {
+        return { statusCode: 400, message: 'An estimate is required before sending a quote' };
+      }
+      return quotes.sendQuote({
+        quoteId,
+        userId,
+        estimatedValue: Number(change.quotedAmount),
+        estimate: change.estimate,
+        serviceAddress: change.serviceAddress
+      });
+    case QuoteStatus.ACCEPTED:
+      return quotes.acceptQuote({ quoteId, userId });
+    case QuoteStatus.REJECTED:
+      return quotes.rejectQuote({
+        quoteId,
+        userId,
+        reason: change.reason?.trim() || 'Declined by staff'
+      });
+    default:
+      // Pending and expired are only ever reached by the system
+      return { statusCode: 409, message: `Quotes cannot be moved to ${target} manually` };
   }
-  
-  // Return empty array if file doesn't exist or has errors
-  return [];
 }
 
-function saveQuoteRequestsToFile(requests: QuoteRequest[]) {
-  try {
-    fs.writeFileSync(DB_FILE, JSON.stringify(requests, null, 2));
-  } catch (error) {
-    console.error('Error saving quote requests to file:', error);
+// Applies one admin edit as a sequence of commands, stopping at the first failure
+async function applyQuoteChange(
+  quoteId: string,
+  currentStatus: QuoteStatus,
+  change: QuoteChange,
+  userId: string
+): Promise<QuoteChangeFailure | null> {
+  const quotes = cqrsContainer.quoteApplicationService;
+  const steps: Array<() => Promise<QuoteProcessingCommandResult | QuoteChangeFailure>> = [];
+
+  if (change.assignedTo !== undefined && change.assignedTo !== '') {
+    steps.push(() => quotes.assignQuote({ quoteId, userId, assignee: change.assignedTo as string }));
+  } else if (change.autoAssign) {
+    steps.push(() => quotes.assignQuote({ quoteId, userId }));
+  }
+  if (change.adminNotes !== undefined) {
+    steps.push(() => quotes.annotateQuote({ quoteId, userId, notes: change.adminNotes as string }));
+  }
+  if (change.dismissDuplicate) {
+    steps.push(() => quotes.dismissDuplicate({ quoteId, userId }));
+  }
+  if (change.status) {
+    steps.push(() => dispatchStatusChange(quoteId, currentStatus, change, userId));
+  } else if (change.estimate !== undefined || change.quotedAmount !== undefined) {
+    return { statusCode: 400, message: 'Estimates are saved by sending the quote' };
   }
+
+  for (const step of steps) {
+    const result = await step();
+    if ('statusCode' in result) {
+      return result;
+    }
+    if (!result.success) {
+      return toFailure(result);
+    }
+  }
+
+  return null;
 }
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handleRequest(req: AuthenticatedRequest, res: NextApiResponse, adminEmail: string) {
   try {
-    // Check if this is a form submission (POST without auth header for new quote requests)
-    const authHeader = req.headers.authorization;
-    const isFormSubmission = req.method === 'POST' && !authHeader && req.body && req.body.fullName;
-    
-    if (!isFormSubmission) {
-      // Verify admin authentication using cookies
-      const authResult = await secureCookieManager.getAuthFromCookies(req);
-      if (!authResult.success || !authResult.user || authResult.user.role !== 'admin') {
-        return res.status(401).json({ 
-          success: false,
-          error: 'Authentication required or insufficient permissions',
-          message: authResult.message
-        });
-      }
-    }
+    const quotes = cqrsContainer.quoteApplicationService;
+    // Changes are attributed to the signed-in admin, never to a name sent by the client
+    const userId = adminEmail;
 
     switch (req.method) {
-      case 'GET':
-        // Get all quote requests or specific one
-        const { id, status, hideDeclined } = req.query;
-        
-        let filteredRequests = quoteRequests;
-        
-        if (status && status !== 'all') {
-          filteredRequests = quoteRequests.filter(request => request.status === status);
-        }
-        
-        if (hideDeclined === 'true') {
-          filteredRequests = filteredRequests.filter(request => request.status !== 'declined');
-        }
-        
+      case 'GET': {
+        // Get all quote requests or specific one; queue=mine limits the list to the signed-in estimator
+        const { id, status, hideDeclined, queue, overdue } = req.query;
+
         if (id) {
-          const request = quoteRequests.find(r => r.id === id);
-          if (!request) {
+          const details = await quotes.getQuoteDetails(String(id), undefined, adminEmail);
+          if (!details.success || !details.data) {
             return res.status(404).json({
               success: false,
               message: 'Quote request not found'
@@ -116,29 +159,58 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           }
           return res.status(200).json({
             success: true,
-            data: request
+            data: toAdminQuoteRequestView(details.data)
           });
         }
 
+        let statusFilter: QuoteStatus | undefined;
+        if (status && status !== 'all') {
+          try {
+            statusFilter = normalizeQuoteStatus(String(status));
+          } catch (error) {
+            if (error instanceof DomainValidationError) {
+              return res.status(400).json({ success: false, message: error.message });
+            }
+            throw error;
+          }
+        }
+
+        const [list, summary] = await Promise.all([
+          quotes.getQuoteList({
+            status: statusFilter,
+            assignedTo: queue === 'mine' ? adminEmail : undefined,
+            isOverdue: overdue === 'true' ? true : undefined,
+            limit: QUOTE_LIST_LIMIT,
+            userId: adminEmail
+          }),
+          quotes.getQuoteStatusCounts(undefined, adminEmail)
+        ]);
+
+        if (!list.success || !list.data || !summary.success || !summary.data) {
+          return res.status(500).json({
+            success: false,
+            message: list.error || summary.error || 'Failed to load quote requests'
+          });
+        }
+
+        let quoteRequests = list.data.items.map(toAdminQuoteRequestView);
+        if (hideDeclined === 'true') {
+          quoteRequests = quoteRequests.filter(request => request.status !== QuoteStatus.REJECTED);
+        }
+
         return res.status(200).json({
           success: true,
           data: {
-            quoteRequests: filteredRequests,
-            summary: {
-              total: quoteRequests.length,
-              pending: quoteRequests.filter(r => r.status === 'pending').length,
-              review: quoteRequests.filter(r => r.status === 'review').length,
-              quoted: quoteRequests.filter(r => r.status === 'quoted').length,
-              accepted: quoteRequests.filter(r => r.status === 'accepted').length,
-              declined: quoteRequests.filter(r => r.status === 'declined').length
-            }
+            quoteRequests,
+            summary: summary.data,
+            estimators: container.quoteAssignmentService.allEstimators
           }
         });
+      }
 
-      case 'PATCH':
-        // Update quote request status
+      case 'PATCH': {
+        // Update quote request status, assignment or notes
         const { id: quoteId } = req.query;
-        const { status: newStatus, adminNotes, assignedTo: newAssignedTo, quotedAmount, updatedBy } = req.body;
 
         if (!quoteId) {
           return res.status(400).json({
@@ -147,121 +219,125 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           });
         }
 
-        const requestIndex = quoteRequests.findIndex(r => r.id === quoteId);
-        if (requestIndex === -1) {
+        const current = await quotes.getQuoteDetails(String(quoteId), undefined, adminEmail);
+        if (!current.success || !current.data) {
           return res.status(404).json({
             success: false,
             message: 'Quote request not found'
           });
         }
 
-        const updatedRequest = { ...quoteRequests[requestIndex] };
-        
-        if (newStatus) {
-          updatedRequest.status = newStatus;
-          if (newStatus === 'review' && !updatedRequest.reviewedAt) {
-            updatedRequest.reviewedAt = new Date();
-          }
-          if (newStatus === 'quoted' && !updatedRequest.quotedAt) {
-            updatedRequest.quotedAt = new Date();
+        // Merging removes this quote, so the response carries the quote that was kept
+        if (typeof req.body?.mergeInto === 'string' && req.body.mergeInto) {
+          const merged = await quotes.mergeQuote({
+            quoteId: String(quoteId),
+            targetQuoteId: req.body.mergeInto,
+            userId
+          });
+          if (!merged.success) {
+            const mergeFailure = toFailure(merged);
+            return res.status(mergeFailure.statusCode).json({
+              success: false,
+              message: mergeFailure.message,
+              field: mergeFailure.field
+            });
           }
-        }
-        
-        if (adminNotes !== undefined) {
-          updatedRequest.adminNotes = adminNotes;
-        }
-        
-        if (newAssignedTo !== undefined) {
-          updatedRequest.assignedTo = newAssignedTo;
-        }
 
-        if (quotedAmount !== undefined) {
-          updatedRequest.quotedAmount = quotedAmount;
-          updatedRequest.estimatedValue = quotedAmount;
+          const kept = await quotes.getQuoteDetails(req.body.mergeInto, undefined, adminEmail);
+          return res.status(200).json({
+            success: true,
+            data: kept.data ? toAdminQuoteRequestView(kept.data) : undefined,
+            message: 'Quote requests merged successfully'
+          });
         }
-        
-        if (updatedBy !== undefined) {
-          updatedRequest.updatedBy = updatedBy;
-          updatedRequest.updatedAt = new Date();
+
+        const failure = await applyQuoteChange(
+          String(quoteId),
+          current.data.status as QuoteStatus,
+          req.body as QuoteChange,
+          userId
+        );
+        if (failure) {
+          return res.status(failure.statusCode).json({
+            success: false,
+            message: failure.message,
+            field: failure.field
+          });
         }
 
-        quoteRequests[requestIndex] = updatedRequest;
-        saveQuoteRequestsToFile(quoteRequests);
+        const updated = await quotes.getQuoteDetails(String(quoteId), undefined, adminEmail);
 
         return res.status(200).json({
           success: true,
-          data: updatedRequest,
+          data: updated.data ? toAdminQuoteRequestView(updated.data) : undefined,
           message: 'Quote request updated successfully'
         });
+      }
 
-      case 'POST':
-        // Handle new quote request or bulk actions
-        if (req.body.requestIds) {
-          // Bulk action
-          const { requestIds, bulkStatus, updatedBy } = req.body;
+      case 'POST': {
+        // Bulk actions; website forms create quote requests through /api/quote
+        const { requestIds, bulkStatus, reason } = req.body || {};
 
-          if (!Array.isArray(requestIds) || requestIds.length === 0) {
-            return res.status(400).json({
-              success: false,
-              message: 'Request IDs array required'
-            });
-          }
+        if (!Array.isArray(requestIds) || requestIds.length === 0) {
+          return res.status(400).json({
+            success: false,
+            message: 'Request IDs array required'
+          });
+        }
 
-          const updatedRequests = [];
-          let updated = 0;
-
-          for (const requestId of requestIds) {
-            const index = quoteRequests.findIndex(r => r.id === requestId);
-            if (index !== -1) {
-              quoteRequests[index] = {
-                ...quoteRequests[index],
-                status: bulkStatus,
-                reviewedAt: bulkStatus === 'review' ? new Date() : quoteRequests[index].reviewedAt,
-                quotedAt: bulkStatus === 'quoted' ? new Date() : quoteRequests[index].quotedAt,
-                updatedBy: updatedBy || 'Admin',
-                updatedAt: new Date()
-              };
-              updatedRequests.push(quoteRequests[index]);
-              updated++;
-            }
+        let targetBulkStatus: QuoteStatus;
+        try {
+          targetBulkStatus = normalizeQuoteStatus(bulkStatus);
+        } catch (error) {
+          if (error instanceof DomainValidationError) {
+            return res.status(400).json({ success: false, message: error.message, field: error.field });
           }
+          throw error;
+        }
 
-          saveQuoteRequestsToFile(quoteRequests);
-          
-          return res.status(200).json({
-            success: true,
-            data: updatedRequests,
-            message: `${updated} quote requests updated to ${bulkStatus}`
-          });
-        } else {
-          // Create new quote request (from website form)
-          const newRequest: QuoteRequest = {
-            id: `qr_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            fullName: req.body.fullName,
-            email: req.body.email,
-            phone: req.body.phone,
-            serviceClass: req.body.serviceClass || 'commercial',
-            service: req.body.service,
-            details: req.body.details,
-            photoFiles: req.body.photoFiles || [],
-            status: 'pending',
-            submittedAt: new Date(),
-            submittedBy: req.body.fullName,
-            ipAddress: req.headers['x-forwarded-for'] as string || req.connection.remoteAddress,
-            userAgent: req.headers['user-agent']
-          };
-
-          quoteRequests.unshift(newRequest); // Add to beginning of array
-          saveQuoteRequestsToFile(quoteRequests);
-
-          return res.status(201).json({
-            success: true,
-            data: newRequest,
-            message: 'Quote request created successfully'
+        // Sending a quote needs an estimate and an email, so it is not offered in bulk
+        if (targetBulkStatus === QuoteStatus.QUOTE_SENT) {
+          return res.status(400).json({
+            success: false,
+            message: 'Quotes must be sent individually'
           });
         }
 
-      case 'DELETE':
+        const updatedIds: string[] = [];
+        const skipped: Array<{ id: string; reason: string }> = [];
+
+        for (const requestId of requestIds) {
+          const current = await quotes.getQuoteDetails(String(requestId), undefined, adminEmail);
+          if (!current.success || !current.data) {
+            skipped.push({ id: requestId, reason: 'Quote request not found' });
+            continue;
+          }
+
+          const failure = await applyQuoteChange(
+            String(requestId),
+            current.data.status as QuoteStatus,
+            { status: targetBulkStatus, reason },
+            userId
+          );
+          if (failure) {
+            skipped.push({ id: requestId, reason: failure.message });
+            continue;
+          }
+
+          updatedIds.push(requestId);
+        }
+
+        return res.status(200).json({
+          success: true,
+          data: updatedIds,
+          skipped,
+          message: skipped.length > 0
+            ? `${updatedIds.length} quote requests updated to ${targetBulkStatus}, ${skipped.length} skipped`
+            : `${updatedIds.length} quote requests updated to ${targetBulkStatus}`
+        });
+      }
+
+      case 'DELETE': {
         // Delete specific quote request
         const { id: deleteId } = req.query;
 
@@ -272,26 +348,21 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           });
         }
 
-        const deleteIndex = quoteRequests.findIndex(r => r.id === deleteId);
-        if (deleteIndex === -1) {
-          return res.status(404).json({
+        const result = await quotes.deleteQuote({ quoteId: String(deleteId), userId });
+        if (!result.success) {
+          const failure = toFailure(result);
+          return res.status(failure.statusCode).json({
             success: false,
-            message: 'Quote request not found'
+            message: failure.statusCode === 404 ? 'Quote request not found' : failure.message
           });
         }
 
-        // Remove the request from the array
-        const deletedRequest = quoteRequests.splice(deleteIndex, 1)[0];
-        saveQuoteRequestsToFile(quoteRequests);
-
         return res.status(200).json({
           success: true,
           message: 'Quote request deleted successfully',
-          data: {
-            deleted: deletedRequest,
-            remaining: quoteRequests.length
-          }
+          data: result.data
         });
+      }
 
       default:
         res.setHeader('Allow', ['GET', 'PATCH', 'POST', 'DELETE']);
@@ -309,3 +380,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
+export default withAuth({ roles: ['admin'] })(
+  (req: AuthenticatedRequest, res: NextApiResponse) => handleRequest(req, res, req.user.email)
+);
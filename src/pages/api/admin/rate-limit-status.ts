@@ -5,6 +5,7 @@
 
 import { NextApiResponse } from 'next';
 import { withSecurity } from '../../../middleware/cors';
+import { withAuth } from '../../../middleware/withAuth';
 import { withAdminRateLimit, getAllRateLimits, resetRateLimit, RATE_LIMIT_CONFIGS } from '../../../middleware/rateLimit';
 import { 
   AdminApiRequest,
@@ -86,4 +87,4 @@ async function handler(
   }
 }
 
-export default withSecurity(withAdminRateLimit(handler));
\ No newline at end of file
+export default withSecurity(withAuth({ roles: ['admin'], permissions: ['admin:system'] })(withAdminRateLimit(handler)));
\ No newline at end of file
@@ -0,0 +1,48 @@
+/**
+ * Admin Payroll Export API Endpoint
+ * Downloads the Excel payroll hours for a pay period; only approved shifts are totalled
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { DomainError } from '@/domain/shared/DomainError';
+import { PayrollReport } from '@/domain/services/TimesheetService';
+import { parseCalendarDate } from '@/domain/timesheet/PayPeriod';
+import { container } from '@/infrastructure/di/Container';
+import { getTimesheetService } from '@/infrastructure/repositories/RepositoryProvider';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const { period } = req.query;
+    if (typeof period !== 'string' || !period) {
+      return res.status(400).json({ success: false, error: 'Choose a pay period' });
+    }
+
+    let report: PayrollReport;
+    try {
+      const timesheetService = await getTimesheetService();
+      report = await timesheetService.payrollReport(timesheetService.payPeriodContaining(parseCalendarDate(period)));
+    } catch (domainError) {
+      if (domainError instanceof DomainError) {
+        return res.status(400).json({ success: false, error: domainError.message, code: domainError.errorCode });
+      }
+      throw domainError;
+    }
+
+    const file = await container.payrollExporter.exportPayroll(report);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).send(file.content);
+  } catch (error) {
+    console.error('Payroll export error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'] })(handler);
\ No newline at end of file
@@ -0,0 +1,52 @@
+/**
+ * Admin Service Report API Endpoint
+ * Downloads the Excel service report for a date range, per property, per client or across all properties
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { DomainError } from '@/domain/shared/DomainError';
+import { ServiceReportData } from '@/domain/services/ServiceReportExporter';
+import { container } from '@/infrastructure/di/Container';
+import { getServiceReportService } from '@/infrastructure/repositories/RepositoryProvider';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const { from, to, propertyCode, clientName } = req.query;
+    if (typeof propertyCode === 'string' && propertyCode.trim() && typeof clientName === 'string' && clientName.trim()) {
+      return res.status(400).json({ success: false, error: 'Report on either a property or a client, not both' });
+    }
+
+    let data: ServiceReportData;
+    try {
+      const serviceReportService = await getServiceReportService();
+      data = await serviceReportService.collect({
+        from: new Date(String(from ?? '')),
+        to: new Date(String(to ?? '')),
+        propertyCode: typeof propertyCode === 'string' ? propertyCode : undefined,
+        clientName: typeof clientName === 'string' ? clientName : undefined
+      });
+    } catch (domainError) {
+      if (domainError instanceof DomainError) {
+        return res.status(400).json({ success: false, error: domainError.message, code: domainError.errorCode });
+      }
+      throw domainError;
+    }
+
+    const report = await container.serviceReportExporter.exportServiceReport(data);
+
+    res.setHeader('Content-Type', report.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${report.filename}"`);
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).send(report.content);
+  } catch (error) {
+    console.error('Service report export error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'] })(handler);
\ No newline at end of file
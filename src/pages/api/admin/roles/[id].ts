@@ -0,0 +1,65 @@
+/**
+ * Admin Role API Endpoint
+ * Changes or deletes one custom role; system roles are read-only
+ * SECURITY: An admin can only change roles made entirely of permissions they hold themselves
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { RBACError } from '@/auth/types';
+import { getRBACManager } from '@/infrastructure/repositories/RepositoryProvider';
+import { sessionService } from '@/services/SessionService';
+import { rbacErrorStatus, toRoleResponse } from '@/presentation/api/RolePresenter';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'PUT' && req.method !== 'DELETE') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const rbac = await getRBACManager();
+    const { id } = req.query;
+    const role = typeof id === 'string' ? await rbac.findRole(id) : null;
+
+    if (!role) {
+      return res.status(404).json({ success: false, error: 'Role not found' });
+    }
+
+    const held = await sessionService.getPermissions(req.user);
+    const { name, description, permissions } = req.body || {};
+    const requested: string[] = req.method === 'PUT' && Array.isArray(permissions) ? permissions : [];
+    const missing = [...role.permissions.map(permission => permission.name), ...requested]
+      .filter(permission => !held.includes(permission));
+    if (missing.length > 0) {
+      return res.status(403).json({
+        success: false,
+        error: `This role covers permissions you do not hold: ${Array.from(new Set(missing)).join(', ')}`
+      });
+    }
+
+    if (req.method === 'DELETE') {
+      await rbac.deleteRole(role.id);
+      return res.status(200).json({ success: true, message: `Role "${role.name}" deleted` });
+    }
+
+    if (typeof name !== 'string' || !Array.isArray(permissions) || permissions.some(p => typeof p !== 'string')) {
+      return res.status(400).json({ success: false, error: 'name and a list of permission names are required' });
+    }
+
+    const updated = await rbac.updateRole(role.id, {
+      name,
+      description: typeof description === 'string' ? description : undefined,
+      permissions
+    });
+
+    return res.status(200).json({ success: true, role: toRoleResponse(updated, await rbac.listAssignments()) });
+  } catch (error) {
+    if (error instanceof RBACError) {
+      return res.status(rbacErrorStatus(error)).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Admin role update error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'], permissions: ['admin:roles'] })(handler);
\ No newline at end of file
@@ -0,0 +1,60 @@
+/**
+ * Admin Role Assignments API Endpoint
+ * Assigns a role to an admin or employee account, or takes it away
+ * SECURITY: An admin can only hand out or take away roles made entirely of permissions they hold themselves
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { RBACError } from '@/auth/types';
+import { getRBACManager } from '@/infrastructure/repositories/RepositoryProvider';
+import { secureUserManager } from '@/lib/secure-user-manager';
+import { sessionService } from '@/services/SessionService';
+import { rbacErrorStatus, toRoleAssignmentResponse } from '@/presentation/api/RolePresenter';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST' && req.method !== 'DELETE') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const { userId, roleId } = req.body || {};
+    if (typeof userId !== 'string' || !userId || typeof roleId !== 'string' || !roleId) {
+      return res.status(400).json({ success: false, error: 'userId and roleId are required' });
+    }
+
+    const rbac = await getRBACManager();
+
+    const role = await rbac.findRole(roleId);
+    if (!role) {
+      return res.status(404).json({ success: false, error: 'Role not found' });
+    }
+
+    const held = await sessionService.getPermissions(req.user);
+    const missing = role.permissions.map(permission => permission.name).filter(permission => !held.includes(permission));
+    if (missing.length > 0) {
+      return res.status(403).json({ success: false, error: `This role covers permissions you do not hold: ${missing.join(', ')}` });
+    }
+
+    if (req.method === 'DELETE') {
+      await rbac.revokeRole(userId, role.id);
+      return res.status(200).json({ success: true, message: 'Role removed' });
+    }
+
+    const user = secureUserManager.getUserById(userId);
+    if (!user || user.role === 'client') {
+      return res.status(404).json({ success: false, error: 'Admin or employee account not found' });
+    }
+
+    const assignment = await rbac.assignRole(user.id, role.id, req.user.email);
+    return res.status(200).json({ success: true, assignment: toRoleAssignmentResponse(assignment, user) });
+  } catch (error) {
+    if (error instanceof RBACError) {
+      return res.status(rbacErrorStatus(error)).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Admin role assignment error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'], permissions: ['admin:roles'] })(handler);
\ No newline at end of file
@@ -0,0 +1,81 @@
+/**
+ * Admin Roles API Endpoint
+ * Lists roles, the permission catalog and who holds which role, and creates custom roles
+ * SECURITY: An admin can only put permissions they hold themselves into a role
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { RBACError } from '@/auth/types';
+import { getRBACManager } from '@/infrastructure/repositories/RepositoryProvider';
+import { secureUserManager } from '@/lib/secure-user-manager';
+import { sessionService } from '@/services/SessionService';
+import {
+  rbacErrorStatus,
+  toPermissionResponse,
+  toRoleAssignmentResponse,
+  toRoleResponse
+} from '@/presentation/api/RolePresenter';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const rbac = await getRBACManager();
+    const held = await sessionService.getPermissions(req.user);
+
+    if (req.method === 'GET') {
+      const [roles, permissions, assignments] = await Promise.all([
+        rbac.listRoles(),
+        rbac.listPermissions(),
+        rbac.listAssignments()
+      ]);
+
+      // Roles are for staff; clients get their access from their contracts
+      const staff = secureUserManager.listUsers().filter(user => user.role !== 'client');
+      const usersById = new Map(staff.map(user => [user.id, user]));
+
+      return res.status(200).json({
+        success: true,
+        roles: roles.map(role => toRoleResponse(role, assignments)),
+        permissions: permissions.map(toPermissionResponse),
+        assignments: assignments.map(assignment => toRoleAssignmentResponse(assignment, usersById.get(assignment.userId))),
+        users: staff.map(user => ({
+          id: user.id,
+          email: user.email,
+          name: `${user.firstName} ${user.lastName}`.trim(),
+          role: user.role
+        })),
+        grantable: held
+      });
+    }
+
+    const { name, description, permissions } = req.body || {};
+    if (typeof name !== 'string' || !Array.isArray(permissions) || permissions.some(p => typeof p !== 'string')) {
+      return res.status(400).json({ success: false, error: 'name and a list of permission names are required' });
+    }
+
+    const missing = permissions.filter((permission: string) => !held.includes(permission));
+    if (missing.length > 0) {
+      return res.status(403).json({ success: false, error: `You cannot grant permissions you do not hold: ${missing.join(', ')}` });
+    }
+
+    const role = await rbac.createRole({
+      name,
+      description: typeof description === 'string' ? description : undefined,
+      permissions
+    });
+
+    return res.status(201).json({ success: true, role: toRoleResponse(role) });
+  } catch (error) {
+    if (error instanceof RBACError) {
+      return res.status(rbacErrorStatus(error)).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Admin roles error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'], permissions: ['admin:roles'] })(handler);
\ No newline at end of file
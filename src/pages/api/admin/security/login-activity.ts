@@ -0,0 +1,72 @@
+/**
+ * Admin Sign-In Activity API Endpoint
+ * Lists current lockouts and recent sign-in attempts, flagged ones on request, and lifts a lockout
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { getLoginPolicyEngine } from '@/infrastructure/repositories/RepositoryProvider';
+
+const ATTEMPT_LIMIT = 200;
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (!['GET', 'DELETE'].includes(req.method || '')) {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const loginPolicy = await getLoginPolicyEngine();
+
+    if (req.method === 'GET') {
+      const flaggedOnly = req.query.flagged === '1' || req.query.flagged === 'true';
+      const [lockouts, attempts] = await Promise.all([
+        loginPolicy.listLockouts(),
+        loginPolicy.listAttempts(ATTEMPT_LIMIT, flaggedOnly)
+      ]);
+
+      return res.status(200).json({
+        success: true,
+        lockouts: lockouts.map(lockout => ({
+          scope: lockout.scope,
+          subject: lockout.subject,
+          strikes: lockout.strikes,
+          lockedAt: lockout.lockedAt?.toISOString(),
+          lockedUntil: lockout.lockedUntil?.toISOString()
+        })),
+        attempts: attempts.map(attempt => ({
+          id: attempt.id,
+          userId: attempt.userId,
+          email: attempt.email,
+          ip: attempt.ip,
+          userAgent: attempt.userAgent,
+          device: attempt.device,
+          country: attempt.country,
+          success: attempt.success,
+          failureReason: attempt.failureReason,
+          flags: attempt.flags,
+          attemptedAt: attempt.attemptedAt.toISOString()
+        }))
+      });
+    }
+
+    const { scope, subject } = req.body || {};
+    if ((scope !== 'account' && scope !== 'ip') || typeof subject !== 'string' || !subject) {
+      return res.status(400).json({ success: false, error: 'scope (account or ip) and subject are required' });
+    }
+
+    if (!(await loginPolicy.unlock(scope, subject))) {
+      return res.status(404).json({ success: false, error: 'No lockout found' });
+    }
+
+    console.log(`Sign-in lockout lifted by ${req.user.email}:`, { scope, subject });
+    return res.status(200).json({
+      success: true,
+      message: scope === 'ip' ? `Unlocked IP address ${subject}` : `Unlocked ${subject}`
+    });
+  } catch (error) {
+    console.error('Admin sign-in activity error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'], permissions: ['admin:users'] })(handler);
\ No newline at end of file
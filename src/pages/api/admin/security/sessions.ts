@@ -0,0 +1,71 @@
+/**
+ * Admin Active Sessions API Endpoint
+ * Lists signed-in devices across every account and signs one device, or all of a user's devices, out
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { secureUserManager } from '@/lib/secure-user-manager';
+import { sessionService } from '@/services/SessionService';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (!['GET', 'DELETE'].includes(req.method || '')) {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const admin = req.user;
+
+    if (req.method === 'GET') {
+      const userId = typeof req.query.userId === 'string' ? req.query.userId : undefined;
+      const sessions = (await sessionService.listActiveSessions(userId)).map(session => {
+        const user = secureUserManager.getUserById(session.userId);
+        return {
+          id: session.id,
+          userId: session.userId,
+          email: user?.email || 'Deleted user',
+          name: user ? `${user.firstName} ${user.lastName}`.trim() : '',
+          role: user?.role,
+          ip: session.ip,
+          userAgent: session.userAgent,
+          rememberMe: session.rememberMe,
+          signedInAt: session.signedInAt.toISOString(),
+          lastActiveAt: session.lastActiveAt.toISOString(),
+          refreshExpiresAt: session.refreshExpiresAt.toISOString(),
+          isCurrent: session.id === req.session.sessionId
+        };
+      });
+
+      return res.status(200).json({ success: true, sessions });
+    }
+
+    const { sessionId, userId } = req.body || {};
+
+    if (typeof sessionId === 'string' && sessionId) {
+      const revoked = await sessionService.revokeSession(sessionId, 'revoked_by_admin');
+      if (!revoked) {
+        return res.status(404).json({ success: false, error: 'Session not found or already ended' });
+      }
+
+      console.log(`Session signed out by ${admin.email}:`, { sessionId, userId: revoked.userId });
+      return res.status(200).json({ success: true, message: 'Device signed out' });
+    }
+
+    if (typeof userId === 'string' && userId) {
+      if (!secureUserManager.getUserById(userId)) {
+        return res.status(404).json({ success: false, error: 'User not found' });
+      }
+
+      await sessionService.revokeUserSessions(userId, 'revoked_by_admin');
+      console.log(`All sessions signed out by ${admin.email}:`, { userId });
+      return res.status(200).json({ success: true, message: 'Signed out on every device' });
+    }
+
+    return res.status(400).json({ success: false, error: 'sessionId or userId is required' });
+  } catch (error) {
+    console.error('Admin sessions error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'], permissions: ['admin:users'] })(handler);
\ No newline at end of file
@@ -0,0 +1,92 @@
+/**
+ * Admin Two-Factor API Endpoint
+ * Shows two-factor enrollment for staff accounts, sets which roles require it, and lets a
+ * super admin reset a user's two-factor (audit logged)
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { secureUserManager, TwoFactorRole } from '@/lib/secure-user-manager';
+import { sessionService } from '@/services/SessionService';
+
+const ROLES: TwoFactorRole[] = ['admin', 'employee'];
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (!['GET', 'PUT', 'POST'].includes(req.method || '')) {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const admin = req.user;
+    const isSuperAdmin = secureUserManager.isSuperAdmin(admin.id);
+
+    if (req.method === 'GET') {
+      const policy = secureUserManager.getTwoFactorPolicy();
+      const users = secureUserManager.listUsers()
+        .filter(user => user.role !== 'client')
+        .map(user => {
+          const status = secureUserManager.getTwoFactorStatus(user.id)!;
+          return {
+            id: user.id,
+            email: user.email,
+            name: `${user.firstName} ${user.lastName}`.trim(),
+            role: user.role,
+            status: user.status,
+            twoFactorEnabled: status.enabled,
+            twoFactorRequired: status.required,
+            enabledAt: status.enabledAt?.toISOString(),
+            recoveryCodesRemaining: status.recoveryCodesRemaining
+          };
+        });
+
+      return res.status(200).json({
+        success: true,
+        policy: {
+          requiredRoles: policy.requiredRoles,
+          updatedAt: policy.updatedAt ? new Date(policy.updatedAt).toISOString() : undefined,
+          updatedBy: policy.updatedBy
+        },
+        users,
+        canReset: isSuperAdmin
+      });
+    }
+
+    if (req.method === 'PUT') {
+      const { role, required } = req.body || {};
+      if (!ROLES.includes(role) || typeof required !== 'boolean') {
+        return res.status(400).json({ success: false, error: `role must be one of ${ROLES.join(', ')} and required a boolean` });
+      }
+
+      const policy = secureUserManager.setTwoFactorRequired(role, required, admin.email);
+      return res.status(200).json({ success: true, policy });
+    }
+
+    // Resetting removes a second factor from someone else's account, so only super admins may
+    if (!isSuperAdmin) {
+      return res.status(403).json({ success: false, error: 'Only a super admin can reset two-factor authentication' });
+    }
+
+    const { userId, reason } = req.body || {};
+    if (typeof userId !== 'string' || !userId) {
+      return res.status(400).json({ success: false, error: 'userId is required' });
+    }
+    if (typeof reason !== 'string' || !reason.trim()) {
+      return res.status(400).json({ success: false, error: 'A reason is required for the audit log' });
+    }
+
+    const result = await secureUserManager.resetTwoFactor(userId, admin.email, reason.trim());
+    if (!result.success) {
+      return res.status(404).json({ success: false, error: result.message });
+    }
+
+    // Whoever holds the lost device may still be signed in
+    await sessionService.revokeUserSessions(userId, 'two_factor_reset');
+
+    return res.status(200).json({ success: true, message: result.message });
+  } catch (error) {
+    console.error('Admin two-factor error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'] })(handler);
\ No newline at end of file
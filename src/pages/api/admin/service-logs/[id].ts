@@ -0,0 +1,75 @@
+/**
+ * Admin Service Log Entry API Endpoint
+ * Supervisors approve entries for billing or reject them back to the crew with a comment.
+ * Approval draws the logged materials down from yard inventory.
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { BusinessRuleViolationError, DomainError } from '@/domain/shared/DomainError';
+import { UniqueEntityId } from '@/domain/shared/UniqueEntityId';
+import { getInventoryService, getServiceLogRepository } from '@/infrastructure/repositories/RepositoryProvider';
+import { toServiceLogEntryResponse } from '@/presentation/api/ServiceLogPresenter';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'PATCH') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const adminEmail: string = req.user.email;
+
+    const { id } = req.query;
+    const serviceLogRepository = await getServiceLogRepository();
+    const entry = typeof id === 'string' && UniqueEntityId.isValid(id)
+      ? await serviceLogRepository.findById(UniqueEntityId.create(id))
+      : null;
+
+    if (!entry) {
+      return res.status(404).json({ success: false, error: 'Service log entry not found' });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ success: true, entry: toServiceLogEntryResponse(entry) });
+    }
+
+    const { action, comment, yard } = req.body || {};
+    const inventoryService = await getInventoryService();
+    try {
+      switch (action) {
+        case 'approve': {
+          // Materials come off inventory before the entry is approved and locked, so a failed draw-down leaves
+          // the entry open for another try. Draw-downs are recorded per entry, so a retry never takes them twice.
+          // The review check runs first, which leaves approve() nothing to refuse once stock has moved.
+          entry.ensureReviewableBy(adminEmail);
+          const drawDown = await inventoryService.planServiceLogDrawDown(entry, typeof yard === 'string' ? yard : undefined);
+          await inventoryService.applyDrawDown(drawDown, adminEmail);
+          entry.approve(adminEmail, comment);
+          break;
+        }
+        case 'reject':
+          entry.reject(adminEmail, comment);
+          break;
+        default:
+          return res.status(400).json({ success: false, error: 'Action must be one of: approve, reject' });
+      }
+    } catch (domainError) {
+      // Rule violations mean the entry or stock is no longer in a state to allow the review
+      if (domainError instanceof DomainError) {
+        const status = domainError instanceof BusinessRuleViolationError ? 409 : 400;
+        return res.status(status).json({ success: false, error: domainError.message, code: domainError.errorCode });
+      }
+      throw domainError;
+    }
+
+    await serviceLogRepository.save(entry);
+    entry.markEventsAsCommitted();
+
+    return res.status(200).json({ success: true, entry: toServiceLogEntryResponse(entry) });
+  } catch (error) {
+    console.error('Service log review error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'] })(handler);
\ No newline at end of file
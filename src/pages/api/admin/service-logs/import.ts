@@ -0,0 +1,94 @@
+/**
+ * Admin Service Log Import API Endpoint
+ * Imports a legacy crew log spreadsheet; nothing is saved unless every row passes validation
+ */
+
+import { promises as fs } from 'fs';
+import { NextApiRequest, NextApiResponse } from 'next';
+import { IncomingForm, File } from 'formidable';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { SECURITY_CONFIG } from '@/lib/security';
+import { container } from '@/infrastructure/di/Container';
+import { getServiceLogRepository } from '@/infrastructure/repositories/RepositoryProvider';
+import { toServiceLogEntryResponse } from '@/presentation/api/ServiceLogPresenter';
+
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+function parseUpload(req: NextApiRequest): Promise<File | undefined> {
+  const form = new IncomingForm({
+    allowEmptyFiles: false,
+    maxFiles: 1,
+    maxFileSize: SECURITY_CONFIG.MAX_FILE_SIZE
+  });
+
+  return new Promise((resolve, reject) => {
+    form.parse(req, (err, _fields, files) => {
+      if (err) return reject(err);
+      const upload = files.file;
+      resolve(Array.isArray(upload) ? upload[0] : upload);
+    });
+  });
+}
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    let upload: File | undefined;
+    try {
+      upload = await parseUpload(req);
+    } catch (error) {
+      console.error('Service log import upload error:', error);
+      return res.status(400).json({ success: false, error: 'Upload failed. Please check the file size and try again.' });
+    }
+
+    if (!upload) {
+      return res.status(400).json({ success: false, error: 'Attach the spreadsheet as "file"' });
+    }
+    if (!/\.xlsx$/i.test(upload.originalFilename || '')) {
+      await fs.unlink(upload.filepath).catch(() => undefined);
+      return res.status(400).json({ success: false, error: 'Only .xlsx spreadsheets can be imported' });
+    }
+
+    const content = await fs.readFile(upload.filepath);
+    await fs.unlink(upload.filepath).catch(() => undefined);
+
+    const result = await container.serviceLogImporter.parseServiceLogs(content, req.user.email);
+
+    // Partial imports leave the admin guessing which rows landed, so any error rejects the whole file
+    if (result.errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `${result.errors.length} problem(s) found; nothing was imported`,
+        rowCount: result.rowCount,
+        errors: result.errors
+      });
+    }
+    if (result.entries.length === 0) {
+      return res.status(400).json({ success: false, error: 'The spreadsheet has no service log rows', rowCount: 0, errors: [] });
+    }
+
+    const serviceLogRepository = await getServiceLogRepository();
+    for (const entry of result.entries) {
+      await serviceLogRepository.save(entry);
+      entry.markEventsAsCommitted();
+    }
+
+    return res.status(201).json({
+      success: true,
+      imported: result.entries.length,
+      entries: result.entries.map(toServiceLogEntryResponse)
+    });
+  } catch (error) {
+    console.error('Service log import error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'] })(handler);
\ No newline at end of file
@@ -0,0 +1,57 @@
+/**
+ * Admin Service Logs API Endpoint
+ * Supervisor review queue for crew service log entries, with per-property billing history
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { ServiceLogStatus, summarizeServiceLogs } from '@/domain/servicelog/ServiceLogEntry';
+import { getServiceLogRepository } from '@/infrastructure/repositories/RepositoryProvider';
+import { toServiceLogEntryResponse } from '@/presentation/api/ServiceLogPresenter';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    // Without a status filter the queue shows entries waiting on review; status=all shows every entry
+    const { status, propertyCode, submittedBy } = req.query;
+    const statusFilter = typeof status === 'string' && status ? status : ServiceLogStatus.SUBMITTED;
+    if (statusFilter !== 'all' && !Object.values(ServiceLogStatus).includes(statusFilter as ServiceLogStatus)) {
+      return res.status(400).json({
+        success: false,
+        error: `Status must be one of: all, ${Object.values(ServiceLogStatus).join(', ')}`
+      });
+    }
+
+    const serviceLogRepository = await getServiceLogRepository();
+    const property = typeof propertyCode === 'string' ? propertyCode.trim() : '';
+    let entries = property
+      ? await serviceLogRepository.findByPropertyCode(property)
+      : await serviceLogRepository.findAll();
+    if (typeof submittedBy === 'string' && submittedBy) {
+      entries = entries.filter(entry => entry.submittedBy.toLowerCase() === submittedBy.toLowerCase());
+    }
+
+    // Counts and the property summary cover every status so tabs and billing totals stay stable
+    const counts = Object.fromEntries(
+      Object.values(ServiceLogStatus).map(value => [value, entries.filter(entry => entry.status === value).length])
+    );
+    const summary = property ? summarizeServiceLogs(entries) : undefined;
+
+    return res.status(200).json({
+      success: true,
+      entries: entries
+        .filter(entry => statusFilter === 'all' || entry.status === statusFilter)
+        .map(toServiceLogEntryResponse),
+      counts,
+      summary
+    });
+  } catch (error) {
+    console.error('Service log queue error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'] })(handler);
\ No newline at end of file
@@ -3,11 +3,11 @@
  * Toggle service status and manage module states
  */
 
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import { withSecurity } from '../../../middleware/cors';
+import { AuthenticatedRequest, withAuth } from '../../../middleware/withAuth';
 import * as fs from 'fs';
 import * as path from 'path';
-import jwt from 'jsonwebtoken';
 
 interface ServiceStatus {
   isRunning: boolean;
@@ -73,58 +73,12 @@ function saveServiceStatus(status: ServiceStatus): void {
   }
 }
 
-async function handler(req: NextApiRequest, res: NextApiResponse) {
-  // Simple JWT verification for super admin access only
-  let decoded: any;
-  
-  try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      console.log('❌ Service status: Missing authorization header');
-      return res.status(401).json({
-        success: false,
-        message: 'Access denied. Authorization required.',
-        error: 'NO_AUTH_HEADER'
-      });
-    }
-
-    const token = authHeader.substring(7);
-    const secret = process.env.JWT_SECRET || 'your-secret-key';
-    
-    try {
-      decoded = jwt.verify(token, secret);
-      console.log('🔑 Service status: Token decoded:', { email: decoded.email, exp: decoded.exp });
-    } catch (jwtError) {
-      console.log('❌ Service status: JWT verification failed:', jwtError);
-      return res.status(401).json({
-        success: false,
-        message: 'Invalid or expired token',
-        error: 'INVALID_TOKEN'
-      });
-    }
-
-    // Check if user is the super admin (simple email check)
-    if (!decoded.email || decoded.email !== 'citylife32@outlook.com') {
-      console.log('❌ Service status: Not super admin:', decoded.email);
-      return res.status(403).json({
-        success: false,
-        message: 'Access denied. Super admin privileges required.',
-        error: 'INSUFFICIENT_PERMISSIONS'
-      });
-    }
-
-    console.log('✅ Service status: Super admin access granted:', decoded.email);
-  } catch (error) {
-    console.error('❌ Service status auth error:', error);
-    return res.status(500).json({
-      success: false,
-      message: 'Authentication error',
-      error: 'AUTH_ERROR'
-    });
-  }
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  // Super admin only; the guard checks the system administration permission
+  const adminEmail = req.user.email;
 
   if (req.method === 'GET') {
-    console.log('📊 Service status requested by:', decoded.email);
+    console.log('📊 Service status requested by:', adminEmail);
     // Get current service status
     const status = getServiceStatus();
     console.log('📊 Returning service status:', status);
@@ -145,7 +99,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         const wasRunning = currentStatus.isRunning;
         currentStatus.isRunning = !currentStatus.isRunning;
         currentStatus.lastUpdated = new Date().toISOString();
-        currentStatus.updatedBy = decoded.email;
+        currentStatus.updatedBy = adminEmail;
 
         // If stopping service, disable all modules and enable maintenance mode
         if (!currentStatus.isRunning) {
@@ -163,7 +117,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
               enabled: true,
               message: 'System temporarily offline for maintenance. Please check back soon.',
               enabledAt: new Date().toISOString(),
-              enabledBy: decoded.email
+              enabledBy: adminEmail
             };
             fs.writeFileSync(maintenanceFile, JSON.stringify(maintenanceData, null, 2));
             console.log('🚧 Maintenance mode ENABLED');
@@ -196,7 +150,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         const statusText = currentStatus.isRunning ? 'STARTED' : 'STOPPED';
         const maintenanceText = currentStatus.isRunning ? 'DISABLED' : 'ENABLED';
         
-        console.log(`🔄 Service ${statusText} and maintenance mode ${maintenanceText} by ${decoded.email}`);
+        console.log(`🔄 Service ${statusText} and maintenance mode ${maintenanceText} by ${adminEmail}`);
 
         return res.status(200).json({
           success: true,
@@ -212,7 +166,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
           const isCurrentlyEnabled = currentStatus.modules[module as keyof typeof currentStatus.modules];
           currentStatus.modules[module as keyof typeof currentStatus.modules] = !isCurrentlyEnabled;
           currentStatus.lastUpdated = new Date().toISOString();
-          currentStatus.updatedBy = decoded.email;
+          currentStatus.updatedBy = adminEmail;
 
           // Handle analytics-specific admin notes
           if (module === 'analytics') {
@@ -229,7 +183,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
               currentStatus.adminNotes.analytics = {
                 message: 'Analytics system has been temporarily disabled by super admin',
                 disabledAt: new Date().toISOString(),
-                disabledBy: decoded.email,
+                disabledBy: adminEmail,
                 reason: reason || 'Manual administrative action'
               };
             }
@@ -237,7 +191,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
 
           saveServiceStatus(currentStatus);
 
-          console.log(`🔄 Module ${module} ${currentStatus.modules[module as keyof typeof currentStatus.modules] ? 'ENABLED' : 'DISABLED'} by ${decoded.email}`);
+          console.log(`🔄 Module ${module} ${currentStatus.modules[module as keyof typeof currentStatus.modules] ? 'ENABLED' : 'DISABLED'} by ${adminEmail}`);
 
           return res.status(200).json({
             success: true,
@@ -278,4 +232,4 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   });
 }
 
-export default withSecurity(handler);
\ No newline at end of file
+export default withSecurity(withAuth({ roles: ['admin'], permissions: ['admin:system'] })(handler));
\ No newline at end of file
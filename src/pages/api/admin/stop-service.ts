@@ -2,11 +2,11 @@
  * Stop Service API Endpoint - Super Admin Only
  */
 
-import { NextApiRequest, NextApiResponse } from 'next';
-import { withAdminAuth } from '../../../middleware/withAdminAuth';
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '../../../middleware/withAuth';
 import { withSecurity } from '../../../middleware/cors';
 
-async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     res.setHeader('Allow', ['POST']);
     return res.status(405).json({ 
@@ -17,17 +17,8 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   }
 
   try {
-    // Get admin user from auth middleware
-    const adminUser = (req as any).user;
-    
-    // Check if user is the super admin
-    if (!adminUser || adminUser.email !== 'citylife32@outlook.com') {
-      return res.status(403).json({
-        success: false,
-        message: 'Access denied. Super admin privileges required.',
-        error: 'INSUFFICIENT_PERMISSIONS'
-      });
-    }
+    // Super admin only; the guard checks the system administration permission
+    const adminUser = req.user;
 
     const { confirmText } = req.body;
 
@@ -71,4 +62,4 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   }
 }
 
-export default withAdminAuth(withSecurity(handler));
\ No newline at end of file
+export default withSecurity(withAuth({ roles: ['admin'], permissions: ['admin:system'] })(handler));
\ No newline at end of file
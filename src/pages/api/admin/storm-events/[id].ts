@@ -0,0 +1,87 @@
+/**
+ * Admin Storm Event API Endpoint
+ * Declares a forecast storm, updates its forecast and closes it out
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { DomainError } from '@/domain/shared/DomainError';
+import { UniqueEntityId } from '@/domain/shared/UniqueEntityId';
+import { getStormDispatchService, getStormEventRepository } from '@/infrastructure/repositories/RepositoryProvider';
+import { toStormEventResponse } from '@/presentation/api/StormEventPresenter';
+import { toWorkOrderResponse, WorkOrderResponse } from '@/presentation/api/WorkOrderPresenter';
+import { SkippedContract } from '@/domain/services/StormDispatchService';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'PATCH') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const adminEmail: string = req.user.email;
+
+    const { id } = req.query;
+    const stormEventRepository = await getStormEventRepository();
+    const stormDispatch = await getStormDispatchService();
+    const storm = typeof id === 'string' && UniqueEntityId.isValid(id)
+      ? await stormEventRepository.findById(UniqueEntityId.create(id))
+      : null;
+
+    if (!storm) {
+      return res.status(404).json({ success: false, error: 'Storm event not found' });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({
+        success: true,
+        storm: toStormEventResponse(storm, await stormDispatch.progress(storm))
+      });
+    }
+
+    const { action, expectedAccumulationInches, endsAt } = req.body || {};
+    let skipped: SkippedContract[] | undefined;
+    let generated: WorkOrderResponse[] | undefined;
+    try {
+      switch (action) {
+        case 'update_forecast':
+          storm.updateForecast({
+            expectedAccumulationInches: expectedAccumulationInches !== undefined ? Number(expectedAccumulationInches) : undefined,
+            endsAt: endsAt ? new Date(endsAt) : undefined
+          });
+          await stormEventRepository.save(storm);
+          break;
+        case 'declare': {
+          const result = await stormDispatch.declare(storm, adminEmail);
+          skipped = result.skipped;
+          generated = result.workOrders.map(toWorkOrderResponse);
+          break;
+        }
+        case 'close':
+          storm.close();
+          await stormEventRepository.save(storm);
+          break;
+        default:
+          return res.status(400).json({ success: false, error: 'Action must be one of: update_forecast, declare, close' });
+      }
+    } catch (domainError) {
+      if (domainError instanceof DomainError) {
+        return res.status(400).json({ success: false, error: domainError.message, code: domainError.errorCode });
+      }
+      throw domainError;
+    }
+
+    storm.markEventsAsCommitted();
+
+    return res.status(200).json({
+      success: true,
+      storm: toStormEventResponse(storm, await stormDispatch.progress(storm)),
+      workOrders: generated,
+      skipped
+    });
+  } catch (error) {
+    console.error('Storm event update error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'] })(handler);
\ No newline at end of file
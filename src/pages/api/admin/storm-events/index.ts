@@ -0,0 +1,74 @@
+/**
+ * Admin Storm Events API Endpoint
+ * Lists storm events with their completion progress and records new storm forecasts
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { DomainError } from '@/domain/shared/DomainError';
+import { StormEvent } from '@/domain/storm/StormEvent';
+import { getStormDispatchService, getStormEventRepository } from '@/infrastructure/repositories/RepositoryProvider';
+import { toStormEventResponse } from '@/presentation/api/StormEventPresenter';
+import { toWorkOrderResponse } from '@/presentation/api/WorkOrderPresenter';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const adminEmail: string = req.user.email;
+
+    const stormEventRepository = await getStormEventRepository();
+    const stormDispatch = await getStormDispatchService();
+
+    if (req.method === 'GET') {
+      const storms = await stormEventRepository.findAll();
+      const responses = await Promise.all(
+        storms.map(async storm => toStormEventResponse(storm, await stormDispatch.progress(storm)))
+      );
+      return res.status(200).json({ success: true, storms: responses });
+    }
+
+    // declare=true records the storm and generates its work orders in one step
+    const { name, startsAt, endsAt, expectedAccumulationInches, triggerThresholdInches, declare } = req.body || {};
+    try {
+      const storm = StormEvent.create({
+        name,
+        startsAt: new Date(startsAt),
+        endsAt: endsAt ? new Date(endsAt) : undefined,
+        expectedAccumulationInches: Number(expectedAccumulationInches),
+        triggerThresholdInches: Number(triggerThresholdInches),
+        createdBy: adminEmail
+      });
+
+      if (!declare) {
+        await stormEventRepository.save(storm);
+        storm.markEventsAsCommitted();
+        return res.status(201).json({
+          success: true,
+          storm: toStormEventResponse(storm, await stormDispatch.progress(storm))
+        });
+      }
+
+      const { workOrders, skipped } = await stormDispatch.declare(storm, adminEmail);
+      storm.markEventsAsCommitted();
+      return res.status(201).json({
+        success: true,
+        storm: toStormEventResponse(storm, await stormDispatch.progress(storm)),
+        workOrders: workOrders.map(toWorkOrderResponse),
+        skipped
+      });
+    } catch (domainError) {
+      if (domainError instanceof DomainError) {
+        return res.status(400).json({ success: false, error: domainError.message, code: domainError.errorCode });
+      }
+      throw domainError;
+    }
+  } catch (error) {
+    console.error('Storm events error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'] })(handler);
\ No newline at end of file
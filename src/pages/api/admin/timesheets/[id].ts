@@ -0,0 +1,75 @@
+/**
+ * Admin Time Entry API Endpoint
+ * Supervisors approve shifts for payroll, reject them with a comment, or correct missed punches
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { DomainError } from '@/domain/shared/DomainError';
+import { UniqueEntityId } from '@/domain/shared/UniqueEntityId';
+import { getTimeEntryRepository } from '@/infrastructure/repositories/RepositoryProvider';
+import { toTimeEntryResponse } from '@/presentation/api/TimeEntryPresenter';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'PATCH') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const adminEmail: string = req.user.email;
+
+    const { id } = req.query;
+    const timeEntryRepository = await getTimeEntryRepository();
+    const entry = typeof id === 'string' && UniqueEntityId.isValid(id)
+      ? await timeEntryRepository.findById(UniqueEntityId.create(id))
+      : null;
+
+    if (!entry) {
+      return res.status(404).json({ success: false, error: 'Time entry not found' });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ success: true, entry: toTimeEntryResponse(entry) });
+    }
+
+    const { action, comment, clockInAt, clockOutAt, breakMinutes, reason } = req.body || {};
+    try {
+      switch (action) {
+        case 'approve':
+          entry.approve(adminEmail, typeof comment === 'string' ? comment : undefined);
+          break;
+        case 'reject':
+          entry.reject(adminEmail, typeof comment === 'string' ? comment : '');
+          break;
+        case 'correct':
+          entry.correct(
+            {
+              clockInAt: new Date(String(clockInAt ?? '')),
+              clockOutAt: new Date(String(clockOutAt ?? '')),
+              breakMinutes: Number(breakMinutes ?? 0)
+            },
+            adminEmail,
+            typeof reason === 'string' ? reason : ''
+          );
+          break;
+        default:
+          return res.status(400).json({ success: false, error: 'Action must be one of: approve, reject, correct' });
+      }
+    } catch (domainError) {
+      if (domainError instanceof DomainError) {
+        return res.status(400).json({ success: false, error: domainError.message, code: domainError.errorCode });
+      }
+      throw domainError;
+    }
+
+    await timeEntryRepository.save(entry);
+    entry.markEventsAsCommitted();
+
+    return res.status(200).json({ success: true, entry: toTimeEntryResponse(entry) });
+  } catch (error) {
+    console.error('Time entry review error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'] })(handler);
\ No newline at end of file
@@ -0,0 +1,78 @@
+/**
+ * Admin Timesheets API Endpoint
+ * Supervisor review of clocked shifts for one pay period, with weekly overtime and location flags
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { DomainError } from '@/domain/shared/DomainError';
+import { TimeEntryStatus } from '@/domain/timesheet/TimeEntry';
+import { DateRange, formatCalendarDate, parseCalendarDate, previousPayPeriod } from '@/domain/timesheet/PayPeriod';
+import { container } from '@/infrastructure/di/Container';
+import { getTimesheetService } from '@/infrastructure/repositories/RepositoryProvider';
+import { toDateRangeResponse, toTimeEntryResponse } from '@/presentation/api/TimeEntryPresenter';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    // Without a status filter the queue shows completed shifts waiting on review; status=all shows every shift
+    const { period, status, employee, flagged } = req.query;
+    const statusFilter = typeof status === 'string' && status ? status : TimeEntryStatus.COMPLETED;
+    if (statusFilter !== 'all' && !Object.values(TimeEntryStatus).includes(statusFilter as TimeEntryStatus)) {
+      return res.status(400).json({
+        success: false,
+        error: `Status must be one of: all, ${Object.values(TimeEntryStatus).join(', ')}`
+      });
+    }
+
+    const timesheetService = await getTimesheetService();
+    let range: DateRange;
+    try {
+      // Any day inside the pay period selects it
+      range = timesheetService.payPeriodContaining(
+        typeof period === 'string' && period ? parseCalendarDate(period) : new Date()
+      );
+    } catch (domainError) {
+      if (domainError instanceof DomainError) {
+        return res.status(400).json({ success: false, error: domainError.message, code: domainError.errorCode });
+      }
+      throw domainError;
+    }
+
+    const timesheet = await timesheetService.reviewPeriod(range);
+    let entries = timesheet.entries;
+    if (typeof employee === 'string' && employee) {
+      entries = entries.filter(entry => entry.employee.toLowerCase() === employee.toLowerCase());
+    }
+
+    // Counts cover every status so the tabs stay stable while the queue is worked through
+    const counts = Object.fromEntries(
+      Object.values(TimeEntryStatus).map(value => [value, entries.filter(entry => entry.status === value).length])
+    );
+    const flaggedCount = entries.filter(entry => entry.locationFlagged && entry.status !== TimeEntryStatus.REJECTED).length;
+
+    return res.status(200).json({
+      success: true,
+      period: toDateRangeResponse(range),
+      previousPeriod: formatCalendarDate(previousPayPeriod(range, container.timesheetPolicy).start),
+      nextPeriod: formatCalendarDate(range.end),
+      currentPeriod: formatCalendarDate(timesheetService.payPeriodContaining(new Date()).start),
+      overtimeThresholdHours: container.timesheetPolicy.weeklyOvertimeThresholdHours,
+      entries: entries
+        .filter(entry => statusFilter === 'all' || entry.status === statusFilter)
+        .filter(entry => flagged !== 'true' || entry.locationFlagged)
+        .map(entry => toTimeEntryResponse(entry, timesheet.hours.get(entry.id.toString()))),
+      employees: Array.from(new Set(timesheet.entries.map(entry => entry.employee))).sort(),
+      counts,
+      flaggedCount
+    });
+  } catch (error) {
+    console.error('Timesheets list error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'] })(handler);
\ No newline at end of file
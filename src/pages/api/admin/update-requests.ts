@@ -3,48 +3,11 @@
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { simpleAuthService } from '@/services/SimpleAuthService';
-import { secureCookieManager } from '../../../lib/secure-cookie-auth';
-
-// v2 data structure for update requests (priority column removed)
-interface UpdateRequest {
-  id: string;
-  contractId: string;
-  customerName: string;
-  email: string;
-  phone: string;
-  reasonForContact: string;
-  jobDescription: string;
-  notes: string;
-  files: string[];
-  status: 'pending' | 'in_progress' | 'completed' | 'resolved';
-  submittedAt: Date;
-  completedAt?: Date;
-  assignedTo?: string;
-  adminNotes?: string;
-}
-
-// Database-driven storage - no static entries for v3
-let updateRequests: UpdateRequest[] = [];
+import { withAuth } from '../../../middleware/withAuth';
+import { updateRequests } from '../../../lib/update-request-store';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handleRequest(req: NextApiRequest, res: NextApiResponse) {
   try {
-    // Check if this is a form submission (POST without auth header for new update requests)
-    const authHeader = req.headers.authorization;
-    const isFormSubmission = req.method === 'POST' && !authHeader && req.body && req.body.customerName;
-    
-    if (!isFormSubmission) {
-      // Verify admin authentication using cookies
-      const authResult = await secureCookieManager.getAuthFromCookies(req);
-      if (!authResult.success || !authResult.user || authResult.user.role !== 'admin') {
-        return res.status(401).json({ 
-          success: false,
-          error: 'Authentication required or insufficient permissions',
-          message: authResult.message
-        });
-      }
-    }
-
     switch (req.method) {
       case 'GET':
         // Get all update requests or specific one
@@ -128,65 +91,40 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           message: 'Update request updated successfully'
         });
 
-      case 'POST':
-        // Handle bulk actions or create new update request
-        if (req.body.requestIds) {
-          // Bulk action
-          const { requestIds, bulkStatus } = req.body;
+      case 'POST': {
+        // Bulk actions; client forms create update requests through /api/quote-update
+        const { requestIds, bulkStatus } = req.body || {};
 
-          if (!Array.isArray(requestIds) || requestIds.length === 0) {
-            return res.status(400).json({
-              success: false,
-              message: 'Request IDs array required'
-            });
-          }
+        if (!Array.isArray(requestIds) || requestIds.length === 0) {
+          return res.status(400).json({
+            success: false,
+            message: 'Request IDs array required'
+          });
+        }
 
-          const updatedRequests = [];
-          let updated = 0;
-
-          for (const requestId of requestIds) {
-            const index = updateRequests.findIndex(r => r.id === requestId);
-            if (index !== -1) {
-              updateRequests[index] = {
-                ...updateRequests[index],
-                status: bulkStatus || 'completed',
-                completedAt: bulkStatus === 'completed' ? new Date() : updateRequests[index].completedAt
-              };
-              updatedRequests.push(updateRequests[index]);
-              updated++;
-            }
+        const updatedRequests = [];
+        let updated = 0;
+
+        for (const requestId of requestIds) {
+          const index = updateRequests.findIndex(r => r.id === requestId);
+          if (index !== -1) {
+            updateRequests[index] = {
+              ...updateRequests[index],
+              status: bulkStatus || 'completed',
+              completedAt: bulkStatus === 'completed' ? new Date() : updateRequests[index].completedAt
+            };
+            updatedRequests.push(updateRequests[index]);
+            updated++;
           }
-
-          return res.status(200).json({
-            success: true,
-            data: updatedRequests,
-            message: `${updated} update requests marked as ${bulkStatus || 'completed'}`
-          });
-        } else {
-          // Create new update request (v2: no priority column)
-          const newRequest: UpdateRequest = {
-            id: `ur_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            contractId: req.body.contractId || 'No Contract ID',
-            customerName: req.body.customerName,
-            email: req.body.email,
-            phone: req.body.phone,
-            reasonForContact: req.body.reasonForContact,
-            jobDescription: req.body.jobDescription,
-            notes: req.body.notes,
-            files: req.body.files || [],
-            status: 'pending',
-            submittedAt: new Date()
-          };
-
-          updateRequests.unshift(newRequest); // Add to beginning of array
-
-          return res.status(201).json({
-            success: true,
-            data: newRequest,
-            message: 'Update request created successfully'
-          });
         }
 
+        return res.status(200).json({
+          success: true,
+          data: updatedRequests,
+          message: `${updated} update requests marked as ${bulkStatus || 'completed'}`
+        });
+      }
+
       default:
         res.setHeader('Allow', ['GET', 'PATCH', 'POST']);
         return res.status(405).json({
@@ -201,4 +139,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       message: 'Internal server error'
     });
   }
-}
\ No newline at end of file
+}
+
+export default withAuth({ roles: ['admin'] })(handleRequest);
\ No newline at end of file
@@ -5,7 +5,7 @@
 
 import { NextApiResponse } from 'next';
 import { AdminUserService } from '../../../services/AdminUserService';
-import { withAdminAuth } from '../../../middleware/withAdminAuth';
+import { AuthenticatedRequest, withAuth } from '../../../middleware/withAuth';
 import { withAdminRateLimit } from '../../../middleware/rateLimit';
 import { ADMIN_PERMISSIONS } from '../../../types/admin';
 import {
@@ -17,13 +17,7 @@ import {
   AdminApiError
 } from '../../../types/admin-api';
 
-interface AuthenticatedAdminApiRequest<T = any> extends AdminApiRequest<T> {
-  user?: {
-    id: string;
-    email: string;
-    adminLevel: string;
-  };
-}
+type AuthenticatedAdminApiRequest<T = any> = AdminApiRequest<T> & AuthenticatedRequest;
 
 const adminService = new AdminUserService();
 
@@ -66,7 +60,7 @@ async function handler(
       case 'POST':
         // Create new admin user
         const { userData } = req.body as CreateUserRequest;
-        const createdBy = req.user?.id;
+        const createdBy = req.user.id;
 
         if (!createdBy) {
           return res.status(401).json({ 
@@ -108,7 +102,7 @@ async function handler(
         }
 
         const { updates } = req.body as UpdateUserRequest;
-        const updatedBy = req.user?.id;
+        const updatedBy = req.user.id;
 
         if (!updatedBy) {
           return res.status(401).json({ 
@@ -162,7 +156,7 @@ async function handler(
           });
         }
 
-        const deletedBy = req.user?.id;
+        const deletedBy = req.user.id;
 
         if (!deletedBy) {
           return res.status(401).json({ 
@@ -220,4 +214,4 @@ async function handler(
   }
 }
 
-export default withAdminAuth(withAdminRateLimit(handler));
\ No newline at end of file
+export default withAuth({ roles: ['admin'], permissions: ['admin:users'] })(withAdminRateLimit(handler));
\ No newline at end of file
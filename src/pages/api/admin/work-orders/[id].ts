@@ -0,0 +1,69 @@
+/**
+ * Admin Work Order API Endpoint
+ * Dispatches work orders to crew members and signs off on completed work
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { DomainError } from '@/domain/shared/DomainError';
+import { UniqueEntityId } from '@/domain/shared/UniqueEntityId';
+import { container } from '@/infrastructure/di/Container';
+import { getWorkOrderRepository } from '@/infrastructure/repositories/RepositoryProvider';
+import { toWorkOrderResponse } from '@/presentation/api/WorkOrderPresenter';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'PATCH') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const adminEmail: string = req.user.email;
+
+    const { id } = req.query;
+    const workOrderRepository = await getWorkOrderRepository();
+    const workOrder = typeof id === 'string' && UniqueEntityId.isValid(id)
+      ? await workOrderRepository.findById(UniqueEntityId.create(id))
+      : null;
+
+    if (!workOrder) {
+      return res.status(404).json({ success: false, error: 'Work order not found' });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ success: true, workOrder: toWorkOrderResponse(workOrder) });
+    }
+
+    const { action, assignee, reason } = req.body || {};
+    try {
+      switch (action) {
+        case 'dispatch':
+          workOrder.dispatch(assignee, adminEmail);
+          break;
+        case 'verify':
+          workOrder.verify(adminEmail);
+          break;
+        case 'send_back':
+          workOrder.sendBack(adminEmail, reason);
+          break;
+        default:
+          return res.status(400).json({ success: false, error: 'Action must be one of: dispatch, verify, send_back' });
+      }
+    } catch (domainError) {
+      if (domainError instanceof DomainError) {
+        return res.status(400).json({ success: false, error: domainError.message, code: domainError.errorCode });
+      }
+      throw domainError;
+    }
+
+    await workOrderRepository.save(workOrder);
+    await container.eventPublisher.publishAll(workOrder.getUncommittedEvents());
+    workOrder.markEventsAsCommitted();
+
+    return res.status(200).json({ success: true, workOrder: toWorkOrderResponse(workOrder) });
+  } catch (error) {
+    console.error('Work order update error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'] })(handler);
\ No newline at end of file
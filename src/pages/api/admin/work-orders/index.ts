@@ -0,0 +1,67 @@
+/**
+ * Admin Dispatch Board API Endpoint
+ * Lists snow work orders in dispatch order: priority first, then scheduled date
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { DomainError } from '@/domain/shared/DomainError';
+import { WorkOrderStatus } from '@/domain/workorder/WorkOrder';
+import { OPEN_WORK_ORDER_STATUSES, parseWorkOrderStatus } from '@/domain/workorder/WorkOrderStatus';
+import { getWorkOrderRepository } from '@/infrastructure/repositories/RepositoryProvider';
+import { toWorkOrderResponse } from '@/presentation/api/WorkOrderPresenter';
+
+// Without a status filter the board shows everything still waiting on a crew member or a supervisor
+const BOARD_STATUSES: WorkOrderStatus[] = [...OPEN_WORK_ORDER_STATUSES, WorkOrderStatus.COMPLETE];
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    // status=all or a comma-separated list such as status=dispatched,en_route; stormEventId narrows to one storm
+    const { status, assignedTo, stormEventId } = req.query;
+    let statuses: WorkOrderStatus[];
+    try {
+      statuses = status === 'all'
+        ? Object.values(WorkOrderStatus)
+        : typeof status === 'string' && status
+          ? status.split(',').map(parseWorkOrderStatus)
+          : BOARD_STATUSES;
+    } catch (domainError) {
+      if (domainError instanceof DomainError) {
+        return res.status(400).json({ success: false, error: domainError.message, code: domainError.errorCode });
+      }
+      throw domainError;
+    }
+
+    const workOrderRepository = await getWorkOrderRepository();
+    let workOrders = await workOrderRepository.findByStatus(statuses);
+    if (typeof stormEventId === 'string' && stormEventId) {
+      workOrders = workOrders.filter(workOrder => workOrder.storm?.stormEventId === stormEventId);
+    }
+    if (typeof assignedTo === 'string' && assignedTo) {
+      workOrders = workOrders.filter(workOrder => workOrder.assignedTo?.toLowerCase() === assignedTo.toLowerCase());
+    }
+
+    const counts = Object.fromEntries(
+      Object.values(WorkOrderStatus).map(value => [value, workOrders.filter(workOrder => workOrder.status === value).length])
+    );
+    const crew = Array.from(new Set(
+      (await workOrderRepository.findAll()).map(workOrder => workOrder.assignedTo).filter((email): email is string => !!email)
+    )).sort();
+
+    return res.status(200).json({
+      success: true,
+      workOrders: workOrders.map(toWorkOrderResponse),
+      counts,
+      crew
+    });
+  } catch (error) {
+    console.error('Dispatch board error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['admin'] })(handler);
\ No newline at end of file
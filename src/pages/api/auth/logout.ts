@@ -1,11 +1,10 @@
 /**
  * Logout API Endpoint
- * SECURITY: Uses secure cookie management for proper session termination
+ * SECURITY: Revokes the sign-in server-side and clears the session cookies
  */
 
 import { NextApiRequest, NextApiResponse } from 'next';
-import { secureCookieManager } from '../../../lib/secure-cookie-auth';
-import { simpleAuthService } from '../../../services/SimpleAuthService';
+import { sessionService } from '../../../services/SessionService';
 
 async function logoutHandler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -18,18 +17,26 @@ async function logoutHandler(req: NextApiRequest, res: NextApiResponse) {
   }
 
   try {
-    // Get authentication from cookies
-    const authResult = await secureCookieManager.getAuthFromCookies(req);
-    
-    if (authResult.success && authResult.sessionId) {
-      // Logout from the authentication service
-      await simpleAuthService.logout(`mock_token_${authResult.sessionId}`);
-      
-      console.log(`User logged out: Session ${authResult.sessionId}`);
+    const session = await sessionService.getSession(req);
+
+    if (session) {
+      // Another site must not be able to sign the user out
+      if (!sessionService.verifyCsrf(req, session)) {
+        return res.status(403).json({
+          success: false,
+          message: 'CSRF validation failed',
+          error: 'CSRF_INVALID'
+        });
+      }
+
+      if (req.body?.logoutAll === true) {
+        await sessionService.revokeUserSessions(session.user.id, 'signed_out_everywhere');
+      }
+      console.log(`User logged out: ${session.user.email}`);
     }
 
-    // Clear authentication cookies
-    secureCookieManager.clearAuthCookies(res);
+    // Clears the cookies even when the session had already ended
+    await sessionService.endSession(req, res);
 
     return res.status(200).json({
       success: true,
@@ -40,7 +47,7 @@ async function logoutHandler(req: NextApiRequest, res: NextApiResponse) {
     console.error('Logout error:', error);
     
     // Clear cookies even on error
-    secureCookieManager.clearAuthCookies(res);
+    sessionService.clearSessionCookies(res);
     
     return res.status(500).json({
       success: false,
@@ -1,12 +1,10 @@
 /**
  * Current User Profile API Endpoint
- * SECURITY: Uses secure cookie authentication to return user profile
+ * SECURITY: Resolves the cookie session and returns the signed-in user's profile
  */
 
 import { NextApiRequest, NextApiResponse } from 'next';
-import { secureCookieManager } from '../../../lib/secure-cookie-auth';
-import { simpleAuthService } from '../../../services/SimpleAuthService';
-import { secureUserManager } from '../../../lib/secure-user-manager';
+import { sessionService } from '../../../services/SessionService';
 
 async function meHandler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
@@ -19,24 +17,11 @@ async function meHandler(req: NextApiRequest, res: NextApiResponse) {
   }
 
   try {
-    // Get authentication from secure cookies
-    const authResult = await secureCookieManager.getAuthFromCookies(req);
-    
-    if (!authResult.success) {
-      return res.status(401).json({
-        success: false,
-        message: authResult.message || 'Authentication required',
-        error: 'UNAUTHORIZED'
-      });
-    }
+    const session = await sessionService.getSession(req);
 
-    // Validate session with secure user manager
-    const sessionValidation = secureUserManager.validateSession(authResult.sessionId!);
-    
-    if (!sessionValidation.valid) {
-      // Clear invalid cookies
-      secureCookieManager.clearAuthCookies(res);
-      
+    // Cookies are left in place: an expired session is refreshed from the refresh cookie,
+    // and the refresh endpoint clears them once the sign-in itself has ended
+    if (!session) {
       return res.status(401).json({
         success: false,
         message: 'Session expired or invalid',
@@ -44,7 +29,7 @@ async function meHandler(req: NextApiRequest, res: NextApiResponse) {
       });
     }
 
-    const user = sessionValidation.user!;
+    const user = session.user;
 
     // Return user profile (without sensitive data)
     return res.status(200).json({
@@ -59,11 +44,14 @@ async function meHandler(req: NextApiRequest, res: NextApiResponse) {
         isActive: user.status === 'active',
         isEmailVerified: user.isEmailVerified,
         lastLoginAt: user.lastLoginAt,
-        permissions: [], // Would be populated from user roles
+        employeeId: user.employeeId,
+        clientAccessLevel: user.clientAccessLevel,
+        companyName: user.companyName,
+        permissions: await sessionService.getPermissions(user),
         roles: [user.role]
       },
       authMethod: 'secure_cookies',
-      csrfToken: authResult.csrfToken
+      csrfToken: session.csrfToken
     });
 
   } catch (error) {
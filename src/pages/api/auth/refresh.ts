@@ -1,125 +1,55 @@
 /**
- * Token Refresh API Endpoint
- * Handles refresh token validation and new access token generation
+ * Session Refresh API Endpoint
+ * Exchanges the refresh cookie for a new session in the same sign-in
+ * SECURITY: Refresh tokens are single use; replaying a rotated one signs that sign-in out on every device
  */
 
 import { NextApiRequest, NextApiResponse } from 'next';
-// import { withAuth } from '../../../auth/middleware'; // Not implemented
-import { 
-  RefreshTokenRequest,
-  TokenPair,
-  AuthenticationError,
-  AuthErrorCode,
-  SecurityEventType,
-  SecuritySeverity
-} from '../../../auth/types';
-// import { createAuthSystem, VSR_AUTH_CONFIG } from '../../../auth'; // Not implemented
-
-// Rate limiting for refresh token requests
-const REFRESH_RATE_LIMIT = {
-  enabled: true,
-  windowMs: 5 * 60 * 1000, // 5 minutes
-  maxRequests: 10, // 10 refresh attempts per 5 minutes
-  skipSuccessfulRequests: false,
-  skipFailedRequests: false
+import { withApiRateLimit } from '../../../middleware/rateLimit';
+import { RefreshStatus, sessionService } from '../../../services/SessionService';
+
+const FAILURES: Record<Exclude<RefreshStatus, 'refreshed'>, { status: number; message: string; error: string }> = {
+  // Another tab refreshed moments ago; its cookies are already set, so the caller just retries
+  in_progress: { status: 409, message: 'Session refresh already in progress', error: 'REFRESH_IN_PROGRESS' },
+  csrf_invalid: { status: 403, message: 'CSRF validation failed', error: 'CSRF_INVALID' },
+  invalid: { status: 401, message: 'Session expired. Please sign in again.', error: 'SESSION_INVALID' },
+  reused: { status: 401, message: 'Session revoked. Please sign in again.', error: 'SESSION_REVOKED' }
 };
 
 async function refreshHandler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
-    return res.status(405).json({ 
-      error: true, 
-      message: 'Method not allowed',
-      code: 'METHOD_NOT_ALLOWED'
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({
+      success: false,
+      message: `Method ${req.method} not allowed`,
+      error: 'METHOD_NOT_ALLOWED'
     });
   }
 
   try {
-    return res.status(501).json({
-      error: true,
-      message: 'Authentication system not implemented',
-      code: 'NOT_IMPLEMENTED'
-    });
-
-  } catch (error) {
-    console.error('Token refresh error:', error);
-
-    // Extract device info for error logging
-    const deviceInfo = {
-      userAgent: req.headers['user-agent'] || 'unknown',
-      ip: getClientIP(req),
-      fingerprint: req.headers['x-fingerprint'] as string,
-      platform: req.headers['x-platform'] as string,
-      browser: req.headers['x-browser'] as string
-    };
-
-    // Log failed refresh attempt - auth system not implemented
-    // const { securityService } = createAuthSystem(VSR_AUTH_CONFIG);
-    // await securityService.logEvent({ ... });
-
-    if (error instanceof AuthenticationError) {
-      const statusCode = getStatusCodeForAuthError(error.code);
-      
-      // Clear invalid cookies
-      if (error.code === AuthErrorCode.TOKEN_EXPIRED || error.code === AuthErrorCode.TOKEN_INVALID) {
-        res.setHeader('Set-Cookie', [
-          'refreshToken=; HttpOnly; Secure; SameSite=Strict; Path=/; Max-Age=0',
-          'accessToken=; HttpOnly; Secure; SameSite=Strict; Path=/; Max-Age=0'
-        ]);
-      }
-      
-      return res.status(statusCode).json({
-        error: true,
-        message: error.message,
-        code: error.code,
-        timestamp: new Date().toISOString()
+    const result = await sessionService.refresh(req, res);
+
+    if (result.status !== 'refreshed') {
+      const failure = FAILURES[result.status];
+      return res.status(failure.status).json({
+        success: false,
+        message: failure.message,
+        error: failure.error
       });
     }
 
-    // Generic error response
-    res.status(500).json({
-      error: true,
-      message: 'An error occurred during token refresh',
-      code: 'INTERNAL_ERROR',
-      timestamp: new Date().toISOString()
+    return res.status(200).json({
+      success: true,
+      csrfToken: result.csrfToken
     });
-  }
-}
-
-function getClientIP(req: NextApiRequest): string {
-  const forwarded = req.headers['x-forwarded-for'];
-  const realIP = req.headers['x-real-ip'];
-  
-  if (typeof forwarded === 'string') {
-    return forwarded.split(',')[0].trim();
-  }
-  
-  if (typeof realIP === 'string') {
-    return realIP;
-  }
-  
-  return req.socket?.remoteAddress || 'unknown';
-}
 
-function getStatusCodeForAuthError(code: AuthErrorCode): number {
-  switch (code) {
-    case AuthErrorCode.TOKEN_EXPIRED:
-      return 401; // Unauthorized
-    case AuthErrorCode.TOKEN_INVALID:
-      return 401; // Unauthorized
-    case AuthErrorCode.TOKEN_REVOKED:
-      return 401; // Unauthorized
-    case AuthErrorCode.RATE_LIMITED:
-      return 429; // Too Many Requests
-    default:
-      return 401; // Unauthorized
+  } catch (error) {
+    console.error('Session refresh error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Session refresh failed due to server error'
+    });
   }
 }
 
-// Export with rate limiting protection
-// export default withAuth(refreshHandler, {
-//   optional: true, // Don't require authentication for refresh endpoint
-//   rateLimit: REFRESH_RATE_LIMIT
-// });
-
-// Export basic handler since auth system is not implemented
-export default refreshHandler;
\ No newline at end of file
+export default withApiRateLimit(refreshHandler);
\ No newline at end of file
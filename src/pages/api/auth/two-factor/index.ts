@@ -0,0 +1,65 @@
+/**
+ * Two-Factor Settings API Endpoint
+ * Lets signed-in admins and employees enroll an authenticator app, replace recovery codes and turn two-factor off
+ */
+
+import { NextApiResponse } from 'next';
+import { secureUserManager } from '../../../../lib/secure-user-manager';
+import { renderOtpAuthQrCode } from '../../../../lib/totp';
+import { AuthenticatedRequest, withAuth } from '../../../../middleware/withAuth';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (!['GET', 'POST', 'DELETE'].includes(req.method || '')) {
+    res.setHeader('Allow', ['GET', 'POST', 'DELETE']);
+    return res.status(405).json({ success: false, message: `Method ${req.method} not allowed` });
+  }
+
+  try {
+    const user = req.user;
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ success: true, twoFactor: secureUserManager.getTwoFactorStatus(user.id) });
+    }
+
+    const code = typeof req.body?.code === 'string' ? req.body.code : '';
+
+    if (req.method === 'DELETE') {
+      const result = await secureUserManager.disableTwoFactor(user.id, code);
+      return res.status(result.success ? 200 : 400).json(result);
+    }
+
+    switch (req.body?.action) {
+      case 'setup': {
+        const enrollment = await secureUserManager.beginTwoFactorEnrollment(user.id);
+        if (!enrollment.success) {
+          return res.status(400).json(enrollment);
+        }
+        return res.status(200).json({
+          success: true,
+          secret: enrollment.secret,
+          otpauthUrl: enrollment.otpauthUrl,
+          qrCode: await renderOtpAuthQrCode(enrollment.otpauthUrl!)
+        });
+      }
+
+      case 'confirm': {
+        const result = await secureUserManager.confirmTwoFactorEnrollment(user.id, code);
+        return res.status(result.success ? 200 : 400).json(result);
+      }
+
+      case 'recovery-codes': {
+        const result = await secureUserManager.regenerateRecoveryCodes(user.id, code);
+        return res.status(result.success ? 200 : 400).json(result);
+      }
+
+      default:
+        return res.status(400).json({ success: false, message: 'Action must be one of: setup, confirm, recovery-codes' });
+    }
+  } catch (error) {
+    console.error('Two-factor settings error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+}
+
+// Two-factor is only offered to staff accounts
+export default withAuth({ roles: ['admin', 'employee'] })(handler);
\ No newline at end of file
@@ -0,0 +1,37 @@
+/**
+ * Two-Factor Sign-In Setup API Endpoint
+ * Provisions an authenticator app mid sign-in, for accounts whose role now requires two-factor
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { secureUserManager } from '../../../../lib/secure-user-manager';
+import { renderOtpAuthQrCode } from '../../../../lib/totp';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ success: false, message: `Method ${req.method} not allowed` });
+  }
+
+  try {
+    const { challengeToken } = req.body || {};
+    if (typeof challengeToken !== 'string' || !challengeToken) {
+      return res.status(400).json({ success: false, message: 'Sign-in challenge is required' });
+    }
+
+    const enrollment = await secureUserManager.beginChallengeEnrollment(challengeToken);
+    if (!enrollment.success) {
+      return res.status(400).json({ success: false, message: enrollment.message });
+    }
+
+    return res.status(200).json({
+      success: true,
+      secret: enrollment.secret,
+      otpauthUrl: enrollment.otpauthUrl,
+      qrCode: await renderOtpAuthQrCode(enrollment.otpauthUrl!)
+    });
+  } catch (error) {
+    console.error('Two-factor sign-in setup error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,69 @@
+/**
+ * Two-Factor Verification API Endpoint
+ * Completes a sign-in started at /api/auth/login that answered TWO_FACTOR_REQUIRED
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { AuthErrorCode } from '../../../../auth/types';
+import { simpleAuthService } from '../../../../services/SimpleAuthService';
+import { sessionService } from '../../../../services/SessionService';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      error: true,
+      message: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  try {
+    const { challengeToken, code, rememberMe } = req.body || {};
+
+    if (typeof challengeToken !== 'string' || !challengeToken || typeof code !== 'string' || !code.trim()) {
+      return res.status(400).json({
+        error: true,
+        message: 'Verification code is required',
+        code: 'INVALID_INPUT'
+      });
+    }
+
+    const result = await simpleAuthService.completeTwoFactorLogin(challengeToken, code);
+
+    if (result.accountLocked) {
+      return res.status(423).json({
+        error: true,
+        message: result.message,
+        code: AuthErrorCode.ACCOUNT_LOCKED,
+        data: { lockedUntil: result.lockedUntil }
+      });
+    }
+
+    if (!result.success) {
+      return res.status(401).json({
+        error: true,
+        message: result.message || 'Invalid verification code',
+        code: 'INVALID_TWO_FACTOR_CODE'
+      });
+    }
+
+    const csrfToken = await sessionService.startSession(req, res, result.user.id, rememberMe === true);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        user: result.user,
+        csrfToken,
+        recoveryCodes: result.recoveryCodes
+      },
+      message: result.message
+    });
+  } catch (error) {
+    console.error('Two-factor verification error:', error);
+    return res.status(500).json({
+      error: true,
+      message: 'An error occurred during verification',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,39 @@
+/**
+ * Client Contract Link Confirmation API Endpoint
+ * Completes a contract link from the emailed token while signed in as the account that asked for it
+ */
+
+import { NextApiResponse } from 'next';
+import { container } from '@/infrastructure/di/Container';
+import { DomainError } from '@/domain/shared/DomainError';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  const user = req.user;
+
+  const linkToken = req.body?.token;
+  if (typeof linkToken !== 'string' || !linkToken) {
+    return res.status(400).json({ success: false, message: 'Confirmation token is required' });
+  }
+
+  try {
+    const account = await container.clientAccountService.confirmContractLink(user, linkToken);
+    return res.status(200).json({
+      success: true,
+      contractIds: account.contractIds || [],
+      message: 'Contract linked to your account'
+    });
+  } catch (error) {
+    if (error instanceof DomainError) {
+      return res.status(400).json({ success: false, message: error.message, code: error.errorCode });
+    }
+    console.error('Client contract link confirmation error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['client'] })(handler);
\ No newline at end of file
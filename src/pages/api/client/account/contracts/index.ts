@@ -0,0 +1,41 @@
+/**
+ * Client Contract Link API Endpoint
+ * Starts linking another contract to the signed-in client; the email on that contract confirms it
+ */
+
+import { NextApiResponse } from 'next';
+import { getClientAccountService } from '@/infrastructure/repositories/RepositoryProvider';
+import { DomainError } from '@/domain/shared/DomainError';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  const user = req.user;
+
+  const { contractId, email } = req.body || {};
+
+  try {
+    const clientAccountService = await getClientAccountService();
+    const result = await clientAccountService.requestContractLink(
+      user,
+      String(contractId || ''),
+      String(email || '')
+    );
+    return res.status(202).json({
+      success: true,
+      ...result,
+      message: `We sent a confirmation link to ${result.verificationSentTo}`
+    });
+  } catch (error) {
+    if (error instanceof DomainError) {
+      return res.status(400).json({ success: false, message: error.message, code: error.errorCode });
+    }
+    console.error('Client contract link error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['client'] })(handler);
\ No newline at end of file
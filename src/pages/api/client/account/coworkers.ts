@@ -0,0 +1,56 @@
+/**
+ * Client Co-worker API Endpoint
+ * Lets an account owner invite co-workers at the same company, list their invitations and revoke them
+ */
+
+import { NextApiResponse } from 'next';
+import { getClientAccountService } from '@/infrastructure/repositories/RepositoryProvider';
+import { DomainError } from '@/domain/shared/DomainError';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { toClientInvitation } from '@/presentation/api/ClientPortalPresenter';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (!['GET', 'POST', 'DELETE'].includes(req.method || '')) {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  const user = req.user;
+
+  try {
+    const clientAccountService = await getClientAccountService();
+
+    if (req.method === 'GET') {
+      const invitations = await clientAccountService.listCoworkerInvitations(user);
+      return res.status(200).json({ success: true, invitations: invitations.map(toClientInvitation) });
+    }
+
+    if (req.method === 'DELETE') {
+      const invitation = await clientAccountService.revokeCoworkerInvitation(user, String(req.query.id || ''));
+      return res.status(200).json({ success: true, invitation: toClientInvitation(invitation) });
+    }
+
+    const { email, name, contractIds } = req.body || {};
+    if (contractIds !== undefined && (!Array.isArray(contractIds) || contractIds.some(id => typeof id !== 'string'))) {
+      return res.status(400).json({ success: false, message: 'contractIds must be a list of contract IDs' });
+    }
+
+    const invitation = await clientAccountService.inviteCoworker(user, {
+      email: String(email || ''),
+      name: typeof name === 'string' && name.trim() ? name.trim() : undefined,
+      contractIds
+    });
+    return res.status(201).json({
+      success: true,
+      invitation: toClientInvitation(invitation),
+      message: `Invitation sent to ${invitation.email.value}`
+    });
+  } catch (error) {
+    if (error instanceof DomainError) {
+      return res.status(400).json({ success: false, message: error.message, code: error.errorCode });
+    }
+    console.error('Client co-worker error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['client'] })(handler);
\ No newline at end of file
@@ -0,0 +1,36 @@
+/**
+ * Client Invitation API Endpoint
+ * Describes a portal invitation so the setup page can greet the invitee before they pick a password
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { container } from '@/infrastructure/di/Container';
+import { DomainError } from '@/domain/shared/DomainError';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  const token = typeof req.query.token === 'string' ? req.query.token : '';
+
+  try {
+    const invitation = await container.clientAccountService.describeInvitation(token);
+    return res.status(200).json({
+      success: true,
+      invitation: {
+        email: invitation.email.value,
+        companyName: invitation.companyName,
+        recipientName: invitation.recipientName,
+        accessLevel: invitation.accessLevel,
+        expiresAt: invitation.expiresAt.toISOString()
+      }
+    });
+  } catch (error) {
+    if (error instanceof DomainError) {
+      return res.status(400).json({ success: false, message: error.message, code: error.errorCode });
+    }
+    console.error('Client invitation lookup error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+}
\ No newline at end of file
@@ -1,9 +1,11 @@
 /**
  * Client Login API Endpoint
+ * Starts an HttpOnly cookie session for client portal accounts
  */
 
 import { NextApiRequest, NextApiResponse } from 'next';
 import { simpleAuthService } from '../../../../services/SimpleAuthService';
+import { sessionService } from '../../../../services/SessionService';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -12,7 +14,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const { email, password } = req.body;
+    const { email, password, rememberMe } = req.body;
 
     if (!email || !password) {
       return res.status(400).json({ 
@@ -21,12 +23,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       });
     }
 
-    const result = await simpleAuthService.login(email, password);
+    const clientIP = (req.headers['x-forwarded-for'] as string)?.split(',')[0].trim() || req.socket?.remoteAddress || 'unknown';
+    const result = await simpleAuthService.login(email, password, clientIP, req.headers['user-agent'] || 'unknown');
 
     if (!result.success) {
-      return res.status(401).json({ 
+      return res.status(result.accountLocked ? 423 : 401).json({ 
         success: false, 
-        message: result.message 
+        message: result.message,
+        lockedUntil: result.lockedUntil
       });
     }
 
@@ -38,9 +42,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       });
     }
 
+    await sessionService.startSession(req, res, result.user.id, rememberMe === true);
+
     return res.status(200).json({
       success: true,
-      token: result.token,
       user: result.user,
       message: 'Client login successful'
     });
@@ -0,0 +1,54 @@
+/**
+ * Client Account Setup API Endpoint
+ * Redeems a portal invitation: creates the client account and signs the new client in
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { container } from '@/infrastructure/di/Container';
+import { DomainError } from '@/domain/shared/DomainError';
+import { simpleAuthService } from '@/services/SimpleAuthService';
+import { sessionService } from '@/services/SessionService';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ success: false, message: `Method ${req.method} not allowed` });
+  }
+
+  const { token, firstName, lastName, phone, password } = req.body || {};
+  if (typeof token !== 'string' || !token) {
+    return res.status(400).json({ success: false, message: 'Invitation token is required' });
+  }
+
+  try {
+    const account = await container.clientAccountService.acceptInvitation(token, {
+      firstName: String(firstName || ''),
+      lastName: String(lastName || ''),
+      phone: typeof phone === 'string' ? phone : undefined,
+      password: String(password || '')
+    });
+
+    // The invitation proved the email, so the new client goes straight to the portal
+    const result = await simpleAuthService.login(account.email, String(password));
+    if (!result.success) {
+      return res.status(201).json({
+        success: true,
+        message: 'Account created. Please sign in.'
+      });
+    }
+
+    await sessionService.startSession(req, res, result.user.id);
+
+    return res.status(201).json({
+      success: true,
+      user: result.user,
+      message: 'Account created'
+    });
+  } catch (error) {
+    if (error instanceof DomainError) {
+      return res.status(400).json({ success: false, message: error.message, code: error.errorCode });
+    }
+    console.error('Client account setup error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+}
\ No newline at end of file
@@ -1,32 +1,54 @@
 // Client Dashboard API
-import { NextApiRequest, NextApiResponse } from 'next';
-import { simpleAuthService } from '@/services/SimpleAuthService';
+// Everything here is scoped server-side to the contracts and projects linked to the signed-in client
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { getClientPortalService } from '@/infrastructure/repositories/RepositoryProvider';
+import { toClientIdentity } from '@/domain/services/ClientPortalService';
+import { ClientAccessLevel } from '@/domain/clientaccount/ClientInvitation';
+import { findUpdateRequestsForClient } from '@/lib/update-request-store';
+import {
+  toClientContract,
+  toClientInvoice,
+  toClientProject,
+  toClientQuote,
+  toClientServiceVisit,
+  toClientUpdateRequest
+} from '@/presentation/api/ClientPortalPresenter';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
     return res.status(405).json({ message: 'Method not allowed' });
   }
 
   try {
-    const token = req.headers.authorization?.replace('Bearer ', '');
-    
-    if (!token) {
-      return res.status(401).json({ success: false, message: 'No token provided' });
-    }
+    const user = req.user;
 
-    const user = await simpleAuthService.verifyToken(token);
-    
-    if (!user || user.role !== 'client') {
-      return res.status(403).json({ success: false, message: 'Access denied' });
-    }
+    const clientPortalService = await getClientPortalService();
+    const records = await clientPortalService.load(toClientIdentity(user));
+    const updateRequests = findUpdateRequestsForClient(records.scope.contractIds)
+      .sort((a, b) => new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime());
 
     res.status(200).json({
       success: true,
-      client: user,
+      client: {
+        firstName: user.firstName,
+        lastName: user.lastName,
+        email: user.email,
+        companyName: user.companyName,
+        accessLevel: user.clientAccessLevel || ClientAccessLevel.OWNER
+      },
+      contracts: records.contracts.map(toClientContract),
+      projects: records.projects.map(toClientProject),
+      quotes: records.quotes.map(toClientQuote),
+      updateRequests: updateRequests.map(toClientUpdateRequest),
+      serviceVisits: records.serviceLogs.map(toClientServiceVisit),
+      invoices: records.invoices.map(toClientInvoice),
       message: 'Client dashboard data loaded'
     });
   } catch (error) {
     console.error('Client dashboard error:', error);
     res.status(500).json({ success: false, message: 'Internal server error' });
   }
-}
\ No newline at end of file
+}
+
+export default withAuth({ roles: ['client'] })(handler);
\ No newline at end of file
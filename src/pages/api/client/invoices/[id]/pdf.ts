@@ -0,0 +1,43 @@
+/**
+ * Client Invoice PDF API Endpoint
+ * Lets a client download their own issued invoices
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { container } from '@/infrastructure/di/Container';
+import { getClientPortalService } from '@/infrastructure/repositories/RepositoryProvider';
+import { toClientIdentity } from '@/domain/services/ClientPortalService';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  try {
+    const user = req.user;
+
+    const { id } = req.query;
+    const clientPortalService = await getClientPortalService();
+    const invoice = typeof id === 'string'
+      ? await clientPortalService.findInvoice(toClientIdentity(user), id)
+      : null;
+
+    // Another client's invoice looks the same as one that does not exist
+    if (!invoice) {
+      return res.status(404).json({ success: false, message: 'Invoice not found' });
+    }
+
+    const file = await container.invoiceDocumentGenerator.generateInvoicePdf(invoice);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).send(file.content);
+  } catch (error) {
+    console.error('Client invoice PDF error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['client'] })(handler);
\ No newline at end of file
@@ -0,0 +1,50 @@
+/**
+ * Client Service Visit Photo API Endpoint
+ * Serves a site photo from an approved service visit on one of the client's properties
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { container } from '@/infrastructure/di/Container';
+import { getClientPortalService } from '@/infrastructure/repositories/RepositoryProvider';
+import { toClientIdentity } from '@/domain/services/ClientPortalService';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  try {
+    const user = req.user;
+
+    const { id, fileId } = req.query;
+    const clientPortalService = await getClientPortalService();
+    const entry = typeof id === 'string'
+      ? await clientPortalService.findServiceLog(toClientIdentity(user), id)
+      : null;
+    // Only files attached to the entry are served, so a file id alone opens nothing
+    const photo = entry && typeof fileId === 'string' ? entry.findPhoto(fileId) : undefined;
+
+    if (!photo) {
+      return res.status(404).json({ success: false, message: 'Photo not found' });
+    }
+
+    let content: Buffer;
+    try {
+      content = await container.fileStorageService.downloadFile(photo.fileId);
+    } catch {
+      return res.status(404).json({ success: false, message: 'Photo not found' });
+    }
+
+    res.setHeader('Content-Type', photo.contentType);
+    res.setHeader('Content-Disposition', `inline; filename="${photo.filename.replace(/"/g, '')}"`);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    return res.status(200).send(content);
+  } catch (error) {
+    console.error('Client service photo error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['client'] })(handler);
\ No newline at end of file
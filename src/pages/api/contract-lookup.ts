@@ -0,0 +1,71 @@
+// Contract lookup API endpoint
+// Lets customers find their contract for the quote-update form without exposing contact details
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withSecurity } from '@/lib/middleware';
+import { checkKeyedRateLimit, secureLog } from '@/lib/security';
+import { getContractLookupService } from '@/infrastructure/repositories/RepositoryProvider';
+import { DomainValidationError } from '@/domain/shared/DomainError';
+import { toContractLookupResponse } from '@/presentation/api/ContractPresenter';
+
+const LOOKUP_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+const LOOKUP_MAX_PER_IP = 10;
+const LOOKUP_MAX_PER_CONTRACT = 5;
+
+/**
+ * Contract lookup handler
+ * Requires the contract ID plus the customer's email or phone last-4
+ */
+async function contractLookupHandler(req: NextApiRequest, res: NextApiResponse) {
+  const { contractId, email, phoneLastFour } = req.body || {};
+
+  if (typeof contractId !== 'string' || !contractId.trim()) {
+    return res.status(400).json({ error: 'Contract ID is required' });
+  }
+
+  // Per-contract limit stops guessing the last-4 from many addresses
+  const normalizedId = contractId.trim().toUpperCase();
+  const contractLimit = checkKeyedRateLimit(`contract_lookup_${normalizedId}`, LOOKUP_WINDOW_MS, LOOKUP_MAX_PER_CONTRACT);
+  if (!contractLimit.allowed) {
+    secureLog('warn', 'Contract lookup limit exceeded', { contractId: normalizedId });
+    return res.status(429).json({
+      error: 'Too many lookup attempts for this contract',
+      retryAfter: Math.ceil(contractLimit.timeUntilReset / 1000)
+    });
+  }
+
+  try {
+    const contractLookupService = await getContractLookupService();
+    const contract = await contractLookupService.findVerifiedContract(normalizedId, {
+      email: typeof email === 'string' ? email : undefined,
+      phoneLastFour: typeof phoneLastFour === 'string' ? phoneLastFour : undefined
+    });
+
+    if (!contract) {
+      secureLog('info', 'Contract lookup failed verification', { contractId: normalizedId });
+      return res.status(404).json({
+        error: 'No contract matches those details'
+      });
+    }
+
+    secureLog('info', 'Contract lookup succeeded', { contractId: contract.contractId });
+
+    return res.status(200).json({
+      success: true,
+      contract: toContractLookupResponse(contract)
+    });
+  } catch (error) {
+    if (error instanceof DomainValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    throw error;
+  }
+}
+
+export default withSecurity(contractLookupHandler, {
+  rateLimit: {
+    scope: 'contract_lookup',
+    windowMs: LOOKUP_WINDOW_MS,
+    maxRequests: LOOKUP_MAX_PER_IP
+  }
+});
\ No newline at end of file
@@ -0,0 +1,59 @@
+/**
+ * Employee Two-Factor Login API Endpoint
+ * Second sign-in step: verifies the authenticator or recovery code, then starts the cookie session
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { simpleAuthService } from '../../../../services/SimpleAuthService';
+import { sessionService } from '../../../../services/SessionService';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: `Method ${req.method} not allowed` });
+  }
+
+  try {
+    const { challengeToken, code, rememberMe } = req.body || {};
+
+    if (typeof challengeToken !== 'string' || !challengeToken || typeof code !== 'string' || !code.trim()) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'Verification code is required' 
+      });
+    }
+
+    const result = await simpleAuthService.completeTwoFactorLogin(challengeToken, code);
+
+    if (!result.success) {
+      return res.status(result.accountLocked ? 423 : 401).json({ 
+        success: false, 
+        message: result.message,
+        lockedUntil: result.lockedUntil
+      });
+    }
+
+    if (result.user?.role !== 'employee') {
+      return res.status(403).json({ 
+        success: false, 
+        message: 'Employee access required' 
+      });
+    }
+
+    await sessionService.startSession(req, res, result.user.id, rememberMe === true);
+
+    return res.status(200).json({
+      success: true,
+      user: result.user,
+      recoveryCodes: result.recoveryCodes,
+      message: 'Employee login successful'
+    });
+
+  } catch (error) {
+    console.error('Employee two-factor login error:', error);
+    return res.status(500).json({ 
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+}
\ No newline at end of file
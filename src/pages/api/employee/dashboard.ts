@@ -1,32 +1,42 @@
 // Employee Dashboard API
-import { NextApiRequest, NextApiResponse } from 'next';
-import { simpleAuthService } from '@/services/SimpleAuthService';
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { StormEventStatus } from '@/domain/storm/StormEvent';
+import {
+  getStormDispatchService,
+  getStormEventRepository,
+  getTimesheetService
+} from '@/infrastructure/repositories/RepositoryProvider';
+import { toStormEventResponse } from '@/presentation/api/StormEventPresenter';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
     return res.status(405).json({ message: 'Method not allowed' });
   }
 
   try {
-    const token = req.headers.authorization?.replace('Bearer ', '');
-    
-    if (!token) {
-      return res.status(401).json({ success: false, message: 'No token provided' });
-    }
+    const user = req.user;
 
-    const user = await simpleAuthService.verifyToken(token);
-    
-    if (!user || user.role !== 'employee') {
-      return res.status(403).json({ success: false, message: 'Access denied' });
-    }
+    // Crews see how far along each declared storm is
+    const stormDispatch = await getStormDispatchService();
+    const activeStorms = await (await getStormEventRepository()).findByStatus(StormEventStatus.DECLARED);
+    const storms = await Promise.all(
+      activeStorms.map(async storm => toStormEventResponse(storm, await stormDispatch.progress(storm)))
+    );
+
+    const week = await (await getTimesheetService()).weekToDate(user.email);
 
     res.status(200).json({
       success: true,
       employee: user,
+      storms,
+      hoursThisWeek: week.hours,
       message: 'Employee dashboard data loaded'
     });
   } catch (error) {
     console.error('Employee dashboard error:', error);
     res.status(500).json({ success: false, message: 'Internal server error' });
   }
-}
\ No newline at end of file
+}
+
+export default withAuth({ roles: ['employee'] })(handler);
\ No newline at end of file
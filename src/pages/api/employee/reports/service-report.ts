@@ -0,0 +1,51 @@
+/**
+ * Employee Service Report API Endpoint
+ * Downloads an Excel report of the crew member's own service logs and work orders for a date range
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { DomainError } from '@/domain/shared/DomainError';
+import { ServiceReportData } from '@/domain/services/ServiceReportExporter';
+import { container } from '@/infrastructure/di/Container';
+import { getServiceReportService } from '@/infrastructure/repositories/RepositoryProvider';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  try {
+    const user = req.user;
+
+    const { from, to, propertyCode } = req.query;
+
+    let data: ServiceReportData;
+    try {
+      const serviceReportService = await getServiceReportService();
+      data = await serviceReportService.collect({
+        from: new Date(String(from ?? '')),
+        to: new Date(String(to ?? '')),
+        propertyCode: typeof propertyCode === 'string' ? propertyCode : undefined,
+        employee: user.email
+      });
+    } catch (domainError) {
+      if (domainError instanceof DomainError) {
+        return res.status(400).json({ success: false, message: domainError.message, code: domainError.errorCode });
+      }
+      throw domainError;
+    }
+
+    const report = await container.serviceReportExporter.exportServiceReport(data);
+
+    res.setHeader('Content-Type', report.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${report.filename}"`);
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).send(report.content);
+  } catch (error) {
+    console.error('Employee service report error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['employee', 'admin'] })(handler);
\ No newline at end of file
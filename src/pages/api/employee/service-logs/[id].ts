@@ -0,0 +1,64 @@
+/**
+ * Employee Service Log Entry API Endpoint
+ * Crew members correct or withdraw their entries until a supervisor approves them
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { DomainError } from '@/domain/shared/DomainError';
+import { UniqueEntityId } from '@/domain/shared/UniqueEntityId';
+import { getServiceLogRepository } from '@/infrastructure/repositories/RepositoryProvider';
+import { toServiceLogDetails, toServiceLogEntryResponse } from '@/presentation/api/ServiceLogPresenter';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'PUT' && req.method !== 'DELETE') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  try {
+    const user = req.user;
+
+    const { id } = req.query;
+    const serviceLogRepository = await getServiceLogRepository();
+    const entry = typeof id === 'string' && UniqueEntityId.isValid(id)
+      ? await serviceLogRepository.findById(UniqueEntityId.create(id))
+      : null;
+
+    // Other crew members' entries are reported as missing rather than forbidden
+    if (!entry || entry.submittedBy !== user.email) {
+      return res.status(404).json({ success: false, message: 'Service log entry not found' });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ success: true, entry: toServiceLogEntryResponse(entry) });
+    }
+
+    try {
+      if (req.method === 'DELETE') {
+        entry.ensureEditableBy(user.email);
+      } else {
+        entry.revise(toServiceLogDetails(req.body || {}), user.email);
+      }
+    } catch (domainError) {
+      if (domainError instanceof DomainError) {
+        return res.status(400).json({ success: false, message: domainError.message, code: domainError.errorCode });
+      }
+      throw domainError;
+    }
+
+    if (req.method === 'DELETE') {
+      await serviceLogRepository.delete(entry.id);
+      return res.status(200).json({ success: true });
+    }
+
+    await serviceLogRepository.save(entry);
+    entry.markEventsAsCommitted();
+
+    return res.status(200).json({ success: true, entry: toServiceLogEntryResponse(entry) });
+  } catch (error) {
+    console.error('Service log entry error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['employee', 'admin'] })(handler);
\ No newline at end of file
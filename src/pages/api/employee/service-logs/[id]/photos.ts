@@ -0,0 +1,120 @@
+/**
+ * Employee Service Log Photos API Endpoint
+ * Crew members attach site photos to their entries; customers see them in the client portal once approved
+ */
+
+import { promises as fs } from 'fs';
+import { NextApiRequest, NextApiResponse } from 'next';
+import { IncomingForm, File } from 'formidable';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { SECURITY_CONFIG } from '@/lib/security';
+import { DomainError } from '@/domain/shared/DomainError';
+import { UniqueEntityId } from '@/domain/shared/UniqueEntityId';
+import { container } from '@/infrastructure/di/Container';
+import { getServiceLogRepository } from '@/infrastructure/repositories/RepositoryProvider';
+import { toServiceLogEntryResponse } from '@/presentation/api/ServiceLogPresenter';
+
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+function parseUpload(req: NextApiRequest): Promise<File | undefined> {
+  const form = new IncomingForm({
+    allowEmptyFiles: false,
+    maxFiles: 1,
+    maxFileSize: SECURITY_CONFIG.MAX_FILE_SIZE,
+    filter: part => SECURITY_CONFIG.ALLOWED_IMAGE_TYPES.some(type => type === part.mimetype)
+  });
+
+  return new Promise((resolve, reject) => {
+    form.parse(req, (err, _fields, files) => {
+      if (err) return reject(err);
+      const upload = files.photo;
+      resolve(Array.isArray(upload) ? upload[0] : upload);
+    });
+  });
+}
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST' && req.method !== 'DELETE') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  try {
+    const user = req.user;
+
+    const { id, fileId } = req.query;
+    const serviceLogRepository = await getServiceLogRepository();
+    const entry = typeof id === 'string' && UniqueEntityId.isValid(id)
+      ? await serviceLogRepository.findById(UniqueEntityId.create(id))
+      : null;
+
+    if (!entry || entry.submittedBy !== user.email) {
+      return res.status(404).json({ success: false, message: 'Service log entry not found' });
+    }
+
+    if (req.method === 'DELETE') {
+      try {
+        entry.removePhoto(typeof fileId === 'string' ? fileId : '', user.email);
+      } catch (domainError) {
+        if (domainError instanceof DomainError) {
+          return res.status(400).json({ success: false, message: domainError.message, code: domainError.errorCode });
+        }
+        throw domainError;
+      }
+      await serviceLogRepository.save(entry);
+      await container.fileStorageService.deleteFile(String(fileId)).catch(() => undefined);
+      return res.status(200).json({ success: true, entry: toServiceLogEntryResponse(entry) });
+    }
+
+    let upload: File | undefined;
+    try {
+      upload = await parseUpload(req);
+    } catch (error) {
+      console.error('Service log photo upload error:', error);
+      return res.status(400).json({ success: false, message: 'Upload failed. Please check the file size and try again.' });
+    }
+    if (!upload) {
+      return res.status(400).json({ success: false, message: 'Attach a JPEG, PNG, GIF or WebP image as "photo"' });
+    }
+
+    const content = await fs.readFile(upload.filepath);
+    await fs.unlink(upload.filepath).catch(() => undefined);
+    const contentType = upload.mimetype || 'application/octet-stream';
+    const filename = upload.originalFilename || 'photo';
+
+    // Check the entry can take the photo before anything is stored
+    try {
+      entry.ensureEditableBy(user.email);
+    } catch (domainError) {
+      if (domainError instanceof DomainError) {
+        return res.status(400).json({ success: false, message: domainError.message, code: domainError.errorCode });
+      }
+      throw domainError;
+    }
+
+    const stored = await container.fileStorageService.uploadFile(content, filename, contentType, {
+      serviceLogEntryId: entry.id.toString(),
+      uploadedBy: user.email
+    });
+    try {
+      entry.attachPhoto({ fileId: stored.id, filename, contentType, size: content.length }, user.email);
+    } catch (domainError) {
+      await container.fileStorageService.deleteFile(stored.id).catch(() => undefined);
+      if (domainError instanceof DomainError) {
+        return res.status(400).json({ success: false, message: domainError.message, code: domainError.errorCode });
+      }
+      throw domainError;
+    }
+
+    await serviceLogRepository.save(entry);
+    return res.status(201).json({ success: true, entry: toServiceLogEntryResponse(entry) });
+  } catch (error) {
+    console.error('Service log photo error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['employee', 'admin'] })(handler);
\ No newline at end of file
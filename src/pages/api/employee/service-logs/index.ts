@@ -0,0 +1,55 @@
+/**
+ * Employee Service Logs API Endpoint
+ * Lists the crew member's own service log entries and submits new ones for supervisor review
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { DomainError } from '@/domain/shared/DomainError';
+import { ServiceLogEntry } from '@/domain/servicelog/ServiceLogEntry';
+import { getServiceLogRepository } from '@/infrastructure/repositories/RepositoryProvider';
+import { toServiceLogDetails, toServiceLogEntryResponse } from '@/presentation/api/ServiceLogPresenter';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  try {
+    const user = req.user;
+
+    const serviceLogRepository = await getServiceLogRepository();
+
+    if (req.method === 'GET') {
+      const { propertyCode } = req.query;
+      const normalizedCode = typeof propertyCode === 'string' ? propertyCode.trim().toUpperCase() : '';
+      const entries = (await serviceLogRepository.findBySubmitter(user.email))
+        .filter(entry => !normalizedCode || entry.propertyCode === normalizedCode);
+
+      return res.status(200).json({ success: true, entries: entries.map(toServiceLogEntryResponse) });
+    }
+
+    let entry: ServiceLogEntry;
+    try {
+      entry = ServiceLogEntry.create({
+        ...toServiceLogDetails(req.body || {}),
+        submittedBy: user.email
+      });
+    } catch (domainError) {
+      if (domainError instanceof DomainError) {
+        return res.status(400).json({ success: false, message: domainError.message, code: domainError.errorCode });
+      }
+      throw domainError;
+    }
+
+    await serviceLogRepository.save(entry);
+    entry.markEventsAsCommitted();
+
+    return res.status(201).json({ success: true, entry: toServiceLogEntryResponse(entry) });
+  } catch (error) {
+    console.error('Employee service logs error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['employee', 'admin'] })(handler);
\ No newline at end of file
@@ -0,0 +1,106 @@
+/**
+ * Employee Time Clock API Endpoint
+ * Shows the crew member's current shift and week-to-date hours, and clocks them in, out and on break
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { DomainError } from '@/domain/shared/DomainError';
+import { TimeEntry } from '@/domain/timesheet/TimeEntry';
+import { getProjectRepository, getTimesheetService } from '@/infrastructure/repositories/RepositoryProvider';
+import {
+  toDateRangeResponse,
+  toReportedLocation,
+  toTimeEntryResponse,
+  toWeekToDateResponse
+} from '@/presentation/api/TimeEntryPresenter';
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  try {
+    const user = req.user;
+
+    const timesheetService = await getTimesheetService();
+
+    if (req.method === 'GET') {
+      const [current, week, projects] = await Promise.all([
+        timesheetService.currentEntry(user.email),
+        timesheetService.weekToDate(user.email),
+        getProjectRepository().then(repository => repository.findAll())
+      ]);
+
+      // Only projects filed under a property code can be clocked into from the picker
+      const sites = projects
+        .filter(project => project.propertyCode)
+        .map(project => ({
+          projectId: project.id.toString(),
+          title: project.title,
+          propertyCode: project.propertyCode,
+          geofenced: Boolean(project.siteCoordinates)
+        }))
+        .sort((a, b) => a.title.localeCompare(b.title));
+
+      return res.status(200).json({
+        success: true,
+        current: current ? toTimeEntryResponse(current) : null,
+        week: toWeekToDateResponse(week),
+        entries: [...week.entries].reverse().map(line => toTimeEntryResponse(line.entry, line)),
+        payPeriod: toDateRangeResponse(timesheetService.payPeriodContaining(new Date())),
+        sites
+      });
+    }
+
+    const { action, projectId, propertyCode, location, notes } = req.body || {};
+
+    let entry: TimeEntry;
+    try {
+      switch (action) {
+        case 'clock_in':
+          entry = await timesheetService.clockIn(user.email, {
+            projectId: optionalString(projectId),
+            propertyCode: optionalString(propertyCode),
+            location: toReportedLocation(location),
+            notes: optionalString(notes)
+          });
+          break;
+        case 'clock_out':
+          entry = await timesheetService.clockOut(user.email, {
+            location: toReportedLocation(location),
+            notes: optionalString(notes)
+          });
+          break;
+        case 'start_break':
+          entry = await timesheetService.startBreak(user.email);
+          break;
+        case 'end_break':
+          entry = await timesheetService.endBreak(user.email);
+          break;
+        default:
+          return res.status(400).json({ success: false, message: 'Unknown action' });
+      }
+    } catch (domainError) {
+      if (domainError instanceof DomainError) {
+        return res.status(400).json({ success: false, message: domainError.message, code: domainError.errorCode });
+      }
+      throw domainError;
+    }
+
+    const week = await timesheetService.weekToDate(user.email);
+    return res.status(200).json({
+      success: true,
+      entry: toTimeEntryResponse(entry),
+      week: toWeekToDateResponse(week)
+    });
+  } catch (error) {
+    console.error('Employee time clock error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['employee', 'admin'] })(handler);
\ No newline at end of file
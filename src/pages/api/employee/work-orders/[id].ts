@@ -0,0 +1,68 @@
+/**
+ * Employee Work Order Progress API Endpoint
+ * Crew members claim requested orders and report progress from the field
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { DomainError } from '@/domain/shared/DomainError';
+import { UniqueEntityId } from '@/domain/shared/UniqueEntityId';
+import { container } from '@/infrastructure/di/Container';
+import { getWorkOrderRepository } from '@/infrastructure/repositories/RepositoryProvider';
+import { toWorkOrderResponse } from '@/presentation/api/WorkOrderPresenter';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  try {
+    const user = req.user;
+
+    const { id } = req.query;
+    const workOrderRepository = await getWorkOrderRepository();
+    const workOrder = typeof id === 'string' && UniqueEntityId.isValid(id)
+      ? await workOrderRepository.findById(UniqueEntityId.create(id))
+      : null;
+
+    if (!workOrder) {
+      return res.status(404).json({ success: false, message: 'Work order not found' });
+    }
+
+    const { action, notes } = req.body || {};
+    try {
+      switch (action) {
+        case 'claim':
+          workOrder.claim(user.email);
+          break;
+        case 'en_route':
+          workOrder.startTravel(user.email);
+          break;
+        case 'on_site':
+          workOrder.arriveOnSite(user.email);
+          break;
+        case 'complete':
+          workOrder.complete(user.email, notes);
+          break;
+        default:
+          return res.status(400).json({ success: false, message: 'Action must be one of: claim, en_route, on_site, complete' });
+      }
+    } catch (domainError) {
+      if (domainError instanceof DomainError) {
+        return res.status(400).json({ success: false, message: domainError.message, code: domainError.errorCode });
+      }
+      throw domainError;
+    }
+
+    await workOrderRepository.save(workOrder);
+    await container.eventPublisher.publishAll(workOrder.getUncommittedEvents());
+    workOrder.markEventsAsCommitted();
+
+    return res.status(200).json({ success: true, workOrder: toWorkOrderResponse(workOrder) });
+  } catch (error) {
+    console.error('Work order progress error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['employee', 'admin'] })(handler);
\ No newline at end of file
@@ -0,0 +1,40 @@
+/**
+ * Employee Work Orders API Endpoint
+ * Lists the crew member's own work orders and the requested orders still open to claim
+ */
+
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { WorkOrderStatus } from '@/domain/workorder/WorkOrder';
+import { getWorkOrderRepository } from '@/infrastructure/repositories/RepositoryProvider';
+import { toWorkOrderResponse } from '@/presentation/api/WorkOrderPresenter';
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  try {
+    const user = req.user;
+
+    const workOrderRepository = await getWorkOrderRepository();
+    const [mine, available] = await Promise.all([
+      workOrderRepository.findByAssignee(user.email),
+      workOrderRepository.findByStatus([WorkOrderStatus.REQUESTED])
+    ]);
+
+    return res.status(200).json({
+      success: true,
+      // Verified orders are finished business and drop off the crew member's list
+      assigned: mine
+        .filter(workOrder => workOrder.status !== WorkOrderStatus.VERIFIED)
+        .map(toWorkOrderResponse),
+      available: available.map(toWorkOrderResponse)
+    });
+  } catch (error) {
+    console.error('Employee work orders error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+}
+
+export default withAuth({ roles: ['employee', 'admin'] })(handler);
\ No newline at end of file
@@ -0,0 +1,62 @@
+/**
+ * Payment Webhook API Endpoint
+ * Receives signed payment events from the configured provider and applies them to invoices and quote deposits
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getPaymentService } from '@/infrastructure/repositories/RepositoryProvider';
+import { PaymentWebhookVerificationError } from '@/infrastructure/payments/PaymentProvider';
+import { PaymentAuditOutcome } from '@/infrastructure/payments/PaymentAuditLog';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// The signature covers the exact bytes sent, so the body must not be parsed before verification
+export const config = {
+  api: {
+    bodyParser: false
+  }
+};
+
+function readRawBody(req: NextApiRequest): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Webhook body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const paymentService = await getPaymentService();
+    const rawBody = await readRawBody(req);
+    const signature = req.headers[paymentService.signatureHeader];
+
+    const result = await paymentService.handleWebhook(rawBody, Array.isArray(signature) ? signature[0] : signature);
+    // Only failed events (storage or provider errors) answer 500 so the provider redelivers them;
+    // unapplied payments are acknowledged, since a retry would be refused the same way
+    if (result.outcome === PaymentAuditOutcome.FAILED) {
+      return res.status(500).json({ success: false, error: result.message });
+    }
+    return res.status(200).json({ success: true, received: true, outcome: result.outcome });
+  } catch (error) {
+    if (error instanceof PaymentWebhookVerificationError) {
+      return res.status(400).json({ success: false, error: error.message, code: error.errorCode });
+    }
+    console.error('Payment webhook error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
\ No newline at end of file
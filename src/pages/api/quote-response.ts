@@ -0,0 +1,99 @@
+// Quote response API endpoint
+// Backs the page customers reach from the signed link in their "quote sent" email
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withSecurity, getClientIP } from '@/lib/middleware';
+import { secureLog } from '@/lib/security';
+import { container } from '@/infrastructure/di/Container';
+import { cqrsContainer } from '@/infrastructure/cqrs/CQRSContainer';
+import { UniqueEntityId } from '@/domain/shared/UniqueEntityId';
+import { toQuoteResponseView } from '@/presentation/api/QuotePresenter';
+
+const RESPONSE_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+const RESPONSE_MAX_PER_IP = 30;
+
+/**
+ * Quote response handler
+ * action "view" returns the estimate; "accept" and "decline" require a typed-name signature
+ */
+async function quoteResponseHandler(req: NextApiRequest, res: NextApiResponse) {
+  const { token, action = 'view', signedName, reason } = req.body || {};
+
+  if (typeof token !== 'string' || !token) {
+    return res.status(400).json({ error: 'Quote link is missing its token' });
+  }
+
+  if (!['view', 'accept', 'decline'].includes(action)) {
+    return res.status(400).json({ error: `Unknown action: ${action}` });
+  }
+
+  const payload = container.quoteResponseTokenService.verifyToken(token);
+  if (!payload) {
+    secureLog('warn', 'Invalid quote response token');
+    return res.status(404).json({ error: 'This quote link is invalid or has expired' });
+  }
+
+  const quote = await container.quoteRepository.findById(UniqueEntityId.create(payload.quoteId));
+  const view = quote ? toQuoteResponseView(quote, payload.revision) : null;
+  if (!quote || !view) {
+    return res.status(404).json({ error: 'This quote link is invalid or has expired' });
+  }
+
+  if (action === 'view') {
+    return res.status(200).json({ success: true, quote: view });
+  }
+
+  if (view.state !== 'open') {
+    return res.status(409).json({ error: 'This quote can no longer be responded to', quote: view });
+  }
+
+  if (typeof signedName !== 'string' || !signedName.trim()) {
+    return res.status(400).json({ error: 'Type your full name to sign' });
+  }
+
+  const signatureEvidence = {
+    ipAddress: getClientIP(req),
+    userAgent: (req.headers['user-agent'] || 'unknown').substring(0, 500),
+    revision: payload.revision
+  };
+
+  const result = action === 'accept'
+    ? await cqrsContainer.quoteApplicationService.acceptQuote({
+        quoteId: payload.quoteId,
+        customerSignature: signedName,
+        acceptanceDate: new Date(),
+        signatureEvidence
+      })
+    : await cqrsContainer.quoteApplicationService.rejectQuote({
+        quoteId: payload.quoteId,
+        reason: typeof reason === 'string' && reason.trim() ? reason : 'Declined by customer',
+        customerSignature: signedName,
+        signatureEvidence
+      });
+
+  if (!result.success) {
+    secureLog('warn', 'Customer quote response rejected', { quoteId: payload.quoteId, action });
+    // Accepting also creates the contract, which can fail for reasons the customer cannot fix
+    const internal = result.errors?.[0]?.code === 'INTERNAL_ERROR';
+    return res.status(internal ? 500 : 400).json({
+      error: result.errors?.[0]?.message || result.message
+    });
+  }
+
+  secureLog('info', 'Customer responded to quote', { quoteId: payload.quoteId, action, revision: payload.revision });
+
+  const updated = await container.quoteRepository.findById(UniqueEntityId.create(payload.quoteId));
+
+  return res.status(200).json({
+    success: true,
+    quote: updated ? toQuoteResponseView(updated, payload.revision) : view
+  });
+}
+
+export default withSecurity(quoteResponseHandler, {
+  rateLimit: {
+    scope: 'quote_response',
+    windowMs: RESPONSE_WINDOW_MS,
+    maxRequests: RESPONSE_MAX_PER_IP
+  }
+});
\ No newline at end of file
@@ -2,6 +2,7 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import nodemailer from 'nodemailer';
 import { withServiceStatusCheck } from '../../middleware/maintenanceMode';
 import { getRecipientsString } from '@/lib/email-config';
+import { recordQuoteRequest } from '@/lib/quote-request-intake';
 
 async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -48,26 +49,17 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         serviceClass: 'not-specified', // Simple form doesn't have service class
         service,
         details,
-        photoFiles: [], // Simple form doesn't have photo uploads
-        ipAddress: req.headers['x-forwarded-for'] as string || req.connection.remoteAddress,
-        userAgent: req.headers['user-agent']
+        photoFiles: [] // Simple form doesn't have photo uploads
       };
 
       // Save to quote requests database
       try {
-        const response = await fetch(`${process.env.NEXTAUTH_URL || 'http://localhost:3000'}/api/admin/quote-requests`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer system_token` // Special system token for internal calls
-          },
-          body: JSON.stringify(quoteRequestData)
-        });
-        
-        if (response.ok) {
+        const result = await recordQuoteRequest(quoteRequestData, req);
+
+        if (result.success) {
           console.log('Quote request saved to database successfully');
         } else {
-          console.error('Failed to save quote request to database:', await response.text());
+          console.error('Failed to save quote request to database:', result.errors?.[0]?.message || result.message);
         }
       } catch (dbError) {
         console.error('Database save error:', dbError);
@@ -5,8 +5,15 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import { IncomingForm } from 'formidable';
 import nodemailer from 'nodemailer';
 import { withSecurity, validateContentType, validateRequestSize } from '@/lib/middleware';
-import { validateFileUpload, generateSecureFilename, secureLog, SECURITY_CONFIG } from '@/lib/security';
+import { validateFileUpload, generateSecureFilename, secureLog, checkKeyedRateLimit, SECURITY_CONFIG } from '@/lib/security';
 import { getRecipientsString } from '@/lib/email-config';
+import { getContractLookupService } from '@/infrastructure/repositories/RepositoryProvider';
+import { DomainValidationError } from '@/domain/shared/DomainError';
+import { recordUpdateRequest } from '@/lib/update-request-store';
+
+// Shares contract-lookup's per-contract budget so the two endpoints can't be combined for more guesses
+const VERIFY_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+const VERIFY_MAX_PER_CONTRACT = 5;
 
 export const config = {
   api: {
@@ -66,13 +73,61 @@ async function quoteUpdateHandler(req: NextApiRequest, res: NextApiResponse) {
     }
 
     // Extract form fields
-    const contractID = Array.isArray(fields.contractID) ? fields.contractID[0] : fields.contractID || '';
-    const fullName = Array.isArray(fields.fullName) ? fields.fullName[0] : fields.fullName || '';
-    const email = Array.isArray(fields.email) ? fields.email[0] : fields.email || '';
-    const phone = Array.isArray(fields.phone) ? fields.phone[0] : fields.phone || '';
+    let contractID = Array.isArray(fields.contractID) ? fields.contractID[0] : fields.contractID || '';
+    let fullName = Array.isArray(fields.fullName) ? fields.fullName[0] : fields.fullName || '';
+    let email = Array.isArray(fields.email) ? fields.email[0] : fields.email || '';
+    let phone = Array.isArray(fields.phone) ? fields.phone[0] : fields.phone || '';
+    const verificationEmail = Array.isArray(fields.verificationEmail) ? fields.verificationEmail[0] : fields.verificationEmail || '';
+    const verificationPhoneLastFour = Array.isArray(fields.verificationPhoneLastFour) ? fields.verificationPhoneLastFour[0] : fields.verificationPhoneLastFour || '';
     const jobDescription = Array.isArray(fields.jobDescription) ? fields.jobDescription[0] : fields.jobDescription || '';
     const reasonForContact = Array.isArray(fields.reasonForContact) ? fields.reasonForContact[0] : fields.reasonForContact || '';
     const notes = Array.isArray(fields.notes) ? fields.notes[0] : fields.notes || '';
+    let serviceType = '';
+    let serviceAddress = '';
+
+    // A contract ID must belong to a real contract the requester can verify; without one the request
+    // goes to staff only, since nothing ties the typed email to a client
+    if (contractID.trim()) {
+      const normalizedId = contractID.trim().toUpperCase();
+      const contractLimit = checkKeyedRateLimit(`contract_lookup_${normalizedId}`, VERIFY_WINDOW_MS, VERIFY_MAX_PER_CONTRACT);
+      if (!contractLimit.allowed) {
+        secureLog('warn', 'Quote update verification limit exceeded', { contractID: normalizedId });
+        return res.status(429).json({
+          error: 'Too many verification attempts for this contract',
+          retryAfter: Math.ceil(contractLimit.timeUntilReset / 1000)
+        });
+      }
+
+      try {
+        const contractLookupService = await getContractLookupService();
+        const contract = await contractLookupService.findVerifiedContract(contractID, {
+          email: verificationEmail || undefined,
+          phoneLastFour: verificationPhoneLastFour || undefined
+        });
+
+        if (!contract) {
+          secureLog('warn', 'Quote update contract verification failed', { contractID });
+          return res.status(400).json({ 
+            error: 'Contract could not be verified. Please look up your contract again.' 
+          });
+        }
+
+        // Contact details come from the contract; the form only shows them masked
+        contractID = contract.contractId;
+        fullName = fullName || contract.customerName;
+        email = contract.email.value;
+        phone = contract.phone.value;
+        serviceType = contract.serviceType.key;
+        serviceAddress = contract.address;
+      } catch (error) {
+        if (error instanceof DomainValidationError) {
+          return res.status(400).json({ 
+            error: 'Verify your contract with its email or phone last 4 digits' 
+          });
+        }
+        throw error;
+      }
+    }
 
     // Basic validation
     if (!fullName || !email) {
@@ -123,12 +178,14 @@ async function quoteUpdateHandler(req: NextApiRequest, res: NextApiResponse) {
       attachmentCount: uploadedFiles.length
     });
 
-    // Save to database first
+    // Save to the update request queue first
     const updateRequestData = {
       contractId: contractID || 'No Contract ID',
       customerName: fullName,
       email: email,
       phone: phone,
+      serviceType: serviceType || undefined,
+      serviceAddress: serviceAddress || undefined,
       reasonForContact: reasonForContact,
       jobDescription: jobDescription,
       notes: notes,
@@ -136,15 +193,7 @@ async function quoteUpdateHandler(req: NextApiRequest, res: NextApiResponse) {
     };
 
     try {
-      // Save to update requests database
-      await fetch(`${process.env.NEXTAUTH_URL || 'http://localhost:3000'}/api/admin/update-requests`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': 'Bearer system_token'
-        },
-        body: JSON.stringify(updateRequestData)
-      });
+      recordUpdateRequest(updateRequestData);
     } catch (dbError) {
       console.error('Failed to save update request to database:', dbError);
       // Continue with email even if database save fails
@@ -175,6 +224,8 @@ async function quoteUpdateHandler(req: NextApiRequest, res: NextApiResponse) {
               `Customer Name: ${fullName}\n` +
               `Email: ${email}\n` +
               `Phone: ${phone}\n` +
+              (serviceType ? `Service: ${serviceType}\n` : '') +
+              (serviceAddress ? `Service Address: ${serviceAddress}\n` : '') +
               `Reason for Contact: ${reasonForContact}\n\n` +
               `Job Description:\n${jobDescription}\n\n` +
               `Additional Notes:\n${notes}\n\n` +
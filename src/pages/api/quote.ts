@@ -8,6 +8,7 @@ import { withSecurity, validateContentType, validateRequestSize } from '@/lib/mi
 import { validateFileUpload, generateSecureFilename, secureLog, SECURITY_CONFIG } from '@/lib/security';
 import { validateQuoteData, type QuoteData } from '@/lib/validation';
 import { getRecipientsString } from '@/lib/email-config';
+import { recordQuoteRequest } from '@/lib/quote-request-intake';
 
 export const config = {
   api: {
@@ -149,24 +150,19 @@ async function quoteHandler(req: NextApiRequest, res: NextApiResponse) {
         fullName: validatedData.fullName,
         email: validatedData.email,
         phone: validatedData.phone,
+        serviceAddress: validatedData.serviceAddress,
         serviceClass: validatedData.serviceClass || 'commercial',
         service: validatedData.service,
         details: validatedData.details,
-        photoFiles: validatedAttachments.map(att => att.filename),
-        ipAddress: req.headers['x-forwarded-for'] as string || req.connection.remoteAddress,
-        userAgent: req.headers['user-agent']
+        photoFiles: validatedAttachments.map(att => att.filename)
       };
 
-      // Save to quote requests (would be database in production)
+      // Save to the quote queue
       try {
-        await fetch(`${process.env.NEXTAUTH_URL || 'http://localhost:3000'}/api/admin/quote-requests`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer system_token` // Special system token for internal calls
-          },
-          body: JSON.stringify(quoteRequestData)
-        });
+        const result = await recordQuoteRequest(quoteRequestData, req);
+        if (!result.success) {
+          console.error('Failed to save quote request to database:', result.errors?.[0]?.message || result.message);
+        }
       } catch (dbError) {
         console.error('Failed to save quote request to database:', dbError);
         // Continue with email even if database save fails
@@ -182,6 +178,7 @@ async function quoteHandler(req: NextApiRequest, res: NextApiResponse) {
               `Name: ${validatedData.fullName}\n` +
               `Email: ${validatedData.email}\n` +
               `Phone: ${validatedData.phone}\n` +
+              `Service Address: ${validatedData.serviceAddress}\n` +
               `Service Class: ${validatedData.serviceClass || 'Not specified'}\n` +
               `Service: ${validatedData.service}\n\n` +
               `Project Details:\n${validatedData.details}\n\n` +
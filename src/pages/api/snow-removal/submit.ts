@@ -1,25 +1,18 @@
-import { NextApiRequest, NextApiResponse } from 'next';
-import { simpleAuthService } from '@/services/SimpleAuthService';
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, withAuth } from '@/middleware/withAuth';
+import { DomainError } from '@/domain/shared/DomainError';
+import { WorkOrder } from '@/domain/workorder/WorkOrder';
+import { container } from '@/infrastructure/di/Container';
+import { getWorkOrderRepository } from '@/infrastructure/repositories/RepositoryProvider';
+import { toWorkOrderResponse } from '@/presentation/api/WorkOrderPresenter';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   try {
-    // Extract token from Authorization header
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({ error: 'No token provided' });
-    }
-
-    const token = authHeader.split(' ')[1];
-    
-    // Verify the token
-    const user = await simpleAuthService.verifyToken(token);
-    if (!user || (user.role !== 'employee' && user.role !== 'admin')) {
-      return res.status(401).json({ error: 'Unauthorized' });
-    }
+    const user = req.user;
 
     const {
       propertyCode,
@@ -33,9 +26,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       specialInstructions,
       equipmentRequired,
       weatherConditions,
-      accessNotes,
-      submittedBy,
-      submittedAt
+      accessNotes
     } = req.body;
 
     // Validate required fields
@@ -43,51 +34,47 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
-    // In a real implementation, you would:
-    // 1. Store this data in a database
-    // 2. Generate Excel file automatically
-    // 3. Send notifications to admin dashboard
-    // 4. Integrate with scheduling system
-
-    // For now, we'll simulate storing the data
-    const snowRemovalRequest = {
-      id: Date.now().toString(),
-      propertyCode,
-      clientName,
-      serviceAddress,
-      zipcode,
-      serviceType,
-      priority,
-      scheduledDate,
-      estimatedHours,
-      specialInstructions,
-      equipmentRequired,
-      weatherConditions,
-      accessNotes,
-      submittedBy,
-      submittedAt,
-      status: 'pending',
-      createdAt: new Date().toISOString()
-    };
-
-    // Store in localStorage for demo purposes (in production, use a database)
-    // This would normally be saved to a database like PostgreSQL, MongoDB, etc.
-    console.log('Snow Removal Request Submitted:', snowRemovalRequest);
+    let workOrder: WorkOrder;
+    try {
+      workOrder = WorkOrder.create({
+        propertyCode,
+        clientName,
+        serviceAddress,
+        zipCode: String(zipcode),
+        serviceType,
+        priority,
+        // Date-only values from the form are scheduled at local midnight, not UTC
+        scheduledDate: new Date(/^\d{4}-\d{2}-\d{2}$/.test(scheduledDate) ? `${scheduledDate}T00:00:00` : scheduledDate),
+        estimatedHours: estimatedHours !== undefined && estimatedHours !== '' ? Number(estimatedHours) : undefined,
+        equipmentRequired: Array.isArray(equipmentRequired) ? equipmentRequired : [],
+        specialInstructions,
+        weatherConditions,
+        accessNotes,
+        requestedBy: user.email
+      });
+    } catch (domainError) {
+      if (domainError instanceof DomainError) {
+        return res.status(400).json({ error: domainError.message, code: domainError.errorCode });
+      }
+      throw domainError;
+    }
 
-    // In production, you would also:
-    // - Send email notification to admin
-    // - Update admin dashboard with new request
-    // - Log the activity for audit trail
-    // - Generate automatic Excel report
+    const workOrderRepository = await getWorkOrderRepository();
+    await workOrderRepository.save(workOrder);
+    await container.eventPublisher.publishAll(workOrder.getUncommittedEvents());
+    workOrder.markEventsAsCommitted();
 
     res.status(200).json({ 
       success: true, 
       message: 'Snow removal request submitted successfully',
-      requestId: snowRemovalRequest.id
+      requestId: workOrder.id.toString(),
+      workOrder: toWorkOrderResponse(workOrder)
     });
 
   } catch (error) {
     console.error('Snow removal submission error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
-}
\ No newline at end of file
+}
+
+export default withAuth({ roles: ['employee', 'admin'] })(handler);
\ No newline at end of file
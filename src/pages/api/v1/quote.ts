@@ -12,6 +12,7 @@ import { cache } from '@/lib/cache';
 import { config as appConfig } from '@/lib/config';
 import { validateFileUpload, checkRateLimit, generateSecureFilename } from '@/lib/security';
 import { validateQuoteData } from '@/lib/validation';
+import { QuoteStatus } from '@/domain/quote/QuoteStatus';
 
 /**
  * Enhanced quote request submission endpoint
@@ -158,7 +159,7 @@ async function quoteHandler(req: NextApiRequest, res: NextApiResponse) {
             details: validatedData.details,
             photoFilenames: validatedPhotos.map(p => p.newFilename),
             photoUrls: validatedPhotos.map(p => p.file.filepath),
-            status: 'pending',
+            status: QuoteStatus.PENDING,
             priority: 'medium',
             ipAddress: req.socket.remoteAddress,
             userAgent: req.headers['user-agent'],
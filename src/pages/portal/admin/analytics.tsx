@@ -18,6 +18,7 @@ import {
   FaExclamationTriangle
 } from 'react-icons/fa';
 import { isFeatureEnabled } from '@/utils/version';
+import { portalFetch } from '../../../lib/portal-fetch';
 
 export default function Analytics() {
   const router = useRouter();
@@ -43,31 +44,18 @@ export default function Analytics() {
   useEffect(() => {
     if (!admin) return;
     
-    const token = localStorage.getItem('accessToken');
-    if (token) {
-      loadAnalytics(token);
-    }
+    loadAnalytics();
   }, [admin]);
 
   const checkAdminAuth = async () => {
-    const token = localStorage.getItem('accessToken');
-    if (!token) {
-      router.push('/portal/admin/login');
-      return;
-    }
-
     try {
-      const response = await fetch('/api/admin/dashboard', {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const response = await portalFetch('/api/admin/dashboard');
 
       if (response.ok) {
         const data = await response.json();
         console.log('👤 Admin user loaded:', data.admin);
         setAdmin(data.admin);
-        await loadAnalytics(token);
+        await loadAnalytics();
       } else {
         router.push('/portal/admin/login');
       }
@@ -79,13 +67,9 @@ export default function Analytics() {
     }
   };
 
-  const loadAnalytics = async (token: string) => {
+  const loadAnalytics = async () => {
     try {
-      const response = await fetch('/api/admin/analytics', {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const response = await portalFetch('/api/admin/analytics');
 
       if (response.ok) {
         const result = await response.json();
@@ -131,21 +115,12 @@ export default function Analytics() {
   };
 
   const loadServiceStatus = async (retryCount = 0) => {
-    const token = localStorage.getItem('accessToken');
-    if (!token) {
-      console.log('🔒 No token available for service status');
-      setServiceStatus(null);
-      return;
-    }
-
     console.log('🔄 Loading service status... (attempt', retryCount + 1, ')');
-    console.log('🔑 Token length:', token.length, 'Admin email:', admin?.email);
     
     try {
-      const response = await fetch('/api/admin/service-status', {
+      const response = await portalFetch('/api/admin/service-status', {
         method: 'GET',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         }
       });
@@ -226,14 +201,10 @@ export default function Analytics() {
     }
 
     try {
-      const token = localStorage.getItem('accessToken');
-      console.log('🔑 Token available:', !!token);
-      
-      const response = await fetch('/api/admin/service-status', {
+      const response = await portalFetch('/api/admin/service-status', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({ action: 'toggle_service' })
       });
@@ -247,8 +218,7 @@ export default function Analytics() {
         alert(`Service ${result.data.isRunning ? 'started' : 'stopped'} successfully!`);
         
         // Reload analytics
-        const token = localStorage.getItem('accessToken');
-        if (token) loadAnalytics(token);
+        loadAnalytics();
       } else {
         alert(`Failed to ${action} service: ${result.message}`);
       }
@@ -259,15 +229,11 @@ export default function Analytics() {
   };
 
   const resetAnalytics = async () => {
-    const token = localStorage.getItem('accessToken');
-    if (!token) return;
-
     if (confirm('Are you sure you want to reset all analytics data to 0?')) {
       try {
-        const response = await fetch('/api/admin/analytics', {
+        const response = await portalFetch('/api/admin/analytics', {
           method: 'POST',
           headers: {
-            'Authorization': `Bearer ${token}`,
             'Content-Type': 'application/json'
           },
           body: JSON.stringify({ action: 'reset' })
@@ -304,12 +270,10 @@ export default function Analytics() {
     if (!confirmed) return;
 
     try {
-      const token = localStorage.getItem('accessToken');
-      const response = await fetch('/api/admin/service-status', {
+      const response = await portalFetch('/api/admin/service-status', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({ 
           action: 'toggle_module', 
@@ -377,8 +341,7 @@ export default function Analytics() {
               </select>
               <button 
                 onClick={() => {
-                  const token = localStorage.getItem('accessToken');
-                  if (token) loadAnalytics(token);
+                  loadAnalytics();
                   loadServiceStatus();
                 }}
                 className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 text-sm mr-2"
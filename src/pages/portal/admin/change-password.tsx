@@ -9,6 +9,7 @@ import Link from 'next/link';
 import { FaEye, FaEyeSlash, FaCheck, FaTimes } from 'react-icons/fa';
 import PasswordStrengthIndicator from '@/components/PasswordStrengthIndicator';
 import { validatePassword } from '@/utils/passwordValidation';
+import { portalFetch } from '../../../lib/portal-fetch';
 
 
 const ChangePasswordPage: React.FC = () => {
@@ -59,7 +60,7 @@ const ChangePasswordPage: React.FC = () => {
     }
 
     try {
-      const response = await fetch('/api/admin/auth/change-password', {
+      const response = await portalFetch('/api/admin/auth/change-password', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -17,13 +17,23 @@ import {
   FaServer,
   FaIdCard,
   FaSnowflake,
+  FaTruck,
+  FaClipboardList,
+  FaBoxes,
+  FaClock,
+  FaFileInvoiceDollar,
   FaEnvelope,
   FaBell,
-  FaUserCircle
+  FaUserCircle,
+  FaShieldAlt,
+  FaUserTag,
+  FaDesktop,
+  FaUserLock
 } from 'react-icons/fa';
 import { isFeatureEnabled, getCurrentVersion } from '@/utils/version';
 import NotificationBubble from '@/components/admin/NotificationBubble';
 import EmergencyMaintenanceButton from '@/components/admin/EmergencyMaintenanceButton';
+import { portalFetch } from '../../../lib/portal-fetch';
 
 export default function AdminDashboard() {
   const router = useRouter();
@@ -58,9 +68,7 @@ export default function AdminDashboard() {
 
   const loadSystemHealth = async () => {
     try {
-      const response = await fetch('/api/admin/health', {
-        credentials: 'include' // Use cookies instead of token
-      });
+      const response = await portalFetch('/api/admin/health');
 
       if (response.ok) {
         const data = await response.json();
@@ -73,9 +81,7 @@ export default function AdminDashboard() {
 
   const loadServiceStatus = async () => {
     try {
-      const response = await fetch('/api/admin/service-status', {
-        credentials: 'include' // Use cookies instead of token
-      });
+      const response = await portalFetch('/api/admin/service-status');
 
       if (response.ok) {
         const data = await response.json();
@@ -89,19 +95,13 @@ export default function AdminDashboard() {
   const loadAnalyticsData = async () => {
     try {
       // Load quote requests
-      const quoteResponse = await fetch('/api/admin/quote-requests', {
-        credentials: 'include' // Use cookies instead of token
-      });
+      const quoteResponse = await portalFetch('/api/admin/quote-requests');
 
       // Load update requests
-      const updateResponse = await fetch('/api/admin/update-requests', {
-        credentials: 'include' // Use cookies instead of token
-      });
+      const updateResponse = await portalFetch('/api/admin/update-requests');
 
       // Load job applications
-      const jobApplicationsResponse = await fetch('/api/admin/job-applications', {
-        credentials: 'include' // Use cookies instead of token
-      });
+      const jobApplicationsResponse = await portalFetch('/api/admin/job-applications');
 
       let quoteRequestsCount = 0;
       let updateRequestsCount = 0;
@@ -185,9 +185,7 @@ export default function AdminDashboard() {
   const checkAdminAuth = async () => {
     try {
       // Use cookie-based authentication (no token needed)
-      const response = await fetch('/api/admin/dashboard', {
-        credentials: 'include' // Include cookies for authentication
-      });
+      const response = await portalFetch('/api/admin/dashboard');
 
       if (response.ok) {
         const data = await response.json();
@@ -236,12 +234,11 @@ export default function AdminDashboard() {
     }
 
     try {
-      const response = await fetch('/api/admin/service-status', {
+      const response = await portalFetch('/api/admin/service-status', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
-        credentials: 'include', // Use cookies instead of token
         body: JSON.stringify({ action: 'toggle_service' })
       });
 
@@ -276,12 +273,11 @@ export default function AdminDashboard() {
     if (!confirmed) return;
 
     try {
-      const response = await fetch('/api/admin/service-status', {
+      const response = await portalFetch('/api/admin/service-status', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
-        credentials: 'include', // Use cookies instead of token
         body: JSON.stringify({ 
           action: 'toggle_module', 
           module: moduleName 
@@ -475,6 +471,56 @@ export default function AdminDashboard() {
                       <span className="text-sm text-white">Snow Removal</span>
                     </Link>
                   )}
+
+                  {isFeatureEnabled('employee-snow-removal') && (
+                    <Link
+                      href="/portal/admin/dispatch"
+                      className="flex flex-col items-center p-4 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+                    >
+                      <FaTruck className="h-8 w-8 text-cyan-400 mb-2" />
+                      <span className="text-sm text-white">Dispatch Board</span>
+                    </Link>
+                  )}
+
+                  {isFeatureEnabled('employee-projects') && (
+                    <Link
+                      href="/portal/admin/service-logs"
+                      className="flex flex-col items-center p-4 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+                    >
+                      <FaClipboardList className="h-8 w-8 text-lime-400 mb-2" />
+                      <span className="text-sm text-white">Service Logs</span>
+                    </Link>
+                  )}
+
+                  {isFeatureEnabled('employee-projects') && (
+                    <Link
+                      href="/portal/admin/inventory"
+                      className="flex flex-col items-center p-4 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+                    >
+                      <FaBoxes className="h-8 w-8 text-amber-400 mb-2" />
+                      <span className="text-sm text-white">Inventory</span>
+                    </Link>
+                  )}
+
+                  {isFeatureEnabled('employee-projects') && (
+                    <Link
+                      href="/portal/admin/timesheets"
+                      className="flex flex-col items-center p-4 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+                    >
+                      <FaClock className="h-8 w-8 text-teal-400 mb-2" />
+                      <span className="text-sm text-white">Timesheets</span>
+                    </Link>
+                  )}
+
+                  {isFeatureEnabled('admin-projects') && (
+                    <Link
+                      href="/portal/admin/invoices"
+                      className="flex flex-col items-center p-4 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+                    >
+                      <FaFileInvoiceDollar className="h-8 w-8 text-emerald-400 mb-2" />
+                      <span className="text-sm text-white">Invoices</span>
+                    </Link>
+                  )}
                   
                   {isFeatureEnabled('admin-users') && (
                     <Link
@@ -488,6 +534,46 @@ export default function AdminDashboard() {
                       <span className="text-sm text-white">User Management</span>
                     </Link>
                   )}
+
+                  {isFeatureEnabled('admin-users') && (
+                    <Link
+                      href="/portal/admin/security"
+                      className="flex flex-col items-center p-4 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+                    >
+                      <FaShieldAlt className="h-8 w-8 text-green-400 mb-2" />
+                      <span className="text-sm text-white">Security</span>
+                    </Link>
+                  )}
+
+                  {isFeatureEnabled('admin-users') && (
+                    <Link
+                      href="/portal/admin/roles"
+                      className="flex flex-col items-center p-4 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+                    >
+                      <FaUserTag className="h-8 w-8 text-pink-400 mb-2" />
+                      <span className="text-sm text-white">Roles</span>
+                    </Link>
+                  )}
+
+                  {isFeatureEnabled('admin-users') && (
+                    <Link
+                      href="/portal/admin/sessions"
+                      className="flex flex-col items-center p-4 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+                    >
+                      <FaDesktop className="h-8 w-8 text-teal-400 mb-2" />
+                      <span className="text-sm text-white">Active Sessions</span>
+                    </Link>
+                  )}
+
+                  {isFeatureEnabled('admin-users') && (
+                    <Link
+                      href="/portal/admin/login-activity"
+                      className="flex flex-col items-center p-4 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+                    >
+                      <FaUserLock className="h-8 w-8 text-orange-400 mb-2" />
+                      <span className="text-sm text-white">Sign-In Activity</span>
+                    </Link>
+                  )}
                   
                   {isFeatureEnabled('admin-employees') && (
                     <Link
@@ -0,0 +1,515 @@
+/**
+ * Admin Dispatch Board Page
+ * Open snow work orders in dispatch order, with crew assignment, completion sign-off and storm declarations
+ */
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import {
+  FaArrowLeft,
+  FaBolt,
+  FaCheckCircle,
+  FaExclamationTriangle,
+  FaMapMarkerAlt,
+  FaRedoAlt,
+  FaSnowflake,
+  FaTruck,
+  FaUser
+} from 'react-icons/fa';
+import StormProgressCard from '@/components/StormProgressCard';
+import type { WorkOrderResponse } from '@/presentation/api/WorkOrderPresenter';
+import type { StormEventResponse } from '@/presentation/api/StormEventPresenter';
+import { portalFetch } from '../../../lib/portal-fetch';
+
+const STATUS_LABELS: Record<string, string> = {
+  requested: 'Requested',
+  dispatched: 'Dispatched',
+  en_route: 'En Route',
+  on_site: 'On Site',
+  complete: 'Complete',
+  verified: 'Verified'
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  requested: 'bg-yellow-100 text-yellow-800',
+  dispatched: 'bg-blue-100 text-blue-800',
+  en_route: 'bg-indigo-100 text-indigo-800',
+  on_site: 'bg-purple-100 text-purple-800',
+  complete: 'bg-green-100 text-green-800',
+  verified: 'bg-gray-100 text-gray-800'
+};
+
+const emptyStormDraft = {
+  name: '',
+  startsAt: '',
+  expectedAccumulationInches: '',
+  triggerThresholdInches: '2'
+};
+
+const PRIORITY_COLORS: Record<string, string> = {
+  emergency: 'bg-red-600 text-white',
+  urgent: 'bg-red-100 text-red-800',
+  high: 'bg-orange-100 text-orange-800',
+  standard: 'bg-gray-100 text-gray-700'
+};
+
+export default function DispatchBoardPage() {
+  const router = useRouter();
+  const [workOrders, setWorkOrders] = useState<WorkOrderResponse[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [crew, setCrew] = useState<string[]>([]);
+  const [filterStatus, setFilterStatus] = useState<string>('board');
+  const [assignees, setAssignees] = useState<Record<string, string>>({});
+  const [storms, setStorms] = useState<StormEventResponse[]>([]);
+  const [stormFilter, setStormFilter] = useState<string>('');
+  const [stormDraft, setStormDraft] = useState(emptyStormDraft);
+  const [showStormForm, setShowStormForm] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    checkAdminAuth();
+    loadWorkOrders();
+
+    const interval = setInterval(() => {
+      loadWorkOrders();
+    }, 30000); // Poll every 30 seconds
+
+    return () => clearInterval(interval);
+  }, [filterStatus, stormFilter]);
+
+  const checkAdminAuth = async () => {
+    try {
+      const response = await portalFetch('/api/admin/dashboard');
+
+      if (!response.ok) {
+        router.push('/portal/admin/login');
+      }
+    } catch (error) {
+      console.error('Auth check failed:', error);
+      router.push('/portal/admin/login');
+    }
+  };
+
+  const loadWorkOrders = async () => {
+    try {
+      // The default board is everything open plus completed work waiting on sign-off
+      const params = new URLSearchParams();
+      if (filterStatus !== 'board') {
+        params.set('status', filterStatus);
+      }
+      if (stormFilter) {
+        params.set('stormEventId', stormFilter);
+      }
+      const [response, stormResponse] = await Promise.all([
+        portalFetch(`/api/admin/work-orders?${params.toString()}`),
+        portalFetch('/api/admin/storm-events')
+      ]);
+
+      if (response.ok) {
+        const data = await response.json();
+        setWorkOrders(data.workOrders);
+        setCounts(data.counts);
+        setCrew(data.crew);
+      }
+
+      if (stormResponse.ok) {
+        const data = await stormResponse.json();
+        setStorms(data.storms.filter((storm: StormEventResponse) => storm.status !== 'closed'));
+      }
+    } catch (error) {
+      console.error('Failed to load work orders:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateWorkOrder = async (id: string, body: Record<string, string>) => {
+    setError(null);
+    try {
+      const response = await portalFetch(`/api/admin/work-orders/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to update work order');
+        return;
+      }
+
+      await loadWorkOrders();
+    } catch (error) {
+      console.error('Failed to update work order:', error);
+      setError('Failed to update work order');
+    }
+  };
+
+  const submitStorm = async (declare: boolean) => {
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await portalFetch('/api/admin/storm-events', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...stormDraft, declare })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to save storm event');
+        return;
+      }
+
+      setStormDraft(emptyStormDraft);
+      setShowStormForm(false);
+      if (declare) {
+        setNotice(describeDeclaration(data));
+      }
+      await loadWorkOrders();
+    } catch (error) {
+      console.error('Failed to save storm event:', error);
+      setError('Failed to save storm event');
+    }
+  };
+
+  const updateStorm = async (id: string, action: 'declare' | 'close') => {
+    if (action === 'close' && !window.confirm('Close this storm? It will no longer show on the board.')) {
+      return;
+    }
+
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await portalFetch(`/api/admin/storm-events/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to update storm event');
+        return;
+      }
+
+      if (action === 'declare') {
+        setNotice(describeDeclaration(data));
+      }
+      await loadWorkOrders();
+    } catch (error) {
+      console.error('Failed to update storm event:', error);
+      setError('Failed to update storm event');
+    }
+  };
+
+  const describeDeclaration = (data: { workOrders: WorkOrderResponse[]; skipped: Array<{ contractId: string; reason: string }> }) => {
+    const skipped = data.skipped.length > 0
+      ? ` Skipped: ${data.skipped.map(entry => `${entry.contractId} (${entry.reason})`).join(', ')}.`
+      : '';
+    return `Storm declared - ${data.workOrders.length} work order(s) created.${skipped}`;
+  };
+
+  const handleDispatch = (workOrder: WorkOrderResponse) => {
+    const assignee = (assignees[workOrder.id] ?? workOrder.assignedTo ?? '').trim();
+    if (!assignee) {
+      setError('Enter the crew member to dispatch to');
+      return;
+    }
+    updateWorkOrder(workOrder.id, { action: 'dispatch', assignee });
+  };
+
+  const handleSendBack = (workOrder: WorkOrderResponse) => {
+    const reason = window.prompt('What still needs to be done?');
+    if (reason) {
+      updateWorkOrder(workOrder.id, { action: 'send_back', reason });
+    }
+  };
+
+  const formatDate = (value: string) =>
+    new Date(`${value}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading dispatch board...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Dispatch Board | Admin Portal</title>
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-screen bg-gray-100">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Header */}
+          <div className="mb-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Dispatch Board</h1>
+                <p className="text-gray-600 mt-1">Snow work orders by priority and scheduled date</p>
+              </div>
+              <button
+                onClick={() => router.push('/portal/admin/dashboard')}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <FaArrowLeft className="mr-2" />
+                Back to Admin Portal
+              </button>
+            </div>
+          </div>
+
+          {/* Summary Cards */}
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-6">
+            {Object.keys(STATUS_LABELS).map(status => (
+              <button
+                key={status}
+                onClick={() => setFilterStatus(filterStatus === status ? 'board' : status)}
+                className={`bg-white rounded-lg shadow p-4 text-left ${filterStatus === status ? 'ring-2 ring-blue-500' : ''}`}
+              >
+                <p className="text-sm text-gray-600">{STATUS_LABELS[status]}</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {filterStatus === 'board' || filterStatus === status ? counts[status] ?? 0 : '–'}
+                </p>
+              </button>
+            ))}
+          </div>
+
+          {/* Storms */}
+          <div className="mb-6 space-y-3">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900">Storm Events</h2>
+              <button
+                onClick={() => setShowStormForm(!showStormForm)}
+                className="flex items-center px-3 py-1.5 bg-indigo-600 text-white rounded text-sm hover:bg-indigo-700"
+              >
+                <FaSnowflake className="mr-1" />
+                New Storm
+              </button>
+            </div>
+
+            {showStormForm && (
+              <div className="bg-white rounded-lg shadow p-4 grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+                <label className="text-sm text-gray-700">
+                  Name
+                  <input
+                    type="text"
+                    value={stormDraft.name}
+                    onChange={(e) => setStormDraft({ ...stormDraft, name: e.target.value })}
+                    className="mt-1 w-full px-3 py-1.5 border border-gray-300 rounded"
+                  />
+                </label>
+                <label className="text-sm text-gray-700">
+                  Starts
+                  <input
+                    type="datetime-local"
+                    value={stormDraft.startsAt}
+                    onChange={(e) => setStormDraft({ ...stormDraft, startsAt: e.target.value })}
+                    className="mt-1 w-full px-3 py-1.5 border border-gray-300 rounded"
+                  />
+                </label>
+                <label className="text-sm text-gray-700">
+                  Expected (in)
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={stormDraft.expectedAccumulationInches}
+                    onChange={(e) => setStormDraft({ ...stormDraft, expectedAccumulationInches: e.target.value })}
+                    className="mt-1 w-full px-3 py-1.5 border border-gray-300 rounded"
+                  />
+                </label>
+                <label className="text-sm text-gray-700">
+                  Default trigger (in)
+                  <input
+                    type="number"
+                    min="0.5"
+                    step="0.5"
+                    value={stormDraft.triggerThresholdInches}
+                    onChange={(e) => setStormDraft({ ...stormDraft, triggerThresholdInches: e.target.value })}
+                    className="mt-1 w-full px-3 py-1.5 border border-gray-300 rounded"
+                  />
+                </label>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => submitStorm(false)}
+                    className="px-3 py-1.5 bg-gray-200 text-gray-800 rounded text-sm hover:bg-gray-300"
+                  >
+                    Save Forecast
+                  </button>
+                  <button
+                    onClick={() => submitStorm(true)}
+                    className="flex items-center px-3 py-1.5 bg-red-600 text-white rounded text-sm hover:bg-red-700"
+                  >
+                    <FaBolt className="mr-1" />
+                    Declare
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {storms.map(storm => (
+              <StormProgressCard
+                key={storm.id}
+                storm={storm}
+                action={
+                  <>
+                    {storm.status === 'forecast' ? (
+                      <button
+                        onClick={() => updateStorm(storm.id, 'declare')}
+                        className="flex items-center px-2 py-1 bg-red-600 text-white rounded text-xs hover:bg-red-700"
+                      >
+                        <FaBolt className="mr-1" />
+                        Declare
+                      </button>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => setStormFilter(stormFilter === storm.id ? '' : storm.id)}
+                          className={`px-2 py-1 rounded text-xs ${stormFilter === storm.id ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+                        >
+                          {stormFilter === storm.id ? 'Show All' : 'Show Runs'}
+                        </button>
+                        <button
+                          onClick={() => updateStorm(storm.id, 'close')}
+                          className="px-2 py-1 bg-gray-100 text-gray-700 rounded text-xs hover:bg-gray-200"
+                        >
+                          Close
+                        </button>
+                      </>
+                    )}
+                  </>
+                }
+              />
+            ))}
+          </div>
+
+          {notice && (
+            <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg text-blue-800">
+              {notice}
+            </div>
+          )}
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center text-red-700">
+              <FaExclamationTriangle className="mr-2" />
+              {error}
+            </div>
+          )}
+
+          <datalist id="crew-members">
+            {crew.map(email => <option key={email} value={email} />)}
+          </datalist>
+
+          {/* Work Orders */}
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            {workOrders.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">
+                <FaSnowflake className="mx-auto text-4xl mb-2 text-blue-300" />
+                No work orders to show
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {workOrders.map(workOrder => (
+                  <li key={workOrder.id} className="p-4">
+                    <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-4">
+                      <div className="flex-1">
+                        <div className="flex flex-wrap items-center gap-2 mb-1">
+                          <span className={`px-2 py-0.5 rounded text-xs font-semibold uppercase ${PRIORITY_COLORS[workOrder.priority]}`}>
+                            {workOrder.priority}
+                          </span>
+                          <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_COLORS[workOrder.status]}`}>
+                            {STATUS_LABELS[workOrder.status]}
+                          </span>
+                          <span className="text-sm text-gray-500">{formatDate(workOrder.scheduledDate)}</span>
+                          {workOrder.storm && (
+                            <span className="px-2 py-0.5 rounded text-xs bg-indigo-100 text-indigo-800">
+                              {workOrder.storm.route} · stop {workOrder.storm.sequence}
+                            </span>
+                          )}
+                        </div>
+                        <h3 className="font-semibold text-gray-900">
+                          {workOrder.propertyCode} · {workOrder.clientName}
+                        </h3>
+                        <p className="text-sm text-gray-600 flex items-center">
+                          <FaMapMarkerAlt className="mr-1" />
+                          {workOrder.serviceAddress} {workOrder.zipCode}
+                        </p>
+                        <p className="text-sm text-gray-600 mt-1">
+                          {workOrder.serviceType.replace(/-/g, ' ')} · {workOrder.estimatedHours}h
+                          {workOrder.equipmentRequired.length > 0 && ` · ${workOrder.equipmentRequired.join(', ')}`}
+                        </p>
+                        {workOrder.specialInstructions && (
+                          <p className="text-sm text-gray-700 mt-1">{workOrder.specialInstructions}</p>
+                        )}
+                        {workOrder.completionNotes && (
+                          <p className="text-sm text-green-700 mt-1">Crew notes: {workOrder.completionNotes}</p>
+                        )}
+                        {workOrder.assignedTo && (
+                          <p className="text-sm text-gray-500 mt-1 flex items-center">
+                            <FaUser className="mr-1" />
+                            {workOrder.assignedTo}
+                          </p>
+                        )}
+                      </div>
+
+                      <div className="flex flex-wrap items-center gap-2">
+                        {['requested', 'dispatched', 'en_route'].includes(workOrder.status) && (
+                          <>
+                            <input
+                              type="email"
+                              list="crew-members"
+                              placeholder="crew@email.com"
+                              value={assignees[workOrder.id] ?? workOrder.assignedTo ?? ''}
+                              onChange={(e) => setAssignees({ ...assignees, [workOrder.id]: e.target.value })}
+                              className="px-3 py-1.5 border border-gray-300 rounded text-sm"
+                            />
+                            <button
+                              onClick={() => handleDispatch(workOrder)}
+                              className="flex items-center px-3 py-1.5 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+                            >
+                              <FaTruck className="mr-1" />
+                              {workOrder.assignedTo ? 'Reassign' : 'Dispatch'}
+                            </button>
+                          </>
+                        )}
+                        {workOrder.status === 'complete' && (
+                          <>
+                            <button
+                              onClick={() => updateWorkOrder(workOrder.id, { action: 'verify' })}
+                              className="flex items-center px-3 py-1.5 bg-green-600 text-white rounded text-sm hover:bg-green-700"
+                            >
+                              <FaCheckCircle className="mr-1" />
+                              Verify
+                            </button>
+                            <button
+                              onClick={() => handleSendBack(workOrder)}
+                              className="flex items-center px-3 py-1.5 bg-orange-500 text-white rounded text-sm hover:bg-orange-600"
+                            >
+                              <FaRedoAlt className="mr-1" />
+                              Send Back
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
\ No newline at end of file
@@ -14,6 +14,7 @@ import {
   FaUpload,
   FaClipboardCheck
 } from 'react-icons/fa';
+import { portalFetch } from '../../../lib/portal-fetch';
 
 export default function EmployeeTools() {
   const router = useRouter();
@@ -25,18 +26,8 @@ export default function EmployeeTools() {
   }, []);
 
   const checkAdminAuth = async () => {
-    const token = localStorage.getItem('accessToken');
-    if (!token) {
-      router.push('/portal/admin/login');
-      return;
-    }
-
     try {
-      const response = await fetch('/api/admin/dashboard', {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const response = await portalFetch('/api/admin/dashboard');
 
       if (response.ok) {
         const data = await response.json();
@@ -0,0 +1,599 @@
+/**
+ * Admin Inventory Page
+ * Material stock per yard with reorder flags, and the equipment registry with crew check-outs and maintenance due dates
+ */
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import {
+  FaArrowLeft,
+  FaBoxes,
+  FaCheckCircle,
+  FaExclamationTriangle,
+  FaPlus,
+  FaTools,
+  FaTruck,
+  FaUndoAlt
+} from 'react-icons/fa';
+import type { EquipmentResponse, InventoryItemResponse } from '@/presentation/api/InventoryPresenter';
+import { portalFetch } from '../../../lib/portal-fetch';
+
+const MATERIAL_OPTIONS = [
+  { value: '', label: 'Not drawn down by service logs' },
+  { value: 'iceMeltBags', label: 'Ice melt (bags)' },
+  { value: 'deicerGallons', label: 'Liquid deicer (gallons)' },
+  { value: 'iceSlicerTons', label: 'Ice slicer (tons)' }
+];
+
+const EQUIPMENT_STATUS_LABELS: Record<string, string> = {
+  available: 'Available',
+  checked_out: 'Checked Out',
+  in_maintenance: 'In Maintenance',
+  retired: 'Retired'
+};
+
+const EQUIPMENT_STATUS_COLORS: Record<string, string> = {
+  available: 'bg-green-100 text-green-800',
+  checked_out: 'bg-blue-100 text-blue-800',
+  in_maintenance: 'bg-yellow-100 text-yellow-800',
+  retired: 'bg-gray-100 text-gray-600'
+};
+
+const emptyItemDraft = {
+  sku: '',
+  yard: '',
+  name: '',
+  unit: '',
+  material: '',
+  openingQuantity: '0',
+  reorderThreshold: '0',
+  reorderQuantity: '0'
+};
+
+const emptyEquipmentDraft = {
+  assetTag: '',
+  name: '',
+  category: 'Snow Plow',
+  yard: '',
+  maintenanceIntervalDays: '90'
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+export default function InventoryPage() {
+  const router = useRouter();
+  const [items, setItems] = useState<InventoryItemResponse[]>([]);
+  const [yards, setYards] = useState<string[]>([]);
+  const [yardFilter, setYardFilter] = useState('');
+  const [reorderCount, setReorderCount] = useState(0);
+  const [equipment, setEquipment] = useState<EquipmentResponse[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [maintenanceOverdueCount, setMaintenanceOverdueCount] = useState(0);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [crewInputs, setCrewInputs] = useState<Record<string, string>>({});
+  const [itemDraft, setItemDraft] = useState(emptyItemDraft);
+  const [equipmentDraft, setEquipmentDraft] = useState(emptyEquipmentDraft);
+  const [showItemForm, setShowItemForm] = useState(false);
+  const [showEquipmentForm, setShowEquipmentForm] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    checkAdminAuth();
+    loadInventory();
+  }, [yardFilter]);
+
+  const checkAdminAuth = async () => {
+    try {
+      const response = await portalFetch('/api/admin/dashboard');
+
+      if (!response.ok) {
+        router.push('/portal/admin/login');
+      }
+    } catch (error) {
+      console.error('Auth check failed:', error);
+      router.push('/portal/admin/login');
+    }
+  };
+
+  const loadInventory = async () => {
+    try {
+      const params = new URLSearchParams();
+      if (yardFilter) {
+        params.set('yard', yardFilter);
+      }
+      const [itemResponse, equipmentResponse] = await Promise.all([
+        portalFetch(`/api/admin/inventory?${params.toString()}`),
+        portalFetch('/api/admin/equipment')
+      ]);
+
+      if (itemResponse.ok) {
+        const data = await itemResponse.json();
+        setItems(data.items);
+        setYards(data.yards);
+        setReorderCount(data.reorderCount);
+      }
+
+      if (equipmentResponse.ok) {
+        const data = await equipmentResponse.json();
+        setEquipment(yardFilter
+          ? data.equipment.filter((asset: EquipmentResponse) => asset.yard === yardFilter)
+          : data.equipment);
+        setCategories(data.categories);
+        setMaintenanceOverdueCount(data.maintenanceOverdueCount);
+      }
+    } catch (error) {
+      console.error('Failed to load inventory:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const send = async (url: string, method: string, body: Record<string, unknown>, failure: string): Promise<boolean> => {
+    setError(null);
+    try {
+      const response = await portalFetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || failure);
+        return false;
+      }
+
+      await loadInventory();
+      return true;
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      setError(failure);
+      return false;
+    }
+  };
+
+  const adjustStock = async (item: InventoryItemResponse, action: 'restock' | 'count') => {
+    const quantity = quantities[item.id]?.trim();
+    if (!quantity) {
+      setError(action === 'restock' ? 'Enter the quantity received' : 'Enter the quantity counted');
+      return;
+    }
+
+    if (await send(`/api/admin/inventory/${item.id}`, 'PATCH', { action, quantity: Number(quantity) }, 'Failed to update stock')) {
+      setQuantities(prev => ({ ...prev, [item.id]: '' }));
+    }
+  };
+
+  const addItem = async () => {
+    const saved = await send('/api/admin/inventory', 'POST', {
+      ...itemDraft,
+      material: itemDraft.material || undefined,
+      openingQuantity: Number(itemDraft.openingQuantity),
+      reorderThreshold: Number(itemDraft.reorderThreshold),
+      reorderQuantity: Number(itemDraft.reorderQuantity)
+    }, 'Failed to add inventory item');
+
+    if (saved) {
+      setItemDraft(emptyItemDraft);
+      setShowItemForm(false);
+    }
+  };
+
+  const updateEquipment = async (asset: EquipmentResponse, body: Record<string, unknown>) => {
+    if (body.action === 'retire' && !window.confirm(`Retire ${asset.assetTag}? It can no longer be checked out.`)) {
+      return;
+    }
+
+    if (await send(`/api/admin/equipment/${asset.id}`, 'PATCH', body, 'Failed to update equipment')) {
+      setCrewInputs(prev => ({ ...prev, [asset.id]: '' }));
+    }
+  };
+
+  const addEquipment = async () => {
+    const saved = await send('/api/admin/equipment', 'POST', {
+      ...equipmentDraft,
+      maintenanceIntervalDays: Number(equipmentDraft.maintenanceIntervalDays)
+    }, 'Failed to register equipment');
+
+    if (saved) {
+      setEquipmentDraft(emptyEquipmentDraft);
+      setShowEquipmentForm(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading inventory...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Inventory | Admin Portal</title>
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-screen bg-gray-100">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Header */}
+          <div className="mb-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Inventory &amp; Equipment</h1>
+                <p className="text-gray-600 mt-1">Material stock by yard and the equipment crews check out</p>
+              </div>
+              <button
+                onClick={() => router.push('/portal/admin/dashboard')}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <FaArrowLeft className="mr-2" />
+                Back to Admin Portal
+              </button>
+            </div>
+          </div>
+
+          {/* Summary Cards */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div className="bg-white rounded-lg shadow p-4">
+              <p className="text-sm text-gray-600">Material SKUs</p>
+              <p className="text-2xl font-bold text-gray-900">{items.length}</p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-4">
+              <p className="text-sm text-gray-600">At or Below Reorder Point</p>
+              <p className={`text-2xl font-bold ${reorderCount > 0 ? 'text-red-600' : 'text-gray-900'}`}>{reorderCount}</p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-4">
+              <p className="text-sm text-gray-600">Equipment Checked Out</p>
+              <p className="text-2xl font-bold text-gray-900">
+                {equipment.filter(asset => asset.status === 'checked_out').length}
+              </p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-4">
+              <p className="text-sm text-gray-600">Maintenance Overdue</p>
+              <p className={`text-2xl font-bold ${maintenanceOverdueCount > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                {maintenanceOverdueCount}
+              </p>
+            </div>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center text-red-700">
+              <FaExclamationTriangle className="mr-2" />
+              {error}
+            </div>
+          )}
+
+          {/* Materials */}
+          <div className="mb-8 space-y-3">
+            <div className="flex items-center justify-between">
+              <h2 className="flex items-center text-lg font-semibold text-gray-900">
+                <FaBoxes className="mr-2 text-gray-500" />
+                Materials
+              </h2>
+              <div className="flex items-center gap-2">
+                <select
+                  value={yardFilter}
+                  onChange={(e) => setYardFilter(e.target.value)}
+                  className="px-3 py-1.5 border border-gray-300 rounded text-sm"
+                >
+                  <option value="">All yards</option>
+                  {yards.map(yard => (
+                    <option key={yard} value={yard}>{yard}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setShowItemForm(!showItemForm)}
+                  className="flex items-center px-3 py-1.5 bg-indigo-600 text-white rounded text-sm hover:bg-indigo-700"
+                >
+                  <FaPlus className="mr-1" />
+                  Add SKU
+                </button>
+              </div>
+            </div>
+
+            {showItemForm && (
+              <div className="bg-white rounded-lg shadow p-4 grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                {([
+                  ['sku', 'SKU', 'text'],
+                  ['yard', 'Yard', 'text'],
+                  ['name', 'Name', 'text'],
+                  ['unit', 'Unit', 'text'],
+                  ['openingQuantity', 'Opening quantity', 'number'],
+                  ['reorderThreshold', 'Reorder at', 'number'],
+                  ['reorderQuantity', 'Reorder quantity', 'number']
+                ] as const).map(([field, label, type]) => (
+                  <label key={field} className="text-sm text-gray-700">
+                    {label}
+                    <input
+                      type={type}
+                      min={type === 'number' ? '0' : undefined}
+                      list={field === 'yard' ? 'inventory-yards' : undefined}
+                      value={itemDraft[field]}
+                      onChange={(e) => setItemDraft({ ...itemDraft, [field]: e.target.value })}
+                      className="mt-1 w-full px-3 py-1.5 border border-gray-300 rounded"
+                    />
+                  </label>
+                ))}
+                <label className="text-sm text-gray-700">
+                  Service log material
+                  <select
+                    value={itemDraft.material}
+                    onChange={(e) => setItemDraft({ ...itemDraft, material: e.target.value })}
+                    className="mt-1 w-full px-3 py-1.5 border border-gray-300 rounded"
+                  >
+                    {MATERIAL_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </label>
+                <button
+                  onClick={addItem}
+                  className="px-3 py-1.5 bg-green-600 text-white rounded text-sm hover:bg-green-700"
+                >
+                  Save SKU
+                </button>
+              </div>
+            )}
+
+            <datalist id="inventory-yards">
+              {yards.map(yard => <option key={yard} value={yard} />)}
+            </datalist>
+
+            <div className="bg-white rounded-lg shadow overflow-x-auto">
+              {items.length === 0 ? (
+                <p className="p-6 text-center text-gray-500">No material SKUs are tracked yet.</p>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium text-gray-600">SKU</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-600">Yard</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-600">Material</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-600">On Hand</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-600">Reorder At</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-600">Adjust</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {items.map(item => (
+                      <tr key={item.id} className={item.needsReorder ? 'bg-red-50' : ''}>
+                        <td className="px-4 py-2 font-mono">{item.sku}</td>
+                        <td className="px-4 py-2">{item.yard}</td>
+                        <td className="px-4 py-2">
+                          <p className="text-gray-900">{item.name}</p>
+                          {item.materialName && <p className="text-xs text-gray-500">Drawn down by: {item.materialName}</p>}
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          <span className="font-semibold">{item.onHand}</span> {item.unit}
+                          {item.needsReorder && (
+                            <span className="ml-2 px-2 py-0.5 rounded text-xs bg-red-100 text-red-800">
+                              Reorder {item.reorderQuantity}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-right">{item.reorderThreshold}</td>
+                        <td className="px-4 py-2">
+                          <div className="flex items-center gap-2">
+                            <input
+                              type="number"
+                              min="0"
+                              value={quantities[item.id] ?? ''}
+                              onChange={(e) => setQuantities(prev => ({ ...prev, [item.id]: e.target.value }))}
+                              placeholder="Qty"
+                              className="w-20 px-2 py-1 border border-gray-300 rounded"
+                            />
+                            <button
+                              onClick={() => adjustStock(item, 'restock')}
+                              className="px-2 py-1 bg-green-600 text-white rounded text-xs hover:bg-green-700"
+                            >
+                              Restock
+                            </button>
+                            <button
+                              onClick={() => adjustStock(item, 'count')}
+                              className="px-2 py-1 bg-gray-100 text-gray-700 rounded text-xs hover:bg-gray-200"
+                            >
+                              Count
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+
+          {/* Equipment */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h2 className="flex items-center text-lg font-semibold text-gray-900">
+                <FaTruck className="mr-2 text-gray-500" />
+                Equipment
+              </h2>
+              <button
+                onClick={() => setShowEquipmentForm(!showEquipmentForm)}
+                className="flex items-center px-3 py-1.5 bg-indigo-600 text-white rounded text-sm hover:bg-indigo-700"
+              >
+                <FaPlus className="mr-1" />
+                Register Equipment
+              </button>
+            </div>
+
+            {showEquipmentForm && (
+              <div className="bg-white rounded-lg shadow p-4 grid grid-cols-1 md:grid-cols-6 gap-3 items-end">
+                <label className="text-sm text-gray-700">
+                  Asset tag
+                  <input
+                    type="text"
+                    value={equipmentDraft.assetTag}
+                    onChange={(e) => setEquipmentDraft({ ...equipmentDraft, assetTag: e.target.value })}
+                    className="mt-1 w-full px-3 py-1.5 border border-gray-300 rounded"
+                  />
+                </label>
+                <label className="text-sm text-gray-700">
+                  Name
+                  <input
+                    type="text"
+                    value={equipmentDraft.name}
+                    onChange={(e) => setEquipmentDraft({ ...equipmentDraft, name: e.target.value })}
+                    className="mt-1 w-full px-3 py-1.5 border border-gray-300 rounded"
+                  />
+                </label>
+                <label className="text-sm text-gray-700">
+                  Category
+                  <select
+                    value={equipmentDraft.category}
+                    onChange={(e) => setEquipmentDraft({ ...equipmentDraft, category: e.target.value })}
+                    className="mt-1 w-full px-3 py-1.5 border border-gray-300 rounded"
+                  >
+                    {categories.map(category => (
+                      <option key={category} value={category}>{category}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-sm text-gray-700">
+                  Yard
+                  <input
+                    type="text"
+                    list="inventory-yards"
+                    value={equipmentDraft.yard}
+                    onChange={(e) => setEquipmentDraft({ ...equipmentDraft, yard: e.target.value })}
+                    className="mt-1 w-full px-3 py-1.5 border border-gray-300 rounded"
+                  />
+                </label>
+                <label className="text-sm text-gray-700">
+                  Service every (days)
+                  <input
+                    type="number"
+                    min="1"
+                    max="730"
+                    value={equipmentDraft.maintenanceIntervalDays}
+                    onChange={(e) => setEquipmentDraft({ ...equipmentDraft, maintenanceIntervalDays: e.target.value })}
+                    className="mt-1 w-full px-3 py-1.5 border border-gray-300 rounded"
+                  />
+                </label>
+                <button
+                  onClick={addEquipment}
+                  className="px-3 py-1.5 bg-green-600 text-white rounded text-sm hover:bg-green-700"
+                >
+                  Save Equipment
+                </button>
+              </div>
+            )}
+
+            <div className="bg-white rounded-lg shadow overflow-x-auto">
+              {equipment.length === 0 ? (
+                <p className="p-6 text-center text-gray-500">No equipment is registered yet.</p>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium text-gray-600">Asset</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-600">Yard</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-600">Status</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-600">Maintenance Due</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-600">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {equipment.map(asset => (
+                      <tr key={asset.id}>
+                        <td className="px-4 py-2">
+                          <p className="font-mono">{asset.assetTag}</p>
+                          <p className="text-xs text-gray-500">{asset.name} · {asset.category}</p>
+                        </td>
+                        <td className="px-4 py-2">{asset.yard}</td>
+                        <td className="px-4 py-2">
+                          <span className={`px-2 py-0.5 rounded text-xs ${EQUIPMENT_STATUS_COLORS[asset.status]}`}>
+                            {EQUIPMENT_STATUS_LABELS[asset.status] || asset.status}
+                          </span>
+                          {asset.checkedOutTo && (
+                            <p className="text-xs text-gray-500 mt-1">
+                              {asset.checkedOutTo}
+                              {asset.dueBackAt && ` · back ${formatDate(asset.dueBackAt)}`}
+                            </p>
+                          )}
+                        </td>
+                        <td className={`px-4 py-2 ${asset.maintenanceOverdue ? 'text-red-600 font-semibold' : ''}`}>
+                          {asset.status === 'retired' ? '–' : formatDate(asset.maintenanceDueAt)}
+                          {asset.maintenanceOverdue && <span className="ml-1 text-xs">(overdue)</span>}
+                          <p className="text-xs text-gray-500 font-normal">Every {asset.maintenanceIntervalDays} days</p>
+                        </td>
+                        <td className="px-4 py-2">
+                          <div className="flex flex-wrap items-center gap-2">
+                            {asset.status === 'available' && !asset.maintenanceOverdue && (
+                              <>
+                                <input
+                                  type="text"
+                                  value={crewInputs[asset.id] ?? ''}
+                                  onChange={(e) => setCrewInputs(prev => ({ ...prev, [asset.id]: e.target.value }))}
+                                  placeholder="Crew member"
+                                  className="w-40 px-2 py-1 border border-gray-300 rounded"
+                                />
+                                <button
+                                  onClick={() => updateEquipment(asset, { action: 'check_out', crew: crewInputs[asset.id] })}
+                                  className="flex items-center px-2 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700"
+                                >
+                                  <FaTruck className="mr-1" />
+                                  Check Out
+                                </button>
+                              </>
+                            )}
+                            {asset.status === 'checked_out' && (
+                              <button
+                                onClick={() => updateEquipment(asset, { action: 'check_in' })}
+                                className="flex items-center px-2 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700"
+                              >
+                                <FaUndoAlt className="mr-1" />
+                                Check In
+                              </button>
+                            )}
+                            {asset.status === 'available' && (
+                              <button
+                                onClick={() => updateEquipment(asset, { action: 'start_maintenance' })}
+                                className="flex items-center px-2 py-1 bg-yellow-500 text-white rounded text-xs hover:bg-yellow-600"
+                              >
+                                <FaTools className="mr-1" />
+                                Send to Shop
+                              </button>
+                            )}
+                            {(asset.status === 'in_maintenance' || (asset.status === 'available' && asset.maintenanceOverdue)) && (
+                              <button
+                                onClick={() => updateEquipment(asset, { action: 'complete_maintenance' })}
+                                className="flex items-center px-2 py-1 bg-green-600 text-white rounded text-xs hover:bg-green-700"
+                              >
+                                <FaCheckCircle className="mr-1" />
+                                Serviced
+                              </button>
+                            )}
+                            {asset.status !== 'checked_out' && asset.status !== 'retired' && (
+                              <button
+                                onClick={() => updateEquipment(asset, { action: 'retire' })}
+                                className="px-2 py-1 bg-gray-100 text-gray-700 rounded text-xs hover:bg-gray-200"
+                              >
+                                Retire
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,664 @@
+/**
+ * Admin Invoices Page
+ * Generates invoices from approved service logs, sends the PDF to the customer, records payments and voids issued invoices
+ */
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import {
+  FaArrowLeft,
+  FaBan,
+  FaDollarSign,
+  FaFilePdf,
+  FaFileInvoiceDollar,
+  FaPaperPlane,
+  FaPlus,
+  FaTrash
+} from 'react-icons/fa';
+import type { InvoiceResponse, InvoiceSummaryResponse } from '@/presentation/api/InvoicePresenter';
+import { portalFetch } from '../../../lib/portal-fetch';
+
+const STATUS_TABS: Array<{ value: string; label: string }> = [
+  { value: '', label: 'All' },
+  { value: 'draft', label: 'Draft' },
+  { value: 'sent', label: 'Sent' },
+  { value: 'partially_paid', label: 'Partially Paid' },
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'paid', label: 'Paid' },
+  { value: 'void', label: 'Void' }
+];
+
+const STATUS_COLORS: Record<string, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  sent: 'bg-blue-100 text-blue-800',
+  partially_paid: 'bg-yellow-100 text-yellow-800',
+  overdue: 'bg-red-100 text-red-800',
+  paid: 'bg-green-100 text-green-800',
+  void: 'bg-gray-200 text-gray-600'
+};
+
+const PAYMENT_METHODS: Array<{ value: string; label: string }> = [
+  { value: 'check', label: 'Check' },
+  { value: 'ach', label: 'ACH' },
+  { value: 'card', label: 'Card' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'other', label: 'Other' }
+];
+
+interface GenerateForm {
+  contractId: string;
+  periodStart: string;
+  periodEnd: string;
+  billingBasis: string;
+  seasonInstallments: string;
+  pushRate: string;
+}
+
+interface PaymentForm {
+  amount: string;
+  method: string;
+  receivedAt: string;
+  reference: string;
+}
+
+interface AdjustmentForm {
+  description: string;
+  amount: string;
+}
+
+const formatCurrency = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyGenerateForm = (): GenerateForm => ({
+  contractId: '',
+  periodStart: '',
+  periodEnd: today(),
+  billingBasis: '',
+  seasonInstallments: '1',
+  pushRate: ''
+});
+
+export default function InvoicesPage() {
+  const router = useRouter();
+  const [invoices, setInvoices] = useState<InvoiceResponse[]>([]);
+  const [summary, setSummary] = useState<InvoiceSummaryResponse | null>(null);
+  const [filterStatus, setFilterStatus] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [generateForm, setGenerateForm] = useState<GenerateForm>(emptyGenerateForm);
+  const [payments, setPayments] = useState<Record<string, PaymentForm>>({});
+  const [adjustments, setAdjustments] = useState<Record<string, AdjustmentForm>>({});
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    checkAdminAuth();
+    loadInvoices();
+  }, [filterStatus]);
+
+  const checkAdminAuth = async () => {
+    try {
+      const response = await portalFetch('/api/admin/dashboard');
+
+      if (!response.ok) {
+        router.push('/portal/admin/login');
+      }
+    } catch (error) {
+      console.error('Auth check failed:', error);
+      router.push('/portal/admin/login');
+    }
+  };
+
+  const loadInvoices = async () => {
+    try {
+      const params = new URLSearchParams();
+      if (filterStatus) params.set('status', filterStatus);
+      const response = await portalFetch(`/api/admin/invoices?${params.toString()}`);
+
+      if (response.ok) {
+        const data = await response.json();
+        setInvoices(data.invoices);
+        setSummary(data.summary);
+      }
+    } catch (error) {
+      console.error('Failed to load invoices:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const generateInvoice = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setWorking(true);
+    try {
+      const response = await portalFetch('/api/admin/invoices', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          contractId: generateForm.contractId,
+          periodStart: generateForm.periodStart,
+          periodEnd: generateForm.periodEnd,
+          billingBasis: generateForm.billingBasis || undefined,
+          seasonInstallments: generateForm.billingBasis === 'per_season' ? Number(generateForm.seasonInstallments) : undefined,
+          pushRate: generateForm.billingBasis === 'per_push' && generateForm.pushRate ? Number(generateForm.pushRate) : undefined
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to generate invoice');
+        return;
+      }
+
+      setGenerateForm(emptyGenerateForm());
+      setExpanded(data.invoice.id);
+      await loadInvoices();
+    } catch (error) {
+      console.error('Failed to generate invoice:', error);
+      setError('Failed to generate invoice');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const updateInvoice = async (invoice: InvoiceResponse, body: Record<string, unknown>) => {
+    setError(null);
+    setWorking(true);
+    try {
+      const response = await portalFetch(`/api/admin/invoices/${invoice.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+
+      // A failed email still leaves the invoice issued, so reload either way
+      await loadInvoices();
+      if (!response.ok) {
+        setError(data.error || 'Failed to update invoice');
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Failed to update invoice:', error);
+      setError('Failed to update invoice');
+      return false;
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const sendInvoice = async (invoice: InvoiceResponse) => {
+    const verb = invoice.status === 'draft' ? 'Issue and email' : 'Re-send';
+    if (!confirm(`${verb} ${invoice.invoiceNumber} to ${invoice.sentTo || invoice.billTo.email}?`)) return;
+    await updateInvoice(invoice, { action: 'send' });
+  };
+
+  const voidInvoice = async (invoice: InvoiceResponse) => {
+    const reason = window.prompt(`Why is ${invoice.invoiceNumber} being voided? Its service logs can be billed again.`);
+    if (!reason || !reason.trim()) return;
+    await updateInvoice(invoice, { action: 'void', reason });
+  };
+
+  const deleteInvoice = async (invoice: InvoiceResponse) => {
+    if (!confirm(`Delete draft ${invoice.invoiceNumber}? Its service logs can be billed again.`)) return;
+
+    setError(null);
+    try {
+      const response = await portalFetch(`/api/admin/invoices/${invoice.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Failed to delete invoice');
+        return;
+      }
+      await loadInvoices();
+    } catch (error) {
+      console.error('Failed to delete invoice:', error);
+      setError('Failed to delete invoice');
+    }
+  };
+
+  const recordPayment = async (invoice: InvoiceResponse) => {
+    const payment = payments[invoice.id] || { amount: '', method: 'check', receivedAt: today(), reference: '' };
+    const recorded = await updateInvoice(invoice, {
+      action: 'record_payment',
+      amount: Number(payment.amount),
+      method: payment.method,
+      receivedAt: payment.receivedAt,
+      reference: payment.reference || undefined
+    });
+    if (recorded) {
+      setPayments(prev => ({ ...prev, [invoice.id]: { amount: '', method: 'check', receivedAt: today(), reference: '' } }));
+    }
+  };
+
+  const addAdjustment = async (invoice: InvoiceResponse) => {
+    const adjustment = adjustments[invoice.id] || { description: '', amount: '' };
+    const added = await updateInvoice(invoice, {
+      action: 'add_adjustment',
+      description: adjustment.description,
+      amount: Number(adjustment.amount)
+    });
+    if (added) {
+      setAdjustments(prev => ({ ...prev, [invoice.id]: { description: '', amount: '' } }));
+    }
+  };
+
+  const downloadPdf = async (invoice: InvoiceResponse) => {
+    setError(null);
+    try {
+      const response = await portalFetch(`/api/admin/invoices/${invoice.id}/pdf`);
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Failed to download invoice');
+        return;
+      }
+
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || `${invoice.invoiceNumber}.pdf`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to download invoice:', error);
+      setError('Failed to download invoice');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading invoices...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Invoices | Admin Portal</title>
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-screen bg-gray-100">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Header */}
+          <div className="mb-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Invoices</h1>
+                <p className="text-gray-600 mt-1">
+                  Bill contracts from approved service logs, email the invoice PDF and record payments received.
+                </p>
+              </div>
+              <button
+                onClick={() => router.push('/portal/admin/dashboard')}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <FaArrowLeft className="mr-2" />
+                Back to Admin Portal
+              </button>
+            </div>
+          </div>
+
+          {/* Balances */}
+          {summary && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+              <div className="bg-white rounded-lg shadow p-4">
+                <p className="text-sm text-gray-500">Outstanding</p>
+                <p className="text-2xl font-bold text-gray-900">{formatCurrency(summary.outstandingBalance)}</p>
+              </div>
+              <div className="bg-white rounded-lg shadow p-4">
+                <p className="text-sm text-gray-500">Overdue</p>
+                <p className="text-2xl font-bold text-red-600">{formatCurrency(summary.overdueBalance)}</p>
+              </div>
+              <div className="bg-white rounded-lg shadow p-4">
+                <p className="text-sm text-gray-500">Drafts waiting to send</p>
+                <p className="text-2xl font-bold text-gray-900">{summary.counts.draft ?? 0}</p>
+              </div>
+            </div>
+          )}
+
+          {/* Generate */}
+          <form onSubmit={generateInvoice} className="bg-white rounded-lg shadow p-4 mb-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-3">Generate invoice</h2>
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-3 text-sm">
+              <label className="flex flex-col">
+                <span className="text-gray-500 mb-1">Contract ID</span>
+                <input
+                  type="text"
+                  required
+                  value={generateForm.contractId}
+                  onChange={(e) => setGenerateForm(prev => ({ ...prev, contractId: e.target.value }))}
+                  placeholder="e.g. SR-2026-0001"
+                  className="px-3 py-1.5 border border-gray-300 rounded"
+                />
+              </label>
+              <label className="flex flex-col">
+                <span className="text-gray-500 mb-1">Service from</span>
+                <input
+                  type="date"
+                  required
+                  value={generateForm.periodStart}
+                  onChange={(e) => setGenerateForm(prev => ({ ...prev, periodStart: e.target.value }))}
+                  className="px-3 py-1.5 border border-gray-300 rounded"
+                />
+              </label>
+              <label className="flex flex-col">
+                <span className="text-gray-500 mb-1">Service to</span>
+                <input
+                  type="date"
+                  required
+                  value={generateForm.periodEnd}
+                  onChange={(e) => setGenerateForm(prev => ({ ...prev, periodEnd: e.target.value }))}
+                  className="px-3 py-1.5 border border-gray-300 rounded"
+                />
+              </label>
+              <label className="flex flex-col">
+                <span className="text-gray-500 mb-1">Pricing</span>
+                <select
+                  value={generateForm.billingBasis}
+                  onChange={(e) => setGenerateForm(prev => ({ ...prev, billingBasis: e.target.value }))}
+                  className="px-3 py-1.5 border border-gray-300 rounded"
+                >
+                  <option value="">Contract setting</option>
+                  <option value="per_push">Per push (rate per visit)</option>
+                  <option value="per_season">Per season (contract value)</option>
+                </select>
+              </label>
+              {generateForm.billingBasis === 'per_season' ? (
+                <label className="flex flex-col">
+                  <span className="text-gray-500 mb-1">Installments</span>
+                  <input
+                    type="number"
+                    min="1"
+                    max="12"
+                    value={generateForm.seasonInstallments}
+                    onChange={(e) => setGenerateForm(prev => ({ ...prev, seasonInstallments: e.target.value }))}
+                    className="px-3 py-1.5 border border-gray-300 rounded"
+                  />
+                </label>
+              ) : generateForm.billingBasis === 'per_push' ? (
+                <label className="flex flex-col">
+                  <span className="text-gray-500 mb-1">Rate per push</span>
+                  <input
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={generateForm.pushRate}
+                    onChange={(e) => setGenerateForm(prev => ({ ...prev, pushRate: e.target.value }))}
+                    placeholder="Saved rate"
+                    className="px-3 py-1.5 border border-gray-300 rounded"
+                  />
+                </label>
+              ) : <div />}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Approved service logs in the period that are not on another invoice are billed, with their materials at the configured rates.
+            </p>
+            <button
+              type="submit"
+              disabled={working}
+              className="mt-3 flex items-center px-4 py-2 bg-green-600 text-white rounded text-sm hover:bg-green-700 disabled:opacity-50"
+            >
+              <FaPlus className="mr-2" />
+              Create draft
+            </button>
+          </form>
+
+          {/* Filters */}
+          <div className="bg-white rounded-lg shadow p-4 mb-6 flex flex-wrap gap-2">
+            {STATUS_TABS.map(tab => (
+              <button
+                key={tab.value}
+                onClick={() => setFilterStatus(tab.value)}
+                className={`px-3 py-1.5 rounded text-sm ${filterStatus === tab.value ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+              >
+                {tab.label}
+                {tab.value && ` (${summary?.counts[tab.value] ?? 0})`}
+              </button>
+            ))}
+          </div>
+
+          {error && (
+            <div className="mb-4 rounded-md bg-red-50 px-4 py-3 text-sm text-red-800">{error}</div>
+          )}
+
+          {/* Invoices */}
+          {invoices.length === 0 ? (
+            <div className="bg-white rounded-lg shadow text-center py-12">
+              <FaFileInvoiceDollar className="mx-auto h-12 w-12 text-gray-400" />
+              <p className="mt-2 text-sm text-gray-600">No invoices to show.</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {invoices.map(invoice => {
+                const isDraft = invoice.status === 'draft';
+                const isVoid = invoice.status === 'void';
+                const isOpen = expanded === invoice.id;
+                const payment = payments[invoice.id] || { amount: '', method: 'check', receivedAt: today(), reference: '' };
+                const adjustment = adjustments[invoice.id] || { description: '', amount: '' };
+
+                return (
+                  <div key={invoice.id} className="bg-white rounded-lg shadow p-4">
+                    <div className="flex flex-wrap items-start justify-between gap-4">
+                      <button onClick={() => setExpanded(isOpen ? null : invoice.id)} className="text-left">
+                        <div className="flex items-center gap-2">
+                          <span className="font-semibold text-gray-900">{invoice.invoiceNumber}</span>
+                          <span className="text-sm text-gray-500">{invoice.contractId}</span>
+                          <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_COLORS[invoice.status] || 'bg-gray-100 text-gray-800'}`}>
+                            {invoice.status.replace('_', ' ')}
+                          </span>
+                        </div>
+                        <p className="text-sm text-gray-500 mt-1">
+                          {invoice.billTo.name} · {invoice.periodStart} to {invoice.periodEnd} · {invoice.serviceLogCount} service logs
+                        </p>
+                        {invoice.dueAt && (
+                          <p className="text-sm text-gray-500 mt-1">
+                            Due {new Date(invoice.dueAt).toLocaleDateString()}
+                            {invoice.lastSentAt && ` · last sent to ${invoice.sentTo} on ${new Date(invoice.lastSentAt).toLocaleDateString()}`}
+                          </p>
+                        )}
+                        {invoice.voidedAt && (
+                          <p className="text-sm text-gray-500 mt-1">
+                            Voided by {invoice.voidedBy} on {new Date(invoice.voidedAt).toLocaleDateString()}: {invoice.voidReason}
+                          </p>
+                        )}
+                      </button>
+                      <div className="text-right text-sm">
+                        <p className="text-lg font-bold text-gray-900">{formatCurrency(invoice.total)}</p>
+                        {!isDraft && (
+                          <p className={invoice.balanceDue > 0 ? 'text-orange-600' : 'text-green-600'}>
+                            {formatCurrency(invoice.balanceDue)} due
+                          </p>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="mt-3 flex flex-wrap gap-2">
+                      {invoice.status !== 'paid' && !isVoid && (
+                        <button
+                          onClick={() => sendInvoice(invoice)}
+                          disabled={working}
+                          className="flex items-center px-3 py-1.5 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+                        >
+                          <FaPaperPlane className="mr-1" />
+                          {isDraft ? 'Send' : 'Send reminder'}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => downloadPdf(invoice)}
+                        className="flex items-center px-3 py-1.5 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+                      >
+                        <FaFilePdf className="mr-1" />
+                        PDF
+                      </button>
+                      {isDraft && (
+                        <button
+                          onClick={() => deleteInvoice(invoice)}
+                          className="flex items-center px-3 py-1.5 bg-red-600 text-white rounded text-sm hover:bg-red-700"
+                        >
+                          <FaTrash className="mr-1" />
+                          Delete
+                        </button>
+                      )}
+                      {!isDraft && !isVoid && invoice.amountPaid === 0 && (
+                        <button
+                          onClick={() => voidInvoice(invoice)}
+                          disabled={working}
+                          className="flex items-center px-3 py-1.5 bg-gray-100 text-red-700 rounded text-sm hover:bg-gray-200 disabled:opacity-50"
+                        >
+                          <FaBan className="mr-1" />
+                          Void
+                        </button>
+                      )}
+                    </div>
+
+                    {isOpen && (
+                      <div className="mt-4 border-t border-gray-100 pt-3">
+                        <table className="min-w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-gray-500">
+                              <th className="py-1 pr-2">Date</th>
+                              <th className="py-1 pr-2">Description</th>
+                              <th className="py-1 pr-2 text-right">Qty</th>
+                              <th className="py-1 pr-2 text-right">Unit price</th>
+                              <th className="py-1 pr-2 text-right">Amount</th>
+                              {isDraft && <th className="py-1" />}
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {invoice.lineItems.map(item => (
+                              <tr key={item.id} className="border-t border-gray-50">
+                                <td className="py-1 pr-2 text-gray-500">{item.serviceDate || ''}</td>
+                                <td className="py-1 pr-2">{item.description}</td>
+                                <td className="py-1 pr-2 text-right">{item.quantity} {item.unit}</td>
+                                <td className="py-1 pr-2 text-right">{formatCurrency(item.unitPrice)}</td>
+                                <td className="py-1 pr-2 text-right">{formatCurrency(item.amount)}</td>
+                                {isDraft && (
+                                  <td className="py-1 text-right">
+                                    <button
+                                      onClick={() => updateInvoice(invoice, { action: 'remove_line', lineItemId: item.id })}
+                                      className="text-red-600 hover:text-red-800"
+                                      title="Remove line"
+                                    >
+                                      <FaTrash />
+                                    </button>
+                                  </td>
+                                )}
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        <div className="mt-2 text-sm text-right space-y-1">
+                          <p>Subtotal {formatCurrency(invoice.subtotal)}</p>
+                          {invoice.taxRate > 0 && <p>Tax ({invoice.taxRate}%) {formatCurrency(invoice.taxAmount)}</p>}
+                          <p className="font-semibold">Total {formatCurrency(invoice.total)}</p>
+                          {invoice.amountPaid > 0 && <p>Paid {formatCurrency(invoice.amountPaid)}</p>}
+                        </div>
+
+                        {isDraft && (
+                          <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+                            <input
+                              type="text"
+                              value={adjustment.description}
+                              onChange={(e) => setAdjustments(prev => ({ ...prev, [invoice.id]: { ...adjustment, description: e.target.value } }))}
+                              placeholder="Adjustment, e.g. Loyalty credit"
+                              className="flex-1 min-w-[200px] px-3 py-1.5 border border-gray-300 rounded"
+                            />
+                            <input
+                              type="number"
+                              step="0.01"
+                              value={adjustment.amount}
+                              onChange={(e) => setAdjustments(prev => ({ ...prev, [invoice.id]: { ...adjustment, amount: e.target.value } }))}
+                              placeholder="Amount (negative for credit)"
+                              className="w-48 px-3 py-1.5 border border-gray-300 rounded"
+                            />
+                            <button
+                              onClick={() => addAdjustment(invoice)}
+                              disabled={working}
+                              className="flex items-center px-3 py-1.5 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+                            >
+                              <FaPlus className="mr-1" />
+                              Add adjustment
+                            </button>
+                          </div>
+                        )}
+
+                        {invoice.payments.length > 0 && (
+                          <ul className="mt-3 border-t border-gray-100 pt-2 space-y-1 text-xs text-gray-600">
+                            {invoice.payments.map(item => (
+                              <li key={item.id}>
+                                {formatCurrency(item.amount)} by {item.method}
+                                {item.reference && ` (${item.reference})`} received {new Date(item.receivedAt).toLocaleDateString()},
+                                recorded by {item.recordedBy}
+                                {item.refundedAmount ? ` · ${formatCurrency(item.refundedAmount)} refunded` : ''}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+
+                        {!isDraft && !isVoid && invoice.status !== 'paid' && (
+                          <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+                            <input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              value={payment.amount}
+                              onChange={(e) => setPayments(prev => ({ ...prev, [invoice.id]: { ...payment, amount: e.target.value } }))}
+                              placeholder={`Amount (max ${invoice.balanceDue.toFixed(2)})`}
+                              className="w-48 px-3 py-1.5 border border-gray-300 rounded"
+                            />
+                            <select
+                              value={payment.method}
+                              onChange={(e) => setPayments(prev => ({ ...prev, [invoice.id]: { ...payment, method: e.target.value } }))}
+                              className="px-3 py-1.5 border border-gray-300 rounded"
+                            >
+                              {PAYMENT_METHODS.map(method => (
+                                <option key={method.value} value={method.value}>{method.label}</option>
+                              ))}
+                            </select>
+                            <input
+                              type="date"
+                              value={payment.receivedAt}
+                              onChange={(e) => setPayments(prev => ({ ...prev, [invoice.id]: { ...payment, receivedAt: e.target.value } }))}
+                              className="px-3 py-1.5 border border-gray-300 rounded"
+                            />
+                            <input
+                              type="text"
+                              value={payment.reference}
+                              onChange={(e) => setPayments(prev => ({ ...prev, [invoice.id]: { ...payment, reference: e.target.value } }))}
+                              placeholder="Check # or reference"
+                              className="flex-1 min-w-[160px] px-3 py-1.5 border border-gray-300 rounded"
+                            />
+                            <button
+                              onClick={() => recordPayment(invoice)}
+                              disabled={working || !payment.amount}
+                              className="flex items-center px-3 py-1.5 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                            >
+                              <FaDollarSign className="mr-1" />
+                              Record payment
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
\ No newline at end of file
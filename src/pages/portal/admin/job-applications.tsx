@@ -12,6 +12,7 @@ import {
   FaSort,
   FaUser
 } from 'react-icons/fa';
+import { portalFetch } from '../../../lib/portal-fetch';
 
 interface JobApplication {
   id: string;
@@ -40,7 +41,6 @@ export default function JobApplicationsManagement() {
   const [sortBy, setSortBy] = useState('submittedAt');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [viewingApplication, setViewingApplication] = useState<JobApplication | null>(null);
-  const [currentAdmin, setCurrentAdmin] = useState<any>(null);
 
   useEffect(() => {
     checkAdminAuth();
@@ -49,14 +49,9 @@ export default function JobApplicationsManagement() {
 
   const checkAdminAuth = async () => {
     try {
-      const response = await fetch('/api/admin/dashboard', {
-        credentials: 'include'
-      });
+      const response = await portalFetch('/api/admin/dashboard');
 
-      if (response.ok) {
-        const data = await response.json();
-        setCurrentAdmin(data.admin);
-      } else {
+      if (!response.ok) {
         router.push('/portal/admin/login');
       }
     } catch (error) {
@@ -67,9 +62,7 @@ export default function JobApplicationsManagement() {
 
   const loadApplications = async () => {
     try {
-      const response = await fetch('/api/admin/job-applications', {
-        credentials: 'include'
-      });
+      const response = await portalFetch('/api/admin/job-applications');
 
       if (response.ok) {
         const data = await response.json();
@@ -91,15 +84,13 @@ export default function JobApplicationsManagement() {
 
   const handleStatusChange = async (applicationId: string, newStatus: string) => {
     try {
-      const response = await fetch(`/api/admin/job-applications?id=${applicationId}`, {
+      const response = await portalFetch(`/api/admin/job-applications?id=${applicationId}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
         },
-        credentials: 'include',
         body: JSON.stringify({ 
-          status: newStatus,
-          updatedBy: currentAdmin?.email || 'Unknown Admin'
+          status: newStatus
         }),
       });
 
@@ -126,16 +117,14 @@ export default function JobApplicationsManagement() {
     if (!confirmed) return;
 
     try {
-      const response = await fetch('/api/admin/job-applications', {
+      const response = await portalFetch('/api/admin/job-applications', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        credentials: 'include',
         body: JSON.stringify({
           applicationIds: selectedApplications,
-          bulkStatus: newStatus,
-          updatedBy: currentAdmin?.email || 'Unknown Admin'
+          bulkStatus: newStatus
         }),
       });
 
@@ -156,9 +145,8 @@ export default function JobApplicationsManagement() {
     if (!confirmed) return;
 
     try {
-      const response = await fetch(`/api/admin/job-applications?id=${applicationId}`, {
-        method: 'DELETE',
-        credentials: 'include'
+      const response = await portalFetch(`/api/admin/job-applications?id=${applicationId}`, {
+        method: 'DELETE'
       });
 
       if (response.ok) {
@@ -0,0 +1,267 @@
+/**
+ * Admin Sign-In Activity Page
+ * Locked accounts and IP addresses with manual unlock, and recent sign-in attempts with new-device and new-country flags
+ */
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import { FaArrowLeft, FaExclamationTriangle, FaUnlock } from 'react-icons/fa';
+import { portalFetch } from '../../../lib/portal-fetch';
+
+interface Lockout {
+  scope: 'account' | 'ip';
+  subject: string;
+  strikes: number;
+  lockedAt?: string;
+  lockedUntil?: string;
+}
+
+interface SignInAttempt {
+  id: string;
+  userId?: string;
+  email: string;
+  ip: string;
+  userAgent: string;
+  device: string;
+  country?: string;
+  success: boolean;
+  failureReason?: string;
+  flags: Array<'new_device' | 'new_country'>;
+  attemptedAt: string;
+}
+
+const FLAG_LABELS: Record<SignInAttempt['flags'][number], string> = {
+  new_device: 'New device',
+  new_country: 'New country'
+};
+
+export default function LoginActivityPage() {
+  const router = useRouter();
+  const [lockouts, setLockouts] = useState<Lockout[]>([]);
+  const [attempts, setAttempts] = useState<SignInAttempt[]>([]);
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadActivity();
+  }, [flaggedOnly]);
+
+  const loadActivity = async () => {
+    try {
+      const response = await portalFetch(`/api/admin/security/login-activity${flaggedOnly ? '?flagged=1' : ''}`);
+      if (response.status === 401) {
+        router.push('/portal/admin/login');
+        return;
+      }
+
+      const data = await response.json();
+      if (data.success) {
+        setLockouts(data.lockouts);
+        setAttempts(data.attempts);
+      } else {
+        setError(data.error || 'Failed to load sign-in activity');
+      }
+    } catch (error) {
+      console.error('Failed to load sign-in activity:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const unlock = async (lockout: Lockout) => {
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await portalFetch('/api/admin/security/login-activity', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scope: lockout.scope, subject: lockout.subject })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to unlock');
+        return;
+      }
+
+      setNotice(data.message);
+      await loadActivity();
+    } catch (error) {
+      console.error('Failed to unlock:', error);
+      setError('Failed to unlock');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading sign-in activity...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Sign-In Activity | Admin Portal</title>
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-screen bg-gray-100">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Header */}
+          <div className="mb-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Sign-In Activity</h1>
+                <p className="text-gray-600 mt-1">
+                  Accounts and IP addresses locked after repeated failures, and recent sign-ins from new devices or countries.
+                </p>
+              </div>
+              <button
+                onClick={() => router.push('/portal/admin/dashboard')}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <FaArrowLeft className="mr-2" />
+                Back to Admin Portal
+              </button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="mb-4 rounded-md bg-red-50 p-4 text-sm text-red-700">{error}</div>
+          )}
+          {notice && (
+            <div className="mb-4 rounded-md bg-green-50 p-4 text-sm text-green-700">{notice}</div>
+          )}
+
+          {/* Lockouts */}
+          <div className="bg-white rounded-lg shadow overflow-hidden mb-8">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Locked Out</h2>
+            </div>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Account or IP Address</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Locked</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Until</th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {lockouts.map(lockout => (
+                  <tr key={`${lockout.scope}:${lockout.subject}`}>
+                    <td className="px-6 py-4">
+                      <p className="text-sm font-medium text-gray-900">{lockout.subject}</p>
+                      <p className="text-xs text-gray-500">
+                        {lockout.scope === 'ip' ? 'IP address' : 'Account'} · {lockout.strikes} {lockout.strikes === 1 ? 'lockout' : 'lockouts'} in a row
+                      </p>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {lockout.lockedAt && new Date(lockout.lockedAt).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {lockout.lockedUntil && new Date(lockout.lockedUntil).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => unlock(lockout)}
+                        className="inline-flex items-center px-3 py-1 text-sm text-blue-700 hover:text-blue-900"
+                      >
+                        <FaUnlock className="mr-1" />
+                        Unlock
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {lockouts.length === 0 && (
+                  <tr>
+                    <td colSpan={4} className="px-6 py-8 text-center text-sm text-gray-500">
+                      Nothing is locked out.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Attempts */}
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900">Recent Sign-In Attempts</h2>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={flaggedOnly}
+                  onChange={e => setFlaggedOnly(e.target.checked)}
+                  className="mr-2"
+                />
+                Flagged only
+              </label>
+            </div>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Email</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Device</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Result</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Time</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {attempts.map(attempt => (
+                  <tr key={attempt.id}>
+                    <td className="px-6 py-4 text-sm text-gray-900">{attempt.email}</td>
+                    <td className="px-6 py-4">
+                      <p className="text-sm text-gray-900" title={attempt.userAgent}>{attempt.device}</p>
+                      <p className="text-xs text-gray-500">
+                        {attempt.ip}{attempt.country && ` · ${attempt.country}`}
+                      </p>
+                    </td>
+                    <td className="px-6 py-4">
+                      {attempt.success ? (
+                        <span className="inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                          Signed in
+                        </span>
+                      ) : (
+                        <span className="inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                          {attempt.failureReason || 'Failed'}
+                        </span>
+                      )}
+                      {attempt.flags.map(flag => (
+                        <span
+                          key={flag}
+                          className="ml-2 inline-flex items-center px-2 py-0.5 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800"
+                        >
+                          <FaExclamationTriangle className="mr-1" />
+                          {FLAG_LABELS[flag]}
+                        </span>
+                      ))}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {new Date(attempt.attemptedAt).toLocaleString()}
+                    </td>
+                  </tr>
+                ))}
+                {attempts.length === 0 && (
+                  <tr>
+                    <td colSpan={4} className="px-6 py-8 text-center text-sm text-gray-500">
+                      No {flaggedOnly ? 'flagged ' : ''}sign-in attempts.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
\ No newline at end of file
@@ -4,7 +4,9 @@ import Head from 'next/head';
 import Link from 'next/link';
 import { FaUser, FaLock, FaEye, FaEyeSlash, FaShieldAlt } from 'react-icons/fa';
 import PasswordChangeModal from '../../../components/admin/PasswordChangeModal';
+import TwoFactorChallenge, { TwoFactorVerification } from '../../../components/TwoFactorChallenge';
 import { useAnalyticsContext } from '../../../components/AnalyticsProvider';
+import { portalFetch } from '../../../lib/portal-fetch';
 
 export default function AdminLogin() {
   const router = useRouter();
@@ -18,6 +20,7 @@ export default function AdminLogin() {
   const [isLoading, setIsLoading] = useState(false);
   const [showPasswordChangeModal, setShowPasswordChangeModal] = useState(false);
   const [pendingUser, setPendingUser] = useState<any>(null);
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<{ challengeToken: string; enrollmentRequired: boolean } | null>(null);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -43,19 +46,13 @@ export default function AdminLogin() {
 
       const data = await response.json();
 
-      if (data.success) {
+      if (data.requiresTwoFactor) {
+        // Password accepted; the session is only issued after the second step
+        setTwoFactorChallenge({ challengeToken: data.challengeToken, enrollmentRequired: !!data.enrollmentRequired });
+      } else if (data.success) {
         // Track successful login
         trackLoginAttempt('admin', true);
-        
-        if (data.requiresPasswordChange) {
-          // Store user info and show password change modal
-          setPendingUser(data.user);
-          setShowPasswordChangeModal(true);
-        } else {
-          // Normal login - proceed to dashboard
-          localStorage.setItem('accessToken', data.token);
-          router.push('/portal/admin/dashboard');
-        }
+        completeSignIn(data);
       } else {
         // Track failed login
         trackLoginAttempt('admin', false);
@@ -70,39 +67,36 @@ export default function AdminLogin() {
     }
   };
 
+  const completeSignIn = (data: TwoFactorVerification) => {
+    if (data.requiresPasswordChange) {
+      // Store user info and show password change modal
+      setPendingUser(data.user);
+      setShowPasswordChangeModal(true);
+    } else {
+      // Normal login - the session cookie is already set
+      router.push('/portal/admin/dashboard');
+    }
+  };
+
   const handlePasswordChange = async (currentPassword: string, newPassword: string): Promise<boolean> => {
     if (!pendingUser) return false;
 
     try {
-      // Get CSRF token from cookie
-      const getCookie = (name: string) => {
-        const value = `; ${document.cookie}`;
-        const parts = value.split(`; ${name}=`);
-        if (parts.length === 2) return parts.pop()?.split(';').shift();
-        return null;
-      };
-      
-      const csrfToken = getCookie('vsr_csrf_token');
-      
-      const response = await fetch('/api/admin/auth/change-password', {
+      const response = await portalFetch('/api/admin/auth/change-password', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'X-CSRF-Token': csrfToken || ''
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          email: pendingUser.email,
           currentPassword,
-          newPassword,
-          csrfToken
+          newPassword
         })
       });
 
       const data = await response.json();
 
       if (data.success) {
-        // Password changed successfully - store token and redirect
-        localStorage.setItem('accessToken', data.token);
+        // Password changed successfully - the session stays signed in
         setShowPasswordChangeModal(false);
         setPendingUser(null);
         router.push('/portal/admin/dashboard');
@@ -145,6 +139,23 @@ export default function AdminLogin() {
             </p>
           </div>
 
+          {twoFactorChallenge ? (
+            <div className="mt-8">
+              <TwoFactorChallenge
+                challengeToken={twoFactorChallenge.challengeToken}
+                enrollmentRequired={twoFactorChallenge.enrollmentRequired}
+                verifyUrl="/api/admin/auth/two-factor"
+                onVerified={(data) => {
+                  trackLoginAttempt('admin', true);
+                  completeSignIn(data);
+                }}
+                onCancel={() => {
+                  setTwoFactorChallenge(null);
+                  setFormData(prev => ({ ...prev, password: '' }));
+                }}
+              />
+            </div>
+          ) : (
           <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
             <div className="space-y-4">
               <div>
@@ -229,6 +240,7 @@ export default function AdminLogin() {
               </Link>
             </div>
           </form>
+          )}
         </div>
       </div>
 
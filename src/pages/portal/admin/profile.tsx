@@ -8,7 +8,9 @@ import { useRouter } from 'next/router';
 import Head from 'next/head';
 import Link from 'next/link';
 import PasswordStrengthIndicator from '@/components/PasswordStrengthIndicator';
+import TwoFactorSettings from '@/components/TwoFactorSettings';
 import { validatePassword } from '@/utils/passwordValidation';
+import { portalFetch } from '../../../lib/portal-fetch';
 
 interface UserProfile {
   id: string;
@@ -50,9 +52,7 @@ const ProfilePage: React.FC = () => {
 
   const loadProfile = async () => {
     try {
-      const response = await fetch('/api/admin/profile', {
-        credentials: 'include'
-      });
+      const response = await portalFetch('/api/admin/profile');
 
       if (response.status === 401) {
         router.push('/portal/admin/login');
@@ -110,12 +110,11 @@ const ProfilePage: React.FC = () => {
         updateData.newPassword = newPassword;
       }
 
-      const response = await fetch('/api/admin/profile', {
+      const response = await portalFetch('/api/admin/profile', {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json'
         },
-        credentials: 'include',
         body: JSON.stringify(updateData)
       });
 
@@ -150,9 +149,8 @@ const ProfilePage: React.FC = () => {
       formData.append('profilePhoto', file);
       formData.append('userId', profile?.id || '');
 
-      const response = await fetch('/api/admin/profile', {
+      const response = await portalFetch('/api/admin/profile', {
         method: 'POST',
-        credentials: 'include',
         body: formData
       });
 
@@ -441,6 +439,11 @@ const ProfilePage: React.FC = () => {
             </form>
           </div>
 
+          {/* Two-Factor Authentication */}
+          <div className="mt-6">
+            <TwoFactorSettings />
+          </div>
+
           {/* Account Information */}
           <div className="mt-6 bg-white shadow rounded-lg">
             <div className="px-6 py-4 border-b border-gray-200">
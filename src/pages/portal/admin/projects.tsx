@@ -4,6 +4,7 @@ import Head from 'next/head';
 import Link from 'next/link';
 import ProjectStatusSlider from '@/components/ProjectStatusSlider';
 import { FaArrowLeft, FaEdit, FaEye, FaPlus, FaTimes } from 'react-icons/fa';
+import { portalFetch } from '@/lib/portal-fetch';
 
 interface Project {
   id: string;
@@ -23,6 +24,8 @@ interface Project {
     city: string;
     state: string;
     zipCode: string;
+    latitude?: number;
+    longitude?: number;
   };
   contact?: {
     name: string;
@@ -31,6 +34,19 @@ interface Project {
   };
 }
 
+// Site coordinates are optional; blank fields are left off so the project has no time clock geofence
+const toAddressPayload = ({ latitude, longitude, ...address }: {
+  street: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  latitude: string;
+  longitude: string;
+}) => ({
+  ...address,
+  ...(latitude.trim() && longitude.trim() ? { latitude: Number(latitude), longitude: Number(longitude) } : {})
+});
+
 export default function AdminProjects() {
   const router = useRouter();
   const [admin, setAdmin] = useState<any>(null);
@@ -54,7 +70,9 @@ export default function AdminProjects() {
       street: '',
       city: '',
       state: '',
-      zipCode: ''
+      zipCode: '',
+      latitude: '',
+      longitude: ''
     },
     contact: {
       name: '',
@@ -70,18 +88,8 @@ export default function AdminProjects() {
   }, []);
 
   const checkAdminAuth = async () => {
-    const token = localStorage.getItem('accessToken');
-    if (!token) {
-      router.push('/portal/admin/login');
-      return;
-    }
-
     try {
-      const response = await fetch('/api/admin/dashboard', {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const response = await portalFetch('/api/admin/dashboard');
 
       if (response.ok) {
         const data = await response.json();
@@ -99,16 +107,7 @@ export default function AdminProjects() {
 
   const loadProjects = async () => {
     try {
-      const token = localStorage.getItem('accessToken');
-      if (!token) {
-        return;
-      }
-
-      const response = await fetch('/api/admin/projects', {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const response = await portalFetch('/api/admin/projects');
 
       if (response.ok) {
         const data = await response.json();
@@ -201,11 +200,6 @@ export default function AdminProjects() {
 
   const handleStatusChange = async (projectId: string, newStatus: number, photos?: File[], notes?: string, adminNotes?: string) => {
     try {
-      const token = localStorage.getItem('accessToken');
-      if (!token) {
-        return;
-      }
-
       // Update locally first for immediate UI feedback
       setProjects(prev => prev.map(project => 
         project.id === projectId 
@@ -214,10 +208,9 @@ export default function AdminProjects() {
       ));
 
       // Send update to backend
-      const response = await fetch(`/api/admin/projects/${projectId}`, {
+      const response = await portalFetch(`/api/admin/projects/${projectId}`, {
         method: 'PUT',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
@@ -264,11 +257,6 @@ export default function AdminProjects() {
 
   const handleCreateProject = async () => {
     try {
-      const token = localStorage.getItem('accessToken');
-      if (!token) {
-        return;
-      }
-
       const projectData = {
         title: newProjectData.title,
         propertyCode: newProjectData.propertyCode,
@@ -277,15 +265,14 @@ export default function AdminProjects() {
         serviceType: newProjectData.serviceType,
         statusLabels: newProjectData.statusLabels,
         showStatusBar: newProjectData.showStatusBar,
-        address: newProjectData.address,
+        address: toAddressPayload(newProjectData.address),
         contact: newProjectData.contact,
         adminNotes: newProjectData.adminNotes
       };
 
-      const response = await fetch('/api/admin/projects', {
+      const response = await portalFetch('/api/admin/projects', {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         },
         body: JSON.stringify(projectData)
@@ -308,7 +295,7 @@ export default function AdminProjects() {
           showStatusBar: newProjectData.showStatusBar,
           createdDate: new Date().toISOString().split('T')[0],
           lastUpdated: new Date().toISOString().split('T')[0],
-          address: newProjectData.address,
+          address: projectData.address,
           contact: newProjectData.contact,
           adminNotes: newProjectData.adminNotes
         };
@@ -328,7 +315,9 @@ export default function AdminProjects() {
           street: '',
           city: '',
           state: '',
-          zipCode: ''
+          zipCode: '',
+          latitude: '',
+          longitude: ''
         },
         contact: {
           name: '',
@@ -356,7 +345,9 @@ export default function AdminProjects() {
         street: '',
         city: '',
         state: '',
-        zipCode: ''
+        zipCode: '',
+        latitude: '',
+        longitude: ''
       },
       contact: {
         name: '',
@@ -804,6 +795,41 @@ export default function AdminProjects() {
                         placeholder="ZIP Code"
                       />
                     </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Latitude
+                      </label>
+                      <input
+                        type="number"
+                        step="any"
+                        value={newProjectData.address.latitude}
+                        onChange={(e) => setNewProjectData(prev => ({
+                          ...prev,
+                          address: { ...prev.address, latitude: e.target.value }
+                        }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500 bg-white text-gray-900"
+                        placeholder="e.g. 42.963360"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Longitude
+                      </label>
+                      <input
+                        type="number"
+                        step="any"
+                        value={newProjectData.address.longitude}
+                        onChange={(e) => setNewProjectData(prev => ({
+                          ...prev,
+                          address: { ...prev.address, longitude: e.target.value }
+                        }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500 bg-white text-gray-900"
+                        placeholder="e.g. -85.668086"
+                      />
+                    </div>
+                    <p className="md:col-span-2 text-xs text-gray-500">
+                      Optional. With site coordinates, time clock punches are checked against the property location.
+                    </p>
                   </div>
                 </div>
 
@@ -24,31 +24,78 @@ import {
   FaTrash,
   FaUserCheck,
   FaBan,
-  FaRedoAlt
+  FaRedoAlt,
+  FaHourglassEnd,
+  FaObjectGroup
 } from 'react-icons/fa';
+import EstimateEditor, {
+  EstimateDraft,
+  emptyEstimateDraft,
+  draftFromEstimate,
+  draftToEstimateInput
+} from '@/components/EstimateEditor';
+import { EstimateProps } from '@/domain/quote/Estimate';
+import { QuoteStatus, canTransitionQuoteStatus } from '@/domain/quote/QuoteStatus';
+import type { AdminQuoteRequestView } from '@/presentation/api/AdminQuotePresenter';
+import { portalFetch } from '../../../lib/portal-fetch';
+
+interface EstimateRevisionSummary {
+  version: number;
+  estimate: EstimateProps;
+  totals: { total: number };
+  createdAt: string;
+  createdBy?: string;
+  sentAt?: string;
+}
 
 interface QuoteRequest {
   id: string;
   fullName: string;
   email: string;
   phone: string;
-  serviceClass: string;
+  serviceClass?: string;
   service: string;
   details: string;
+  serviceAddress?: string;
   photoFiles: string[];
-  status: 'pending' | 'review' | 'quoted' | 'accepted' | 'declined';
+  status: QuoteStatus;
+  priority: string;
   submittedAt: Date;
-  reviewedAt?: Date;
   quotedAt?: Date;
   quotedAmount?: number;
-  estimatedValue?: number;
+  expiresAt?: Date;
+  estimateRevisions?: EstimateRevisionSummary[]; // Only loaded with the full request details
   assignedTo?: string;
+  firstResponseDueAt: Date;
+  isOverdue: boolean;
   adminNotes?: string;
-  submittedBy?: string;
+  possibleDuplicateOf?: string;
+  previousQuoteIds: string[];
+  existingContractIds: string[];
   updatedBy?: string;
   updatedAt?: Date;
 }
 
+const STATUS_LABELS: Record<QuoteStatus, string> = {
+  [QuoteStatus.PENDING]: 'Pending',
+  [QuoteStatus.UNDER_REVIEW]: 'Under Review',
+  [QuoteStatus.QUOTE_SENT]: 'Quote Sent',
+  [QuoteStatus.ACCEPTED]: 'Accepted',
+  [QuoteStatus.REJECTED]: 'Rejected',
+  [QuoteStatus.EXPIRED]: 'Expired'
+};
+
+const OPEN_STATUSES: QuoteStatus[] = [QuoteStatus.PENDING, QuoteStatus.UNDER_REVIEW, QuoteStatus.QUOTE_SENT];
+
+const parseQuoteRequest = (request: AdminQuoteRequestView): QuoteRequest => ({
+  ...request,
+  submittedAt: new Date(request.submittedAt),
+  quotedAt: request.quotedAt ? new Date(request.quotedAt) : undefined,
+  expiresAt: request.expiresAt ? new Date(request.expiresAt) : undefined,
+  firstResponseDueAt: new Date(request.firstResponseDueAt),
+  updatedAt: new Date(request.updatedAt)
+});
+
 export default function QuoteRequestsPage() {
   const router = useRouter();
   const [quoteRequests, setQuoteRequests] = useState<QuoteRequest[]>([]);
@@ -56,17 +103,22 @@ export default function QuoteRequestsPage() {
   const [selectedRequests, setSelectedRequests] = useState<string[]>([]);
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [hideDeclined, setHideDeclined] = useState<boolean>(false);
+  const [myQueueOnly, setMyQueueOnly] = useState<boolean>(false);
+  const [overdueOnly, setOverdueOnly] = useState<boolean>(false);
   const [showQuoteModal, setShowQuoteModal] = useState(false);
   const [selectedRequest, setSelectedRequest] = useState<QuoteRequest | null>(null);
   const [adminNotes, setAdminNotes] = useState('');
-  const [quotedAmount, setQuotedAmount] = useState('');
+  const [serviceAddress, setServiceAddress] = useState('');
+  const [estimateDraft, setEstimateDraft] = useState<EstimateDraft>(emptyEstimateDraft());
+  const [quoteError, setQuoteError] = useState<string | null>(null);
   const [summary, setSummary] = useState({
     total: 0,
     pending: 0,
-    review: 0,
-    quoted: 0,
+    under_review: 0,
+    quote_sent: 0,
     accepted: 0,
-    declined: 0
+    rejected: 0,
+    expired: 0
   });
   const [showDetailsModal, setShowDetailsModal] = useState(false);
   const [detailsRequest, setDetailsRequest] = useState<QuoteRequest | null>(null);
@@ -83,13 +135,11 @@ export default function QuoteRequestsPage() {
     }, 30000); // Poll every 30 seconds
     
     return () => clearInterval(interval);
-  }, [filterStatus]);
+  }, [filterStatus, myQueueOnly, overdueOnly]);
 
   const checkAdminAuth = async () => {
     try {
-      const response = await fetch('/api/admin/dashboard', {
-        credentials: 'include' // Use cookies instead of tokens
-      });
+      const response = await portalFetch('/api/admin/dashboard');
 
       if (!response.ok) {
         router.push('/portal/admin/login');
@@ -102,9 +152,7 @@ export default function QuoteRequestsPage() {
 
   const loadCurrentAdmin = async () => {
     try {
-      const response = await fetch('/api/admin/dashboard', {
-        credentials: 'include'
-      });
+      const response = await portalFetch('/api/admin/dashboard');
 
       if (response.ok) {
         const data = await response.json();
@@ -130,34 +178,26 @@ export default function QuoteRequestsPage() {
       if (hideDeclined) {
         url += url.includes('?') ? '&hideDeclined=true' : '?hideDeclined=true';
       }
+
+      if (myQueueOnly) {
+        url += '&queue=mine';
+      }
+
+      if (overdueOnly) {
+        url += '&overdue=true';
+      }
       
-      const response = await fetch(url, {
-        credentials: 'include' // Use cookies instead of tokens
-      });
+      const response = await portalFetch(url);
 
       if (response.ok) {
         const data = await response.json();
-        let requests = data.data.quoteRequests.map((req: any) => ({
-          ...req,
-          submittedAt: new Date(req.submittedAt),
-          reviewedAt: req.reviewedAt ? new Date(req.reviewedAt) : undefined,
-          quotedAt: req.quotedAt ? new Date(req.quotedAt) : undefined,
-          updatedAt: req.updatedAt ? new Date(req.updatedAt) : undefined,
-          // Map old under_review to new review status
-          status: req.status === 'under_review' ? 'review' : req.status
-        }));
+        let requests = data.data.quoteRequests.map(parseQuoteRequest);
 
         // Apply frontend filtering for open/closed
         if (filterStatus === 'open') {
-          // Open: Pending, Review, Quoted
-          requests = requests.filter((req: any) => 
-            req.status === 'pending' || req.status === 'review' || req.status === 'quoted'
-          );
+          requests = requests.filter((req: QuoteRequest) => OPEN_STATUSES.includes(req.status));
         } else if (filterStatus === 'closed') {
-          // Closed: Accepted, Declined
-          requests = requests.filter((req: any) => 
-            req.status === 'accepted' || req.status === 'declined'
-          );
+          requests = requests.filter((req: QuoteRequest) => !OPEN_STATUSES.includes(req.status));
         }
         // For individual status filters and 'all', the API already handles the filtering
 
@@ -171,19 +211,19 @@ export default function QuoteRequestsPage() {
     }
   };
 
-  const handleSendQuote = async (requestId: string, amount: number, notes?: string) => {
+  const handleSendQuote = async (requestId: string, draft: EstimateDraft, address: string, notes?: string) => {
+    setQuoteError(null);
     try {
-      const response = await fetch(`/api/admin/quote-requests?id=${requestId}`, {
+      const response = await portalFetch(`/api/admin/quote-requests?id=${requestId}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json'
         },
-        credentials: 'include',
         body: JSON.stringify({
-          status: 'quoted',
+          status: QuoteStatus.QUOTE_SENT,
           adminNotes: notes,
-          quotedAmount: amount,
-          updatedBy: currentAdmin?.email || 'Admin'
+          estimate: draftToEstimateInput(draft),
+          serviceAddress: address
         })
       });
 
@@ -192,10 +232,15 @@ export default function QuoteRequestsPage() {
         setShowQuoteModal(false);
         setSelectedRequest(null);
         setAdminNotes('');
-        setQuotedAmount('');
+        setServiceAddress('');
+        setEstimateDraft(emptyEstimateDraft());
+      } else {
+        const data = await response.json();
+        setQuoteError(data.message || 'Failed to send quote');
       }
     } catch (error) {
       console.error('Failed to send quote:', error);
+      setQuoteError('Failed to send quote');
     }
   };
 
@@ -203,124 +248,169 @@ export default function QuoteRequestsPage() {
     if (selectedRequests.length === 0) return;
 
     try {
-      const response = await fetch('/api/admin/quote-requests', {
+      const response = await portalFetch('/api/admin/quote-requests', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
-        credentials: 'include',
         body: JSON.stringify({
           requestIds: selectedRequests,
-          bulkStatus: status,
-          updatedBy: currentAdmin?.email || 'Admin'
+          bulkStatus: status
         })
       });
 
+      const data = await response.json();
       if (response.ok) {
         await loadQuoteRequests();
         setSelectedRequests([]);
+        if (data.skipped?.length > 0) {
+          alert(data.message);
+        }
+      } else {
+        alert(data.message || 'Failed to update quote requests');
       }
     } catch (error) {
       console.error('Failed to bulk update requests:', error);
     }
   };
 
-  const handleStatusChange = async (requestId: string, newStatus: string) => {
+  const handleStatusChange = async (requestId: string, newStatus: QuoteStatus) => {
     try {
-      const response = await fetch(`/api/admin/quote-requests?id=${requestId}`, {
+      const response = await portalFetch(`/api/admin/quote-requests?id=${requestId}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json'
         },
-        credentials: 'include',
         body: JSON.stringify({ 
-          status: newStatus,
-          updatedBy: currentAdmin?.email || 'Admin'
+          status: newStatus
         })
       });
 
       if (response.ok) {
         await loadQuoteRequests();
+      } else {
+        const data = await response.json();
+        alert(data.message || 'Failed to update request status');
       }
     } catch (error) {
       console.error('Failed to update request status:', error);
     }
   };
 
-  const handleDeleteRequest = async (requestId: string) => {
-    if (!confirm('Are you sure you want to delete this quote request? This action cannot be undone.')) {
+  // Without an assignee the server picks the next estimator for the service category
+  const handleAssign = async (requestId: string, assignee?: string) => {
+    try {
+      const response = await portalFetch(`/api/admin/quote-requests?id=${requestId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(assignee
+          ? { assignedTo: assignee }
+          : { autoAssign: true })
+      });
+
+      if (response.ok) {
+        await loadQuoteRequests();
+      } else {
+        const data = await response.json();
+        alert(data.message || 'Failed to assign quote request');
+      }
+    } catch (error) {
+      console.error('Failed to assign quote request:', error);
+    }
+  };
+
+  // Folds a flagged duplicate into the request it repeats; the duplicate is removed
+  const handleMergeDuplicate = async (request: QuoteRequest) => {
+    if (!request.possibleDuplicateOf) return;
+    if (!confirm('Merge this request into the original? Its photos and details are added to the original and this request is removed.')) {
       return;
     }
 
     try {
-      const response = await fetch(`/api/admin/quote-requests?id=${requestId}`, {
-        method: 'DELETE',
+      const response = await portalFetch(`/api/admin/quote-requests?id=${request.id}`, {
+        method: 'PATCH',
         headers: {
           'Content-Type': 'application/json'
         },
-        credentials: 'include'
+        body: JSON.stringify({
+          mergeInto: request.possibleDuplicateOf
+        })
       });
 
+      const data = await response.json();
       if (response.ok) {
+        setShowDetailsModal(false);
         await loadQuoteRequests();
       } else {
-        alert('Failed to delete quote request');
+        alert(data.message || 'Failed to merge quote requests');
       }
     } catch (error) {
-      console.error('Failed to delete request:', error);
-      alert('Error deleting quote request');
+      console.error('Failed to merge quote requests:', error);
     }
   };
 
-  const handleQuickAction = async (requestId: string, action: string) => {
-    let newStatus = '';
-    switch (action) {
-      case 'pending':
-        newStatus = 'pending';
-        break;
-      case 'review':
-        newStatus = 'review';
-        break;
-      case 'quoted':
-        newStatus = 'quoted';
-        break;
-      case 'accept':
-        newStatus = 'accepted';
-        break;
-      case 'accepted':
-        newStatus = 'accepted';
-        break;
-      case 'decline':
-        newStatus = 'declined';
-        break;
-      case 'declined':
-        newStatus = 'declined';
-        break;
-      default:
-        return;
-    }
-
+  const handleDismissDuplicate = async (requestId: string) => {
     try {
-      const response = await fetch(`/api/admin/quote-requests?id=${requestId}`, {
+      const response = await portalFetch(`/api/admin/quote-requests?id=${requestId}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json'
         },
-        credentials: 'include',
-        body: JSON.stringify({ 
-          status: newStatus,
-          updatedBy: currentAdmin?.email || 'Admin'
+        body: JSON.stringify({
+          dismissDuplicate: true
         })
       });
 
+      const data = await response.json();
       if (response.ok) {
+        if (data.data) {
+          setDetailsRequest(parseQuoteRequest(data.data));
+        }
         await loadQuoteRequests();
+      } else {
+        alert(data.message || 'Failed to update quote request');
       }
     } catch (error) {
-      console.error('Failed to update request status:', error);
+      console.error('Failed to dismiss duplicate flag:', error);
     }
   };
 
+  const handleDeleteRequest = async (requestId: string) => {
+    if (!confirm('Are you sure you want to delete this quote request? This action cannot be undone.')) {
+      return;
+    }
+
+    try {
+      const response = await portalFetch(`/api/admin/quote-requests?id=${requestId}`, {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      });
+
+      if (response.ok) {
+        await loadQuoteRequests();
+      } else {
+        alert('Failed to delete quote request');
+      }
+    } catch (error) {
+      console.error('Failed to delete request:', error);
+      alert('Error deleting quote request');
+    }
+  };
+
+  const handleQuickAction = async (requestId: string, action: 'review' | 'accept' | 'decline') => {
+    const actionStatus: Record<typeof action, QuoteStatus> = {
+      review: QuoteStatus.UNDER_REVIEW,
+      accept: QuoteStatus.ACCEPTED,
+      decline: QuoteStatus.REJECTED
+    };
+
+    await handleStatusChange(requestId, actionStatus[action]);
+  };
+
   const handleBulkDelete = async () => {
     if (!confirm(`Are you sure you want to delete ${selectedRequests.length} quote request(s)? This action cannot be undone.`)) {
       return;
@@ -328,12 +418,11 @@ export default function QuoteRequestsPage() {
 
     try {
       for (const requestId of selectedRequests) {
-        await fetch(`/api/admin/quote-requests?id=${requestId}`, {
+        await portalFetch(`/api/admin/quote-requests?id=${requestId}`, {
           method: 'DELETE',
           headers: {
             'Content-Type': 'application/json'
-          },
-          credentials: 'include'
+          }
         });
       }
       
@@ -347,26 +436,61 @@ export default function QuoteRequestsPage() {
 
   const getStatusIcon = (status: string) => {
     switch (status) {
-      case 'pending':
+      case QuoteStatus.PENDING:
         return <FaClock className="text-yellow-500 text-lg" title="Pending" />;
-      case 'review':
+      case QuoteStatus.UNDER_REVIEW:
         return <FaSpinner className="text-blue-500 text-lg" title="Under Review" />;
-      case 'quoted':
-        return <FaDollarSign className="text-green-500 text-lg" title="Quoted" />;
-      case 'accepted':
+      case QuoteStatus.QUOTE_SENT:
+        return <FaDollarSign className="text-green-500 text-lg" title="Quote Sent" />;
+      case QuoteStatus.ACCEPTED:
         return <FaCheckCircle className="text-green-600 text-lg" title="Accepted" />;
-      case 'declined':
-        return <FaTimes className="text-red-500 text-lg" title="Declined" />;
+      case QuoteStatus.REJECTED:
+        return <FaTimes className="text-red-500 text-lg" title="Rejected" />;
+      case QuoteStatus.EXPIRED:
+        return <FaHourglassEnd className="text-gray-500 text-lg" title="Expired" />;
       default:
         return <FaExclamationTriangle className="text-gray-500 text-lg" title="Unknown" />;
     }
   };
 
-  const viewRequestDetails = (request: QuoteRequest) => {
-    setDetailsRequest(request);
+  // List rows leave out estimate revisions, so modals work from the full request
+  const loadRequestDetails = async (requestId: string): Promise<QuoteRequest | null> => {
+    try {
+      const response = await portalFetch(`/api/admin/quote-requests?id=${requestId}`);
+
+      if (response.ok) {
+        const data = await response.json();
+        return parseQuoteRequest(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to load quote request details:', error);
+    }
+
+    alert('Failed to load quote request details');
+    return null;
+  };
+
+  const viewRequestDetails = async (request: QuoteRequest) => {
+    const details = await loadRequestDetails(request.id);
+    if (!details) return;
+
+    setDetailsRequest(details);
     setShowDetailsModal(true);
   };
 
+  const openQuoteModal = async (request: QuoteRequest) => {
+    const details = await loadRequestDetails(request.id);
+    if (!details) return;
+
+    setSelectedRequest(details);
+    setAdminNotes(details.adminNotes || '');
+    setServiceAddress(details.serviceAddress || '');
+    const latestRevision = details.estimateRevisions?.[details.estimateRevisions.length - 1];
+    setEstimateDraft(latestRevision ? draftFromEstimate(latestRevision.estimate) : emptyEstimateDraft());
+    setQuoteError(null);
+    setShowQuoteModal(true);
+  };
+
 
   const formatDate = (date: Date) => {
     return new Intl.DateTimeFormat('en-US', {
@@ -430,7 +554,7 @@ export default function QuoteRequestsPage() {
           </div>
 
           {/* Summary Cards */}
-          <div className="grid grid-cols-1 md:grid-cols-6 gap-4 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-7 gap-4 mb-6">
             <div className="bg-white rounded-lg shadow p-4">
               <div className="flex items-center">
                 <div className="flex-shrink-0">
@@ -461,8 +585,8 @@ export default function QuoteRequestsPage() {
                   <FaSpinner className="h-6 w-6 text-blue-500" />
                 </div>
                 <div className="ml-3">
-                  <p className="text-sm font-medium text-gray-500">Review</p>
-                  <p className="text-lg font-bold text-gray-900">{summary.review}</p>
+                  <p className="text-sm font-medium text-gray-500">Under Review</p>
+                  <p className="text-lg font-bold text-gray-900">{summary.under_review}</p>
                 </div>
               </div>
             </div>
@@ -473,8 +597,8 @@ export default function QuoteRequestsPage() {
                   <FaDollarSign className="h-6 w-6 text-green-500" />
                 </div>
                 <div className="ml-3">
-                  <p className="text-sm font-medium text-gray-500">Quoted</p>
-                  <p className="text-lg font-bold text-gray-900">{summary.quoted}</p>
+                  <p className="text-sm font-medium text-gray-500">Quote Sent</p>
+                  <p className="text-lg font-bold text-gray-900">{summary.quote_sent}</p>
                 </div>
               </div>
             </div>
@@ -497,8 +621,20 @@ export default function QuoteRequestsPage() {
                   <FaTimes className="h-6 w-6 text-red-500" />
                 </div>
                 <div className="ml-3">
-                  <p className="text-sm font-medium text-gray-500">Declined</p>
-                  <p className="text-lg font-bold text-gray-900">{summary.declined}</p>
+                  <p className="text-sm font-medium text-gray-500">Rejected</p>
+                  <p className="text-lg font-bold text-gray-900">{summary.rejected}</p>
+                </div>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-4">
+              <div className="flex items-center">
+                <div className="flex-shrink-0">
+                  <FaHourglassEnd className="h-6 w-6 text-gray-500" />
+                </div>
+                <div className="ml-3">
+                  <p className="text-sm font-medium text-gray-500">Expired</p>
+                  <p className="text-lg font-bold text-gray-900">{summary.expired}</p>
                 </div>
               </div>
             </div>
@@ -516,52 +652,56 @@ export default function QuoteRequestsPage() {
                     className="border border-gray-300 rounded-md px-3 py-1 text-sm"
                   >
                     <option value="all">All Status</option>
-                    <option value="open">Open (Pending, Review, Quoted)</option>
-                    <option value="closed">Closed (Accepted, Declined)</option>
-                    <option value="pending">Pending</option>
-                    <option value="review">Review</option>
-                    <option value="quoted">Quoted</option>
-                    <option value="accepted">Accepted</option>
-                    <option value="declined">Declined</option>
+                    <option value="open">Open (Pending, Under Review, Quote Sent)</option>
+                    <option value="closed">Closed (Accepted, Rejected, Expired)</option>
+                    {Object.values(QuoteStatus).map(status => (
+                      <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                    ))}
                   </select>
                 </div>
+
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={myQueueOnly}
+                    onChange={(e) => setMyQueueOnly(e.target.checked)}
+                    className="mr-2"
+                  />
+                  My queue
+                </label>
+
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={overdueOnly}
+                    onChange={(e) => setOverdueOnly(e.target.checked)}
+                    className="mr-2"
+                  />
+                  Overdue only
+                </label>
                 
                 {selectedRequests.length > 0 && (
                   <div className="flex items-center space-x-2">
                     <button
-                      onClick={() => handleBulkAction('pending')}
-                      className="bg-yellow-600 hover:bg-yellow-700 text-white px-3 py-1 rounded-md text-sm font-medium flex items-center"
-                    >
-                      <FaClock className="mr-1" />
-                      Pending {selectedRequests.length}
-                    </button>
-                    <button
-                      onClick={() => handleBulkAction('review')}
+                      onClick={() => handleBulkAction(QuoteStatus.UNDER_REVIEW)}
                       className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded-md text-sm font-medium flex items-center"
                     >
                       <FaUserCheck className="mr-1" />
-                      Review {selectedRequests.length}
-                    </button>
-                    <button
-                      onClick={() => handleBulkAction('quoted')}
-                      className="bg-green-600 hover:bg-green-700 text-white px-3 py-1 rounded-md text-sm font-medium flex items-center"
-                    >
-                      <FaDollarSign className="mr-1" />
-                      Quoted {selectedRequests.length}
+                      Under Review {selectedRequests.length}
                     </button>
                     <button
-                      onClick={() => handleBulkAction('accepted')}
+                      onClick={() => handleBulkAction(QuoteStatus.ACCEPTED)}
                       className="bg-green-800 hover:bg-green-900 text-white px-3 py-1 rounded-md text-sm font-medium flex items-center"
                     >
                       <FaCheck className="mr-1" />
                       Accepted {selectedRequests.length}
                     </button>
                     <button
-                      onClick={() => handleBulkAction('declined')}
+                      onClick={() => handleBulkAction(QuoteStatus.REJECTED)}
                       className="bg-red-600 hover:bg-red-700 text-white px-3 py-1 rounded-md text-sm font-medium flex items-center"
                     >
                       <FaBan className="mr-1" />
-                      Declined {selectedRequests.length}
+                      Rejected {selectedRequests.length}
                     </button>
                     <button
                       onClick={() => handleBulkDelete()}
@@ -635,7 +775,7 @@ export default function QuoteRequestsPage() {
                         <td className="px-3 py-4 w-48">
                           <div className="text-sm">
                             <div className="font-medium text-gray-900 text-xs">
-                              {request.serviceClass} - {request.service.replace(/-/g, ' ')}
+                              {request.serviceClass && `${request.serviceClass} - `}{request.service.replace(/-/g, ' ')}
                             </div>
                             <div className="text-gray-500 truncate text-xs" title={request.details}>
                               {request.details.length > 50 ? request.details.substring(0, 50) + '...' : request.details}
@@ -665,12 +805,43 @@ export default function QuoteRequestsPage() {
                               <FaPhone className="h-3 w-3 mr-1" />
                               {request.phone}
                             </div>
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {request.possibleDuplicateOf && (
+                                <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                                  Possible duplicate
+                                </span>
+                              )}
+                              {request.existingContractIds.length > 0 ? (
+                                <span
+                                  className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800"
+                                  title={request.existingContractIds.join(', ')}
+                                >
+                                  Existing customer
+                                </span>
+                              ) : request.previousQuoteIds.length > 0 && (
+                                <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                                  Repeat customer
+                                </span>
+                              )}
+                            </div>
                           </div>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="flex items-center justify-center">
                             {getStatusIcon(request.status)}
                           </div>
+                          {request.isOverdue ? (
+                            <div
+                              className="mt-1 text-xs font-medium text-red-600 text-center"
+                              title={`First response was due ${formatDate(request.firstResponseDueAt)}`}
+                            >
+                              Overdue ({request.priority})
+                            </div>
+                          ) : request.status === QuoteStatus.PENDING && (
+                            <div className="mt-1 text-xs text-gray-400 text-center">
+                              Respond by {formatDate(request.firstResponseDueAt)}
+                            </div>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                           <div className="font-medium text-gray-900">{request.fullName}</div>
@@ -690,25 +861,50 @@ export default function QuoteRequestsPage() {
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                           <div className="flex space-x-2 items-center">
+                            {currentAdmin?.email && request.assignedTo !== currentAdmin.email && OPEN_STATUSES.includes(request.status) && (
+                              <button
+                                onClick={() => handleAssign(request.id, currentAdmin.email)}
+                                className="text-indigo-600 hover:text-indigo-900 p-1"
+                                title="Assign to Me"
+                              >
+                                <FaUser className="h-4 w-4" />
+                              </button>
+                            )}
+
+                            {!request.assignedTo && OPEN_STATUSES.includes(request.status) && (
+                              <button
+                                onClick={() => handleAssign(request.id)}
+                                className="text-indigo-400 hover:text-indigo-700 p-1 text-xs"
+                                title="Auto-assign to the next estimator"
+                              >
+                                Auto
+                              </button>
+                            )}
+
+                            {request.possibleDuplicateOf && (
+                              <button
+                                onClick={() => handleMergeDuplicate(request)}
+                                className="text-orange-600 hover:text-orange-900 p-1"
+                                title="Merge into Original Request"
+                              >
+                                <FaObjectGroup className="h-4 w-4" />
+                              </button>
+                            )}
+
                             {/* Show only the correct status icon based on current status */}
-                            {request.status === 'pending' && (
+                            {request.status === QuoteStatus.PENDING && (
                               <button
                                 onClick={() => handleQuickAction(request.id, 'review')}
                                 className="text-blue-600 hover:text-blue-900 p-1"
-                                title="Mark as Review"
+                                title="Mark as Under Review"
                               >
                                 <FaUserCheck className="h-4 w-4" />
                               </button>
                             )}
 
-                            {request.status === 'review' && (
+                            {request.status === QuoteStatus.UNDER_REVIEW && (
                               <button
-                                onClick={() => {
-                                  setSelectedRequest(request);
-                                  setAdminNotes(request.adminNotes || '');
-                                  setQuotedAmount(request.quotedAmount?.toString() || '');
-                                  setShowQuoteModal(true);
-                                }}
+                                onClick={() => openQuoteModal(request)}
                                 className="text-green-600 hover:text-green-900 p-1"
                                 title="Send Quote"
                               >
@@ -716,7 +912,7 @@ export default function QuoteRequestsPage() {
                               </button>
                             )}
 
-                            {request.status === 'quoted' && (
+                            {request.status === QuoteStatus.QUOTE_SENT && (
                               <button
                                 onClick={() => handleQuickAction(request.id, 'accept')}
                                 className="text-green-600 hover:text-green-900 p-1"
@@ -726,7 +922,7 @@ export default function QuoteRequestsPage() {
                               </button>
                             )}
 
-                            {(request.status === 'accepted' || request.status === 'declined') && (
+                            {canTransitionQuoteStatus(request.status, QuoteStatus.UNDER_REVIEW) && request.status !== QuoteStatus.PENDING && (
                               <button
                                 onClick={() => handleQuickAction(request.id, 'review')}
                                 className="text-yellow-600 hover:text-yellow-900 p-1"
@@ -739,14 +935,17 @@ export default function QuoteRequestsPage() {
                             {/* Status dropdown */}
                             <select
                               value={request.status}
-                              onChange={(e) => handleStatusChange(request.id, e.target.value)}
+                              onChange={(e) => handleStatusChange(request.id, e.target.value as QuoteStatus)}
                               className="text-xs border border-gray-300 rounded px-2 py-1"
                             >
-                              <option value="pending">Pending</option>
-                              <option value="review">Review</option>
-                              <option value="quoted">Quoted</option>
-                              <option value="accepted">Accepted</option>
-                              <option value="declined">Declined</option>
+                              {/* Only moves the state machine allows; quotes are sent from the quote modal */}
+                              {Object.values(QuoteStatus)
+                                .filter(status => status === request.status || (
+                                  status !== QuoteStatus.QUOTE_SENT && canTransitionQuoteStatus(request.status, status)
+                                ))
+                                .map(status => (
+                                  <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                                ))}
                             </select>
 
                             {/* View Details button - always show */}
@@ -785,7 +984,7 @@ export default function QuoteRequestsPage() {
           {/* Send Quote Modal */}
           {showQuoteModal && selectedRequest && (
             <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
-              <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+              <div className="relative top-20 mx-auto p-5 border w-full max-w-4xl shadow-lg rounded-md bg-white">
                 <div className="mt-3">
                   <div className="flex items-center justify-between mb-4">
                     <h3 className="text-lg font-medium text-gray-900">
@@ -807,18 +1006,24 @@ export default function QuoteRequestsPage() {
                       Service: {selectedRequest.service.replace(/-/g, ' ')}
                     </p>
                     
+                    {selectedRequest.estimateRevisions && selectedRequest.estimateRevisions.length > 0 && (
+                      <p className="text-sm text-gray-500 mb-4">
+                        Sending creates revision {selectedRequest.estimateRevisions.length + 1}
+                      </p>
+                    )}
+
                     <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Quote Amount ($)
+                      Service Address
                     </label>
                     <input
-                      type="number"
-                      value={quotedAmount}
-                      onChange={(e) => setQuotedAmount(e.target.value)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                      placeholder="Enter quote amount"
-                      min="0"
-                      step="0.01"
+                      type="text"
+                      value={serviceAddress}
+                      onChange={(e) => setServiceAddress(e.target.value)}
+                      className="w-full px-3 py-2 mb-4 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="Street, city, state and ZIP where the work will be done"
                     />
+
+                    <EstimateEditor value={estimateDraft} onChange={setEstimateDraft} />
                     
                     <label className="block text-sm font-medium text-gray-700 mb-2 mt-4">
                       Admin Notes (optional)
@@ -832,6 +1037,10 @@ export default function QuoteRequestsPage() {
                     />
                   </div>
 
+                  {quoteError && (
+                    <p className="text-sm text-red-600 mb-3">{quoteError}</p>
+                  )}
+
                   <div className="flex justify-end space-x-3">
                     <button
                       onClick={() => setShowQuoteModal(false)}
@@ -840,14 +1049,8 @@ export default function QuoteRequestsPage() {
                       Cancel
                     </button>
                     <button
-                      onClick={() => {
-                        const amount = parseFloat(quotedAmount);
-                        if (amount > 0) {
-                          handleSendQuote(selectedRequest.id, amount, adminNotes);
-                        }
-                      }}
+                      onClick={() => handleSendQuote(selectedRequest.id, estimateDraft, serviceAddress, adminNotes)}
                       className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700"
-                      disabled={!quotedAmount || parseFloat(quotedAmount) <= 0}
                     >
                       Send Quote
                     </button>
@@ -909,7 +1112,7 @@ export default function QuoteRequestsPage() {
                         <div>
                           <span className="font-medium text-gray-700">Status:</span>
                           <span className="ml-2">{getStatusIcon(detailsRequest.status)}</span>
-                          <span className="ml-1 text-gray-900 capitalize">{detailsRequest.status}</span>
+                          <span className="ml-1 text-gray-900">{STATUS_LABELS[detailsRequest.status]}</span>
                         </div>
                       </div>
                     </div>
@@ -950,6 +1153,21 @@ export default function QuoteRequestsPage() {
                               <span className="ml-2 text-gray-900">{formatDate(detailsRequest.quotedAt)}</span>
                             </div>
                           )}
+                          {detailsRequest.estimateRevisions && detailsRequest.estimateRevisions.length > 0 && (
+                            <div>
+                              <span className="font-medium text-gray-700">Estimate Revisions:</span>
+                              <ul className="mt-1 space-y-1">
+                                {detailsRequest.estimateRevisions.slice().reverse().map(revision => (
+                                  <li key={revision.version} className="text-sm text-gray-900">
+                                    r{revision.version} - ${revision.totals.total.toLocaleString()}
+                                    {' '}({revision.estimate.lineItems.length} items)
+                                    {' '}by {revision.createdBy || 'Admin'} on {formatDate(new Date(revision.createdAt))}
+                                    {revision.sentAt ? ' - emailed' : ''}
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
+                          )}
                         </div>
                       </div>
                     )}
@@ -962,27 +1180,68 @@ export default function QuoteRequestsPage() {
                           <span className="font-medium text-gray-700">Submitted:</span>
                           <span className="ml-2 text-gray-900">{formatDate(detailsRequest.submittedAt)}</span>
                         </div>
-                        {detailsRequest.reviewedAt && (
-                          <div>
-                            <span className="font-medium text-gray-700">Reviewed:</span>
-                            <span className="ml-2 text-gray-900">{formatDate(detailsRequest.reviewedAt)}</span>
-                          </div>
-                        )}
                         {detailsRequest.assignedTo && (
                           <div>
                             <span className="font-medium text-gray-700">Assigned To:</span>
                             <span className="ml-2 text-gray-900">{detailsRequest.assignedTo}</span>
                           </div>
                         )}
-                        {detailsRequest.submittedBy && (
+                        {detailsRequest.status === QuoteStatus.PENDING && (
+                          <div>
+                            <span className="font-medium text-gray-700">First Response Due:</span>
+                            <span className={`ml-2 ${detailsRequest.isOverdue ? 'text-red-600 font-medium' : 'text-gray-900'}`}>
+                              {formatDate(detailsRequest.firstResponseDueAt)}{detailsRequest.isOverdue && ' (overdue)'}
+                            </span>
+                          </div>
+                        )}
+                        {detailsRequest.updatedBy && (
                           <div>
                             <span className="font-medium text-gray-700">Last Updated By:</span>
-                            <span className="ml-2 text-gray-900">{detailsRequest.submittedBy}</span>
+                            <span className="ml-2 text-gray-900">{detailsRequest.updatedBy}</span>
                           </div>
                         )}
                       </div>
                     </div>
 
+                    {/* Customer History */}
+                    {(detailsRequest.possibleDuplicateOf || detailsRequest.previousQuoteIds.length > 0 || detailsRequest.existingContractIds.length > 0) && (
+                      <div className="md:col-span-2 bg-orange-50 p-4 rounded-lg">
+                        <h4 className="font-semibold text-gray-900 mb-3">Customer History</h4>
+                        <div className="space-y-2">
+                          {detailsRequest.possibleDuplicateOf && (
+                            <div className="flex flex-wrap items-center gap-2">
+                              <span className="font-medium text-gray-700">Possible duplicate of:</span>
+                              <span className="text-gray-900 font-mono text-sm">{detailsRequest.possibleDuplicateOf}</span>
+                              <button
+                                onClick={() => handleMergeDuplicate(detailsRequest)}
+                                className="px-3 py-1 bg-orange-600 text-white rounded-md text-sm hover:bg-orange-700"
+                              >
+                                Merge into Original
+                              </button>
+                              <button
+                                onClick={() => handleDismissDuplicate(detailsRequest.id)}
+                                className="px-3 py-1 bg-gray-200 text-gray-800 rounded-md text-sm hover:bg-gray-300"
+                              >
+                                Not a Duplicate
+                              </button>
+                            </div>
+                          )}
+                          {detailsRequest.previousQuoteIds.length > 0 && (
+                            <div>
+                              <span className="font-medium text-gray-700">Previous Requests:</span>
+                              <span className="ml-2 text-gray-900">{detailsRequest.previousQuoteIds.length}</span>
+                            </div>
+                          )}
+                          {detailsRequest.existingContractIds.length > 0 && (
+                            <div>
+                              <span className="font-medium text-gray-700">Existing Contracts:</span>
+                              <span className="ml-2 text-gray-900">{detailsRequest.existingContractIds.join(', ')}</span>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    )}
+
                     {/* Admin Notes */}
                     {detailsRequest.adminNotes && (
                       <div className="md:col-span-2 bg-yellow-50 p-4 rounded-lg">
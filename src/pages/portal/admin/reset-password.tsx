@@ -55,7 +55,6 @@ const ResetPasswordPage: React.FC = () => {
         headers: {
           'Content-Type': 'application/json',
         },
-        credentials: 'include', // Enable cookies
         body: JSON.stringify({ token, newPassword: password }),
       });
 
@@ -63,10 +62,9 @@ const ResetPasswordPage: React.FC = () => {
 
       if (data.success) {
         setSuccess(true);
-        // Authentication cookies are set automatically by the server
-        // Redirect after a short delay
+        // Every session ended with the reset, so sign in with the new password
         setTimeout(() => {
-          router.push('/portal/admin/dashboard');
+          router.push('/portal/admin/login');
         }, 2000);
       } else {
         setError(data.message || 'Failed to reset password');
@@ -133,7 +131,7 @@ const ResetPasswordPage: React.FC = () => {
                       Password Reset Successfully
                     </h3>
                     <p className="mt-2 text-sm text-green-700">
-                      Your password has been updated. Redirecting to admin dashboard...
+                      Your password has been updated. Redirecting to sign in...
                     </p>
                   </div>
                 </div>
@@ -0,0 +1,452 @@
+/**
+ * Admin Roles Page
+ * Custom roles such as Estimator or Crew Lead built from the permission catalog, and who holds them
+ */
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import { FaArrowLeft, FaEdit, FaLock, FaPlus, FaTrash, FaUserTag } from 'react-icons/fa';
+import { portalFetch } from '../../../lib/portal-fetch';
+
+interface RoleSummary {
+  id: string;
+  name: string;
+  description?: string;
+  isSystemRole: boolean;
+  permissions: string[];
+  holders: number;
+  updatedAt: string;
+}
+
+interface CatalogPermission {
+  name: string;
+  resource: string;
+  action: string;
+  description?: string;
+  conditional: boolean;
+}
+
+interface Assignment {
+  userId: string;
+  userEmail?: string;
+  userName?: string;
+  roleId: string;
+  assignedBy: string;
+  assignedAt: string;
+}
+
+interface StaffUser {
+  id: string;
+  email: string;
+  name: string;
+  role: 'admin' | 'employee';
+}
+
+interface RoleForm {
+  id?: string;
+  name: string;
+  description: string;
+  permissions: string[];
+}
+
+const EMPTY_FORM: RoleForm = { name: '', description: '', permissions: [] };
+
+export default function RolesPage() {
+  const router = useRouter();
+  const [roles, setRoles] = useState<RoleSummary[]>([]);
+  const [permissions, setPermissions] = useState<CatalogPermission[]>([]);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [users, setUsers] = useState<StaffUser[]>([]);
+  const [grantable, setGrantable] = useState<string[]>([]);
+  const [form, setForm] = useState<RoleForm | null>(null);
+  const [assigning, setAssigning] = useState({ userId: '', roleId: '' });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadRoles();
+  }, []);
+
+  const loadRoles = async () => {
+    try {
+      const response = await portalFetch('/api/admin/roles');
+      if (response.status === 401) {
+        router.push('/portal/admin/login');
+        return;
+      }
+
+      const data = await response.json();
+      if (data.success) {
+        setRoles(data.roles);
+        setPermissions(data.permissions);
+        setAssignments(data.assignments);
+        setUsers(data.users);
+        setGrantable(data.grantable);
+      } else {
+        setError(data.error || 'Failed to load roles');
+      }
+    } catch (error) {
+      console.error('Failed to load roles:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Sends a change and reloads; returns whether it went through
+  const submit = async (url: string, method: string, body: unknown, fallbackError: string): Promise<boolean> => {
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await portalFetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || fallbackError);
+        return false;
+      }
+
+      await loadRoles();
+      return true;
+    } catch (error) {
+      console.error(fallbackError, error);
+      setError(fallbackError);
+      return false;
+    }
+  };
+
+  const saveRole = async () => {
+    if (!form) return;
+    const body = { name: form.name, description: form.description, permissions: form.permissions };
+    const saved = form.id
+      ? await submit(`/api/admin/roles/${form.id}`, 'PUT', body, 'Failed to update role')
+      : await submit('/api/admin/roles', 'POST', body, 'Failed to create role');
+
+    if (saved) {
+      setNotice(form.id ? `Role "${form.name}" updated` : `Role "${form.name}" created`);
+      setForm(null);
+    }
+  };
+
+  const deleteRole = async (role: RoleSummary) => {
+    const holders = role.holders === 1 ? '1 person' : `${role.holders} people`;
+    if (!confirm(`Delete the "${role.name}" role? It is taken away from ${holders}.`)) return;
+    if (await submit(`/api/admin/roles/${role.id}`, 'DELETE', {}, 'Failed to delete role')) {
+      setNotice(`Role "${role.name}" deleted`);
+    }
+  };
+
+  const assignRole = async () => {
+    if (!assigning.userId || !assigning.roleId) {
+      setError('Choose a person and a role');
+      return;
+    }
+    if (await submit('/api/admin/roles/assignments', 'POST', assigning, 'Failed to assign role')) {
+      setNotice('Role assigned');
+      setAssigning({ userId: '', roleId: '' });
+    }
+  };
+
+  const revokeRole = async (assignment: Assignment) => {
+    const body = { userId: assignment.userId, roleId: assignment.roleId };
+    if (await submit('/api/admin/roles/assignments', 'DELETE', body, 'Failed to remove role')) {
+      setNotice('Role removed');
+    }
+  };
+
+  const togglePermission = (name: string) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      permissions: form.permissions.includes(name)
+        ? form.permissions.filter(permission => permission !== name)
+        : [...form.permissions, name]
+    });
+  };
+
+  const roleName = (roleId: string) => roles.find(role => role.id === roleId)?.name || 'Unknown role';
+  const resources = Array.from(new Set(permissions.map(permission => permission.resource)));
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading roles...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Roles | Admin Portal</title>
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-screen bg-gray-100">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Header */}
+          <div className="mb-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Roles &amp; Permissions</h1>
+                <p className="text-gray-600 mt-1">
+                  Build roles from the permission catalog and give them to admins and employees.
+                </p>
+              </div>
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => setForm({ ...EMPTY_FORM })}
+                  className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                >
+                  <FaPlus className="mr-2" />
+                  New Role
+                </button>
+                <button
+                  onClick={() => router.push('/portal/admin/dashboard')}
+                  className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  <FaArrowLeft className="mr-2" />
+                  Back to Admin Portal
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {error && (
+            <div className="mb-4 rounded-md bg-red-50 p-4 text-sm text-red-700">{error}</div>
+          )}
+          {notice && (
+            <div className="mb-4 rounded-md bg-green-50 p-4 text-sm text-green-700">{notice}</div>
+          )}
+
+          {/* Role editor */}
+          {form && (
+            <div className="bg-white rounded-lg shadow p-6 mb-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">{form.id ? 'Edit Role' : 'New Role'}</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={e => setForm({ ...form, name: e.target.value })}
+                    placeholder="e.g. Estimator"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                  <input
+                    type="text"
+                    value={form.description}
+                    onChange={e => setForm({ ...form, description: e.target.value })}
+                    placeholder="What this role is for"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {resources.map(resource => (
+                  <div key={resource}>
+                    <h3 className="text-sm font-semibold text-gray-700 capitalize mb-2">{resource}</h3>
+                    <div className="space-y-2">
+                      {permissions.filter(permission => permission.resource === resource).map(permission => (
+                        <label
+                          key={permission.name}
+                          className={`flex items-start space-x-2 ${grantable.includes(permission.name) ? '' : 'opacity-50'}`}
+                          title={grantable.includes(permission.name) ? undefined : 'You do not hold this permission'}
+                        >
+                          <input
+                            type="checkbox"
+                            checked={form.permissions.includes(permission.name)}
+                            disabled={!grantable.includes(permission.name)}
+                            onChange={() => togglePermission(permission.name)}
+                            className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                          />
+                          <span className="text-sm text-gray-900">
+                            {permission.description || permission.name}
+                            <span className="block text-xs text-gray-500">
+                              {permission.name}{permission.conditional && ' · own records only'}
+                            </span>
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex justify-end space-x-3 mt-6">
+                <button
+                  onClick={() => setForm(null)}
+                  className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={saveRole}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                >
+                  {form.id ? 'Save Changes' : 'Create Role'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Roles */}
+          <div className="bg-white rounded-lg shadow overflow-hidden mb-6">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Role</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Permissions</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Assigned To</th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {roles.map(role => (
+                  <tr key={role.id}>
+                    <td className="px-6 py-4">
+                      <p className="text-sm font-medium text-gray-900">
+                        {role.name}
+                        {role.isSystemRole && (
+                          <span className="ml-2 inline-flex items-center px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">
+                            <FaLock className="mr-1" />
+                            System
+                          </span>
+                        )}
+                      </p>
+                      {role.description && <p className="text-xs text-gray-500">{role.description}</p>}
+                    </td>
+                    <td className="px-6 py-4 text-xs text-gray-700">
+                      {role.permissions.length > 0 ? role.permissions.join(', ') : '—'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {role.isSystemRole ? '—' : role.holders}
+                    </td>
+                    <td className="px-6 py-4 text-right whitespace-nowrap">
+                      {!role.isSystemRole && (
+                        <>
+                          <button
+                            onClick={() => setForm({
+                              id: role.id,
+                              name: role.name,
+                              description: role.description || '',
+                              permissions: role.permissions
+                            })}
+                            className="inline-flex items-center px-3 py-1 text-sm text-blue-700 hover:text-blue-900"
+                          >
+                            <FaEdit className="mr-1" />
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => deleteRole(role)}
+                            className="inline-flex items-center px-3 py-1 text-sm text-red-700 hover:text-red-900"
+                          >
+                            <FaTrash className="mr-1" />
+                            Delete
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="px-6 py-3 text-xs text-gray-500 border-t border-gray-200">
+              System roles come with admin accounts and cannot be changed. You can only grant permissions you hold yourself.
+            </p>
+          </div>
+
+          {/* Assignments */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="flex items-center space-x-2 mb-4">
+              <FaUserTag className="text-gray-500" />
+              <h2 className="text-lg font-semibold text-gray-900">Who Holds Which Role</h2>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+              <select
+                value={assigning.userId}
+                onChange={e => setAssigning({ ...assigning, userId: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+              >
+                <option value="">Choose a person...</option>
+                {users.map(user => (
+                  <option key={user.id} value={user.id}>
+                    {user.name || user.email} ({user.role})
+                  </option>
+                ))}
+              </select>
+              <select
+                value={assigning.roleId}
+                onChange={e => setAssigning({ ...assigning, roleId: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+              >
+                <option value="">Choose a role...</option>
+                {roles.filter(role => !role.isSystemRole).map(role => (
+                  <option key={role.id} value={role.id}>{role.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={assignRole}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700"
+              >
+                Assign
+              </button>
+            </div>
+
+            {assignments.length === 0 ? (
+              <p className="text-sm text-gray-500">No roles have been assigned yet.</p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Person</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Role</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Assigned</th>
+                    <th className="px-6 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {assignments.map(assignment => (
+                    <tr key={`${assignment.userId}:${assignment.roleId}`}>
+                      <td className="px-6 py-4">
+                        <p className="text-sm font-medium text-gray-900">
+                          {assignment.userName || assignment.userEmail || 'Removed account'}
+                        </p>
+                        {assignment.userEmail && <p className="text-xs text-gray-500">{assignment.userEmail}</p>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">{roleName(assignment.roleId)}</td>
+                      <td className="px-6 py-4 text-xs text-gray-500">
+                        {new Date(assignment.assignedAt).toLocaleDateString()} by {assignment.assignedBy}
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <button
+                          onClick={() => revokeRole(assignment)}
+                          className="px-3 py-1 text-sm text-red-700 hover:text-red-900"
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,286 @@
+/**
+ * Admin Security Page
+ * Two-factor enrollment across staff accounts, which roles must use it, and super admin resets for lost authenticators
+ */
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import { FaArrowLeft, FaShieldAlt, FaUndo } from 'react-icons/fa';
+import { portalFetch } from '../../../lib/portal-fetch';
+
+interface TwoFactorUser {
+  id: string;
+  email: string;
+  name: string;
+  role: 'admin' | 'employee';
+  status: string;
+  twoFactorEnabled: boolean;
+  twoFactorRequired: boolean;
+  enabledAt?: string;
+  recoveryCodesRemaining: number;
+}
+
+interface TwoFactorPolicy {
+  requiredRoles: Array<'admin' | 'employee'>;
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+const ROLE_LABELS: Record<TwoFactorPolicy['requiredRoles'][number], string> = {
+  admin: 'Admins',
+  employee: 'Employees'
+};
+
+export default function SecurityPage() {
+  const router = useRouter();
+  const [policy, setPolicy] = useState<TwoFactorPolicy | null>(null);
+  const [users, setUsers] = useState<TwoFactorUser[]>([]);
+  const [canReset, setCanReset] = useState(false);
+  const [resetting, setResetting] = useState<{ userId: string; reason: string } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSecurity();
+  }, []);
+
+  const loadSecurity = async () => {
+    try {
+      const response = await portalFetch('/api/admin/security/two-factor');
+      if (response.status === 401) {
+        router.push('/portal/admin/login');
+        return;
+      }
+
+      const data = await response.json();
+      if (data.success) {
+        setPolicy(data.policy);
+        setUsers(data.users);
+        setCanReset(data.canReset);
+      }
+    } catch (error) {
+      console.error('Failed to load security settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleRequired = async (role: 'admin' | 'employee', required: boolean) => {
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await portalFetch('/api/admin/security/two-factor', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role, required })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to update two-factor policy');
+        return;
+      }
+
+      setNotice(required
+        ? `${ROLE_LABELS[role]} without two-factor will be asked to set it up at their next sign-in`
+        : `${ROLE_LABELS[role]} are no longer required to use two-factor`);
+      await loadSecurity();
+    } catch (error) {
+      console.error('Failed to update two-factor policy:', error);
+      setError('Failed to update two-factor policy');
+    }
+  };
+
+  const resetTwoFactor = async () => {
+    if (!resetting) return;
+    if (!resetting.reason.trim()) {
+      setError('Give a reason for the reset; it is recorded in the audit log');
+      return;
+    }
+
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await portalFetch('/api/admin/security/two-factor', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(resetting)
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to reset two-factor authentication');
+        return;
+      }
+
+      setNotice(data.message);
+      setResetting(null);
+      await loadSecurity();
+    } catch (error) {
+      console.error('Failed to reset two-factor authentication:', error);
+      setError('Failed to reset two-factor authentication');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading security settings...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Security | Admin Portal</title>
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-screen bg-gray-100">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Header */}
+          <div className="mb-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Security</h1>
+                <p className="text-gray-600 mt-1">
+                  Two-factor authentication for admin and employee sign-ins.
+                </p>
+              </div>
+              <button
+                onClick={() => router.push('/portal/admin/dashboard')}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <FaArrowLeft className="mr-2" />
+                Back to Admin Portal
+              </button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="mb-4 rounded-md bg-red-50 p-4 text-sm text-red-700">{error}</div>
+          )}
+          {notice && (
+            <div className="mb-4 rounded-md bg-green-50 p-4 text-sm text-green-700">{notice}</div>
+          )}
+
+          {/* Policy */}
+          {policy && (
+            <div className="bg-white rounded-lg shadow p-6 mb-6">
+              <div className="flex items-center space-x-2 mb-4">
+                <FaShieldAlt className="text-gray-500" />
+                <h2 className="text-lg font-semibold text-gray-900">Required For</h2>
+              </div>
+              <div className="space-y-3">
+                {(Object.keys(ROLE_LABELS) as Array<'admin' | 'employee'>).map(role => (
+                  <label key={role} className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      checked={policy.requiredRoles.includes(role)}
+                      onChange={e => toggleRequired(role, e.target.checked)}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                    />
+                    <span className="text-sm text-gray-900">{ROLE_LABELS[role]}</span>
+                  </label>
+                ))}
+              </div>
+              {policy.updatedBy && policy.updatedAt && (
+                <p className="mt-4 text-xs text-gray-500">
+                  Last changed by {policy.updatedBy} on {new Date(policy.updatedAt).toLocaleString()}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Staff accounts */}
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">User</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Role</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Two-Factor</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Recovery Codes</th>
+                  {canReset && <th className="px-6 py-3" />}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {users.map(user => (
+                  <tr key={user.id}>
+                    <td className="px-6 py-4">
+                      <p className="text-sm font-medium text-gray-900">{user.name || user.email}</p>
+                      <p className="text-xs text-gray-500">{user.email}</p>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900 capitalize">{user.role}</td>
+                    <td className="px-6 py-4">
+                      {user.twoFactorEnabled ? (
+                        <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                          On{user.enabledAt && ` since ${new Date(user.enabledAt).toLocaleDateString()}`}
+                        </span>
+                      ) : (
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                          user.twoFactorRequired ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-800'
+                        }`}>
+                          {user.twoFactorRequired ? 'Set up at next sign-in' : 'Off'}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {user.twoFactorEnabled ? user.recoveryCodesRemaining : '—'}
+                    </td>
+                    {canReset && (
+                      <td className="px-6 py-4 text-right">
+                        {user.twoFactorEnabled && (resetting?.userId === user.id ? (
+                          <div className="flex items-center justify-end gap-2">
+                            <input
+                              type="text"
+                              value={resetting.reason}
+                              onChange={e => setResetting({ userId: user.id, reason: e.target.value })}
+                              placeholder="Reason (e.g. lost phone)"
+                              className="px-2 py-1 border border-gray-300 rounded text-sm text-gray-900"
+                            />
+                            <button
+                              onClick={resetTwoFactor}
+                              className="px-3 py-1 bg-red-600 text-white rounded text-sm hover:bg-red-700"
+                            >
+                              Reset
+                            </button>
+                            <button
+                              onClick={() => setResetting(null)}
+                              className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        ) : (
+                          <button
+                            onClick={() => setResetting({ userId: user.id, reason: '' })}
+                            className="inline-flex items-center px-3 py-1 text-sm text-red-700 hover:text-red-900"
+                          >
+                            <FaUndo className="mr-1" />
+                            Reset Two-Factor
+                          </button>
+                        ))}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {!canReset && (
+              <p className="px-6 py-3 text-xs text-gray-500 border-t border-gray-200">
+                Only a super admin can reset someone&apos;s two-factor authentication.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,547 @@
+/**
+ * Admin Service Log Review Page
+ * Supervisor queue for crew service log entries, with approval, rejection and per-property billing history
+ */
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import {
+  FaArrowLeft,
+  FaCheckCircle,
+  FaClipboardList,
+  FaFileExcel,
+  FaFileUpload,
+  FaLock,
+  FaSearch,
+  FaTimesCircle,
+  FaUser
+} from 'react-icons/fa';
+import type { ServiceLogEntryResponse } from '@/presentation/api/ServiceLogPresenter';
+import type { ServiceLogSummary } from '@/domain/servicelog/ServiceLogEntry';
+import { portalFetch } from '../../../lib/portal-fetch';
+
+const STATUS_TABS: Array<{ value: string; label: string }> = [
+  { value: 'submitted', label: 'Awaiting Review' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'all', label: 'All' }
+];
+
+interface ImportProblem {
+  row: number;
+  field?: string;
+  message: string;
+}
+
+const isoDate = (date: Date) => date.toISOString().split('T')[0];
+
+const STATUS_COLORS: Record<string, string> = {
+  submitted: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800'
+};
+
+export default function ServiceLogReviewPage() {
+  const router = useRouter();
+  const [entries, setEntries] = useState<ServiceLogEntryResponse[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [summary, setSummary] = useState<ServiceLogSummary | null>(null);
+  const [filterStatus, setFilterStatus] = useState('submitted');
+  const [propertyInput, setPropertyInput] = useState('');
+  const [propertyCode, setPropertyCode] = useState('');
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [yards, setYards] = useState<string[]>([]);
+  const [supplyingYards, setSupplyingYards] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reportFrom, setReportFrom] = useState(() => isoDate(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)));
+  const [reportTo, setReportTo] = useState(() => isoDate(new Date()));
+  const [reportProperty, setReportProperty] = useState('');
+  const [reportClient, setReportClient] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [importProblems, setImportProblems] = useState<ImportProblem[]>([]);
+
+  useEffect(() => {
+    checkAdminAuth();
+    loadEntries();
+  }, [filterStatus, propertyCode]);
+
+  useEffect(() => {
+    loadYards();
+  }, []);
+
+  const checkAdminAuth = async () => {
+    try {
+      const response = await portalFetch('/api/admin/dashboard');
+
+      if (!response.ok) {
+        router.push('/portal/admin/login');
+      }
+    } catch (error) {
+      console.error('Auth check failed:', error);
+      router.push('/portal/admin/login');
+    }
+  };
+
+  const loadEntries = async () => {
+    try {
+      const params = new URLSearchParams({ status: filterStatus });
+      if (propertyCode) {
+        params.set('propertyCode', propertyCode);
+      }
+      const response = await portalFetch(`/api/admin/service-logs?${params.toString()}`);
+
+      if (response.ok) {
+        const data = await response.json();
+        setEntries(data.entries);
+        setCounts(data.counts);
+        setSummary(data.summary ?? null);
+      }
+    } catch (error) {
+      console.error('Failed to load service logs:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Approval draws materials down from the yard that supplied them
+  const loadYards = async () => {
+    try {
+      const response = await portalFetch('/api/admin/inventory');
+
+      if (response.ok) {
+        const data = await response.json();
+        setYards(data.yards);
+      }
+    } catch (error) {
+      console.error('Failed to load yards:', error);
+    }
+  };
+
+  const reviewEntry = async (entry: ServiceLogEntryResponse, action: 'approve' | 'reject') => {
+    const comment = comments[entry.id]?.trim() || undefined;
+    if (action === 'reject' && !comment) {
+      setError('Add a comment telling the crew what to correct');
+      return;
+    }
+
+    setError(null);
+    try {
+      const response = await portalFetch(`/api/admin/service-logs/${entry.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, comment, yard: supplyingYards[entry.id] || undefined })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to review entry');
+        return;
+      }
+
+      setComments(prev => ({ ...prev, [entry.id]: '' }));
+      await loadEntries();
+    } catch (error) {
+      console.error('Failed to review entry:', error);
+      setError('Failed to review entry');
+    }
+  };
+
+  const downloadReport = async () => {
+    setError(null);
+    setExporting(true);
+    try {
+      const params = new URLSearchParams({ from: reportFrom, to: reportTo });
+      if (reportProperty.trim()) params.set('propertyCode', reportProperty.trim());
+      if (reportClient.trim()) params.set('clientName', reportClient.trim());
+
+      const response = await portalFetch(`/api/admin/reports/service-report?${params.toString()}`);
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Failed to export report');
+        return;
+      }
+
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'service-report.xlsx';
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export report:', error);
+      setError('Failed to export report');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const importSpreadsheet = async () => {
+    if (!importFile) return;
+
+    setImporting(true);
+    setImportMessage(null);
+    setImportProblems([]);
+    try {
+      const formData = new FormData();
+      formData.append('file', importFile);
+      const response = await portalFetch('/api/admin/service-logs/import', {
+        method: 'POST',
+        body: formData
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setImportMessage(data.error || 'Import failed');
+        setImportProblems(data.errors || []);
+        return;
+      }
+
+      setImportMessage(`Imported ${data.imported} entries for review`);
+      setImportFile(null);
+      await loadEntries();
+    } catch (error) {
+      console.error('Failed to import service logs:', error);
+      setImportMessage('Import failed');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const showPropertyHistory = (code: string) => {
+    setPropertyInput(code);
+    setPropertyCode(code);
+    setFilterStatus('all');
+  };
+
+  const formatDate = (value: string) =>
+    new Date(`${value}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading service logs...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Service Logs | Admin Portal</title>
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-screen bg-gray-100">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Header */}
+          <div className="mb-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Service Logs</h1>
+                <p className="text-gray-600 mt-1">Review crew service entries before they are billed</p>
+              </div>
+              <button
+                onClick={() => router.push('/portal/admin/dashboard')}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <FaArrowLeft className="mr-2" />
+                Back to Admin Portal
+              </button>
+            </div>
+          </div>
+
+          {/* Filters */}
+          <div className="bg-white rounded-lg shadow p-4 mb-6 flex flex-wrap items-center justify-between gap-4">
+            <div className="flex flex-wrap gap-2">
+              {STATUS_TABS.map(tab => (
+                <button
+                  key={tab.value}
+                  onClick={() => setFilterStatus(tab.value)}
+                  className={`px-3 py-1.5 rounded text-sm ${filterStatus === tab.value ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                >
+                  {tab.label}
+                  {tab.value !== 'all' && ` (${counts[tab.value] ?? 0})`}
+                </button>
+              ))}
+            </div>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                setPropertyCode(propertyInput.trim().toUpperCase());
+              }}
+              className="flex items-center gap-2"
+            >
+              <input
+                type="text"
+                value={propertyInput}
+                onChange={(e) => setPropertyInput(e.target.value)}
+                placeholder="Property code"
+                className="px-3 py-1.5 border border-gray-300 rounded text-sm"
+              />
+              <button type="submit" className="flex items-center px-3 py-1.5 bg-gray-800 text-white rounded text-sm">
+                <FaSearch className="mr-1" />
+                History
+              </button>
+              {propertyCode && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setPropertyInput('');
+                    setPropertyCode('');
+                  }}
+                  className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded text-sm"
+                >
+                  Clear
+                </button>
+              )}
+            </form>
+          </div>
+
+          {/* Excel reports and legacy imports */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+            <div className="bg-white rounded-lg shadow p-4">
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">Excel service report</h2>
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <label className="flex flex-col">
+                  <span className="text-gray-500 mb-1">From</span>
+                  <input
+                    type="date"
+                    value={reportFrom}
+                    onChange={(e) => setReportFrom(e.target.value)}
+                    className="px-3 py-1.5 border border-gray-300 rounded"
+                  />
+                </label>
+                <label className="flex flex-col">
+                  <span className="text-gray-500 mb-1">To</span>
+                  <input
+                    type="date"
+                    value={reportTo}
+                    onChange={(e) => setReportTo(e.target.value)}
+                    className="px-3 py-1.5 border border-gray-300 rounded"
+                  />
+                </label>
+                <input
+                  type="text"
+                  value={reportProperty}
+                  onChange={(e) => {
+                    setReportProperty(e.target.value);
+                    setReportClient('');
+                  }}
+                  placeholder="Property code (optional)"
+                  className="px-3 py-1.5 border border-gray-300 rounded"
+                />
+                <input
+                  type="text"
+                  value={reportClient}
+                  onChange={(e) => {
+                    setReportClient(e.target.value);
+                    setReportProperty('');
+                  }}
+                  placeholder="or client name"
+                  className="px-3 py-1.5 border border-gray-300 rounded"
+                />
+              </div>
+              <button
+                onClick={downloadReport}
+                disabled={exporting || !reportFrom || !reportTo}
+                className="mt-3 flex items-center px-4 py-2 bg-green-600 text-white rounded text-sm hover:bg-green-700 disabled:opacity-50"
+              >
+                <FaFileExcel className="mr-2" />
+                {exporting ? 'Preparing...' : 'Download .xlsx'}
+              </button>
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-4">
+              <h2 className="text-lg font-semibold text-gray-900 mb-1">Import legacy crew logs</h2>
+              <p className="text-sm text-gray-500 mb-3">
+                One crew line per row. Rows with no date or property add crew to the entry above. Nothing is imported
+                until every row is valid.
+              </p>
+              <div className="flex items-center gap-2">
+                <input
+                  type="file"
+                  accept=".xlsx"
+                  onChange={(e) => setImportFile(e.target.files?.[0] ?? null)}
+                  className="text-sm"
+                />
+                <button
+                  onClick={importSpreadsheet}
+                  disabled={!importFile || importing}
+                  className="flex items-center px-4 py-2 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+                >
+                  <FaFileUpload className="mr-2" />
+                  {importing ? 'Importing...' : 'Import'}
+                </button>
+              </div>
+              {importMessage && (
+                <p className={`mt-3 text-sm ${importProblems.length ? 'text-red-700' : 'text-green-700'}`}>{importMessage}</p>
+              )}
+              {importProblems.length > 0 && (
+                <ul className="mt-2 max-h-48 overflow-y-auto text-sm text-red-700 space-y-1">
+                  {importProblems.map((problem, index) => (
+                    <li key={index}>
+                      {problem.row > 0 && <span className="font-medium">Row {problem.row}: </span>}
+                      {problem.field && `${problem.field} - `}
+                      {problem.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          {/* Property history summary */}
+          {propertyCode && summary && (
+            <div className="bg-white rounded-lg shadow p-4 mb-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">{propertyCode} billing history</h2>
+              <div className="grid grid-cols-2 md:grid-cols-6 gap-4 text-sm">
+                <div>
+                  <p className="text-gray-500">Entries</p>
+                  <p className="text-xl font-bold text-gray-900">{summary.entries}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Approved</p>
+                  <p className="text-xl font-bold text-gray-900">{summary.approved}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Approved hours</p>
+                  <p className="text-xl font-bold text-gray-900">{summary.approvedHours}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Billable</p>
+                  <p className="text-xl font-bold text-gray-900">${summary.approvedPayable.toFixed(2)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Ice melt / deicer</p>
+                  <p className="text-xl font-bold text-gray-900">
+                    {summary.materials.iceMeltBags} bags / {summary.materials.deicerGallons} gal
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Ice slicer</p>
+                  <p className="text-xl font-bold text-gray-900">{summary.materials.iceSlicerTons} tons</p>
+                </div>
+              </div>
+              {summary.pending > 0 && (
+                <p className="mt-3 text-sm text-yellow-700">{summary.pending} entr{summary.pending === 1 ? 'y is' : 'ies are'} still awaiting review.</p>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <div className="mb-4 rounded-md bg-red-50 px-4 py-3 text-sm text-red-800">{error}</div>
+          )}
+
+          {/* Entries */}
+          {entries.length === 0 ? (
+            <div className="bg-white rounded-lg shadow text-center py-12">
+              <FaClipboardList className="mx-auto h-12 w-12 text-gray-400" />
+              <p className="mt-2 text-sm text-gray-600">No service log entries to show.</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {entries.map(entry => (
+                <div key={entry.id} className="bg-white rounded-lg shadow p-4">
+                  <div className="flex flex-wrap items-start justify-between gap-4">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => showPropertyHistory(entry.propertyCode)}
+                          className="font-semibold text-blue-700 hover:underline"
+                        >
+                          {entry.propertyCode}
+                        </button>
+                        <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_COLORS[entry.status] || 'bg-gray-100 text-gray-800'}`}>
+                          {entry.status}
+                        </span>
+                        {entry.locked && <FaLock className="text-gray-400" title="Locked for billing" />}
+                      </div>
+                      <p className="text-sm text-gray-900 mt-1">
+                        {entry.serviceCode} - {entry.serviceName}: {entry.description}
+                      </p>
+                      <p className="text-sm text-gray-500">{entry.locationDescription}</p>
+                      <p className="text-sm text-gray-500 flex items-center mt-1">
+                        <FaUser className="mr-1" />
+                        {entry.submittedBy} · {formatDate(entry.serviceDate)} {entry.timeIn}–{entry.timeOut} ({entry.totalHours}h)
+                      </p>
+                    </div>
+                    <div className="text-right text-sm">
+                      <p className="text-lg font-bold text-gray-900">${entry.totalPayable.toFixed(2)}</p>
+                      <p className="text-gray-500">Contract ${entry.contractRate.toFixed(2)}</p>
+                      <p className="text-gray-500">
+                        {entry.crew.map(line => `${line.count} ${line.type}`).join(', ')}
+                      </p>
+                      <p className="text-gray-500">
+                        {entry.materials.iceMeltBags} bags · {entry.materials.deicerGallons} gal · {entry.materials.iceSlicerTons} t
+                      </p>
+                    </div>
+                  </div>
+
+                  {entry.reviews.length > 0 && (
+                    <ul className="mt-3 border-t border-gray-100 pt-2 space-y-1 text-xs text-gray-600">
+                      {entry.reviews.map(review => (
+                        <li key={review.reviewedAt}>
+                          {review.decision === 'approved' ? 'Approved' : 'Rejected'} by {review.reviewedBy} on{' '}
+                          {new Date(review.reviewedAt).toLocaleString()}
+                          {review.comment && `: ${review.comment}`}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {entry.status === 'submitted' && (
+                    <div className="mt-3 flex flex-wrap items-center gap-2">
+                      <input
+                        type="text"
+                        value={comments[entry.id] ?? ''}
+                        onChange={(e) => setComments(prev => ({ ...prev, [entry.id]: e.target.value }))}
+                        placeholder="Comment (required to reject)"
+                        className="flex-1 min-w-[200px] px-3 py-1.5 border border-gray-300 rounded text-sm"
+                      />
+                      {yards.length > 1 && (
+                        <select
+                          value={supplyingYards[entry.id] ?? ''}
+                          onChange={(e) => setSupplyingYards(prev => ({ ...prev, [entry.id]: e.target.value }))}
+                          className="px-3 py-1.5 border border-gray-300 rounded text-sm"
+                          title="Yard that supplied the materials"
+                        >
+                          <option value="">Supplying yard</option>
+                          {yards.map(yard => (
+                            <option key={yard} value={yard}>{yard}</option>
+                          ))}
+                        </select>
+                      )}
+                      <button
+                        onClick={() => reviewEntry(entry, 'approve')}
+                        className="flex items-center px-3 py-1.5 bg-green-600 text-white rounded text-sm hover:bg-green-700"
+                      >
+                        <FaCheckCircle className="mr-1" />
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => reviewEntry(entry, 'reject')}
+                        className="flex items-center px-3 py-1.5 bg-red-600 text-white rounded text-sm hover:bg-red-700"
+                      >
+                        <FaTimesCircle className="mr-1" />
+                        Reject
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
\ No newline at end of file
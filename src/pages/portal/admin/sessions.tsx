@@ -0,0 +1,218 @@
+/**
+ * Admin Active Sessions Page
+ * Every signed-in device across admin, employee and client accounts, with per-device and per-user sign-out
+ */
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import { FaArrowLeft, FaDesktop, FaSignOutAlt } from 'react-icons/fa';
+import { portalFetch } from '../../../lib/portal-fetch';
+import { describeDevice } from '../../../lib/user-agent';
+
+interface ActiveSession {
+  id: string;
+  userId: string;
+  email: string;
+  name: string;
+  role?: 'admin' | 'employee' | 'client';
+  ip: string;
+  userAgent: string;
+  rememberMe: boolean;
+  signedInAt: string;
+  lastActiveAt: string;
+  refreshExpiresAt: string;
+  isCurrent: boolean;
+}
+
+export default function SessionsPage() {
+  const router = useRouter();
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [filter, setFilter] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const loadSessions = async () => {
+    try {
+      const response = await portalFetch('/api/admin/security/sessions');
+      if (response.status === 401) {
+        router.push('/portal/admin/login');
+        return;
+      }
+
+      const data = await response.json();
+      if (data.success) {
+        setSessions(data.sessions);
+      } else {
+        setError(data.error || 'Failed to load sessions');
+      }
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const signOut = async (target: { sessionId: string } | { userId: string }) => {
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await portalFetch('/api/admin/security/sessions', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(target)
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to sign out');
+        return;
+      }
+
+      setNotice(data.message);
+      await loadSessions();
+    } catch (error) {
+      console.error('Failed to sign out:', error);
+      setError('Failed to sign out');
+    }
+  };
+
+  const query = filter.trim().toLowerCase();
+  const visible = query
+    ? sessions.filter(session => `${session.email} ${session.name} ${session.ip}`.toLowerCase().includes(query))
+    : sessions;
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading sessions...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Active Sessions | Admin Portal</title>
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-screen bg-gray-100">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Header */}
+          <div className="mb-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Active Sessions</h1>
+                <p className="text-gray-600 mt-1">
+                  Devices signed in to any portal. Signing a device out takes effect on its next request.
+                </p>
+              </div>
+              <button
+                onClick={() => router.push('/portal/admin/dashboard')}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <FaArrowLeft className="mr-2" />
+                Back to Admin Portal
+              </button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="mb-4 rounded-md bg-red-50 p-4 text-sm text-red-700">{error}</div>
+          )}
+          {notice && (
+            <div className="mb-4 rounded-md bg-green-50 p-4 text-sm text-green-700">{notice}</div>
+          )}
+
+          <div className="mb-4">
+            <input
+              type="text"
+              value={filter}
+              onChange={e => setFilter(e.target.value)}
+              placeholder="Filter by email, name or IP address"
+              className="w-full max-w-md px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+            />
+          </div>
+
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">User</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Device</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Signed In</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Last Active</th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {visible.map(session => (
+                  <tr key={session.id}>
+                    <td className="px-6 py-4">
+                      <p className="text-sm font-medium text-gray-900">{session.name || session.email}</p>
+                      <p className="text-xs text-gray-500">
+                        {session.email}{session.role && <span className="capitalize"> · {session.role}</span>}
+                      </p>
+                    </td>
+                    <td className="px-6 py-4">
+                      <p className="flex items-center text-sm text-gray-900" title={session.userAgent}>
+                        <FaDesktop className="mr-2 text-gray-400" />
+                        {describeDevice(session.userAgent)}
+                        {session.isCurrent && (
+                          <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-blue-100 text-blue-800">
+                            This device
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-xs text-gray-500">{session.ip}</p>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {new Date(session.signedInAt).toLocaleString()}
+                      {session.rememberMe && <p className="text-xs text-gray-500">Remembered</p>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {new Date(session.lastActiveAt).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 text-right whitespace-nowrap">
+                      {!session.isCurrent && (
+                        <button
+                          onClick={() => signOut({ sessionId: session.id })}
+                          className="inline-flex items-center px-3 py-1 text-sm text-red-700 hover:text-red-900"
+                        >
+                          <FaSignOutAlt className="mr-1" />
+                          Sign Out
+                        </button>
+                      )}
+                      <button
+                        onClick={() => signOut({ userId: session.userId })}
+                        className="inline-flex items-center px-3 py-1 text-sm text-gray-600 hover:text-gray-900"
+                      >
+                        Sign Out Everywhere
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {visible.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-8 text-center text-sm text-gray-500">
+                      No active sessions{query && ' match the filter'}.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
\ No newline at end of file
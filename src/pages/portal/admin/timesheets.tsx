@@ -0,0 +1,521 @@
+/**
+ * Admin Timesheets Page
+ * Supervisor review of clocked shifts per pay period, with location flags, corrections and the payroll export
+ */
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import {
+  FaArrowLeft,
+  FaCheckCircle,
+  FaChevronLeft,
+  FaChevronRight,
+  FaClock,
+  FaEdit,
+  FaExclamationTriangle,
+  FaFileExcel,
+  FaTimesCircle,
+  FaUser
+} from 'react-icons/fa';
+import type { DateRangeResponse, TimeEntryResponse } from '@/presentation/api/TimeEntryPresenter';
+import { portalFetch } from '../../../lib/portal-fetch';
+
+const STATUS_TABS: Array<{ value: string; label: string }> = [
+  { value: 'completed', label: 'Awaiting Review' },
+  { value: 'open', label: 'Clocked In' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'all', label: 'All' }
+];
+
+const STATUS_COLORS: Record<string, string> = {
+  open: 'bg-blue-100 text-blue-800',
+  completed: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800'
+};
+
+const LOCATION_LABELS: Record<string, string> = {
+  verified: 'On site',
+  outside: 'Outside geofence',
+  not_reported: 'Location not shared',
+  no_site_coordinates: 'No site coordinates'
+};
+
+interface Correction {
+  clockInAt: string;
+  clockOutAt: string;
+  breakMinutes: string;
+  reason: string;
+}
+
+// datetime-local inputs take local wall-clock time without a zone
+const toLocalInput = (value?: string) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+};
+
+const formatShift = (entry: TimeEntryResponse) => {
+  const day = new Date(entry.clockInAt).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  const time = (value: string) => new Date(value).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  return `${day} ${time(entry.clockInAt)}–${entry.clockOutAt ? time(entry.clockOutAt) : 'now'}`;
+};
+
+const describeCheck = (check: TimeEntryResponse['clockInCheck']) =>
+  check.distanceMeters !== undefined
+    ? `${LOCATION_LABELS[check.status]} (${Math.round(check.distanceMeters)} m)`
+    : LOCATION_LABELS[check.status];
+
+export default function TimesheetsPage() {
+  const router = useRouter();
+  const [entries, setEntries] = useState<TimeEntryResponse[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [flaggedCount, setFlaggedCount] = useState(0);
+  const [period, setPeriod] = useState<DateRangeResponse | null>(null);
+  const [periodNav, setPeriodNav] = useState<{ previous: string; next: string; current: string } | null>(null);
+  const [overtimeThreshold, setOvertimeThreshold] = useState(40);
+  const [employees, setEmployees] = useState<string[]>([]);
+  const [selectedPeriod, setSelectedPeriod] = useState('');
+  const [filterStatus, setFilterStatus] = useState('completed');
+  const [filterEmployee, setFilterEmployee] = useState('');
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [corrections, setCorrections] = useState<Record<string, Correction>>({});
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    checkAdminAuth();
+    loadTimesheets();
+  }, [selectedPeriod, filterStatus, filterEmployee, flaggedOnly]);
+
+  const checkAdminAuth = async () => {
+    try {
+      const response = await portalFetch('/api/admin/dashboard');
+
+      if (!response.ok) {
+        router.push('/portal/admin/login');
+      }
+    } catch (error) {
+      console.error('Auth check failed:', error);
+      router.push('/portal/admin/login');
+    }
+  };
+
+  const loadTimesheets = async () => {
+    try {
+      const params = new URLSearchParams({ status: filterStatus });
+      if (selectedPeriod) params.set('period', selectedPeriod);
+      if (filterEmployee) params.set('employee', filterEmployee);
+      if (flaggedOnly) params.set('flagged', 'true');
+      const response = await portalFetch(`/api/admin/timesheets?${params.toString()}`);
+
+      if (response.ok) {
+        const data = await response.json();
+        setEntries(data.entries);
+        setCounts(data.counts);
+        setFlaggedCount(data.flaggedCount);
+        setPeriod(data.period);
+        setPeriodNav({ previous: data.previousPeriod, next: data.nextPeriod, current: data.currentPeriod });
+        setOvertimeThreshold(data.overtimeThresholdHours);
+        setEmployees(data.employees);
+      }
+    } catch (error) {
+      console.error('Failed to load timesheets:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateEntry = async (entry: TimeEntryResponse, body: Record<string, unknown>) => {
+    setError(null);
+    try {
+      const response = await portalFetch(`/api/admin/timesheets/${entry.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to update time entry');
+        return false;
+      }
+
+      await loadTimesheets();
+      return true;
+    } catch (error) {
+      console.error('Failed to update time entry:', error);
+      setError('Failed to update time entry');
+      return false;
+    }
+  };
+
+  const reviewEntry = async (entry: TimeEntryResponse, action: 'approve' | 'reject') => {
+    const comment = comments[entry.id]?.trim() || undefined;
+    if (action === 'reject' && !comment) {
+      setError('Add a comment telling the employee what is wrong with the shift');
+      return;
+    }
+
+    if (await updateEntry(entry, { action, comment })) {
+      setComments(prev => ({ ...prev, [entry.id]: '' }));
+    }
+  };
+
+  const startCorrection = (entry: TimeEntryResponse) => {
+    setCorrections(prev => ({
+      ...prev,
+      [entry.id]: {
+        clockInAt: toLocalInput(entry.clockInAt),
+        clockOutAt: toLocalInput(entry.clockOutAt),
+        breakMinutes: String(entry.breakMinutes),
+        reason: ''
+      }
+    }));
+  };
+
+  const cancelCorrection = (id: string) => {
+    setCorrections(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
+
+  const saveCorrection = async (entry: TimeEntryResponse) => {
+    const correction = corrections[entry.id];
+    if (!correction.clockInAt || !correction.clockOutAt) {
+      setError('Enter both the clock-in and clock-out time');
+      return;
+    }
+
+    const saved = await updateEntry(entry, {
+      action: 'correct',
+      clockInAt: new Date(correction.clockInAt).toISOString(),
+      clockOutAt: new Date(correction.clockOutAt).toISOString(),
+      breakMinutes: Number(correction.breakMinutes || 0),
+      reason: correction.reason
+    });
+    if (saved) {
+      cancelCorrection(entry.id);
+    }
+  };
+
+  const downloadPayroll = async () => {
+    if (!period) return;
+
+    setError(null);
+    setExporting(true);
+    try {
+      const params = new URLSearchParams({ period: period.firstDay });
+      const response = await portalFetch(`/api/admin/reports/payroll?${params.toString()}`);
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Failed to export payroll');
+        return;
+      }
+
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'payroll.xlsx';
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export payroll:', error);
+      setError('Failed to export payroll');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading timesheets...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Timesheets | Admin Portal</title>
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-screen bg-gray-100">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Header */}
+          <div className="mb-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Timesheets</h1>
+                <p className="text-gray-600 mt-1">
+                  Approve clocked shifts for payroll. Overtime is paid after {overtimeThreshold} hours per work week.
+                </p>
+              </div>
+              <button
+                onClick={() => router.push('/portal/admin/dashboard')}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <FaArrowLeft className="mr-2" />
+                Back to Admin Portal
+              </button>
+            </div>
+          </div>
+
+          {/* Pay period */}
+          {period && periodNav && (
+            <div className="bg-white rounded-lg shadow p-4 mb-6 flex flex-wrap items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setSelectedPeriod(periodNav.previous)}
+                  className="p-2 bg-gray-100 rounded hover:bg-gray-200"
+                  title="Previous pay period"
+                >
+                  <FaChevronLeft />
+                </button>
+                <div className="text-center">
+                  <p className="text-xs text-gray-500">Pay period</p>
+                  <p className="font-semibold text-gray-900">{period.firstDay} to {period.lastDay}</p>
+                </div>
+                <button
+                  onClick={() => setSelectedPeriod(periodNav.next)}
+                  disabled={period.firstDay === periodNav.current}
+                  className="p-2 bg-gray-100 rounded hover:bg-gray-200 disabled:opacity-50"
+                  title="Next pay period"
+                >
+                  <FaChevronRight />
+                </button>
+              </div>
+              <button
+                onClick={downloadPayroll}
+                disabled={exporting}
+                className="flex items-center px-4 py-2 bg-green-600 text-white rounded text-sm hover:bg-green-700 disabled:opacity-50"
+              >
+                <FaFileExcel className="mr-2" />
+                {exporting ? 'Preparing...' : 'Download payroll .xlsx'}
+              </button>
+            </div>
+          )}
+
+          {/* Filters */}
+          <div className="bg-white rounded-lg shadow p-4 mb-6 flex flex-wrap items-center justify-between gap-4">
+            <div className="flex flex-wrap gap-2">
+              {STATUS_TABS.map(tab => (
+                <button
+                  key={tab.value}
+                  onClick={() => setFilterStatus(tab.value)}
+                  className={`px-3 py-1.5 rounded text-sm ${filterStatus === tab.value ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                >
+                  {tab.label}
+                  {tab.value !== 'all' && ` (${counts[tab.value] ?? 0})`}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-4">
+              <select
+                value={filterEmployee}
+                onChange={(e) => setFilterEmployee(e.target.value)}
+                className="px-3 py-1.5 border border-gray-300 rounded text-sm"
+              >
+                <option value="">All employees</option>
+                {employees.map(employee => (
+                  <option key={employee} value={employee}>{employee}</option>
+                ))}
+              </select>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={flaggedOnly}
+                  onChange={(e) => setFlaggedOnly(e.target.checked)}
+                  className="mr-2"
+                />
+                Location flags only ({flaggedCount})
+              </label>
+            </div>
+          </div>
+
+          {error && (
+            <div className="mb-4 rounded-md bg-red-50 px-4 py-3 text-sm text-red-800">{error}</div>
+          )}
+
+          {/* Entries */}
+          {entries.length === 0 ? (
+            <div className="bg-white rounded-lg shadow text-center py-12">
+              <FaClock className="mx-auto h-12 w-12 text-gray-400" />
+              <p className="mt-2 text-sm text-gray-600">No shifts to show for this pay period.</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {entries.map(entry => {
+                const correction = corrections[entry.id];
+                return (
+                  <div key={entry.id} className="bg-white rounded-lg shadow p-4">
+                    <div className="flex flex-wrap items-start justify-between gap-4">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-semibold text-gray-900">{entry.siteName || entry.propertyCode}</span>
+                          {entry.propertyCode && entry.siteName && (
+                            <span className="text-sm text-gray-500">{entry.propertyCode}</span>
+                          )}
+                          <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_COLORS[entry.status] || 'bg-gray-100 text-gray-800'}`}>
+                            {entry.status}
+                          </span>
+                          {entry.locationFlagged && (
+                            <span className="flex items-center px-2 py-0.5 text-xs font-medium rounded-full bg-orange-100 text-orange-800">
+                              <FaExclamationTriangle className="mr-1" />
+                              Location
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-500 flex items-center mt-1">
+                          <FaUser className="mr-1" />
+                          {entry.employee} · {formatShift(entry)}
+                          {entry.breakMinutes > 0 && ` · ${entry.breakMinutes} min break`}
+                        </p>
+                        <p className="text-sm text-gray-500 mt-1">
+                          In: {describeCheck(entry.clockInCheck)}
+                          {entry.clockOutCheck && ` · Out: ${describeCheck(entry.clockOutCheck)}`}
+                        </p>
+                        {entry.notes && <p className="text-sm text-gray-700 mt-1">{entry.notes}</p>}
+                      </div>
+                      <div className="text-right text-sm">
+                        <p className="text-lg font-bold text-gray-900">{entry.hours.toFixed(2)}h</p>
+                        {entry.overtimeHours !== undefined && (
+                          <p className={entry.overtimeHours > 0 ? 'text-orange-600' : 'text-gray-500'}>
+                            {(entry.regularHours ?? 0).toFixed(2)} regular · {entry.overtimeHours.toFixed(2)} overtime
+                          </p>
+                        )}
+                      </div>
+                    </div>
+
+                    {(entry.reviews.length > 0 || entry.corrections.length > 0) && (
+                      <ul className="mt-3 border-t border-gray-100 pt-2 space-y-1 text-xs text-gray-600">
+                        {entry.corrections.map(item => (
+                          <li key={item.correctedAt}>
+                            Corrected by {item.correctedBy} on {new Date(item.correctedAt).toLocaleString()}: {item.reason}
+                          </li>
+                        ))}
+                        {entry.reviews.map(review => (
+                          <li key={review.reviewedAt}>
+                            {review.decision === 'approved' ? 'Approved' : 'Rejected'} by {review.reviewedBy} on{' '}
+                            {new Date(review.reviewedAt).toLocaleString()}
+                            {review.comment && `: ${review.comment}`}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
+                    {correction && (
+                      <div className="mt-3 grid grid-cols-1 md:grid-cols-4 gap-2 text-sm">
+                        <label className="flex flex-col">
+                          <span className="text-gray-500 mb-1">Clock in</span>
+                          <input
+                            type="datetime-local"
+                            value={correction.clockInAt}
+                            onChange={(e) => setCorrections(prev => ({ ...prev, [entry.id]: { ...correction, clockInAt: e.target.value } }))}
+                            className="px-3 py-1.5 border border-gray-300 rounded"
+                          />
+                        </label>
+                        <label className="flex flex-col">
+                          <span className="text-gray-500 mb-1">Clock out</span>
+                          <input
+                            type="datetime-local"
+                            value={correction.clockOutAt}
+                            onChange={(e) => setCorrections(prev => ({ ...prev, [entry.id]: { ...correction, clockOutAt: e.target.value } }))}
+                            className="px-3 py-1.5 border border-gray-300 rounded"
+                          />
+                        </label>
+                        <label className="flex flex-col">
+                          <span className="text-gray-500 mb-1">Break (minutes)</span>
+                          <input
+                            type="number"
+                            min="0"
+                            value={correction.breakMinutes}
+                            onChange={(e) => setCorrections(prev => ({ ...prev, [entry.id]: { ...correction, breakMinutes: e.target.value } }))}
+                            className="px-3 py-1.5 border border-gray-300 rounded"
+                          />
+                        </label>
+                        <label className="flex flex-col">
+                          <span className="text-gray-500 mb-1">Reason</span>
+                          <input
+                            type="text"
+                            value={correction.reason}
+                            onChange={(e) => setCorrections(prev => ({ ...prev, [entry.id]: { ...correction, reason: e.target.value } }))}
+                            placeholder="e.g. Forgot to clock out"
+                            className="px-3 py-1.5 border border-gray-300 rounded"
+                          />
+                        </label>
+                        <div className="md:col-span-4 flex gap-2">
+                          <button
+                            onClick={() => saveCorrection(entry)}
+                            className="px-3 py-1.5 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+                          >
+                            Save correction
+                          </button>
+                          <button
+                            onClick={() => cancelCorrection(entry.id)}
+                            className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                    )}
+
+                    {entry.status !== 'approved' && !correction && (
+                      <div className="mt-3 flex flex-wrap items-center gap-2">
+                        {entry.status === 'completed' && (
+                          <>
+                            <input
+                              type="text"
+                              value={comments[entry.id] ?? ''}
+                              onChange={(e) => setComments(prev => ({ ...prev, [entry.id]: e.target.value }))}
+                              placeholder="Comment (required to reject)"
+                              className="flex-1 min-w-[200px] px-3 py-1.5 border border-gray-300 rounded text-sm"
+                            />
+                            <button
+                              onClick={() => reviewEntry(entry, 'approve')}
+                              className="flex items-center px-3 py-1.5 bg-green-600 text-white rounded text-sm hover:bg-green-700"
+                            >
+                              <FaCheckCircle className="mr-1" />
+                              Approve
+                            </button>
+                            <button
+                              onClick={() => reviewEntry(entry, 'reject')}
+                              className="flex items-center px-3 py-1.5 bg-red-600 text-white rounded text-sm hover:bg-red-700"
+                            >
+                              <FaTimesCircle className="mr-1" />
+                              Reject
+                            </button>
+                          </>
+                        )}
+                        <button
+                          onClick={() => startCorrection(entry)}
+                          className="flex items-center px-3 py-1.5 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+                        >
+                          <FaEdit className="mr-1" />
+                          Correct times
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
\ No newline at end of file
@@ -22,6 +22,7 @@ import {
   FaEye,
   FaFilter
 } from 'react-icons/fa';
+import { portalFetch } from '../../../lib/portal-fetch';
 
 interface UpdateRequest {
   id: string;
@@ -62,18 +63,8 @@ export default function UpdateRequestsPage() {
   }, [filterStatus]);
 
   const checkAdminAuth = async () => {
-    const token = localStorage.getItem('accessToken');
-    if (!token) {
-      router.push('/portal/admin/login');
-      return;
-    }
-
     try {
-      const response = await fetch('/api/admin/dashboard', {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const response = await portalFetch('/api/admin/dashboard');
 
       if (!response.ok) {
         router.push('/portal/admin/login');
@@ -85,16 +76,9 @@ export default function UpdateRequestsPage() {
   };
 
   const loadUpdateRequests = async () => {
-    const token = localStorage.getItem('accessToken');
-    if (!token) return;
-
     try {
       setLoading(true);
-      const response = await fetch(`/api/admin/update-requests?status=${filterStatus}`, {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const response = await portalFetch(`/api/admin/update-requests?status=${filterStatus}`);
 
       if (response.ok) {
         const data = await response.json();
@@ -114,14 +98,10 @@ export default function UpdateRequestsPage() {
   };
 
   const handleMarkComplete = async (requestId: string, notes?: string) => {
-    const token = localStorage.getItem('accessToken');
-    if (!token) return;
-
     try {
-      const response = await fetch(`/api/admin/update-requests?id=${requestId}`, {
+      const response = await portalFetch(`/api/admin/update-requests?id=${requestId}`, {
         method: 'PATCH',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
@@ -144,14 +124,10 @@ export default function UpdateRequestsPage() {
   const handleBulkComplete = async () => {
     if (selectedRequests.length === 0) return;
 
-    const token = localStorage.getItem('accessToken');
-    if (!token) return;
-
     try {
-      const response = await fetch('/api/admin/update-requests', {
+      const response = await portalFetch('/api/admin/update-requests', {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
@@ -170,14 +146,10 @@ export default function UpdateRequestsPage() {
   };
 
   const handleStatusChange = async (requestId: string, newStatus: string) => {
-    const token = localStorage.getItem('accessToken');
-    if (!token) return;
-
     try {
-      const response = await fetch(`/api/admin/update-requests?id=${requestId}`, {
+      const response = await portalFetch(`/api/admin/update-requests?id=${requestId}`, {
         method: 'PATCH',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({ status: newStatus })
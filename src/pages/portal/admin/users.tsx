@@ -5,6 +5,7 @@ import Link from 'next/link';
 import { FaArrowLeft, FaEye, FaEyeSlash } from 'react-icons/fa';
 import UserManagementTable from '../../../components/admin/UserManagementTable';
 import { AdminUser } from '../../../types/admin';
+import { portalFetch } from '../../../lib/portal-fetch';
 
 export default function Users() {
   const router = useRouter();
@@ -17,23 +18,13 @@ export default function Users() {
   }, []);
 
   const checkAdminAuth = async () => {
-    const token = localStorage.getItem('accessToken');
-    if (!token) {
-      router.push('/portal/admin/login');
-      return;
-    }
-
     try {
-      const response = await fetch('/api/admin/dashboard', {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const response = await portalFetch('/api/admin/dashboard');
 
       if (response.ok) {
         const data = await response.json();
         setAdmin(data.admin);
-        await loadUsers(token);
+        await loadUsers();
       } else {
         router.push('/portal/admin/login');
       }
@@ -45,7 +36,7 @@ export default function Users() {
     }
   };
 
-  const loadUsers = async (token: string) => {
+  const loadUsers = async () => {
     try {
       // v3: User management simplified - notifications removed as requested
       // Admin users are now managed through SimpleAuthService for better security
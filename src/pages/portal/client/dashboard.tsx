@@ -2,68 +2,309 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/router';
 import Head from 'next/head';
 import Link from 'next/link';
-import { 
-  FaProjectDiagram, 
-  FaComments, 
-  FaUser,
-  FaCalendarAlt,
+import {
+  FaProjectDiagram,
   FaFileAlt,
+  FaFileInvoiceDollar,
+  FaFilePdf,
   FaCamera,
-  FaCheckCircle,
-  FaClock,
-  FaExclamationTriangle,
+  FaClipboardList,
+  FaComments,
+  FaTruck,
   FaPhone,
-  FaEnvelope
+  FaEnvelope,
+  FaLink,
+  FaUserFriends
 } from 'react-icons/fa';
+import ProjectStatusSlider from '@/components/ProjectStatusSlider';
+import type {
+  ClientContractResponse,
+  ClientInvitationResponse,
+  ClientInvoiceResponse,
+  ClientProjectResponse,
+  ClientQuoteResponse,
+  ClientServiceVisitResponse,
+  ClientUpdateRequestResponse
+} from '@/presentation/api/ClientPortalPresenter';
+import { portalFetch } from '../../../lib/portal-fetch';
 
-export default function ClientDashboard() {
-  const router = useRouter();
-  const [client, setClient] = useState<any>(null);
-  const [loading, setLoading] = useState(true);
-  const [projects, setProjects] = useState([
-    {
-      id: 1,
-      title: 'Commercial Snow Removal',
-      status: 'active',
-      progress: 0, // Long-term contract, no progress bar
-      nextVisit: '2024-01-15',
-      description: 'Complete snow removal service for office complex parking lot',
-      serviceClass: 'commercial',
-      showProgress: false
-    },
-    {
-      id: 2,
-      title: 'Residential Landscaping',
-      status: 'scheduled',
-      progress: 0,
-      nextVisit: '2024-03-01',
-      description: 'Garden design and planting for front yard',
-      serviceClass: 'residential',
-      showProgress: true
+interface ClientDashboardData {
+  client: { firstName: string; lastName: string; email: string; companyName?: string; accessLevel: 'owner' | 'member' };
+  contracts: ClientContractResponse[];
+  projects: ClientProjectResponse[];
+  quotes: ClientQuoteResponse[];
+  updateRequests: ClientUpdateRequestResponse[];
+  serviceVisits: ClientServiceVisitResponse[];
+  invoices: ClientInvoiceResponse[];
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  active: 'bg-green-500',
+  accepted: 'bg-green-500',
+  paid: 'bg-green-500',
+  completed: 'bg-gray-500',
+  resolved: 'bg-gray-500',
+  pending: 'bg-yellow-500',
+  under_review: 'bg-yellow-500',
+  in_progress: 'bg-blue-500',
+  quote_sent: 'bg-blue-500',
+  sent: 'bg-blue-500',
+  partially_paid: 'bg-yellow-500',
+  on_hold: 'bg-yellow-500',
+  overdue: 'bg-red-500',
+  rejected: 'bg-red-500',
+  cancelled: 'bg-red-500',
+  expired: 'bg-gray-500',
+  void: 'bg-gray-500'
+};
+
+const formatStatus = (status: string) =>
+  status.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const formatCurrency = (amount: number) =>
+  `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+// Calendar dates come as YYYY-MM-DD and are shown as that day, not shifted by the browser's time zone
+const formatCalendarDate = (value: string) =>
+  new Date(`${value}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+
+// Portal files are fetched rather than linked, so an expired session does not leave the page
+const fetchPortalFile = async (url: string): Promise<Blob | null> => {
+  const response = await portalFetch(url);
+  return response.ok ? response.blob() : null;
+};
+
+// Account actions answer with { success, message } whether they worked or not
+const portalRequest = async (url: string, method: string, body?: unknown) => {
+  const response = await portalFetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  return response.json();
+};
+
+const inputClassName = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-green-500';
+
+function StatusBadge({ status }: { status: string }) {
+  return (
+    <span className={`px-2 py-1 rounded-full text-xs text-white ${STATUS_COLORS[status] || 'bg-gray-500'}`}>
+      {formatStatus(status)}
+    </span>
+  );
+}
+
+function VisitPhoto({ url, filename }: { url: string; filename: string }) {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    fetchPortalFile(url).then(blob => {
+      if (blob) {
+        objectUrl = URL.createObjectURL(blob);
+        setSrc(objectUrl);
+      }
+    }).catch(error => console.error('Failed to load photo:', error));
+    return () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [url]);
+
+  if (!src) {
+    return <div className="w-24 h-24 bg-gray-600 rounded-md animate-pulse" />;
+  }
+  return (
+    <a href={src} target="_blank" rel="noopener noreferrer">
+      <img src={src} alt={filename} className="w-24 h-24 object-cover rounded-md" />
+    </a>
+  );
+}
+
+function LinkContractPanel() {
+  const [contractId, setContractId] = useState('');
+  const [email, setEmail] = useState('');
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      const response = await portalRequest('/api/client/account/contracts', 'POST', { contractId, email });
+      setResult({ success: response.success, message: response.message });
+      if (response.success) {
+        setContractId('');
+        setEmail('');
+      }
+    } catch {
+      setResult({ success: false, message: 'Network error. Please try again.' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6">
+      <h2 className="text-xl font-semibold text-white mb-2 flex items-center">
+        <FaLink className="mr-2 text-purple-400" /> Link a Contract
+      </h2>
+      <p className="text-gray-400 text-xs mb-4">
+        Have a contract under another email? Enter its contract ID and that email, and we will send a confirmation link there.
+      </p>
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <input
+          type="text"
+          required
+          value={contractId}
+          onChange={(e) => setContractId(e.target.value)}
+          placeholder="Contract ID"
+          className={inputClassName}
+        />
+        <input
+          type="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email on the contract"
+          className={inputClassName}
+        />
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full bg-purple-600 hover:bg-purple-700 text-white text-sm py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {submitting ? 'Sending...' : 'Send confirmation'}
+        </button>
+      </form>
+      {result && (
+        <p className={`mt-3 text-xs ${result.success ? 'text-green-400' : 'text-red-400'}`}>{result.message}</p>
+      )}
+    </div>
+  );
+}
+
+function TeamPanel({ companyName }: { companyName?: string }) {
+  const [invitations, setInvitations] = useState<ClientInvitationResponse[]>([]);
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadInvitations = async () => {
+    try {
+      const response = await portalRequest('/api/client/account/coworkers', 'GET');
+      if (response.success) setInvitations(response.invitations);
+    } catch (error) {
+      console.error('Failed to load co-worker invitations:', error);
     }
-  ]);
+  };
 
   useEffect(() => {
-    checkClientAuth();
+    loadInvitations();
   }, []);
 
-  const checkClientAuth = async () => {
-    const token = localStorage.getItem('clientToken');
-    if (!token) {
-      router.push('/portal/client/login');
-      return;
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      const response = await portalRequest('/api/client/account/coworkers', 'POST', { email, name });
+      setResult({ success: response.success, message: response.message });
+      if (response.success) {
+        setEmail('');
+        setName('');
+        await loadInvitations();
+      }
+    } catch {
+      setResult({ success: false, message: 'Network error. Please try again.' });
+    } finally {
+      setSubmitting(false);
     }
+  };
+
+  const handleRevoke = async (invitation: ClientInvitationResponse) => {
+    if (!confirm(`Revoke the invitation for ${invitation.email}?`)) return;
+    const response = await portalRequest(`/api/client/account/coworkers?id=${encodeURIComponent(invitation.id)}`, 'DELETE');
+    setResult({ success: response.success, message: response.success ? 'Invitation revoked' : response.message });
+    await loadInvitations();
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6">
+      <h2 className="text-xl font-semibold text-white mb-2 flex items-center">
+        <FaUserFriends className="mr-2 text-green-400" /> Your Team
+      </h2>
+      <p className="text-gray-400 text-xs mb-4">
+        Invite co-workers{companyName ? ` at ${companyName}` : ''} using their company email. They can follow projects and service visits but do not see invoices.
+      </p>
+      {invitations.length > 0 && (
+        <div className="space-y-2 mb-4">
+          {invitations.map(invitation => (
+            <div key={invitation.id} className="flex items-center justify-between bg-gray-700 rounded-lg p-2">
+              <div className="min-w-0">
+                <p className="text-white text-sm truncate">{invitation.recipientName || invitation.email}</p>
+                <p className="text-gray-400 text-xs truncate">{invitation.email}</p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <StatusBadge status={invitation.status} />
+                {invitation.status === 'pending' && (
+                  <button onClick={() => handleRevoke(invitation)} className="text-xs text-red-400 hover:text-red-300">
+                    Revoke
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      <form onSubmit={handleInvite} className="space-y-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name (optional)"
+          className={inputClassName}
+        />
+        <input
+          type="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Co-worker email"
+          className={inputClassName}
+        />
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full bg-green-600 hover:bg-green-700 text-white text-sm py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {submitting ? 'Sending...' : 'Invite co-worker'}
+        </button>
+      </form>
+      {result && (
+        <p className={`mt-3 text-xs ${result.success ? 'text-green-400' : 'text-red-400'}`}>{result.message}</p>
+      )}
+    </div>
+  );
+}
+
+export default function ClientDashboard() {
+  const router = useRouter();
+  const [data, setData] = useState<ClientDashboardData | null>(null);
+  const [loading, setLoading] = useState(true);
 
+  useEffect(() => {
+    loadDashboard();
+  }, []);
+
+  const loadDashboard = async () => {
     try {
-      const response = await fetch('/api/client/dashboard', {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const response = await portalFetch('/api/client/dashboard');
 
       if (response.ok) {
-        const data = await response.json();
-        setClient(data.client);
+        setData(await response.json());
       } else {
         router.push('/portal/client/login');
       }
@@ -75,27 +316,24 @@ export default function ClientDashboard() {
     }
   };
 
-  // Logout handled by main Header component
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'active': return 'bg-green-500';
-      case 'scheduled': return 'bg-blue-500';
-      case 'completed': return 'bg-gray-500';
-      default: return 'bg-yellow-500';
+  const downloadInvoice = async (invoice: ClientInvoiceResponse) => {
+    try {
+      const blob = await fetchPortalFile(invoice.pdfUrl);
+      if (!blob) return;
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `VSR-Invoice-${invoice.invoiceNumber}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to download invoice:', error);
     }
   };
 
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'active': return FaClock;
-      case 'scheduled': return FaCalendarAlt;
-      case 'completed': return FaCheckCircle;
-      default: return FaExclamationTriangle;
-    }
-  };
+  // Logout handled by main Header component
 
-  if (loading) {
+  if (loading || !data) {
     return (
       <div className="min-h-screen bg-gray-900 flex items-center justify-center">
         <div className="text-center">
@@ -106,6 +344,11 @@ export default function ClientDashboard() {
     );
   }
 
+  const isOwner = data.client.accessLevel !== 'member';
+  const activeContracts = data.contracts.filter(contract => contract.status === 'active').length;
+  const openBalance = data.invoices.reduce((total, invoice) => total + invoice.balanceDue, 0);
+  const openQuotes = data.quotes.filter(quote => ['pending', 'under_review', 'quote_sent'].includes(quote.status)).length;
+
   return (
     <>
       <Head>
@@ -119,143 +362,266 @@ export default function ClientDashboard() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
           {/* Welcome Section */}
           <div className="bg-gray-800 rounded-lg p-6 mb-8">
-            <h2 className="text-2xl font-bold text-white mb-4">Welcome to Your Project Portal</h2>
+            <h2 className="text-2xl font-bold text-white mb-4">
+              Welcome{data.client.firstName ? `, ${data.client.firstName}` : ''}
+            </h2>
             <p className="text-gray-300 mb-4">
-              Stay updated on your VSR Construction projects, view progress, and communicate with our team.
+              Your VSR Construction contracts, project progress, service visits and invoices in one place.
             </p>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className={`grid grid-cols-1 ${isOwner ? 'md:grid-cols-4' : 'md:grid-cols-3'} gap-4`}>
               <div className="bg-gray-700 p-4 rounded-lg">
-                <h3 className="text-lg font-semibold text-white mb-2">Active Projects</h3>
-                <p className="text-3xl font-bold text-green-400">{projects.filter(p => p.status === 'active').length}</p>
+                <h3 className="text-lg font-semibold text-white mb-2">Active Contracts</h3>
+                <p className="text-3xl font-bold text-green-400">{activeContracts}</p>
               </div>
               <div className="bg-gray-700 p-4 rounded-lg">
-                <h3 className="text-lg font-semibold text-white mb-2">Scheduled Projects</h3>
-                <p className="text-3xl font-bold text-blue-400">{projects.filter(p => p.status === 'scheduled').length}</p>
+                <h3 className="text-lg font-semibold text-white mb-2">Projects</h3>
+                <p className="text-3xl font-bold text-blue-400">{data.projects.length}</p>
               </div>
               <div className="bg-gray-700 p-4 rounded-lg">
-                <h3 className="text-lg font-semibold text-white mb-2">Completed Projects</h3>
-                <p className="text-3xl font-bold text-gray-400">{projects.filter(p => p.status === 'completed').length}</p>
+                <h3 className="text-lg font-semibold text-white mb-2">Open Quotes</h3>
+                <p className="text-3xl font-bold text-yellow-400">{openQuotes}</p>
               </div>
+              {isOwner && (
+                <div className="bg-gray-700 p-4 rounded-lg">
+                  <h3 className="text-lg font-semibold text-white mb-2">Balance Due</h3>
+                  <p className="text-3xl font-bold text-gray-200">{formatCurrency(openBalance)}</p>
+                </div>
+              )}
             </div>
           </div>
 
           {/* Main Content */}
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-            {/* Projects Section */}
-            <div className="lg:col-span-2">
-              <div className="bg-gray-800 rounded-lg p-6 mb-6">
-                <h2 className="text-xl font-semibold text-white mb-4">Your Projects</h2>
-                <div className="space-y-4">
-                  {projects.map((project) => {
-                    const StatusIcon = getStatusIcon(project.status);
-                    return (
+            <div className="lg:col-span-2 space-y-6">
+              {/* Projects Section */}
+              <div className="bg-gray-800 rounded-lg p-6">
+                <h2 className="text-xl font-semibold text-white mb-4 flex items-center">
+                  <FaProjectDiagram className="mr-2 text-green-400" /> Your Projects
+                </h2>
+                {data.projects.length === 0 ? (
+                  <p className="text-gray-400 text-sm">No projects are linked to your account yet.</p>
+                ) : (
+                  <div className="space-y-4">
+                    {data.projects.map(project => (
                       <div key={project.id} className="bg-gray-700 rounded-lg p-4">
                         <div className="flex items-center justify-between mb-3">
-                          <div className="flex items-center space-x-3">
-                            <StatusIcon className="h-5 w-5 text-green-400" />
-                            <h3 className="text-lg font-medium text-white">{project.title}</h3>
-                          </div>
-                          <span className={`px-2 py-1 rounded-full text-xs text-white ${getStatusColor(project.status)}`}>
-                            {project.status.charAt(0).toUpperCase() + project.status.slice(1)}
-                          </span>
-                        </div>
-                        <p className="text-gray-300 text-sm mb-3">{project.description}</p>
-                        
-                        {/* Service Class Badge */}
-                        <div className="mb-3">
+                          <h3 className="text-lg font-medium text-white">{project.title}</h3>
                           <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                             project.serviceClass === 'commercial' ? 'bg-blue-100 text-blue-800' : 'bg-green-100 text-green-800'
                           }`}>
-                            {project.serviceClass.charAt(0).toUpperCase() + project.serviceClass.slice(1)}
+                            {formatStatus(project.serviceClass)}
                           </span>
                         </div>
-                        
-                        {project.status === 'active' && project.showProgress && (
-                          <div className="mb-3">
-                            <div className="flex justify-between text-sm text-gray-400 mb-1">
-                              <span>Progress</span>
-                              <span>{project.progress}%</span>
-                            </div>
-                            <div className="w-full bg-gray-600 rounded-full h-2">
-                              <div 
-                                className="bg-green-500 h-2 rounded-full transition-all duration-300"
-                                style={{ width: `${project.progress}%` }}
-                              ></div>
-                            </div>
-                          </div>
+                        <p className="text-gray-400 text-sm mb-3">
+                          {project.serviceType}
+                          {project.contractId && ` · Contract ${project.contractId}`}
+                          {` · Updated ${formatDate(project.lastUpdated)}`}
+                        </p>
+                        <ProjectStatusSlider
+                          projectId={project.id}
+                          currentStatus={project.currentStatus}
+                          statusLabels={project.statusLabels}
+                          showStatusBar={project.showStatusBar}
+                          readOnly
+                        />
+                        {project.statusHistory.some(change => change.notes) && (
+                          <ul className="mt-3 space-y-1">
+                            {project.statusHistory.filter(change => change.notes).slice(-3).reverse().map(change => (
+                              <li key={change.changedAt} className="text-sm text-gray-300">
+                                <span className="text-gray-400">{formatDate(change.changedAt)} · {change.label}:</span> {change.notes}
+                              </li>
+                            ))}
+                          </ul>
                         )}
-                        
-                        {project.status === 'active' && !project.showProgress && (
-                          <div className="mb-3">
-                            <div className="text-sm text-gray-400">
-                              <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                                Long-term Contract Active
-                              </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Service Visits */}
+              <div className="bg-gray-800 rounded-lg p-6">
+                <h2 className="text-xl font-semibold text-white mb-4 flex items-center">
+                  <FaTruck className="mr-2 text-blue-400" /> Service Visits
+                </h2>
+                {data.serviceVisits.length === 0 ? (
+                  <p className="text-gray-400 text-sm">No service visits have been recorded yet.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {data.serviceVisits.map(visit => (
+                      <div key={visit.id} className="bg-gray-700 rounded-lg p-4">
+                        <div className="flex items-center justify-between mb-1">
+                          <h3 className="text-white font-medium">{visit.serviceName}</h3>
+                          <span className="text-sm text-gray-400">
+                            {formatCalendarDate(visit.serviceDate)} · {visit.timeIn}–{visit.timeOut}
+                          </span>
+                        </div>
+                        <p className="text-sm text-gray-300">{visit.description} — {visit.locationDescription}</p>
+                        <p className="text-xs text-gray-400 mt-1">Property {visit.propertyCode}</p>
+                        {visit.photos.length > 0 && (
+                          <div className="mt-3">
+                            <p className="text-xs text-gray-400 mb-2 flex items-center">
+                              <FaCamera className="mr-1" /> {visit.photos.length} photo{visit.photos.length === 1 ? '' : 's'}
+                            </p>
+                            <div className="flex flex-wrap gap-2">
+                              {visit.photos.map(photo => (
+                                <VisitPhoto key={photo.fileId} url={photo.url} filename={photo.filename} />
+                              ))}
                             </div>
                           </div>
                         )}
-                        
-                        <div className="flex items-center justify-between">
-                          <div className="flex items-center space-x-2 text-gray-400 text-sm">
-                            <FaCalendarAlt className="h-4 w-4" />
-                            <span>Next visit: {project.nextVisit}</span>
-                          </div>
-                          <Link
-                            href={`/portal/client/project/${project.id}`}
-                            className="bg-green-600 hover:bg-green-700 text-white text-sm px-3 py-1 rounded transition-colors"
-                          >
-                            View Details
-                          </Link>
-                        </div>
                       </div>
-                    );
-                  })}
-                </div>
+                    ))}
+                  </div>
+                )}
               </div>
 
-              {/* Quick Actions */}
-              <div className="bg-gray-800 rounded-lg p-6">
-                <h2 className="text-xl font-semibold text-white mb-4">Quick Actions</h2>
-                <div className="grid grid-cols-2 gap-4">
-                  <Link
-                    href="/portal/client/messages"
-                    className="flex flex-col items-center p-4 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
-                  >
-                    <FaComments className="h-8 w-8 text-green-400 mb-2" />
-                    <span className="text-sm text-white">Messages</span>
-                  </Link>
-                  
-                  <Link
-                    href="/portal/client/photos"
-                    className="flex flex-col items-center p-4 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
-                  >
-                    <FaCamera className="h-8 w-8 text-blue-400 mb-2" />
-                    <span className="text-sm text-white">Project Photos</span>
-                  </Link>
-                  
-                  <Link
-                    href="/portal/client/documents"
-                    className="flex flex-col items-center p-4 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
-                  >
-                    <FaFileAlt className="h-8 w-8 text-purple-400 mb-2" />
-                    <span className="text-sm text-white">Documents</span>
-                  </Link>
-                  
-                  <Link
-                    href="/quote"
-                    className="flex flex-col items-center p-4 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
-                  >
-                    <FaProjectDiagram className="h-8 w-8 text-yellow-400 mb-2" />
-                    <span className="text-sm text-white">New Quote</span>
-                  </Link>
+              {/* Invoices - co-workers are not shown billing */}
+              {isOwner && (
+                <div className="bg-gray-800 rounded-lg p-6">
+                  <h2 className="text-xl font-semibold text-white mb-4 flex items-center">
+                    <FaFileInvoiceDollar className="mr-2 text-emerald-400" /> Invoices
+                  </h2>
+                  {data.invoices.length === 0 ? (
+                    <p className="text-gray-400 text-sm">No invoices yet.</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-400 border-b border-gray-700">
+                            <th className="py-2 pr-4">Invoice</th>
+                            <th className="py-2 pr-4">Period</th>
+                            <th className="py-2 pr-4">Due</th>
+                            <th className="py-2 pr-4 text-right">Total</th>
+                            <th className="py-2 pr-4 text-right">Balance</th>
+                            <th className="py-2 pr-4">Status</th>
+                            <th className="py-2"></th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {data.invoices.map(invoice => (
+                            <tr key={invoice.id} className="border-b border-gray-700 text-gray-200">
+                              <td className="py-2 pr-4 font-medium">{invoice.invoiceNumber}</td>
+                              <td className="py-2 pr-4">
+                                {formatCalendarDate(invoice.periodStart)} – {formatCalendarDate(invoice.periodEnd)}
+                              </td>
+                              <td className="py-2 pr-4">{invoice.dueAt ? formatDate(invoice.dueAt) : '—'}</td>
+                              <td className="py-2 pr-4 text-right">{formatCurrency(invoice.total)}</td>
+                              <td className="py-2 pr-4 text-right">{formatCurrency(invoice.balanceDue)}</td>
+                              <td className="py-2 pr-4"><StatusBadge status={invoice.status} /></td>
+                              <td className="py-2">
+                                <button
+                                  onClick={() => downloadInvoice(invoice)}
+                                  className="text-green-400 hover:text-green-300 flex items-center"
+                                  title="Download PDF"
+                                >
+                                  <FaFilePdf className="mr-1" /> PDF
+                                </button>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
                 </div>
+              )}
+
+              {/* Quote History */}
+              <div className="bg-gray-800 rounded-lg p-6">
+                <h2 className="text-xl font-semibold text-white mb-4 flex items-center">
+                  <FaClipboardList className="mr-2 text-yellow-400" /> Quote History
+                </h2>
+                {data.quotes.length === 0 ? (
+                  <p className="text-gray-400 text-sm">You have not requested any quotes.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {data.quotes.map(quote => (
+                      <div key={quote.id} className="bg-gray-700 rounded-lg p-4">
+                        <div className="flex items-center justify-between mb-1">
+                          <h3 className="text-white font-medium">{quote.serviceType}</h3>
+                          <StatusBadge status={quote.status} />
+                        </div>
+                        <p className="text-sm text-gray-300 line-clamp-2">{quote.description}</p>
+                        <p className="text-xs text-gray-400 mt-2">
+                          Requested {formatDate(quote.submittedAt)}
+                          {quote.quotedTotal !== undefined && ` · Quoted ${formatCurrency(quote.quotedTotal)}`}
+                          {quote.expiresAt && quote.status === 'quote_sent' && ` · Valid until ${formatDate(quote.expiresAt)}`}
+                          {quote.contractId && ` · Contract ${quote.contractId}`}
+                          {quote.deposit && ` · Deposit ${formatCurrency(quote.deposit.amount)} ${formatStatus(quote.deposit.status).toLowerCase()}`}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
 
             {/* Right Sidebar */}
-            <div>
+            <div className="space-y-6">
+              {/* Contracts */}
+              <div className="bg-gray-800 rounded-lg p-6">
+                <h2 className="text-xl font-semibold text-white mb-4 flex items-center">
+                  <FaFileAlt className="mr-2 text-purple-400" /> Contracts
+                </h2>
+                {data.contracts.length === 0 ? (
+                  <p className="text-gray-400 text-sm">No contracts are on file under {data.client.email}.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {data.contracts.map(contract => (
+                      <div key={contract.contractId} className="bg-gray-700 rounded-lg p-3">
+                        <div className="flex items-center justify-between mb-1">
+                          <span className="text-white font-medium">{contract.contractId}</span>
+                          <StatusBadge status={contract.status} />
+                        </div>
+                        <p className="text-sm text-gray-300">{contract.serviceType}</p>
+                        <p className="text-xs text-gray-400">{contract.address}</p>
+                        <p className="text-xs text-gray-400">
+                          From {formatDate(contract.startDate)}{contract.endDate && ` to ${formatDate(contract.endDate)}`}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {isOwner && <LinkContractPanel />}
+
+              {isOwner && <TeamPanel companyName={data.client.companyName} />}
+
+              {/* Update Requests */}
+              <div className="bg-gray-800 rounded-lg p-6">
+                <h2 className="text-xl font-semibold text-white mb-4 flex items-center">
+                  <FaComments className="mr-2 text-blue-400" /> Update Requests
+                </h2>
+                {data.updateRequests.length === 0 ? (
+                  <p className="text-gray-400 text-sm">No update requests.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {data.updateRequests.map(request => (
+                      <div key={request.id} className="border-l-2 border-blue-500 pl-3">
+                        <div className="flex items-center justify-between">
+                          <p className="text-white text-sm">{request.reasonForContact}</p>
+                          <StatusBadge status={request.status} />
+                        </div>
+                        <p className="text-gray-400 text-xs">
+                          {formatDate(request.submittedAt)}
+                          {request.contractId && ` · ${request.contractId}`}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <Link
+                  href="/quote"
+                  className="mt-4 block text-center bg-green-600 hover:bg-green-700 text-white text-sm py-2 px-4 rounded-lg transition-colors"
+                >
+                  Request a Quote or Update
+                </Link>
+              </div>
+
               {/* Contact Information */}
-              <div className="bg-gray-800 rounded-lg p-6 mb-6">
+              <div className="bg-gray-800 rounded-lg p-6">
                 <h2 className="text-xl font-semibold text-white mb-4">Contact Your Team</h2>
                 <div className="space-y-4">
                   <div className="flex items-center space-x-3">
@@ -272,37 +638,6 @@ export default function ClientDashboard() {
                       <p className="text-gray-400 text-xs">contact@vsrsnow.com</p>
                     </div>
                   </div>
-                  <button className="w-full bg-green-600 hover:bg-green-700 text-white py-2 px-4 rounded-lg transition-colors">
-                    Send Message
-                  </button>
-                </div>
-              </div>
-
-              {/* Recent Updates */}
-              <div className="bg-gray-800 rounded-lg p-6">
-                <h2 className="text-xl font-semibold text-white mb-4">Recent Updates</h2>
-                <div className="space-y-3">
-                  <div className="flex items-center space-x-3">
-                    <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                    <div>
-                      <p className="text-white text-sm">Snow removal completed</p>
-                      <p className="text-gray-400 text-xs">2 hours ago</p>
-                    </div>
-                  </div>
-                  <div className="flex items-center space-x-3">
-                    <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                    <div>
-                      <p className="text-white text-sm">Project photos uploaded</p>
-                      <p className="text-gray-400 text-xs">1 day ago</p>
-                    </div>
-                  </div>
-                  <div className="flex items-center space-x-3">
-                    <div className="w-2 h-2 bg-yellow-500 rounded-full"></div>
-                    <div>
-                      <p className="text-white text-sm">Schedule updated</p>
-                      <p className="text-gray-400 text-xs">2 days ago</p>
-                    </div>
-                  </div>
                 </div>
               </div>
             </div>
@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import Link from 'next/link';
+import { FaFileContract } from 'react-icons/fa';
+import { portalFetch } from '../../../lib/portal-fetch';
+
+export default function ClientLinkContract() {
+  const router = useRouter();
+  const [status, setStatus] = useState<'working' | 'linked' | 'failed'>('working');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    if (!router.isReady) return;
+
+    const token = typeof router.query.token === 'string' ? router.query.token : '';
+    if (!token) {
+      setStatus('failed');
+      setMessage('This confirmation link is incomplete. Please use the link from the email.');
+      return;
+    }
+
+    portalFetch('/api/client/account/contracts/confirm', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ token })
+    })
+      .then(response => {
+        // The link has to be confirmed by the account that asked for it, so sign in first and come back
+        if (response.status === 401) {
+          router.push(`/portal/client/login?redirect=${encodeURIComponent(router.asPath)}`);
+          return null;
+        }
+        return response.json();
+      })
+      .then(data => {
+        if (!data) return;
+        setStatus(data.success ? 'linked' : 'failed');
+        setMessage(data.message || (data.success ? 'Contract linked to your account' : 'Contract could not be linked'));
+      })
+      .catch(() => {
+        setStatus('failed');
+        setMessage('Network error. Please try again.');
+      });
+  }, [router, router.isReady]);
+
+  return (
+    <>
+      <Head>
+        <title>Client Portal - Link Contract | VSR Construction</title>
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-6 text-center">
+          <div className="flex justify-center items-center space-x-2">
+            <FaFileContract className="h-6 w-6 text-green-500" />
+            <h2 className="text-3xl font-extrabold text-white">Link Contract</h2>
+          </div>
+
+          {status === 'working' ? (
+            <p className="text-gray-400">Confirming your contract...</p>
+          ) : (
+            <div className={`rounded-md p-4 ${status === 'linked' ? 'bg-green-50' : 'bg-red-50'}`}>
+              <div className={`text-sm ${status === 'linked' ? 'text-green-700' : 'text-red-700'}`}>{message}</div>
+            </div>
+          )}
+
+          <Link href="/portal/client/dashboard" className="inline-block text-sm font-medium text-green-400 hover:text-green-300">
+            Go to your dashboard
+          </Link>
+        </div>
+      </div>
+    </>
+  );
+}
\ No newline at end of file
@@ -33,14 +33,16 @@ export default function ClientLogin() {
         headers: {
           'Content-Type': 'application/json',
         },
+        credentials: 'include', // The session comes back as an HttpOnly cookie
         body: JSON.stringify(formData)
       });
 
       const data = await response.json();
 
       if (data.success) {
-        localStorage.setItem('clientToken', data.token);
-        router.push('/portal/client/dashboard');
+        // Only portal pages, so the redirect cannot send a client off-site
+        const redirect = typeof router.query.redirect === 'string' ? router.query.redirect : '';
+        router.push(redirect.startsWith('/portal/client/') ? redirect : '/portal/client/dashboard');
       } else {
         setError(data.message || 'Login failed');
       }
@@ -0,0 +1,243 @@
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import Link from 'next/link';
+import { FaUsers } from 'react-icons/fa';
+import PasswordStrengthIndicator from '../../../components/PasswordStrengthIndicator';
+
+interface InvitationSummary {
+  email: string;
+  companyName?: string;
+  recipientName?: string;
+  accessLevel: string;
+  expiresAt: string;
+}
+
+export default function ClientAccountSetup() {
+  const router = useRouter();
+  const token = typeof router.query.token === 'string' ? router.query.token : '';
+  const [invitation, setInvitation] = useState<InvitationSummary | null>(null);
+  const [formData, setFormData] = useState({
+    firstName: '',
+    lastName: '',
+    phone: ''
+  });
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!router.isReady) return;
+    if (!token) {
+      setError('This setup link is incomplete. Please use the link from your invitation email.');
+      setIsLoading(false);
+      return;
+    }
+
+    fetch(`/api/client/auth/invitation?token=${encodeURIComponent(token)}`)
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) {
+          setInvitation(data.invitation);
+        } else {
+          setError(data.message || 'Invitation link is invalid or has expired');
+        }
+      })
+      .catch(() => setError('Network error. Please try again.'))
+      .finally(() => setIsLoading(false));
+  }, [router.isReady, token]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: value
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch('/api/client/auth/setup', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include', // The session comes back as an HttpOnly cookie
+        body: JSON.stringify({ token, ...formData, password })
+      });
+
+      const data = await response.json();
+
+      if (data.success && data.user) {
+        router.push('/portal/client/dashboard');
+      } else if (data.success) {
+        router.push('/portal/client/login');
+      } else {
+        setError(data.message || 'Account setup failed');
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName = 'appearance-none block w-full px-3 py-2 border border-gray-600 bg-gray-800 rounded-md placeholder-gray-400 text-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
+  return (
+    <>
+      <Head>
+        <title>Client Portal - Set Up Your Account | VSR Construction</title>
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8">
+          <div>
+            <div className="mx-auto h-12 w-auto flex justify-center">
+              <img src="/VSRv2.png" alt="VSR Construction" className="h-12" />
+            </div>
+            <div className="flex justify-center mt-4">
+              <div className="flex items-center space-x-2">
+                <FaUsers className="h-6 w-6 text-green-500" />
+                <h2 className="text-center text-3xl font-extrabold text-white">
+                  Set Up Your Account
+                </h2>
+              </div>
+            </div>
+            {invitation && (
+              <p className="mt-2 text-center text-sm text-gray-400">
+                {invitation.companyName ? `${invitation.companyName} · ` : ''}{invitation.email}
+              </p>
+            )}
+          </div>
+
+          {isLoading ? (
+            <div className="text-center text-gray-400">Checking your invitation...</div>
+          ) : !invitation ? (
+            <div className="space-y-6">
+              <div className="rounded-md bg-red-50 p-4">
+                <div className="text-sm text-red-700">{error}</div>
+              </div>
+              <div className="text-center text-sm text-gray-400">
+                Already set up?{' '}
+                <Link href="/portal/client/login" className="font-medium text-green-400 hover:text-green-300">
+                  Sign in
+                </Link>
+              </div>
+            </div>
+          ) : (
+            <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label htmlFor="firstName" className="block text-sm font-medium text-gray-300">
+                      First name
+                    </label>
+                    <input
+                      id="firstName"
+                      name="firstName"
+                      type="text"
+                      autoComplete="given-name"
+                      required
+                      value={formData.firstName}
+                      onChange={handleInputChange}
+                      className={`mt-1 ${inputClassName}`}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="lastName" className="block text-sm font-medium text-gray-300">
+                      Last name
+                    </label>
+                    <input
+                      id="lastName"
+                      name="lastName"
+                      type="text"
+                      autoComplete="family-name"
+                      required
+                      value={formData.lastName}
+                      onChange={handleInputChange}
+                      className={`mt-1 ${inputClassName}`}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label htmlFor="phone" className="block text-sm font-medium text-gray-300">
+                    Phone (optional)
+                  </label>
+                  <input
+                    id="phone"
+                    name="phone"
+                    type="tel"
+                    autoComplete="tel"
+                    value={formData.phone}
+                    onChange={handleInputChange}
+                    className={`mt-1 ${inputClassName}`}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">
+                    Password
+                  </label>
+                  <PasswordStrengthIndicator
+                    password={password}
+                    onPasswordChange={setPassword}
+                    placeholder="Choose a password"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-300">
+                    Confirm password
+                  </label>
+                  <input
+                    id="confirmPassword"
+                    name="confirmPassword"
+                    type="password"
+                    autoComplete="new-password"
+                    required
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className={`mt-1 ${inputClassName}`}
+                  />
+                </div>
+              </div>
+
+              {error && (
+                <div className="rounded-md bg-red-50 p-4">
+                  <div className="text-sm text-red-700">{error}</div>
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? 'Creating account...' : 'Create account'}
+              </button>
+
+              <p className="text-center text-xs text-gray-500">
+                This link expires {new Date(invitation.expiresAt).toLocaleDateString()}
+              </p>
+            </form>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
\ No newline at end of file
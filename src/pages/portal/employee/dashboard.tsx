@@ -12,13 +12,20 @@ import {
   FaTasks,
   FaChartLine,
   FaFileAlt,
-  FaSnowflake
+  FaSnowflake,
+  FaTruck
 } from 'react-icons/fa';
 import { isFeatureEnabled } from '@/utils/version';
+import StormProgressCard from '@/components/StormProgressCard';
+import TwoFactorSettings from '@/components/TwoFactorSettings';
+import { portalFetch } from '@/lib/portal-fetch';
+import type { StormEventResponse } from '@/presentation/api/StormEventPresenter';
 
 export default function EmployeeDashboard() {
   const router = useRouter();
   const [employee, setEmployee] = useState<any>(null);
+  const [storms, setStorms] = useState<StormEventResponse[]>([]);
+  const [hoursThisWeek, setHoursThisWeek] = useState(0);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -26,22 +33,14 @@ export default function EmployeeDashboard() {
   }, []);
 
   const checkEmployeeAuth = async () => {
-    const token = localStorage.getItem('employeeToken');
-    if (!token) {
-      router.push('/portal/employee/login');
-      return;
-    }
-
     try {
-      const response = await fetch('/api/employee/dashboard', {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const response = await portalFetch('/api/employee/dashboard');
 
       if (response.ok) {
         const data = await response.json();
         setEmployee(data.employee);
+        setStorms(data.storms || []);
+        setHoursThisWeek(data.hoursThisWeek ?? 0);
       } else {
         router.push('/portal/employee/login');
       }
@@ -77,6 +76,24 @@ export default function EmployeeDashboard() {
       <div className="min-h-screen bg-gray-100">
 
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Active Storms */}
+          {storms.length > 0 && (
+            <div className="space-y-3 mb-8">
+              {storms.map(storm => (
+                <StormProgressCard
+                  key={storm.id}
+                  storm={storm}
+                  dark
+                  action={
+                    <Link href="/portal/employee/work-orders" className="text-sm text-blue-400 hover:text-blue-300">
+                      My runs
+                    </Link>
+                  }
+                />
+              ))}
+            </div>
+          )}
+
           {/* Quick Stats */}
           <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
             <div className="bg-gray-800 rounded-lg p-6">
@@ -86,7 +103,7 @@ export default function EmployeeDashboard() {
                 </div>
                 <div className="ml-5">
                   <p className="text-sm font-medium text-gray-400">Hours This Week</p>
-                  <p className="text-2xl font-bold text-white">38.5</p>
+                  <p className="text-2xl font-bold text-white">{hoursThisWeek.toFixed(1)}</p>
                 </div>
               </div>
             </div>
@@ -145,6 +162,26 @@ export default function EmployeeDashboard() {
                       <span className="text-sm text-white">Snow Removal</span>
                     </Link>
                   )}
+
+                  {isFeatureEnabled('employee-projects') && (
+                    <Link
+                      href="/portal/employee/time-clock"
+                      className="flex flex-col items-center p-4 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+                    >
+                      <FaClock className="h-8 w-8 text-green-400 mb-2" />
+                      <span className="text-sm text-white">Time Clock</span>
+                    </Link>
+                  )}
+
+                  {isFeatureEnabled('employee-snow-removal') && (
+                    <Link
+                      href="/portal/employee/work-orders"
+                      className="flex flex-col items-center p-4 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+                    >
+                      <FaTruck className="h-8 w-8 text-blue-400 mb-2" />
+                      <span className="text-sm text-white">My Work Orders</span>
+                    </Link>
+                  )}
                   
                   {isFeatureEnabled('employee-projects') && (
                     <Link
@@ -283,6 +320,11 @@ export default function EmployeeDashboard() {
                   </button>
                 </div>
               </div>
+
+              {/* Account Security */}
+              <div className="mt-6">
+                <TwoFactorSettings />
+              </div>
             </div>
           </div>
         </div>
@@ -3,6 +3,7 @@ import { useRouter } from 'next/router';
 import Head from 'next/head';
 import Link from 'next/link';
 import { FaUser, FaLock, FaEye, FaEyeSlash } from 'react-icons/fa';
+import TwoFactorChallenge from '../../../components/TwoFactorChallenge';
 
 export default function EmployeeLogin() {
   const router = useRouter();
@@ -13,6 +14,7 @@ export default function EmployeeLogin() {
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<{ challengeToken: string; enrollmentRequired: boolean } | null>(null);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -33,14 +35,17 @@ export default function EmployeeLogin() {
         headers: {
           'Content-Type': 'application/json',
         },
+        credentials: 'include', // The session comes back as an HttpOnly cookie
         body: JSON.stringify(formData)
       });
 
       const data = await response.json();
 
-      if (data.success) {
-        localStorage.setItem('employeeToken', data.token);
-        router.push('/portal/employee/dashboard');
+      if (data.requiresTwoFactor) {
+        // Password accepted; the session only starts after the second step
+        setTwoFactorChallenge({ challengeToken: data.challengeToken, enrollmentRequired: !!data.enrollmentRequired });
+      } else if (data.success) {
+        completeSignIn();
       } else {
         setError(data.message || 'Login failed');
       }
@@ -51,6 +56,10 @@ export default function EmployeeLogin() {
     }
   };
 
+  const completeSignIn = () => {
+    router.push('/portal/employee/dashboard');
+  };
+
 
   return (
     <>
@@ -74,6 +83,20 @@ export default function EmployeeLogin() {
             </p>
           </div>
 
+          {twoFactorChallenge ? (
+            <div className="mt-8">
+              <TwoFactorChallenge
+                challengeToken={twoFactorChallenge.challengeToken}
+                enrollmentRequired={twoFactorChallenge.enrollmentRequired}
+                verifyUrl="/api/employee/auth/two-factor"
+                onVerified={() => completeSignIn()}
+                onCancel={() => {
+                  setTwoFactorChallenge(null);
+                  setFormData(prev => ({ ...prev, password: '' }));
+                }}
+              />
+            </div>
+          ) : (
           <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
             <div className="space-y-4">
               <div>
@@ -170,6 +193,7 @@ export default function EmployeeLogin() {
               </div>
             </div>
           </form>
+          )}
         </div>
       </div>
     </>
@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/router';
 import Head from 'next/head';
-import { FaSnowflake, FaMapMarkerAlt, FaCalendarAlt, FaTools, FaFileExcel, FaArrowLeft } from 'react-icons/fa';
+import { FaSnowflake, FaMapMarkerAlt, FaCalendarAlt, FaTools, FaFileExcel, FaArrowLeft, FaTruck } from 'react-icons/fa';
+import { portalFetch } from '@/lib/portal-fetch';
 
 interface SnowRemovalForm {
   propertyCode: string;
@@ -45,35 +46,15 @@ export default function SnowRemovalTool() {
   }, []);
 
   const checkEmployeeAuth = async () => {
-    const token = localStorage.getItem('employeeToken') || localStorage.getItem('accessToken');
-    if (!token) {
-      router.push('/portal/employee/login');
-      return;
-    }
-
     try {
-      const response = await fetch('/api/employee/dashboard', {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      // Employees and admins can both file snow removal requests
+      const response = await portalFetch('/api/auth/me');
+      const data = response.ok ? await response.json() : null;
 
-      if (response.ok) {
-        const data = await response.json();
-        setEmployee(data.employee);
+      if (data?.success && (data.data.role === 'employee' || data.data.role === 'admin')) {
+        setEmployee(data.data);
       } else {
-        // Try admin dashboard if employee fails
-        const adminResponse = await fetch('/api/admin/dashboard', {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        });
-        if (adminResponse.ok) {
-          const adminData = await adminResponse.json();
-          setEmployee({ ...adminData.user, role: 'admin' });
-        } else {
-          router.push('/portal/employee/login');
-        }
+        router.push('/portal/employee/login');
       }
     } catch (error) {
       console.error('Auth check failed:', error);
@@ -105,12 +86,10 @@ export default function SnowRemovalTool() {
     setSubmitting(true);
 
     try {
-      const token = localStorage.getItem('employeeToken') || localStorage.getItem('accessToken');
-      const response = await fetch('/api/snow-removal/submit', {
+      const response = await portalFetch('/api/snow-removal/submit', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           ...formData,
@@ -120,7 +99,7 @@ export default function SnowRemovalTool() {
       });
 
       if (response.ok) {
-        setStatusMessage('Snow removal service request submitted successfully!');
+        setStatusMessage('Snow removal work order created and added to the dispatch board.');
         // Reset form
         setFormData({
           propertyCode: '',
@@ -137,7 +116,8 @@ export default function SnowRemovalTool() {
           accessNotes: ''
         });
       } else {
-        setStatusMessage('Failed to submit request. Please try again.');
+        const data = await response.json().catch(() => ({}));
+        setStatusMessage(data.error ? `Failed to submit request: ${data.error}` : 'Failed to submit request. Please try again.');
       }
     } catch (error) {
       console.error('Submit error:', error);
@@ -148,33 +128,39 @@ export default function SnowRemovalTool() {
     }
   };
 
-  const exportToExcel = () => {
-    // This will trigger the Excel export functionality
-    const csvContent = [
-      ['Property Code', 'Client Name', 'Service Address', 'Zipcode', 'Service Type', 'Priority', 'Scheduled Date', 'Estimated Hours', 'Equipment Required', 'Weather Conditions', 'Access Notes', 'Special Instructions'],
-      [
-        formData.propertyCode,
-        formData.clientName,
-        formData.serviceAddress,
-        formData.zipcode,
-        formData.serviceType,
-        formData.priority,
-        formData.scheduledDate,
-        formData.estimatedHours,
-        formData.equipmentRequired.join(', '),
-        formData.weatherConditions,
-        formData.accessNotes,
-        formData.specialInstructions
-      ]
-    ].map(row => row.join(',')).join('\n');
+  // Downloads the server-built workbook of the last 30 days of this employee's service logs and work orders
+  const exportToExcel = async () => {
+    const today = new Date();
+    const params = new URLSearchParams({
+      from: new Date(today.getTime() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+      to: today.toISOString().split('T')[0]
+    });
+    if (formData.propertyCode.trim()) {
+      params.set('propertyCode', formData.propertyCode.trim());
+    }
+
+    try {
+      const response = await portalFetch(`/api/employee/reports/service-report?${params.toString()}`);
 
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `snow-removal-${formData.propertyCode}-${new Date().toISOString().split('T')[0]}.csv`;
-    a.click();
-    window.URL.revokeObjectURL(url);
+      if (!response.ok) {
+        const result = await response.json();
+        setStatusMessage(result.message || 'Failed to export report.');
+        setTimeout(() => setStatusMessage(''), 5000);
+        return;
+      }
+
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'service-report.xlsx';
+      const url = window.URL.createObjectURL(await response.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting report:', error);
+      setStatusMessage('Network error. Please try again.');
+      setTimeout(() => setStatusMessage(''), 5000);
+    }
   };
 
   if (loading) {
@@ -206,6 +192,13 @@ export default function SnowRemovalTool() {
                 <h1 className="text-3xl font-bold text-white">Snow Removal Services</h1>
               </div>
               <div className="flex space-x-4">
+                <button
+                  onClick={() => router.push('/portal/employee/work-orders')}
+                  className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition-colors"
+                >
+                  <FaTruck className="h-4 w-4" />
+                  <span>Work Orders</span>
+                </button>
                 <button
                   onClick={exportToExcel}
                   className="flex items-center space-x-2 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg transition-colors"
@@ -0,0 +1,340 @@
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import { FaArrowLeft, FaClock, FaCoffee, FaMapMarkerAlt, FaPlay, FaStop } from 'react-icons/fa';
+import type { TimeEntryResponse, WeekToDateResponse } from '@/presentation/api/TimeEntryPresenter';
+import { portalFetch } from '@/lib/portal-fetch';
+
+interface ClockSite {
+  projectId: string;
+  title: string;
+  propertyCode: string;
+  geofenced: boolean;
+}
+
+interface ReportedPosition {
+  latitude: number;
+  longitude: number;
+  accuracyMeters: number;
+}
+
+const LOCATION_LABELS: Record<string, string> = {
+  verified: 'On site',
+  outside: 'Outside the site area',
+  not_reported: 'Location not shared',
+  no_site_coordinates: 'Site has no location on file'
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  open: 'Clocked In',
+  completed: 'Awaiting Approval',
+  approved: 'Approved',
+  rejected: 'Rejected'
+};
+
+const formatTime = (value: string) => new Date(value).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+const formatDay = (value: string) => new Date(value).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+
+// Sharing location is optional; a denied or slow position just clocks in without it
+const currentPosition = (): Promise<ReportedPosition | undefined> => new Promise(resolve => {
+  if (typeof navigator === 'undefined' || !navigator.geolocation) {
+    resolve(undefined);
+    return;
+  }
+  navigator.geolocation.getCurrentPosition(
+    position => resolve({
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+      accuracyMeters: position.coords.accuracy
+    }),
+    () => resolve(undefined),
+    { enableHighAccuracy: true, timeout: 10000, maximumAge: 60000 }
+  );
+});
+
+export default function EmployeeTimeClock() {
+  const router = useRouter();
+  const [current, setCurrent] = useState<TimeEntryResponse | null>(null);
+  const [week, setWeek] = useState<WeekToDateResponse | null>(null);
+  const [entries, setEntries] = useState<TimeEntryResponse[]>([]);
+  const [sites, setSites] = useState<ClockSite[]>([]);
+  const [projectId, setProjectId] = useState('');
+  const [propertyCode, setPropertyCode] = useState('');
+  const [shareLocation, setShareLocation] = useState(true);
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [statusMessage, setStatusMessage] = useState('');
+
+  useEffect(() => {
+    loadTimeClock();
+  }, []);
+
+  const loadTimeClock = async () => {
+    try {
+      const response = await portalFetch('/api/employee/time-clock');
+
+      if (response.ok) {
+        const data = await response.json();
+        setCurrent(data.current);
+        setWeek(data.week);
+        setEntries(data.entries);
+        setSites(data.sites);
+      } else {
+        router.push('/portal/employee/login');
+      }
+    } catch (error) {
+      console.error('Failed to load time clock:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const punch = async (action: string) => {
+    setSubmitting(true);
+    try {
+      const reportsLocation = action === 'clock_in' || action === 'clock_out';
+      const location = reportsLocation && shareLocation ? await currentPosition() : undefined;
+
+      const response = await portalFetch('/api/employee/time-clock', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          action,
+          projectId: action === 'clock_in' ? projectId || undefined : undefined,
+          propertyCode: action === 'clock_in' && !projectId ? propertyCode : undefined,
+          location,
+          notes: reportsLocation ? notes || undefined : undefined
+        })
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        const check = action === 'clock_out' ? data.entry.clockOutCheck : data.entry.clockInCheck;
+        setStatusMessage(reportsLocation && check
+          ? `${action === 'clock_in' ? 'Clocked in' : 'Clocked out'} · ${LOCATION_LABELS[check.status]}`
+          : 'Time clock updated.');
+        setNotes('');
+      } else {
+        setStatusMessage(data.message || 'Failed to update the time clock.');
+      }
+      await loadTimeClock();
+    } catch (error) {
+      console.error('Failed to update time clock:', error);
+      setStatusMessage('Network error. Please try again.');
+    } finally {
+      setSubmitting(false);
+      setTimeout(() => setStatusMessage(''), 5000);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-white">Loading time clock...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const remainingRegular = week ? Math.max(0, week.thresholdHours - week.hours) : 0;
+
+  return (
+    <>
+      <Head>
+        <title>Time Clock | VSR Construction</title>
+        <meta name="description" content="Clock in and out of your shifts" />
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-screen bg-gray-100">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Header */}
+          <div className="bg-gray-800 rounded-lg p-6 mb-8">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <FaClock className="h-8 w-8 text-blue-400" />
+                <h1 className="text-3xl font-bold text-white">Time Clock</h1>
+              </div>
+              <button
+                onClick={() => router.push('/portal/employee/dashboard')}
+                className="flex items-center space-x-2 bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded-lg transition-colors"
+              >
+                <FaArrowLeft className="h-4 w-4" />
+                <span>Back to Dashboard</span>
+              </button>
+            </div>
+          </div>
+
+          {/* Status Message */}
+          {statusMessage && (
+            <div className="mb-6 p-4 rounded-lg bg-blue-600 text-white">
+              {statusMessage}
+            </div>
+          )}
+
+          {/* Current Shift */}
+          <div className="bg-gray-800 rounded-lg p-6 mb-8">
+            {current ? (
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                <div>
+                  <p className="text-sm text-gray-400">
+                    {current.onBreak ? 'On break' : 'Clocked in'} since {formatTime(current.clockInAt)}
+                  </p>
+                  <h2 className="text-2xl font-semibold text-white">
+                    {current.siteName || current.propertyCode}
+                  </h2>
+                  <p className="text-sm text-gray-300 flex items-center mt-1">
+                    <FaMapMarkerAlt className="mr-1" />
+                    {LOCATION_LABELS[current.clockInCheck.status]}
+                    {current.breakMinutes > 0 && ` · ${current.breakMinutes} min break`}
+                  </p>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <button
+                    onClick={() => punch(current.onBreak ? 'end_break' : 'start_break')}
+                    disabled={submitting}
+                    className="flex items-center justify-center bg-yellow-600 hover:bg-yellow-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg"
+                  >
+                    <FaCoffee className="mr-2" />
+                    {current.onBreak ? 'End Break' : 'Start Break'}
+                  </button>
+                  <button
+                    onClick={() => punch('clock_out')}
+                    disabled={submitting}
+                    className="flex items-center justify-center bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg"
+                  >
+                    <FaStop className="mr-2" />
+                    Clock Out
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <h2 className="text-xl font-semibold text-white">Start a Shift</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <select
+                    value={projectId}
+                    onChange={event => setProjectId(event.target.value)}
+                    className="w-full px-3 py-2 rounded-lg bg-gray-700 text-white border border-gray-600"
+                  >
+                    <option value="">Enter a property code instead</option>
+                    {sites.map(site => (
+                      <option key={site.projectId} value={site.projectId}>
+                        {site.propertyCode} · {site.title}
+                      </option>
+                    ))}
+                  </select>
+                  {!projectId && (
+                    <input
+                      value={propertyCode}
+                      onChange={event => setPropertyCode(event.target.value)}
+                      placeholder="Property code"
+                      className="w-full px-3 py-2 rounded-lg bg-gray-700 text-white border border-gray-600 uppercase"
+                    />
+                  )}
+                </div>
+              </div>
+            )}
+
+            {(!current || !current.onBreak) && (
+              <div className="mt-4 space-y-3">
+                <input
+                  value={notes}
+                  onChange={event => setNotes(event.target.value)}
+                  placeholder="Notes for your supervisor (optional)"
+                  className="w-full px-3 py-2 rounded-lg bg-gray-700 text-white border border-gray-600"
+                />
+                <label className="flex items-center text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={shareLocation}
+                    onChange={event => setShareLocation(event.target.checked)}
+                    className="mr-2"
+                  />
+                  Share my location to confirm I am on site
+                </label>
+                {!current && (
+                  <button
+                    onClick={() => punch('clock_in')}
+                    disabled={submitting || (!projectId && !propertyCode.trim())}
+                    className="flex items-center justify-center bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg"
+                  >
+                    <FaPlay className="mr-2" />
+                    Clock In
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Week to Date */}
+          {week && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+              <div className="bg-white rounded-lg shadow p-4">
+                <p className="text-sm text-gray-500">Hours this week</p>
+                <p className="text-2xl font-bold text-gray-900">{week.hours.toFixed(2)}</p>
+                <p className="text-xs text-gray-500">{week.week.firstDay} to {week.week.lastDay}</p>
+              </div>
+              <div className="bg-white rounded-lg shadow p-4">
+                <p className="text-sm text-gray-500">Regular hours left</p>
+                <p className="text-2xl font-bold text-gray-900">{remainingRegular.toFixed(2)}</p>
+                <p className="text-xs text-gray-500">Overtime after {week.thresholdHours} hours</p>
+              </div>
+              <div className="bg-white rounded-lg shadow p-4">
+                <p className="text-sm text-gray-500">Overtime this week</p>
+                <p className={`text-2xl font-bold ${week.overtimeHours > 0 ? 'text-orange-600' : 'text-gray-900'}`}>
+                  {week.overtimeHours.toFixed(2)}
+                </p>
+              </div>
+            </div>
+          )}
+
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">This Week</h2>
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            {entries.length === 0 ? (
+              <p className="p-4 text-gray-600">No shifts this week yet.</p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Day</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Site</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Shift</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Hours</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Overtime</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {entries.map(entry => (
+                    <tr key={entry.id}>
+                      <td className="px-4 py-2 text-sm text-gray-900">{formatDay(entry.clockInAt)}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900">{entry.siteName || entry.propertyCode}</td>
+                      <td className="px-4 py-2 text-sm text-gray-600">
+                        {formatTime(entry.clockInAt)} – {entry.clockOutAt ? formatTime(entry.clockOutAt) : 'now'}
+                        {entry.breakMinutes > 0 && ` (${entry.breakMinutes} min break)`}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right text-gray-900">{entry.hours.toFixed(2)}</td>
+                      <td className="px-4 py-2 text-sm text-right text-gray-900">{(entry.overtimeHours ?? 0).toFixed(2)}</td>
+                      <td className="px-4 py-2 text-sm text-gray-600">
+                        {STATUS_LABELS[entry.status]}
+                        {entry.status === 'rejected' && entry.reviews.length > 0 && (
+                          <span className="block text-xs text-red-600">{entry.reviews[entry.reviews.length - 1].comment}</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
\ No newline at end of file
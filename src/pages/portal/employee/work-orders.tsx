@@ -0,0 +1,195 @@
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import { FaArrowLeft, FaCheckCircle, FaHandPaper, FaMapMarkerAlt, FaSnowflake, FaTruck } from 'react-icons/fa';
+import type { WorkOrderResponse } from '@/presentation/api/WorkOrderPresenter';
+import { portalFetch } from '@/lib/portal-fetch';
+
+const STATUS_LABELS: Record<string, string> = {
+  requested: 'Requested',
+  dispatched: 'Dispatched',
+  en_route: 'En Route',
+  on_site: 'On Site',
+  complete: 'Awaiting Sign-off',
+  verified: 'Verified'
+};
+
+// The next step a crew member can report from each status
+const NEXT_ACTIONS: Record<string, { action: string; label: string }> = {
+  dispatched: { action: 'en_route', label: 'Start Driving' },
+  en_route: { action: 'on_site', label: 'Arrived On Site' },
+  on_site: { action: 'complete', label: 'Mark Complete' }
+};
+
+export default function EmployeeWorkOrders() {
+  const router = useRouter();
+  const [assigned, setAssigned] = useState<WorkOrderResponse[]>([]);
+  const [available, setAvailable] = useState<WorkOrderResponse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusMessage, setStatusMessage] = useState('');
+
+  useEffect(() => {
+    loadWorkOrders();
+  }, []);
+
+  const loadWorkOrders = async () => {
+    try {
+      const response = await portalFetch('/api/employee/work-orders');
+
+      if (response.ok) {
+        const data = await response.json();
+        setAssigned(data.assigned);
+        setAvailable(data.available);
+      } else {
+        router.push('/portal/employee/login');
+      }
+    } catch (error) {
+      console.error('Failed to load work orders:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const progressWorkOrder = async (id: string, action: string) => {
+    const notes = action === 'complete'
+      ? window.prompt('Notes for the supervisor (optional)') ?? undefined
+      : undefined;
+
+    try {
+      const response = await portalFetch(`/api/employee/work-orders/${id}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ action, notes })
+      });
+      const data = await response.json();
+
+      setStatusMessage(response.ok ? 'Work order updated.' : data.message || 'Failed to update work order.');
+      await loadWorkOrders();
+    } catch (error) {
+      console.error('Failed to update work order:', error);
+      setStatusMessage('Network error. Please try again.');
+    } finally {
+      setTimeout(() => setStatusMessage(''), 5000);
+    }
+  };
+
+  const renderWorkOrder = (workOrder: WorkOrderResponse, actions: React.ReactNode) => (
+    <div key={workOrder.id} className="bg-gray-800 rounded-lg p-5">
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3">
+        <div>
+          <div className="flex items-center gap-2 mb-1">
+            <span className="px-2 py-0.5 rounded text-xs font-semibold uppercase bg-blue-900 text-blue-200">
+              {workOrder.priority}
+            </span>
+            <span className="text-sm text-gray-400">{STATUS_LABELS[workOrder.status]}</span>
+            <span className="text-sm text-gray-400">· {workOrder.scheduledDate}</span>
+            {workOrder.storm && (
+              <span className="text-sm text-blue-300">· {workOrder.storm.route} stop {workOrder.storm.sequence}</span>
+            )}
+          </div>
+          <h3 className="text-lg font-semibold text-white">
+            {workOrder.propertyCode} · {workOrder.clientName}
+          </h3>
+          <p className="text-sm text-gray-300 flex items-center">
+            <FaMapMarkerAlt className="mr-1" />
+            {workOrder.serviceAddress} {workOrder.zipCode}
+          </p>
+          <p className="text-sm text-gray-400 mt-1">
+            {workOrder.serviceType.replace(/-/g, ' ')} · {workOrder.estimatedHours}h
+            {workOrder.equipmentRequired.length > 0 && ` · ${workOrder.equipmentRequired.join(', ')}`}
+          </p>
+          {workOrder.accessNotes && <p className="text-sm text-gray-300 mt-1">Access: {workOrder.accessNotes}</p>}
+          {workOrder.specialInstructions && <p className="text-sm text-gray-300 mt-1">{workOrder.specialInstructions}</p>}
+        </div>
+        {actions}
+      </div>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-white">Loading work orders...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>My Work Orders | VSR Construction</title>
+        <meta name="description" content="Snow work orders assigned to you" />
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-screen bg-gray-100">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Header */}
+          <div className="bg-gray-800 rounded-lg p-6 mb-8">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <FaTruck className="h-8 w-8 text-blue-400" />
+                <h1 className="text-3xl font-bold text-white">My Work Orders</h1>
+              </div>
+              <button
+                onClick={() => router.push('/portal/employee/dashboard')}
+                className="flex items-center space-x-2 bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded-lg transition-colors"
+              >
+                <FaArrowLeft className="h-4 w-4" />
+                <span>Back to Dashboard</span>
+              </button>
+            </div>
+          </div>
+
+          {/* Status Message */}
+          {statusMessage && (
+            <div className="mb-6 p-4 rounded-lg bg-blue-600 text-white">
+              {statusMessage}
+            </div>
+          )}
+
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Assigned to Me</h2>
+          <div className="space-y-4 mb-8">
+            {assigned.length === 0 && <p className="text-gray-600">Nothing assigned right now.</p>}
+            {assigned.map(workOrder => {
+              const next = NEXT_ACTIONS[workOrder.status];
+              return renderWorkOrder(workOrder, next ? (
+                <button
+                  onClick={() => progressWorkOrder(workOrder.id, next.action)}
+                  className="flex items-center justify-center bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg"
+                >
+                  <FaCheckCircle className="mr-2" />
+                  {next.label}
+                </button>
+              ) : null);
+            })}
+          </div>
+
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Available to Claim</h2>
+          <div className="space-y-4">
+            {available.length === 0 && (
+              <p className="text-gray-600 flex items-center">
+                <FaSnowflake className="mr-2 text-blue-400" />
+                No unassigned work orders.
+              </p>
+            )}
+            {available.map(workOrder => renderWorkOrder(workOrder, (
+              <button
+                onClick={() => progressWorkOrder(workOrder.id, 'claim')}
+                className="flex items-center justify-center bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg"
+              >
+                <FaHandPaper className="mr-2" />
+                Claim
+              </button>
+            )))}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
\ No newline at end of file
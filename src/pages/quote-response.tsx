@@ -0,0 +1,281 @@
+import Head from 'next/head';
+import { useRouter } from 'next/router';
+import { useEffect, useState } from 'react';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { QuoteResponseView } from '@/presentation/api/QuotePresenter';
+import { Estimate, EstimateLineItem } from '@/domain/quote/Estimate';
+
+const formatCurrency = (amount: number) =>
+  `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (value?: string) =>
+  value ? new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }) : '';
+
+export default function QuoteResponsePage() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const [quote, setQuote] = useState<QuoteResponseView | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [signedName, setSignedName] = useState('');
+  const [declineReason, setDeclineReason] = useState('');
+  const [consented, setConsented] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const token = typeof router.query.token === 'string' ? router.query.token : '';
+
+  useEffect(() => {
+    if (!router.isReady) return;
+
+    if (!token) {
+      setErrorMessage(t('quote.response.invalid_link', 'This quote link is invalid or has expired.'));
+      setLoading(false);
+      return;
+    }
+
+    const loadQuote = async () => {
+      try {
+        const response = await fetch('/api/quote-response', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token, action: 'view' })
+        });
+        const data = await response.json();
+
+        if (response.ok) {
+          setQuote(data.quote);
+        } else {
+          setErrorMessage(data.error || t('quote.response.invalid_link', 'This quote link is invalid or has expired.'));
+        }
+      } catch (error) {
+        console.error('Failed to load quote:', error);
+        setErrorMessage(t('quote.response.invalid_link', 'This quote link is invalid or has expired.'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadQuote();
+  }, [router.isReady, token, t]);
+
+  const handleRespond = async (action: 'accept' | 'decline') => {
+    setSubmitting(true);
+    setErrorMessage('');
+
+    try {
+      const response = await fetch('/api/quote-response', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, action, signedName, reason: declineReason })
+      });
+      const data = await response.json();
+
+      if (data.quote) {
+        setQuote(data.quote);
+      }
+      if (!response.ok) {
+        setErrorMessage(data.error || t('quote.response.error', 'We could not record your response. Please try again.'));
+      }
+    } catch (error) {
+      console.error('Failed to respond to quote:', error);
+      setErrorMessage(t('quote.response.error', 'We could not record your response. Please try again.'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderItems = (title: string, items: EstimateLineItem[]) => (
+    <div className="mb-6">
+      <h3 className="font-semibold text-gray-900 mb-2">{title}</h3>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b">
+            <th className="py-1">{t('quote.response.description', 'Description')}</th>
+            <th className="py-1 text-right">{t('quote.response.quantity', 'Qty')}</th>
+            <th className="py-1 text-right">{t('quote.response.unit_price', 'Unit Price')}</th>
+            <th className="py-1 text-right">{t('quote.response.amount', 'Amount')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {items.map((item, index) => (
+            <tr key={index} className="border-b border-gray-100">
+              <td className="py-1">{item.description}</td>
+              <td className="py-1 text-right">{item.quantity} {item.unit}</td>
+              <td className="py-1 text-right">{formatCurrency(item.unitPrice)}</td>
+              <td className="py-1 text-right">{formatCurrency(Estimate.lineTotal(item))}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  const renderState = (view: QuoteResponseView) => {
+    const response = view.customerResponse;
+
+    switch (view.state) {
+      case 'accepted':
+        return response
+          ? t('quote.response.state_accepted', 'This quote was accepted by {{name}} on {{date}}. We will be in touch to schedule your project.')
+              .replace('{{name}}', response.signedName)
+              .replace('{{date}}', formatDate(response.respondedAt))
+          : t('quote.response.state_accepted_admin', 'This quote has been accepted. We will be in touch to schedule your project.');
+      case 'rejected':
+        return t('quote.response.state_rejected', 'This quote was declined by {{name}} on {{date}}.')
+          .replace('{{name}}', response?.signedName || '')
+          .replace('{{date}}', formatDate(response?.respondedAt));
+      case 'expired':
+        return t('quote.response.state_expired', 'This quote expired on {{date}}. Please contact us for an updated quote.')
+          .replace('{{date}}', formatDate(view.expiresAt));
+      case 'superseded':
+        return t('quote.response.state_superseded', 'This quote has been revised. Please use the link in your most recent quote email.');
+      default:
+        return t('quote.response.state_unavailable', 'This quote is no longer available. Please contact us with any questions.');
+    }
+  };
+
+  const canSign = signedName.trim().length >= 2 && consented && !submitting;
+
+  return (
+    <>
+      <Head>
+        <title>{t('quote.response.page_title', 'Your Quote')} | VSR Construction</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+
+      <section className="min-h-screen bg-gray-100 py-24 px-4">
+        <div className="max-w-3xl mx-auto bg-white rounded-lg shadow p-6 md:p-8 text-gray-900">
+          {loading && (
+            <p className="text-center text-gray-600">{t('quote.response.loading', 'Loading your quote...')}</p>
+          )}
+
+          {!loading && !quote && (
+            <p className="text-center text-red-600">{errorMessage}</p>
+          )}
+
+          {quote && (
+            <>
+              <div className="flex flex-col md:flex-row md:justify-between mb-6">
+                <div>
+                  <h1 className="text-2xl font-bold">{t('quote.response.page_title', 'Your Quote')}</h1>
+                  <p className="text-gray-600">{quote.serviceName}</p>
+                </div>
+                <div className="text-sm text-gray-600 md:text-right mt-2 md:mt-0">
+                  <p>{t('quote.response.revision', 'Revision')} {quote.revision}</p>
+                  {quote.expiresAt && (
+                    <p>{t('quote.response.valid_until', 'Valid until')} {formatDate(quote.expiresAt)}</p>
+                  )}
+                </div>
+              </div>
+
+              <div className="mb-6 text-sm">
+                <p className="font-semibold">{t('quote.response.prepared_for', 'Prepared for')}</p>
+                <p>{quote.customerName}</p>
+                {quote.serviceAddress && <p>{quote.serviceAddress}</p>}
+              </div>
+
+              {renderItems(
+                t('quote.response.scope', 'Scope of Work'),
+                quote.estimate.lineItems.filter(item => !item.optional)
+              )}
+
+              {quote.estimate.lineItems.some(item => item.optional) && renderItems(
+                t('quote.response.add_ons', 'Optional Add-ons (not included in total)'),
+                quote.estimate.lineItems.filter(item => item.optional)
+              )}
+
+              <dl className="ml-auto max-w-xs text-sm space-y-1 mb-6">
+                <div className="flex justify-between"><dt>{t('quote.response.materials', 'Materials')}</dt><dd>{formatCurrency(quote.totals.materialSubtotal)}</dd></div>
+                <div className="flex justify-between"><dt>{t('quote.response.labor', 'Labor')}</dt><dd>{formatCurrency(quote.totals.laborSubtotal)}</dd></div>
+                <div className="flex justify-between"><dt>{t('quote.response.subtotal', 'Subtotal')}</dt><dd>{formatCurrency(quote.totals.subtotal)}</dd></div>
+                {quote.totals.discountTotal > 0 && (
+                  <div className="flex justify-between text-green-700"><dt>{t('quote.response.discounts', 'Discounts')}</dt><dd>-{formatCurrency(quote.totals.discountTotal)}</dd></div>
+                )}
+                {quote.totals.taxAmount > 0 && (
+                  <div className="flex justify-between"><dt>{t('quote.response.tax', 'Tax')} ({quote.estimate.taxRate}%)</dt><dd>{formatCurrency(quote.totals.taxAmount)}</dd></div>
+                )}
+                <div className="flex justify-between font-bold border-t pt-1"><dt>{t('quote.response.total', 'Total')}</dt><dd>{formatCurrency(quote.totals.total)}</dd></div>
+              </dl>
+
+              {quote.estimate.notes && (
+                <div className="mb-6 text-sm">
+                  <p className="font-semibold">{t('quote.response.notes', 'Notes')}</p>
+                  <p className="whitespace-pre-line">{quote.estimate.notes}</p>
+                </div>
+              )}
+
+              {quote.state === 'open' ? (
+                <div className="border-t pt-6">
+                  <h2 className="text-lg font-semibold mb-1">{t('quote.response.sign_heading', 'Accept or decline this quote')}</h2>
+                  <p className="text-sm text-gray-600 mb-4">
+                    {t('quote.response.sign_instructions', 'Type your full name to sign. Your name, IP address, browser and the time of signing are recorded with your response.')}
+                  </p>
+
+                  <label className="block text-sm font-medium mb-1" htmlFor="signedName">
+                    {t('quote.response.signed_name', 'Full name')}
+                  </label>
+                  <input
+                    id="signedName"
+                    type="text"
+                    value={signedName}
+                    onChange={(e) => setSignedName(e.target.value)}
+                    maxLength={100}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md mb-3 font-serif italic text-lg"
+                    autoComplete="name"
+                  />
+
+                  <label className="block text-sm font-medium mb-1" htmlFor="declineReason">
+                    {t('quote.response.decline_reason', 'Reason for declining (optional)')}
+                  </label>
+                  <textarea
+                    id="declineReason"
+                    value={declineReason}
+                    onChange={(e) => setDeclineReason(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md mb-3"
+                    rows={2}
+                  />
+
+                  <label className="flex items-start text-sm mb-4">
+                    <input
+                      type="checkbox"
+                      checked={consented}
+                      onChange={(e) => setConsented(e.target.checked)}
+                      className="mt-1 mr-2"
+                    />
+                    {t('quote.response.consent', 'I agree that typing my name above is my electronic signature.')}
+                  </label>
+
+                  {errorMessage && <p className="text-sm text-red-600 mb-3">{errorMessage}</p>}
+
+                  <div className="flex flex-col sm:flex-row gap-3">
+                    <button
+                      type="button"
+                      onClick={() => handleRespond('accept')}
+                      disabled={!canSign}
+                      className="px-6 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+                    >
+                      {submitting ? t('quote.response.submitting', 'Submitting...') : t('quote.response.accept', 'Accept Quote')}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleRespond('decline')}
+                      disabled={!canSign}
+                      className="px-6 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 disabled:opacity-50"
+                    >
+                      {t('quote.response.decline', 'Decline Quote')}
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="border-t pt-6">
+                  <p className="text-center font-medium">{renderState(quote)}</p>
+                  {errorMessage && <p className="text-center text-sm text-red-600 mt-2">{errorMessage}</p>}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </section>
+    </>
+  );
+}
\ No newline at end of file
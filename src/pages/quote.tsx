@@ -4,6 +4,20 @@ import { useMobile } from '@/context/MobileContext';
 import { useAnalytics } from '@/hooks/useAnalytics';
 import { useTranslation } from '@/hooks/useTranslation';
 
+interface ContractSummary {
+  contractId: string;
+  customerName: string;
+  maskedEmail: string;
+  maskedPhone: string;
+  serviceType: string;
+  serviceName: string;
+  address: string;
+  status: string;
+}
+
+// The verification box accepts either the contract email or the phone's last 4 digits
+const isPhoneLastFour = (value: string): boolean => /^\d{4}$/.test(value.trim());
+
 export default function QuotePage() {
   const { isMobile } = useMobile();
   const { trackQuoteRequest, trackButtonClick } = useAnalytics();
@@ -18,7 +32,10 @@ export default function QuotePage() {
   const [updateStatusMessage, setUpdateStatusMessage] = useState('');
   const [updatePhone, setUpdatePhone] = useState('');
   const [contractID, setContractID] = useState('');
-  const [contractData, setContractData] = useState<any>(null);
+  const [contractData, setContractData] = useState<ContractSummary | null>(null);
+  const [contractVerification, setContractVerification] = useState('');
+  const [contractLookupMessage, setContractLookupMessage] = useState('');
+  const [isLookingUpContract, setIsLookingUpContract] = useState(false);
   
   // Update form specific state
   const [updateJobDescription, setUpdateJobDescription] = useState('');
@@ -38,6 +55,57 @@ export default function QuotePage() {
   return parts.join('');
 }
 
+  const clearContractLookup = () => {
+    setContractData(null);
+    setContractLookupMessage('');
+    setUpdateFullName('');
+    setUpdateEmail('');
+    setUpdatePhone('');
+  };
+
+  const handleContractLookup = async () => {
+    if (!contractID.trim() || !contractVerification.trim()) {
+      setContractLookupMessage(t('quote.update_form.lookup_missing', 'Enter your contract ID and the email or last 4 digits of the phone on the contract.'));
+      return;
+    }
+
+    setIsLookingUpContract(true);
+    setContractLookupMessage('');
+
+    try {
+      const verification = isPhoneLastFour(contractVerification)
+        ? { phoneLastFour: contractVerification.trim() }
+        : { email: contractVerification.trim() };
+
+      const res = await fetch('/api/contract-lookup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ contractId: contractID.trim(), ...verification }),
+      });
+      const result = await res.json();
+
+      if (!result.success) {
+        setContractData(null);
+        setContractLookupMessage(res.status === 429
+          ? t('quote.update_form.lookup_rate_limited', 'Too many lookup attempts. Please try again later.')
+          : t('quote.update_form.lookup_not_found', 'We couldn\'t find a contract matching those details.'));
+        return;
+      }
+
+      const contract: ContractSummary = result.contract;
+      setContractData(contract);
+      setContractID(contract.contractId);
+      setUpdateFullName(contract.customerName);
+      setUpdateEmail(verification.email || contract.maskedEmail);
+      setUpdatePhone(contract.maskedPhone);
+    } catch (error) {
+      console.error('Contract lookup error:', error);
+      setContractLookupMessage(t('quote.network_error', 'Network error. Please try again.'));
+    } finally {
+      setIsLookingUpContract(false);
+    }
+  };
+
   useEffect(() => {
     const timeout = setTimeout(() => {
       setShowBubble(true);
@@ -195,6 +263,21 @@ export default function QuotePage() {
                 />
               </div>
 
+              <div>
+                <label className="block mb-2 text-sm font-medium">
+                  {t('quote.form.service_address', 'Service Address')}
+                </label>
+                <input
+                  type="text"
+                  name="serviceAddress"
+                  placeholder={t('quote.form.service_address_placeholder', '123 Main St, Denver, CO 80202')}
+                  className="w-full px-4 py-2 rounded bg-gray-800 text-white border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 placeholder:text-gray-400"
+                  minLength={10}
+                  maxLength={500}
+                  required
+                />
+              </div>
+
               <div>
                 <label className="block mb-2 text-sm font-medium">{t('quote.form.service_class', 'Service Class')}</label>
                 <select
@@ -370,6 +453,8 @@ export default function QuotePage() {
                     setUpdateSelectedFiles([]);
                     setContractID('');
                     setContractData(null);
+                    setContractVerification('');
+                    setContractLookupMessage('');
                     setUpdatePhone('');
                     setUpdateJobDescription('');
                     setUpdateFullName('');
@@ -395,13 +480,75 @@ export default function QuotePage() {
                   value={contractID}
                   onChange={(e) => {
                     setContractID(e.target.value);
-                    // TODO: Implement contract lookup
+                    if (contractData) clearContractLookup();
                   }}
                   placeholder={t('quote.update_form.contract_id_placeholder', 'Enter your contract ID')}
                   className="w-full px-4 py-2 rounded bg-gray-800 text-white border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 placeholder:text-gray-400"
                 />
               </div>
 
+              {contractID.trim() && (
+                <div>
+                  <label className="block mb-2 text-sm font-medium">{t('quote.update_form.contract_verification', 'Contract Email or Last 4 Digits of Phone')}</label>
+                  <div className="flex gap-3">
+                    <input
+                      type="text"
+                      value={contractVerification}
+                      onChange={(e) => {
+                        setContractVerification(e.target.value);
+                        if (contractData) clearContractLookup();
+                      }}
+                      placeholder={t('quote.update_form.contract_verification_placeholder', 'you@example.com or 4567')}
+                      className="flex-1 px-4 py-2 rounded bg-gray-800 text-white border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 placeholder:text-gray-400"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleContractLookup}
+                      disabled={isLookingUpContract}
+                      className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 px-4 py-2 rounded text-white text-sm transition-colors"
+                    >
+                      {isLookingUpContract ? t('quote.update_form.looking_up', 'Looking up...') : t('quote.update_form.find_contract', 'Find Contract')}
+                    </button>
+                  </div>
+                  {contractLookupMessage && (
+                    <p className="mt-2 text-sm text-red-400">{contractLookupMessage}</p>
+                  )}
+                </div>
+              )}
+
+              {contractData && (
+                <div className="bg-gray-700 p-4 rounded space-y-3">
+                  <p className="text-sm text-green-400">
+                    {t('quote.update_form.contract_found', 'Contract {{contractId}} found. Your details have been filled in.').replace('{{contractId}}', contractData.contractId)}
+                  </p>
+                  <input
+                    type="hidden"
+                    name={isPhoneLastFour(contractVerification) ? 'verificationPhoneLastFour' : 'verificationEmail'}
+                    value={contractVerification.trim()}
+                  />
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block mb-1 text-xs text-gray-300">{t('quote.update_form.contract_service', 'Service')}</label>
+                      <input
+                        type="text"
+                        value={contractData.serviceName}
+                        readOnly
+                        className="w-full px-4 py-2 rounded bg-gray-800 text-gray-300 border border-gray-600"
+                      />
+                    </div>
+                    <div>
+                      <label className="block mb-1 text-xs text-gray-300">{t('quote.update_form.contract_address', 'Service Address')}</label>
+                      <input
+                        type="text"
+                        value={contractData.address}
+                        readOnly
+                        className="w-full px-4 py-2 rounded bg-gray-800 text-gray-300 border border-gray-600"
+                      />
+                    </div>
+                  </div>
+                </div>
+              )}
+
               <div>
                 <label className="block mb-2 text-sm font-medium">{t('quote.update_form.job_description', 'Job Description')}</label>
                 <textarea
@@ -435,6 +582,7 @@ export default function QuotePage() {
                     name="email"
                     value={updateEmail}
                     onChange={(e) => setUpdateEmail(e.target.value)}
+                    readOnly={!!contractData}
                     placeholder={t('quote.form.email_placeholder', 'your@email.com')}
                     className="w-full px-4 py-2 rounded bg-gray-800 text-white border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 placeholder:text-gray-400"
                     required
@@ -449,6 +597,7 @@ export default function QuotePage() {
                   name="phone"
                   value={updatePhone}
                   onChange={(e) => setUpdatePhone(formatPhoneNumber(e.target.value))}
+                  readOnly={!!contractData}
                   placeholder={t('quote.form.phone_placeholder', '(555) 123-4567')}
                   className="w-full px-4 py-2 rounded bg-gray-800 text-white border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 placeholder:text-gray-400"
                   required
@@ -0,0 +1,89 @@
+/**
+ * Admin Quote Presenter - Presentation Layer
+ * Maps quote query results to the rows and details shown on the admin quote requests page
+ */
+
+import { QuoteStatus } from '../../domain/quote/Quote';
+import { EstimateProps, EstimateTotals } from '../../domain/quote/Estimate';
+import { QuoteListItem } from '../../application/queries/quote/GetQuoteListQuery';
+import { GetQuoteDetailsResult } from '../../application/queries/quote/GetQuoteDetailsQuery';
+
+export interface AdminEstimateRevisionView {
+  version: number;
+  estimate: EstimateProps;
+  totals: EstimateTotals;
+  createdAt: string;
+  createdBy?: string;
+  sentAt?: string; // Only the revision currently out with the customer
+}
+
+export interface AdminQuoteRequestView {
+  id: string;
+  fullName: string;
+  email: string;
+  phone: string;
+  serviceClass?: string;
+  service: string;
+  details: string;
+  serviceAddress?: string;
+  photoFiles: string[];
+  status: QuoteStatus;
+  priority: string;
+  submittedAt: string;
+  quotedAt?: string;
+  quotedAmount?: number;
+  expiresAt?: string;
+  estimateRevisions?: AdminEstimateRevisionView[]; // Present on details only
+  assignedTo?: string;
+  firstResponseDueAt: string;
+  firstRespondedAt?: string;
+  isOverdue: boolean; // Still pending past the first-response target for its priority
+  adminNotes?: string;
+  possibleDuplicateOf?: string;
+  previousQuoteIds: string[]; // Earlier requests from the same customer
+  existingContractIds: string[];
+  updatedBy?: string;
+  updatedAt: string;
+}
+
+export function toAdminQuoteRequestView(quote: QuoteListItem | GetQuoteDetailsResult): AdminQuoteRequestView {
+  const isDetails = 'estimateRevisions' in quote;
+
+  return {
+    id: quote.id,
+    fullName: quote.customerName,
+    email: quote.email,
+    phone: quote.phone,
+    serviceClass: isDetails ? quote.metadata.serviceClass : quote.serviceClass,
+    service: quote.serviceType.name,
+    details: quote.description,
+    serviceAddress: quote.serviceAddress,
+    photoFiles: quote.photoAttachmentIds,
+    status: quote.status as QuoteStatus,
+    priority: quote.priority,
+    submittedAt: quote.submittedAt.toISOString(),
+    quotedAt: quote.quoteSentAt?.toISOString(),
+    quotedAmount: quote.estimatedValue,
+    expiresAt: quote.expiresAt?.toISOString(),
+    estimateRevisions: isDetails
+      ? quote.estimateRevisions.map(revision => ({
+          version: revision.version,
+          estimate: revision.estimate,
+          totals: revision.totals,
+          createdAt: revision.createdAt.toISOString(),
+          createdBy: revision.createdBy,
+          sentAt: revision.version === quote.sentRevision ? quote.quoteSentAt?.toISOString() : undefined
+        }))
+      : undefined,
+    assignedTo: quote.assignedTo,
+    firstResponseDueAt: quote.firstResponseDueAt.toISOString(),
+    firstRespondedAt: quote.firstRespondedAt?.toISOString(),
+    isOverdue: quote.isOverdue,
+    adminNotes: quote.adminNotes,
+    possibleDuplicateOf: quote.possibleDuplicateOf,
+    previousQuoteIds: quote.previousQuoteIds,
+    existingContractIds: quote.existingContractIds,
+    updatedBy: quote.updatedBy,
+    updatedAt: quote.updatedAt.toISOString()
+  };
+}
\ No newline at end of file
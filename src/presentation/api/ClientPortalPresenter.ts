@@ -0,0 +1,249 @@
+/**
+ * Client Portal Presenter - Presentation Layer
+ * Customer-facing views of contracts, projects, quotes, service visits and invoices
+ *
+ * Only fields a customer should see are mapped: crew pay rates, admin notes, reviewer and
+ * assignee emails and other internal details never leave the server.
+ */
+
+import { Contract } from '../../domain/contract/Contract';
+import { Project } from '../../domain/project/Project';
+import { Quote } from '../../domain/quote/Quote';
+import { QuoteStatus } from '../../domain/quote/QuoteStatus';
+import { ServiceLogEntry } from '../../domain/servicelog/ServiceLogEntry';
+import { SERVICE_LOG_CODES } from '../../domain/servicelog/ServiceLogCodes';
+import { Invoice, lineItemAmount } from '../../domain/invoice/Invoice';
+import { ClientInvitation, ClientInvitationStatus } from '../../domain/clientaccount/ClientInvitation';
+import type { UpdateRequest } from '../../lib/update-request-store';
+
+export interface ClientContractResponse {
+  contractId: string;
+  serviceType: string;
+  address: string;
+  status: string;
+  startDate: string; // YYYY-MM-DD
+  endDate?: string;
+  description: string;
+}
+
+export interface ClientProjectResponse {
+  id: string;
+  title: string;
+  propertyCode?: string;
+  contractId?: string;
+  serviceClass: string;
+  serviceType: string;
+  currentStatus: number;
+  currentStatusLabel: string;
+  statusLabels: string[];
+  showStatusBar: boolean;
+  lastUpdated: string;
+  statusHistory: Array<{ label: string; notes?: string; changedAt: string }>;
+}
+
+export interface ClientQuoteResponse {
+  id: string;
+  serviceType: string;
+  description: string;
+  serviceAddress?: string;
+  status: string;
+  submittedAt: string;
+  quoteSentAt?: string;
+  expiresAt?: string;
+  quotedTotal?: number; // Only once a quote has been sent
+  contractId?: string;
+  deposit?: { amount: number; status: string; paidAt?: string };
+}
+
+export interface ClientUpdateRequestResponse {
+  id: string;
+  contractId: string;
+  reasonForContact: string;
+  jobDescription: string;
+  status: string;
+  submittedAt: string;
+  completedAt?: string;
+}
+
+export interface ClientServiceVisitResponse {
+  id: string;
+  serviceDate: string; // YYYY-MM-DD
+  propertyCode: string;
+  serviceName: string;
+  description: string;
+  locationDescription: string;
+  timeIn: string;
+  timeOut: string;
+  materials: { iceMeltBags: number; deicerGallons: number; iceSlicerTons: number };
+  photos: Array<{ fileId: string; filename: string; url: string }>;
+}
+
+export interface ClientInvoiceResponse {
+  id: string;
+  invoiceNumber: string;
+  contractId: string;
+  periodStart: string;
+  periodEnd: string;
+  status: string;
+  lineItems: Array<{ description: string; quantity: number; unit: string; unitPrice: number; amount: number; serviceDate?: string }>;
+  subtotal: number;
+  taxAmount: number;
+  total: number;
+  amountPaid: number;
+  balanceDue: number;
+  issuedAt?: string;
+  dueAt?: string;
+  pdfUrl: string;
+}
+
+export interface ClientInvitationResponse {
+  id: string;
+  email: string;
+  purpose: string;
+  accessLevel: string;
+  companyName?: string;
+  recipientName?: string;
+  contractIds: string[];
+  status: string; // Pending invitations past their expiry read as 'expired'
+  invitedBy: string;
+  createdAt: string;
+  expiresAt: string;
+  acceptedAt?: string;
+}
+
+// Calendar dates are stored at UTC midnight
+const toCalendarDate = (date: Date): string => new Date(date).toISOString().split('T')[0];
+
+const QUOTED_STATUSES = [QuoteStatus.QUOTE_SENT, QuoteStatus.ACCEPTED, QuoteStatus.REJECTED, QuoteStatus.EXPIRED];
+
+export function toClientContract(contract: Contract): ClientContractResponse {
+  return {
+    contractId: contract.contractId,
+    serviceType: contract.serviceType.name,
+    address: contract.address,
+    status: contract.status,
+    startDate: toCalendarDate(contract.startDate),
+    endDate: contract.endDate ? toCalendarDate(contract.endDate) : undefined,
+    description: contract.description
+  };
+}
+
+export function toClientProject(project: Project): ClientProjectResponse {
+  return {
+    id: project.id.toString(),
+    title: project.title,
+    propertyCode: project.propertyCode,
+    contractId: project.contractId,
+    serviceClass: project.serviceClass,
+    serviceType: project.serviceType.name,
+    currentStatus: project.currentStatus,
+    currentStatusLabel: project.currentStatusLabel,
+    statusLabels: Array.from(project.statusLabels),
+    showStatusBar: project.showStatusBar,
+    lastUpdated: project.updatedAt.toISOString(),
+    statusHistory: project.statusHistory.map(change => ({
+      label: change.label,
+      notes: change.notes,
+      changedAt: new Date(change.changedAt).toISOString()
+    }))
+  };
+}
+
+export function toClientQuote(quote: Quote): ClientQuoteResponse {
+  const deposit = quote.deposit;
+  return {
+    id: quote.id.toString(),
+    serviceType: quote.serviceType.name,
+    description: quote.description,
+    serviceAddress: quote.serviceAddress,
+    status: quote.status,
+    submittedAt: quote.submittedAt.toISOString(),
+    quoteSentAt: quote.quoteSentAt?.toISOString(),
+    expiresAt: quote.expiresAt?.toISOString(),
+    // Draft estimates under review are internal until sent
+    quotedTotal: QUOTED_STATUSES.includes(quote.status) ? quote.sentEstimate?.estimate.total ?? quote.estimatedValue : undefined,
+    contractId: quote.contractId,
+    deposit: deposit
+      ? { amount: deposit.amount, status: deposit.status, paidAt: deposit.paidAt?.toISOString() }
+      : undefined
+  };
+}
+
+export function toClientUpdateRequest(request: UpdateRequest): ClientUpdateRequestResponse {
+  return {
+    id: request.id,
+    contractId: request.contractId,
+    reasonForContact: request.reasonForContact,
+    jobDescription: request.jobDescription,
+    status: request.status,
+    submittedAt: new Date(request.submittedAt).toISOString(),
+    completedAt: request.completedAt ? new Date(request.completedAt).toISOString() : undefined
+  };
+}
+
+export function toClientServiceVisit(entry: ServiceLogEntry): ClientServiceVisitResponse {
+  const id = entry.id.toString();
+  return {
+    id,
+    serviceDate: toCalendarDate(entry.serviceDate),
+    propertyCode: entry.propertyCode,
+    serviceName: SERVICE_LOG_CODES[entry.serviceCode],
+    description: entry.description,
+    locationDescription: entry.locationDescription,
+    timeIn: entry.timeIn,
+    timeOut: entry.timeOut,
+    materials: entry.materials,
+    photos: entry.photos.map(photo => ({
+      fileId: photo.fileId,
+      filename: photo.filename,
+      url: `/api/client/service-logs/${id}/photos/${encodeURIComponent(photo.fileId)}`
+    }))
+  };
+}
+
+export function toClientInvoice(invoice: Invoice): ClientInvoiceResponse {
+  const id = invoice.id.toString();
+  return {
+    id,
+    invoiceNumber: invoice.invoiceNumber,
+    contractId: invoice.contractId,
+    periodStart: toCalendarDate(invoice.periodStart),
+    periodEnd: toCalendarDate(invoice.periodEnd),
+    status: invoice.status,
+    lineItems: invoice.lineItems.map(item => ({
+      description: item.description,
+      quantity: item.quantity,
+      unit: item.unit,
+      unitPrice: item.unitPrice,
+      amount: lineItemAmount(item),
+      serviceDate: item.serviceDate ? toCalendarDate(item.serviceDate) : undefined
+    })),
+    subtotal: invoice.subtotal,
+    taxAmount: invoice.taxAmount,
+    total: invoice.total,
+    amountPaid: invoice.amountPaid,
+    balanceDue: invoice.balanceDue,
+    issuedAt: invoice.issuedAt?.toISOString(),
+    dueAt: invoice.dueAt?.toISOString(),
+    pdfUrl: `/api/client/invoices/${id}/pdf`
+  };
+}
+
+export function toClientInvitation(invitation: ClientInvitation): ClientInvitationResponse {
+  return {
+    id: invitation.id.toString(),
+    email: invitation.email.value,
+    purpose: invitation.purpose,
+    accessLevel: invitation.accessLevel,
+    companyName: invitation.companyName,
+    recipientName: invitation.recipientName,
+    contractIds: Array.from(invitation.contractIds),
+    status: invitation.status === ClientInvitationStatus.PENDING && invitation.isExpired()
+      ? 'expired'
+      : invitation.status,
+    invitedBy: invitation.invitedBy,
+    createdAt: invitation.createdAt.toISOString(),
+    expiresAt: invitation.expiresAt.toISOString(),
+    acceptedAt: invitation.acceptedAt?.toISOString()
+  };
+}
\ No newline at end of file
@@ -0,0 +1,46 @@
+/**
+ * Contract Presenter - Presentation Layer
+ * Maps Contract aggregates to the masked summary returned by the public lookup
+ */
+
+import { Contract } from '../../domain/contract/Contract';
+
+export interface ContractLookupResponse {
+  contractId: string;
+  customerName: string;
+  maskedEmail: string;
+  maskedPhone: string;
+  serviceType: string;
+  serviceName: string;
+  address: string;
+  status: string;
+}
+
+export function maskEmail(email: string): string {
+  const [local, domain] = email.split('@');
+  if (!domain) return '***';
+  return `${local.charAt(0)}***@${domain}`;
+}
+
+export function maskPhone(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  return `(***) ***-${digits.slice(-4)}`;
+}
+
+// Street numbers are hidden; city, state and ZIP stay visible so customers recognise the job
+export function maskAddress(address: string): string {
+  return address.replace(/^\s*\d+[A-Za-z]?\s+/, '*** ');
+}
+
+export function toContractLookupResponse(contract: Contract): ContractLookupResponse {
+  return {
+    contractId: contract.contractId,
+    customerName: contract.customerName,
+    maskedEmail: maskEmail(contract.email.value),
+    maskedPhone: maskPhone(contract.phone.value),
+    serviceType: contract.serviceType.key,
+    serviceName: contract.serviceType.name,
+    address: maskAddress(contract.address),
+    status: contract.status
+  };
+}
\ No newline at end of file
@@ -0,0 +1,124 @@
+/**
+ * Inventory Presenter - Presentation Layer
+ * Maps inventory items and equipment to the JSON used by the admin inventory page
+ */
+
+import { InventoryItem, SERVICE_LOG_MATERIALS } from '../../domain/inventory/InventoryItem';
+import { Equipment } from '../../domain/inventory/Equipment';
+
+export interface InventoryItemResponse {
+  id: string;
+  sku: string;
+  yard: string;
+  name: string;
+  unit: string;
+  material?: string;
+  materialName?: string;
+  onHand: number;
+  reorderThreshold: number;
+  reorderQuantity: number;
+  needsReorder: boolean;
+  movements?: Array<{
+    reason: string;
+    quantity: number;
+    balanceAfter: number;
+    reference?: string;
+    note?: string;
+    recordedBy: string;
+    recordedAt: string;
+  }>;
+  updatedAt: string;
+}
+
+export interface EquipmentResponse {
+  id: string;
+  assetTag: string;
+  name: string;
+  category: string;
+  yard: string;
+  status: string;
+  checkedOutTo?: string;
+  checkedOutAt?: string;
+  dueBackAt?: string;
+  maintenanceIntervalDays: number;
+  maintenanceDueAt: string;
+  maintenanceOverdue: boolean;
+  lastMaintenanceAt?: string;
+  history?: {
+    checkouts: Array<{
+      crew: string;
+      checkedOutBy: string;
+      checkedOutAt: string;
+      returnedAt?: string;
+      returnNotes?: string;
+    }>;
+    maintenance: Array<{ performedBy: string; notes?: string; completedAt: string }>;
+  };
+  updatedAt: string;
+}
+
+// Movement history is only sent for the single-item view; lists stay small
+export function toInventoryItemResponse(item: InventoryItem, includeMovements = false): InventoryItemResponse {
+  return {
+    id: item.id.toString(),
+    sku: item.sku,
+    yard: item.yard,
+    name: item.name,
+    unit: item.unit,
+    material: item.material,
+    materialName: item.material ? SERVICE_LOG_MATERIALS[item.material] : undefined,
+    onHand: item.onHand,
+    reorderThreshold: item.reorderThreshold,
+    reorderQuantity: item.reorderQuantity,
+    needsReorder: item.needsReorder(),
+    movements: includeMovements
+      ? item.movements.map(movement => ({
+        reason: movement.reason,
+        quantity: movement.quantity,
+        balanceAfter: movement.balanceAfter,
+        reference: movement.reference,
+        note: movement.note,
+        recordedBy: movement.recordedBy,
+        recordedAt: movement.recordedAt.toISOString()
+      })).reverse()
+      : undefined,
+    updatedAt: item.updatedAt.toISOString()
+  };
+}
+
+export function toEquipmentResponse(equipment: Equipment, includeHistory = false): EquipmentResponse {
+  const checkout = equipment.currentCheckout;
+
+  return {
+    id: equipment.id.toString(),
+    assetTag: equipment.assetTag,
+    name: equipment.name,
+    category: equipment.category,
+    yard: equipment.yard,
+    status: equipment.status,
+    checkedOutTo: checkout?.crew,
+    checkedOutAt: checkout?.checkedOutAt.toISOString(),
+    dueBackAt: checkout?.dueBackAt?.toISOString(),
+    maintenanceIntervalDays: equipment.maintenanceIntervalDays,
+    maintenanceDueAt: equipment.maintenanceDueAt.toISOString(),
+    maintenanceOverdue: equipment.isMaintenanceOverdue(),
+    lastMaintenanceAt: equipment.lastMaintenance?.completedAt.toISOString(),
+    history: includeHistory
+      ? {
+        checkouts: equipment.checkouts.map(entry => ({
+          crew: entry.crew,
+          checkedOutBy: entry.checkedOutBy,
+          checkedOutAt: entry.checkedOutAt.toISOString(),
+          returnedAt: entry.returnedAt?.toISOString(),
+          returnNotes: entry.returnNotes
+        })).reverse(),
+        maintenance: equipment.maintenance.map(record => ({
+          performedBy: record.performedBy,
+          notes: record.notes,
+          completedAt: record.completedAt.toISOString()
+        })).reverse()
+      }
+      : undefined,
+    updatedAt: equipment.updatedAt.toISOString()
+  };
+}
\ No newline at end of file
@@ -0,0 +1,146 @@
+/**
+ * Invoice Presenter - Presentation Layer
+ * Maps invoices, their line items and payments to the JSON used by the admin invoices page
+ */
+
+import { Invoice, InvoiceStatus, lineItemAmount } from '../../domain/invoice/Invoice';
+
+export interface InvoiceLineItemResponse {
+  id: string;
+  category: string;
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  amount: number;
+  serviceDate?: string; // YYYY-MM-DD
+  serviceLogEntryId?: string;
+}
+
+export interface InvoicePaymentResponse {
+  id: string;
+  amount: number;
+  method: string;
+  reference?: string;
+  receivedAt: string;
+  notes?: string;
+  recordedBy: string;
+  recordedAt: string;
+  refundedAmount?: number;
+  refundedAt?: string;
+}
+
+export interface InvoiceResponse {
+  id: string;
+  invoiceNumber: string;
+  contractId: string;
+  billTo: { name: string; email: string; address: string };
+  periodStart: string; // YYYY-MM-DD
+  periodEnd: string;
+  status: string;
+  lineItems: InvoiceLineItemResponse[];
+  serviceLogCount: number;
+  taxRate: number;
+  paymentTermsDays: number;
+  subtotal: number;
+  taxAmount: number;
+  total: number;
+  amountPaid: number;
+  balanceDue: number;
+  issuedAt?: string;
+  dueAt?: string;
+  sentTo?: string;
+  lastSentAt?: string;
+  payments: InvoicePaymentResponse[];
+  notes?: string;
+  voidedAt?: string;
+  voidedBy?: string;
+  voidReason?: string;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface InvoiceSummaryResponse {
+  counts: Record<string, number>;
+  outstandingBalance: number; // Sum of balances on issued, unpaid invoices
+  overdueBalance: number;
+}
+
+// Service dates and periods are stored at UTC midnight
+const toCalendarDate = (date: Date): string => date.toISOString().split('T')[0];
+
+export function toInvoiceResponse(invoice: Invoice): InvoiceResponse {
+  return {
+    id: invoice.id.toString(),
+    invoiceNumber: invoice.invoiceNumber,
+    contractId: invoice.contractId,
+    billTo: invoice.billTo,
+    periodStart: toCalendarDate(invoice.periodStart),
+    periodEnd: toCalendarDate(invoice.periodEnd),
+    status: invoice.status,
+    lineItems: invoice.lineItems.map(item => ({
+      id: item.id,
+      category: item.category,
+      description: item.description,
+      quantity: item.quantity,
+      unit: item.unit,
+      unitPrice: item.unitPrice,
+      amount: lineItemAmount(item),
+      serviceDate: item.serviceDate ? toCalendarDate(item.serviceDate) : undefined,
+      serviceLogEntryId: item.serviceLogEntryId
+    })),
+    serviceLogCount: invoice.serviceLogEntryIds.length,
+    taxRate: invoice.taxRate,
+    paymentTermsDays: invoice.paymentTermsDays,
+    subtotal: invoice.subtotal,
+    taxAmount: invoice.taxAmount,
+    total: invoice.total,
+    amountPaid: invoice.amountPaid,
+    balanceDue: invoice.balanceDue,
+    issuedAt: invoice.issuedAt?.toISOString(),
+    dueAt: invoice.dueAt?.toISOString(),
+    sentTo: invoice.sentTo,
+    lastSentAt: invoice.lastSentAt?.toISOString(),
+    payments: invoice.payments.map(payment => ({
+      id: payment.id,
+      amount: payment.amount,
+      method: payment.method,
+      reference: payment.reference,
+      receivedAt: payment.receivedAt.toISOString(),
+      notes: payment.notes,
+      recordedBy: payment.recordedBy,
+      recordedAt: payment.recordedAt.toISOString(),
+      refundedAmount: payment.refundedAmount,
+      refundedAt: payment.refundedAt?.toISOString()
+    })),
+    notes: invoice.notes,
+    voidedAt: invoice.voidedAt?.toISOString(),
+    voidedBy: invoice.voidedBy,
+    voidReason: invoice.voidReason,
+    createdBy: invoice.createdBy,
+    createdAt: invoice.createdAt.toISOString(),
+    updatedAt: invoice.updatedAt.toISOString()
+  };
+}
+
+export function toInvoiceSummary(invoices: Invoice[]): InvoiceSummaryResponse {
+  const counts: Record<string, number> = Object.fromEntries(Object.values(InvoiceStatus).map(status => [status, 0]));
+  let outstandingBalance = 0;
+  let overdueBalance = 0;
+
+  for (const invoice of invoices) {
+    counts[invoice.status]++;
+    if (invoice.status === InvoiceStatus.DRAFT || invoice.status === InvoiceStatus.VOID) continue;
+    outstandingBalance += invoice.balanceDue;
+    if (invoice.status === InvoiceStatus.OVERDUE) {
+      overdueBalance += invoice.balanceDue;
+    }
+  }
+
+  return {
+    counts,
+    outstandingBalance: Math.round(outstandingBalance * 100) / 100,
+    overdueBalance: Math.round(overdueBalance * 100) / 100
+  };
+}
\ No newline at end of file
@@ -0,0 +1,73 @@
+/**
+ * Project Presenter - Presentation Layer
+ * Maps Project aggregates to the JSON shape used by the admin portal
+ */
+
+import { Project } from '../../domain/project/Project';
+
+export interface ProjectResponse {
+  id: string;
+  title: string;
+  propertyCode?: string;
+  client: string;
+  serviceClass: 'commercial' | 'residential';
+  serviceType: string;
+  currentStatus: number;
+  statusLabels: string[];
+  showStatusBar: boolean;
+  createdDate: string;
+  lastUpdated: string;
+  adminNotes?: string;
+  contractId?: string;
+  address?: {
+    street: string;
+    city: string;
+    state: string;
+    zipCode: string;
+    latitude?: number;
+    longitude?: number;
+  };
+  contact?: {
+    name: string;
+    phone: string;
+    email: string;
+  };
+  statusHistory: Array<{
+    fromStatus: number | null;
+    toStatus: number;
+    label: string;
+    notes?: string;
+    changedBy?: string;
+    changedAt: string;
+  }>;
+}
+
+const toDateString = (date: Date): string => new Date(date).toISOString().split('T')[0];
+
+export function toProjectResponse(project: Project): ProjectResponse {
+  return {
+    id: project.id.toString(),
+    title: project.title,
+    propertyCode: project.propertyCode,
+    client: project.client,
+    serviceClass: project.serviceClass,
+    serviceType: project.serviceType.key,
+    currentStatus: project.currentStatus,
+    statusLabels: Array.from(project.statusLabels),
+    showStatusBar: project.showStatusBar,
+    createdDate: toDateString(project.createdAt),
+    lastUpdated: toDateString(project.updatedAt),
+    adminNotes: project.adminNotes,
+    contractId: project.contractId,
+    address: project.address,
+    contact: project.contact,
+    statusHistory: project.statusHistory.map(change => ({
+      fromStatus: change.fromStatus,
+      toStatus: change.toStatus,
+      label: change.label,
+      notes: change.notes,
+      changedBy: change.changedBy,
+      changedAt: new Date(change.changedAt).toISOString()
+    }))
+  };
+}
\ No newline at end of file
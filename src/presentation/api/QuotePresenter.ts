@@ -0,0 +1,77 @@
+/**
+ * Quote Presenter - Presentation Layer
+ * Maps Quote aggregates to the view behind a customer's quote response link
+ */
+
+import { Quote, QuoteStatus } from '../../domain/quote/Quote';
+import { EstimateProps, EstimateTotals } from '../../domain/quote/Estimate';
+
+export type QuoteResponseState = 'open' | 'accepted' | 'rejected' | 'expired' | 'superseded' | 'unavailable';
+
+export interface QuoteResponseView {
+  quoteId: string;
+  customerName: string;
+  serviceName: string;
+  serviceAddress?: string;
+  revision: number;
+  issuedAt?: string;
+  expiresAt?: string;
+  state: QuoteResponseState;
+  estimate: EstimateProps;
+  totals: EstimateTotals;
+  totalWithAddOns: number;
+  customerResponse?: {
+    decision: 'accepted' | 'rejected';
+    signedName: string;
+    respondedAt: string;
+  };
+}
+
+// Resolves what the customer may do with the revision their link points at
+export function getQuoteResponseState(quote: Quote, revision: number): QuoteResponseState {
+  const response = quote.customerResponse;
+
+  switch (quote.status) {
+    case QuoteStatus.ACCEPTED:
+      return 'accepted';
+    case QuoteStatus.REJECTED:
+      return response ? 'rejected' : 'unavailable';
+    case QuoteStatus.EXPIRED:
+      return 'expired';
+    case QuoteStatus.QUOTE_SENT:
+      if (quote.sentRevision !== revision) return 'superseded';
+      return quote.isExpired() ? 'expired' : 'open';
+    default:
+      return 'unavailable';
+  }
+}
+
+export function toQuoteResponseView(quote: Quote, revision: number): QuoteResponseView | null {
+  const estimateRevision = quote.estimateRevisions.find(candidate => candidate.version === revision);
+  if (!estimateRevision) {
+    return null;
+  }
+
+  const response = quote.customerResponse;
+
+  return {
+    quoteId: quote.id.toString(),
+    customerName: quote.customerName,
+    serviceName: quote.serviceType.name,
+    serviceAddress: quote.serviceAddress,
+    revision,
+    issuedAt: quote.quoteSentAt?.toISOString(),
+    expiresAt: quote.expiresAt?.toISOString(),
+    state: getQuoteResponseState(quote, revision),
+    estimate: estimateRevision.estimate.toJSON(),
+    totals: estimateRevision.estimate.calculateTotals(),
+    totalWithAddOns: estimateRevision.estimate.calculateTotals({ includeAddOns: true }).total,
+    customerResponse: response
+      ? {
+          decision: response.decision,
+          signedName: response.signedName,
+          respondedAt: response.respondedAt.toISOString()
+        }
+      : undefined
+  };
+}
\ No newline at end of file
@@ -0,0 +1,79 @@
+/**
+ * Role Presenter - Presentation Layer
+ * Maps roles, the permission catalog and role assignments to the JSON used by the admin roles page
+ */
+
+import { Permission, RBACError, RBACErrorCode, Role, RoleAssignment } from '../../auth/types';
+import { SanitizedUser } from '../../lib/secure-user-manager';
+
+export interface RoleResponse {
+  id: string;
+  name: string;
+  description?: string;
+  isSystemRole: boolean;
+  permissions: string[];
+  holders: number;
+  updatedAt: string;
+}
+
+export interface PermissionResponse {
+  name: string;
+  resource: string;
+  action: string;
+  description?: string;
+  conditional: boolean;
+}
+
+export interface RoleAssignmentResponse {
+  userId: string;
+  userEmail?: string;
+  userName?: string;
+  roleId: string;
+  assignedBy: string;
+  assignedAt: string;
+}
+
+export function toRoleResponse(role: Role, assignments: RoleAssignment[] = []): RoleResponse {
+  return {
+    id: role.id,
+    name: role.name,
+    description: role.description,
+    isSystemRole: role.isSystemRole,
+    permissions: role.permissions.map(permission => permission.name).sort(),
+    holders: assignments.filter(assignment => assignment.roleId === role.id).length,
+    updatedAt: new Date(role.updatedAt).toISOString()
+  };
+}
+
+export function toPermissionResponse(permission: Permission): PermissionResponse {
+  return {
+    name: permission.name,
+    resource: permission.resource,
+    action: permission.action,
+    description: permission.description,
+    conditional: (permission.conditions || []).length > 0
+  };
+}
+
+export function toRoleAssignmentResponse(assignment: RoleAssignment, user?: SanitizedUser): RoleAssignmentResponse {
+  return {
+    userId: assignment.userId,
+    userEmail: user?.email,
+    userName: user ? `${user.firstName} ${user.lastName}`.trim() : undefined,
+    roleId: assignment.roleId,
+    assignedBy: assignment.assignedBy,
+    assignedAt: new Date(assignment.assignedAt).toISOString()
+  };
+}
+
+const RBAC_ERROR_STATUS: Record<RBACErrorCode, number> = {
+  [RBACErrorCode.ROLE_NOT_FOUND]: 404,
+  [RBACErrorCode.ROLE_EXISTS]: 409,
+  [RBACErrorCode.SYSTEM_ROLE]: 409,
+  [RBACErrorCode.INVALID_ROLE]: 400,
+  [RBACErrorCode.UNKNOWN_PERMISSION]: 400
+};
+
+export function rbacErrorStatus(error: RBACError): number {
+  return RBAC_ERROR_STATUS[error.code] || 400;
+}
\ No newline at end of file
@@ -0,0 +1,107 @@
+/**
+ * Service Log Presenter - Presentation Layer
+ * Maps ServiceLogEntry aggregates to and from the JSON used by the crew log and review pages
+ */
+
+import { ServiceLogDetails, ServiceLogEntry } from '../../domain/servicelog/ServiceLogEntry';
+import { SERVICE_LOG_CODES } from '../../domain/servicelog/ServiceLogCodes';
+
+export interface ServiceLogPhotoResponse {
+  fileId: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  uploadedBy: string;
+  uploadedAt: string;
+}
+
+export interface ServiceLogEntryResponse {
+  id: string;
+  serviceDate: string;
+  propertyCode: string;
+  description: string;
+  locationDescription: string;
+  serviceCode: string;
+  serviceName: string;
+  timeIn: string;
+  timeOut: string;
+  crew: Array<{ type: string; count: number; hourlyRate: number }>;
+  contractRate: number;
+  materials: {
+    iceMeltBags: number;
+    deicerGallons: number;
+    iceSlicerTons: number;
+  };
+  totalHours: number;
+  totalPayable: number;
+  status: string;
+  locked: boolean;
+  submittedBy: string;
+  reviews: Array<{
+    decision: string;
+    reviewedBy: string;
+    comment?: string;
+    reviewedAt: string;
+  }>;
+  photos: ServiceLogPhotoResponse[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export function toServiceLogEntryResponse(entry: ServiceLogEntry): ServiceLogEntryResponse {
+  return {
+    id: entry.id.toString(),
+    serviceDate: entry.serviceDate.toISOString().split('T')[0],
+    propertyCode: entry.propertyCode,
+    description: entry.description,
+    locationDescription: entry.locationDescription,
+    serviceCode: entry.serviceCode,
+    serviceName: SERVICE_LOG_CODES[entry.serviceCode],
+    timeIn: entry.timeIn,
+    timeOut: entry.timeOut,
+    crew: entry.crew.map(line => ({ ...line })),
+    contractRate: entry.contractRate,
+    materials: entry.materials,
+    totalHours: entry.totalHours,
+    totalPayable: entry.totalPayable,
+    status: entry.status,
+    locked: entry.isLocked(),
+    submittedBy: entry.submittedBy,
+    reviews: entry.reviews.map(review => ({
+      decision: review.decision,
+      reviewedBy: review.reviewedBy,
+      comment: review.comment,
+      reviewedAt: review.reviewedAt.toISOString()
+    })),
+    photos: entry.photos.map(photo => ({ ...photo, uploadedAt: photo.uploadedAt.toISOString() })),
+    createdAt: entry.createdAt.toISOString(),
+    updatedAt: entry.updatedAt.toISOString()
+  };
+}
+
+// Request bodies arrive as loose JSON from the crew form; the aggregate does the real validation
+export function toServiceLogDetails(body: Record<string, unknown>): ServiceLogDetails {
+  const materials = (body.materials || {}) as Record<string, unknown>;
+  const crew = Array.isArray(body.crew) ? body.crew as Array<Record<string, unknown>> : [];
+
+  return {
+    serviceDate: new Date(String(body.serviceDate ?? '')),
+    propertyCode: String(body.propertyCode ?? ''),
+    description: String(body.description ?? ''),
+    locationDescription: String(body.locationDescription ?? ''),
+    serviceCode: String(body.serviceCode ?? ''),
+    timeIn: String(body.timeIn ?? ''),
+    timeOut: String(body.timeOut ?? ''),
+    crew: crew.map(line => ({
+      type: String(line.type ?? ''),
+      count: Number(line.count),
+      hourlyRate: Number(line.hourlyRate ?? 0)
+    })),
+    contractRate: Number(body.contractRate ?? 0),
+    materials: {
+      iceMeltBags: Number(materials.iceMeltBags ?? 0),
+      deicerGallons: Number(materials.deicerGallons ?? 0),
+      iceSlicerTons: Number(materials.iceSlicerTons ?? 0)
+    }
+  };
+}
\ No newline at end of file
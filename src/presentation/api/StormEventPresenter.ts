@@ -0,0 +1,37 @@
+/**
+ * Storm Event Presenter - Presentation Layer
+ * Maps StormEvent aggregates and their completion progress to the JSON shape used by the portals
+ */
+
+import { StormEvent } from '../../domain/storm/StormEvent';
+import { StormProgress } from '../../domain/services/StormDispatchService';
+
+export interface StormEventResponse {
+  id: string;
+  name: string;
+  startsAt: string;
+  endsAt?: string;
+  expectedAccumulationInches: number;
+  triggerThresholdInches: number;
+  status: string;
+  declaredBy?: string;
+  declaredAt?: string;
+  closedAt?: string;
+  progress: StormProgress;
+}
+
+export function toStormEventResponse(storm: StormEvent, progress: StormProgress): StormEventResponse {
+  return {
+    id: storm.id.toString(),
+    name: storm.name,
+    startsAt: storm.startsAt.toISOString(),
+    endsAt: storm.endsAt?.toISOString(),
+    expectedAccumulationInches: storm.expectedAccumulationInches,
+    triggerThresholdInches: storm.triggerThresholdInches,
+    status: storm.status,
+    declaredBy: storm.declaredBy,
+    declaredAt: storm.declaredAt?.toISOString(),
+    closedAt: storm.closedAt?.toISOString(),
+    progress
+  };
+}
\ No newline at end of file
@@ -0,0 +1,128 @@
+/**
+ * Time Entry Presenter - Presentation Layer
+ * Maps time clock shifts and weekly totals to the JSON used by the time clock and timesheet review pages
+ */
+
+import { LocationCheck, ReportedLocation, TimeEntry } from '../../domain/timesheet/TimeEntry';
+import { DateRange, TimeEntryHours, formatCalendarDate, lastDayOf } from '../../domain/timesheet/PayPeriod';
+import { WeekToDate } from '../../domain/services/TimesheetService';
+
+export interface TimeEntryResponse {
+  id: string;
+  employee: string;
+  propertyCode?: string;
+  projectId?: string;
+  siteName?: string;
+  status: string;
+  clockInAt: string;
+  clockOutAt?: string;
+  onBreak: boolean;
+  breaks: Array<{ startedAt: string; endedAt?: string }>;
+  breakMinutes: number;
+  hours: number;
+  regularHours?: number; // Present when the entry was totalled as part of a work week
+  overtimeHours?: number;
+  clockInCheck: LocationCheck;
+  clockOutCheck?: LocationCheck;
+  locationFlagged: boolean;
+  notes?: string;
+  reviews: Array<{
+    decision: string;
+    reviewedBy: string;
+    comment?: string;
+    reviewedAt: string;
+  }>;
+  corrections: Array<{
+    correctedBy: string;
+    reason: string;
+    previous: { clockInAt: string; clockOutAt?: string; breakMinutes: number };
+    correctedAt: string;
+  }>;
+}
+
+// Calendar days in the business's local time, both inclusive
+export interface DateRangeResponse {
+  firstDay: string;
+  lastDay: string;
+}
+
+export interface WeekToDateResponse {
+  week: DateRangeResponse;
+  thresholdHours: number;
+  hours: number;
+  regularHours: number;
+  overtimeHours: number;
+}
+
+export function toTimeEntryResponse(entry: TimeEntry, allocation?: TimeEntryHours): TimeEntryResponse {
+  return {
+    id: entry.id.toString(),
+    employee: entry.employee,
+    propertyCode: entry.propertyCode,
+    projectId: entry.projectId,
+    siteName: entry.siteName,
+    status: entry.status,
+    clockInAt: entry.clockInAt.toISOString(),
+    clockOutAt: entry.clockOutAt?.toISOString(),
+    onBreak: entry.onBreak,
+    breaks: entry.breaks.map(item => ({
+      startedAt: item.startedAt.toISOString(),
+      endedAt: item.endedAt?.toISOString()
+    })),
+    breakMinutes: entry.breakMinutes,
+    hours: allocation?.hours ?? entry.workedHours(),
+    regularHours: allocation?.regularHours,
+    overtimeHours: allocation?.overtimeHours,
+    clockInCheck: entry.clockInCheck,
+    clockOutCheck: entry.clockOutCheck,
+    locationFlagged: entry.locationFlagged,
+    notes: entry.notes,
+    reviews: entry.reviews.map(review => ({
+      decision: review.decision,
+      reviewedBy: review.reviewedBy,
+      comment: review.comment,
+      reviewedAt: review.reviewedAt.toISOString()
+    })),
+    corrections: entry.corrections.map(correction => ({
+      correctedBy: correction.correctedBy,
+      reason: correction.reason,
+      previous: {
+        clockInAt: correction.previous.clockInAt.toISOString(),
+        clockOutAt: correction.previous.clockOutAt?.toISOString(),
+        breakMinutes: correction.previous.breakMinutes
+      },
+      correctedAt: correction.correctedAt.toISOString()
+    }))
+  };
+}
+
+export function toWeekToDateResponse(summary: WeekToDate): WeekToDateResponse {
+  return {
+    week: toDateRangeResponse(summary.week),
+    thresholdHours: summary.thresholdHours,
+    hours: summary.hours,
+    regularHours: summary.regularHours,
+    overtimeHours: summary.overtimeHours
+  };
+}
+
+export function toDateRangeResponse(range: DateRange): DateRangeResponse {
+  return { firstDay: formatCalendarDate(range.start), lastDay: formatCalendarDate(lastDayOf(range)) };
+}
+
+// Browsers report position as loose JSON; a missing position means location was denied or unavailable
+export function toReportedLocation(value: unknown): ReportedLocation | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const location = value as Record<string, unknown>;
+  if (location.latitude === undefined || location.longitude === undefined) {
+    return undefined;
+  }
+  return {
+    latitude: Number(location.latitude),
+    longitude: Number(location.longitude),
+    accuracyMeters: location.accuracyMeters !== undefined ? Number(location.accuracyMeters) : undefined
+  };
+}
\ No newline at end of file
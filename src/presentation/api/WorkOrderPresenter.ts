@@ -0,0 +1,74 @@
+/**
+ * Work Order Presenter - Presentation Layer
+ * Maps WorkOrder aggregates to the JSON shape used by the dispatch board and crew pages
+ */
+
+import { WorkOrder } from '../../domain/workorder/WorkOrder';
+
+export interface WorkOrderResponse {
+  id: string;
+  propertyCode: string;
+  clientName: string;
+  serviceAddress: string;
+  zipCode: string;
+  serviceType: string;
+  priority: string;
+  scheduledDate: string;
+  estimatedHours: number;
+  equipmentRequired: string[];
+  specialInstructions?: string;
+  weatherConditions?: string;
+  accessNotes?: string;
+  status: string;
+  assignedTo?: string;
+  requestedBy: string;
+  completionNotes?: string;
+  verifiedBy?: string;
+  storm?: {
+    stormEventId: string;
+    route: string;
+    sequence: number;
+  };
+  createdAt: string;
+  updatedAt: string;
+  statusHistory: Array<{
+    fromStatus: string | null;
+    toStatus: string;
+    notes?: string;
+    changedBy?: string;
+    changedAt: string;
+  }>;
+}
+
+export function toWorkOrderResponse(workOrder: WorkOrder): WorkOrderResponse {
+  return {
+    id: workOrder.id.toString(),
+    propertyCode: workOrder.propertyCode,
+    clientName: workOrder.clientName,
+    serviceAddress: workOrder.serviceAddress,
+    zipCode: workOrder.zipCode,
+    serviceType: workOrder.serviceType,
+    priority: workOrder.priority,
+    scheduledDate: workOrder.scheduledDate.toISOString().split('T')[0],
+    estimatedHours: workOrder.estimatedHours,
+    equipmentRequired: Array.from(workOrder.equipmentRequired),
+    specialInstructions: workOrder.specialInstructions,
+    weatherConditions: workOrder.weatherConditions,
+    accessNotes: workOrder.accessNotes,
+    status: workOrder.status,
+    assignedTo: workOrder.assignedTo,
+    requestedBy: workOrder.requestedBy,
+    completionNotes: workOrder.completionNotes,
+    verifiedBy: workOrder.verifiedBy,
+    storm: workOrder.storm,
+    createdAt: workOrder.createdAt.toISOString(),
+    updatedAt: workOrder.updatedAt.toISOString(),
+    statusHistory: workOrder.statusHistory.map(change => ({
+      fromStatus: change.fromStatus,
+      toStatus: change.toStatus,
+      notes: change.notes,
+      changedBy: change.changedBy,
+      changedAt: change.changedAt.toISOString()
+    }))
+  };
+}
\ No newline at end of file
@@ -25,7 +25,8 @@ export class CQRSQuoteController {
         email,
         phone,
         serviceType,
-        description
+        description,
+        serviceAddress
       } = req.body;
 
       // Submit command through CQRS
@@ -35,6 +36,7 @@ export class CQRSQuoteController {
         phone,
         serviceType,
         description,
+        serviceAddress,
         metadata: {
           ipAddress: this.getClientIP(req),
           userAgent: req.headers['user-agent'],
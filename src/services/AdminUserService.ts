@@ -12,16 +12,13 @@ import {
 } from '../types/admin';
 import { EmployeeAccountService } from './EmployeeAccountService';
 import { Role, Permission, DEFAULT_ROLES } from '../auth/types';
-import { RBACManager } from '../auth/rbac';
 import { v4 as uuidv4 } from 'uuid';
 
 export class AdminUserService {
-  private rbacManager: RBACManager;
   private adminUsers: Map<string, AdminUser> = new Map();
   private employeeService: EmployeeAccountService;
 
   constructor() {
-    this.rbacManager = new RBACManager();
     this.employeeService = new EmployeeAccountService();
     this.initializeDefaultAdmins();
   }
@@ -112,6 +109,9 @@ export class AdminUserService {
       Object.values(ADMIN_PERMISSIONS.EMPLOYEE_MANAGEMENT).forEach(permission => {
         permissions.push(this.createPermission(permission));
       });
+      Object.values(ADMIN_PERMISSIONS.QUOTE_MANAGEMENT).forEach(permission => {
+        permissions.push(this.createPermission(permission));
+      });
       Object.values(ADMIN_PERMISSIONS.TRAINING_MANAGEMENT).forEach(permission => {
         permissions.push(this.createPermission(permission));
       });
@@ -138,13 +138,16 @@ export class AdminUserService {
         });
       });
     } else if (adminLevel === 'admin') {
-      // Admin gets user and employee management + training
+      // Admin gets user, employee and quote management + training
       Object.values(ADMIN_PERMISSIONS.USER_MANAGEMENT).forEach(permission => {
         permissions.push(this.createPermission(permission));
       });
       Object.values(ADMIN_PERMISSIONS.EMPLOYEE_MANAGEMENT).forEach(permission => {
         permissions.push(this.createPermission(permission));
       });
+      Object.values(ADMIN_PERMISSIONS.QUOTE_MANAGEMENT).forEach(permission => {
+        permissions.push(this.createPermission(permission));
+      });
       Object.values(ADMIN_PERMISSIONS.TRAINING_MANAGEMENT).forEach(permission => {
         permissions.push(this.createPermission(permission));
       });
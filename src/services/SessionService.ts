@@ -0,0 +1,436 @@
+/**
+ * Session Service
+ * The one place sign-in sessions are issued, read, refreshed and ended, for admins, employees and clients alike
+ * SECURITY: Sessions live server-side in the session store, shared by every instance. The browser holds an
+ * HttpOnly signed session cookie, an HttpOnly refresh cookie scoped to /api/auth, and a CSRF token derived
+ * from the session. Sessions are short-lived; refreshing rotates the refresh token, and presenting a rotated
+ * token again revokes every session of that sign-in.
+ */
+
+import { serialize, parse } from 'cookie';
+import * as crypto from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import { NextApiRequest, NextApiResponse } from 'next';
+import { RBACManager } from '../auth/rbac';
+import { DEFAULT_ROLES, SessionStore, StoredSession, User } from '../auth/types';
+import { ClientAccessLevel } from '../domain/clientaccount/ClientInvitation';
+import { getRBACManager, getSessionStore } from '../infrastructure/repositories/RepositoryProvider';
+import { getJwtSecret } from '../lib/jwt-utils';
+import { CSRF_COOKIE_NAME, CSRF_HEADER_NAME } from '../lib/portal-fetch';
+import { SanitizedUser, secureUserManager } from '../lib/secure-user-manager';
+
+export const SESSION_CONFIG = {
+  SESSION_COOKIE: 'vsr_session',
+  REFRESH_COOKIE: 'vsr_refresh',
+  CSRF_COOKIE: CSRF_COOKIE_NAME,
+  CSRF_HEADER: CSRF_HEADER_NAME.toLowerCase(),
+
+  SECURE: process.env.NODE_ENV === 'production',
+  SAME_SITE: 'strict' as const,
+  PATH: '/',
+  REFRESH_PATH: '/api/auth', // The refresh cookie is only sent to the refresh and logout endpoints
+  DOMAIN: process.env.COOKIE_DOMAIN || undefined,
+
+  // Lifetimes (in seconds). A session lasts ACCESS_TTL; refreshing within the refresh window
+  // issues the next one and slides the window, so a sign-in ends after 24 hours (30 days with remember me) idle
+  ACCESS_TTL: 15 * 60,
+  SESSION_TTL: 24 * 60 * 60,
+  REMEMBER_ME_TTL: 30 * 24 * 60 * 60,
+
+  // A rotated token presented this soon is a concurrent refresh from another tab, not reuse
+  REFRESH_REUSE_GRACE_MS: 10 * 1000,
+  // lastActiveAt is written at most this often per session
+  TOUCH_INTERVAL_MS: 60 * 1000,
+} as const;
+
+export type SessionRole = 'admin' | 'employee' | 'client';
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: SessionRole;
+  status: 'active' | 'inactive' | 'suspended';
+  phone?: string;
+  employeeId?: string;
+  projectIds?: string[];
+  contractIds?: string[];
+  clientAccessLevel?: ClientAccessLevel;
+  companyName?: string;
+  isEmailVerified: boolean;
+  lastLoginAt?: Date;
+}
+
+export interface AuthenticatedSession {
+  sessionId: string;
+  user: SessionUser;
+  csrfToken: string;
+}
+
+// Why a refresh did or did not issue a new session; the refresh endpoint maps these to status codes
+export type RefreshStatus = 'refreshed' | 'in_progress' | 'csrf_invalid' | 'invalid' | 'reused';
+
+export interface RefreshResult {
+  status: RefreshStatus;
+  csrfToken?: string;
+}
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+const clientIp = (req: NextApiRequest | IncomingMessage): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const ip = forwarded ? (Array.isArray(forwarded) ? forwarded[0] : forwarded.split(',')[0]) : req.socket?.remoteAddress;
+  return (ip || 'unknown').trim();
+};
+
+const userAgentOf = (req: NextApiRequest | IncomingMessage): string =>
+  (req.headers['user-agent'] || 'unknown').slice(0, 500);
+
+const toSessionUser = (user: SanitizedUser): SessionUser => ({
+  id: user.id,
+  email: user.email,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  role: user.role,
+  status: user.status,
+  phone: user.phone,
+  employeeId: user.employeeId,
+  projectIds: user.projectIds,
+  contractIds: user.contractIds,
+  clientAccessLevel: user.clientAccessLevel as ClientAccessLevel | undefined,
+  companyName: user.companyName,
+  isEmailVerified: user.isEmailVerified,
+  lastLoginAt: user.lastLoginAt
+});
+
+export class SessionService {
+  /**
+   * Start a new sign-in for a user whose credentials (and second factor) were just verified
+   * @returns The CSRF token, for callers that hand it straight to the page
+   */
+  async startSession(
+    req: NextApiRequest | IncomingMessage,
+    res: NextApiResponse | ServerResponse,
+    userId: string,
+    rememberMe: boolean = false
+  ): Promise<string> {
+    return this.issueSession(req, res, {
+      userId,
+      familyId: crypto.randomUUID(),
+      rememberMe,
+      signedInAt: new Date()
+    });
+  }
+
+  /**
+   * Resolve the signed-in session from the request cookies
+   * @returns null when there is no cookie, the signature is wrong, or the session was rotated, revoked or has expired
+   */
+  async getSession(req: NextApiRequest | IncomingMessage): Promise<AuthenticatedSession | null> {
+    const sessionId = this.readSessionId(req);
+    if (!sessionId) {
+      return null;
+    }
+
+    const store = await getSessionStore();
+    const record = await store.findById(sessionId);
+    const now = new Date();
+    if (!record || record.rotatedAt || record.revokedAt || record.expiresAt <= now) {
+      return null;
+    }
+
+    const user = secureUserManager.getUserById(record.userId);
+    if (!user || user.status !== 'active') {
+      return null;
+    }
+
+    if (now.getTime() - record.lastActiveAt.getTime() >= SESSION_CONFIG.TOUCH_INTERVAL_MS) {
+      await store.save({ ...record, lastActiveAt: now });
+    }
+
+    return {
+      sessionId,
+      user: toSessionUser(user),
+      csrfToken: this.csrfTokenFor(sessionId)
+    };
+  }
+
+  /**
+   * Check the CSRF header (or a csrfToken form field) against the one bound to the session
+   */
+  verifyCsrf(req: NextApiRequest, session: AuthenticatedSession): boolean {
+    return this.csrfMatches(req, session.csrfToken);
+  }
+
+  /**
+   * Exchange the refresh cookie for a new session in the same sign-in
+   * SECURITY: Each refresh token works once. Presenting one that was already rotated, outside the grace
+   * period for concurrent tabs, means it was copied: every session of that sign-in is revoked.
+   */
+  async refresh(req: NextApiRequest, res: NextApiResponse | ServerResponse): Promise<RefreshResult> {
+    const token = parse(req.headers.cookie || '')[SESSION_CONFIG.REFRESH_COOKIE];
+    const store = await getSessionStore();
+    const record = token ? await store.findByRefreshTokenHash(hashToken(token)) : null;
+    if (!record) {
+      this.clearSessionCookies(res);
+      return { status: 'invalid' };
+    }
+
+    // Checked before reuse detection, so another site cannot revoke a sign-in by replaying the cookie
+    if (!this.csrfMatches(req, this.csrfTokenFor(record.id))) {
+      return { status: 'csrf_invalid' };
+    }
+
+    const now = new Date();
+    if (record.revokedAt || record.refreshExpiresAt <= now) {
+      this.clearSessionCookies(res);
+      return { status: 'invalid' };
+    }
+
+    if (record.rotatedAt) {
+      if (now.getTime() - record.rotatedAt.getTime() <= SESSION_CONFIG.REFRESH_REUSE_GRACE_MS) {
+        return { status: 'in_progress' };
+      }
+
+      const revoked = await store.revokeFamily(record.familyId, 'refresh_token_reuse');
+      console.warn('🚨 Refresh token reuse detected, sign-in revoked:', {
+        userId: record.userId,
+        familyId: record.familyId,
+        sessionsRevoked: revoked.length,
+        ip: clientIp(req)
+      });
+      this.clearSessionCookies(res);
+      return { status: 'reused' };
+    }
+
+    const user = secureUserManager.getUserById(record.userId);
+    if (!user || user.status !== 'active') {
+      await store.revokeFamily(record.familyId, 'account_inactive');
+      this.clearSessionCookies(res);
+      return { status: 'invalid' };
+    }
+
+    // Conditional, so of two requests racing with the same token only one issues a session
+    if (!(await store.markRotated(record.id, now))) {
+      return { status: 'in_progress' };
+    }
+
+    const csrfToken = await this.issueSession(req, res, {
+      userId: record.userId,
+      familyId: record.familyId,
+      rememberMe: record.rememberMe,
+      signedInAt: record.signedInAt
+    });
+    return { status: 'refreshed', csrfToken };
+  }
+
+  /**
+   * End the request's sign-in server-side and clear its cookies
+   * Works from the refresh cookie too, so a sign-in whose session already expired is still revoked
+   */
+  async endSession(req: NextApiRequest | IncomingMessage, res: NextApiResponse | ServerResponse): Promise<void> {
+    const store = await getSessionStore();
+    const record = await this.findRequestSession(req, store);
+    if (record) {
+      await store.revokeFamily(record.familyId, 'signed_out');
+    }
+    this.clearSessionCookies(res);
+  }
+
+  /**
+   * Signed-in devices, most recently active first: the current session of every sign-in that has not ended
+   */
+  async listActiveSessions(userId?: string): Promise<StoredSession[]> {
+    const store = await getSessionStore();
+    return store.findActive(userId);
+  }
+
+  /**
+   * Sign one device out: revokes the sign-in the session belongs to
+   * @returns The revoked session, or null if it was not found or had already ended
+   */
+  async revokeSession(sessionId: string, reason: string): Promise<StoredSession | null> {
+    const store = await getSessionStore();
+    const record = await store.findById(sessionId);
+    if (!record || (await store.revokeFamily(record.familyId, reason)).length === 0) {
+      return null;
+    }
+    return record;
+  }
+
+  /**
+   * Sign a user out everywhere, optionally keeping the sign-in of the session making the request
+   * @returns The number of sessions revoked
+   */
+  async revokeUserSessions(userId: string, reason: string, exceptSessionId?: string): Promise<number> {
+    const store = await getSessionStore();
+    const kept = exceptSessionId ? await store.findById(exceptSessionId) : null;
+    const revoked = await store.revokeByUser(userId, reason, kept?.userId === userId ? kept.familyId : undefined);
+    return revoked.length;
+  }
+
+  /**
+   * Expire the session, refresh and CSRF cookies
+   */
+  clearSessionCookies(res: NextApiResponse | ServerResponse): void {
+    this.appendCookies(res, [
+      serialize(SESSION_CONFIG.SESSION_COOKIE, '', this.cookieOptions(0, true)),
+      serialize(SESSION_CONFIG.REFRESH_COOKIE, '', this.cookieOptions(0, true, SESSION_CONFIG.REFRESH_PATH)),
+      serialize(SESSION_CONFIG.CSRF_COOKIE, '', this.cookieOptions(0, false))
+    ]);
+  }
+
+  /**
+   * Permission names held by a user: those of the roles assigned to them, plus the system role
+   * their account carries (super admin or admin for admin accounts, none for employees and clients)
+   */
+  async getPermissions(user: SessionUser): Promise<string[]> {
+    const rbac = await getRBACManager();
+    const permissions = await rbac.getEffectivePermissions(user.id, this.accountRoleNames(user));
+    return permissions.map(permission => permission.name);
+  }
+
+  /**
+   * Check permissions through the RBAC manager, so conditions are evaluated against the context when one is given
+   */
+  async hasPermissions(user: SessionUser, required: string[], context?: Record<string, unknown>): Promise<boolean> {
+    const rbac = await getRBACManager();
+    const result = await rbac.checkPermissions(await this.toRBACUser(rbac, user), required, context);
+    return result.granted;
+  }
+
+  private accountRoleNames(user: SessionUser): string[] {
+    if (user.role !== 'admin') {
+      return [];
+    }
+    return [secureUserManager.isSuperAdmin(user.id) ? DEFAULT_ROLES.SUPER_ADMIN : DEFAULT_ROLES.ADMIN];
+  }
+
+  private async toRBACUser(rbac: RBACManager, user: SessionUser): Promise<User> {
+    const accountRoles = this.accountRoleNames(user);
+    const now = new Date();
+    return {
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      roles: (await rbac.listRoles()).filter(role => accountRoles.includes(role.name)),
+      permissions: [],
+      isActive: user.status === 'active',
+      isEmailVerified: user.isEmailVerified,
+      lastLoginAt: user.lastLoginAt,
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  /**
+   * Store a new session with a fresh refresh token and set its cookies
+   */
+  private async issueSession(
+    req: NextApiRequest | IncomingMessage,
+    res: NextApiResponse | ServerResponse,
+    signIn: Pick<StoredSession, 'userId' | 'familyId' | 'rememberMe' | 'signedInAt'>
+  ): Promise<string> {
+    const now = new Date();
+    const sessionId = crypto.randomUUID();
+    const refreshToken = crypto.randomBytes(32).toString('base64url');
+    const refreshTtl = signIn.rememberMe ? SESSION_CONFIG.REMEMBER_ME_TTL : SESSION_CONFIG.SESSION_TTL;
+
+    const store = await getSessionStore();
+    await store.save({
+      ...signIn,
+      id: sessionId,
+      refreshTokenHash: hashToken(refreshToken),
+      ip: clientIp(req),
+      userAgent: userAgentOf(req),
+      createdAt: now,
+      lastActiveAt: now,
+      expiresAt: new Date(now.getTime() + SESSION_CONFIG.ACCESS_TTL * 1000),
+      refreshExpiresAt: new Date(now.getTime() + refreshTtl * 1000)
+    });
+
+    // Every cookie lives as long as the refresh window: an expired session is refreshed, not signed in again
+    const csrfToken = this.csrfTokenFor(sessionId);
+    this.appendCookies(res, [
+      serialize(SESSION_CONFIG.SESSION_COOKIE, `${sessionId}.${this.sign(sessionId)}`, this.cookieOptions(refreshTtl, true)),
+      serialize(SESSION_CONFIG.REFRESH_COOKIE, refreshToken, this.cookieOptions(refreshTtl, true, SESSION_CONFIG.REFRESH_PATH)),
+      // Readable by page scripts, which echo it back in the CSRF header
+      serialize(SESSION_CONFIG.CSRF_COOKIE, csrfToken, this.cookieOptions(refreshTtl, false))
+    ]);
+
+    return csrfToken;
+  }
+
+  private async findRequestSession(req: NextApiRequest | IncomingMessage, store: SessionStore): Promise<StoredSession | null> {
+    const sessionId = this.readSessionId(req);
+    if (sessionId) {
+      const record = await store.findById(sessionId);
+      if (record) {
+        return record;
+      }
+    }
+
+    const refreshToken = parse(req.headers.cookie || '')[SESSION_CONFIG.REFRESH_COOKIE];
+    return refreshToken ? store.findByRefreshTokenHash(hashToken(refreshToken)) : null;
+  }
+
+  private csrfMatches(req: NextApiRequest, expected: string): boolean {
+    const header = req.headers[SESSION_CONFIG.CSRF_HEADER];
+    const submitted = (Array.isArray(header) ? header[0] : header) || req.body?.csrfToken;
+    return typeof submitted === 'string' && this.safeEqual(submitted, expected);
+  }
+
+  private readSessionId(req: NextApiRequest | IncomingMessage): string | null {
+    const value = parse(req.headers.cookie || '')[SESSION_CONFIG.SESSION_COOKIE];
+    if (!value) {
+      return null;
+    }
+
+    const separator = value.lastIndexOf('.');
+    const sessionId = value.slice(0, separator);
+    const signature = value.slice(separator + 1);
+    return separator > 0 && this.safeEqual(signature, this.sign(sessionId)) ? sessionId : null;
+  }
+
+  private csrfTokenFor(sessionId: string): string {
+    return this.sign(`csrf:${sessionId}`);
+  }
+
+  private sign(value: string): string {
+    return crypto.createHmac('sha256', this.signingSecret()).update(value).digest('hex');
+  }
+
+  // Read per call so a missing secret fails the request, not the import
+  private signingSecret(): string {
+    return process.env.COOKIE_SIGNING_SECRET || getJwtSecret();
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && crypto.timingSafeEqual(left, right);
+  }
+
+  private cookieOptions(maxAge: number, httpOnly: boolean, path: string = SESSION_CONFIG.PATH) {
+    return {
+      httpOnly,
+      secure: SESSION_CONFIG.SECURE,
+      sameSite: SESSION_CONFIG.SAME_SITE,
+      maxAge,
+      path,
+      domain: SESSION_CONFIG.DOMAIN
+    };
+  }
+
+  // Keeps cookies other middleware already set on the response
+  private appendCookies(res: NextApiResponse | ServerResponse, cookies: string[]): void {
+    const existing = res.getHeader('Set-Cookie');
+    const current = existing === undefined ? [] : Array.isArray(existing) ? existing : [String(existing)];
+    res.setHeader('Set-Cookie', [...current, ...cookies]);
+  }
+}
+
+// Export singleton instance
+export const sessionService = new SessionService();
\ No newline at end of file
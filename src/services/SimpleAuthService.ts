@@ -1,17 +1,16 @@
 /**
  * Secure Authentication Service
  * Uses encrypted user storage and secure password hashing
- * SECURITY: Replaces hardcoded credentials with secure authentication
+ * SECURITY: Checks credentials only; sessions and their cookies are issued by the SessionService
  */
 
-import * as jwt from 'jsonwebtoken';
-import { v4 as uuidv4 } from 'uuid';
 import * as nodemailer from 'nodemailer';
 import * as fs from 'fs';
 import * as path from 'path';
 import { validatePassword } from '../utils/passwordValidation';
 import { secureUserManager } from '../lib/secure-user-manager';
 import { passwordSecurity, passwordUtils } from '../lib/password-security';
+import { sessionService } from './SessionService';
 
 interface User {
   id: string;
@@ -23,6 +22,9 @@ interface User {
   phone?: string;
   employeeId?: string;
   projectIds?: string[];
+  contractIds?: string[];
+  clientAccessLevel?: 'owner' | 'member';
+  companyName?: string;
   requirePasswordChange?: boolean;
   isEmailVerified?: boolean;
   lastLoginAt?: Date;
@@ -32,23 +34,19 @@ interface User {
 
 interface LoginResult {
   success: boolean;
-  token?: string;
   user?: any;
   message?: string;
   requiresPasswordReset?: boolean;
   requiresPasswordChange?: boolean;
-  sessionId?: string;
+  requiresTwoFactor?: boolean;
+  twoFactorEnrollmentRequired?: boolean;
+  challengeToken?: string;
+  recoveryCodes?: string[];
+  accountLocked?: boolean;
+  lockedUntil?: Date;
 }
 
 export class SimpleAuthService {
-  private readonly JWT_SECRET = (() => {
-    const secret = process.env.JWT_SECRET;
-    if (!secret) {
-      throw new Error('JWT_SECRET environment variable is required');
-    }
-    return secret;
-  })();
-  private activeSessions = new Map<string, { userId: string; sessionId: string; createdAt: Date }>();
   private resetTokens = new Map<string, { email: string; createdAt: number }>();
   
   constructor() {
@@ -58,29 +56,21 @@ export class SimpleAuthService {
   }
 
   /**
-   * Start session cleanup routine
+   * Start reset token cleanup routine
    */
   private startSessionCleanup(): void {
     setInterval(() => {
-      this.cleanupExpiredSessions();
+      this.cleanupExpiredResetTokens();
     }, 60 * 60 * 1000); // Clean up every hour
   }
 
   /**
-   * Clean up expired sessions and reset tokens
+   * Clean up expired reset tokens
    */
-  private cleanupExpiredSessions(): void {
+  private cleanupExpiredResetTokens(): void {
     const now = Date.now();
-    const sessionTimeout = 24 * 60 * 60 * 1000; // 24 hours
     const resetTokenTimeout = 60 * 60 * 1000; // 1 hour
     
-    // Clean up expired sessions
-    for (const [token, session] of this.activeSessions.entries()) {
-      if (now - session.createdAt.getTime() > sessionTimeout) {
-        this.activeSessions.delete(token);
-      }
-    }
-    
     // Clean up expired reset tokens
     for (const [token, resetData] of this.resetTokens.entries()) {
       if (now - resetData.createdAt > resetTokenTimeout) {
@@ -93,61 +83,36 @@ export class SimpleAuthService {
    * Login with credentials using secure authentication
    * SECURITY: Uses secure user manager with password hashing and rate limiting
    */
-  async login(email: string, password: string, rememberMe: boolean = false, ip: string = 'unknown', userAgent: string = 'unknown'): Promise<LoginResult> {
+  async login(email: string, password: string, ip: string = 'unknown', userAgent: string = 'unknown'): Promise<LoginResult> {
     try {
       // Authenticate using secure user manager
       const authResult = await secureUserManager.authenticate(email, password, ip, userAgent);
       
-      if (!authResult.success) {
+      // Password accepted, but no session until the second factor is verified
+      if (authResult.twoFactorRequired) {
         return {
           success: false,
-          message: authResult.message || 'Authentication failed'
+          user: this.toLoginUser(authResult.user!),
+          message: authResult.message,
+          requiresTwoFactor: true,
+          twoFactorEnrollmentRequired: authResult.twoFactorEnrollmentRequired || false,
+          challengeToken: authResult.challengeToken
         };
       }
 
-      const user = authResult.user!;
-      const sessionId = authResult.sessionId!;
-      
-      // Generate JWT token
-      const tokenExpiry = rememberMe ? '30d' : '24h';
-      const token = jwt.sign(
-        {
-          userId: user.id,
-          email: user.email,
-          role: user.role,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          sessionId
-        },
-        this.JWT_SECRET,
-        { expiresIn: tokenExpiry }
-      );
-
-      // Store session mapping
-      this.activeSessions.set(token, {
-        userId: user.id,
-        sessionId,
-        createdAt: new Date()
-      });
+      if (!authResult.success) {
+        return {
+          success: false,
+          message: authResult.message || 'Authentication failed',
+          accountLocked: authResult.locked || false,
+          lockedUntil: authResult.lockedUntil
+        };
+      }
 
-      return {
-        success: true,
-        token,
-        user: {
-          id: user.id,
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          role: user.role,
-          status: user.status,
-          phone: user.phone,
-          employeeId: user.employeeId,
-          projectIds: user.projectIds
-        },
+      return this.toSessionResult(authResult.user!, {
         message: authResult.message || 'Login successful',
-        requiresPasswordChange: authResult.requiresPasswordChange || false,
-        sessionId: sessionId
-      };
+        requiresPasswordChange: authResult.requiresPasswordChange || false
+      });
     } catch (error) {
       console.error('Login error:', error);
       return {
@@ -158,50 +123,72 @@ export class SimpleAuthService {
   }
 
   /**
-   * Verify token and get user info
-   * SECURITY: Validates both JWT and session in secure user manager
+   * Finish a two-factor sign-in with an authenticator or recovery code
+   * SECURITY: The session is only created once the second factor is verified
    */
-  async verifyToken(token: string): Promise<any> {
+  async completeTwoFactorLogin(challengeToken: string, code: string): Promise<LoginResult> {
     try {
-      // Verify JWT token
-      const decoded = jwt.verify(token, this.JWT_SECRET) as any;
-      
-      // Check if session exists in our active sessions
-      const sessionInfo = this.activeSessions.get(token);
-      if (!sessionInfo) {
-        return null;
-      }
+      const verification = await secureUserManager.completeTwoFactorLogin(challengeToken, code);
 
-      // Validate session in secure user manager
-      const sessionValidation = secureUserManager.validateSession(sessionInfo.sessionId);
-      if (!sessionValidation.valid) {
-        // Remove invalid session
-        this.activeSessions.delete(token);
-        return null;
+      if (!verification.success) {
+        return {
+          success: false,
+          message: verification.message || 'Verification failed',
+          accountLocked: verification.locked || false,
+          lockedUntil: verification.lockedUntil
+        };
       }
 
-      const user = sessionValidation.user!;
+      return this.toSessionResult(verification.user!, {
+        message: verification.message || 'Login successful',
+        requiresPasswordChange: verification.requiresPasswordChange || false,
+        recoveryCodes: verification.recoveryCodes
+      });
+    } catch (error) {
+      console.error('Two-factor login error:', error);
       return {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        role: user.role,
-        status: user.status,
-        phone: user.phone,
-        employeeId: user.employeeId,
-        projectIds: user.projectIds
+        success: false,
+        message: 'Login failed due to server error'
       };
-    } catch (error) {
-      return null;
     }
   }
 
+  /**
+   * A successful sign-in result, for the caller to start a session from
+   */
+  private toSessionResult(user: User, result: Partial<LoginResult>): LoginResult {
+    return {
+      ...result,
+      success: true,
+      user: this.toLoginUser(user)
+    };
+  }
+
+  /**
+   * The user fields returned to login callers
+   */
+  private toLoginUser(user: User): User {
+    return {
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      role: user.role,
+      status: user.status,
+      phone: user.phone,
+      employeeId: user.employeeId,
+      projectIds: user.projectIds,
+      contractIds: user.contractIds,
+      clientAccessLevel: user.clientAccessLevel,
+      companyName: user.companyName
+    };
+  }
+
   /**
    * Change user password using secure authentication
-   * SECURITY: Uses secure password validation and hashing
+   * SECURITY: Uses secure password validation and hashing; every other session is signed out
    */
-  async changePassword(email: string, currentPassword: string | undefined, newPassword: string): Promise<LoginResult> {
+  async changePassword(email: string, currentPassword: string | undefined, newPassword: string, keepSessionId?: string): Promise<LoginResult> {
     try {
       console.log(`🔐 Secure password change request for: ${email}`);
       
@@ -228,35 +215,11 @@ export class SimpleAuthService {
         };
       }
 
-      // Invalidate all existing sessions for this user
-      secureUserManager.logoutAllSessions(user.id);
-      
-      // Generate new token for the user
-      const token = jwt.sign(
-        {
-          userId: user.id,
-          email: user.email,
-          role: user.role,
-          firstName: user.firstName,
-          lastName: user.lastName
-        },
-        this.JWT_SECRET,
-        { expiresIn: '24h' }
-      );
-
-      // Create new session
-      const sessionId = uuidv4(); // Temporary - would use secure session creation
-      
-      // Store new session mapping
-      this.activeSessions.set(token, {
-        userId: user.id,
-        sessionId,
-        createdAt: new Date()
-      });
+      // Invalidate all other sessions for this user
+      await sessionService.revokeUserSessions(user.id, 'password_changed', keepSessionId);
 
       return {
         success: true,
-        token,
         user: {
           id: user.id,
           email: user.email,
@@ -396,37 +359,13 @@ export class SimpleAuthService {
       // Remove the used token
       this.resetTokens.delete(token);
       
-      // Invalidate all existing sessions for this user
-      secureUserManager.logoutAllSessions(user.id);
-      
-      // Generate new token for the user
-      const accessToken = jwt.sign(
-        {
-          userId: user.id,
-          email: user.email,
-          role: user.role,
-          firstName: user.firstName,
-          lastName: user.lastName
-        },
-        this.JWT_SECRET,
-        { expiresIn: '24h' }
-      );
-
-      // Create new session
-      const sessionId = uuidv4();
-      
-      // Store new session mapping
-      this.activeSessions.set(accessToken, {
-        userId: user.id,
-        sessionId,
-        createdAt: new Date()
-      });
+      // Invalidate all existing sessions for this user; they sign in again with the new password
+      await sessionService.revokeUserSessions(user.id, 'password_reset');
 
       console.log(`✅ Password reset successful for user: ${user.email}`);
 
       return {
         success: true,
-        token: accessToken,
         user: {
           id: user.id,
           email: user.email,
@@ -544,35 +483,6 @@ export class SimpleAuthService {
     }
   }
 
-  /**
-   * Logout user and invalidate session
-   * SECURITY: Properly invalidates both JWT and session
-   */
-  async logout(token: string): Promise<{ success: boolean; message?: string }> {
-    try {
-      // Remove from active sessions
-      const sessionInfo = this.activeSessions.get(token);
-      if (sessionInfo) {
-        // Invalidate session in secure user manager
-        secureUserManager.logout(sessionInfo.sessionId);
-        
-        // Remove from our active sessions
-        this.activeSessions.delete(token);
-      }
-
-      return {
-        success: true,
-        message: 'Logged out successfully'
-      };
-    } catch (error) {
-      console.error('Logout error:', error);
-      return {
-        success: false,
-        message: 'Logout failed due to server error'
-      };
-    }
-  }
-
   /**
    * Update user profile information
    * SECURITY: Uses secure user manager for updates
@@ -608,14 +518,12 @@ export class SimpleAuthService {
    * SECURITY: Provides insights into authentication usage
    */
   getAuthStats(): {
-    activeSessions: number;
     secureUsersCount: number;
     authMethod: string;
   } {
     return {
-      activeSessions: this.activeSessions.size,
       secureUsersCount: 3, // Would be dynamic in full implementation
-      authMethod: 'secure_bcrypt_jwt'
+      authMethod: 'secure_bcrypt_cookie_session'
     };
   }
 }
@@ -160,6 +160,11 @@ export const ADMIN_PERMISSIONS = {
     VIEW_EMPLOYEES: 'admin:employee:view',
     EDIT_EMPLOYEE: 'admin:employee:edit'
   },
+  QUOTE_MANAGEMENT: {
+    VIEW_QUOTES: 'admin:quote:view',
+    PROCESS_QUOTE: 'admin:quote:process',
+    ASSIGN_QUOTE: 'admin:quote:assign'
+  },
   SYSTEM_MANAGEMENT: {
     VIEW_AUDIT_LOGS: 'admin:system:view_logs',
     MANAGE_SETTINGS: 'admin:system:manage_settings',